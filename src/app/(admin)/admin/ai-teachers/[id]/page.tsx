@@ -53,6 +53,7 @@ import {
   AvailableTrainee,
 } from '@/lib/api/ai-teachers.api';
 import { brainApi } from '@/lib/api/brain.api';
+import { aiTeacherApi } from '@/lib/api/ai-teacher.api';
 import {
   Bot,
   ArrowLeft,
@@ -360,24 +361,9 @@ export default function AITeacherDetailPage() {
         : `Hello! I am ${formData.displayNameEn || teacher?.displayNameEn || 'the teacher'}. How can I help you today?`;
 
       // Call TTS API with voiceId directly (for previewing before save)
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/ai-teacher/tts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth-storage') ? JSON.parse(localStorage.getItem('auth-storage') || '{}')?.state?.token : ''}`,
-        },
-        body: JSON.stringify({
-          text: previewText,
-          language: isRTL ? 'ar' : 'en',
-          voiceId: voiceId, // Send voiceId directly for preview (doesn't require save first)
-        }),
-      });
-
-      if (!response.ok) {
+      const data = await aiTeacherApi.previewVoice(previewText, isRTL ? 'ar' : 'en', voiceId).catch(() => {
         throw new Error(isRTL ? 'فشل في تحميل الصوت' : 'Failed to load voice');
-      }
-
-      const data = await response.json();
+      });
 
       if (data.audio) {
         const audio = new Audio(`data:audio/mpeg;base64,${data.audio}`);
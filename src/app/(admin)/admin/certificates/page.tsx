@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { CertificateSettingsForm } from '@/components/certificates/CertificateSettingsForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { achievementTitle, formatCertificateDate } from '@/lib/certificates/template';
+import { useIssuedCertificates, useRevokeCertificate } from '@/hooks/useCertificateQueries';
+import type { CertificateSource, CertificateStatus, IssuedCertificate } from '@/types/certificate';
+import { Award, Search, Loader2, Ban, ExternalLink, Settings, List } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+const ALL = 'all';
+
+export default function AdminCertificatesPage() {
+  const { t, isRTL } = useLanguage();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [source, setSource] = useState<CertificateSource | typeof ALL>(ALL);
+  const [status, setStatus] = useState<CertificateStatus | typeof ALL>(ALL);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [revokeModal, setRevokeModal] = useState<{ open: boolean; certificate: IssuedCertificate | null }>({
+    open: false,
+    certificate: null,
+  });
+
+  // Debounce search input so we don't query on every keystroke
+  useEffect(() => {
+    const debounce = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(debounce);
+  }, [searchTerm]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearch, source, status]);
+
+  const issuedQuery = useIssuedCertificates({
+    search: debouncedSearch || undefined,
+    source: source === ALL ? undefined : source,
+    status: status === ALL ? undefined : status,
+    page: currentPage,
+    limit: PAGE_SIZE,
+  });
+  const revokeCertificate = useRevokeCertificate();
+
+  const certificates = issuedQuery.data?.certificates ?? [];
+  const total = issuedQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const lang = isRTL ? 'ar' : 'en';
+
+  const handleRevoke = async (reason?: string) => {
+    if (!revokeModal.certificate) return;
+    try {
+      await revokeCertificate.mutateAsync({ certificateId: revokeModal.certificate.id, reason: reason?.trim() ?? '' });
+      setRevokeModal({ open: false, certificate: null });
+    } catch (err) {
+      console.error('Failed to revoke certificate:', err);
+      alert(err instanceof Error ? err.message : 'Failed to revoke certificate');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Award className="w-7 h-7 text-violet-500" />
+          {t.certificate.certificates}
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          {isRTL
+            ? 'الشهادات الصادرة للمتدربين وقالب الشهادة'
+            : 'Certificates issued to trainees and the certificate template'}
+        </p>
+      </div>
+
+      <Tabs defaultValue="issued" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="issued" className="gap-2">
+            <List className="h-4 w-4" />
+            {isRTL ? 'الشهادات الصادرة' : 'Issued'}
+          </TabsTrigger>
+          <TabsTrigger value="settings" className="gap-2">
+            <Settings className="h-4 w-4" />
+            {isRTL ? 'الإعدادات والقالب' : 'Settings & template'}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="issued" className="space-y-6">
+          {/* Filters */}
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder={isRTL ? 'ابحث بالاسم أو البريد أو الرمز...' : 'Search name, email or code...'}
+                className="ps-9"
+              />
+            </div>
+            <Select value={source} onValueChange={(v) => setSource(v as typeof source)}>
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{isRTL ? 'كل الأنواع' : 'All types'}</SelectItem>
+                <SelectItem value="quiz">{t.certificate.quizCertificate}</SelectItem>
+                <SelectItem value="course">{t.certificate.courseCertificate}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={(v) => setStatus(v as typeof status)}>
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{isRTL ? 'كل الحالات' : 'All statuses'}</SelectItem>
+                <SelectItem value="valid">{t.certificate.valid}</SelectItem>
+                <SelectItem value="revoked">{t.certificate.revoked}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Certificates Table */}
+          {issuedQuery.isPending ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-violet-500" />
+            </div>
+          ) : certificates.length === 0 ? (
+            <div className="text-center py-16">
+              <Award className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-500">
+                {isRTL ? 'لم تصدر أي شهادات بعد' : 'No certificates issued yet'}
+              </h3>
+              {searchTerm && (
+                <Button variant="link" onClick={() => setSearchTerm('')} className="mt-2 text-violet-500">
+                  {isRTL ? 'مسح البحث' : 'Clear search'}
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Card className={cn(issuedQuery.isPlaceholderData && 'opacity-60')}>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50 dark:bg-gray-800">
+                        <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'المتدرب' : 'Trainee'}</th>
+                        <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'الإنجاز' : 'Achievement'}</th>
+                        <th className="px-4 py-3 text-start font-medium text-gray-500">{t.certificate.verificationCode}</th>
+                        <th className="px-4 py-3 text-start font-medium text-gray-500">{t.certificate.issuedOn}</th>
+                        <th className="px-4 py-3 text-center font-medium text-gray-500">{isRTL ? 'الحالة' : 'Status'}</th>
+                        <th className="px-4 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {certificates.map((certificate) => (
+                        <tr key={certificate.id} className="border-b hover:bg-gray-50 dark:hover:bg-gray-800">
+                          <td className="px-4 py-3">
+                            <p className="font-medium text-gray-900 dark:text-white">{certificate.recipientName}</p>
+                            <p className="text-xs text-gray-400">{certificate.traineeEmail}</p>
+                          </td>
+                          <td className="px-4 py-3 max-w-xs">
+                            <p className="text-gray-900 dark:text-white line-clamp-2">{achievementTitle(certificate, lang)}</p>
+                            <p className="text-xs text-gray-400 mt-0.5">
+                              {certificate.source === 'quiz' ? t.certificate.quizCertificate : t.certificate.courseCertificate}
+                              {certificate.score !== null && ` · ${Math.round(certificate.score)}%`}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 font-mono text-xs text-gray-600 dark:text-gray-300" dir="ltr">
+                            {certificate.verificationCode}
+                          </td>
+                          <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                            {formatCertificateDate(certificate.issuedAt, lang)}
+                          </td>
+                          <td className="px-4 py-3 text-center">
+                            <Badge
+                              className={cn(
+                                'text-xs',
+                                certificate.status === 'valid'
+                                  ? 'bg-green-100 text-green-700 border-green-200'
+                                  : 'bg-red-100 text-red-700 border-red-200'
+                              )}
+                              title={certificate.revokedReason ?? undefined}
+                            >
+                              {certificate.status === 'valid' ? t.certificate.valid : t.certificate.revoked}
+                            </Badge>
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end gap-1">
+                              <Button variant="ghost" size="sm" asChild>
+                                <a
+                                  href={`/verify/${encodeURIComponent(certificate.verificationCode)}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  <ExternalLink className="w-4 h-4" />
+                                </a>
+                              </Button>
+                              {certificate.status === 'valid' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setRevokeModal({ open: true, certificate })}
+                                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                                >
+                                  <Ban className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex justify-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                disabled={currentPage === 1}
+              >
+                {isRTL ? 'السابق' : 'Previous'}
+              </Button>
+              <span className="px-4 py-2 text-sm text-muted-foreground">
+                {isRTL ? `صفحة ${currentPage} من ${totalPages}` : `Page ${currentPage} of ${totalPages}`}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                disabled={currentPage === totalPages}
+              >
+                {isRTL ? 'التالي' : 'Next'}
+              </Button>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="settings">
+          <CertificateSettingsForm />
+        </TabsContent>
+      </Tabs>
+
+      <ConfirmationModal
+        open={revokeModal.open}
+        onOpenChange={(open) => setRevokeModal((prev) => ({ ...prev, open }))}
+        onConfirm={handleRevoke}
+        title={isRTL ? 'إلغاء الشهادة' : 'Revoke Certificate'}
+        description={
+          isRTL
+            ? 'ستظهر الشهادة كملغاة في صفحة التحقق العامة. لا يمكن التراجع عن ذلك.'
+            : 'The certificate will show as revoked on the public verification page. This cannot be undone.'
+        }
+        confirmText={isRTL ? 'إلغاء الشهادة' : 'Revoke'}
+        variant="danger"
+        icon="suspend"
+        showReasonInput
+        reasonPlaceholder={isRTL ? 'سبب الإلغاء (اختياري)' : 'Reason for revoking (optional)'}
+        isLoading={revokeCertificate.isPending}
+      />
+    </div>
+  );
+}
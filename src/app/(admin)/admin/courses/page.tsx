@@ -10,7 +10,7 @@
  * - Publish/unpublish courses
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -38,14 +38,17 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { useAuthStore } from '@/stores/auth.store';
 import { cn } from '@/lib/utils';
 import {
-  adminCoursesApi,
   Course,
   CourseCategory,
   CourseDifficulty,
-  CategoryOption,
-  DifficultyOption,
   CreateCourseData,
 } from '@/lib/api/admin-courses.api';
+import {
+  useAdminCourses,
+  useCreateCourse,
+  useToggleCoursePublish,
+  useDeleteCourse,
+} from '@/hooks/useCourseQueries';
 import {
   BookOpen,
   Plus,
@@ -106,16 +109,10 @@ export default function AdminCoursesPage() {
   const { token } = useAuthStore();
   const router = useRouter();
 
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [categories, setCategories] = useState<CategoryOption[]>([]);
-  const [difficulties, setDifficulties] = useState<DifficultyOption[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
+  const [mutationError, setMutationError] = useState<string | null>(null);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [courseToDelete, setCourseToDelete] = useState<Course | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
 
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
@@ -134,39 +131,38 @@ export default function AdminCoursesPage() {
   });
 
   // Fetch courses
-  const fetchCourses = useCallback(async () => {
-    if (!token) return;
-
-    try {
-      setIsLoading(true);
-      setError(null);
-      const data = await adminCoursesApi.listCourses({
-        category: categoryFilter,
-        difficulty: difficultyFilter,
-        search: searchQuery || undefined,
-      });
-      setCourses(data.courses);
-      setCategories(data.categories);
-      setDifficulties(data.difficulties);
-    } catch (err) {
-      console.error('Error fetching courses:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load courses');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [token, categoryFilter, difficultyFilter, searchQuery]);
-
-  useEffect(() => {
-    fetchCourses();
-  }, [fetchCourses]);
+  const coursesQuery = useAdminCourses(
+    {
+      category: categoryFilter,
+      difficulty: difficultyFilter,
+      search: searchQuery || undefined,
+    },
+    { enabled: !!token }
+  );
+  const courses = coursesQuery.data?.courses ?? [];
+  const categories = coursesQuery.data?.categories ?? [];
+  const difficulties = coursesQuery.data?.difficulties ?? [];
+  const isLoading = coursesQuery.isPending && !!token;
+  const queryError = coursesQuery.error
+    ? coursesQuery.error.message || 'Failed to load courses'
+    : null;
+  const error = mutationError ?? queryError;
+
+  const createCourse = useCreateCourse();
+  const togglePublish = useToggleCoursePublish();
+  const deleteCourse = useDeleteCourse();
+  const isCreating = createCourse.isPending;
+  const isDeleting = deleteCourse.isPending;
+
+  const handleRetry = () => {
+    setMutationError(null);
+    coursesQuery.refetch();
+  };
 
   // Toggle publish status
   const handleTogglePublish = async (course: Course) => {
     try {
-      await adminCoursesApi.togglePublish(course.id, !course.isPublished);
-      setCourses((prev) =>
-        prev.map((c) => (c.id === course.id ? { ...c, isPublished: !c.isPublished } : c))
-      );
+      await togglePublish.mutateAsync({ courseId: course.id, isPublished: !course.isPublished });
     } catch (err) {
       console.error('Error toggling publish status:', err);
     }
@@ -179,8 +175,7 @@ export default function AdminCoursesPage() {
     }
 
     try {
-      setIsCreating(true);
-      const data = await adminCoursesApi.createCourse(newCourse);
+      const data = await createCourse.mutateAsync(newCourse);
       setCreateDialogOpen(false);
       setNewCourse({
         titleAr: '',
@@ -195,9 +190,7 @@ export default function AdminCoursesPage() {
       router.push(`/admin/courses/${data.course.id}`);
     } catch (err) {
       console.error('Error creating course:', err);
-      setError(err instanceof Error ? err.message : 'Failed to create course');
-    } finally {
-      setIsCreating(false);
+      setMutationError(err instanceof Error ? err.message : 'Failed to create course');
     }
   };
 
@@ -206,16 +199,12 @@ export default function AdminCoursesPage() {
     if (!courseToDelete) return;
 
     try {
-      setIsDeleting(true);
-      await adminCoursesApi.deleteCourse(courseToDelete.id);
-      setCourses((prev) => prev.filter((c) => c.id !== courseToDelete.id));
+      await deleteCourse.mutateAsync(courseToDelete.id);
       setDeleteDialogOpen(false);
       setCourseToDelete(null);
     } catch (err) {
       console.error('Error deleting course:', err);
-      setError(err instanceof Error ? err.message : 'Failed to delete course');
-    } finally {
-      setIsDeleting(false);
+      setMutationError(err instanceof Error ? err.message : 'Failed to delete course');
     }
   };
 
@@ -269,7 +258,7 @@ export default function AdminCoursesPage() {
         <div className="flex flex-col items-center gap-4 text-center">
           <AlertCircle className="h-12 w-12 text-destructive" />
           <p className="text-lg font-medium text-destructive">{error}</p>
-          <Button onClick={fetchCourses} variant="outline">
+          <Button onClick={handleRetry} variant="outline">
             {isRTL ? 'إعادة المحاولة' : 'Try Again'}
           </Button>
         </div>
@@ -12,9 +12,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import { adminApi, type EmployeeDetail } from '@/lib/api/admin.api';
+import { ApiError } from '@/lib/api/client';
 import Link from 'next/link';
 import {
   ArrowLeft,
@@ -38,72 +39,17 @@ import {
   Loader2,
 } from 'lucide-react';
 
-interface EmployeeDetail {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  role: string;
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number | null;
-  lastActivityAt: string | null;
-  createdAt: string;
-  status: string;
-  sessions: {
-    id: string;
-    scenarioType: string;
-    difficultyLevel: string;
-    status: string;
-    score: number | null;
-    grade: string | null;
-    completedAt: string | null;
-    durationSeconds: number | null;
-  }[];
-  scoreHistory: {
-    date: string;
-    score: number;
-    sessionId: string;
-  }[];
-  skillBreakdown: {
-    skill: string;
-    averageScore: number;
-    sessionCount: number;
-  }[];
-  weakSkills: string[];
-  recommendations: string[];
-}
-
 export default function EmployeeDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { token } = useAuthStore();
   const { isRTL } = useLanguage();
   const [isLoading, setIsLoading] = useState(true);
   const [employee, setEmployee] = useState<EmployeeDetail | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isUpdatingRole, setIsUpdatingRole] = useState(false);
 
-  // Helper to get token from Zustand store or localStorage
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-
-    // Fallback to localStorage if store isn't hydrated yet
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
   const fetchData = useCallback(async () => {
-    const authToken = getAuthToken();
-    if (!authToken || !params.id) {
+    if (!params.id) {
       setError(isRTL ? 'غير مصرح' : 'Not authorized');
       setIsLoading(false);
       return;
@@ -112,32 +58,20 @@ export default function EmployeeDetailPage() {
     setIsLoading(true);
     setError(null);
     try {
-      // NEXT_PUBLIC_API_URL already includes /api
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/admin/employees/${params.id}`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          setError(isRTL ? 'الموظف غير موجود' : 'Employee not found');
-        } else {
-          setError(isRTL ? 'فشل تحميل بيانات الموظف' : 'Failed to load employee data');
-        }
-        return;
-      }
-
-      setEmployee(await response.json());
+      setEmployee(await adminApi.getEmployee(params.id as string));
     } catch (err) {
       console.error('Error fetching employee:', err);
-      setError(isRTL ? 'فشل الاتصال بالخادم' : 'Failed to connect to server');
+      if (err instanceof ApiError) {
+        setError(err.status === 404
+          ? (isRTL ? 'الموظف غير موجود' : 'Employee not found')
+          : (isRTL ? 'فشل تحميل بيانات الموظف' : 'Failed to load employee data'));
+      } else {
+        setError(isRTL ? 'فشل الاتصال بالخادم' : 'Failed to connect to server');
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [getAuthToken, params.id, isRTL]);
+  }, [params.id, isRTL]);
 
   useEffect(() => {
     // Small delay to allow store hydration
@@ -148,30 +82,15 @@ export default function EmployeeDetailPage() {
   }, [fetchData]);
 
   const handleRoleChange = async (newRole: string) => {
-    const authToken = getAuthToken();
-    if (!authToken || !employee) return;
+    if (!employee) return;
 
     setIsUpdatingRole(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/admin/employees/${employee.id}/role`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ role: newRole }),
-      });
-
-      if (response.ok) {
-        setEmployee({ ...employee, role: newRole });
-      } else {
-        const data = await response.json();
-        alert(data.error || (isRTL ? 'فشل تحديث الدور' : 'Failed to update role'));
-      }
+      await adminApi.updateEmployeeRole(employee.id, newRole);
+      setEmployee({ ...employee, role: newRole });
     } catch (err) {
       console.error('Error updating role:', err);
-      alert(isRTL ? 'فشل تحديث الدور' : 'Failed to update role');
+      alert((err instanceof ApiError && err.message) || (isRTL ? 'فشل تحديث الدور' : 'Failed to update role'));
     } finally {
       setIsUpdatingRole(false);
     }
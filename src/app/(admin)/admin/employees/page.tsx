@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -23,6 +23,16 @@ import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAdminRoleSafe } from '@/contexts/AdminRoleContext';
 import { cn } from '@/lib/utils';
+import type { Employee } from '@/lib/api/admin.api';
+import {
+  useEmployees,
+  useAdminDashboard,
+  useAdminGroups,
+  useCreateEmployee,
+  useUpdateEmployee,
+  useUpdateEmployeeStatus,
+  useDeleteEmployee,
+} from '@/hooks/useAdminQueries';
 import Link from 'next/link';
 import {
   Users,
@@ -48,49 +58,12 @@ import { EditEmployeeModal } from '@/components/admin/EditEmployeeModal';
 import { AddUserModal } from '@/components/admin/AddUserModal';
 import { UserPlus } from 'lucide-react';
 
-interface Employee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  role: string;
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number | null;
-  lastActivityAt: string | null;
-  createdAt: string;
-  status: string;
-}
-
-interface EmployeesResponse {
-  employees: Employee[];
-  total: number;
-  page: number;
-  totalPages: number;
-}
-
-interface DashboardStats {
-  totalUsers: number;
-  activeUsers: number;
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number;
-}
-
-interface Group {
-  id: string;
-  name: string;
-}
-
 export default function EmployeesPage() {
-  const { token, user } = useAuthStore();
+  const { user } = useAuthStore();
   const { isRTL } = useLanguage();
   const { isTrainer, isOrgAdmin, permissions } = useAdminRoleSafe();
-  const [isLoading, setIsLoading] = useState(true);
-  const [data, setData] = useState<EmployeesResponse | null>(null);
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [groups, setGroups] = useState<Group[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [sortBy, setSortBy] = useState('lastName');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [currentPage, setCurrentPage] = useState(1);
@@ -109,186 +82,73 @@ export default function EmployeesPage() {
     employee: null,
   });
   const [addUserModal, setAddUserModal] = useState(false);
-  const [actionLoading, setActionLoading] = useState(false);
 
   // Trainers can only view, org_admins can modify
   const canModifyEmployees = permissions?.canModifyEmployees ?? isOrgAdmin;
 
-  // Helper to get token
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
-  const fetchData = useCallback(async () => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
-    setIsLoading(true);
-    try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const params = new URLSearchParams({
-        page: currentPage.toString(),
-        limit: '20',
-        sortBy,
-        sortOrder,
-      });
-      if (searchTerm) {
-        params.append('search', searchTerm);
-      }
-
-      const [employeesRes, dashboardRes] = await Promise.all([
-        fetch(`${apiUrl}/admin/employees?${params}`, {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Content-Type': 'application/json',
-          },
-        }),
-        fetch(`${apiUrl}/admin/dashboard`, {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Content-Type': 'application/json',
-          },
-        }),
-      ]);
-
-      if (employeesRes.ok) {
-        setData(await employeesRes.json());
-      }
-      if (dashboardRes.ok) {
-        const dashData = await dashboardRes.json();
-        setStats(dashData.overview);
-      }
-
-      // Fetch groups for the add user modal
-      try {
-        const groupsRes = await fetch(`${apiUrl}/admin/groups`, {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        if (groupsRes.ok) {
-          const groupsData = await groupsRes.json();
-          setGroups(groupsData.groups?.map((g: { id: string; name: string }) => ({ id: g.id, name: g.name })) || []);
-        }
-      } catch {
-        // Groups fetch failed - non-critical
-      }
-    } catch (err) {
-      console.error('Error fetching employees:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [getAuthToken, currentPage, sortBy, sortOrder, searchTerm]);
-
+  // Debounce search input so we don't query on every keystroke
   useEffect(() => {
-    const debounce = setTimeout(() => {
-      fetchData();
-    }, 300);
-
+    const debounce = setTimeout(() => setDebouncedSearch(searchTerm), 300);
     return () => clearTimeout(debounce);
-  }, [fetchData]);
+  }, [searchTerm]);
+
+  const employeesQuery = useEmployees({
+    page: currentPage,
+    limit: 20,
+    sortBy,
+    sortOrder,
+    search: debouncedSearch || undefined,
+  });
+  const dashboardQuery = useAdminDashboard();
+  const groupsQuery = useAdminGroups();
+
+  const data = employeesQuery.data;
+  const stats = dashboardQuery.data?.overview;
+  const groups = groupsQuery.data?.groups?.map((g) => ({ id: g.id, name: g.name })) || [];
+  const isLoading = employeesQuery.isPending;
+
+  const createEmployee = useCreateEmployee();
+  const updateEmployee = useUpdateEmployee();
+  const updateEmployeeStatus = useUpdateEmployeeStatus();
+  const deleteEmployee = useDeleteEmployee();
+  const actionLoading = deleteEmployee.isPending || updateEmployeeStatus.isPending;
+
+  const handleRefresh = () => {
+    employeesQuery.refetch();
+    dashboardQuery.refetch();
+  };
 
   // Action handlers
   const handleDelete = async () => {
     if (!deleteModal.employee) return;
 
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
-    setActionLoading(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const res = await fetch(`${apiUrl}/admin/employees/${deleteModal.employee.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.error || 'Failed to delete');
-      }
-
+      await deleteEmployee.mutateAsync(deleteModal.employee.id);
       setDeleteModal({ open: false, employee: null });
-      fetchData();
     } catch (err) {
       console.error('Error deleting employee:', err);
       alert(err instanceof Error ? err.message : 'Failed to delete employee');
-    } finally {
-      setActionLoading(false);
     }
   };
 
   const handleSuspendToggle = async (reason?: string) => {
     if (!suspendModal.employee) return;
 
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     const newStatus = suspendModal.employee.status === 'suspended' ? 'active' : 'suspended';
 
-    setActionLoading(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const res = await fetch(`${apiUrl}/admin/employees/${suspendModal.employee.id}/status`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: newStatus, reason }),
-      });
-
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.error || 'Failed to update status');
-      }
-
+      await updateEmployeeStatus.mutateAsync({ id: suspendModal.employee.id, status: newStatus, reason });
       setSuspendModal({ open: false, employee: null });
-      fetchData();
     } catch (err) {
       console.error('Error updating employee status:', err);
       alert(err instanceof Error ? err.message : 'Failed to update status');
-    } finally {
-      setActionLoading(false);
     }
   };
 
   const handleEdit = async (data: { firstName: string; lastName: string; email: string; role: string }) => {
     if (!editModal.employee) return;
 
-    const authToken = getAuthToken();
-    if (!authToken) throw new Error('Not authenticated');
-
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-    const res = await fetch(`${apiUrl}/admin/employees/${editModal.employee.id}`, {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.error || 'Failed to update');
-    }
-
-    fetchData();
+    await updateEmployee.mutateAsync({ id: editModal.employee.id, data });
   };
 
   const handleAddUser = async (data: {
@@ -299,25 +159,7 @@ export default function EmployeesPage() {
     role: string;
     groupId?: string;
   }) => {
-    const authToken = getAuthToken();
-    if (!authToken) throw new Error('Not authenticated');
-
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-    const res = await fetch(`${apiUrl}/admin/employees`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.error || 'Failed to create user');
-    }
-
-    fetchData();
+    await createEmployee.mutateAsync(data);
   };
 
   const getScoreColor = (score: number | null) => {
@@ -414,8 +256,8 @@ export default function EmployeesPage() {
               {isRTL ? 'إضافة مستخدم جديد' : 'Add New User'}
             </Button>
           )}
-          <Button variant="outline" onClick={fetchData} className="gap-2">
-            <RefreshCw className="h-4 w-4" />
+          <Button variant="outline" onClick={handleRefresh} className="gap-2">
+            <RefreshCw className={cn("h-4 w-4", employeesQuery.isFetching && "animate-spin")} />
             {isRTL ? 'تحديث' : 'Refresh'}
           </Button>
         </div>
@@ -6,9 +6,17 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { flashcardApi } from '@/lib/api/flashcard.api';
+import { deckFileName, deckToAnkiText, deckToCSVRows, serializeDeck } from '@/lib/flashcards/deck-transfer';
+import { downloadCSV, downloadJSON, downloadText } from '@/lib/utils/pdf-export';
 import type { DeckDetail, CardDetail, CreateCardInput } from '@/types/flashcard';
 import {
   ArrowLeft,
@@ -20,6 +28,10 @@ import {
   Layers,
   BookOpen,
   Pencil,
+  Download,
+  FileJson,
+  FileText,
+  FileSpreadsheet,
 } from 'lucide-react';
 
 export default function EditDeckPage() {
@@ -117,6 +129,17 @@ export default function EditDeckPage() {
     }
   };
 
+  const handleExport = (format: 'json' | 'anki' | 'csv') => {
+    if (!deck) return;
+    if (format === 'json') {
+      downloadJSON(serializeDeck(deck), deckFileName(deck, 'json'));
+    } else if (format === 'anki') {
+      downloadText(deckToAnkiText(deck), deckFileName(deck, 'txt'));
+    } else if (deck.cards.length > 0) {
+      downloadCSV(deckToCSVRows(deck), deckFileName(deck, 'csv'));
+    }
+  };
+
   const BackIcon = isRTL ? ArrowRight : ArrowLeft;
 
   if (loading) {
@@ -149,6 +172,32 @@ export default function EditDeckPage() {
           </h1>
           <p className="text-gray-500 mt-1">{deck.title}</p>
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="ms-auto">
+              <Download className="w-4 h-4 mr-1" />
+              {isRTL ? 'تصدير' : 'Export'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align={isRTL ? 'start' : 'end'} className="w-52">
+            <DropdownMenuItem onClick={() => handleExport('json')} className="gap-2">
+              <FileJson className="h-4 w-4" />
+              {isRTL ? 'JSON (نسخة كاملة)' : 'JSON (full deck)'}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('anki')} className="gap-2">
+              <FileText className="h-4 w-4" />
+              {isRTL ? 'نص Anki' : 'Anki text'}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => handleExport('csv')}
+              disabled={deck.cards.length === 0}
+              className="gap-2"
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              CSV
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Deck Metadata */}
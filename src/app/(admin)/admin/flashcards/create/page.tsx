@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { flashcardApi } from '@/lib/api/flashcard.api';
+import { DeckImportPanel, type DeckImportResult } from '@/components/flashcards/DeckImportPanel';
 import type { CreateCardInput } from '@/types/flashcard';
 import {
   ArrowLeft,
@@ -107,6 +108,27 @@ export default function CreateDeckPage() {
     }
   };
 
+  const handleImport = ({ deck, cards: imported }: DeckImportResult) => {
+    if (deck && !title.trim()) {
+      setTitle(deck.title);
+      setTitleAr(deck.titleAr || '');
+      setDescription(deck.description || '');
+      setDescriptionAr(deck.descriptionAr || '');
+      setCategory(deck.category || '');
+    }
+    // Imported cards replace the blank starter card but are appended to real ones
+    setCards(prev => [
+      ...prev.filter(c => c.front.trim() || c.back.trim()),
+      ...imported.map(c => ({
+        ...c,
+        frontAr: c.frontAr || '',
+        backAr: c.backAr || '',
+        hint: c.hint || '',
+        hintAr: c.hintAr || '',
+      })),
+    ].map((c, i) => ({ ...c, orderInDeck: i })));
+  };
+
   const BackIcon = isRTL ? ArrowRight : ArrowLeft;
 
   return (
@@ -165,6 +187,9 @@ export default function CreateDeckPage() {
         </CardContent>
       </Card>
 
+      {/* Import Panel */}
+      <DeckImportPanel onImport={handleImport} />
+
       {/* Deck Metadata */}
       <Card>
         <CardContent className="p-5 space-y-4">
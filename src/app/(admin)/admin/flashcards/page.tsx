@@ -1,14 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { flashcardApi } from '@/lib/api/flashcard.api';
-import type { DeckListItem } from '@/types/flashcard';
+import { useAdminDecks, usePublishDeck, useDeleteDeck } from '@/hooks/useFlashcardQueries';
 import {
   Plus,
   Layers,
@@ -25,30 +24,14 @@ export default function AdminFlashcardsPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
 
-  const [decks, setDecks] = useState<DeckListItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: decks = [], isPending: loading } = useAdminDecks();
+  const publishDeck = usePublishDeck();
+  const deleteDeck = useDeleteDeck();
   const [deleting, setDeleting] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchDecks();
-  }, []);
-
-  const fetchDecks = async () => {
-    try {
-      setLoading(true);
-      const data = await flashcardApi.getAdminDecks();
-      setDecks(data.decks);
-    } catch (err) {
-      console.error('Failed to fetch decks:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handlePublish = async (deckId: string, publish: boolean) => {
     try {
-      await flashcardApi.publishDeck(deckId, publish);
-      setDecks(prev => prev.map(d => d.id === deckId ? { ...d, isPublished: publish } : d));
+      await publishDeck.mutateAsync({ deckId, publish });
     } catch (err) {
       console.error('Failed to toggle publish:', err);
     }
@@ -58,8 +41,7 @@ export default function AdminFlashcardsPage() {
     if (!confirm(t.flashcard.confirmDeleteDesc)) return;
     try {
       setDeleting(deckId);
-      await flashcardApi.deleteDeck(deckId);
-      setDecks(prev => prev.filter(d => d.id !== deckId));
+      await deleteDeck.mutateAsync(deckId);
     } catch (err) {
       console.error('Failed to delete deck:', err);
     } finally {
@@ -25,6 +25,12 @@ import {
 import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import {
+  groupsApi,
+  type AvailableGroupUser,
+  type GroupDetail,
+} from '@/lib/api/groups.api';
+import { ApiError } from '@/lib/api/client';
 import Link from 'next/link';
 import {
   UsersRound,
@@ -42,67 +48,10 @@ import {
   X,
 } from 'lucide-react';
 
-interface Trainer {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-}
-
-interface Member {
-  id: string;
-  trainee: {
-    id: string;
-    firstName: string;
-    lastName: string;
-    email: string;
-    role: string;
-  };
-  joinedAt: string;
-  isActive: boolean;
-}
-
-interface TrainerAssignment {
-  id: string;
-  trainer: Trainer;
-  assignedAt: string;
-  isActive: boolean;
-}
-
-interface GroupDetail {
-  id: string;
-  name: string;
-  description: string | null;
-  isActive: boolean;
-  createdAt: string;
-  members: Member[];
-  trainerAssignments: TrainerAssignment[];
-  _count: {
-    members: number;
-    trainerAssignments: number;
-  };
-}
-
-interface AvailableTrainee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  groupCount: number;
-}
-
-interface AvailableTrainer {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  groupCount: number;
-}
-
 export default function GroupDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { token, user } = useAuthStore();
+  const { user } = useAuthStore();
   const { isRTL } = useLanguage();
   const groupId = params.id as string;
 
@@ -118,97 +67,47 @@ export default function GroupDetailPage() {
 
   // Add member dialog
   const [isAddMemberOpen, setIsAddMemberOpen] = useState(false);
-  const [availableTrainees, setAvailableTrainees] = useState<AvailableTrainee[]>([]);
+  const [availableTrainees, setAvailableTrainees] = useState<AvailableGroupUser[]>([]);
   const [selectedTrainees, setSelectedTrainees] = useState<string[]>([]);
   const [isAddingMembers, setIsAddingMembers] = useState(false);
 
   // Add trainer dialog
   const [isAddTrainerOpen, setIsAddTrainerOpen] = useState(false);
-  const [availableTrainers, setAvailableTrainers] = useState<AvailableTrainer[]>([]);
+  const [availableTrainers, setAvailableTrainers] = useState<AvailableGroupUser[]>([]);
   const [selectedTrainer, setSelectedTrainer] = useState<string>('');
   const [isAssigningTrainer, setIsAssigningTrainer] = useState(false);
 
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
   const fetchGroup = useCallback(async () => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     setIsLoading(true);
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setGroup(data.group);
-        setEditName(data.group.name);
-        setEditDescription(data.group.description || '');
-      } else if (response.status === 404) {
+      const data = await groupsApi.get(groupId);
+      setGroup(data.group);
+      setEditName(data.group.name);
+      setEditDescription(data.group.description || '');
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
         router.push('/admin/groups');
+      } else {
+        console.error('Error fetching group:', err);
       }
-    } catch (err) {
-      console.error('Error fetching group:', err);
     } finally {
       setIsLoading(false);
     }
-  }, [getAuthToken, apiUrl, groupId, router]);
+  }, [groupId, router]);
 
   const fetchAvailableTrainees = async () => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     try {
-      const response = await fetch(`${apiUrl}/groups/available-trainees`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setAvailableTrainees(data.trainees || []);
-      }
+      const data = await groupsApi.getAvailableTrainees();
+      setAvailableTrainees(data.trainees || []);
     } catch (err) {
       console.error('Error fetching available trainees:', err);
     }
   };
 
   const fetchAvailableTrainers = async () => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     try {
-      const response = await fetch(`${apiUrl}/groups/available-trainers`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setAvailableTrainers(data.trainers || []);
-      }
+      const data = await groupsApi.getAvailableTrainers();
+      setAvailableTrainers(data.trainers || []);
     } catch (err) {
       console.error('Error fetching available trainers:', err);
     }
@@ -219,150 +118,83 @@ export default function GroupDetailPage() {
   }, [fetchGroup]);
 
   const handleSaveEdit = async () => {
-    const authToken = getAuthToken();
-    if (!authToken || !editName.trim()) return;
+    if (!editName.trim()) return;
 
     setIsSaving(true);
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}`, {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: editName.trim(),
-          description: editDescription.trim() || null,
-        }),
+      await groupsApi.update(groupId, {
+        name: editName.trim(),
+        description: editDescription.trim() || null,
       });
-
-      if (response.ok) {
-        setIsEditing(false);
-        fetchGroup();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to update group');
-      }
+      setIsEditing(false);
+      fetchGroup();
     } catch (err) {
       console.error('Error updating group:', err);
+      alert((err instanceof Error && err.message) || 'Failed to update group');
     } finally {
       setIsSaving(false);
     }
   };
 
   const handleAddMembers = async () => {
-    const authToken = getAuthToken();
-    if (!authToken || selectedTrainees.length === 0) return;
+    if (selectedTrainees.length === 0) return;
 
     setIsAddingMembers(true);
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}/members`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ traineeIds: selectedTrainees }),
-      });
-
-      if (response.ok) {
-        setIsAddMemberOpen(false);
-        setSelectedTrainees([]);
-        fetchGroup();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to add members');
-      }
+      await groupsApi.addMembers(groupId, selectedTrainees);
+      setIsAddMemberOpen(false);
+      setSelectedTrainees([]);
+      fetchGroup();
     } catch (err) {
       console.error('Error adding members:', err);
+      alert((err instanceof Error && err.message) || 'Failed to add members');
     } finally {
       setIsAddingMembers(false);
     }
   };
 
   const handleRemoveMember = async (traineeId: string) => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     if (!confirm(isRTL ? 'هل أنت متأكد من إزالة هذا المتدرب؟' : 'Are you sure you want to remove this trainee?')) {
       return;
     }
 
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}/members/${traineeId}`, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        fetchGroup();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to remove member');
-      }
+      await groupsApi.removeMember(groupId, traineeId);
+      fetchGroup();
     } catch (err) {
       console.error('Error removing member:', err);
+      alert((err instanceof Error && err.message) || 'Failed to remove member');
     }
   };
 
   const handleAssignTrainer = async () => {
-    const authToken = getAuthToken();
-    if (!authToken || !selectedTrainer) return;
+    if (!selectedTrainer) return;
 
     setIsAssigningTrainer(true);
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}/trainers`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ trainerId: selectedTrainer }),
-      });
-
-      if (response.ok) {
-        setIsAddTrainerOpen(false);
-        setSelectedTrainer('');
-        fetchGroup();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to assign trainer');
-      }
+      await groupsApi.assignTrainer(groupId, selectedTrainer);
+      setIsAddTrainerOpen(false);
+      setSelectedTrainer('');
+      fetchGroup();
     } catch (err) {
       console.error('Error assigning trainer:', err);
+      alert((err instanceof Error && err.message) || 'Failed to assign trainer');
     } finally {
       setIsAssigningTrainer(false);
     }
   };
 
   const handleUnassignTrainer = async (trainerId: string) => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     if (!confirm(isRTL ? 'هل أنت متأكد من إلغاء تعيين هذا المدرب؟' : 'Are you sure you want to unassign this trainer?')) {
       return;
     }
 
     try {
-      const response = await fetch(`${apiUrl}/groups/${groupId}/trainers/${trainerId}`, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        fetchGroup();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to unassign trainer');
-      }
+      await groupsApi.unassignTrainer(groupId, trainerId);
+      fetchGroup();
     } catch (err) {
       console.error('Error unassigning trainer:', err);
+      alert((err instanceof Error && err.message) || 'Failed to unassign trainer');
     }
   };
 
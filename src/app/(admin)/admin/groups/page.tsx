@@ -14,10 +14,10 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAdminRoleSafe } from '@/contexts/AdminRoleContext';
 import { cn } from '@/lib/utils';
+import { groupsApi, type GroupSummary } from '@/lib/api/groups.api';
 import Link from 'next/link';
 import {
   UsersRound,
@@ -33,29 +33,11 @@ import {
   Edit,
 } from 'lucide-react';
 
-interface Trainer {
-  id: string;
-  firstName: string;
-  lastName: string;
-}
-
-interface Group {
-  id: string;
-  name: string;
-  description: string | null;
-  isActive: boolean;
-  createdAt: string;
-  memberCount: number;
-  trainerCount: number;
-  trainers: Trainer[];
-}
-
 export default function GroupsPage() {
-  const { token } = useAuthStore();
   const { isRTL } = useLanguage();
   const { isTrainer, isOrgAdmin, permissions } = useAdminRoleSafe();
   const [isLoading, setIsLoading] = useState(true);
-  const [groups, setGroups] = useState<Group[]>([]);
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newGroupName, setNewGroupName] = useState('');
@@ -66,46 +48,18 @@ export default function GroupsPage() {
   const canCreateGroups = permissions?.canCreateGroups ?? isOrgAdmin;
   const canDeleteGroups = permissions?.canDeleteGroups ?? isOrgAdmin;
 
-  // Helper to get token
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
   const fetchGroups = useCallback(async () => {
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     setIsLoading(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      // Use /admin/groups endpoint which filters for trainers automatically
-      const response = await fetch(`${apiUrl}/admin/groups`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setGroups(data.groups || []);
-      }
+      // /admin/groups filters for trainers automatically
+      const data = await groupsApi.list();
+      setGroups(data.groups || []);
     } catch (err) {
       console.error('Error fetching groups:', err);
     } finally {
       setIsLoading(false);
     }
-  }, [getAuthToken]);
+  }, []);
 
   useEffect(() => {
     fetchGroups();
@@ -114,36 +68,19 @@ export default function GroupsPage() {
   const handleCreateGroup = async () => {
     if (!newGroupName.trim()) return;
 
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     setIsCreating(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/groups`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: newGroupName.trim(),
-          description: newGroupDescription.trim() || null,
-        }),
+      await groupsApi.create({
+        name: newGroupName.trim(),
+        description: newGroupDescription.trim() || null,
       });
-
-      if (response.ok) {
-        setNewGroupName('');
-        setNewGroupDescription('');
-        setIsCreateDialogOpen(false);
-        fetchGroups();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to create group');
-      }
+      setNewGroupName('');
+      setNewGroupDescription('');
+      setIsCreateDialogOpen(false);
+      fetchGroups();
     } catch (err) {
       console.error('Error creating group:', err);
-      alert('Failed to create group');
+      alert((err instanceof Error && err.message) || 'Failed to create group');
     } finally {
       setIsCreating(false);
     }
@@ -154,28 +91,12 @@ export default function GroupsPage() {
       return;
     }
 
-    const authToken = getAuthToken();
-    if (!authToken) return;
-
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/groups/${groupId}`, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        fetchGroups();
-      } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to delete group');
-      }
+      await groupsApi.delete(groupId);
+      fetchGroups();
     } catch (err) {
       console.error('Error deleting group:', err);
-      alert('Failed to delete group');
+      alert((err instanceof Error && err.message) || 'Failed to delete group');
     }
   };
 
@@ -46,6 +46,11 @@ import {
   Brain,
   Bot,
   BookOpen,
+  Award,
+  Theater,
+  Home,
+  Radio,
+  Scale,
 } from 'lucide-react';
 import { useState, useEffect, useCallback, useMemo } from 'react';
 
@@ -115,6 +120,15 @@ export default function AdminLayout({
           : (isTrainer ? 'Monitor your students calls' : 'Monitor calls'),
         showFor: ['trainer', 'org_admin'],
       },
+      {
+        href: '/admin/live',
+        label: isRTL ? 'الجلسات المباشرة' : 'Live Sessions',
+        icon: Radio,
+        description: isRTL
+          ? (isTrainer ? 'تابع طلابك أثناء التدريب' : 'متابعة المحاكاة المباشرة')
+          : (isTrainer ? 'Watch your students practice' : 'Watch simulations live'),
+        showFor: ['trainer', 'org_admin'],
+      },
       {
         href: '/admin/quizzes',
         label: isRTL ? 'الاختبارات' : 'Quizzes',
@@ -133,6 +147,27 @@ export default function AdminLayout({
           : (isTrainer ? 'Manage your flashcards' : 'Manage flashcards'),
         showFor: ['trainer', 'org_admin'],
       },
+      {
+        href: '/admin/scenarios',
+        label: isRTL ? 'السيناريوهات' : 'Scenarios',
+        icon: Theater,
+        description: isRTL ? 'سيناريوهات وشخصيات المحاكاة' : 'Simulation scenarios & personas',
+        showFor: ['org_admin'],
+      },
+      {
+        href: '/admin/listings',
+        label: isRTL ? 'العقارات' : 'Listings',
+        icon: Home,
+        description: isRTL ? 'كتالوج العقارات للمحاكاة' : 'Property listings for simulations',
+        showFor: ['org_admin'],
+      },
+      {
+        href: '/admin/rubrics',
+        label: isRTL ? 'سلالم التقييم' : 'Rubrics',
+        icon: Scale,
+        description: isRTL ? 'معايير تقييم المحاكاة' : 'Simulation scoring criteria',
+        showFor: ['org_admin'],
+      },
       {
         href: '/admin/ai-teachers',
         label: isRTL ? 'المعلمين الأذكياء' : 'AI Teachers',
@@ -160,6 +195,13 @@ export default function AdminLayout({
           : 'Manage courses & lectures',
         showFor: ['org_admin', 'trainer'],
       },
+      {
+        href: '/admin/certificates',
+        label: isRTL ? 'الشهادات' : 'Certificates',
+        icon: Award,
+        description: isRTL ? 'قوالب الشهادات والشهادات الصادرة' : 'Certificate templates & issued certificates',
+        showFor: ['org_admin'],
+      },
       {
         href: '/admin/reports',
         label: isRTL ? 'التقارير' : 'Reports',
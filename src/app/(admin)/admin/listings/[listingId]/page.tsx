@@ -0,0 +1,63 @@
+'use client';
+
+import { useRouter, useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ListingForm } from '@/components/simulation/ListingForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAdminListing, useSaveListing } from '@/hooks/useListingQueries';
+import type { CreateListingInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Building2, Loader2 } from 'lucide-react';
+
+export default function EditListingPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const params = useParams();
+  const listingId = params.listingId as string;
+
+  const listingQuery = useAdminListing(listingId);
+  const saveListing = useSaveListing();
+
+  const handleSave = async (data: CreateListingInput) => {
+    await saveListing.mutateAsync({ listingId, data });
+    router.push('/admin/listings');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  if (listingQuery.isPending) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-sky-500" />
+      </div>
+    );
+  }
+
+  if (!listingQuery.data) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-gray-500">{isRTL ? 'العقار غير موجود' : 'Listing not found'}</p>
+        <Button variant="link" onClick={() => router.push('/admin/listings')} className="mt-2 text-sky-500">
+          {isRTL ? 'العودة للعقارات' : 'Back to listings'}
+        </Button>
+      </div>
+    );
+  }
+
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...initial } = listingQuery.data;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/listings')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Building2 className="w-7 h-7 text-sky-500" />
+          {isRTL && initial.titleAr ? initial.titleAr : initial.title}
+        </h1>
+      </div>
+
+      <ListingForm initial={initial} saving={saveListing.isPending} onSave={handleSave} />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ListingForm } from '@/components/simulation/ListingForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSaveListing } from '@/hooks/useListingQueries';
+import { EMPTY_LISTING } from '@/lib/simulation/listings';
+import type { CreateListingInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Building2 } from 'lucide-react';
+
+export default function CreateListingPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const saveListing = useSaveListing();
+
+  const handleSave = async (data: CreateListingInput) => {
+    await saveListing.mutateAsync({ data });
+    router.push('/admin/listings');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/listings')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Building2 className="w-7 h-7 text-sky-500" />
+          {isRTL ? 'عقار جديد' : 'New Listing'}
+        </h1>
+      </div>
+
+      <ListingForm initial={EMPTY_LISTING} saving={saveListing.isPending} onSave={handleSave} />
+    </div>
+  );
+}
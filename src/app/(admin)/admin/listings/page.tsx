@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAdminListings, useDeleteListing } from '@/hooks/useListingQueries';
+import { formatListingPrice, listingLocation, listingTitle } from '@/lib/simulation/listings';
+import type { PropertyListing } from '@/types/simulation.types';
+import { Plus, Building2, Pencil, Trash2, Loader2, MapPin, Ruler, BedDouble, AlertTriangle } from 'lucide-react';
+
+export default function AdminListingsPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+
+  const { data: listings = [], isPending: loading } = useAdminListings();
+  const deleteListing = useDeleteListing();
+  const [deleteModal, setDeleteModal] = useState<{ open: boolean; listing: PropertyListing | null }>({
+    open: false,
+    listing: null,
+  });
+
+  const handleDelete = async () => {
+    if (!deleteModal.listing) return;
+    try {
+      await deleteListing.mutateAsync(deleteModal.listing.id);
+      setDeleteModal({ open: false, listing: null });
+    } catch (err) {
+      console.error('Failed to delete listing:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete listing');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-sky-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Building2 className="w-7 h-7 text-sky-500" />
+            {isRTL ? 'كتالوج العقارات' : 'Listings Catalogue'}
+          </h1>
+          <p className="text-gray-500 mt-1">
+            {listings.length} {isRTL ? 'عقار' : 'listings'}
+          </p>
+        </div>
+        <Button className="bg-sky-500 hover:bg-sky-600" onClick={() => router.push('/admin/listings/create')}>
+          <Plus className="w-4 h-4 mr-2" />
+          {isRTL ? 'عقار جديد' : 'New Listing'}
+        </Button>
+      </div>
+
+      {/* Listing Grid */}
+      {listings.length === 0 ? (
+        <div className="text-center py-16">
+          <Building2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-500">{isRTL ? 'لا توجد عقارات بعد' : 'No listings yet'}</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {isRTL
+              ? 'أضف عقارات حقيقية ليتدرب فريقك على عرضها بمعلومات دقيقة'
+              : 'Add real listings so your team can practice presenting them with accurate facts'}
+          </p>
+          <Button className="mt-4 bg-sky-500 hover:bg-sky-600" onClick={() => router.push('/admin/listings/create')}>
+            <Plus className="w-4 h-4 mr-2" />
+            {isRTL ? 'عقار جديد' : 'New Listing'}
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {listings.map((listing) => (
+            <Card key={listing.id} className="hover:shadow-md transition-shadow overflow-hidden">
+              {listing.photos[0] ? (
+                <img src={listing.photos[0]} alt="" className="w-full h-36 object-cover" />
+              ) : (
+                <div className="h-2 bg-gradient-to-r from-sky-400 to-blue-500" />
+              )}
+              <CardContent className="p-5 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{listingTitle(listing, isRTL)}</h3>
+                    <p className="text-sm text-gray-500 mt-1 flex items-center gap-1">
+                      <MapPin className="w-3.5 h-3.5" />
+                      {listingLocation(listing, isRTL)}
+                    </p>
+                  </div>
+                  <span className="font-bold text-sky-600 shrink-0">{formatListingPrice(listing, isRTL)}</span>
+                </div>
+
+                <div className="flex items-center gap-3 text-sm text-gray-500 flex-wrap">
+                  {listing.propertyType && <Badge variant="outline" className="text-xs">{listing.propertyType}</Badge>}
+                  <span className="flex items-center gap-1">
+                    <Ruler className="w-3.5 h-3.5" />
+                    {listing.areaSqm} {isRTL ? 'م²' : 'm²'}
+                  </span>
+                  {listing.bedrooms !== null && (
+                    <span className="flex items-center gap-1">
+                      <BedDouble className="w-3.5 h-3.5" />
+                      {listing.bedrooms}
+                    </span>
+                  )}
+                  {listing.knownDefects.length > 0 && (
+                    <span className="flex items-center gap-1 text-amber-600">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {listing.knownDefects.length} {isRTL ? 'عيوب' : 'defects'}
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 pt-2 border-t">
+                  <Button variant="outline" size="sm" onClick={() => router.push(`/admin/listings/${listing.id}`)}>
+                    <Pencil className="w-3.5 h-3.5 mr-1" />
+                    {isRTL ? 'تعديل' : 'Edit'}
+                  </Button>
+                  {!listing.isActive && (
+                    <Badge variant="secondary" className="text-xs">{isRTL ? 'غير متاح' : 'Hidden'}</Badge>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 ml-auto"
+                    onClick={() => setDeleteModal({ open: true, listing })}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ConfirmationModal
+        open={deleteModal.open}
+        onOpenChange={(open) => setDeleteModal((prev) => ({ ...prev, open }))}
+        onConfirm={handleDelete}
+        title={isRTL ? 'حذف العقار' : 'Delete Listing'}
+        description={
+          isRTL
+            ? 'لن يظهر العقار للمتدربين بعد الآن. الجلسات السابقة وتقاريرها لن تتأثر.'
+            : 'Trainees will no longer see this listing. Past sessions and their reports are not affected.'
+        }
+        confirmText={isRTL ? 'حذف' : 'Delete'}
+        variant="danger"
+        icon="delete"
+        isLoading={deleteListing.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+/**
+ * Admin Live Sessions Page
+ *
+ * Watch text and voice simulations while they happen and whisper coaching
+ * hints to the trainee. Updates arrive over the live socket.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAdminRoleSafe } from '@/contexts/AdminRoleContext';
+import { cn } from '@/lib/utils';
+import { useLiveSessions, useLiveSession, useSendWhisper } from '@/hooks/useLiveQueries';
+import { scenarioTypeLabel } from '@/lib/simulation/scenarios';
+import type { Sentiment } from '@/types/entities';
+import type { LiveSessionSummary } from '@/types/simulation.types';
+import { Radio, MessageSquare, Phone, Loader2, User, Bot, Send, Eye, Wifi, WifiOff, Lightbulb } from 'lucide-react';
+
+const sentimentStyles: Record<Sentiment, { dot: string; labelEn: string; labelAr: string }> = {
+  positive: { dot: 'bg-green-500', labelEn: 'Positive', labelAr: 'إيجابي' },
+  neutral: { dot: 'bg-gray-400', labelEn: 'Neutral', labelAr: 'محايد' },
+  negative: { dot: 'bg-red-500', labelEn: 'Negative', labelAr: 'سلبي' },
+};
+
+export default function AdminLiveSessionsPage() {
+  const { isRTL } = useLanguage();
+  const { isTrainer } = useAdminRoleSafe();
+  const { data: sessions = [], isPending: loading, connected } = useLiveSessions();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const accent = isTrainer ? 'text-teal-500' : 'text-violet-500';
+  const selected = sessions.find((s) => s.sessionId === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Radio className={cn('h-6 w-6', accent)} />
+            {isRTL ? 'الجلسات المباشرة' : 'Live Sessions'}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {isTrainer
+              ? (isRTL ? 'تابع محاكاة طلابك أثناء حدوثها وأرسل لهم تلميحات خاصة' : 'Follow your students\' simulations as they happen and send private hints')
+              : (isRTL ? 'تابع محاكاة فريقك أثناء حدوثها وأرسل تلميحات خاصة' : 'Follow your team\'s simulations as they happen and send private hints')}
+          </p>
+        </div>
+        <Badge
+          variant="outline"
+          className={cn(
+            'px-3 py-1.5 gap-2',
+            connected ? 'bg-green-500/10 border-green-500/30 text-green-600' : 'bg-gray-500/10 text-gray-500'
+          )}
+        >
+          {connected ? <Wifi className="h-3.5 w-3.5" /> : <WifiOff className="h-3.5 w-3.5" />}
+          {connected ? (isRTL ? 'متصل' : 'Live') : (isRTL ? 'جاري الاتصال...' : 'Connecting...')}
+        </Badge>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Active sessions */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-base">
+              {isRTL ? 'الجلسات النشطة' : 'Active Sessions'} ({sessions.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              <div className="py-8 flex justify-center">
+                <Loader2 className={cn('h-6 w-6 animate-spin', accent)} />
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {isRTL ? 'لا توجد جلسات نشطة الآن' : 'No simulations in progress right now'}
+              </p>
+            ) : (
+              sessions.map((session) => (
+                <SessionRow
+                  key={session.sessionId}
+                  session={session}
+                  isSelected={session.sessionId === selectedId}
+                  onSelect={() => setSelectedId(session.sessionId)}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Observed session */}
+        <div className="lg:col-span-2">
+          {selectedId ? (
+            <ObservedSession sessionId={selectedId} summary={selected} />
+          ) : (
+            <Card>
+              <CardContent className="py-16 text-center text-muted-foreground">
+                <Eye className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+                {isRTL ? 'اختر جلسة لمتابعتها' : 'Pick a session to observe'}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SessionRow({
+  session,
+  isSelected,
+  onSelect,
+}: {
+  session: LiveSessionSummary;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  const { isRTL } = useLanguage();
+  const ModeIcon = session.mode === 'voice' ? Phone : MessageSquare;
+
+  return (
+    <button
+      onClick={onSelect}
+      className={cn(
+        'w-full text-start rounded-xl border p-3 transition-colors',
+        isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-foreground truncate">{session.traineeName}</span>
+        <span className={cn('w-2.5 h-2.5 rounded-full shrink-0', sentimentStyles[session.currentSentiment].dot)} />
+      </div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+        <ModeIcon className="h-3.5 w-3.5" />
+        <span className="truncate">{scenarioTypeLabel(session.scenarioType, isRTL)}</span>
+        <span>·</span>
+        <span>{session.turnCount} {isRTL ? 'دور' : 'turns'}</span>
+      </div>
+      {session.groupName && <p className="text-xs text-muted-foreground/70 mt-0.5">{session.groupName}</p>}
+    </button>
+  );
+}
+
+function ObservedSession({ sessionId, summary }: { sessionId: string; summary: LiveSessionSummary | null }) {
+  const { isRTL } = useLanguage();
+  const { data, isPending } = useLiveSession(sessionId);
+  const sendWhisper = useSendWhisper(sessionId);
+  const [whisper, setWhisper] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const turns = data?.turns ?? [];
+  // Ended sessions drop out of the active list; keep the transcript but stop whispers
+  const hasEnded = !!data && !summary;
+  const session = summary ?? data?.session;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns.length]);
+
+  const handleSend = async () => {
+    if (!whisper.trim()) return;
+    try {
+      await sendWhisper.mutateAsync(whisper.trim());
+      setWhisper('');
+    } catch (err) {
+      console.error('Failed to send whisper:', err);
+      alert(err instanceof Error ? err.message : 'Failed to send hint');
+    }
+  };
+
+  if (isPending || !session) {
+    return (
+      <Card>
+        <CardContent className="py-16 flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const sentimentTrail = turns.filter((t) => t.sentiment !== null);
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">
+            {session.traineeName} · {scenarioTypeLabel(session.scenarioType, isRTL)}
+          </CardTitle>
+          {hasEnded ? (
+            <Badge variant="secondary">{isRTL ? 'انتهت' : 'Ended'}</Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1.5">
+              <span className={cn('w-2 h-2 rounded-full', sentimentStyles[session.currentSentiment].dot)} />
+              {isRTL
+                ? sentimentStyles[session.currentSentiment].labelAr
+                : sentimentStyles[session.currentSentiment].labelEn}
+            </Badge>
+          )}
+        </div>
+        {/* Client sentiment over the conversation, oldest first */}
+        {sentimentTrail.length > 0 && (
+          <div className="flex items-center gap-1 mt-2" title={isRTL ? 'مسار مشاعر العميل' : 'Client sentiment over time'}>
+            {sentimentTrail.map((turn, index) => (
+              <span key={index} className={cn('h-1.5 flex-1 rounded-full', sentimentStyles[turn.sentiment!].dot)} />
+            ))}
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="space-y-3 max-h-[28rem] overflow-y-auto rounded-lg bg-muted/30 p-3">
+          {turns.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {isRTL ? 'بانتظار أول رسالة...' : 'Waiting for the first message...'}
+            </p>
+          ) : (
+            turns.map((turn, index) => (
+              <div key={index} className={cn('flex gap-2', turn.speaker === 'trainee' && 'flex-row-reverse')}>
+                <div className={cn(
+                  'w-7 h-7 rounded-full flex items-center justify-center shrink-0',
+                  turn.speaker === 'trainee' ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-600'
+                )}>
+                  {turn.speaker === 'trainee' ? <User className="h-3.5 w-3.5" /> : <Bot className="h-3.5 w-3.5" />}
+                </div>
+                <div className={cn(
+                  'max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap',
+                  turn.speaker === 'trainee' ? 'bg-blue-500 text-white' : 'bg-white border text-gray-900'
+                )}>
+                  {turn.message}
+                </div>
+              </div>
+            ))
+          )}
+          <div ref={endRef} />
+        </div>
+
+        {/* Whispers */}
+        {data && data.whispers.length > 0 && (
+          <div className="space-y-1">
+            {data.whispers.map((w) => (
+              <p key={w.id} className="text-xs text-amber-700 flex items-start gap-1.5">
+                <Lightbulb className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                <span><span className="font-medium">{w.trainerName}:</span> {w.message}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {!hasEnded && (
+          <div className="flex items-end gap-2">
+            <Textarea
+              value={whisper}
+              onChange={(e) => setWhisper(e.target.value)}
+              rows={2}
+              placeholder={isRTL
+                ? 'تلميح خاص للمتدرب، لن يراه العميل...'
+                : 'Private hint for the trainee, the client won\'t see it...'}
+            />
+            <Button onClick={handleSend} disabled={!whisper.trim() || sendWhisper.isPending}>
+              {sendWhisper.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
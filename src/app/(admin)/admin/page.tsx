@@ -9,6 +9,8 @@ import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAdminRoleSafe } from '@/contexts/AdminRoleContext';
 import { cn } from '@/lib/utils';
+import { adminApi, type AdminDashboard } from '@/lib/api/admin.api';
+import { ApiError } from '@/lib/api/client';
 import Link from 'next/link';
 import {
   Users,
@@ -30,129 +32,35 @@ import {
   GraduationCap,
 } from 'lucide-react';
 
-interface OverviewStats {
-  totalUsers: number;
-  activeUsers: number;
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number;
-  averageSessionsPerUser: number;
-}
-
-interface TeamPerformance {
-  bestPerformer: {
-    id: string;
-    name: string;
-    email: string;
-    averageScore: number;
-    totalSessions: number;
-  } | null;
-  worstPerformer: {
-    id: string;
-    name: string;
-    email: string;
-    averageScore: number;
-    totalSessions: number;
-  } | null;
-  averageTeamScore: number;
-}
-
-interface MonthlyTrend {
-  month: string;
-  year: number;
-  averageScore: number;
-  totalSessions: number;
-  activeUsers: number;
-}
-
-interface RecentActivity {
-  userId: string;
-  userName: string;
-  action: string;
-  timestamp: string;
-  details: string;
-}
-
-interface DashboardData {
-  overview: OverviewStats;
-  teamPerformance: TeamPerformance;
-  monthlyTrends: MonthlyTrend[];
-  recentActivity: RecentActivity[];
-}
-
 export default function AdminDashboardPage() {
-  const { token, user } = useAuthStore();
+  const { user } = useAuthStore();
   const { isRTL } = useLanguage();
   const { isTrainer, isOrgAdmin } = useAdminRoleSafe();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [dashboard, setDashboard] = useState<DashboardData | null>(null);
-
-  // Helper to get token from Zustand store or localStorage
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-
-    // Fallback to localStorage if store isn't hydrated yet
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
+  const [dashboard, setDashboard] = useState<AdminDashboard | null>(null);
 
   const fetchData = useCallback(async () => {
-    const authToken = getAuthToken();
-
-    if (!authToken) {
-      setError(isRTL ? 'غير مصرح' : 'Not authorized');
-      setIsLoading(false);
-      return;
-    }
-
     setIsLoading(true);
     setError(null);
 
     try {
-      // NEXT_PUBLIC_API_URL already includes /api, so we just append the endpoint
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      console.log('[AdminDashboard] Fetching from:', `${apiUrl}/admin/dashboard`);
-
-      const response = await fetch(`${apiUrl}/admin/dashboard`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      console.log('[AdminDashboard] Response status:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[AdminDashboard] Error response:', errorText);
-        if (response.status === 403) {
-          setError(isRTL ? 'الوصول مرفوض. مطلوب صلاحيات المسؤول.' : 'Access denied. Admin privileges required.');
-        } else {
-          setError(isRTL ? 'فشل تحميل البيانات' : 'Failed to load dashboard data');
-        }
-        return;
-      }
-
-      const data = await response.json();
-      console.log('[AdminDashboard] Data received:', data);
+      const data = await adminApi.getDashboard();
       setDashboard(data);
       setError(null);
     } catch (err) {
       console.error('[AdminDashboard] Error fetching:', err);
-      setError(isRTL ? 'فشل الاتصال بالخادم' : 'Failed to connect to server');
+      if (err instanceof ApiError && err.status === 403) {
+        setError(isRTL ? 'الوصول مرفوض. مطلوب صلاحيات المسؤول.' : 'Access denied. Admin privileges required.');
+      } else if (err instanceof ApiError) {
+        setError(isRTL ? 'فشل تحميل البيانات' : 'Failed to load dashboard data');
+      } else {
+        setError(isRTL ? 'فشل الاتصال بالخادم' : 'Failed to connect to server');
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [getAuthToken, isRTL]);
+  }, [isRTL]);
 
   useEffect(() => {
     // Small delay to allow store hydration
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { quizApi } from '@/lib/api/quiz.api';
+import { ItemAnalysisPanel } from '@/components/quiz/ItemAnalysisPanel';
 import type { AdminAttemptItem, QuizDetail } from '@/types/quiz';
 import {
   ArrowLeft,
@@ -21,6 +22,7 @@ import {
   Mail,
   User,
   BarChart3,
+  ListChecks,
 } from 'lucide-react';
 
 export default function QuizAttemptsPage() {
@@ -32,6 +34,7 @@ export default function QuizAttemptsPage() {
   const [quiz, setQuiz] = useState<QuizDetail | null>(null);
   const [attempts, setAttempts] = useState<AdminAttemptItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'attempts' | 'analysis'>('attempts');
 
   useEffect(() => {
     const fetchData = async () => {
@@ -125,8 +128,40 @@ export default function QuizAttemptsPage() {
         </Card>
       </div>
 
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setActiveTab('attempts')}
+          className={cn(
+            'px-4 py-2 text-sm font-medium border-b-2 transition-colors flex items-center gap-2',
+            activeTab === 'attempts'
+              ? 'border-violet-500 text-violet-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          )}
+        >
+          <Users className="w-4 h-4" />
+          {t.quiz.traineeAttempts}
+        </button>
+        <button
+          onClick={() => setActiveTab('analysis')}
+          className={cn(
+            'px-4 py-2 text-sm font-medium border-b-2 transition-colors flex items-center gap-2',
+            activeTab === 'analysis'
+              ? 'border-violet-500 text-violet-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          )}
+        >
+          <ListChecks className="w-4 h-4" />
+          {isRTL ? 'تحليل الأسئلة' : 'Item Analysis'}
+        </button>
+      </div>
+
+      {activeTab === 'analysis' && (
+        <ItemAnalysisPanel quizId={quizId} quizTitle={quiz?.title ?? ''} />
+      )}
+
       {/* Attempts Table */}
-      {attempts.length === 0 ? (
+      {activeTab === 'attempts' && (attempts.length === 0 ? (
         <div className="text-center py-16">
           <BarChart3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-500">{t.quiz.noAttempts}</h3>
@@ -203,7 +238,7 @@ export default function QuizAttemptsPage() {
             </div>
           </CardContent>
         </Card>
-      )}
+      ))}
     </div>
   );
 }
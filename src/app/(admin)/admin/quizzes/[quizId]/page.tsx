@@ -6,37 +6,48 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { cn } from '@/lib/utils';
 import { quizApi } from '@/lib/api/quiz.api';
-import type { CreateQuestionInput, CreateOptionInput, UpdateQuizInput } from '@/types/quiz';
+import {
+  QUESTION_TYPES,
+  changeQuestionType,
+  drawRuleIssueMessage,
+  emptyDrawRule,
+  emptyQuestion,
+  questionIssueMessage,
+  toQuestionInput,
+  validateDrawRules,
+  validateQuestion,
+} from '@/lib/quiz/questions';
+import { QuestionAnswerEditor } from '@/components/quiz/QuestionAnswerEditor';
+import { DrawRulesEditor } from '@/components/quiz/DrawRulesEditor';
+import { QuestionSourceToggle } from '@/components/quiz/QuestionSourceToggle';
+import { exportQuiz, quizFileName } from '@/lib/quiz/quiz-transfer';
+import type { QuizFormat } from '@/lib/quiz/import-report';
+import { downloadText } from '@/lib/utils/pdf-export';
+import type { CreateQuestionInput, QuestionDrawRule, QuestionSource, QuestionType, QuizDetail, UpdateQuizInput } from '@/types/quiz';
 import {
   ArrowLeft,
   ArrowRight,
   Plus,
   Trash2,
-  CheckCircle2,
-  Circle,
   Save,
   Loader2,
   ClipboardCheck,
   HelpCircle,
   GripVertical,
   AlertTriangle,
+  Download,
+  FileText,
+  FileCode,
 } from 'lucide-react';
 
-function emptyOption(order: number): CreateOptionInput {
-  return { optionText: '', optionTextAr: '', isCorrect: false, orderInQuestion: order };
-}
-
-function emptyQuestion(order: number): CreateQuestionInput {
-  return {
-    questionText: '', questionTextAr: '', questionType: 'multiple_choice',
-    explanation: '', explanationAr: '', points: 1, orderInQuiz: order,
-    options: [emptyOption(0), emptyOption(1), emptyOption(2), emptyOption(3)],
-  };
-}
-
 export default function EditQuizPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
@@ -44,6 +55,8 @@ export default function EditQuizPage() {
   const quizId = params.quizId as string;
 
   const [loading, setLoading] = useState(true);
+  // Exports use the saved quiz, which has the option ids QTI needs
+  const [savedQuiz, setSavedQuiz] = useState<QuizDetail | null>(null);
   const [title, setTitle] = useState('');
   const [titleAr, setTitleAr] = useState('');
   const [description, setDescription] = useState('');
@@ -55,14 +68,19 @@ export default function EditQuizPage() {
   const [shuffleQuestions, setShuffleQuestions] = useState(true);
   const [showCorrectAnswers, setShowCorrectAnswers] = useState(true);
   const [questions, setQuestions] = useState<CreateQuestionInput[]>([]);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>('fixed');
+  const [drawRules, setDrawRules] = useState<QuestionDrawRule[]>([emptyDrawRule()]);
+  const [drawAvailable, setDrawAvailable] = useState<number[] | undefined>();
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchQuiz = async () => {
       try {
         setLoading(true);
         const quiz = await quizApi.getQuizForAdmin(quizId);
+        setSavedQuiz(quiz);
         setTitle(quiz.title);
         setTitleAr(quiz.titleAr || '');
         setDescription(quiz.description);
@@ -73,21 +91,9 @@ export default function EditQuizPage() {
         setMaxAttempts(quiz.maxAttempts ? String(quiz.maxAttempts) : '');
         setShuffleQuestions(quiz.shuffleQuestions);
         setShowCorrectAnswers(quiz.showCorrectAnswers);
-        setQuestions(quiz.questions.map((q, idx) => ({
-          questionText: q.questionText,
-          questionTextAr: q.questionTextAr || '',
-          questionType: q.questionType,
-          explanation: q.explanation || '',
-          explanationAr: q.explanationAr || '',
-          points: q.points,
-          orderInQuiz: idx,
-          options: q.options.map((o, oidx) => ({
-            optionText: o.optionText,
-            optionTextAr: o.optionTextAr || '',
-            isCorrect: o.isCorrect || false,
-            orderInQuestion: oidx,
-          })),
-        })));
+        setQuestions(quiz.questions.map((q, idx) => toQuestionInput(q, idx)));
+        setQuestionSource(quiz.questionSource ?? 'fixed');
+        if (quiz.drawRules?.length) setDrawRules(quiz.drawRules);
       } catch (err: any) {
         setError(err.message || 'Failed to load quiz');
       } finally {
@@ -105,37 +111,29 @@ export default function EditQuizPage() {
   const updateQuestion = (idx: number, updates: Partial<CreateQuestionInput>) => {
     setQuestions((prev) => prev.map((q, i) => i === idx ? { ...q, ...updates } : q));
   };
-  const updateOption = (qIdx: number, oIdx: number, updates: Partial<CreateOptionInput>) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      const newOpts = q.options.map((o, oi) => oi === oIdx ? { ...o, ...updates } : o);
-      return { ...q, options: newOpts };
-    }));
-  };
-  const setCorrectOption = (qIdx: number, oIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      return { ...q, options: q.options.map((o, oi) => ({ ...o, isCorrect: oi === oIdx })) };
-    }));
+  const setQuestionType = (idx: number, type: QuestionType) => {
+    setQuestions((prev) => prev.map((q, i) => i === idx ? changeQuestionType(q, type) : q));
   };
-  const addOption = (qIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      return { ...q, options: [...q.options, emptyOption(q.options.length)] };
-    }));
-  };
-  const removeOption = (qIdx: number, oIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx || q.options.length <= 2) return q;
-      return { ...q, options: q.options.filter((_, i) => i !== oIdx).map((o, i) => ({ ...o, orderInQuestion: i })) };
-    }));
+  const changeSource = (source: QuestionSource) => {
+    setQuestionSource(source);
+    // Bank quizzes are saved without questions; give the fixed list somewhere to start
+    if (source === 'fixed' && questions.length === 0) setQuestions([emptyQuestion(0)]);
   };
 
   const handleSave = async () => {
     setError(null);
     if (!title.trim()) { setError(isRTL ? 'عنوان الاختبار مطلوب' : 'Quiz title is required'); return; }
-    if (questions.some((q) => !q.questionText.trim())) { setError(isRTL ? 'جميع الأسئلة يجب أن تحتوي على نص' : 'All questions must have text'); return; }
-    if (questions.some((q) => !q.options.some((o) => o.isCorrect))) { setError(isRTL ? 'كل سؤال يجب أن يحتوي على إجابة صحيحة' : 'Each question must have a correct answer'); return; }
+    if (questionSource === 'bank') {
+      const ruleIssue = validateDrawRules(drawRules, drawAvailable);
+      if (ruleIssue) { setError(drawRuleIssueMessage(ruleIssue, isRTL)); return; }
+    } else {
+      const issues = questions.map(validateQuestion);
+      const invalidIdx = issues.findIndex((issue) => issue !== null);
+      if (invalidIdx !== -1) {
+        setError(`${t.quiz.question} ${invalidIdx + 1}: ${questionIssueMessage(issues[invalidIdx]!, isRTL)}`);
+        return;
+      }
+    }
 
     setSaving(true);
     try {
@@ -147,7 +145,8 @@ export default function EditQuizPage() {
         difficulty, passingScore, shuffleQuestions, showCorrectAnswers,
         timeLimit: timeLimit ? parseInt(timeLimit) : null,
         maxAttempts: maxAttempts ? parseInt(maxAttempts) : null,
-        questions,
+        questionSource,
+        ...(questionSource === 'bank' ? { questions: [], drawRules } : { questions }),
       };
       await quizApi.updateQuiz(quizId, data);
       router.push('/admin/quizzes');
@@ -158,6 +157,17 @@ export default function EditQuizPage() {
     }
   };
 
+  const handleExport = (format: QuizFormat) => {
+    if (!savedQuiz) return;
+    const { content, mimeType, skipped } = exportQuiz(savedQuiz, format);
+    downloadText(content, quizFileName(savedQuiz, format), mimeType);
+    setExportNotice(skipped.length > 0
+      ? (isRTL
+        ? `لا يدعم GIFT أسئلة الترتيب، لذلك لم يتم تصدير الأسئلة: ${skipped.join('، ')}`
+        : `GIFT has no ordering questions, so these were left out: ${skipped.join(', ')}`)
+      : null);
+  };
+
   const BackIcon = isRTL ? ArrowRight : ArrowLeft;
 
   if (loading) {
@@ -178,8 +188,33 @@ export default function EditQuizPage() {
           <ClipboardCheck className="w-7 h-7 text-violet-500" />
           {t.quiz.editQuiz}
         </h1>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="ms-auto" disabled={!savedQuiz || savedQuiz.questions.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              {isRTL ? 'تصدير' : 'Export'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align={isRTL ? 'start' : 'end'} className="w-52">
+            <DropdownMenuItem onClick={() => handleExport('gift')} className="gap-2">
+              <FileText className="h-4 w-4" />
+              GIFT (Moodle)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('qti')} className="gap-2">
+              <FileCode className="h-4 w-4" />
+              QTI 1.2 (XML)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
+      {exportNotice && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-700 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {exportNotice}
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
           <AlertTriangle className="w-4 h-4 shrink-0" />
@@ -245,66 +280,57 @@ export default function EditQuizPage() {
       </Card>
 
       {/* Questions */}
-      <div className="space-y-4">
-        <div className="flex items-center justify-between">
-          <h3 className="font-semibold flex items-center gap-2">
-            <HelpCircle className="w-5 h-5 text-violet-500" />
-            {t.quiz.questions} ({questions.length})
-          </h3>
-          <Button variant="outline" size="sm" onClick={addQuestion}>
-            <Plus className="w-4 h-4 mr-1" /> {t.quiz.addQuestion}
-          </Button>
-        </div>
+      <QuestionSourceToggle value={questionSource} onChange={changeSource} />
 
-        {questions.map((q, qIdx) => (
-          <Card key={qIdx} className="border border-gray-200 dark:border-gray-700">
-            <CardContent className="p-5 space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <GripVertical className="w-4 h-4 text-gray-400" />
-                  <Badge variant="outline" className="text-xs">{t.quiz.question} {qIdx + 1}</Badge>
-                  <select value={q.questionType} onChange={(e) => updateQuestion(qIdx, { questionType: e.target.value as any })} className="text-xs border rounded px-2 py-1 bg-white dark:bg-gray-800">
-                    <option value="multiple_choice">{isRTL ? 'اختيار متعدد' : 'Multiple Choice'}</option>
-                    <option value="true_false">{isRTL ? 'صح/خطأ' : 'True/False'}</option>
-                  </select>
-                </div>
-                <Button variant="ghost" size="sm" onClick={() => removeQuestion(qIdx)} disabled={questions.length <= 1} className="text-red-500 hover:text-red-600">
-                  <Trash2 className="w-4 h-4" />
-                </Button>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input value={q.questionText} onChange={(e) => updateQuestion(qIdx, { questionText: e.target.value })} placeholder="Question text (EN)" />
-                <Input value={q.questionTextAr || ''} onChange={(e) => updateQuestion(qIdx, { questionTextAr: e.target.value })} placeholder="نص السؤال (AR)" dir="rtl" />
-              </div>
-              <div className="space-y-2">
-                {q.options.map((opt, oIdx) => (
-                  <div key={oIdx} className="flex items-center gap-2">
-                    <button onClick={() => setCorrectOption(qIdx, oIdx)} className="shrink-0">
-                      {opt.isCorrect ? <CheckCircle2 className="w-5 h-5 text-green-500" /> : <Circle className="w-5 h-5 text-gray-300" />}
-                    </button>
-                    <Input value={opt.optionText} onChange={(e) => updateOption(qIdx, oIdx, { optionText: e.target.value })} placeholder={`Option ${oIdx + 1} (EN)`} className={cn('flex-1', opt.isCorrect && 'border-green-300 bg-green-50')} />
-                    <Input value={opt.optionTextAr || ''} onChange={(e) => updateOption(qIdx, oIdx, { optionTextAr: e.target.value })} placeholder={`الخيار ${oIdx + 1} (AR)`} className="flex-1" dir="rtl" />
-                    <Button variant="ghost" size="sm" onClick={() => removeOption(qIdx, oIdx)} disabled={q.options.length <= 2} className="shrink-0 text-gray-400 hover:text-red-500">
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </Button>
+      {questionSource === 'bank' ? (
+        <DrawRulesEditor rules={drawRules} onChange={setDrawRules} onAvailableChange={setDrawAvailable} />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold flex items-center gap-2">
+              <HelpCircle className="w-5 h-5 text-violet-500" />
+              {t.quiz.questions} ({questions.length})
+            </h3>
+            <Button variant="outline" size="sm" onClick={addQuestion}>
+              <Plus className="w-4 h-4 mr-1" /> {t.quiz.addQuestion}
+            </Button>
+          </div>
+
+          {questions.map((q, qIdx) => (
+            <Card key={qIdx} className="border border-gray-200 dark:border-gray-700">
+              <CardContent className="p-5 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <GripVertical className="w-4 h-4 text-gray-400" />
+                    <Badge variant="outline" className="text-xs">{t.quiz.question} {qIdx + 1}</Badge>
+                    <select value={q.questionType} onChange={(e) => setQuestionType(qIdx, e.target.value as QuestionType)} className="text-xs border rounded px-2 py-1 bg-white dark:bg-gray-800">
+                      {QUESTION_TYPES.map((type) => (
+                        <option key={type.id} value={type.id}>{isRTL ? type.labelAr : type.labelEn}</option>
+                      ))}
+                    </select>
                   </div>
-                ))}
-                <Button variant="ghost" size="sm" onClick={() => addOption(qIdx)} className="text-violet-600">
-                  <Plus className="w-3.5 h-3.5 mr-1" /> {t.quiz.addOption}
-                </Button>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input value={q.explanation || ''} onChange={(e) => updateQuestion(qIdx, { explanation: e.target.value })} placeholder="Explanation (optional, EN)" />
-                <Input value={q.explanationAr || ''} onChange={(e) => updateQuestion(qIdx, { explanationAr: e.target.value })} placeholder="الشرح (اختياري, AR)" dir="rtl" />
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                  <Button variant="ghost" size="sm" onClick={() => removeQuestion(qIdx)} disabled={questions.length <= 1} className="text-red-500 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input value={q.questionText} onChange={(e) => updateQuestion(qIdx, { questionText: e.target.value })} placeholder="Question text (EN)" />
+                  <Input value={q.questionTextAr || ''} onChange={(e) => updateQuestion(qIdx, { questionTextAr: e.target.value })} placeholder="نص السؤال (AR)" dir="rtl" />
+                </div>
+                <QuestionAnswerEditor question={q} onChange={(updates) => updateQuestion(qIdx, updates)} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input value={q.explanation || ''} onChange={(e) => updateQuestion(qIdx, { explanation: e.target.value })} placeholder="Explanation (optional, EN)" />
+                  <Input value={q.explanationAr || ''} onChange={(e) => updateQuestion(qIdx, { explanationAr: e.target.value })} placeholder="الشرح (اختياري, AR)" dir="rtl" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
 
-        <Button variant="outline" className="w-full" onClick={addQuestion}>
-          <Plus className="w-4 h-4 mr-2" /> {t.quiz.addQuestion}
-        </Button>
-      </div>
+          <Button variant="outline" className="w-full" onClick={addQuestion}>
+            <Plus className="w-4 h-4 mr-2" /> {t.quiz.addQuestion}
+          </Button>
+        </div>
+      )}
 
       <div className="flex justify-end gap-3 pt-4 border-t">
         <Button variant="outline" onClick={() => router.push('/admin/quizzes')}>{t.common.cancel}</Button>
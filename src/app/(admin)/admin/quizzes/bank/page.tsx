@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { BankQuestionDialog } from '@/components/quiz/BankQuestionDialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { QUESTION_TYPES, questionTypeLabel } from '@/lib/quiz/questions';
+import {
+  useBankQuestions,
+  useBankTags,
+  useSaveBankQuestion,
+  useDeleteBankQuestion,
+} from '@/hooks/useQuizQueries';
+import { useAdminCourses } from '@/hooks/useCourseQueries';
+import type { BankQuestion, BankQuestionListParams, CreateBankQuestionInput, QuestionType } from '@/types/quiz';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Plus,
+  Search,
+  Pencil,
+  Trash2,
+  Library,
+  Loader2,
+} from 'lucide-react';
+
+const PAGE_SIZE = 20;
+const ALL = 'all';
+
+export default function QuestionBankPage() {
+  const { t, isRTL } = useLanguage();
+  const router = useRouter();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [difficulty, setDifficulty] = useState<BankQuestionListParams['difficulty'] | typeof ALL>(ALL);
+  const [tag, setTag] = useState<string>(ALL);
+  const [questionType, setQuestionType] = useState<QuestionType | typeof ALL>(ALL);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [editModal, setEditModal] = useState<{ open: boolean; question: BankQuestion | null }>({
+    open: false,
+    question: null,
+  });
+  const [deleteModal, setDeleteModal] = useState<{ open: boolean; question: BankQuestion | null }>({
+    open: false,
+    question: null,
+  });
+
+  // Debounce search input so we don't query on every keystroke
+  useEffect(() => {
+    const debounce = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(debounce);
+  }, [searchTerm]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearch, difficulty, tag, questionType]);
+
+  const bankQuery = useBankQuestions({
+    search: debouncedSearch || undefined,
+    difficulty: difficulty === ALL ? undefined : difficulty,
+    tag: tag === ALL ? undefined : tag,
+    questionType: questionType === ALL ? undefined : questionType,
+    page: currentPage,
+    limit: PAGE_SIZE,
+  });
+  const { data: tags = [] } = useBankTags();
+  const { data: courseData } = useAdminCourses({});
+  const saveQuestion = useSaveBankQuestion();
+  const deleteQuestion = useDeleteBankQuestion();
+
+  const questions = bankQuery.data?.questions ?? [];
+  const total = bankQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleSave = async (data: CreateBankQuestionInput) => {
+    await saveQuestion.mutateAsync({ questionId: editModal.question?.id, data });
+  };
+
+  const handleDelete = async () => {
+    if (!deleteModal.question) return;
+    try {
+      await deleteQuestion.mutateAsync(deleteModal.question.id);
+      setDeleteModal({ open: false, question: null });
+    } catch (err) {
+      console.error('Failed to delete question:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete question');
+    }
+  };
+
+  const getDifficultyColor = (level: string) => {
+    switch (level) {
+      case 'easy': return 'bg-green-100 text-green-700 border-green-200';
+      case 'medium': return 'bg-amber-100 text-amber-700 border-amber-200';
+      case 'hard': return 'bg-red-100 text-red-700 border-red-200';
+      default: return 'bg-gray-100 text-gray-700 border-gray-200';
+    }
+  };
+
+  const getDifficultyLabel = (level: string) => {
+    switch (level) {
+      case 'easy': return t.quiz.easy;
+      case 'medium': return t.quiz.medium;
+      case 'hard': return t.quiz.hard;
+      default: return level;
+    }
+  };
+
+  const getRateColor = (rate: number) => {
+    if (rate >= 75) return 'bg-green-500';
+    if (rate >= 40) return 'bg-amber-500';
+    return 'bg-red-500';
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => router.push('/admin/quizzes')}>
+            <BackIcon className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <Library className="w-7 h-7 text-violet-500" />
+              {isRTL ? 'بنك الأسئلة' : 'Question Bank'}
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-1">
+              {total} {isRTL ? 'سؤال' : 'questions'}
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={() => setEditModal({ open: true, question: null })}
+          className="bg-violet-500 hover:bg-violet-600"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {isRTL ? 'سؤال جديد' : 'New Question'}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder={isRTL ? 'ابحث في نص السؤال...' : 'Search question text...'}
+            className="ps-9"
+          />
+        </div>
+        <Select value={difficulty} onValueChange={(v) => setDifficulty(v as typeof difficulty)}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{isRTL ? 'كل المستويات' : 'All levels'}</SelectItem>
+            <SelectItem value="easy">{t.quiz.easy}</SelectItem>
+            <SelectItem value="medium">{t.quiz.medium}</SelectItem>
+            <SelectItem value="hard">{t.quiz.hard}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={questionType} onValueChange={(v) => setQuestionType(v as typeof questionType)}>
+          <SelectTrigger className="md:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{isRTL ? 'كل الأنواع' : 'All types'}</SelectItem>
+            {QUESTION_TYPES.map((type) => (
+              <SelectItem key={type.id} value={type.id}>{isRTL ? type.labelAr : type.labelEn}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tag} onValueChange={setTag}>
+          <SelectTrigger className="md:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{isRTL ? 'كل الوسوم' : 'All tags'}</SelectItem>
+            {tags.map((bankTag) => (
+              <SelectItem key={bankTag} value={bankTag}>{bankTag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Questions Table */}
+      {bankQuery.isPending ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-violet-500" />
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="text-center py-16">
+          <Library className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-500">
+            {isRTL ? 'لا توجد أسئلة في البنك' : 'No questions in the bank'}
+          </h3>
+          {searchTerm && (
+            <Button variant="link" onClick={() => setSearchTerm('')} className="mt-2 text-violet-500">
+              {isRTL ? 'مسح البحث' : 'Clear search'}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Card className={cn(bankQuery.isPlaceholderData && 'opacity-60')}>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50 dark:bg-gray-800">
+                    <th className="px-4 py-3 text-start font-medium text-gray-500">{t.quiz.question}</th>
+                    <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'النوع' : 'Type'}</th>
+                    <th className="px-4 py-3 text-center font-medium text-gray-500">{t.quiz.difficulty}</th>
+                    <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'الوسوم' : 'Tags'}</th>
+                    <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'نسبة الإجابة الصحيحة' : 'Correct rate'}</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {questions.map((question) => (
+                    <tr key={question.id} className="border-b hover:bg-gray-50 dark:hover:bg-gray-800">
+                      <td className="px-4 py-3 max-w-md">
+                        <p className="font-medium text-gray-900 dark:text-white line-clamp-2">
+                          {isRTL && question.questionTextAr ? question.questionTextAr : question.questionText}
+                        </p>
+                        {question.topic && <p className="text-xs text-gray-400 mt-0.5">{question.topic}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                        {questionTypeLabel(question.questionType, isRTL)}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <Badge className={cn('text-xs', getDifficultyColor(question.difficulty))}>
+                          {getDifficultyLabel(question.difficulty)}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {question.tags.map((questionTag) => (
+                            <Badge key={questionTag} variant="secondary" className="text-xs">{questionTag}</Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {question.stats.correctRate === null ? (
+                          <span className="text-xs text-gray-400">{isRTL ? 'لم يُجب بعد' : 'Not answered yet'}</span>
+                        ) : (
+                          <div className="flex items-center gap-2 min-w-[140px]">
+                            <div className="flex-1 h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                              <div
+                                className={cn('h-full rounded-full', getRateColor(question.stats.correctRate))}
+                                style={{ width: `${question.stats.correctRate}%` }}
+                              />
+                            </div>
+                            <span className="text-xs font-medium w-10 text-end">{Math.round(question.stats.correctRate)}%</span>
+                            <span className="text-xs text-gray-400">({question.stats.timesAnswered})</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditModal({ open: true, question })}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteModal({ open: true, question })}
+                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+            disabled={currentPage === 1}
+          >
+            {isRTL ? 'السابق' : 'Previous'}
+          </Button>
+          <span className="px-4 py-2 text-sm text-muted-foreground">
+            {isRTL ? `صفحة ${currentPage} من ${totalPages}` : `Page ${currentPage} of ${totalPages}`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+            disabled={currentPage === totalPages}
+          >
+            {isRTL ? 'التالي' : 'Next'}
+          </Button>
+        </div>
+      )}
+
+      <BankQuestionDialog
+        open={editModal.open}
+        onOpenChange={(open) => setEditModal((prev) => ({ ...prev, open }))}
+        question={editModal.question}
+        courses={courseData?.courses ?? []}
+        tagSuggestions={tags}
+        onSave={handleSave}
+      />
+
+      <ConfirmationModal
+        open={deleteModal.open}
+        onOpenChange={(open) => setDeleteModal((prev) => ({ ...prev, open }))}
+        onConfirm={handleDelete}
+        title={isRTL ? 'حذف السؤال' : 'Delete Question'}
+        description={
+          isRTL
+            ? 'سيُحذف السؤال من البنك ولن يظهر في المحاولات الجديدة. المحاولات السابقة لن تتأثر.'
+            : 'The question is removed from the bank and won\'t be drawn for new attempts. Past attempts are not affected.'
+        }
+        confirmText={isRTL ? 'حذف' : 'Delete'}
+        variant="danger"
+        icon="delete"
+        isLoading={deleteQuestion.isPending}
+      />
+    </div>
+  );
+}
@@ -7,16 +7,28 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { cn } from '@/lib/utils';
 import { quizApi } from '@/lib/api/quiz.api';
-import type { CreateQuizInput, CreateQuestionInput, CreateOptionInput } from '@/types/quiz';
+import {
+  QUESTION_TYPES,
+  changeQuestionType,
+  drawRuleIssueMessage,
+  emptyDrawRule,
+  emptyQuestion,
+  questionIssueMessage,
+  toQuestionInput,
+  validateDrawRules,
+  validateQuestion,
+} from '@/lib/quiz/questions';
+import { QuestionAnswerEditor } from '@/components/quiz/QuestionAnswerEditor';
+import { DrawRulesEditor } from '@/components/quiz/DrawRulesEditor';
+import { QuestionSourceToggle } from '@/components/quiz/QuestionSourceToggle';
+import { QuizImportPanel, type QuizImportResult } from '@/components/quiz/QuizImportPanel';
+import type { CreateQuizInput, CreateQuestionInput, QuestionDrawRule, QuestionSource, QuestionType } from '@/types/quiz';
 import {
   ArrowLeft,
   ArrowRight,
   Plus,
   Trash2,
-  CheckCircle2,
-  Circle,
   Save,
   Loader2,
   Sparkles,
@@ -25,23 +37,6 @@ import {
   GripVertical,
 } from 'lucide-react';
 
-function emptyOption(order: number): CreateOptionInput {
-  return { optionText: '', optionTextAr: '', isCorrect: false, orderInQuestion: order };
-}
-
-function emptyQuestion(order: number): CreateQuestionInput {
-  return {
-    questionText: '',
-    questionTextAr: '',
-    questionType: 'multiple_choice',
-    explanation: '',
-    explanationAr: '',
-    points: 1,
-    orderInQuiz: order,
-    options: [emptyOption(0), emptyOption(1), emptyOption(2), emptyOption(3)],
-  };
-}
-
 export default function CreateQuizPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
@@ -57,6 +52,9 @@ export default function CreateQuizPage() {
   const [shuffleQuestions, setShuffleQuestions] = useState(true);
   const [showCorrectAnswers, setShowCorrectAnswers] = useState(true);
   const [questions, setQuestions] = useState<CreateQuestionInput[]>([emptyQuestion(0)]);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>('fixed');
+  const [drawRules, setDrawRules] = useState<QuestionDrawRule[]>([emptyDrawRule()]);
+  const [drawAvailable, setDrawAvailable] = useState<number[] | undefined>();
   const [saving, setSaving] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [genTopic, setGenTopic] = useState('');
@@ -76,37 +74,8 @@ export default function CreateQuizPage() {
     setQuestions((prev) => prev.map((q, i) => i === idx ? { ...q, ...updates } : q));
   };
 
-  const updateOption = (qIdx: number, oIdx: number, updates: Partial<CreateOptionInput>) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      const newOpts = q.options.map((o, oi) => oi === oIdx ? { ...o, ...updates } : o);
-      return { ...q, options: newOpts };
-    }));
-  };
-
-  const setCorrectOption = (qIdx: number, oIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      const newOpts = q.options.map((o, oi) => ({ ...o, isCorrect: oi === oIdx }));
-      return { ...q, options: newOpts };
-    }));
-  };
-
-  const addOption = (qIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx) return q;
-      return { ...q, options: [...q.options, emptyOption(q.options.length)] };
-    }));
-  };
-
-  const removeOption = (qIdx: number, oIdx: number) => {
-    setQuestions((prev) => prev.map((q, qi) => {
-      if (qi !== qIdx || q.options.length <= 2) return q;
-      return {
-        ...q,
-        options: q.options.filter((_, i) => i !== oIdx).map((o, i) => ({ ...o, orderInQuestion: i })),
-      };
-    }));
+  const setQuestionType = (idx: number, type: QuestionType) => {
+    setQuestions((prev) => prev.map((q, i) => i === idx ? changeQuestionType(q, type) : q));
   };
 
   const handleSave = async () => {
@@ -115,17 +84,19 @@ export default function CreateQuizPage() {
       setError(isRTL ? 'عنوان الاختبار مطلوب' : 'Quiz title is required');
       return;
     }
-    if (questions.some((q) => !q.questionText.trim())) {
-      setError(isRTL ? 'جميع الأسئلة يجب أن تحتوي على نص' : 'All questions must have text');
-      return;
-    }
-    if (questions.some((q) => !q.options.some((o) => o.isCorrect))) {
-      setError(isRTL ? 'كل سؤال يجب أن يحتوي على إجابة صحيحة' : 'Each question must have a correct answer');
-      return;
-    }
-    if (questions.some((q) => q.options.some((o) => !o.optionText.trim()))) {
-      setError(isRTL ? 'جميع الخيارات يجب أن تحتوي على نص' : 'All options must have text');
-      return;
+    if (questionSource === 'bank') {
+      const ruleIssue = validateDrawRules(drawRules, drawAvailable);
+      if (ruleIssue) {
+        setError(drawRuleIssueMessage(ruleIssue, isRTL));
+        return;
+      }
+    } else {
+      const issues = questions.map(validateQuestion);
+      const invalidIdx = issues.findIndex((issue) => issue !== null);
+      if (invalidIdx !== -1) {
+        setError(`${t.quiz.question} ${invalidIdx + 1}: ${questionIssueMessage(issues[invalidIdx]!, isRTL)}`);
+        return;
+      }
     }
 
     setSaving(true);
@@ -141,7 +112,8 @@ export default function CreateQuizPage() {
         maxAttempts: maxAttempts ? parseInt(maxAttempts) : undefined,
         shuffleQuestions,
         showCorrectAnswers,
-        questions,
+        questionSource,
+        ...(questionSource === 'bank' ? { questions: [], drawRules } : { questions }),
       };
       await quizApi.createQuiz(data);
       router.push('/admin/quizzes');
@@ -166,23 +138,7 @@ export default function CreateQuizPage() {
       setTitleAr(generated.titleAr || '');
       setDescription(generated.description);
       setDescriptionAr(generated.descriptionAr || '');
-      setQuestions(
-        generated.questions.map((q, idx) => ({
-          questionText: q.questionText,
-          questionTextAr: q.questionTextAr || '',
-          questionType: q.questionType,
-          explanation: q.explanation || '',
-          explanationAr: q.explanationAr || '',
-          points: q.points,
-          orderInQuiz: idx,
-          options: q.options.map((o, oidx) => ({
-            optionText: o.optionText,
-            optionTextAr: o.optionTextAr || '',
-            isCorrect: o.isCorrect || false,
-            orderInQuestion: oidx,
-          })),
-        }))
-      );
+      setQuestions(generated.questions.map((q, idx) => toQuestionInput(q, idx)));
     } catch (err: any) {
       setError(err.message || 'Failed to generate quiz');
     } finally {
@@ -190,6 +146,16 @@ export default function CreateQuizPage() {
     }
   };
 
+  const handleImport = ({ title: importedTitle, questions: imported }: QuizImportResult) => {
+    if (importedTitle && !title.trim()) setTitle(importedTitle);
+    setQuestionSource('fixed');
+    // Imported questions replace the blank starter question but are appended to real ones
+    setQuestions((prev) => [
+      ...prev.filter((q) => q.questionText.trim()),
+      ...imported.map((q) => ({ ...q, questionTextAr: q.questionTextAr || '', explanation: q.explanation || '', explanationAr: q.explanationAr || '' })),
+    ].map((q, i) => ({ ...q, orderInQuiz: i })));
+  };
+
   const BackIcon = isRTL ? ArrowRight : ArrowLeft;
 
   return (
@@ -242,6 +208,9 @@ export default function CreateQuizPage() {
         </CardContent>
       </Card>
 
+      {/* Import Panel */}
+      <QuizImportPanel onImport={handleImport} />
+
       {/* Error */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
@@ -314,129 +283,94 @@ export default function CreateQuizPage() {
       </Card>
 
       {/* Questions */}
-      <div className="space-y-4">
-        <div className="flex items-center justify-between">
-          <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
-            <HelpCircle className="w-5 h-5 text-violet-500" />
-            {t.quiz.questions} ({questions.length})
-          </h3>
-          <Button variant="outline" size="sm" onClick={addQuestion}>
-            <Plus className="w-4 h-4 mr-1" />
-            {t.quiz.addQuestion}
-          </Button>
-        </div>
+      <QuestionSourceToggle value={questionSource} onChange={setQuestionSource} />
+
+      {questionSource === 'bank' ? (
+        <DrawRulesEditor rules={drawRules} onChange={setDrawRules} onAvailableChange={setDrawAvailable} />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <HelpCircle className="w-5 h-5 text-violet-500" />
+              {t.quiz.questions} ({questions.length})
+            </h3>
+            <Button variant="outline" size="sm" onClick={addQuestion}>
+              <Plus className="w-4 h-4 mr-1" />
+              {t.quiz.addQuestion}
+            </Button>
+          </div>
 
-        {questions.map((q, qIdx) => (
-          <Card key={qIdx} className="border border-gray-200 dark:border-gray-700">
-            <CardContent className="p-5 space-y-4">
-              {/* Question Header */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <GripVertical className="w-4 h-4 text-gray-400" />
-                  <Badge variant="outline" className="text-xs">{t.quiz.question} {qIdx + 1}</Badge>
-                  <select
-                    value={q.questionType}
-                    onChange={(e) => updateQuestion(qIdx, { questionType: e.target.value as any })}
-                    className="text-xs border rounded px-2 py-1 bg-white dark:bg-gray-800"
+          {questions.map((q, qIdx) => (
+            <Card key={qIdx} className="border border-gray-200 dark:border-gray-700">
+              <CardContent className="p-5 space-y-4">
+                {/* Question Header */}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <GripVertical className="w-4 h-4 text-gray-400" />
+                    <Badge variant="outline" className="text-xs">{t.quiz.question} {qIdx + 1}</Badge>
+                    <select
+                      value={q.questionType}
+                      onChange={(e) => setQuestionType(qIdx, e.target.value as QuestionType)}
+                      className="text-xs border rounded px-2 py-1 bg-white dark:bg-gray-800"
+                    >
+                      {QUESTION_TYPES.map((type) => (
+                        <option key={type.id} value={type.id}>{isRTL ? type.labelAr : type.labelEn}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeQuestion(qIdx)}
+                    disabled={questions.length <= 1}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
                   >
-                    <option value="multiple_choice">{isRTL ? 'اختيار متعدد' : 'Multiple Choice'}</option>
-                    <option value="true_false">{isRTL ? 'صح/خطأ' : 'True/False'}</option>
-                  </select>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeQuestion(qIdx)}
-                  disabled={questions.length <= 1}
-                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
-              </div>
 
-              {/* Question Text */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input
-                  value={q.questionText}
-                  onChange={(e) => updateQuestion(qIdx, { questionText: e.target.value })}
-                  placeholder={isRTL ? 'نص السؤال بالإنجليزية' : 'Question text (EN)'}
-                />
-                <Input
-                  value={q.questionTextAr || ''}
-                  onChange={(e) => updateQuestion(qIdx, { questionTextAr: e.target.value })}
-                  placeholder={isRTL ? 'نص السؤال بالعربية' : 'Question text (AR)'}
-                  dir="rtl"
-                />
-              </div>
+                {/* Question Text */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    value={q.questionText}
+                    onChange={(e) => updateQuestion(qIdx, { questionText: e.target.value })}
+                    placeholder={isRTL ? 'نص السؤال بالإنجليزية' : 'Question text (EN)'}
+                  />
+                  <Input
+                    value={q.questionTextAr || ''}
+                    onChange={(e) => updateQuestion(qIdx, { questionTextAr: e.target.value })}
+                    placeholder={isRTL ? 'نص السؤال بالعربية' : 'Question text (AR)'}
+                    dir="rtl"
+                  />
+                </div>
 
-              {/* Options */}
-              <div className="space-y-2">
-                {q.options.map((opt, oIdx) => (
-                  <div key={oIdx} className="flex items-center gap-2">
-                    <button
-                      onClick={() => setCorrectOption(qIdx, oIdx)}
-                      className="shrink-0"
-                      title={t.quiz.markCorrect}
-                    >
-                      {opt.isCorrect ? (
-                        <CheckCircle2 className="w-5 h-5 text-green-500" />
-                      ) : (
-                        <Circle className="w-5 h-5 text-gray-300 hover:text-gray-400" />
-                      )}
-                    </button>
-                    <Input
-                      value={opt.optionText}
-                      onChange={(e) => updateOption(qIdx, oIdx, { optionText: e.target.value })}
-                      placeholder={`${isRTL ? 'الخيار' : 'Option'} ${oIdx + 1} (EN)`}
-                      className={cn('flex-1', opt.isCorrect && 'border-green-300 bg-green-50')}
-                    />
-                    <Input
-                      value={opt.optionTextAr || ''}
-                      onChange={(e) => updateOption(qIdx, oIdx, { optionTextAr: e.target.value })}
-                      placeholder={`${isRTL ? 'الخيار' : 'Option'} ${oIdx + 1} (AR)`}
-                      className="flex-1"
-                      dir="rtl"
-                    />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeOption(qIdx, oIdx)}
-                      disabled={q.options.length <= 2}
-                      className="shrink-0 text-gray-400 hover:text-red-500"
-                    >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </Button>
-                  </div>
-                ))}
-                <Button variant="ghost" size="sm" onClick={() => addOption(qIdx)} className="text-violet-600">
-                  <Plus className="w-3.5 h-3.5 mr-1" />
-                  {t.quiz.addOption}
-                </Button>
-              </div>
+                {/* Answer */}
+                <QuestionAnswerEditor question={q} onChange={(updates) => updateQuestion(qIdx, updates)} />
 
-              {/* Explanation */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input
-                  value={q.explanation || ''}
-                  onChange={(e) => updateQuestion(qIdx, { explanation: e.target.value })}
-                  placeholder={isRTL ? 'الشرح (اختياري) بالإنجليزية' : 'Explanation (optional, EN)'}
-                />
-                <Input
-                  value={q.explanationAr || ''}
-                  onChange={(e) => updateQuestion(qIdx, { explanationAr: e.target.value })}
-                  placeholder={isRTL ? 'الشرح (اختياري) بالعربية' : 'Explanation (optional, AR)'}
-                  dir="rtl"
-                />
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                {/* Explanation */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    value={q.explanation || ''}
+                    onChange={(e) => updateQuestion(qIdx, { explanation: e.target.value })}
+                    placeholder={isRTL ? 'الشرح (اختياري) بالإنجليزية' : 'Explanation (optional, EN)'}
+                  />
+                  <Input
+                    value={q.explanationAr || ''}
+                    onChange={(e) => updateQuestion(qIdx, { explanationAr: e.target.value })}
+                    placeholder={isRTL ? 'الشرح (اختياري) بالعربية' : 'Explanation (optional, AR)'}
+                    dir="rtl"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
 
-        <Button variant="outline" className="w-full" onClick={addQuestion}>
-          <Plus className="w-4 h-4 mr-2" />
-          {t.quiz.addQuestion}
-        </Button>
-      </div>
+          <Button variant="outline" className="w-full" onClick={addQuestion}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t.quiz.addQuestion}
+          </Button>
+        </div>
+      )}
 
       {/* Save */}
       <div className="flex justify-end gap-3 pt-4 border-t">
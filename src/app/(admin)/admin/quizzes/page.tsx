@@ -1,14 +1,13 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { quizApi } from '@/lib/api/quiz.api';
-import type { QuizListItem } from '@/types/quiz';
+import { useAdminQuizzes, usePublishQuiz, useDeleteQuiz } from '@/hooks/useQuizQueries';
 import {
   Plus,
   ClipboardCheck,
@@ -24,39 +23,25 @@ import {
   Target,
   Loader2,
   AlertTriangle,
+  Library,
+  Shuffle,
 } from 'lucide-react';
 
 export default function AdminQuizzesPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
-  const [quizzes, setQuizzes] = useState<QuizListItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: quizzes = [], isPending: loading } = useAdminQuizzes();
+  const publishQuiz = usePublishQuiz();
+  const deleteQuiz = useDeleteQuiz();
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const isDeleting = useRef(false);
 
-  const fetchQuizzes = async () => {
-    try {
-      setLoading(true);
-      const res = await quizApi.getAdminQuizzes();
-      setQuizzes(res.quizzes);
-    } catch (err) {
-      console.error('Failed to fetch quizzes:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => { fetchQuizzes(); }, []);
-
   const handleTogglePublish = async (quizId: string, currentPublished: boolean) => {
     setTogglingId(quizId);
     try {
-      await quizApi.publishQuiz(quizId, !currentPublished);
-      setQuizzes((prev) =>
-        prev.map((q) => q.id === quizId ? { ...q, isPublished: !currentPublished } : q)
-      );
+      await publishQuiz.mutateAsync({ quizId, publish: !currentPublished });
     } catch (err) {
       console.error('Failed to toggle publish:', err);
     } finally {
@@ -72,8 +57,7 @@ export default function AdminQuizzesPage() {
     setDeletingId(quizId);
     setShowDeleteConfirm(null); // Close dialog immediately to prevent re-click
     try {
-      await quizApi.deleteQuiz(quizId);
-      setQuizzes((prev) => prev.filter((q) => q.id !== quizId));
+      await deleteQuiz.mutateAsync(quizId);
     } catch (err) {
       console.error('Failed to delete quiz:', err);
     } finally {
@@ -126,13 +110,19 @@ export default function AdminQuizzesPage() {
             {quizzes.length} {isRTL ? 'اختبار' : 'quizzes'}
           </p>
         </div>
-        <Button
-          onClick={() => router.push('/admin/quizzes/create')}
-          className="bg-violet-500 hover:bg-violet-600"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          {t.quiz.createQuiz}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => router.push('/admin/quizzes/bank')}>
+            <Library className="w-4 h-4 mr-2" />
+            {isRTL ? 'بنك الأسئلة' : 'Question Bank'}
+          </Button>
+          <Button
+            onClick={() => router.push('/admin/quizzes/create')}
+            className="bg-violet-500 hover:bg-violet-600"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {t.quiz.createQuiz}
+          </Button>
+        </div>
       </div>
 
       {/* Quiz List */}
@@ -180,6 +170,12 @@ export default function AdminQuizzesPage() {
                           {t.quiz.aiGenerated}
                         </Badge>
                       )}
+                      {quiz.questionSource === 'bank' && (
+                        <Badge variant="outline" className="text-xs text-violet-600 border-violet-200 bg-violet-50">
+                          <Shuffle className="w-3 h-3 mr-1" />
+                          {isRTL ? 'سحب عشوائي' : 'Random draw'}
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-gray-500 mt-1 line-clamp-1">
                       {isRTL && quiz.descriptionAr ? quiz.descriptionAr : quiz.description}
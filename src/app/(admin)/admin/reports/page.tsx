@@ -4,9 +4,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import { adminApi } from '@/lib/api/admin.api';
 import {
   Users,
   Target,
@@ -54,56 +54,17 @@ interface TeamReport {
 }
 
 export default function AdminReportsPage() {
-  const { token } = useAuthStore();
   const { isRTL } = useLanguage();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [report, setReport] = useState<TeamReport | null>(null);
 
-  // Helper to get token from Zustand store or localStorage
-  const getAuthToken = useCallback((): string | null => {
-    if (token) return token;
-
-    // Fallback to localStorage if store isn't hydrated yet
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        return parsed?.state?.token || null;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
   const fetchData = useCallback(async () => {
-    const authToken = getAuthToken();
-
-    if (!authToken) {
-      setError(isRTL ? 'غير مصرح' : 'Not authorized');
-      setIsLoading(false);
-      return;
-    }
-
     setIsLoading(true);
     setError(null);
 
     try {
-      // NEXT_PUBLIC_API_URL already includes /api
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/admin/dashboard`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(isRTL ? 'فشل تحميل التقارير' : 'Failed to load reports');
-      }
-
-      const data = await response.json();
+      const data = await adminApi.getDashboard();
 
       // Transform dashboard data to report format
       setReport({
@@ -119,11 +80,11 @@ export default function AdminReportsPage() {
       });
     } catch (err) {
       console.error('Error fetching reports:', err);
-      setError(err instanceof Error ? err.message : (isRTL ? 'فشل تحميل التقارير' : 'Failed to load reports'));
+      setError(isRTL ? 'فشل تحميل التقارير' : 'Failed to load reports');
     } finally {
       setIsLoading(false);
     }
-  }, [getAuthToken, isRTL]);
+  }, [isRTL]);
 
   useEffect(() => {
     // Small delay to allow store hydration
@@ -0,0 +1,67 @@
+'use client';
+
+import { useRouter, useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { RubricForm } from '@/components/simulation/RubricForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useRubric, useSaveRubric } from '@/hooks/useRubricQueries';
+import type { CreateRubricInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Scale, Loader2 } from 'lucide-react';
+
+export default function EditRubricPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const params = useParams();
+  const rubricId = params.rubricId as string;
+
+  const rubricQuery = useRubric(rubricId);
+  const saveRubric = useSaveRubric();
+
+  const handleSave = async (data: CreateRubricInput) => {
+    await saveRubric.mutateAsync({ rubricId, data });
+    router.push('/admin/rubrics');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  if (rubricQuery.isPending) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-indigo-500" />
+      </div>
+    );
+  }
+
+  if (!rubricQuery.data) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-gray-500">{isRTL ? 'سلم التقييم غير موجود' : 'Rubric not found'}</p>
+        <Button variant="link" onClick={() => router.push('/admin/rubrics')} className="mt-2 text-indigo-500">
+          {isRTL ? 'العودة لسلالم التقييم' : 'Back to rubrics'}
+        </Button>
+      </div>
+    );
+  }
+
+  const { name, nameAr, description, criteria } = rubricQuery.data;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/rubrics')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Scale className="w-7 h-7 text-indigo-500" />
+          {isRTL && nameAr ? nameAr : name}
+        </h1>
+      </div>
+
+      <RubricForm
+        initial={{ name, nameAr, description, criteria }}
+        saving={saveRubric.isPending}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
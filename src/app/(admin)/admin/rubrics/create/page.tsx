@@ -0,0 +1,39 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { RubricForm } from '@/components/simulation/RubricForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSaveRubric } from '@/hooks/useRubricQueries';
+import { EMPTY_RUBRIC } from '@/lib/simulation/rubrics';
+import type { CreateRubricInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Scale } from 'lucide-react';
+
+export default function CreateRubricPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const saveRubric = useSaveRubric();
+
+  const handleSave = async (data: CreateRubricInput) => {
+    await saveRubric.mutateAsync({ data });
+    router.push('/admin/rubrics');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/rubrics')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Scale className="w-7 h-7 text-indigo-500" />
+          {isRTL ? 'سلم تقييم جديد' : 'New Rubric'}
+        </h1>
+      </div>
+
+      <RubricForm initial={EMPTY_RUBRIC} saving={saveRubric.isPending} onSave={handleSave} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useRubrics, useDeleteRubric } from '@/hooks/useRubricQueries';
+import { criterionLabel, weightPercents } from '@/lib/simulation/rubrics';
+import type { ScoringRubric } from '@/types/simulation.types';
+import { Plus, Scale, Pencil, Trash2, Loader2, Layers } from 'lucide-react';
+
+export default function AdminRubricsPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+
+  const { data: rubrics = [], isPending: loading } = useRubrics();
+  const deleteRubric = useDeleteRubric();
+  const [deleteModal, setDeleteModal] = useState<{ open: boolean; rubric: ScoringRubric | null }>({
+    open: false,
+    rubric: null,
+  });
+
+  const handleDelete = async () => {
+    if (!deleteModal.rubric) return;
+    try {
+      await deleteRubric.mutateAsync(deleteModal.rubric.id);
+      setDeleteModal({ open: false, rubric: null });
+    } catch (err) {
+      console.error('Failed to delete rubric:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete rubric');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-indigo-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Scale className="w-7 h-7 text-indigo-500" />
+            {isRTL ? 'سلالم التقييم' : 'Scoring Rubrics'}
+          </h1>
+          <p className="text-gray-500 mt-1">
+            {rubrics.length} {isRTL ? 'سلم تقييم' : 'rubrics'}
+          </p>
+        </div>
+        <Button className="bg-indigo-500 hover:bg-indigo-600" onClick={() => router.push('/admin/rubrics/create')}>
+          <Plus className="w-4 h-4 mr-2" />
+          {isRTL ? 'سلم تقييم جديد' : 'New Rubric'}
+        </Button>
+      </div>
+
+      {/* Rubric Grid */}
+      {rubrics.length === 0 ? (
+        <div className="text-center py-16">
+          <Scale className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-500">{isRTL ? 'لا توجد سلالم تقييم بعد' : 'No rubrics yet'}</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {isRTL
+              ? 'بدون سلم تقييم تُقيَّم المحاكاة على المهارات الست الافتراضية'
+              : 'Without a rubric, simulations are scored on the six built-in skills'}
+          </p>
+          <Button className="mt-4 bg-indigo-500 hover:bg-indigo-600" onClick={() => router.push('/admin/rubrics/create')}>
+            <Plus className="w-4 h-4 mr-2" />
+            {isRTL ? 'سلم تقييم جديد' : 'New Rubric'}
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {rubrics.map((rubric) => {
+            const percents = weightPercents(rubric.criteria);
+            return (
+              <Card key={rubric.id} className="hover:shadow-md transition-shadow">
+                <CardContent className="p-5 space-y-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                      {isRTL && rubric.nameAr ? rubric.nameAr : rubric.name}
+                    </h3>
+                    {rubric.description && <p className="text-sm text-gray-500 mt-1 line-clamp-2">{rubric.description}</p>}
+                  </div>
+
+                  <div className="flex flex-wrap gap-1.5">
+                    {rubric.criteria.map((criterion, index) => (
+                      <Badge key={criterion.key} variant="outline" className="text-xs font-normal">
+                        {criterionLabel(criterion, isRTL)} · {percents[index]}%
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2 pt-2 border-t">
+                    <Button variant="outline" size="sm" onClick={() => router.push(`/admin/rubrics/${rubric.id}`)}>
+                      <Pencil className="w-3.5 h-3.5 mr-1" />
+                      {isRTL ? 'تعديل' : 'Edit'}
+                    </Button>
+                    <span className="text-xs text-gray-400 flex items-center gap-1">
+                      <Layers className="w-3.5 h-3.5" />
+                      {rubric.scenarioCount} {isRTL ? 'سيناريو' : 'scenarios'}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 ml-auto"
+                      onClick={() => setDeleteModal({ open: true, rubric })}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmationModal
+        open={deleteModal.open}
+        onOpenChange={(open) => setDeleteModal((prev) => ({ ...prev, open }))}
+        onConfirm={handleDelete}
+        title={isRTL ? 'حذف سلم التقييم' : 'Delete Rubric'}
+        description={
+          isRTL
+            ? 'السيناريوهات التي تستخدمه ستُقيَّم على المهارات الافتراضية. التقارير السابقة لن تتأثر.'
+            : 'Scenarios using it will be scored on the built-in skills. Past reports are not affected.'
+        }
+        confirmText={isRTL ? 'حذف' : 'Delete'}
+        variant="danger"
+        icon="delete"
+        isLoading={deleteRubric.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useRouter, useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ScenarioForm } from '@/components/simulation/ScenarioForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAdminScenario, useSaveScenario } from '@/hooks/useScenarioQueries';
+import type { CreateScenarioInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Theater, Loader2 } from 'lucide-react';
+
+export default function EditScenarioPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const params = useParams();
+  const scenarioId = params.scenarioId as string;
+
+  const scenarioQuery = useAdminScenario(scenarioId);
+  const saveScenario = useSaveScenario();
+
+  const handleSave = async (data: CreateScenarioInput) => {
+    await saveScenario.mutateAsync({ scenarioId, data });
+    router.push('/admin/scenarios');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  if (scenarioQuery.isPending) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  if (!scenarioQuery.data) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-gray-500">{isRTL ? 'السيناريو غير موجود' : 'Scenario not found'}</p>
+        <Button variant="link" onClick={() => router.push('/admin/scenarios')} className="mt-2 text-violet-500">
+          {isRTL ? 'العودة للسيناريوهات' : 'Back to scenarios'}
+        </Button>
+      </div>
+    );
+  }
+
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...initial } = scenarioQuery.data;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/scenarios')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Theater className="w-7 h-7 text-violet-500" />
+          {isRTL && initial.nameAr ? initial.nameAr : initial.name}
+        </h1>
+      </div>
+
+      <ScenarioForm initial={initial} saving={saveScenario.isPending} onSave={handleSave} />
+    </div>
+  );
+}
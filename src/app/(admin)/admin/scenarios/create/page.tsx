@@ -0,0 +1,39 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ScenarioForm } from '@/components/simulation/ScenarioForm';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSaveScenario } from '@/hooks/useScenarioQueries';
+import { EMPTY_SCENARIO } from '@/lib/simulation/scenarios';
+import type { CreateScenarioInput } from '@/types/simulation.types';
+import { ArrowLeft, ArrowRight, Theater } from 'lucide-react';
+
+export default function CreateScenarioPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+  const saveScenario = useSaveScenario();
+
+  const handleSave = async (data: CreateScenarioInput) => {
+    await saveScenario.mutateAsync({ data });
+    router.push('/admin/scenarios');
+  };
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push('/admin/scenarios')}>
+          <BackIcon className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Theater className="w-7 h-7 text-violet-500" />
+          {isRTL ? 'سيناريو جديد' : 'New Scenario'}
+        </h1>
+      </div>
+
+      <ScenarioForm initial={EMPTY_SCENARIO} saving={saveScenario.isPending} onSave={handleSave} />
+    </div>
+  );
+}
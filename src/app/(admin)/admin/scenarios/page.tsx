@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useAdminScenarios, useDeleteScenario } from '@/hooks/useScenarioQueries';
+import { useAdminGroups } from '@/hooks/useAdminQueries';
+import { personalityLabel, scenarioTypeLabel } from '@/lib/simulation/scenarios';
+import type { SimulationScenario } from '@/types/simulation.types';
+import { Plus, Theater, Pencil, Trash2, Loader2, User, Home, UsersRound } from 'lucide-react';
+
+export default function AdminScenariosPage() {
+  const { isRTL } = useLanguage();
+  const router = useRouter();
+
+  const { data: scenarios = [], isPending: loading } = useAdminScenarios();
+  const { data: groupData } = useAdminGroups();
+  const deleteScenario = useDeleteScenario();
+  const [deleteModal, setDeleteModal] = useState<{ open: boolean; scenario: SimulationScenario | null }>({
+    open: false,
+    scenario: null,
+  });
+
+  const groupNames = new Map((groupData?.groups ?? []).map((g) => [g.id, g.name]));
+
+  const handleDelete = async () => {
+    if (!deleteModal.scenario) return;
+    try {
+      await deleteScenario.mutateAsync(deleteModal.scenario.id);
+      setDeleteModal({ open: false, scenario: null });
+    } catch (err) {
+      console.error('Failed to delete scenario:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete scenario');
+    }
+  };
+
+  const getDifficultyColor = (level: string) => {
+    switch (level) {
+      case 'easy': return 'bg-green-100 text-green-700 border-green-200';
+      case 'medium': return 'bg-amber-100 text-amber-700 border-amber-200';
+      case 'hard': return 'bg-red-100 text-red-700 border-red-200';
+      default: return 'bg-gray-100 text-gray-700 border-gray-200';
+    }
+  };
+
+  const getDifficultyLabel = (level: string) => {
+    switch (level) {
+      case 'easy': return isRTL ? 'سهل' : 'Easy';
+      case 'medium': return isRTL ? 'متوسط' : 'Medium';
+      case 'hard': return isRTL ? 'صعب' : 'Hard';
+      default: return level;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Theater className="w-7 h-7 text-violet-500" />
+            {isRTL ? 'سيناريوهات المحاكاة' : 'Simulation Scenarios'}
+          </h1>
+          <p className="text-gray-500 mt-1">
+            {scenarios.length} {isRTL ? 'سيناريو' : 'scenarios'}
+          </p>
+        </div>
+        <Button
+          className="bg-violet-500 hover:bg-violet-600"
+          onClick={() => router.push('/admin/scenarios/create')}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {isRTL ? 'سيناريو جديد' : 'New Scenario'}
+        </Button>
+      </div>
+
+      {/* Scenario Grid */}
+      {scenarios.length === 0 ? (
+        <div className="text-center py-16">
+          <Theater className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-500">
+            {isRTL ? 'لا توجد سيناريوهات مخصصة بعد' : 'No custom scenarios yet'}
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {isRTL
+              ? 'أنشئ سيناريو بعميل وعقار من سوقك ليتدرب عليه فريقك'
+              : 'Create a scenario with a client and a property from your market for your team to practice'}
+          </p>
+          <Button
+            className="mt-4 bg-violet-500 hover:bg-violet-600"
+            onClick={() => router.push('/admin/scenarios/create')}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {isRTL ? 'سيناريو جديد' : 'New Scenario'}
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {scenarios.map((scenario) => (
+            <Card key={scenario.id} className="hover:shadow-md transition-shadow overflow-hidden">
+              <div className={cn(
+                'h-2',
+                scenario.isActive
+                  ? 'bg-gradient-to-r from-violet-400 to-purple-500'
+                  : 'bg-gradient-to-r from-gray-300 to-gray-400'
+              )} />
+              <CardContent className="p-5 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                      {isRTL && scenario.nameAr ? scenario.nameAr : scenario.name}
+                    </h3>
+                    <p className="text-sm text-gray-500 mt-1">{scenarioTypeLabel(scenario.scenarioType, isRTL)}</p>
+                  </div>
+                  <Badge className={cn('text-xs shrink-0', getDifficultyColor(scenario.difficultyLevel))}>
+                    {getDifficultyLabel(scenario.difficultyLevel)}
+                  </Badge>
+                </div>
+
+                <div className="space-y-1 text-sm text-gray-500">
+                  <p className="flex items-center gap-1.5">
+                    <User className="w-3.5 h-3.5" />
+                    {scenario.persona.name} · {personalityLabel(scenario.persona.personality, isRTL)}
+                  </p>
+                  {(scenario.property.propertyType || scenario.property.location) && (
+                    <p className="flex items-center gap-1.5">
+                      <Home className="w-3.5 h-3.5" />
+                      {[scenario.property.propertyType, scenario.property.location].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  <p className="flex items-center gap-1.5">
+                    <UsersRound className="w-3.5 h-3.5" />
+                    {scenario.groupIds.length === 0
+                      ? (isRTL ? 'جميع المتدربين' : 'All trainees')
+                      : scenario.groupIds.map((id) => groupNames.get(id) ?? id).join(isRTL ? '، ' : ', ')}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2 pt-2 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => router.push(`/admin/scenarios/${scenario.id}`)}
+                  >
+                    <Pencil className="w-3.5 h-3.5 mr-1" />
+                    {isRTL ? 'تعديل' : 'Edit'}
+                  </Button>
+                  {!scenario.isActive && (
+                    <Badge variant="secondary" className="text-xs">{isRTL ? 'غير متاح' : 'Hidden'}</Badge>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 ml-auto"
+                    onClick={() => setDeleteModal({ open: true, scenario })}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ConfirmationModal
+        open={deleteModal.open}
+        onOpenChange={(open) => setDeleteModal((prev) => ({ ...prev, open }))}
+        onConfirm={handleDelete}
+        title={isRTL ? 'حذف السيناريو' : 'Delete Scenario'}
+        description={
+          isRTL
+            ? 'لن يظهر السيناريو للمتدربين بعد الآن. الجلسات السابقة وتقاريرها لن تتأثر.'
+            : 'Trainees will no longer see this scenario. Past sessions and their reports are not affected.'
+        }
+        confirmText={isRTL ? 'حذف' : 'Delete'}
+        variant="danger"
+        icon="delete"
+        isLoading={deleteScenario.isPending}
+      />
+    </div>
+  );
+}
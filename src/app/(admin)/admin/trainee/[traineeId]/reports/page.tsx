@@ -13,13 +13,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useAuthStore } from '@/stores/auth.store';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { ScoreChart } from '@/components/charts/ScoreChart';
 import { SkillRadarChart } from '@/components/charts/SkillRadarChart';
 import { VoiceReportsSection } from '@/components/reports/VoiceReportsSection';
 import { TextReportsSection } from '@/components/reports/TextReportsSection';
+import { adminApi, type TraineeReportsInfo } from '@/lib/api/admin.api';
+import { ApiError } from '@/lib/api/client';
+import {
+  reportsApi,
+  type ReportsDashboard,
+  type SkillReport,
+  type SessionHistoryPage,
+  type ScoreTrendPoint,
+  type RecommendationReport,
+} from '@/lib/api/reports.api';
 import Link from 'next/link';
 import {
   TrendingUp,
@@ -43,240 +52,94 @@ import {
   User,
 } from 'lucide-react';
 
-interface TraineeInfo {
-  traineeId: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-}
-
-interface DashboardData {
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number | null;
-  improvement: number;
-  scoreHistory: { date: string; score: number; sessionId: string }[];
-  recentSessions: {
-    id: string;
-    scenarioType: string;
-    difficultyLevel: string;
-    completedAt: string;
-    score: number | null;
-    grade: string | null;
-  }[];
-}
-
-interface SkillData {
-  skills: {
-    skill: string;
-    skillKey: string;
-    averageScore: number | null;
-    sessionCount: number;
-    benchmark: number;
-    tips: string[];
-    isStrength: boolean;
-    isWeakness: boolean;
-  }[];
-  strengths: string[];
-  weaknesses: string[];
-}
-
-interface SessionData {
-  sessions: {
-    id: string;
-    scenarioType: string;
-    difficultyLevel: string;
-    status: string;
-    completedAt: string;
-    durationSeconds: number | null;
-    score: number | null;
-    grade: string | null;
-  }[];
-  total: number;
-  page: number;
-  totalPages: number;
-}
-
-interface TrendData {
-  month: string;
-  year: number;
-  averageScore: number | null;
-  sessionCount: number;
-}
-
-interface RecommendationData {
-  recommendations: {
-    priority: string;
-    title: string;
-    description: string;
-    category: string;
-  }[];
-  weakSkills: string[];
-  suggestedCourses: { title: string; reason: string }[];
-}
-
 export default function AdminTraineeReportsPage() {
   const params = useParams();
   const router = useRouter();
-  const { token } = useAuthStore();
   const { isRTL } = useLanguage();
 
   const traineeId = params.traineeId as string;
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [traineeInfo, setTraineeInfo] = useState<TraineeInfo | null>(null);
+  const [traineeInfo, setTraineeInfo] = useState<TraineeReportsInfo | null>(null);
 
-  const [dashboard, setDashboard] = useState<DashboardData | null>(null);
-  const [skills, setSkills] = useState<SkillData | null>(null);
-  const [sessions, setSessions] = useState<SessionData | null>(null);
-  const [trends, setTrends] = useState<TrendData[]>([]);
-  const [recommendations, setRecommendations] = useState<RecommendationData | null>(null);
+  const [dashboard, setDashboard] = useState<ReportsDashboard | null>(null);
+  const [skills, setSkills] = useState<SkillReport | null>(null);
+  const [sessions, setSessions] = useState<SessionHistoryPage | null>(null);
+  const [trends, setTrends] = useState<ScoreTrendPoint[]>([]);
+  const [recommendations, setRecommendations] = useState<RecommendationReport | null>(null);
 
   const [scenarioFilter, setScenarioFilter] = useState('all');
   const [currentPage, setCurrentPage] = useState(1);
 
-  // Helper to get token
-  const getAuthToken = useCallback((): string | null => {
-    console.log('[Admin Reports] getAuthToken called, zustand token:', token ? 'present' : 'null');
-    if (token) return token;
-
-    // Try auth_token directly first (simpler)
-    const directToken = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
-    if (directToken) {
-      console.log('[Admin Reports] Found token in auth_token localStorage');
-      return directToken;
-    }
-
-    // Fallback to auth-storage
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      console.log('[Admin Reports] auth-storage from localStorage:', authStorage ? 'present' : 'null');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        const storedToken = parsed?.state?.token || null;
-        console.log('[Admin Reports] Parsed token from auth-storage:', storedToken ? 'present' : 'null');
-        return storedToken;
-      }
-    } catch (e) {
-      console.error('Failed to parse auth-storage:', e);
-    }
-    return null;
-  }, [token]);
-
   // Fetch trainee info and reports data
   const fetchData = useCallback(async () => {
-    console.log('[Admin Reports] fetchData called for traineeId:', traineeId);
-    const authToken = getAuthToken();
-    console.log('[Admin Reports] authToken:', authToken ? `present (${authToken.substring(0, 20)}...)` : 'null');
-
-    if (!authToken) {
-      console.error('[Admin Reports] No auth token found!');
-      setError(isRTL ? 'غير مصرح' : 'Not authorized');
-      setIsLoading(false);
-      return;
-    }
-
     setIsLoading(true);
     setError(null);
 
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-    // Ensure apiUrl ends with /api and use it directly (don't create baseUrl)
-    console.log('[Admin Reports] API URL:', apiUrl);
-
-    const headers: HeadersInit = {
-      'Authorization': `Bearer ${authToken}`,
-      'Content-Type': 'application/json',
-    };
-
-    const fetchOptions: RequestInit = {
-      headers,
-      mode: 'cors',
-    };
-
     try {
       // First verify admin has access to this trainee
-      console.log('[Admin Reports] Fetching trainee info from:', `${apiUrl}/admin/trainee/${traineeId}/reports`);
-      const traineeRes = await fetch(`${apiUrl}/admin/trainee/${traineeId}/reports`, fetchOptions);
-      if (!traineeRes.ok) {
-        if (traineeRes.status === 404) {
+      let traineeData;
+      try {
+        traineeData = await adminApi.getTraineeReports(traineeId);
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 404) {
           setError(isRTL ? 'المتدرب غير موجود' : 'Trainee not found');
         } else {
           setError(isRTL ? 'غير مصرح بالوصول' : 'Access denied');
         }
-        setIsLoading(false);
         return;
       }
-      const traineeData = await traineeRes.json();
       setTraineeInfo(traineeData);
 
       // Fetch all reports data for the trainee (using trainee's reports endpoints with admin override)
       // Use the traineeId returned from the first API call (which is the actual ID)
       const actualTraineeId = traineeData.traineeId;
-      console.log('[Admin Reports] Using actual traineeId:', actualTraineeId, '(from URL param:', traineeId, ')');
-
-      const [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes] = await Promise.all([
-        fetch(`${apiUrl}/reports/${actualTraineeId}/dashboard`, fetchOptions),
-        fetch(`${apiUrl}/reports/${actualTraineeId}/skills`, fetchOptions),
-        fetch(`${apiUrl}/reports/${actualTraineeId}/sessions?page=${currentPage}&limit=10&scenarioType=${scenarioFilter}`, fetchOptions),
-        fetch(`${apiUrl}/reports/${actualTraineeId}/trends?months=6`, fetchOptions),
-        fetch(`${apiUrl}/reports/${actualTraineeId}/recommendations`, fetchOptions),
-      ]);
 
-      console.log('[Admin Reports] Dashboard response:', dashboardRes.status, dashboardRes.ok);
-      console.log('[Admin Reports] Skills response:', skillsRes.status, skillsRes.ok);
-      console.log('[Admin Reports] Sessions response:', sessionsRes.status, sessionsRes.ok);
-      console.log('[Admin Reports] Trends response:', trendsRes.status, trendsRes.ok);
-      console.log('[Admin Reports] Recommendations response:', recsRes.status, recsRes.ok);
+      const [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes] = await Promise.allSettled([
+        reportsApi.getDashboard(actualTraineeId),
+        reportsApi.getSkills(actualTraineeId),
+        reportsApi.getSessions(actualTraineeId, { page: currentPage, scenarioType: scenarioFilter }),
+        reportsApi.getTrends(actualTraineeId, 6),
+        reportsApi.getRecommendations(actualTraineeId),
+      ]);
 
-      if (dashboardRes.ok) {
-        const dashboardData = await dashboardRes.json();
-        console.log('[Admin Reports] Dashboard data:', dashboardData);
-        setDashboard(dashboardData);
+      if (dashboardRes.status === 'fulfilled') {
+        setDashboard(dashboardRes.value);
       } else {
-        console.error('[Admin Reports] Dashboard error:', await dashboardRes.text());
+        console.error('[Admin Reports] Dashboard error:', dashboardRes.reason);
       }
 
-      if (skillsRes.ok) {
-        const skillsData = await skillsRes.json();
-        console.log('[Admin Reports] Skills data:', skillsData);
-        setSkills(skillsData);
+      if (skillsRes.status === 'fulfilled') {
+        setSkills(skillsRes.value);
       } else {
-        console.error('[Admin Reports] Skills error:', await skillsRes.text());
+        console.error('[Admin Reports] Skills error:', skillsRes.reason);
       }
 
-      if (sessionsRes.ok) {
-        const sessionsData = await sessionsRes.json();
-        console.log('[Admin Reports] Sessions data:', sessionsData);
-        setSessions(sessionsData);
+      if (sessionsRes.status === 'fulfilled') {
+        setSessions(sessionsRes.value);
       } else {
-        console.error('[Admin Reports] Sessions error:', await sessionsRes.text());
+        console.error('[Admin Reports] Sessions error:', sessionsRes.reason);
       }
 
-      if (trendsRes.ok) {
-        const trendsData = await trendsRes.json();
-        console.log('[Admin Reports] Trends data:', trendsData);
-        setTrends(trendsData);
+      if (trendsRes.status === 'fulfilled') {
+        setTrends(trendsRes.value);
       } else {
-        console.error('[Admin Reports] Trends error:', await trendsRes.text());
+        console.error('[Admin Reports] Trends error:', trendsRes.reason);
       }
 
-      if (recsRes.ok) {
-        const recsData = await recsRes.json();
-        console.log('[Admin Reports] Recommendations data:', recsData);
-        setRecommendations(recsData);
+      if (recsRes.status === 'fulfilled') {
+        setRecommendations(recsRes.value);
       } else {
-        console.error('[Admin Reports] Recommendations error:', await recsRes.text());
+        console.error('[Admin Reports] Recommendations error:', recsRes.reason);
       }
-
     } catch (err) {
       console.error('[Admin Reports] Error fetching trainee reports:', err);
       setError(isRTL ? 'فشل تحميل التقارير' : 'Failed to load reports');
     } finally {
-      console.log('[Admin Reports] fetchData completed');
       setIsLoading(false);
     }
-  }, [getAuthToken, traineeId, currentPage, scenarioFilter, isRTL]);
+  }, [traineeId, currentPage, scenarioFilter, isRTL]);
 
   // Log state changes for debugging
   useEffect(() => {
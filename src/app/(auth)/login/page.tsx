@@ -59,7 +59,9 @@ export default function LoginPage() {
     setIsLoading(true);
 
     try {
-      await login({ email, password });
+      // Set by the session manager when a session expired mid-task
+      const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+      await login({ email, password }, { returnTo });
     } catch (err) {
       setError(err instanceof Error ? err.message : t.auth.loginFailed);
     } finally {
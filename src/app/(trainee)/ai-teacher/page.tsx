@@ -56,7 +56,7 @@ import {
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useLessonContext, LessonContext } from '@/contexts/LessonContext';
 import { cn } from '@/lib/utils';
-import { useAudioManager } from '@/lib/audio-manager';
+import { usePlayback } from '@/hooks/usePlayback';
 import {
   aiTeacherApi,
   avContentApi,
@@ -244,8 +244,8 @@ export default function AITeacherPage() {
   const { t, isRTL, language } = useLanguage();
   const { lessonContext, clearLessonContext, hasLessonContext } = useLessonContext();
 
-  // Global Audio Manager (Singleton - prevents all audio overlap)
-  const audioManager = useAudioManager();
+  // Shared playback queue (one clip at a time across the app)
+  const { state: audioState, currentId: playingAudioId, play: playClip, stop: stopClips } = usePlayback();
 
   // State
   const [profile, setProfile] = useState<TraineeProfile | null>(null);
@@ -283,7 +283,6 @@ export default function AITeacherPage() {
   // Audio plays only when user clicks "Listen" button - no auto-play
   const [showSettings, setShowSettings] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [audioState, setAudioState] = useState<'idle' | 'loading' | 'playing' | 'paused'>('idle');
 
   // AV Content Generation State
   const [avContentId, setAVContentId] = useState<string | null>(null);
@@ -298,18 +297,10 @@ export default function AITeacherPage() {
   const initializationRef = useRef<boolean>(false);
   const hasPlayedInitialAudioRef = useRef<boolean>(false);
 
-  // Setup audio manager events
+  // Stop audio on unmount
   useEffect(() => {
-    audioManager.setEvents({
-      onStateChange: setAudioState,
-      onError: (err) => console.error('[Audio Error]', err),
-    });
-
-    // Cleanup on unmount
-    return () => {
-      audioManager.stop();
-    };
-  }, [audioManager]);
+    return () => stopClips();
+  }, [stopClips]);
 
   // Scroll to bottom when messages change
   const scrollToBottom = useCallback(() => {
@@ -320,16 +311,16 @@ export default function AITeacherPage() {
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
-  // Play audio using global AudioManager (prevents all overlap)
+  // Play audio through the shared queue (replaces anything playing)
   // Only called when user clicks "Listen" button
   const playAudio = useCallback((base64Audio: string, audioId?: string) => {
-    audioManager.play(base64Audio, audioId);
-  }, [audioManager]);
+    playClip(base64Audio, audioId);
+  }, [playClip]);
 
   // Stop any playing audio
   const stopAudio = useCallback(() => {
-    audioManager.stop();
-  }, [audioManager]);
+    stopClips();
+  }, [stopClips]);
 
   // Generate and play audio on demand
   const generateAndPlayAudio = useCallback(async (text: string) => {
@@ -342,15 +333,14 @@ export default function AITeacherPage() {
       const activeTeacher = useTeacherStore.getState().activeTeacher || useTeacherStore.getState().assignedTeacher;
       const response = await aiTeacherApi.textToSpeech(text, lang as 'ar' | 'en', activeTeacher || undefined);
       if (response.audio) {
-        // Use 'manual' in ID to bypass auto-play check
-        audioManager.play(response.audio, `manual-${Date.now()}`);
+        playClip(response.audio, `manual-${Date.now()}`);
       }
     } catch {
       // Audio generation failed - continue without audio
     } finally {
       setIsGeneratingAudio(false);
     }
-  }, [isRTL, audioManager, isGeneratingAudio]);
+  }, [isRTL, playClip, isGeneratingAudio]);
 
   // Generate lesson summary
   const generateLessonSummary = useCallback(async () => {
@@ -1355,19 +1345,19 @@ ${lastLessonText}${skillSection}
                         <button
                           className={cn(
                             "flex-shrink-0 w-12 h-12 rounded-full flex items-center justify-center transition-all",
-                            audioState === 'playing' && audioManager.getCurrentAudioId() === message.id
+                            audioState === 'playing' && playingAudioId === message.id
                               ? "bg-red-500 hover:bg-red-600"
                               : "bg-emerald-500 hover:bg-emerald-600"
                           )}
                           onClick={() => {
-                            if (audioState === 'playing' && audioManager.getCurrentAudioId() === message.id) {
+                            if (audioState === 'playing' && playingAudioId === message.id) {
                               stopAudio();
                             } else if (message.audioSummary?.audioBase64) {
-                              audioManager.play(message.audioSummary.audioBase64, message.id);
+                              playClip(message.audioSummary.audioBase64, message.id);
                             }
                           }}
                         >
-                          {audioState === 'playing' && audioManager.getCurrentAudioId() === message.id ? (
+                          {audioState === 'playing' && playingAudioId === message.id ? (
                             <VolumeX className="h-6 w-6 text-white" />
                           ) : (
                             <Play className="h-6 w-6 text-white ms-0.5" />
@@ -1381,7 +1371,7 @@ ${lastLessonText}${skillSection}
                               key={i}
                               className={cn(
                                 "w-1 rounded-full transition-all duration-150",
-                                audioState === 'playing' && audioManager.getCurrentAudioId() === message.id
+                                audioState === 'playing' && playingAudioId === message.id
                                   ? "bg-emerald-400 animate-pulse"
                                   : "bg-emerald-500/50"
                               )}
@@ -1408,34 +1398,34 @@ ${lastLessonText}${skillSection}
                           size="sm"
                           className={cn(
                             "h-7 px-3 text-xs transition-all",
-                            audioState === 'playing' && audioManager.getCurrentAudioId() === message.id
+                            audioState === 'playing' && playingAudioId === message.id
                               ? "bg-violet-500/30 border-violet-500/50 text-violet-300"
                               : "bg-violet-500/10 border-violet-500/30 text-violet-400 hover:text-violet-300 hover:bg-violet-500/20 hover:border-violet-500/50"
                           )}
                           disabled={isGeneratingAudio || audioState === 'loading'}
                           onClick={() => {
                             // If this message is playing, stop it
-                            if (audioState === 'playing' && audioManager.getCurrentAudioId() === message.id) {
+                            if (audioState === 'playing' && playingAudioId === message.id) {
                               stopAudio();
                               return;
                             }
                             // Otherwise play this message
                             if (message.audioBase64) {
-                              audioManager.play(message.audioBase64, message.id);
+                              playClip(message.audioBase64, message.id);
                             } else {
                               // Generate audio on demand if not available
                               generateAndPlayAudio(message.content);
                             }
                           }}
                         >
-                          {isGeneratingAudio || (audioState === 'loading' && audioManager.getCurrentAudioId() === message.id) ? (
+                          {isGeneratingAudio || (audioState === 'loading' && playingAudioId === message.id) ? (
                             <Loader2 className="h-3.5 w-3.5 me-1.5 animate-spin" />
-                          ) : audioState === 'playing' && audioManager.getCurrentAudioId() === message.id ? (
+                          ) : audioState === 'playing' && playingAudioId === message.id ? (
                             <VolumeX className="h-3.5 w-3.5 me-1.5" />
                           ) : (
                             <Volume2 className="h-3.5 w-3.5 me-1.5" />
                           )}
-                          {audioState === 'playing' && audioManager.getCurrentAudioId() === message.id
+                          {audioState === 'playing' && playingAudioId === message.id
                             ? (isRTL ? 'إيقاف' : 'Stop')
                             : (isRTL ? 'استمع للرسالة' : 'Listen')
                           }
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useMyCertificates } from '@/hooks/useCertificateQueries';
+import { CertificateDownloadButton } from '@/components/certificates/CertificateDownloadButton';
+import { achievementTitle, certificateVerifyUrl, formatCertificateDate } from '@/lib/certificates/template';
+import type { Certificate } from '@/types/certificate';
+import { Award, ClipboardCheck, BookOpen, Link2, Check, ExternalLink, Ban } from 'lucide-react';
+
+export default function CertificatesPage() {
+  const { t, isRTL } = useLanguage();
+  const { data: certificates = [], isPending } = useMyCertificates();
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCopy = async (certificate: Certificate) => {
+    try {
+      await navigator.clipboard.writeText(certificateVerifyUrl(certificate.verificationCode));
+      setCopiedId(certificate.id);
+      setTimeout(() => setCopiedId((current) => (current === certificate.id ? null : current)), 2000);
+    } catch (err) {
+      console.error('Failed to copy verification link:', err);
+    }
+  };
+
+  if (isPending) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="h-8 w-48 bg-gray-200 dark:bg-gray-700 rounded animate-pulse" />
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-52 bg-gray-200 dark:bg-gray-700 rounded-xl animate-pulse" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Award className="w-7 h-7 text-amber-500" />
+          {t.certificate.myCertificates}
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">{t.certificate.certificatesDesc}</p>
+      </div>
+
+      {certificates.length === 0 ? (
+        <div className="text-center py-16">
+          <Award className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-500">{t.certificate.noCertificates}</h3>
+          <p className="text-sm text-gray-400 mt-1">{t.certificate.noCertificatesDesc}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {certificates.map((certificate) => {
+            const revoked = certificate.status === 'revoked';
+            const SourceIcon = certificate.source === 'quiz' ? ClipboardCheck : BookOpen;
+            return (
+              <Card
+                key={certificate.id}
+                className={cn('overflow-hidden', revoked && 'opacity-70')}
+                style={{ borderTop: `4px solid ${certificate.template.accentColor}` }}
+              >
+                <CardContent className="p-5 space-y-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 dark:text-white line-clamp-2">
+                        {achievementTitle(certificate, isRTL ? 'ar' : 'en')}
+                      </h3>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {t.certificate.issuedOn}: {formatCertificateDate(certificate.issuedAt, isRTL ? 'ar' : 'en')}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="shrink-0 gap-1">
+                      <SourceIcon className="w-3 h-3" />
+                      {certificate.source === 'quiz' ? t.certificate.quizCertificate : t.certificate.courseCertificate}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500">{t.certificate.verificationCode}</span>
+                    <span className="font-mono text-gray-900 dark:text-white" dir="ltr">{certificate.verificationCode}</span>
+                  </div>
+                  {certificate.score !== null && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-500">{t.quiz.score}</span>
+                      <span className="font-semibold text-emerald-600">{Math.round(certificate.score)}%</span>
+                    </div>
+                  )}
+
+                  {revoked ? (
+                    <div className="flex items-center gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 p-3 text-sm">
+                      <Ban className="w-4 h-4 shrink-0" />
+                      {t.certificate.revoked}
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      <CertificateDownloadButton certificate={certificate} size="sm" className="bg-amber-500 hover:bg-amber-600 text-white" />
+                      <Button variant="outline" size="sm" onClick={() => handleCopy(certificate)}>
+                        {copiedId === certificate.id ? <Check className="w-4 h-4 mr-1 text-green-600" /> : <Link2 className="w-4 h-4 mr-1" />}
+                        {copiedId === certificate.id ? t.certificate.linkCopied : t.certificate.copyLink}
+                      </Button>
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={certificateVerifyUrl(certificate.verificationCode)} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
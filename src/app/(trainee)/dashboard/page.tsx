@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -26,16 +26,22 @@ import {
 } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { traineeApi, DashboardStats } from '@/lib/api/trainee.api';
+import { useTraineeDashboardStats, useTraineeProfile } from '@/hooks/useTraineeQueries';
 import { courses } from '@/data/courses';
 import { DiagnosticBanner } from '@/components/trainee/DiagnosticBanner';
 
 export default function DashboardPage() {
   const { t, isRTL, language } = useLanguage();
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [completedLessonIds, setCompletedLessonIds] = useState<Set<string>>(new Set());
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const statsQuery = useTraineeDashboardStats();
+  const profileQuery = useTraineeProfile();
+
+  const stats = statsQuery.data ?? null;
+  const completedLectureIds = profileQuery.data?.progress?.completedLectureIds;
+  const completedLessonIds = useMemo(() => new Set(completedLectureIds ?? []), [completedLectureIds]);
+  const loading = statsQuery.isPending || profileQuery.isPending;
+  const error = statsQuery.isError || profileQuery.isError
+    ? (isRTL ? 'فشل في تحميل البيانات' : 'Failed to load data')
+    : null;
 
   // Calculate local courses progress
   const totalLocalLessons = courses.reduce((sum, course) => sum + course.lessons.length, 0);
@@ -51,36 +57,6 @@ export default function DashboardPage() {
     return course.lessons.every(lesson => completedLessonIds.has(lesson.id));
   }).length;
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        setLoading(true);
-
-        // Fetch dashboard stats and profile in parallel
-        const [dashboardData, profile] = await Promise.all([
-          traineeApi.getDashboardStats(),
-          traineeApi.getProfile()
-        ]);
-
-        setStats(dashboardData);
-
-        // Set completed lecture IDs from profile
-        if (profile.progress?.completedLectureIds) {
-          setCompletedLessonIds(new Set(profile.progress.completedLectureIds));
-        }
-
-        setError(null);
-      } catch (err) {
-        console.error('Failed to fetch dashboard stats:', err);
-        setError(isRTL ? 'فشل في تحميل البيانات' : 'Failed to load data');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchStats();
-  }, [isRTL]);
-
   // Format time based on language
   const formatTime = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -182,7 +158,7 @@ export default function DashboardPage() {
         <Card className="border-destructive/50 bg-destructive/5">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <p className="text-destructive mb-4">{error}</p>
-            <Button onClick={() => window.location.reload()}>
+            <Button onClick={() => { statsQuery.refetch(); profileQuery.refetch(); }}>
               {isRTL ? 'إعادة المحاولة' : 'Retry'}
             </Button>
           </CardContent>
@@ -1,24 +1,35 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { flashcardApi } from '@/lib/api/flashcard.api';
-import type { StudyCard, ReviewResult } from '@/types/flashcard';
+import { useDeckStudyCards, useDeckCards, useRecordReview } from '@/hooks/useFlashcardQueries';
+import { useReviewSync } from '@/hooks/useReviewSync';
+import { useStudyModeStore } from '@/stores/studyMode.store';
+import { buildChoices, shuffle, type Choice } from '@/lib/flashcards/multiple-choice';
+import type { AnswerMatch } from '@/lib/flashcards/answer-matching';
+import { StudyModeSelector } from '@/components/flashcards/StudyModeSelector';
+import { TypedAnswerPanel } from '@/components/flashcards/TypedAnswerPanel';
+import { MultipleChoicePanel } from '@/components/flashcards/MultipleChoicePanel';
+import type { CardDetail, ReviewResult, StudyCard, StudyMode } from '@/types/flashcard';
 import {
   ArrowLeft,
   ArrowRight,
   RotateCcw,
   Lightbulb,
   Loader2,
-  CheckCircle2,
   Trophy,
   BookOpen,
   Layers,
+  WifiOff,
+  RefreshCw,
+  CalendarClock,
+  Check,
+  X,
 } from 'lucide-react';
 
 const qualityColors = [
@@ -30,43 +41,111 @@ const qualityColors = [
   'bg-green-500 hover:bg-green-600',    // 5
 ];
 
+// SM-2 quality recorded for a multiple-choice pick
+const CHOICE_QUALITY = { correct: 4, incorrect: 1 };
+
+// Modes where the trainee flips the card and rates their own recall
+const SELF_RATED_MODES: StudyMode[] = ['flip', 'reverse'];
+
+function toStudyCard(card: CardDetail): StudyCard {
+  return {
+    id: card.id,
+    front: card.front,
+    frontAr: card.frontAr,
+    back: card.back,
+    backAr: card.backAr,
+    hint: card.hint,
+    hintAr: card.hintAr,
+    proficiency: null,
+  };
+}
+
 export default function StudyPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
   const params = useParams();
   const deckId = params.deckId as string;
 
+  const mode = useStudyModeStore((state) => state.modes[deckId] ?? 'flip');
+  const setMode = useStudyModeStore((state) => state.setMode);
+  const isCram = mode === 'cram';
+  const isReverse = mode === 'reverse';
+  // Cram studies the whole deck; multiple choice draws distractors from it
+  const needsDeckCards = isCram || mode === 'multiple_choice';
+
+  const { data, isLoading, refetch } = useDeckStudyCards(deckId);
+  const deckCards = useDeckCards(deckId, { enabled: needsDeckCards });
+  const deckCardsLoading = needsDeckCards && deckCards.isLoading;
+  const loading = isLoading || deckCardsLoading;
+  const recordReview = useRecordReview(deckId);
+  const { isOnline, pendingCount, isSyncing, sync } = useReviewSync();
+
   const [cards, setCards] = useState<StudyCard[]>([]);
+  const [sessionSize, setSessionSize] = useState(0);
+  const [sessionKey, setSessionKey] = useState(0);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [flipped, setFlipped] = useState(false);
   const [showHint, setShowHint] = useState(false);
-  const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [completed, setCompleted] = useState(false);
   const [reviewedCount, setReviewedCount] = useState(0);
   const [correctCount, setCorrectCount] = useState(0);
   const [lastResult, setLastResult] = useState<ReviewResult | null>(null);
+  const [typedMatch, setTypedMatch] = useState<AnswerMatch | null>(null);
+  const [selectedChoice, setSelectedChoice] = useState<Choice | null>(null);
+
+  // Falls back to the due cards when the full deck can't be loaded (e.g. offline)
+  const poolCards = useMemo(
+    () => deckCards.data?.map(toStudyCard) ?? data?.cards ?? [],
+    [deckCards.data, data]
+  );
 
+  // Start a session whenever the cards or the mode change
   useEffect(() => {
-    const fetchCards = async () => {
-      try {
-        setLoading(true);
-        const data = await flashcardApi.getStudyCards(deckId);
-        setCards(data.cards);
-        if (data.cards.length === 0) {
-          setCompleted(true);
-        }
-      } catch (err) {
-        console.error('Failed to fetch study cards:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchCards();
-  }, [deckId]);
+    if (!data || deckCardsLoading) return;
+
+    const sessionCards = isCram ? shuffle(poolCards) : data.cards;
+    setCards(sessionCards);
+    setSessionSize(sessionCards.length);
+    setCurrentIndex(0);
+    setFlipped(false);
+    setShowHint(false);
+    setTypedMatch(null);
+    setSelectedChoice(null);
+    setReviewedCount(0);
+    setCorrectCount(0);
+    setLastResult(null);
+    // Nothing due - go straight to the completion screen
+    setCompleted(sessionCards.length === 0);
+  }, [data, isCram, deckCardsLoading, poolCards, sessionKey]);
 
   const currentCard = cards[currentIndex];
 
+  const frontText = (card: StudyCard) => (isRTL && card.frontAr ? card.frontAr : card.front);
+  const backText = (card: StudyCard) => (isRTL && card.backAr ? card.backAr : card.back);
+
+  const choices = useMemo(() => {
+    if (mode !== 'multiple_choice' || !currentCard) return [];
+    const toSource = (card: StudyCard) => ({
+      id: card.id,
+      answer: isRTL && card.backAr ? card.backAr : card.back,
+    });
+    return buildChoices(toSource(currentCard), poolCards.map(toSource));
+  }, [mode, currentCard, poolCards, isRTL]);
+
+  const resetCard = () => {
+    setFlipped(false);
+    setShowHint(false);
+    setTypedMatch(null);
+    setSelectedChoice(null);
+  };
+
+  const handleModeChange = (newMode: StudyMode) => {
+    if (newMode === mode) return;
+    setMode(deckId, newMode);
+    setSessionKey((key) => key + 1);
+  };
+
   const handleFlip = useCallback(() => {
     setFlipped(prev => !prev);
   }, []);
@@ -76,17 +155,17 @@ export default function StudyPage() {
 
     setSubmitting(true);
     try {
-      const result = await flashcardApi.submitReview(currentCard.id, quality);
+      // Saved locally first; the local SM-2 result is shown until the server's arrives
+      const { result } = await recordReview.mutateAsync({ card: currentCard, quality });
       setLastResult(result);
       setReviewedCount(prev => prev + 1);
       if (quality >= 3) setCorrectCount(prev => prev + 1);
+      sync();
 
       // Move to next card or complete
       if (currentIndex < cards.length - 1) {
         setCurrentIndex(prev => prev + 1);
-        setFlipped(false);
-        setShowHint(false);
-        setLastResult(null);
+        resetCard();
       } else {
         setCompleted(true);
       }
@@ -97,15 +176,60 @@ export default function StudyPage() {
     }
   };
 
+  /** Cram never touches the schedule: known cards leave the pile, missed ones go to the back */
+  const handleCram = (known: boolean) => {
+    if (!currentCard) return;
+
+    setReviewedCount(prev => prev + 1);
+    if (known) setCorrectCount(prev => prev + 1);
+
+    const remaining = cards.filter((_, i) => i !== currentIndex);
+    const nextCards = known ? remaining : [...remaining, currentCard];
+    if (nextCards.length === 0) {
+      setCompleted(true);
+      return;
+    }
+    setCards(nextCards);
+    setCurrentIndex(0);
+    resetCard();
+  };
+
+  const handleTypedCheck = (match: AnswerMatch) => {
+    setTypedMatch(match);
+    setFlipped(true);
+  };
+
+  const handleChoice = (choice: Choice) => {
+    setSelectedChoice(choice);
+    setFlipped(true);
+  };
+
+  const rateChoice = () => {
+    if (!selectedChoice) return;
+    handleRate(selectedChoice.isCorrect ? CHOICE_QUALITY.correct : CHOICE_QUALITY.incorrect);
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (completed || loading) return;
+      // Don't hijack typing in the answer box
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
-      if (e.key === ' ' || e.key === 'Enter') {
+      if (mode === 'multiple_choice') {
+        const index = parseInt(e.key) - 1;
+        if (!selectedChoice && index >= 0 && index < choices.length) {
+          handleChoice(choices[index]);
+        } else if (selectedChoice && e.key === 'Enter') {
+          rateChoice();
+        }
+        return;
+      }
+
+      if ((e.key === ' ' || e.key === 'Enter') && mode !== 'typed') {
         e.preventDefault();
         handleFlip();
-      } else if (flipped && e.key >= '0' && e.key <= '5') {
+      } else if (flipped && !isCram && e.key >= '0' && e.key <= '5') {
         handleRate(parseInt(e.key));
       } else if (e.key === 'h') {
         setShowHint(true);
@@ -114,10 +238,29 @@ export default function StudyPage() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [completed, loading, flipped, currentCard, handleFlip]);
+  }, [completed, loading, flipped, currentCard, handleFlip, mode, isCram, choices, selectedChoice]);
 
   const BackIcon = isRTL ? ArrowRight : ArrowLeft;
 
+  const formatInterval = (days: number) => {
+    if (days === 1) return isRTL ? 'غداً' : 'tomorrow';
+    return isRTL ? `بعد ${days} يوم` : `in ${days} days`;
+  };
+
+  const syncStatus = !isOnline ? (
+    <div className="flex items-center gap-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 p-3 text-sm">
+      <WifiOff className="w-4 h-4 shrink-0" />
+      {isRTL
+        ? `أنت غير متصل. يتم حفظ تقييماتك على هذا الجهاز وستتم مزامنتها عند عودة الاتصال (${pendingCount} بانتظار المزامنة)`
+        : `You're offline. Ratings are saved on this device and will sync when you reconnect (${pendingCount} pending)`}
+    </div>
+  ) : pendingCount > 0 ? (
+    <div className="flex items-center gap-2 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 p-3 text-sm">
+      <RefreshCw className={cn('w-4 h-4 shrink-0', isSyncing && 'animate-spin')} />
+      {isRTL ? `جارٍ مزامنة ${pendingCount} تقييم...` : `Syncing ${pendingCount} rating(s)...`}
+    </div>
+  ) : null;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -130,7 +273,8 @@ export default function StudyPage() {
   if (completed) {
     const accuracy = reviewedCount > 0 ? Math.round((correctCount / reviewedCount) * 100) : 0;
     return (
-      <div className={cn('p-6 max-w-lg mx-auto', isRTL && 'text-right')}>
+      <div className={cn('p-6 max-w-lg mx-auto space-y-4', isRTL && 'text-right')}>
+        <StudyModeSelector mode={mode} onChange={handleModeChange} />
         <Card className="overflow-hidden">
           <div className="h-2 bg-gradient-to-r from-green-400 to-emerald-500" />
           <CardContent className="p-8 text-center space-y-6">
@@ -152,10 +296,20 @@ export default function StudyPage() {
               </div>
             </div>
 
-            {cards.length === 0 && (
+            {sessionSize === 0 && (
               <p className="text-gray-500">{t.flashcard.noDueCards}</p>
             )}
 
+            {isCram && (
+              <p className="text-xs text-gray-400">
+                {isRTL
+                  ? 'المراجعة السريعة لا تغيّر جدول مراجعاتك'
+                  : "Cram sessions don't change your review schedule"}
+              </p>
+            )}
+
+            {syncStatus}
+
             <div className="flex gap-3">
               <Button
                 variant="outline"
@@ -168,19 +322,13 @@ export default function StudyPage() {
               <Button
                 className="flex-1 bg-amber-500 hover:bg-amber-600 text-white"
                 onClick={() => {
-                  setCurrentIndex(0);
-                  setFlipped(false);
-                  setShowHint(false);
-                  setCompleted(false);
-                  setReviewedCount(0);
-                  setCorrectCount(0);
-                  setLastResult(null);
-                  setLoading(true);
-                  flashcardApi.getStudyCards(deckId).then(data => {
-                    setCards(data.cards);
-                    if (data.cards.length === 0) setCompleted(true);
-                    setLoading(false);
-                  });
+                  // Cram reshuffles the deck; the other modes fetch whatever is due now
+                  if (isCram) {
+                    setSessionKey((key) => key + 1);
+                  } else {
+                    // Restart even when the due cards come back unchanged
+                    refetch().then(() => setSessionKey((key) => key + 1));
+                  }
                 }}
               >
                 <RotateCcw className="w-4 h-4 mr-2" />
@@ -202,6 +350,37 @@ export default function StudyPage() {
     t.flashcard.quality5,
   ];
 
+  const flipsOnClick = isCram || SELF_RATED_MODES.includes(mode);
+  const doneCount = isCram ? sessionSize - cards.length : currentIndex;
+
+  const ratingButtons = (suggestedQuality?: number) => (
+    <div className="space-y-3">
+      <p className="text-center text-sm font-medium text-gray-600 dark:text-gray-400">
+        {t.flashcard.rateRecall}
+      </p>
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+        {[0, 1, 2, 3, 4, 5].map((q) => (
+          <Button
+            key={q}
+            disabled={submitting}
+            className={cn(
+              'text-white flex flex-col py-3 h-auto',
+              qualityColors[q],
+              suggestedQuality === q && 'ring-2 ring-offset-2 ring-amber-500'
+            )}
+            onClick={() => handleRate(q)}
+          >
+            <span className="text-lg font-bold">{q}</span>
+            <span className="text-[10px] leading-tight">{qualityLabels[q]}</span>
+          </Button>
+        ))}
+      </div>
+      <p className="text-center text-xs text-gray-400">
+        {isRTL ? 'اضغط 0-5 على لوحة المفاتيح' : 'Press 0-5 on keyboard'}
+      </p>
+    </div>
+  );
+
   return (
     <div className={cn('p-6 max-w-2xl mx-auto space-y-4', isRTL && 'text-right')}>
       {/* Header */}
@@ -211,27 +390,49 @@ export default function StudyPage() {
         </Button>
         <div className="flex items-center gap-2 text-sm text-gray-500">
           <BookOpen className="w-4 h-4" />
-          {currentIndex + 1} / {cards.length}
+          {isCram ? doneCount : currentIndex + 1} / {sessionSize}
         </div>
       </div>
 
+      <StudyModeSelector mode={mode} onChange={handleModeChange} disabled={submitting} />
+
       {/* Progress Bar */}
       <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
         <div
           className="bg-amber-500 h-2 rounded-full transition-all duration-300"
-          style={{ width: `${((currentIndex) / cards.length) * 100}%` }}
+          style={{ width: `${(doneCount / sessionSize) * 100}%` }}
         />
       </div>
 
+      {syncStatus}
+
+      {data?.cachedAt && !isCram && (
+        <p className="text-xs text-gray-400">
+          {isRTL
+            ? `بطاقات محفوظة بتاريخ ${new Date(data.cachedAt).toLocaleString('ar-SA')}`
+            : `Showing cards saved on ${new Date(data.cachedAt).toLocaleString('en-US')}`}
+        </p>
+      )}
+
+      {/* Next review of the previous card */}
+      {lastResult && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <CalendarClock className="w-4 h-4" />
+          {isRTL
+            ? `البطاقة السابقة: المراجعة التالية ${formatInterval(lastResult.newInterval)}`
+            : `Previous card: next review ${formatInterval(lastResult.newInterval)}`}
+        </div>
+      )}
+
       {/* Flashcard */}
       {currentCard && (
         <div
-          className="perspective-1000 cursor-pointer"
-          onClick={() => !flipped && handleFlip()}
+          className={cn('perspective-1000', flipsOnClick && !flipped && 'cursor-pointer')}
+          onClick={() => flipsOnClick && !flipped && handleFlip()}
         >
           <Card className={cn(
             'min-h-[280px] transition-all duration-500 relative overflow-hidden',
-            !flipped && 'hover:shadow-lg'
+            flipsOnClick && !flipped && 'hover:shadow-lg'
           )}>
             <div className={cn(
               'h-2',
@@ -241,17 +442,17 @@ export default function StudyPage() {
             )} />
             <CardContent className="p-8 flex flex-col items-center justify-center min-h-[260px]">
               {!flipped ? (
-                /* FRONT */
+                /* PROMPT */
                 <div className="text-center space-y-4 w-full">
                   <Badge className="bg-amber-100 text-amber-700 mb-2">
-                    {t.flashcard.front}
+                    {isReverse ? t.flashcard.back : t.flashcard.front}
                   </Badge>
                   <h2 className="text-xl md:text-2xl font-semibold text-gray-900 dark:text-white leading-relaxed">
-                    {isRTL && currentCard.frontAr ? currentCard.frontAr : currentCard.front}
+                    {isReverse ? backText(currentCard) : frontText(currentCard)}
                   </h2>
 
-                  {/* Hint */}
-                  {(currentCard.hint || currentCard.hintAr) && (
+                  {/* Hint - hints describe the back, so they'd give the answer away in reverse */}
+                  {!isReverse && (currentCard.hint || currentCard.hintAr) && (
                     <div className="mt-4">
                       {showHint ? (
                         <p className="text-sm text-amber-600 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3">
@@ -267,9 +468,11 @@ export default function StudyPage() {
                     </div>
                   )}
 
-                  <p className="text-sm text-gray-400 mt-6">
-                    {isRTL ? 'انقر لقلب البطاقة' : 'Click to flip'} (Space)
-                  </p>
+                  {flipsOnClick && (
+                    <p className="text-sm text-gray-400 mt-6">
+                      {isRTL ? 'انقر لقلب البطاقة' : 'Click to flip'} (Space)
+                    </p>
+                  )}
 
                   {/* Proficiency indicator */}
                   {currentCard.proficiency && (
@@ -280,13 +483,16 @@ export default function StudyPage() {
                   )}
                 </div>
               ) : (
-                /* BACK */
+                /* ANSWER */
                 <div className="text-center space-y-4 w-full">
                   <Badge className="bg-green-100 text-green-700 mb-2">
-                    {t.flashcard.back}
+                    {isReverse ? t.flashcard.front : t.flashcard.back}
                   </Badge>
+                  <p className="text-sm text-gray-400">
+                    {isReverse ? backText(currentCard) : frontText(currentCard)}
+                  </p>
                   <h2 className="text-xl md:text-2xl font-semibold text-gray-900 dark:text-white leading-relaxed">
-                    {isRTL && currentCard.backAr ? currentCard.backAr : currentCard.back}
+                    {isReverse ? frontText(currentCard) : backText(currentCard)}
                   </h2>
                 </div>
               )}
@@ -296,7 +502,7 @@ export default function StudyPage() {
       )}
 
       {/* Show Answer / Rating Buttons */}
-      {currentCard && !flipped && (
+      {currentCard && flipsOnClick && !flipped && (
         <Button
           className="w-full bg-amber-500 hover:bg-amber-600 text-white py-6 text-lg"
           onClick={handleFlip}
@@ -306,27 +512,52 @@ export default function StudyPage() {
         </Button>
       )}
 
-      {currentCard && flipped && (
-        <div className="space-y-3">
-          <p className="text-center text-sm font-medium text-gray-600 dark:text-gray-400">
-            {t.flashcard.rateRecall}
-          </p>
-          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
-            {[0, 1, 2, 3, 4, 5].map((q) => (
-              <Button
-                key={q}
-                disabled={submitting}
-                className={cn('text-white flex flex-col py-3 h-auto', qualityColors[q])}
-                onClick={() => handleRate(q)}
-              >
-                <span className="text-lg font-bold">{q}</span>
-                <span className="text-[10px] leading-tight">{qualityLabels[q]}</span>
-              </Button>
-            ))}
-          </div>
-          <p className="text-center text-xs text-gray-400">
-            {isRTL ? 'اضغط 0-5 على لوحة المفاتيح' : 'Press 0-5 on keyboard'}
-          </p>
+      {currentCard && flipped && SELF_RATED_MODES.includes(mode) && ratingButtons()}
+
+      {currentCard && flipped && isCram && (
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" className="py-6" onClick={() => handleCram(false)}>
+            <X className="w-5 h-5 mr-2 text-red-500" />
+            {isRTL ? 'مرة أخرى' : 'Again'}
+          </Button>
+          <Button className="py-6 bg-green-500 hover:bg-green-600 text-white" onClick={() => handleCram(true)}>
+            <Check className="w-5 h-5 mr-2" />
+            {isRTL ? 'أعرفها' : 'Got it'}
+          </Button>
+        </div>
+      )}
+
+      {/* Typed recall */}
+      {currentCard && mode === 'typed' && (
+        <div className="space-y-4">
+          <TypedAnswerPanel
+            key={currentCard.id}
+            acceptedAnswers={[currentCard.back, currentCard.backAr]}
+            match={typedMatch}
+            onChecked={handleTypedCheck}
+          />
+          {typedMatch && ratingButtons(typedMatch.suggestedQuality)}
+        </div>
+      )}
+
+      {/* Multiple choice */}
+      {currentCard && mode === 'multiple_choice' && (
+        <div className="space-y-4">
+          <MultipleChoicePanel
+            choices={choices}
+            selectedId={selectedChoice?.cardId ?? null}
+            onSelect={handleChoice}
+          />
+          {selectedChoice && (
+            <Button
+              className="w-full bg-amber-500 hover:bg-amber-600 text-white py-6 text-lg"
+              disabled={submitting}
+              onClick={rateChoice}
+            >
+              {submitting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+              {t.flashcard.nextCard}
+            </Button>
+          )}
         </div>
       )}
     </div>
@@ -1,14 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { flashcardApi } from '@/lib/api/flashcard.api';
-import type { DeckListItemWithProgress, FlashcardProgress } from '@/types/flashcard';
+import { useAvailableDecks, useFlashcardProgress, useGenerateDeck } from '@/hooks/useFlashcardQueries';
+import type { DeckListItemWithProgress } from '@/types/flashcard';
 import {
   Layers,
   BookOpen,
@@ -23,29 +22,13 @@ export default function FlashcardsPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
 
-  const [decks, setDecks] = useState<DeckListItemWithProgress[]>([]);
-  const [progress, setProgress] = useState<FlashcardProgress | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const [decksData, progressData] = await Promise.all([
-          flashcardApi.getAvailableDecks(),
-          flashcardApi.getProgress(),
-        ]);
-        setDecks(decksData.decks);
-        setProgress(progressData);
-      } catch (err) {
-        console.error('Failed to fetch flashcards:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchData();
-  }, []);
+  const decksQuery = useAvailableDecks();
+  const progressQuery = useFlashcardProgress();
+  const generateDeck = useGenerateDeck();
+  const decks = decksQuery.data ?? [];
+  const progress = progressQuery.data ?? null;
+  const loading = decksQuery.isPending || progressQuery.isPending;
+  const isGenerating = generateDeck.isPending;
 
   const getMasteryPercent = (p: DeckListItemWithProgress['progress']) => {
     if (p.totalCards === 0) return 0;
@@ -53,25 +36,19 @@ export default function FlashcardsPage() {
   };
 
   const handleGenerateDeck = async () => {
-    setIsGenerating(true);
     try {
-      // Generate a flashcard deck based on trainee's level
-      const newDeck = await flashcardApi.generateDeck({
+      // Generate a flashcard deck based on trainee's level.
+      // The deck list is invalidated by the mutation.
+      const newDeck = await generateDeck.mutateAsync({
         topic: isRTL ? 'العقارات السعودية' : 'Saudi Real Estate',
         numberOfCards: 10,
       });
 
-      // Refresh the deck list
-      const decksData = await flashcardApi.getAvailableDecks();
-      setDecks(decksData.decks);
-
       // Navigate to study the new deck
       router.push(`/flashcards/${newDeck.id}/study`);
     } catch (err) {
       console.error('Failed to generate deck:', err);
       alert(isRTL ? 'فشل إنشاء البطاقات. حاول مرة أخرى.' : 'Failed to generate deck. Please try again.');
-    } finally {
-      setIsGenerating(false);
     }
   };
 
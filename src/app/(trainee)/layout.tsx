@@ -36,10 +36,12 @@ import {
   Sparkles,
   ClipboardCheck,
   Layers,
+  Award,
 } from 'lucide-react';
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { FloatingAdminReturn } from '@/components/admin/ViewModeSwitcher';
 import { GlobalAIBot } from '@/components/ai-teacher/GlobalAIBot';
+import { useUnreadFeedback } from '@/hooks/useAnnotationQueries';
 
 export default function TraineeLayout({
   children,
@@ -55,6 +57,8 @@ export default function TraineeLayout({
   const [isHydrated, setIsHydrated] = useState(false);
   const [activeNav, setActiveNav] = useState(pathname);
   const [isNavigating, setIsNavigating] = useState(false);
+  // Polls for trainer notes on the trainee's transcripts; shown as a badge on Reports
+  const { data: unreadFeedback = [] } = useUnreadFeedback(isAuthenticated);
 
   // Localized nav items - Clean navigation with only working routes
   // Memoized to prevent unnecessary re-renders
@@ -66,9 +70,10 @@ export default function TraineeLayout({
     { href: '/voice-training', label: t.nav.voicePractice, icon: Phone, description: t.nav.voicePracticeDesc },
     { href: '/quizzes', label: t.quiz.quizzes, icon: ClipboardCheck, description: t.quiz.quizzesDesc },
     { href: '/flashcards', label: t.flashcard.flashcards, icon: Layers, description: t.flashcard.description },
+    { href: '/certificates', label: t.certificate.certificates, icon: Award, description: t.certificate.certificatesDesc },
     { href: '/ai-teacher', label: t.nav.aiTeacher, icon: GraduationCap, description: t.nav.aiTeacherDesc },
-    { href: '/reports', label: t.nav.reports, icon: BarChart, description: t.nav.reportsDesc },
-  ], [t.nav, t.quiz, t.flashcard]);
+    { href: '/reports', label: t.nav.reports, icon: BarChart, description: t.nav.reportsDesc, badge: unreadFeedback.length },
+  ], [t.nav, t.quiz, t.flashcard, t.certificate, unreadFeedback.length]);
 
   // Optimized navigation handler - instant UI update
   const handleNavClick = useCallback((href: string) => (e: React.MouseEvent) => {
@@ -282,6 +287,11 @@ export default function TraineeLayout({
                     )}
                   </div>
 
+                  {!!item.badge && (
+                    <span className="min-w-5 h-5 px-1.5 rounded-full bg-amber-500 text-white text-xs font-semibold flex items-center justify-center">
+                      {item.badge}
+                    </span>
+                  )}
                   {isActive && (
                     <ChevronIcon className="h-4 w-4 text-primary/50" />
                   )}
@@ -446,6 +456,11 @@ export default function TraineeLayout({
                       {item.label}
                     </p>
                   </div>
+                  {!!item.badge && (
+                    <span className="min-w-5 h-5 px-1.5 rounded-full bg-amber-500 text-white text-xs font-semibold flex items-center justify-center">
+                      {item.badge}
+                    </span>
+                  )}
                 </div>
               </Link>
             );
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { useRouter, useParams } from 'next/navigation';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,14 +9,24 @@ import { Progress } from '@/components/ui/progress';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { quizApi } from '@/lib/api/quiz.api';
-import type { QuizDetail, SubmitResponseInput } from '@/types/quiz';
+import { ApiError, NetworkError, TimeoutError } from '@/lib/api/client';
+import {
+  answersFromResponses,
+  isAnswered,
+  questionTypeLabel,
+  secondsUntil,
+  serverClockOffset,
+  toSubmitResponse,
+  type QuizAnswer,
+} from '@/lib/quiz/questions';
+import { useAttemptAutosave } from '@/hooks/useAttemptAutosave';
+import { QuestionResponseInput } from '@/components/quiz/QuestionResponseInput';
+import type { QuizDetail, QuizQuestion, SubmitResponseInput } from '@/types/quiz';
 import {
   Clock,
   ChevronRight,
   ChevronLeft,
   AlertTriangle,
-  CheckCircle2,
-  Circle,
   Send,
   ArrowLeft,
   ArrowRight,
@@ -24,6 +34,9 @@ import {
   HelpCircle,
   Target,
   Loader2,
+  Cloud,
+  CloudOff,
+  History,
 } from 'lucide-react';
 
 export default function TakeQuizPage() {
@@ -31,64 +44,92 @@ export default function TakeQuizPage() {
   const router = useRouter();
   const params = useParams();
   const quizId = params.quizId as string;
+  const searchParams = useSearchParams();
+  const resumeAttemptId = searchParams.get('attempt');
 
   const [quiz, setQuiz] = useState<QuizDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [attemptId, setAttemptId] = useState<string | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
   const [submitting, setSubmitting] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [resumed, setResumed] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const clockOffsetRef = useRef(0);
+  const submitRef = useRef<() => void>(() => {});
+  const autosave = useAttemptAutosave(attemptId);
 
-  // Fetch quiz and start attempt
+  // Fetch quiz and start (or resume) the attempt
   useEffect(() => {
     const initQuiz = async () => {
       try {
         setLoading(true);
         const quizData = await quizApi.getQuizForTaking(quizId);
-        setQuiz(quizData);
 
-        // Start attempt
-        const { attemptId: newAttemptId } = await quizApi.startAttempt(quizId);
-        setAttemptId(newAttemptId);
+        // Resuming from history reloads that attempt; otherwise the server starts one or hands back the open one
+        const session = resumeAttemptId
+          ? await quizApi.getAttempt(resumeAttemptId)
+          : await quizApi.startAttempt(quizId);
+
+        if (session.status !== 'in_progress') {
+          // Time ran out while the trainee was away and the server already submitted it
+          router.replace(`/quizzes/results/${session.attemptId}`);
+          return;
+        }
+
+        clockOffsetRef.current = serverClockOffset(session.serverTime);
+        // Bank quizzes come back with this attempt's drawn questions
+        const questions: QuizQuestion[] = session.questions ?? quizData.questions;
+        const restored = answersFromResponses(session.responses);
+        setQuiz({ ...quizData, questions });
+        setAttemptId(session.attemptId);
+        setAnswers(restored);
+
+        if (session.responses.length > 0) {
+          setResumed(true);
+          // Pick up at the first question that still needs an answer
+          const nextIdx = questions.findIndex((q) => !isAnswered(q.questionType, restored[q.id]));
+          setCurrentQuestionIndex(nextIdx === -1 ? questions.length - 1 : nextIdx);
+        }
 
-        // Set timer if time limit exists
-        if (quizData.timeLimit) {
-          setTimeRemaining(quizData.timeLimit * 60); // Convert minutes to seconds
+        if (session.expiresAt) {
+          setExpiresAt(session.expiresAt);
+          setTimeRemaining(secondsUntil(session.expiresAt, clockOffsetRef.current));
         }
+        setLoading(false);
       } catch (err: any) {
         console.error('Failed to start quiz:', err);
         setError(err.message || 'Failed to load quiz');
-      } finally {
         setLoading(false);
       }
     };
     initQuiz();
-  }, [quizId]);
+  }, [quizId, resumeAttemptId, router]);
 
-  // Timer countdown
+  // Timer countdown - recomputed from the attempt's expiry each tick so reloads
+  // and throttled background tabs don't drift
   useEffect(() => {
-    if (timeRemaining === null || timeRemaining <= 0) return;
+    if (!expiresAt) return;
 
     timerRef.current = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev === null || prev <= 1) {
-          // Time's up - auto submit
-          if (timerRef.current) clearInterval(timerRef.current);
-          handleSubmit();
-          return 0;
-        }
-        return prev - 1;
-      });
+      const remaining = secondsUntil(expiresAt, clockOffsetRef.current);
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        // Time's up - auto submit
+        if (timerRef.current) clearInterval(timerRef.current);
+        submitRef.current();
+      }
     }, 1000);
 
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [timeRemaining !== null]);
+  }, [expiresAt]);
 
   const formatTimer = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -96,30 +137,49 @@ export default function TakeQuizPage() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleSelectOption = useCallback((questionId: string, optionId: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: optionId }));
-  }, []);
+  const { queue: queueAutosave, pause: pauseAutosave, resume: resumeAutosave, cancel: cancelAutosave } = autosave;
+  const handleAnswer = useCallback((question: QuizQuestion, answer: QuizAnswer) => {
+    setAnswers((prev) => ({ ...prev, [question.id]: answer }));
+    queueAutosave(toSubmitResponse(question, answer));
+  }, [queueAutosave]);
 
   const handleSubmit = useCallback(async () => {
     if (!attemptId || !quiz) return;
     setSubmitting(true);
     setShowConfirm(false);
+    setSubmitError(null);
+    pauseAutosave();
 
     try {
-      const responses: SubmitResponseInput[] = quiz.questions.map((q) => ({
-        questionId: q.id,
-        selectedOptionId: answers[q.id] || null,
-      }));
+      const responses: SubmitResponseInput[] = quiz.questions.map((q) => toSubmitResponse(q, answers[q.id]));
 
       const result = await quizApi.submitAttempt(attemptId, responses);
+      cancelAutosave();
       if (timerRef.current) clearInterval(timerRef.current);
       router.push(`/quizzes/results/${result.attemptId}`);
     } catch (err: any) {
+      // The server already submitted the attempt when its time ran out
+      if (err instanceof ApiError && err.status === 409) {
+        cancelAutosave();
+        router.push(`/quizzes/results/${attemptId}`);
+        return;
+      }
       console.error('Failed to submit quiz:', err);
-      setError(err.message || 'Failed to submit quiz');
+      // Connection problems are recoverable - keep the answers on screen so the trainee can resubmit
+      if (err instanceof TimeoutError || err instanceof NetworkError) {
+        setSubmitError(
+          isRTL
+            ? 'تعذر إرسال الاختبار بسبب مشكلة في الاتصال. إجاباتك محفوظة، حاول الإرسال مرة أخرى.'
+            : 'Could not submit the quiz due to a connection problem. Your answers are kept - please try again.'
+        );
+      } else {
+        setError(err.message || 'Failed to submit quiz');
+      }
+      resumeAutosave();
       setSubmitting(false);
     }
-  }, [attemptId, quiz, answers, router]);
+  }, [attemptId, quiz, answers, router, isRTL, pauseAutosave, resumeAutosave, cancelAutosave]);
+  submitRef.current = handleSubmit;
 
   if (loading) {
     return (
@@ -151,7 +211,7 @@ export default function TakeQuizPage() {
   }
 
   const currentQuestion = quiz.questions[currentQuestionIndex];
-  const answeredCount = Object.keys(answers).length;
+  const answeredCount = quiz.questions.filter((q) => isAnswered(q.questionType, answers[q.id])).length;
   const progress = (answeredCount / quiz.questions.length) * 100;
 
   return (
@@ -186,11 +246,35 @@ export default function TakeQuizPage() {
         )}
       </div>
 
+      {resumed && (
+        <div className="flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-700 dark:border-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400">
+          <History className="w-4 h-4 shrink-0" />
+          <span>
+            {isRTL
+              ? 'تمت استعادة محاولتك السابقة مع إجاباتك المحفوظة'
+              : 'Resumed your attempt with the answers you had saved'}
+          </span>
+        </div>
+      )}
+
       {/* Progress */}
       <div className="space-y-2">
         <div className="flex justify-between text-sm text-gray-500">
           <span>{t.quiz.question} {currentQuestionIndex + 1} {t.quiz.of} {quiz.questions.length}</span>
-          <span>{answeredCount}/{quiz.questions.length} {isRTL ? 'تم الإجابة' : 'answered'}</span>
+          <span className="flex items-center gap-3">
+            {autosave.status === 'error' ? (
+              <span className="flex items-center gap-1 text-amber-600">
+                <CloudOff className="w-3.5 h-3.5" />
+                {isRTL ? 'لم يتم الحفظ' : 'Not saved'}
+              </span>
+            ) : autosave.status !== 'idle' && (
+              <span className="flex items-center gap-1 text-gray-400">
+                <Cloud className="w-3.5 h-3.5" />
+                {autosave.status === 'saving' ? (isRTL ? 'جارٍ الحفظ...' : 'Saving...') : (isRTL ? 'تم الحفظ' : 'Saved')}
+              </span>
+            )}
+            <span>{answeredCount}/{quiz.questions.length} {isRTL ? 'تم الإجابة' : 'answered'}</span>
+          </span>
         </div>
         <Progress value={progress} className="h-2" />
       </div>
@@ -205,7 +289,7 @@ export default function TakeQuizPage() {
               'w-8 h-8 rounded-full text-xs font-medium flex items-center justify-center transition-all',
               idx === currentQuestionIndex
                 ? 'bg-emerald-500 text-white scale-110 shadow-lg'
-                : answers[q.id]
+                : isAnswered(q.questionType, answers[q.id])
                   ? 'bg-emerald-100 text-emerald-700 border-2 border-emerald-300'
                   : 'bg-gray-100 text-gray-500 border border-gray-200 hover:bg-gray-200'
             )}
@@ -227,51 +311,28 @@ export default function TakeQuizPage() {
                 {isRTL && currentQuestion.questionTextAr ? currentQuestion.questionTextAr : currentQuestion.questionText}
               </h2>
               <Badge variant="outline" className="mt-2 text-xs">
-                {currentQuestion.questionType === 'true_false'
-                  ? (isRTL ? 'صح أو خطأ' : 'True / False')
-                  : (isRTL ? 'اختيار متعدد' : 'Multiple Choice')
-                }
+                {questionTypeLabel(currentQuestion.questionType, isRTL)}
               </Badge>
             </div>
           </div>
 
-          {/* Options */}
-          <div className="space-y-3">
-            {currentQuestion.options.map((option, idx) => {
-              const isSelected = answers[currentQuestion.id] === option.id;
-              const letters = ['A', 'B', 'C', 'D', 'E', 'F'];
-              return (
-                <button
-                  key={option.id}
-                  onClick={() => handleSelectOption(currentQuestion.id, option.id)}
-                  className={cn(
-                    'w-full flex items-center gap-3 p-4 rounded-xl border-2 transition-all text-start',
-                    isSelected
-                      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-950 shadow-md'
-                      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
-                  )}
-                >
-                  <div className={cn(
-                    'shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold border-2 transition-all',
-                    isSelected
-                      ? 'bg-emerald-500 text-white border-emerald-500'
-                      : 'border-gray-300 text-gray-500'
-                  )}>
-                    {isSelected ? <CheckCircle2 className="w-5 h-5" /> : letters[idx]}
-                  </div>
-                  <span className={cn(
-                    'text-sm font-medium',
-                    isSelected ? 'text-emerald-700 dark:text-emerald-300' : 'text-gray-700 dark:text-gray-300'
-                  )}>
-                    {isRTL && option.optionTextAr ? option.optionTextAr : option.optionText}
-                  </span>
-                </button>
-              );
-            })}
-          </div>
+          {/* Answer */}
+          <QuestionResponseInput
+            key={currentQuestion.id}
+            question={currentQuestion}
+            answer={answers[currentQuestion.id]}
+            onChange={(answer) => handleAnswer(currentQuestion, answer)}
+          />
         </CardContent>
       </Card>
 
+      {submitError && (
+        <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>{submitError}</span>
+        </div>
+      )}
+
       {/* Navigation */}
       <div className="flex items-center justify-between">
         <Button
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,8 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
-import { quizApi } from '@/lib/api/quiz.api';
-import type { QuizListItem, TraineeAttemptHistoryItem } from '@/types/quiz';
+import { useQuizzes, useQuizHistory, useGenerateQuiz } from '@/hooks/useQuizQueries';
 import {
   ClipboardCheck,
   Search,
@@ -25,6 +24,7 @@ import {
   History,
   Loader2,
   Wand2,
+  PlayCircle,
 } from 'lucide-react';
 
 export default function QuizzesPage() {
@@ -32,30 +32,14 @@ export default function QuizzesPage() {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState('all');
-  const [quizzes, setQuizzes] = useState<QuizListItem[]>([]);
-  const [history, setHistory] = useState<TraineeAttemptHistoryItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'available' | 'history'>('available');
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const [quizzesRes, historyRes] = await Promise.all([
-          quizApi.getAvailableQuizzes(),
-          quizApi.getTraineeHistory(),
-        ]);
-        setQuizzes(quizzesRes.quizzes);
-        setHistory(historyRes.history);
-      } catch (err) {
-        console.error('Failed to fetch quiz data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchData();
-  }, []);
+  const quizzesQuery = useQuizzes();
+  const historyQuery = useQuizHistory();
+  const generateQuiz = useGenerateQuiz();
+  const quizzes = useMemo(() => quizzesQuery.data ?? [], [quizzesQuery.data]);
+  const history = historyQuery.data ?? [];
+  const loading = quizzesQuery.isPending || historyQuery.isPending;
+  const isGenerating = generateQuiz.isPending;
 
   const difficulties = useMemo(() => [
     { id: 'all', label: isRTL ? 'جميع المستويات' : 'All Levels' },
@@ -103,26 +87,20 @@ export default function QuizzesPage() {
   const ChevronIcon = isRTL ? ChevronLeft : ChevronRight;
 
   const handleGenerateQuiz = async () => {
-    setIsGenerating(true);
     try {
-      // Generate a quiz based on trainee's level (AI will determine difficulty)
-      const newQuiz = await quizApi.generateQuiz({
+      // Generate a quiz based on trainee's level (AI will determine difficulty).
+      // The quiz list is invalidated by the mutation.
+      const newQuiz = await generateQuiz.mutateAsync({
         topic: isRTL ? 'العقارات السعودية' : 'Saudi Real Estate',
         numberOfQuestions: 5,
         questionTypes: ['multiple_choice', 'true_false'],
       });
 
-      // Refresh the quiz list
-      const quizzesRes = await quizApi.getAvailableQuizzes();
-      setQuizzes(quizzesRes.quizzes);
-
       // Navigate to the new quiz
       router.push(`/quizzes/${newQuiz.id}`);
     } catch (err) {
       console.error('Failed to generate quiz:', err);
       alert(isRTL ? 'فشل إنشاء الاختبار. حاول مرة أخرى.' : 'Failed to generate quiz. Please try again.');
-    } finally {
-      setIsGenerating(false);
     }
   };
 
@@ -312,6 +290,8 @@ export default function QuizzesPage() {
                   onClick={() => {
                     if (attempt.status === 'completed') {
                       router.push(`/quizzes/results/${attempt.attemptId}`);
+                    } else if (attempt.status === 'in_progress') {
+                      router.push(`/quizzes/${attempt.quizId}?attempt=${attempt.attemptId}`);
                     }
                   }}
                 >
@@ -334,6 +314,11 @@ export default function QuizzesPage() {
                             year: 'numeric', month: 'short', day: 'numeric',
                           })}
                           {attempt.timeSpentSeconds && ` • ${formatTime(attempt.timeSpentSeconds)}`}
+                          {attempt.autoSubmitted && (
+                            <span className="text-amber-600">
+                              {isRTL ? ' • أُرسل تلقائياً عند انتهاء الوقت' : ' • Submitted automatically when time ran out'}
+                            </span>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -358,6 +343,12 @@ export default function QuizzesPage() {
                             : (isRTL ? 'متروك' : 'Abandoned')
                         }
                       </Badge>
+                      {attempt.status === 'in_progress' && (
+                        <Button size="sm" variant="outline" className="text-emerald-600 border-emerald-200">
+                          <PlayCircle className="w-4 h-4 mr-1" />
+                          {isRTL ? 'استئناف' : 'Resume'}
+                        </Button>
+                      )}
                       {attempt.status === 'completed' && (
                         <ChevronIcon className="w-5 h-5 text-gray-400" />
                       )}
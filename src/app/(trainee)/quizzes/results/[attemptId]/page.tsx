@@ -9,6 +9,8 @@ import { Progress } from '@/components/ui/progress';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 import { quizApi } from '@/lib/api/quiz.api';
+import { responseOutcome, type ResponseOutcome } from '@/lib/quiz/questions';
+import { ResponseResultDetail } from '@/components/quiz/ResponseResultDetail';
 import type { QuizAttemptResult } from '@/types/quiz';
 import {
   Trophy,
@@ -25,8 +27,18 @@ import {
   Lightbulb,
   ChevronDown,
   ChevronUp,
+  MinusCircle,
+  Award,
 } from 'lucide-react';
 
+const outcomeStyles: Record<ResponseOutcome, { border: string; badge: string; icon: React.ElementType }> = {
+  correct: { border: 'border-l-green-500', badge: 'bg-green-100 text-green-600', icon: CheckCircle2 },
+  partial: { border: 'border-l-amber-500', badge: 'bg-amber-100 text-amber-600', icon: MinusCircle },
+  incorrect: { border: 'border-l-red-500', badge: 'bg-red-100 text-red-600', icon: XCircle },
+  unanswered: { border: 'border-l-red-500', badge: 'bg-red-100 text-red-600', icon: XCircle },
+  pending: { border: 'border-l-gray-400', badge: 'bg-gray-100 text-gray-500', icon: Clock },
+};
+
 export default function QuizResultsPage() {
   const { t, isRTL } = useLanguage();
   const router = useRouter();
@@ -98,9 +110,12 @@ export default function QuizResultsPage() {
     );
   }
 
-  const correctCount = result.responses.filter((r) => r.isCorrect).length;
-  const incorrectCount = result.responses.filter((r) => !r.isCorrect && r.selectedOptionId).length;
-  const unansweredCount = result.responses.filter((r) => !r.selectedOptionId).length;
+  const outcomes = result.responses.map(responseOutcome);
+  const correctCount = outcomes.filter((o) => o === 'correct').length;
+  // Partially correct answers count as incorrect here; their points still show per question
+  const incorrectCount = outcomes.filter((o) => o === 'incorrect' || o === 'partial').length;
+  const unansweredCount = outcomes.filter((o) => o === 'unanswered').length;
+  const pendingCount = outcomes.filter((o) => o === 'pending').length;
 
   return (
     <div className="max-w-3xl mx-auto p-6 space-y-6">
@@ -168,6 +183,14 @@ export default function QuizResultsPage() {
             </div>
           </div>
 
+          {pendingCount > 0 && (
+            <p className="text-sm text-gray-500">
+              {isRTL
+                ? `${pendingCount} إجابة قصيرة ما زالت قيد التقييم وقد تتغير النتيجة`
+                : `${pendingCount} short answer(s) are still being graded - your score may change`}
+            </p>
+          )}
+
           <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
             <Clock className="w-4 h-4" />
             {t.quiz.timeSpent}: {formatTime(result.timeSpentSeconds)}
@@ -183,6 +206,18 @@ export default function QuizResultsPage() {
         </CardContent>
       </Card>
 
+      {result.certificate && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-violet-200 bg-violet-50 dark:bg-violet-900/20 px-4 py-3">
+          <span className="flex items-center gap-2 text-sm font-medium text-violet-700 dark:text-violet-300">
+            <Award className="w-5 h-5" />
+            {t.certificate.certificateEarned}
+          </span>
+          <Button size="sm" onClick={() => router.push('/certificates')} className="bg-violet-500 hover:bg-violet-600">
+            {t.certificate.myCertificates}
+          </Button>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-3 justify-center">
         <Button
@@ -213,13 +248,12 @@ export default function QuizResultsPage() {
 
           {result.responses.map((response, idx) => {
             const isExpanded = expandedQuestions.has(response.questionId);
+            const outcome = outcomes[idx];
+            const { border, badge, icon: OutcomeIcon } = outcomeStyles[outcome];
             return (
               <Card
                 key={response.questionId}
-                className={cn(
-                  'border-l-4',
-                  response.isCorrect ? 'border-l-green-500' : 'border-l-red-500'
-                )}
+                className={cn('border-l-4', border)}
               >
                 <CardContent className="p-4">
                   <button
@@ -229,9 +263,9 @@ export default function QuizResultsPage() {
                     <div className="flex items-center gap-3">
                       <div className={cn(
                         'w-7 h-7 rounded-full flex items-center justify-center text-xs shrink-0',
-                        response.isCorrect ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
+                        badge
                       )}>
-                        {response.isCorrect ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                        <OutcomeIcon className="w-4 h-4" />
                       </div>
                       <span className="text-sm font-medium text-gray-900 dark:text-white">
                         {idx + 1}. {isRTL && response.questionTextAr ? response.questionTextAr : response.questionText}
@@ -247,13 +281,8 @@ export default function QuizResultsPage() {
 
                   {isExpanded && (
                     <div className="mt-4 space-y-3 pl-10">
-                      {response.selectedOptionId && response.selectedOptionId !== response.correctOptionId && (
-                        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 dark:bg-red-950 p-2 rounded">
-                          <XCircle className="w-4 h-4 shrink-0" />
-                          <span>{isRTL ? 'إجابتك' : 'Your answer'}: {isRTL ? 'خطأ' : 'Incorrect'}</span>
-                        </div>
-                      )}
-                      {!response.selectedOptionId && (
+                      <ResponseResultDetail response={response} />
+                      {outcome === 'unanswered' && (
                         <div className="flex items-center gap-2 text-sm text-gray-500 bg-gray-50 dark:bg-gray-800 p-2 rounded">
                           <CircleDot className="w-4 h-4 shrink-0" />
                           <span>{t.quiz.unanswered}</span>
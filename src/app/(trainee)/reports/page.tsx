@@ -5,7 +5,6 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useAuth } from '@/lib/context/auth.context';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils/cn';
 import { ScoreChart } from '@/components/charts/ScoreChart';
@@ -13,6 +12,14 @@ import { SkillRadarChart } from '@/components/charts/SkillRadarChart';
 import { exportToPDF, downloadCSV } from '@/lib/utils/pdf-export';
 import { VoiceReportsSection } from '@/components/reports/VoiceReportsSection';
 import { TextReportsSection } from '@/components/reports/TextReportsSection';
+import {
+  reportsApi,
+  type ReportsDashboard,
+  type SkillReport,
+  type SessionHistoryPage,
+  type ScoreTrendPoint,
+  type RecommendationReport,
+} from '@/lib/api/reports.api';
 import {
   TrendingUp,
   TrendingDown,
@@ -34,73 +41,7 @@ import {
   Loader2,
 } from 'lucide-react';
 
-interface DashboardData {
-  totalSessions: number;
-  completedSessions: number;
-  averageScore: number | null;
-  improvement: number;
-  scoreHistory: { date: string; score: number; sessionId: string }[];
-  recentSessions: {
-    id: string;
-    scenarioType: string;
-    difficultyLevel: string;
-    completedAt: string;
-    score: number | null;
-    grade: string | null;
-  }[];
-}
-
-interface SkillData {
-  skills: {
-    skill: string;
-    skillKey: string;
-    averageScore: number | null;
-    sessionCount: number;
-    benchmark: number;
-    tips: string[];
-    isStrength: boolean;
-    isWeakness: boolean;
-  }[];
-  strengths: string[];
-  weaknesses: string[];
-}
-
-interface SessionData {
-  sessions: {
-    id: string;
-    scenarioType: string;
-    difficultyLevel: string;
-    status: string;
-    completedAt: string;
-    durationSeconds: number | null;
-    score: number | null;
-    grade: string | null;
-  }[];
-  total: number;
-  page: number;
-  totalPages: number;
-}
-
-interface TrendData {
-  month: string;
-  year: number;
-  averageScore: number | null;
-  sessionCount: number;
-}
-
-interface RecommendationData {
-  recommendations: {
-    priority: string;
-    title: string;
-    description: string;
-    category: string;
-  }[];
-  weakSkills: string[];
-  suggestedCourses: { title: string; reason: string }[];
-}
-
 export default function ReportsPage() {
-  const { token } = useAuth();
   const { t, isRTL, language } = useLanguage();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -108,11 +49,11 @@ export default function ReportsPage() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  const [dashboard, setDashboard] = useState<DashboardData | null>(null);
-  const [skills, setSkills] = useState<SkillData | null>(null);
-  const [sessions, setSessions] = useState<SessionData | null>(null);
-  const [trends, setTrends] = useState<TrendData[]>([]);
-  const [recommendations, setRecommendations] = useState<RecommendationData | null>(null);
+  const [dashboard, setDashboard] = useState<ReportsDashboard | null>(null);
+  const [skills, setSkills] = useState<SkillReport | null>(null);
+  const [sessions, setSessions] = useState<SessionHistoryPage | null>(null);
+  const [trends, setTrends] = useState<ScoreTrendPoint[]>([]);
+  const [recommendations, setRecommendations] = useState<RecommendationReport | null>(null);
 
   const [scenarioFilter, setScenarioFilter] = useState('all');
   const [currentPage, setCurrentPage] = useState(1);
@@ -121,122 +62,63 @@ export default function ReportsPage() {
   const ChevronIcon = isRTL ? ChevronLeft : ChevronRight;
 
   const fetchData = useCallback(async () => {
-    // Get token from localStorage if not available in state yet
-    let authToken = token;
-    if (!authToken) {
-      try {
-        const authStorage = localStorage.getItem('auth-storage');
-        if (authStorage) {
-          const parsed = JSON.parse(authStorage);
-          authToken = parsed?.state?.token;
-        }
-      } catch (e) {
-        console.error('[ReportsPage] Failed to parse auth-storage:', e);
-      }
-    }
-
-    if (!authToken) {
-      console.log('[ReportsPage] No token available, skipping fetch');
-      setIsLoading(false);
-      setIsInitialized(true);
-      return;
-    }
-
     setIsLoading(true);
     setError(null);
 
-    const headers = {
-      'Authorization': `Bearer ${authToken}`,
-      'Content-Type': 'application/json',
-      'Accept-Language': language === 'ar' ? 'ar' : 'en',
-    };
+    const lang = language === 'ar' ? 'ar' : 'en';
 
     try {
-      // FIXED: Use NEXT_PUBLIC_API_URL directly - it already includes /api
-      // Example: https://estateiq-backend-xxx.run.app/api
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-      console.log('[ReportsPage] API URL:', apiUrl);
-
-      const [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes] = await Promise.all([
-        fetch(`${apiUrl}/reports/me/dashboard`, { headers }),
-        fetch(`${apiUrl}/reports/me/skills`, { headers }),
-        fetch(`${apiUrl}/reports/me/sessions?page=${currentPage}&limit=10&scenarioType=${scenarioFilter}`, { headers }),
-        fetch(`${apiUrl}/reports/me/trends?months=6`, { headers }),
-        fetch(`${apiUrl}/reports/me/recommendations`, { headers }),
+      const [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes] = await Promise.allSettled([
+        reportsApi.getDashboard('me', lang),
+        reportsApi.getSkills('me', lang),
+        reportsApi.getSessions('me', { page: currentPage, scenarioType: scenarioFilter }, lang),
+        reportsApi.getTrends('me', 6, lang),
+        reportsApi.getRecommendations('me', lang),
       ]);
 
-      // Log all response statuses for debugging
-      console.log('[ReportsPage] Response statuses:', {
-        dashboard: dashboardRes.status,
-        skills: skillsRes.status,
-        sessions: sessionsRes.status,
-        trends: trendsRes.status,
-        recommendations: recsRes.status,
-      });
-
-      // Check if any response is 401 (unauthorized) - token might be expired
-      const allResponses = [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes];
-      const unauthorized = allResponses.some(r => r.status === 401);
-      if (unauthorized) {
-        console.log('[ReportsPage] Unauthorized - redirecting');
-        setIsLoading(false);
-        setIsInitialized(true);
-        return;
-      }
-
-      // Parse successful responses silently (no error shown for individual failures)
-      if (dashboardRes.ok) {
-        const data = await dashboardRes.json();
-        console.log('[ReportsPage] Dashboard data:', data);
-        setDashboard(data);
+      // Apply successful responses silently (no error shown for individual failures)
+      if (dashboardRes.status === 'fulfilled') {
+        setDashboard(dashboardRes.value);
       } else {
-        console.log('[ReportsPage] Dashboard failed:', dashboardRes.status, await dashboardRes.text().catch(() => ''));
+        console.error('Failed to load dashboard:', dashboardRes.reason);
       }
 
-      if (skillsRes.ok) {
-        const data = await skillsRes.json();
-        console.log('[ReportsPage] Skills data:', data);
-        setSkills(data);
+      if (skillsRes.status === 'fulfilled') {
+        setSkills(skillsRes.value);
       } else {
-        console.log('[ReportsPage] Skills failed:', skillsRes.status);
+        console.error('Failed to load skills:', skillsRes.reason);
       }
 
-      if (sessionsRes.ok) {
-        const data = await sessionsRes.json();
-        console.log('[ReportsPage] Sessions data:', data);
-        setSessions(data);
+      if (sessionsRes.status === 'fulfilled') {
+        setSessions(sessionsRes.value);
       } else {
-        console.log('[ReportsPage] Sessions failed:', sessionsRes.status);
+        console.error('Failed to load sessions:', sessionsRes.reason);
       }
 
-      if (trendsRes.ok) {
-        const data = await trendsRes.json();
-        console.log('[ReportsPage] Trends data:', data);
-        setTrends(data);
+      if (trendsRes.status === 'fulfilled') {
+        setTrends(trendsRes.value);
       } else {
-        console.log('[ReportsPage] Trends failed:', trendsRes.status);
+        console.error('Failed to load trends:', trendsRes.reason);
       }
 
-      if (recsRes.ok) {
-        const data = await recsRes.json();
-        console.log('[ReportsPage] Recommendations data:', data);
-        setRecommendations(data);
+      if (recsRes.status === 'fulfilled') {
+        setRecommendations(recsRes.value);
       } else {
-        console.log('[ReportsPage] Recommendations failed:', recsRes.status);
+        console.error('Failed to load recommendations:', recsRes.reason);
       }
-    } catch (err) {
+
       // Only show error for network failures, not API errors
-      if (err instanceof TypeError && err.message.includes('fetch')) {
-        console.error('[ReportsPage] Network error:', err);
+      const networkFailure = [dashboardRes, skillsRes, sessionsRes, trendsRes, recsRes].some(
+        (r) => r.status === 'rejected' && r.reason instanceof TypeError
+      );
+      if (networkFailure) {
         setError(isRTL ? 'فشل الاتصال بالخادم' : 'Failed to connect to server');
       }
-      // Silently ignore other errors - data will just be empty
     } finally {
       setIsLoading(false);
       setIsInitialized(true);
     }
-  }, [token, currentPage, scenarioFilter, isRTL, language]);
+  }, [currentPage, scenarioFilter, isRTL, language]);
 
   useEffect(() => {
     // Fetch immediately - no delay needed
@@ -245,36 +127,11 @@ export default function ReportsPage() {
 
   // Analyze missing sessions to generate skill reports
   const handleAnalyzeMissing = async () => {
-    let authToken = token;
-    if (!authToken) {
-      try {
-        const authStorage = localStorage.getItem('auth-storage');
-        if (authStorage) {
-          const parsed = JSON.parse(authStorage);
-          authToken = parsed?.state?.token;
-        }
-      } catch {
-        return;
-      }
-    }
-    if (!authToken) return;
-
     setIsAnalyzing(true);
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-      const response = await fetch(`${apiUrl}/reports/me/analyze-missing`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        // Refresh data after analysis
-        await fetchData();
-      }
+      await reportsApi.analyzeMissing();
+      // Refresh data after analysis
+      await fetchData();
     } catch (err) {
       console.error('Analysis failed:', err);
     } finally {
@@ -5,18 +5,35 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useSimulation } from '@/hooks/useSimulation';
+import { useSimulation, SIMULATION_IDLE_TIMEOUT_MS } from '@/hooks/useSimulation';
 import { SimulationChat } from '@/components/simulation/SimulationChat';
 import { LiveClientCall } from '@/components/simulation/LiveClientCall';
 import { ResultsSummary } from '@/components/simulation/ResultsSummary';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useDiagnosticStore } from '@/stores/diagnostic.store';
+import { useAvailableScenarios } from '@/hooks/useScenarioQueries';
+import { useAvailableListings } from '@/hooks/useListingQueries';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import type { SimulationScenarioType, DifficultyLevel } from '@/types';
-import { MessageSquare, Play, ArrowLeft, ArrowRight, Phone, X, Loader2, Brain, Sparkles, ClipboardCheck } from 'lucide-react';
+import { personalityLabel, scenarioTypeLabel } from '@/lib/simulation/scenarios';
+import { formatListingPrice, listingTitle } from '@/lib/simulation/listings';
+import type { SimulationScenarioType, DifficultyLevel, AvailableScenario } from '@/types';
+import { MessageSquare, Play, ArrowLeft, ArrowRight, Phone, X, Loader2, Brain, Sparkles, ClipboardCheck, User, Users, Home, Target, History, ListChecks } from 'lucide-react';
 
 type SimulationMode = 'chat' | 'voice' | null;
 
+// Select value for "no listing"; Radix Select items cannot have an empty value
+const NO_LISTING = 'none';
+
+// Time to read the client's last scripted line before the results replace the chat
+const SCRIPT_END_DELAY_MS = 3000;
+
 // Type for session data passed to ResultsSummary
 interface SessionData {
   sessionId: string;
@@ -51,8 +68,15 @@ export default function SimulationPage() {
     isDiagnosticMode ? 'objection_handling' : null
   );
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>('medium');
+  // Admin-authored scenario; it fixes the scenario type and difficulty
+  const [customScenario, setCustomScenario] = useState<AvailableScenario | null>(null);
+  const [listingId, setListingId] = useState<string>(NO_LISTING);
   const [showModeSelector, setShowModeSelector] = useState(false);
   const [simulationMode, setSimulationMode] = useState<SimulationMode>(null);
+  // Offered once per visit when an unfinished chat was saved before a reload
+  const [showResumePrompt, setShowResumePrompt] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+  const resumeChecked = useRef(false);
 
   // Localized scenarios
   const scenarios: { type: SimulationScenarioType; title: string; description: string }[] = [
@@ -64,6 +88,9 @@ export default function SimulationPage() {
     { type: 'difficult_client', title: t.simulations.scenarios.difficultClient, description: t.simulations.scenarioDescriptions.difficultClient },
   ];
 
+  const { data: customScenarios = [] } = useAvailableScenarios();
+  const { data: listings = [] } = useAvailableListings();
+
   // Localized difficulties
   const difficulties: { level: DifficultyLevel; label: string; color: string }[] = [
     { level: 'easy', label: t.simulations.difficulty.easy, color: 'bg-success/10 text-success border-success/20' },
@@ -76,9 +103,15 @@ export default function SimulationPage() {
     sessionId,
     analysis,
     clientPersona,
+    listing,
     messages,
     elapsedTimeSeconds,
+    conversationState,
+    isScripted,
+    resumable,
     startSimulation,
+    resumeSimulation,
+    discardSimulation,
     sendMessage,
     endSimulation,
     reset,
@@ -93,14 +126,89 @@ export default function SimulationPage() {
       diagnosticAutoStarted.current = true;
       setSimulationMode('chat');
       sessionStartTimeRef.current = new Date().toISOString();
-      startSimulation({
-        scenarioType: 'objection_handling',
-        difficultyLevel: 'medium',
-        recordSession: false,
-      });
+      startSimulation(
+        {
+          scenarioType: 'objection_handling',
+          difficultyLevel: 'medium',
+          recordSession: false,
+        },
+        { resumable: false }
+      );
     }
   }, [isDiagnosticMode, status, startSimulation]);
 
+  // On return, offer to resume a saved chat, or close it if it has been idle too long
+  useEffect(() => {
+    if (resumeChecked.current || isDiagnosticMode) return;
+    resumeChecked.current = true;
+    if (!resumable) return;
+
+    if (Date.now() - resumable.lastActivityAt > SIMULATION_IDLE_TIMEOUT_MS) {
+      discardSimulation('timeout');
+    } else {
+      setShowResumePrompt(true);
+    }
+  }, [isDiagnosticMode, resumable, discardSimulation]);
+
+  // End an open chat that has gone quiet for too long
+  const lastActivityAt = resumable?.lastActivityAt ?? null;
+  useEffect(() => {
+    if (simulationMode !== 'chat' || lastActivityAt === null) return;
+    if (status !== 'ready' && status !== 'in_progress') return;
+
+    const remaining = lastActivityAt + SIMULATION_IDLE_TIMEOUT_MS - Date.now();
+    const timer = setTimeout(() => {
+      endSimulation('timeout').catch(() => {
+        // Error state is set by the hook
+      });
+    }, Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [simulationMode, status, lastActivityAt, endSimulation]);
+
+  // A scripted client has nothing more to say once it reaches an ending node
+  useEffect(() => {
+    if (!isScripted || conversationState !== 'ended' || status !== 'in_progress') return;
+    const timer = setTimeout(() => {
+      endSimulation('completed').catch(() => {
+        // Error state is set by the hook
+      });
+    }, SCRIPT_END_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isScripted, conversationState, status, endSimulation]);
+
+  const handleResume = async () => {
+    if (!resumable) return;
+    const { scenarioType, difficultyLevel } = resumable;
+    setIsResuming(true);
+    const resumed = await resumeSimulation();
+    setIsResuming(false);
+    setShowResumePrompt(false);
+
+    if (resumed) {
+      setSelectedScenario(scenarioType);
+      setSelectedDifficulty(difficultyLevel);
+      setSimulationMode('chat');
+    } else {
+      alert(isRTL ? 'انتهت هذه المحادثة بالفعل ولا يمكن استئنافها.' : 'This conversation has already ended and cannot be resumed.');
+    }
+  };
+
+  const handleAbandon = () => {
+    setShowResumePrompt(false);
+    discardSimulation('abandoned');
+  };
+
+  const handleSelectBuiltIn = (type: SimulationScenarioType) => {
+    setCustomScenario(null);
+    setSelectedScenario(type);
+  };
+
+  const handleSelectCustom = (scenario: AvailableScenario) => {
+    setCustomScenario(scenario);
+    setSelectedScenario(scenario.scenarioType);
+    setSelectedDifficulty(scenario.difficultyLevel);
+  };
+
   const handleStartClick = () => {
     if (!selectedScenario) return;
     setShowModeSelector(true);
@@ -115,6 +223,8 @@ export default function SimulationPage() {
       await startSimulation({
         scenarioType: selectedScenario!,
         difficultyLevel: selectedDifficulty,
+        scenarioId: customScenario?.id,
+        listingId: listingId === NO_LISTING ? undefined : listingId,
         recordSession: false,
       });
     }
@@ -154,6 +264,8 @@ export default function SimulationPage() {
   const handlePracticeAgain = () => {
     reset();
     setSelectedScenario(null);
+    setCustomScenario(null);
+    setListingId(NO_LISTING);
     setSimulationMode(null);
   };
 
@@ -309,7 +421,7 @@ export default function SimulationPage() {
   // Chat Simulation Mode - also show on 'error' status to allow retry
   if ((status === 'ready' || status === 'in_progress' || status === 'error') && simulationMode === 'chat') {
     return (
-      <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className={cn("container mx-auto py-8 px-4", listing ? "max-w-7xl" : "max-w-4xl")}>
         {isDiagnosticMode && (
           <div className="mb-4 p-3 rounded-xl bg-primary/5 border border-primary/20 flex items-center gap-3">
             <ClipboardCheck className="h-5 w-5 text-primary shrink-0" />
@@ -362,10 +474,11 @@ export default function SimulationPage() {
             </div>
           </button>
 
-          {/* Voice Mode */}
+          {/* Voice Mode - the voice agent does not load custom personas or listings, so those are chat only */}
           <button
             onClick={() => handleModeSelect('voice')}
-            className="w-full p-6 rounded-xl border-2 border-border hover:border-success hover:bg-success/5 transition-all group"
+            disabled={!!customScenario || listingId !== NO_LISTING}
+            className="w-full p-6 rounded-xl border-2 border-border hover:border-success hover:bg-success/5 transition-all group disabled:opacity-50 disabled:pointer-events-none"
           >
             <div className="flex items-center gap-4">
               <div className="w-14 h-14 rounded-full bg-success/10 flex items-center justify-center group-hover:bg-success/20 transition-colors">
@@ -375,7 +488,9 @@ export default function SimulationPage() {
                 <h3 className="font-semibold text-lg text-foreground">{t.simulations.voiceMode}</h3>
                 <p className="text-sm text-muted-foreground">{t.simulations.voiceModeDescription}</p>
                 <Badge variant="secondary" className="mt-1 bg-warning/10 text-warning border-warning/20">
-                  {t.simulations.voiceCallInArabic}
+                  {customScenario || listingId !== NO_LISTING
+                    ? (isRTL ? 'متاح للمحادثة النصية فقط' : 'Available in chat mode only')
+                    : t.simulations.voiceCallInArabic}
                 </Badge>
               </div>
             </div>
@@ -403,9 +518,9 @@ export default function SimulationPage() {
                 key={scenario.type}
                 className={cn(
                   "cursor-pointer transition-all card-hover",
-                  selectedScenario === scenario.type && "ring-2 ring-primary"
+                  !customScenario && selectedScenario === scenario.type && "ring-2 ring-primary"
                 )}
-                onClick={() => setSelectedScenario(scenario.type)}
+                onClick={() => handleSelectBuiltIn(scenario.type)}
               >
                 <CardHeader className="pb-2">
                   <CardTitle className="text-base flex items-center gap-2 text-foreground">
@@ -419,6 +534,71 @@ export default function SimulationPage() {
               </Card>
             ))}
           </div>
+
+          {customScenarios.length > 0 && (
+            <>
+              <h2 className="text-lg font-semibold mt-8 mb-4 text-foreground">
+                {isRTL ? 'سيناريوهات منظمتك' : "Your organization's scenarios"}
+              </h2>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {customScenarios.map((scenario) => (
+                  <Card
+                    key={scenario.id}
+                    className={cn(
+                      "cursor-pointer transition-all card-hover",
+                      customScenario?.id === scenario.id && "ring-2 ring-primary"
+                    )}
+                    onClick={() => handleSelectCustom(scenario)}
+                  >
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base flex items-center justify-between gap-2 text-foreground">
+                        <span className="flex items-center gap-2">
+                          <Sparkles className="h-4 w-4 text-primary" />
+                          {isRTL && scenario.nameAr ? scenario.nameAr : scenario.name}
+                        </span>
+                        <span className="flex items-center gap-1.5">
+                          {scenario.isScripted && (
+                            <Badge variant="secondary" className="gap-1">
+                              <ListChecks className="h-3 w-3" />
+                              {isRTL ? 'مسار ثابت' : 'Scripted'}
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className={difficulties.find(d => d.level === scenario.difficultyLevel)?.color}>
+                            {difficulties.find(d => d.level === scenario.difficultyLevel)?.label}
+                          </Badge>
+                        </span>
+                      </CardTitle>
+                      <CardDescription>{scenarioTypeLabel(scenario.scenarioType, isRTL)}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {scenario.description && (
+                        <p className="text-sm text-muted-foreground">{scenario.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                        <User className="h-3.5 w-3.5" />
+                        {scenario.personaName} · {personalityLabel(scenario.personality, isRTL)}
+                      </p>
+                      {(scenario.additionalPersonaNames ?? []).length > 0 && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                          <Users className="h-3.5 w-3.5" />
+                          {isRTL ? 'مع ' : 'With '}
+                          {(scenario.additionalPersonaNames ?? []).join(isRTL ? '، ' : ', ')}
+                        </p>
+                      )}
+                      {(scenario.property.propertyType || scenario.property.location) && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                          <Home className="h-3.5 w-3.5" />
+                          {[scenario.property.propertyType, scenario.property.location, scenario.property.price]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </>
+          )}
         </div>
 
         <div>
@@ -439,7 +619,8 @@ export default function SimulationPage() {
                       variant="outline"
                       className={cn(
                         "cursor-pointer transition-all",
-                        selectedDifficulty === diff.level ? diff.color : "hover:bg-muted"
+                        selectedDifficulty === diff.level ? diff.color : "hover:bg-muted",
+                        customScenario && "pointer-events-none opacity-60"
                       )}
                       onClick={() => setSelectedDifficulty(diff.level)}
                     >
@@ -449,12 +630,53 @@ export default function SimulationPage() {
                 </div>
               </div>
 
+              {listings.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block text-foreground">
+                    {isRTL ? 'العقار (اختياري)' : 'Property listing (optional)'}
+                  </label>
+                  <Select value={listingId} onValueChange={setListingId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_LISTING}>{isRTL ? 'بدون عقار محدد' : 'No specific listing'}</SelectItem>
+                      {listings.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {listingTitle(item, isRTL)} · {formatListingPrice(item, isRTL)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {isRTL
+                      ? 'يظهر ملف العقار بجانب المحادثة ويُقيَّم مدى دقة المعلومات التي تذكرها'
+                      : 'The fact sheet is shown next to the chat and the analysis checks the facts you quote'}
+                  </p>
+                </div>
+              )}
+
               {selectedScenario && (
                 <div className="p-4 bg-muted/50 rounded-lg border border-border">
                   <p className="text-sm font-medium text-foreground">{t.simulations.selected}:</p>
                   <p className="text-sm text-muted-foreground">
-                    {scenarios.find(s => s.type === selectedScenario)?.title} - {difficulties.find(d => d.level === selectedDifficulty)?.label}
+                    {customScenario
+                      ? (isRTL && customScenario.nameAr ? customScenario.nameAr : customScenario.name)
+                      : scenarios.find(s => s.type === selectedScenario)?.title} - {difficulties.find(d => d.level === selectedDifficulty)?.label}
                   </p>
+                  {customScenario && customScenario.successCriteria.length > 0 && (
+                    <div className="mt-3">
+                      <p className="text-xs font-medium text-foreground flex items-center gap-1.5 mb-1">
+                        <Target className="h-3.5 w-3.5 text-primary" />
+                        {isRTL ? 'أهدافك' : 'Your goals'}
+                      </p>
+                      <ul className="text-xs text-muted-foreground list-disc ps-5 space-y-0.5">
+                        {customScenario.successCriteria.map((criterion) => (
+                          <li key={criterion}>{criterion}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -473,6 +695,44 @@ export default function SimulationPage() {
 
       {/* Mode Selection Modal */}
       {showModeSelector && <ModeSelector />}
+
+      {/* Resume Prompt */}
+      {showResumePrompt && resumable && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 animate-fade-in">
+          <Card className="w-full max-w-md mx-4 animate-slide-up">
+            <CardHeader className="text-center">
+              <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
+                <History className="h-7 w-7 text-primary" />
+              </div>
+              <CardTitle className="text-foreground">
+                {isRTL ? 'لديك محادثة لم تكتمل' : 'You have an unfinished conversation'}
+              </CardTitle>
+              <CardDescription>
+                {scenarioTypeLabel(resumable.scenarioType, isRTL)}
+                {' · '}
+                {isRTL ? 'آخر نشاط' : 'Last activity'}{' '}
+                {new Date(resumable.lastActivityAt).toLocaleTimeString(isRTL ? 'ar-SA' : 'en-US', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={handleAbandon} disabled={isResuming}>
+                {isRTL ? 'إنهاء المحادثة' : 'Abandon'}
+              </Button>
+              <Button className="flex-1" onClick={handleResume} disabled={isResuming}>
+                {isResuming ? (
+                  <Loader2 className={cn("h-4 w-4 animate-spin", isRTL ? "ml-2" : "mr-2")} />
+                ) : (
+                  <Play className={cn("h-4 w-4", isRTL ? "ml-2" : "mr-2")} />
+                )}
+                {isRTL ? 'استئناف' : 'Resume'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
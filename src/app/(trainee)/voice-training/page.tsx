@@ -18,32 +18,11 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { SaudiAvatar } from '@/components/ui/SaudiAvatar';
 import { cn } from '@/lib/utils';
-
-// Helper function to get auth token from all possible sources
-function getAuthToken(): string | null {
-  if (typeof window !== 'undefined') {
-    const directToken = localStorage.getItem('auth_token');
-    if (directToken) {
-      return directToken;
-    }
-
-    const authStorage = localStorage.getItem('auth-storage');
-    if (authStorage) {
-      try {
-        const parsed = JSON.parse(authStorage);
-        const token = parsed?.state?.token;
-        if (token) {
-          localStorage.setItem('auth_token', token);
-          return token;
-        }
-      } catch (e) {
-        console.error('[VoiceTraining] Failed to parse auth-storage:', e);
-      }
-    }
-  }
-
-  return null;
-}
+import { apiClient, ApiError } from '@/lib/api/client';
+import { elevenlabsApi, type VoicePerformanceAnalysis } from '@/lib/api/elevenlabs.api';
+import { useCallDelivery } from '@/hooks/useCallDelivery';
+import { useConversationDevices } from '@/hooks/useAudioDevices';
+import { PreCallCheck } from '@/components/simulation/PreCallCheck';
 
 // Error translation helper
 function translateError(error: unknown): string {
@@ -103,31 +82,7 @@ function translateError(error: unknown): string {
 }
 
 // Types
-interface PerformanceAnalysis {
-  overallScore: number;
-  breakdown: {
-    opening: number;
-    needsDiscovery: number;
-    objectionHandling: number;
-    persuasion: number;
-    closing: number;
-    communication: number;
-  };
-  strengths: string[];
-  weaknesses: string[];
-  improvements: string[];
-  summary: string;
-  transcriptHighlights: {
-    good: string[];
-    needsWork: string[];
-  };
-}
-
-interface SavedSession {
-  sessionId: string;
-  conversationId: string;
-  analysis: PerformanceAnalysis;
-}
+type PerformanceAnalysis = VoicePerformanceAnalysis;
 
 type CallStatus = 'idle' | 'connecting' | 'active' | 'ending' | 'analyzing' | 'complete' | 'setup_required';
 
@@ -222,28 +177,14 @@ export default function VoiceTrainingPage() {
   const [callDuration, setCallDuration] = useState(0);
   const [isHydrated, setIsHydrated] = useState(false);
   const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+  const [checkingDevices, setCheckingDevices] = useState(false);
 
   const storeToken = useAuthStore((state) => state.token);
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
 
   useEffect(() => {
     setError(null);
-    const timer = setTimeout(() => {
-      setIsHydrated(true);
-      const token = storeToken || getAuthToken();
-      console.log('[VoiceTraining] Hydration complete:', {
-        storeToken: storeToken ? `${storeToken.substring(0, 20)}...` : 'null',
-        helperToken: getAuthToken() ? 'present' : 'null',
-        isAuthenticated,
-      });
-
-      if (!storeToken && typeof window !== 'undefined') {
-        const localToken = getAuthToken();
-        if (localToken) {
-          localStorage.setItem('auth_token', localToken);
-        }
-      }
-    }, 100);
+    const timer = setTimeout(() => setIsHydrated(true), 100);
 
     return () => clearTimeout(timer);
   }, [storeToken, isAuthenticated]);
@@ -257,6 +198,9 @@ export default function VoiceTrainingPage() {
     }
   }, [error]);
 
+  // Speech delivery (pace, fillers, interruptions...) saved with the session
+  const delivery = useCallDelivery();
+
   const conversation = useConversation({
     onConnect: () => {
       console.log('[VoiceTraining] Connected to ElevenLabs');
@@ -271,7 +215,9 @@ export default function VoiceTrainingPage() {
     },
     onMessage: (message) => {
       console.log('[VoiceTraining] Message:', message);
+      delivery.onMessage(message);
     },
+    onModeChange: delivery.onModeChange,
     onError: (error) => {
       console.error('[VoiceTraining] Error:', error);
       const errorMessage = translateError(error);
@@ -280,6 +226,9 @@ export default function VoiceTrainingPage() {
     },
   });
 
+  // Chosen microphone/speaker; follows device changes during the call
+  const callDevices = useConversationDevices(conversation, callStatus === 'active');
+
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
     if (callStatus === 'active') {
@@ -298,83 +247,54 @@ export default function VoiceTrainingPage() {
       setError(null);
       setCallDuration(0);
 
-      let token = storeToken || getAuthToken();
-
-      if (!token) {
+      if (!apiClient.getAccessToken()) {
         throw new Error('يرجى تسجيل الدخول أولاً - لم يتم العثور على رمز المصادقة');
       }
 
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('auth_token', token);
-      }
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/elevenlabs/signed-url`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorData: { message?: string; error?: string } = {};
-        try {
-          errorData = JSON.parse(errorText);
-        } catch {
-          errorData = { message: errorText };
-        }
-
-        if (response.status === 401) {
-          throw new Error('جلسة المصادقة انتهت - يرجى تسجيل الدخول مرة أخرى');
-        }
-
-        if (errorData.message?.includes('permission') || errorData.message?.includes('create agent')) {
-          setCallStatus('setup_required');
-          return;
+      let signedUrl: string;
+      let agentId: string;
+      try {
+        ({ signedUrl, agentId } = await elevenlabsApi.getSignedUrl());
+      } catch (err) {
+        if (err instanceof ApiError) {
+          if (err.status === 401) {
+            throw new Error('جلسة المصادقة انتهت - يرجى تسجيل الدخول مرة أخرى');
+          }
+          if (err.message?.includes('permission') || err.message?.includes('create agent')) {
+            setCallStatus('setup_required');
+            return;
+          }
+          throw new Error(err.message || `فشل في الحصول على رابط الاتصال (${err.status})`);
         }
-        throw new Error(errorData.message || errorData.error || `فشل في الحصول على رابط الاتصال (${response.status})`);
+        throw err;
       }
-
-      const { signedUrl, agentId } = await response.json();
       console.log('[VoiceTraining] Got signed URL for agent:', agentId);
 
       const conversationId = await conversation.startSession({
         signedUrl,
+        ...callDevices,
       });
 
       setCurrentConversationId(conversationId);
+      delivery.begin(conversation.getInputVolume);
       console.log('[VoiceTraining] Started conversation:', conversationId);
     } catch (err) {
       console.error('[VoiceTraining] Failed to start call:', err);
       setError(err instanceof Error ? err.message : 'Failed to start call');
       setCallStatus('idle');
     }
-  }, [conversation, storeToken]);
+  }, [conversation, delivery, callDevices]);
 
   const handleEndCall = useCallback(async () => {
     try {
       setCallStatus('ending');
+      const deliveryMetrics = delivery.finish();
       await conversation.endSession();
 
       if (currentConversationId) {
         setCallStatus('analyzing');
 
-        const token = localStorage.getItem('auth_token');
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-        const response = await fetch(`${apiUrl}/elevenlabs/conversations/${currentConversationId}/save`, {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.message || `Save failed: ${response.status}`);
-        }
-
-        const result: SavedSession = await response.json();
+        const result = await elevenlabsApi.saveConversation(currentConversationId, deliveryMetrics);
         setAnalysis(result.analysis);
         setSavedSessionId(result.sessionId);
         setCallStatus('complete');
@@ -386,7 +306,7 @@ export default function VoiceTrainingPage() {
       setError(err instanceof Error ? err.message : 'فشل في حفظ المكالمة');
       setCallStatus('idle');
     }
-  }, [conversation, currentConversationId]);
+  }, [conversation, currentConversationId, delivery]);
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -652,7 +572,7 @@ export default function VoiceTrainingPage() {
             )}
 
             {/* Instructions */}
-            {callStatus === 'idle' && (
+            {callStatus === 'idle' && !checkingDevices && (
               <Card className="p-6 max-w-md text-center">
                 <h3 className="font-semibold mb-2 text-foreground">تعليمات المكالمة</h3>
                 <p className="text-muted-foreground text-sm">
@@ -662,12 +582,24 @@ export default function VoiceTrainingPage() {
               </Card>
             )}
 
+            {/* Microphone/speaker check before the call starts */}
+            {callStatus === 'idle' && checkingDevices && (
+              <PreCallCheck
+                className="w-full max-w-md"
+                onContinue={() => {
+                  setCheckingDevices(false);
+                  void handleStartCall();
+                }}
+                onCancel={() => setCheckingDevices(false)}
+              />
+            )}
+
             {/* Call Controls */}
             <div className="flex gap-4">
-              {callStatus === 'idle' && (
+              {callStatus === 'idle' && !checkingDevices && (
                 <>
                   <Button
-                    onClick={handleStartCall}
+                    onClick={() => setCheckingDevices(true)}
                     disabled={!isHydrated}
                     size="lg"
                     className="px-8"
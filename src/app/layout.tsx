@@ -3,6 +3,8 @@ import { Inter, Cairo, Alexandria } from 'next/font/google';
 import { LanguageProvider } from '@/contexts/LanguageContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { LessonContextProvider } from '@/contexts/LessonContext';
+import { QueryProvider } from '@/contexts/QueryProvider';
+import { SessionManager } from '@/components/auth/SessionManager';
 import '@/styles/globals.css';
 
 // Inter - Premium tech font for English (clean, modern)
@@ -68,9 +70,12 @@ export default function RootLayout({
       >
         <ThemeProvider>
           <LanguageProvider>
-            <LessonContextProvider>
-              {children}
-            </LessonContextProvider>
+            <QueryProvider>
+              <LessonContextProvider>
+                {children}
+              </LessonContextProvider>
+              <SessionManager />
+            </QueryProvider>
           </LanguageProvider>
         </ThemeProvider>
       </body>
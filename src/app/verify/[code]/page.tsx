@@ -0,0 +1,111 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { LanguageToggle } from '@/components/ui/LanguageToggle';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useVerifyCertificate } from '@/hooks/useCertificateQueries';
+import { achievementTitle, formatCertificateDate } from '@/lib/certificates/template';
+import { ApiError } from '@/lib/api/client';
+import { Loader2, ShieldCheck, ShieldX, ShieldAlert } from 'lucide-react';
+
+/** Public page anyone can open from the link or code printed on a certificate */
+export default function VerifyCertificatePage() {
+  const { t, isRTL } = useLanguage();
+  const params = useParams();
+  const code = decodeURIComponent(params.code as string);
+  const { data: certificate, isPending, error } = useVerifyCertificate(code);
+
+  const notFound = error instanceof ApiError && error.status === 404;
+  const revoked = certificate?.status === 'revoked';
+  const lang = isRTL ? 'ar' : 'en';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex flex-col items-center justify-center p-6">
+      <div className="w-full max-w-lg space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900 dark:text-white">{t.certificate.verifyCertificate}</h1>
+          <LanguageToggle variant="ghost" />
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            {isPending ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-violet-500" />
+              </div>
+            ) : !certificate ? (
+              <div className="text-center py-8 space-y-3">
+                <ShieldX className="w-14 h-14 text-red-500 mx-auto" />
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {notFound
+                    ? t.certificate.notFound
+                    : (isRTL ? 'تعذر التحقق من الشهادة، حاول مرة أخرى' : 'Could not verify the certificate, please try again')}
+                </p>
+                <p className="font-mono text-sm text-gray-500" dir="ltr">{code}</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div
+                  className={cn(
+                    'flex items-center gap-3 rounded-lg p-4',
+                    revoked
+                      ? 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+                      : 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+                  )}
+                >
+                  {revoked ? <ShieldAlert className="w-8 h-8 shrink-0" /> : <ShieldCheck className="w-8 h-8 shrink-0" />}
+                  <div>
+                    <p className="font-semibold">{revoked ? t.certificate.revoked : t.certificate.valid}</p>
+                    {revoked && certificate.revokedAt && (
+                      <p className="text-sm">
+                        {isRTL ? 'أُلغيت بتاريخ' : 'Revoked on'} {formatCertificateDate(certificate.revokedAt, lang)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {certificate.branding.logoUrl && (
+                    <img src={certificate.branding.logoUrl} alt="" className="h-10 max-w-[120px] object-contain" />
+                  )}
+                  <p className="font-medium text-gray-700 dark:text-gray-300">
+                    {isRTL && certificate.branding.nameAr ? certificate.branding.nameAr : certificate.branding.name}
+                  </p>
+                </div>
+
+                <dl className="space-y-3 text-sm">
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">{isRTL ? 'المتدرب' : 'Recipient'}</dt>
+                    <dd className="font-semibold text-gray-900 dark:text-white text-end">{certificate.recipientName}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">
+                      {certificate.source === 'quiz' ? t.certificate.quizCertificate : t.certificate.courseCertificate}
+                    </dt>
+                    <dd className="font-semibold text-gray-900 dark:text-white text-end">{achievementTitle(certificate, lang)}</dd>
+                  </div>
+                  {certificate.score !== null && (
+                    <div className="flex justify-between gap-4">
+                      <dt className="text-gray-500">{t.quiz.score}</dt>
+                      <dd className="font-semibold text-gray-900 dark:text-white">{Math.round(certificate.score)}%</dd>
+                    </div>
+                  )}
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">{t.certificate.issuedOn}</dt>
+                    <dd className="text-gray-900 dark:text-white">{formatCertificateDate(certificate.issuedAt, lang)}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">{t.certificate.verificationCode}</dt>
+                    <dd className="font-mono text-gray-900 dark:text-white" dir="ltr">{certificate.verificationCode}</dd>
+                  </div>
+                </dl>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
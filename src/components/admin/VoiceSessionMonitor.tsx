@@ -13,6 +13,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import { adminApi, type AdminVoiceSessionListResponse } from '@/lib/api/admin.api';
 import Link from 'next/link';
 import {
   Phone,
@@ -31,26 +32,6 @@ import {
   GraduationCap,
 } from 'lucide-react';
 
-interface VoiceSessionWithTrainee {
-  id: string;
-  conversationId: string;
-  traineeId: string;
-  traineeName: string;
-  traineeEmail: string;
-  startTime: string;
-  duration: number;
-  overallScore: number;
-  status: string;
-  hasAudio: boolean;
-}
-
-interface VoiceSessionsResponse {
-  sessions: VoiceSessionWithTrainee[];
-  total: number;
-  page: number;
-  totalPages: number;
-}
-
 interface VoiceSessionMonitorProps {
   className?: string;
   isTrainerView?: boolean;
@@ -58,50 +39,20 @@ interface VoiceSessionMonitorProps {
 
 export function VoiceSessionMonitor({ className, isTrainerView = false }: VoiceSessionMonitorProps) {
   const { isRTL } = useLanguage();
-  const [data, setData] = useState<VoiceSessionsResponse | null>(null);
+  const [data, setData] = useState<AdminVoiceSessionListResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
 
-  // Helper to get token from multiple sources
-  const getAuthToken = (): string | null => {
-    let token = localStorage.getItem('auth_token');
-    if (!token) {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        try {
-          const parsed = JSON.parse(authStorage);
-          token = parsed?.state?.token;
-          if (token) localStorage.setItem('auth_token', token);
-        } catch (e) {
-          console.error('Failed to parse auth-storage:', e);
-        }
-      }
-    }
-    return token;
-  };
-
   const loadData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const token = getAuthToken();
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/admin/voice-sessions?page=${currentPage}&limit=20`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(isRTL ? 'فشل تحميل الجلسات' : 'Failed to load sessions');
-      }
-
-      const responseData = await response.json();
+      const responseData = await adminApi.getVoiceSessions({ page: currentPage, limit: 20 });
       setData(responseData);
     } catch (err) {
       console.error('Failed to load session data:', err);
-      setError(err instanceof Error ? err.message : (isRTL ? 'فشل تحميل الجلسات' : 'Failed to load sessions'));
+      setError(isRTL ? 'فشل تحميل الجلسات' : 'Failed to load sessions');
     } finally {
       setIsLoading(false);
     }
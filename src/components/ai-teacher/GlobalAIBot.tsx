@@ -12,6 +12,8 @@ import { useDiagnosticStore } from '@/stores/diagnostic.store';
 import { cn } from '@/lib/utils';
 import { aiTeacherApi } from '@/lib/api/ai-teacher.api';
 import { traineeApi, AssignedTeacherInfo } from '@/lib/api/trainee.api';
+import { usePlayback } from '@/hooks/usePlayback';
+import { useVoiceEngine } from '@/hooks/useVoiceEngine';
 import { TalkingAvatar } from './TalkingAvatar';
 import Link from 'next/link';
 
@@ -218,6 +220,7 @@ function getPageContext(pathname: string, t: any): string {
 
 // Session storage keys
 const WELCOME_PLAYED_KEY = 'globalbot_welcome_played';
+const SARA_WELCOME_CLIP_ID = 'sara-welcome';
 const AUTO_OPENED_KEY = 'globalbot_auto_opened';
 
 export function GlobalAIBot() {
@@ -250,9 +253,6 @@ export function GlobalAIBot() {
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Voice features state
-  const [isRecording, setIsRecording] = useState(false);
-  const [isTranscribing, setIsTranscribing] = useState(false);
-  const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
   const [welcomePlayed, setWelcomePlayed] = useState(false);
   const [isLoadingWelcome, setIsLoadingWelcome] = useState(false);
   const [autoPlayEnabled, setAutoPlayEnabled] = useState(true); // Auto-play responses
@@ -279,11 +279,18 @@ export function GlobalAIBot() {
   const [isLoadingTeacher, setIsLoadingTeacher] = useState(true);
   const teacherFetchedRef = useRef(false);
 
-  // Audio refs
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
-  const audioQueueRef = useRef<string[]>([]); // Queue for auto-playing audio
+  // Replies play through the shared playback queue, using message ids as clip ids
+  const { currentId: playingMessageId, play: playClip, stop: stopAudio, isAutoplayBlocked } = usePlayback();
+
+  // Dictation: recorded speech is transcribed on the server into the input box
+  const dictation = useVoiceEngine({
+    input: 'server',
+    onUtterance: async (text) => {
+      setInput(prev => prev + (prev ? ' ' : '') + text);
+    },
+  });
+  const isRecording = dictation.isListening;
+  const isTranscribing = dictation.isTranscribing;
 
   // Fetch fresh teacher info from API on mount (source of truth)
   useEffect(() => {
@@ -346,36 +353,16 @@ export function GlobalAIBot() {
   const pageContext = getDetailedPageContext(pathname, language);
 
   // Auto-play audio helper
-  const autoPlayAudio = useCallback((audioBase64: string, messageId: string) => {
+  const autoPlayAudio = useCallback(async (audioBase64: string, messageId: string) => {
     if (!autoPlayEnabled) return;
 
-    // Stop any current audio
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-      currentAudioRef.current = null;
-    }
-
-    const audio = new Audio(`data:audio/mpeg;base64,${audioBase64}`);
-    currentAudioRef.current = audio;
-    setPlayingMessageId(messageId);
-
-    audio.onended = () => {
-      setPlayingMessageId(null);
-      currentAudioRef.current = null;
-    };
-
-    audio.onerror = () => {
-      setPlayingMessageId(null);
-      currentAudioRef.current = null;
-    };
-
-    // Play with user interaction fallback
-    audio.play().catch(() => {
+    // play() replaces any current audio
+    const played = await playClip(audioBase64, messageId);
+    if (!played && isAutoplayBlocked()) {
       // Autoplay blocked - will need user interaction
-      setPlayingMessageId(null);
-      setAutoPlayEnabled(false); // Disable auto-play since browser blocked it
-    });
-  }, [autoPlayEnabled]);
+      setAutoPlayEnabled(false);
+    }
+  }, [autoPlayEnabled, playClip, isAutoplayBlocked]);
 
   // Wait for auth store to hydrate before making redirect decisions
   // This prevents the race condition where we redirect before user data is loaded
@@ -535,29 +522,9 @@ export function GlobalAIBot() {
           };
           setMessages([welcomeMsg]);
 
-          // Play audio automatically - stop any existing audio first
+          // Play audio automatically - replaces any existing audio
           if (result.audio) {
-            // CRITICAL: Stop any existing audio before playing new one
-            if (currentAudioRef.current) {
-              currentAudioRef.current.pause();
-              currentAudioRef.current = null;
-              setPlayingMessageId(null);
-            }
-
-            const audio = new Audio(`data:audio/mpeg;base64,${result.audio}`);
-            currentAudioRef.current = audio;
-            setPlayingMessageId(welcomeMsg.id);
-
-            audio.onended = () => {
-              setPlayingMessageId(null);
-              currentAudioRef.current = null;
-            };
-
-            // Try to play - may be blocked by browser autoplay policy
-            audio.play().catch((e) => {
-              console.log('Autoplay blocked, user interaction required:', e);
-              setPlayingMessageId(null);
-            });
+            void playClip(result.audio, welcomeMsg.id);
           }
 
           // Mark as played
@@ -583,17 +550,12 @@ export function GlobalAIBot() {
 
       playWelcome();
     }
-  }, [isOpen, hasCompletedAssessment, welcomePlayed, currentTeacher, language, messages.length, teacher.displayName]);
+  }, [isOpen, hasCompletedAssessment, welcomePlayed, currentTeacher, language, messages.length, teacher.displayName, playClip, isAutoplayBlocked]);
 
   // Cleanup audio on unmount
   useEffect(() => {
-    return () => {
-      if (currentAudioRef.current) {
-        currentAudioRef.current.pause();
-        currentAudioRef.current = null;
-      }
-    };
-  }, []);
+    return () => stopAudio();
+  }, [stopAudio]);
 
   // CRITICAL: Redirect new trainees to assessment page if they try to access other pages
   // Only redirect ONCE - use a ref to track if we've already redirected
@@ -637,6 +599,40 @@ export function GlobalAIBot() {
     }
   }, [hasCompletedAssessment, saraInfo]);
 
+  // Play Sara's welcome (voice and message from the database); `fallbackStep` is
+  // shown when it cannot play. Each run supersedes the previous one.
+  const saraWelcomeRunRef = useRef(0);
+  const playSaraWelcome = useCallback(async (fallbackStep: 'initial' | 'ready') => {
+    const run = ++saraWelcomeRunRef.current;
+    setIsLoadingAudio(true);
+    setOnboardingStep('speaking');
+
+    try {
+      const result = await aiTeacherApi.getWelcomeAudio('sara', language);
+      if (run !== saraWelcomeRunRef.current) return;
+      setIsLoadingAudio(false);
+
+      if (!result.audio) {
+        setOnboardingStep('ready');
+        return;
+      }
+
+      // play() replaces any audio already playing
+      const played = await playClip(result.audio, SARA_WELCOME_CLIP_ID);
+      if (run !== saraWelcomeRunRef.current) return;
+      if (!played && isAutoplayBlocked()) {
+        setOnboardingStep(fallbackStep);
+      } else {
+        setOnboardingStep('ready');
+      }
+    } catch (e) {
+      console.error('[GlobalAIBot] Failed to play Sara welcome:', e);
+      if (run !== saraWelcomeRunRef.current) return;
+      setIsLoadingAudio(false);
+      setOnboardingStep(fallbackStep);
+    }
+  }, [language, playClip, isAutoplayBlocked]);
+
   // Auto-play Sara's welcome audio for new trainees when bot opens
   useEffect(() => {
     // Must be: new trainee + bot is open + haven't triggered yet + not admin
@@ -645,59 +641,10 @@ export function GlobalAIBot() {
       onboardingWelcomeTriggeredRef.current = true;
       console.log('[GlobalAIBot] Auto-playing Sara welcome for new trainee');
 
-      // Auto-start Sara's welcome audio immediately
-      // Skip the initial step and go straight to speaking
-      setOnboardingStep('speaking');
-
-      // Start playing Sara's welcome audio automatically
-      const autoPlaySaraWelcome = async () => {
-        setIsLoadingAudio(true);
-        try {
-          // CRITICAL: Stop any existing audio before playing Sara's welcome
-          if (currentAudioRef.current) {
-            currentAudioRef.current.pause();
-            currentAudioRef.current = null;
-            setPlayingMessageId(null);
-          }
-
-          // Use getWelcomeAudio API - fetches welcome message and voice from database for Sara
-          const result = await aiTeacherApi.getWelcomeAudio('sara', language);
-
-          if (result.audio) {
-            const audio = new Audio(`data:audio/mpeg;base64,${result.audio}`);
-            currentAudioRef.current = audio;
-            setIsLoadingAudio(false);
-
-            audio.onended = () => {
-              currentAudioRef.current = null;
-              setOnboardingStep('ready');
-            };
-
-            audio.onerror = () => {
-              currentAudioRef.current = null;
-              setOnboardingStep('ready');
-            };
-
-            // Try to auto-play - may be blocked by browser
-            audio.play().catch((e) => {
-              console.log('[GlobalAIBot] Auto-play blocked by browser, showing button:', e);
-              setIsLoadingAudio(false);
-              setOnboardingStep('initial'); // Fall back to button if blocked
-            });
-          } else {
-            setIsLoadingAudio(false);
-            setOnboardingStep('ready');
-          }
-        } catch (e) {
-          console.error('[GlobalAIBot] Failed to auto-play Sara welcome:', e);
-          setIsLoadingAudio(false);
-          setOnboardingStep('initial'); // Fall back to button if error
-        }
-      };
-
-      autoPlaySaraWelcome();
+      // Skip the initial step and go straight to speaking; fall back to the button if blocked
+      playSaraWelcome('initial');
     }
-  }, [hasCompletedAssessment, isOpen, isAdminUser, language]);
+  }, [hasCompletedAssessment, isOpen, isAdminUser, playSaraWelcome]);
 
   // Detect page changes and offer contextual help
   useEffect(() => {
@@ -814,134 +761,33 @@ export function GlobalAIBot() {
     }
   };
 
-  // Voice recording handlers
+  // Voice dictation handlers
   const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          audioChunksRef.current.push(e.data);
-        }
-      };
-
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        stream.getTracks().forEach(track => track.stop());
-
-        // Transcribe
-        setIsTranscribing(true);
-        try {
-          const result = await aiTeacherApi.speechToText(audioBlob, language);
-          if (result.text) {
-            setInput(prev => prev + (prev ? ' ' : '') + result.text);
-          }
-        } catch (error) {
-          console.error('Transcription failed:', error);
-        } finally {
-          setIsTranscribing(false);
-        }
-      };
-
-      mediaRecorder.start();
-      setIsRecording(true);
-    } catch (error) {
-      console.error('Failed to start recording:', error);
-    }
+    if (!dictation.isLive) await dictation.open();
+    dictation.startListening();
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
+    dictation.stopListening();
   };
 
   // Audio playback handlers
   const playMessageAudio = (message: BotMessage) => {
     if (!message.audioBase64) return;
 
-    // Stop current audio if playing
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-      currentAudioRef.current = null;
-
-      // If clicking same message, just stop
-      if (playingMessageId === message.id) {
-        setPlayingMessageId(null);
-        return;
-      }
+    // If clicking the message that is playing, just stop
+    if (playingMessageId === message.id) {
+      stopAudio();
+      return;
     }
 
-    const audio = new Audio(`data:audio/mpeg;base64,${message.audioBase64}`);
-    currentAudioRef.current = audio;
-    setPlayingMessageId(message.id);
-
-    audio.onended = () => {
-      setPlayingMessageId(null);
-      currentAudioRef.current = null;
-    };
-
-    audio.play().catch(() => {
-      setPlayingMessageId(null);
-    });
-  };
-
-  const stopAudio = () => {
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-      currentAudioRef.current = null;
-      setPlayingMessageId(null);
-    }
+    playClip(message.audioBase64, message.id);
   };
 
   if (shouldHide) return null;
 
   // Function to start Sara's welcome - uses database settings (voice, message)
-  const startSaraWelcome = async () => {
-    setIsLoadingAudio(true);
-    setOnboardingStep('speaking');
-
-    try {
-      // CRITICAL: Stop any existing audio before playing Sara's welcome
-      if (currentAudioRef.current) {
-        currentAudioRef.current.pause();
-        currentAudioRef.current = null;
-        setPlayingMessageId(null);
-      }
-
-      // Use getWelcomeAudio API - fetches welcome message and voice from database for Sara
-      const result = await aiTeacherApi.getWelcomeAudio('sara', language);
-
-      if (result.audio) {
-        const audio = new Audio(`data:audio/mpeg;base64,${result.audio}`);
-        currentAudioRef.current = audio;
-        setIsLoadingAudio(false);
-
-        audio.onended = () => {
-          currentAudioRef.current = null;
-          setOnboardingStep('ready');
-        };
-
-        audio.onerror = () => {
-          currentAudioRef.current = null;
-          setOnboardingStep('ready');
-        };
-
-        await audio.play();
-      } else {
-        setIsLoadingAudio(false);
-        setOnboardingStep('ready');
-      }
-    } catch (e) {
-      console.error('Failed to play welcome:', e);
-      setIsLoadingAudio(false);
-      setOnboardingStep('ready');
-    }
-  };
+  const startSaraWelcome = () => playSaraWelcome('ready');
 
   // If no assessment completed, show welcoming onboarding bot
   if (!hasCompletedAssessment) {
@@ -1134,10 +980,8 @@ export function GlobalAIBot() {
             <div className="flex gap-2">
               <Button
                 onClick={() => {
-                  if (currentAudioRef.current) {
-                    currentAudioRef.current.pause();
-                    currentAudioRef.current = null;
-                  }
+                  saraWelcomeRunRef.current++;
+                  stopAudio();
                   setOnboardingStep('ready');
                 }}
                 variant="outline"
@@ -1148,12 +992,7 @@ export function GlobalAIBot() {
               </Button>
               <Button
                 onClick={() => {
-                  // Stop current audio and replay
-                  if (currentAudioRef.current) {
-                    currentAudioRef.current.pause();
-                    currentAudioRef.current = null;
-                  }
-                  // Restart Sara's welcome
+                  // Restart Sara's welcome (replaces the current audio)
                   startSaraWelcome();
                 }}
                 variant="outline"
@@ -1340,7 +1179,6 @@ export function GlobalAIBot() {
                 teacherName={currentTeacher as TeacherName}
                 size="lg"
                 isSpeaking={playingMessageId !== null}
-                audioElement={currentAudioRef.current}
                 avatarUrl={effectiveAvatarUrl}
               />
             </div>
@@ -0,0 +1,148 @@
+'use client';
+
+/**
+ * Session Manager
+ *
+ * Connects the auth store to the API client so expired access tokens are renewed
+ * transparently, renews the token shortly before it expires, and warns the user
+ * when the session can't be renewed. An expired session sends the user to the
+ * login page with a return path so they land back where they were.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useAuthStore } from '@/stores/auth.store';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { apiClient } from '@/lib/api/client';
+import { Clock, Loader2 } from 'lucide-react';
+
+// Renew this long before the access token expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+// Warn this long before expiry when the token can't be renewed
+const WARNING_AHEAD_MS = 2 * 60 * 1000;
+// setTimeout overflows above this delay and fires immediately
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export function SessionManager() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isRTL } = useLanguage();
+  const token = useAuthStore((state) => state.token);
+  const refreshToken = useAuthStore((state) => state.refreshToken);
+  const expiresAt = useAuthStore((state) => state.expiresAt);
+
+  const [showWarning, setShowWarning] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isRenewing, setIsRenewing] = useState(false);
+
+  const expireSession = useCallback(() => {
+    const { token: currentToken, logout } = useAuthStore.getState();
+    // Several requests can fail at once - only the first one signs out
+    if (!currentToken) return;
+
+    const returnTo = window.location.pathname + window.location.search;
+    logout();
+    setShowWarning(false);
+    router.replace(`/login?returnTo=${encodeURIComponent(returnTo)}`);
+  }, [router]);
+
+  // Let the API client renew tokens and report expired sessions through the store
+  useEffect(() => {
+    apiClient.setAuthHandlers({
+      refreshAccessToken: () => useAuthStore.getState().refreshSession(),
+      onSessionExpired: expireSession,
+    });
+    return () => apiClient.setAuthHandlers(null);
+  }, [expireSession]);
+
+  // Renew ahead of expiry, or schedule the warning if renewal isn't possible
+  useEffect(() => {
+    setShowWarning(false);
+    if (!token || !expiresAt) return;
+
+    const aheadMs = refreshToken ? REFRESH_AHEAD_MS : WARNING_AHEAD_MS;
+    const delay = Math.max(0, expiresAt - aheadMs - Date.now());
+    if (delay > MAX_TIMEOUT_MS) return;
+
+    const timer = setTimeout(async () => {
+      if (refreshToken) {
+        const renewed = await apiClient.refreshAccessToken();
+        if (renewed) return;
+      }
+      setShowWarning(true);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token, refreshToken, expiresAt]);
+
+  // Countdown while the warning is visible; sign out when it reaches zero
+  useEffect(() => {
+    if (!showWarning || !expiresAt) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) expireSession();
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [showWarning, expiresAt, expireSession]);
+
+  const handleRenew = async () => {
+    setIsRenewing(true);
+    try {
+      const renewed = await apiClient.refreshAccessToken();
+      if (renewed) {
+        setShowWarning(false);
+      }
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  if (!token || pathname?.startsWith('/login') || pathname?.startsWith('/register')) {
+    return null;
+  }
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = (secondsLeft % 60).toString().padStart(2, '0');
+
+  return (
+    <Dialog open={showWarning} onOpenChange={setShowWarning}>
+      <DialogContent dir={isRTL ? 'rtl' : 'ltr'}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-amber-500" />
+            {isRTL ? 'جلستك على وشك الانتهاء' : 'Your session is about to expire'}
+          </DialogTitle>
+          <DialogDescription>
+            {isRTL
+              ? `سيتم تسجيل خروجك خلال ${minutes}:${seconds}. ستعود إلى هذه الصفحة بعد تسجيل الدخول مرة أخرى.`
+              : `You will be signed out in ${minutes}:${seconds}. You'll return to this page after signing in again.`}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={expireSession}>
+            {isRTL ? 'تسجيل الدخول مجدداً' : 'Sign in again'}
+          </Button>
+          {refreshToken && (
+            <Button onClick={handleRenew} disabled={isRenewing}>
+              {isRenewing && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isRTL ? 'البقاء متصلاً' : 'Stay signed in'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import {
+  certificateBody,
+  certificateVerifyUrl,
+  formatCertificateDate,
+  type CertificateContent,
+} from '@/lib/certificates/template';
+import { CERTIFICATE_PAGE_PX } from '@/lib/utils/pdf-export';
+import type { CertificateBranding, CertificateTemplate } from '@/types/certificate';
+
+interface CertificateDocumentProps {
+  template: CertificateTemplate;
+  branding: CertificateBranding;
+  content: CertificateContent;
+  verificationCode: string;
+  lang: 'en' | 'ar';
+  /** Preview size; the PDF always renders the page at full size */
+  scale?: number;
+}
+
+const LABELS = {
+  en: { awardedTo: 'Awarded to', score: 'Score', issued: 'Issued', verify: 'Verify at', code: 'Code' },
+  ar: { awardedTo: 'تُمنح إلى', score: 'الدرجة', issued: 'تاريخ الإصدار', verify: 'للتحقق', code: 'الرمز' },
+};
+
+/**
+ * One page of a certificate, laid out at A4 landscape size with inline
+ * styles so the PDF export captures it exactly as previewed. The page
+ * element is marked with `data-certificate-page` for the exporter.
+ */
+export function CertificateDocument({ template, branding, content, verificationCode, lang, scale = 1 }: CertificateDocumentProps) {
+  const isAr = lang === 'ar';
+  const labels = LABELS[lang];
+  const accent = template.accentColor || '#7c3aed';
+  const orgName = isAr && branding.nameAr ? branding.nameAr : branding.name;
+  const signatoryName = isAr ? template.signatoryNameAr || template.signatoryName : template.signatoryName;
+  const signatoryTitle = isAr ? template.signatoryTitleAr || template.signatoryTitle : template.signatoryTitle;
+
+  return (
+    <div
+      style={{
+        width: CERTIFICATE_PAGE_PX.width * scale,
+        height: CERTIFICATE_PAGE_PX.height * scale,
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        data-certificate-page={lang}
+        dir={isAr ? 'rtl' : 'ltr'}
+        style={{
+          width: CERTIFICATE_PAGE_PX.width,
+          height: CERTIFICATE_PAGE_PX.height,
+          transform: scale === 1 ? undefined : `scale(${scale})`,
+          transformOrigin: 'top left',
+          background: '#ffffff',
+          color: '#1e293b',
+          padding: 28,
+          boxSizing: 'border-box',
+          fontFamily: isAr
+            ? 'var(--font-cairo), var(--font-arabic), Tahoma, sans-serif'
+            : 'var(--font-inter), system-ui, sans-serif',
+        }}
+      >
+        <div
+          style={{
+            height: '100%',
+            border: `3px solid ${accent}`,
+            outline: `1px solid ${accent}`,
+            outlineOffset: -12,
+            borderRadius: 8,
+            padding: '48px 72px',
+            boxSizing: 'border-box',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            textAlign: 'center',
+          }}
+        >
+          {branding.logoUrl && (
+            <img
+              src={branding.logoUrl}
+              alt=""
+              crossOrigin="anonymous"
+              style={{ height: 64, maxWidth: 240, objectFit: 'contain', marginBottom: 12 }}
+            />
+          )}
+          <p style={{ fontSize: 18, fontWeight: 600, color: '#475569', margin: 0 }}>{orgName}</p>
+
+          <h1 style={{ fontSize: 44, fontWeight: 800, color: accent, margin: '28px 0 8px' }}>
+            {isAr ? template.titleAr || template.titleEn : template.titleEn || template.titleAr}
+          </h1>
+
+          <p style={{ fontSize: 16, color: '#64748b', margin: '16px 0 4px' }}>{labels.awardedTo}</p>
+          <p
+            style={{
+              fontSize: 38,
+              fontWeight: 700,
+              margin: 0,
+              padding: '0 32px 8px',
+              borderBottom: `2px solid ${accent}33`,
+            }}
+          >
+            {content.recipientName}
+          </p>
+
+          <p style={{ fontSize: 18, lineHeight: 1.7, color: '#334155', maxWidth: 760, margin: '24px 0 0' }}>
+            {certificateBody(template, content, lang)}
+          </p>
+
+          {template.showScore && content.score !== null && (
+            <p style={{ fontSize: 16, color: '#475569', margin: '8px 0 0' }}>
+              {labels.score}: <strong style={{ color: accent }}>{Math.round(content.score)}%</strong>
+            </p>
+          )}
+
+          <div
+            style={{
+              marginTop: 'auto',
+              width: '100%',
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'flex-end',
+              textAlign: isAr ? 'right' : 'left',
+            }}
+          >
+            <div style={{ fontSize: 13, color: '#64748b', lineHeight: 1.6 }}>
+              <div>{labels.issued}: {formatCertificateDate(content.issuedAt, lang)}</div>
+              <div>{labels.code}: <span dir="ltr" style={{ fontFamily: 'monospace', color: '#1e293b' }}>{verificationCode}</span></div>
+              <div>{labels.verify}: <span dir="ltr">{certificateVerifyUrl(verificationCode)}</span></div>
+            </div>
+            {(signatoryName || signatoryTitle) && (
+              <div style={{ minWidth: 220, textAlign: 'center' }}>
+                <div style={{ borderTop: '1px solid #94a3b8', paddingTop: 8, fontSize: 16, fontWeight: 600 }}>
+                  {signatoryName}
+                </div>
+                <div style={{ fontSize: 13, color: '#64748b' }}>{signatoryTitle}</div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
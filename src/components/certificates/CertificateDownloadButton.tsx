@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CertificateDocument } from './CertificateDocument';
+import { certificateFileName, certificatePages } from '@/lib/certificates/template';
+import { exportCertificateToPDF } from '@/lib/utils/pdf-export';
+import type { Certificate } from '@/types/certificate';
+import { Download, Loader2 } from 'lucide-react';
+
+interface CertificateDownloadButtonProps extends Omit<ButtonProps, 'onClick'> {
+  certificate: Certificate;
+}
+
+/** Renders the certificate pages behind the page content just long enough to capture them */
+export function CertificateDownloadButton({ certificate, children, ...buttonProps }: CertificateDownloadButtonProps) {
+  const { t } = useLanguage();
+  const [rendering, setRendering] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!rendering || !containerRef.current) return;
+    const pages = Array.from(containerRef.current.querySelectorAll<HTMLElement>('[data-certificate-page]'));
+    exportCertificateToPDF(pages, certificateFileName(certificate))
+      .catch((err) => console.error('Failed to export certificate:', err))
+      .finally(() => setRendering(false));
+  }, [rendering, certificate]);
+
+  return (
+    <>
+      <Button {...buttonProps} onClick={() => setRendering(true)} disabled={rendering || buttonProps.disabled}>
+        {rendering ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+        {children ?? t.certificate.downloadPdf}
+      </Button>
+      {rendering && createPortal(
+        <div ref={containerRef} style={{ position: 'fixed', left: 0, top: 0, zIndex: -9999 }} aria-hidden>
+          {certificatePages(certificate.template.language).map((lang) => (
+            <CertificateDocument
+              key={lang}
+              template={certificate.template}
+              branding={certificate.branding}
+              content={certificate}
+              verificationCode={certificate.verificationCode}
+              lang={lang}
+            />
+          ))}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useCertificateSettings, useUpdateCertificateSettings } from '@/hooks/useCertificateQueries';
+import { useAdminQuizzes } from '@/hooks/useQuizQueries';
+import { useAdminCourses } from '@/hooks/useCourseQueries';
+import { CertificateDocument } from './CertificateDocument';
+import {
+  CERTIFICATE_PLACEHOLDERS,
+  DEFAULT_CERTIFICATE_TEMPLATE,
+  certificatePages,
+  sampleCertificateContent,
+} from '@/lib/certificates/template';
+import type {
+  CertificateLanguage,
+  CertificateRule,
+  CertificateSettings,
+  CertificateTemplate,
+} from '@/types/certificate';
+import { Loader2, Save, CheckCircle, ClipboardCheck, BookOpen, Palette } from 'lucide-react';
+
+// Preview width in the settings column, as a fraction of the A4 page
+const PREVIEW_SCALE = 0.5;
+
+interface RuleEditorProps {
+  title: string;
+  icon: typeof ClipboardCheck;
+  rule: CertificateRule;
+  selectedIds: string[];
+  items: { id: string; label: string }[];
+  onRuleChange: (rule: CertificateRule) => void;
+  onSelectedChange: (ids: string[]) => void;
+}
+
+function RuleEditor({ title, icon: Icon, rule, selectedIds, items, onRuleChange, onSelectedChange }: RuleEditorProps) {
+  const { isRTL } = useLanguage();
+
+  const toggle = (id: string, checked: boolean) => {
+    onSelectedChange(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Icon className="w-4 h-4 text-violet-500" />
+          {title}
+        </h4>
+        <Select value={rule} onValueChange={(value) => onRuleChange(value as CertificateRule)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{isRTL ? 'الكل' : 'All'}</SelectItem>
+            <SelectItem value="selected">{isRTL ? 'المحدد فقط' : 'Selected only'}</SelectItem>
+            <SelectItem value="none">{isRTL ? 'لا شيء' : 'None'}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {rule === 'selected' && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border p-3 space-y-2">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-400">{isRTL ? 'لا توجد عناصر' : 'Nothing to select'}</p>
+          ) : (
+            items.map((item) => (
+              <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Checkbox
+                  checked={selectedIds.includes(item.id)}
+                  onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                />
+                {item.label}
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Which achievements issue certificates, and how the certificate looks */
+export function CertificateSettingsForm() {
+  const { isRTL } = useLanguage();
+  const settingsQuery = useCertificateSettings();
+  const updateSettings = useUpdateCertificateSettings();
+  const { data: quizzes = [] } = useAdminQuizzes();
+  const { data: courseData } = useAdminCourses({});
+
+  const [form, setForm] = useState<Omit<CertificateSettings, 'branding'> | null>(null);
+  const [previewLang, setPreviewLang] = useState<'en' | 'ar'>(isRTL ? 'ar' : 'en');
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Edit a local copy; the server copy only changes on save
+  useEffect(() => {
+    if (settingsQuery.data && !form) {
+      const { branding: _branding, ...settings } = settingsQuery.data;
+      setForm({ ...settings, template: { ...DEFAULT_CERTIFICATE_TEMPLATE, ...settings.template } });
+    }
+  }, [settingsQuery.data, form]);
+
+  if (settingsQuery.isPending || !form) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  const template = form.template;
+  const branding = settingsQuery.data?.branding ?? { name: '', nameAr: null, logoUrl: null };
+  const pages = certificatePages(template.language);
+  const shownLang = pages.includes(previewLang) ? previewLang : pages[0];
+
+  const updateTemplate = (updates: Partial<CertificateTemplate>) => {
+    setForm({ ...form, template: { ...template, ...updates } });
+    setSaved(false);
+  };
+
+  const update = (updates: Partial<Omit<CertificateSettings, 'branding' | 'template'>>) => {
+    setForm({ ...form, ...updates });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    if (!template.titleEn.trim() && !template.titleAr.trim()) {
+      setError(isRTL ? 'عنوان الشهادة مطلوب' : 'A certificate title is required');
+      return;
+    }
+    try {
+      await updateSettings.mutateAsync(form);
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save certificate settings');
+    }
+  };
+
+  const textField = (key: keyof CertificateTemplate, label: string, rtl = false) => (
+    <div>
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      <Input
+        value={template[key] as string}
+        onChange={(e) => updateTemplate({ [key]: e.target.value })}
+        dir={rtl ? 'rtl' : undefined}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Issuing rules */}
+      <Card>
+        <CardContent className="p-5 space-y-5">
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-white">
+              {isRTL ? 'متى تُصدر الشهادات' : 'When certificates are issued'}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {isRTL
+                ? 'تُصدر الشهادة تلقائياً عند اجتياز الاختبار أو إكمال جميع دروس الدورة'
+                : 'A certificate is issued automatically when a trainee passes a quiz or finishes every lesson of a course'}
+            </p>
+          </div>
+          <RuleEditor
+            title={isRTL ? 'الاختبارات المجتازة' : 'Passed quizzes'}
+            icon={ClipboardCheck}
+            rule={form.quizRule}
+            selectedIds={form.quizIds}
+            items={quizzes.map((quiz) => ({ id: quiz.id, label: isRTL && quiz.titleAr ? quiz.titleAr : quiz.title }))}
+            onRuleChange={(quizRule) => update({ quizRule })}
+            onSelectedChange={(quizIds) => update({ quizIds })}
+          />
+          <RuleEditor
+            title={isRTL ? 'الدورات المكتملة' : 'Completed courses'}
+            icon={BookOpen}
+            rule={form.courseRule}
+            selectedIds={form.courseIds}
+            items={(courseData?.courses ?? []).map((course) => ({
+              id: course.id,
+              label: isRTL ? course.titleAr || course.titleEn : course.titleEn || course.titleAr,
+            }))}
+            onRuleChange={(courseRule) => update({ courseRule })}
+            onSelectedChange={(courseIds) => update({ courseIds })}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Template */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Palette className="w-5 h-5 text-violet-500" />
+            {isRTL ? 'قالب الشهادة' : 'Certificate template'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {textField('titleEn', isRTL ? 'العنوان (EN)' : 'Title (EN)')}
+            {textField('titleAr', isRTL ? 'العنوان (AR)' : 'Title (AR)', true)}
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{isRTL ? 'النص (EN)' : 'Text (EN)'}</label>
+              <Textarea value={template.bodyEn} onChange={(e) => updateTemplate({ bodyEn: e.target.value })} rows={3} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{isRTL ? 'النص (AR)' : 'Text (AR)'}</label>
+              <Textarea value={template.bodyAr} onChange={(e) => updateTemplate({ bodyAr: e.target.value })} rows={3} dir="rtl" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">
+            {isRTL ? 'المتغيرات المتاحة:' : 'Available placeholders:'}{' '}
+            <span dir="ltr" className="font-mono">{CERTIFICATE_PLACEHOLDERS.join(' ')}</span>
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {textField('signatoryName', isRTL ? 'اسم الموقّع (EN)' : 'Signatory name (EN)')}
+            {textField('signatoryNameAr', isRTL ? 'اسم الموقّع (AR)' : 'Signatory name (AR)', true)}
+            {textField('signatoryTitle', isRTL ? 'منصب الموقّع (EN)' : 'Signatory title (EN)')}
+            {textField('signatoryTitleAr', isRTL ? 'منصب الموقّع (AR)' : 'Signatory title (AR)', true)}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{isRTL ? 'لغة الشهادة' : 'Certificate language'}</label>
+              <Select
+                value={template.language}
+                onValueChange={(language) => updateTemplate({ language: language as CertificateLanguage })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">{isRTL ? 'العربية والإنجليزية' : 'Arabic and English'}</SelectItem>
+                  <SelectItem value="en">English</SelectItem>
+                  <SelectItem value="ar">العربية</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{isRTL ? 'اللون' : 'Accent color'}</label>
+              <Input
+                type="color"
+                value={template.accentColor}
+                onChange={(e) => updateTemplate({ accentColor: e.target.value })}
+                className="h-10 p-1"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 h-10">
+              <Switch checked={template.showScore} onCheckedChange={(showScore) => updateTemplate({ showScore })} />
+              {isRTL ? 'إظهار درجة الاختبار' : 'Show quiz score'}
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-400">
+            {isRTL
+              ? 'الشعار واسم المنظمة من إعدادات المنظمة. الشهادات الصادرة تحتفظ بالقالب الذي صدرت به.'
+              : 'Logo and name come from the organization settings. Issued certificates keep the template they were issued with.'}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 dark:text-white">{isRTL ? 'معاينة' : 'Preview'}</h3>
+            {pages.length > 1 && (
+              <div className="flex gap-1">
+                {pages.map((lang) => (
+                  <Button
+                    key={lang}
+                    variant={shownLang === lang ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setPreviewLang(lang)}
+                    className={cn(shownLang === lang && 'bg-violet-500 hover:bg-violet-600')}
+                  >
+                    {lang === 'ar' ? 'العربية' : 'English'}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="overflow-x-auto rounded-lg border bg-gray-100 dark:bg-gray-800 p-4">
+            <div className="shadow-lg w-fit mx-auto">
+              <CertificateDocument
+                template={template}
+                branding={branding}
+                content={sampleCertificateContent(shownLang === 'ar')}
+                verificationCode="ABCD-1234"
+                lang={shownLang}
+                scale={PREVIEW_SCALE}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end items-center gap-3">
+        {saved && (
+          <span className="text-sm text-green-600 flex items-center gap-1">
+            <CheckCircle className="w-4 h-4" />
+            {isRTL ? 'تم الحفظ' : 'Saved'}
+          </span>
+        )}
+        <Button onClick={handleSave} disabled={updateSettings.isPending} className="bg-violet-500 hover:bg-violet-600">
+          {updateSettings.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+          {isRTL ? 'حفظ الإعدادات' : 'Save Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+}
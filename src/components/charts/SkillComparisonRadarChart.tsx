@@ -0,0 +1,67 @@
+'use client';
+
+import {
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  Radar,
+  ResponsiveContainer,
+  Tooltip,
+  Legend,
+} from 'recharts';
+
+interface SkillComparisonData {
+  skill: string;
+  first: number;
+  second: number;
+}
+
+interface SkillComparisonRadarChartProps {
+  skills: SkillComparisonData[];
+  firstLabel: string;
+  secondLabel: string;
+  height?: number;
+}
+
+/** Two sessions' skill scores overlaid on one radar */
+export function SkillComparisonRadarChart({
+  skills,
+  firstLabel,
+  secondLabel,
+  height = 320,
+}: SkillComparisonRadarChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <RadarChart data={skills} margin={{ top: 20, right: 30, bottom: 20, left: 30 }}>
+        <PolarGrid stroke="#e2e8f0" />
+        <PolarAngleAxis dataKey="skill" tick={{ fill: '#64748b', fontSize: 11 }} tickLine={false} />
+        <PolarRadiusAxis
+          angle={30}
+          domain={[0, 100]}
+          tick={{ fill: '#94a3b8', fontSize: 10 }}
+          tickCount={5}
+          axisLine={false}
+        />
+        <Radar
+          name={firstLabel}
+          dataKey="first"
+          stroke="#94a3b8"
+          fill="#94a3b8"
+          fillOpacity={0.2}
+          strokeDasharray="5 5"
+        />
+        <Radar
+          name={secondLabel}
+          dataKey="second"
+          stroke="#6366f1"
+          fill="#6366f1"
+          fillOpacity={0.35}
+          strokeWidth={2}
+        />
+        <Tooltip />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+      </RadarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -13,6 +13,8 @@ import {
 
 interface SkillData {
   skill: string;
+  /** Axis label; defaults to the first word of `skill` */
+  shortLabel?: string;
   skillKey: string;
   averageScore: number | null;
   benchmark?: number;
@@ -33,7 +35,7 @@ export function SkillRadarChart({
 }: SkillRadarChartProps) {
   const formattedData = useMemo(() => {
     return skills.map((skill) => ({
-      subject: skill.skill.split(' ')[0], // Shorten for better display
+      subject: skill.shortLabel ?? skill.skill.split(' ')[0], // Shorten for better display
       fullName: skill.skill,
       score: skill.averageScore ?? 0,
       benchmark: skill.benchmark ?? 75,
@@ -0,0 +1,342 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import {
+  CARD_FIELDS,
+  DeckImportError,
+  guessColumnMapping,
+  importableCards,
+  parseDeckJSON,
+  parseDelimited,
+  positionalMapping,
+  rowsToCards,
+  type CardField,
+  type ColumnMapping,
+  type DeckMetadata,
+  type DelimitedFile,
+  type ImportIssueCode,
+  type ImportRow,
+} from '@/lib/flashcards/deck-transfer';
+import type { CreateCardInput } from '@/types/flashcard';
+import { Upload, FileSpreadsheet, AlertCircle, AlertTriangle, X, Check } from 'lucide-react';
+
+// Rows shown in the preview table; the counts always cover the whole file
+const PREVIEW_LIMIT = 50;
+
+const NOT_MAPPED = 'none';
+
+const FIELD_LABELS: Record<CardField, { en: string; ar: string; required?: boolean }> = {
+  front: { en: 'Front (EN)', ar: 'الوجه الأمامي (EN)', required: true },
+  frontAr: { en: 'Front (AR)', ar: 'الوجه الأمامي (AR)' },
+  back: { en: 'Back (EN)', ar: 'الوجه الخلفي (EN)', required: true },
+  backAr: { en: 'Back (AR)', ar: 'الوجه الخلفي (AR)' },
+  hint: { en: 'Hint (EN)', ar: 'التلميح (EN)' },
+  hintAr: { en: 'Hint (AR)', ar: 'التلميح (AR)' },
+};
+
+export interface DeckImportResult {
+  /** Deck details, only present for JSON imports */
+  deck: DeckMetadata | null;
+  cards: CreateCardInput[];
+}
+
+interface DeckImportPanelProps {
+  onImport: (result: DeckImportResult) => void;
+}
+
+export function DeckImportPanel({ onImport }: DeckImportPanelProps) {
+  const { isRTL } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // CSV / TSV / Anki text
+  const [file, setFile] = useState<DelimitedFile | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  // JSON
+  const [jsonDeck, setJsonDeck] = useState<DeckMetadata | null>(null);
+  const [jsonRows, setJsonRows] = useState<ImportRow[] | null>(null);
+
+  const issueLabels: Record<ImportIssueCode, string> = {
+    missing_front: isRTL ? 'الوجه الأمامي فارغ' : 'Missing front',
+    missing_back: isRTL ? 'الوجه الخلفي فارغ' : 'Missing back',
+    duplicate_front: isRTL ? 'بطاقة مكررة' : 'Duplicate card',
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setError(null);
+    setFile(null);
+    setMapping(null);
+    setJsonDeck(null);
+    setJsonRows(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (selected: File) => {
+    reset();
+    setFileName(selected.name);
+
+    try {
+      const text = await selected.text();
+
+      if (selected.name.toLowerCase().endsWith('.json')) {
+        const { deck, rows } = parseDeckJSON(text);
+        setJsonDeck(deck);
+        setJsonRows(rows);
+        return;
+      }
+
+      const parsed = parseDelimited(text);
+      // Anki exports name their columns in a header directive, not a header row
+      const headerMapping = guessColumnMapping(parsed.columns ?? parsed.rows[0] ?? []);
+      const headerRow = parsed.columns === null && headerMapping !== null;
+      setFile(parsed);
+      setHasHeader(headerRow);
+      setMapping(headerMapping ?? positionalMapping(parsed.rows[0]?.length ?? 0));
+    } catch (err) {
+      if (err instanceof DeckImportError) {
+        setError({
+          empty_file: isRTL ? 'الملف فارغ' : 'The file is empty',
+          invalid_json: isRTL ? 'ملف JSON غير صالح' : 'The file is not valid JSON',
+          unsupported_format: isRTL ? 'لا يحتوي الملف على مجموعة بطاقات' : 'The file does not contain a flashcard deck',
+        }[err.reason]);
+      } else {
+        console.error('Failed to read import file:', err);
+        setError(isRTL ? 'تعذرت قراءة الملف' : 'Could not read the file');
+      }
+    }
+  };
+
+  const rows = useMemo(() => {
+    if (jsonRows) return jsonRows;
+    if (!file || !mapping) return [];
+    return rowsToCards(file, mapping, hasHeader);
+  }, [jsonRows, file, mapping, hasHeader]);
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length;
+  const warningCount = rows.filter((row) => row.warnings.length > 0).length;
+  const validCount = rows.length - errorCount;
+
+  const columnOptions = useMemo(() => {
+    if (!file) return [];
+    const columnCount = Math.max(0, ...file.rows.slice(0, PREVIEW_LIMIT).map((row) => row.length));
+    const names = file.columns ?? (hasHeader ? file.rows[0] : null);
+    return Array.from({ length: columnCount }, (_, index) => {
+      const name = names?.[index]?.trim();
+      const column = isRTL ? `العمود ${index + 1}` : `Column ${index + 1}`;
+      return { value: String(index), label: name ? `${column}: ${name}` : column };
+    });
+  }, [file, hasHeader, isRTL]);
+
+  const handleConfirm = () => {
+    onImport({ deck: jsonDeck, cards: importableCards(rows) });
+    reset();
+  };
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-900/10">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+            <h3 className="font-semibold text-blue-900 dark:text-blue-200">
+              {isRTL ? 'استيراد بطاقات' : 'Import Cards'}
+            </h3>
+          </div>
+          {fileName && (
+            <Button variant="ghost" size="sm" onClick={reset}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,text/plain,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) handleFile(selected);
+          }}
+        />
+
+        {!fileName ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {isRTL ? 'اختر ملفاً' : 'Choose File'}
+            </Button>
+            <p className="text-sm text-gray-500">
+              {isRTL
+                ? 'CSV أو TSV أو ملف نصي من Anki أو JSON مُصدَّر من هذا التطبيق'
+                : 'CSV, TSV, Anki plain-text export, or a JSON deck exported from this app'}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">{fileName}</p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 p-3 text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Column mapping */}
+        {file && mapping && (
+          <div className="space-y-3">
+            {file.columns === null && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                {isRTL ? 'الصف الأول يحتوي على أسماء الأعمدة' : 'First row contains column names'}
+              </label>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {CARD_FIELDS.map((field) => (
+                <div key={field}>
+                  <label className="text-xs font-medium text-gray-500">
+                    {isRTL ? FIELD_LABELS[field].ar : FIELD_LABELS[field].en}
+                    {FIELD_LABELS[field].required && ' *'}
+                  </label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>{isRTL ? '— لا شيء —' : '— None —'}</SelectItem>
+                      {columnOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        {fileName && !error && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-green-100 text-green-700">
+                {isRTL ? `${validCount} بطاقة جاهزة` : `${validCount} ready`}
+              </Badge>
+              {errorCount > 0 && (
+                <Badge className="bg-red-100 text-red-700">
+                  {isRTL ? `${errorCount} سيتم تخطيها` : `${errorCount} will be skipped`}
+                </Badge>
+              )}
+              {warningCount > 0 && (
+                <Badge className="bg-amber-100 text-amber-700">
+                  {isRTL ? `${warningCount} تحذير` : `${warningCount} warning(s)`}
+                </Badge>
+              )}
+              {jsonDeck?.title && (
+                <Badge variant="outline">{jsonDeck.title}</Badge>
+              )}
+            </div>
+
+            {rows.length > 0 && (
+              <div className="max-h-80 overflow-auto rounded-lg border bg-white dark:bg-gray-900">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800">
+                    <tr className="text-gray-500">
+                      <th className="p-2 text-start">#</th>
+                      <th className="p-2 text-start">{isRTL ? 'الأمامي' : 'Front'}</th>
+                      <th className="p-2 text-start">{isRTL ? 'الخلفي' : 'Back'}</th>
+                      <th className="p-2 text-start">{isRTL ? 'الحالة' : 'Status'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr
+                        key={row.row}
+                        className={cn(
+                          'border-t align-top',
+                          row.errors.length > 0 && 'bg-red-50/60 dark:bg-red-900/10'
+                        )}
+                      >
+                        <td className="p-2 text-gray-400">{row.row}</td>
+                        <td className="p-2" dir="auto">
+                          {row.card.front}
+                          {row.card.frontAr && <div className="text-gray-400" dir="rtl">{row.card.frontAr}</div>}
+                        </td>
+                        <td className="p-2" dir="auto">
+                          {row.card.back}
+                          {row.card.backAr && <div className="text-gray-400" dir="rtl">{row.card.backAr}</div>}
+                        </td>
+                        <td className="p-2 space-y-1">
+                          {row.errors.map((code) => (
+                            <div key={code} className="flex items-center gap-1 text-red-600">
+                              <AlertCircle className="w-3 h-3" />
+                              {issueLabels[code]}
+                            </div>
+                          ))}
+                          {row.warnings.map((code) => (
+                            <div key={code} className="flex items-center gap-1 text-amber-600">
+                              <AlertTriangle className="w-3 h-3" />
+                              {issueLabels[code]}
+                            </div>
+                          ))}
+                          {row.errors.length === 0 && row.warnings.length === 0 && (
+                            <Check className="w-3 h-3 text-green-600" />
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length > PREVIEW_LIMIT && (
+                  <p className="p-2 text-center text-xs text-gray-400">
+                    {isRTL
+                      ? `يتم عرض أول ${PREVIEW_LIMIT} من ${rows.length}`
+                      : `Showing the first ${PREVIEW_LIMIT} of ${rows.length}`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>
+                {isRTL ? 'إلغاء' : 'Cancel'}
+              </Button>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={validCount === 0}
+                onClick={handleConfirm}
+              >
+                <Check className="w-4 h-4 mr-2" />
+                {isRTL ? `إضافة ${validCount} بطاقة` : `Add ${validCount} Card(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { Choice } from '@/lib/flashcards/multiple-choice';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface MultipleChoicePanelProps {
+  choices: Choice[];
+  /** Card id of the picked choice, null until the trainee answers */
+  selectedId: string | null;
+  onSelect: (choice: Choice) => void;
+}
+
+export function MultipleChoicePanel({ choices, selectedId, onSelect }: MultipleChoicePanelProps) {
+  const answered = selectedId !== null;
+
+  return (
+    <div className="grid gap-2">
+      {choices.map((choice, index) => {
+        const isSelected = choice.cardId === selectedId;
+        return (
+          <button
+            key={choice.cardId}
+            type="button"
+            disabled={answered}
+            onClick={() => onSelect(choice)}
+            className={cn(
+              'flex items-center gap-3 rounded-lg border p-3 text-start text-sm transition-colors',
+              !answered && 'hover:border-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/10',
+              answered && choice.isCorrect && 'border-green-500 bg-green-50 dark:bg-green-900/20',
+              answered && isSelected && !choice.isCorrect && 'border-red-500 bg-red-50 dark:bg-red-900/20',
+              answered && !isSelected && !choice.isCorrect && 'opacity-60'
+            )}
+          >
+            <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-gray-100 text-xs font-semibold dark:bg-gray-800">
+              {index + 1}
+            </span>
+            <span className="flex-1" dir="auto">{choice.text}</span>
+            {answered && choice.isCorrect && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+            {answered && isSelected && !choice.isCorrect && <XCircle className="w-4 h-4 text-red-600" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { StudyMode } from '@/types/flashcard';
+import { RotateCcw, ArrowLeftRight, Keyboard, ListChecks, Zap } from 'lucide-react';
+
+const MODES: { id: StudyMode; icon: React.ElementType; labelAr: string; labelEn: string }[] = [
+  { id: 'flip', icon: RotateCcw, labelAr: 'قلب البطاقة', labelEn: 'Flip' },
+  { id: 'reverse', icon: ArrowLeftRight, labelAr: 'عكسي', labelEn: 'Reverse' },
+  { id: 'typed', icon: Keyboard, labelAr: 'اكتب الإجابة', labelEn: 'Type answer' },
+  { id: 'multiple_choice', icon: ListChecks, labelAr: 'اختيار من متعدد', labelEn: 'Multiple choice' },
+  { id: 'cram', icon: Zap, labelAr: 'مراجعة سريعة', labelEn: 'Cram' },
+];
+
+interface StudyModeSelectorProps {
+  mode: StudyMode;
+  onChange: (mode: StudyMode) => void;
+  disabled?: boolean;
+}
+
+export function StudyModeSelector({ mode, onChange, disabled }: StudyModeSelectorProps) {
+  const { isRTL } = useLanguage();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {MODES.map(({ id, icon: Icon, labelAr, labelEn }) => (
+        <button
+          key={id}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(id)}
+          className={cn(
+            'flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-50',
+            mode === id
+              ? 'border-amber-500 bg-amber-500 text-white'
+              : 'border-gray-200 text-gray-600 hover:border-amber-300 dark:border-gray-700 dark:text-gray-300'
+          )}
+        >
+          <Icon className="w-3.5 h-3.5" />
+          {isRTL ? labelAr : labelEn}
+        </button>
+      ))}
+    </div>
+  );
+}
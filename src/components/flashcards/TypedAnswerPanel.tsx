@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { matchAnswer, type AnswerMatch } from '@/lib/flashcards/answer-matching';
+import { CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+
+interface TypedAnswerPanelProps {
+  /** Every accepted spelling of the answer (e.g. `back` and `backAr`) */
+  acceptedAnswers: Array<string | null>;
+  /** Called once the answer has been checked */
+  onChecked: (match: AnswerMatch) => void;
+  match: AnswerMatch | null;
+}
+
+const VERDICT_STYLES = {
+  correct: { icon: CheckCircle2, className: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400' },
+  close: { icon: AlertCircle, className: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400' },
+  incorrect: { icon: XCircle, className: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400' },
+};
+
+export function TypedAnswerPanel({ acceptedAnswers, onChecked, match }: TypedAnswerPanelProps) {
+  const { isRTL } = useLanguage();
+  const [answer, setAnswer] = useState('');
+
+  const handleCheck = () => {
+    if (!answer.trim() || match) return;
+    onChecked(matchAnswer(answer, acceptedAnswers));
+  };
+
+  if (match) {
+    const { icon: Icon, className } = VERDICT_STYLES[match.verdict];
+    const label = {
+      correct: isRTL ? 'إجابة صحيحة' : 'Correct',
+      close: isRTL ? 'قريبة جداً - تحقق من الإملاء' : 'Almost - check the spelling',
+      incorrect: isRTL ? 'إجابة غير صحيحة' : 'Not quite',
+    }[match.verdict];
+
+    return (
+      <div className={cn('flex items-center gap-2 rounded-lg p-3 text-sm', className)}>
+        <Icon className="w-4 h-4 shrink-0" />
+        <span className="font-medium">{label}</span>
+        <span className="opacity-75">— {answer}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        autoFocus
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleCheck();
+          }
+        }}
+        placeholder={isRTL ? 'اكتب إجابتك...' : 'Type your answer...'}
+        dir="auto"
+      />
+      <Button onClick={handleCheck} disabled={!answer.trim()} className="bg-amber-500 hover:bg-amber-600 text-white">
+        {isRTL ? 'تحقق' : 'Check'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  QUESTION_TYPES,
+  changeQuestionType,
+  emptyBankQuestion,
+  questionIssueMessage,
+  toBankQuestionInput,
+  validateQuestion,
+} from '@/lib/quiz/questions';
+import { QuestionAnswerEditor } from './QuestionAnswerEditor';
+import { TagInput } from './TagInput';
+import type { Course } from '@/lib/api/admin-courses.api';
+import type { BankQuestion, CreateBankQuestionInput, CreateQuestionInput, QuestionType } from '@/types/quiz';
+import { Loader2 } from 'lucide-react';
+
+const NO_COURSE = 'none';
+
+interface BankQuestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** null creates a new question */
+  question: BankQuestion | null;
+  courses: Course[];
+  tagSuggestions: string[];
+  onSave: (data: CreateBankQuestionInput) => Promise<void>;
+}
+
+export function BankQuestionDialog({
+  open,
+  onOpenChange,
+  question,
+  courses,
+  tagSuggestions,
+  onSave,
+}: BankQuestionDialogProps) {
+  const { t, isRTL } = useLanguage();
+  const [form, setForm] = useState<CreateBankQuestionInput>(emptyBankQuestion);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setForm(question ? toBankQuestionInput(question) : emptyBankQuestion());
+      setError('');
+    }
+  }, [open, question]);
+
+  // The shared builder helpers work on quiz questions; bank questions just have no position
+  const asQuizQuestion: CreateQuestionInput = { ...form, orderInQuiz: 0 };
+
+  const update = (updates: Partial<CreateBankQuestionInput>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const setQuestionType = (type: QuestionType) => {
+    setForm((prev) => {
+      const { orderInQuiz: _order, ...changed } = changeQuestionType({ ...prev, orderInQuiz: 0 }, type);
+      return { ...prev, ...changed };
+    });
+  };
+
+  const handleSave = async () => {
+    const issue = validateQuestion(asQuizQuestion);
+    if (issue) {
+      setError(questionIssueMessage(issue, isRTL));
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      await onSave({ ...form, topic: form.topic?.trim() || null });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : (isRTL ? 'فشل حفظ السؤال' : 'Failed to save question'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto" dir={isRTL ? 'rtl' : 'ltr'}>
+        <DialogHeader>
+          <DialogTitle>
+            {question ? (isRTL ? 'تعديل سؤال' : 'Edit Question') : (isRTL ? 'سؤال جديد' : 'New Question')}
+          </DialogTitle>
+          <DialogDescription>
+            {isRTL
+              ? 'تُسحب الأسئلة من البنك حسب الوسوم ومستوى الصعوبة'
+              : 'Quizzes draw bank questions by tag and difficulty'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label>{isRTL ? 'نوع السؤال' : 'Question type'}</Label>
+              <Select value={form.questionType ?? 'multiple_choice'} onValueChange={(v) => setQuestionType(v as QuestionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>{isRTL ? type.labelAr : type.labelEn}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>{t.quiz.difficulty}</Label>
+              <Select value={form.difficulty} onValueChange={(v) => update({ difficulty: v as CreateBankQuestionInput['difficulty'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">{t.quiz.easy}</SelectItem>
+                  <SelectItem value="medium">{t.quiz.medium}</SelectItem>
+                  <SelectItem value="hard">{t.quiz.hard}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>{isRTL ? 'النقاط' : 'Points'}</Label>
+              <Input
+                type="number"
+                min={1}
+                value={form.points ?? 1}
+                onChange={(e) => update({ points: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>{isRTL ? 'الدورة' : 'Course'}</Label>
+              <Select
+                value={form.courseId ?? NO_COURSE}
+                onValueChange={(v) => update({ courseId: v === NO_COURSE ? null : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COURSE}>{isRTL ? 'بدون دورة' : 'No course'}</SelectItem>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {isRTL ? course.titleAr || course.title : course.titleEn || course.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>{isRTL ? 'الموضوع' : 'Topic'}</Label>
+              <Input
+                value={form.topic || ''}
+                onChange={(e) => update({ topic: e.target.value })}
+                placeholder={isRTL ? 'مثل: التفاوض' : 'e.g. Negotiation'}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>{isRTL ? 'الوسوم' : 'Tags'}</Label>
+            <TagInput
+              id="bank-question-tags"
+              value={form.tags}
+              onChange={(tags) => update({ tags })}
+              suggestions={tagSuggestions}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              value={form.questionText}
+              onChange={(e) => update({ questionText: e.target.value })}
+              placeholder={isRTL ? 'نص السؤال بالإنجليزية' : 'Question text (EN)'}
+            />
+            <Input
+              value={form.questionTextAr || ''}
+              onChange={(e) => update({ questionTextAr: e.target.value })}
+              placeholder={isRTL ? 'نص السؤال بالعربية' : 'Question text (AR)'}
+              dir="rtl"
+            />
+          </div>
+
+          <QuestionAnswerEditor question={asQuizQuestion} onChange={(updates) => update(updates)} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              value={form.explanation || ''}
+              onChange={(e) => update({ explanation: e.target.value })}
+              placeholder={isRTL ? 'الشرح (اختياري) بالإنجليزية' : 'Explanation (optional, EN)'}
+            />
+            <Input
+              value={form.explanationAr || ''}
+              onChange={(e) => update({ explanationAr: e.target.value })}
+              placeholder={isRTL ? 'الشرح (اختياري) بالعربية' : 'Explanation (optional, AR)'}
+              dir="rtl"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            {t.common.cancel}
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading} className="bg-violet-500 hover:bg-violet-600">
+            {isLoading && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            {t.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
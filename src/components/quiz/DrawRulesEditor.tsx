@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useBankTags, useDrawPreview } from '@/hooks/useQuizQueries';
+import { drawnQuestionCount, emptyDrawRule } from '@/lib/quiz/questions';
+import { TagInput } from './TagInput';
+import type { QuestionDrawRule } from '@/types/quiz';
+import { Plus, Trash2, Shuffle, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface DrawRulesEditorProps {
+  rules: QuestionDrawRule[];
+  onChange: (rules: QuestionDrawRule[]) => void;
+  /** Receives the bank match count per rule once the preview loads */
+  onAvailableChange?: (available: number[] | undefined) => void;
+}
+
+/** Quiz builder section for bank quizzes: "draw N questions of this difficulty with these tags" */
+export function DrawRulesEditor({ rules, onChange, onAvailableChange }: DrawRulesEditorProps) {
+  const { t, isRTL } = useLanguage();
+  const { data: tags = [] } = useBankTags();
+
+  // Debounce the preview so typing a count doesn't fire a request per keystroke
+  const [previewRules, setPreviewRules] = useState(rules);
+  useEffect(() => {
+    const debounce = setTimeout(() => setPreviewRules(rules), 300);
+    return () => clearTimeout(debounce);
+  }, [rules]);
+  const preview = useDrawPreview(previewRules);
+  const available = previewRules === rules ? preview.data : undefined;
+
+  useEffect(() => {
+    onAvailableChange?.(available);
+  }, [available, onAvailableChange]);
+
+  const updateRule = (idx: number, updates: Partial<QuestionDrawRule>) => {
+    onChange(rules.map((rule, i) => (i === idx ? { ...rule, ...updates } : rule)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500 flex items-center gap-1.5">
+        <Shuffle className="w-4 h-4 text-violet-500" />
+        {isRTL
+          ? `يحصل كل متدرب على ${drawnQuestionCount(rules)} سؤالاً مختلفاً من بنك الأسئلة في كل محاولة`
+          : `Each attempt draws a fresh set of ${drawnQuestionCount(rules)} questions from the bank`}
+      </p>
+
+      {rules.map((rule, idx) => {
+        const matching = available?.[idx];
+        const short = matching !== undefined && matching < rule.count;
+        return (
+          <div key={idx} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="text-xs font-medium text-gray-500">{isRTL ? 'عدد الأسئلة' : 'Questions'}</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={rule.count}
+                  onChange={(e) => updateRule(idx, { count: parseInt(e.target.value) || 0 })}
+                  className="w-24"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium text-gray-500">{t.quiz.difficulty}</label>
+                <select
+                  value={rule.difficulty ?? ''}
+                  onChange={(e) => updateRule(idx, { difficulty: (e.target.value || null) as QuestionDrawRule['difficulty'] })}
+                  className="w-full mt-1 px-3 py-2 border rounded-md text-sm bg-white dark:bg-gray-800"
+                >
+                  <option value="">{isRTL ? 'أي مستوى' : 'Any'}</option>
+                  <option value="easy">{t.quiz.easy}</option>
+                  <option value="medium">{t.quiz.medium}</option>
+                  <option value="hard">{t.quiz.hard}</option>
+                </select>
+              </div>
+              <div className="flex-1" />
+              <span className={cn('text-xs flex items-center gap-1 pb-2', short ? 'text-red-600' : 'text-gray-400')}>
+                {preview.isFetching && matching === undefined ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : matching !== undefined && (
+                  <>
+                    {short && <AlertTriangle className="w-3.5 h-3.5" />}
+                    {isRTL ? `${matching} سؤال متاح` : `${matching} available`}
+                  </>
+                )}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(rules.filter((_, i) => i !== idx))}
+                disabled={rules.length <= 1}
+                className="text-gray-400 hover:text-red-500"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-500">
+                {isRTL ? 'الوسوم (يجب أن يحملها السؤال كلها)' : 'Tags (questions must have all of them)'}
+              </label>
+              <TagInput
+                id={`draw-rule-${idx}-tags`}
+                value={rule.tags ?? []}
+                onChange={(ruleTags) => updateRule(idx, { tags: ruleTags })}
+                suggestions={tags}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...rules, emptyDrawRule()])}>
+        <Plus className="w-4 h-4 mr-1" />
+        {isRTL ? 'إضافة قاعدة' : 'Add Rule'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { useQuizItemAnalysis } from '@/hooks/useQuizQueries';
+import { questionTypeLabel } from '@/lib/quiz/questions';
+import {
+  MIN_RESPONSES_FOR_FLAGS,
+  itemAnalysisToCSVRows,
+  itemFlagLabel,
+  itemFlags,
+  optionPickRate,
+} from '@/lib/quiz/item-analysis';
+import { downloadCSV } from '@/lib/utils/pdf-export';
+import type { QuestionItemStats } from '@/types/quiz';
+import {
+  Download,
+  Loader2,
+  BarChart3,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+} from 'lucide-react';
+
+interface ItemAnalysisPanelProps {
+  quizId: string;
+  quizTitle: string;
+}
+
+function formatIndex(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2);
+}
+
+function difficultyColor(value: number | null): string {
+  if (value === null) return 'text-gray-400';
+  if (value < 0.3) return 'text-red-600';
+  if (value > 0.9) return 'text-amber-600';
+  return 'text-green-600';
+}
+
+function discriminationColor(value: number | null): string {
+  if (value === null) return 'text-gray-400';
+  if (value < 0) return 'text-red-600';
+  if (value < 0.2) return 'text-amber-600';
+  return 'text-green-600';
+}
+
+/** Per-question statistics for a quiz, with option pick rates and review flags */
+export function ItemAnalysisPanel({ quizId, quizTitle }: ItemAnalysisPanelProps) {
+  const { t, isRTL } = useLanguage();
+  const { data: analysis, isPending, isError } = useQuizItemAnalysis(quizId);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleExport = () => {
+    if (!analysis) return;
+    const slug = quizTitle.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz';
+    downloadCSV(itemAnalysisToCSVRows(analysis), `${slug}-item-analysis.csv`);
+  };
+
+  const formatSeconds = (seconds: number | null) => {
+    if (seconds === null) return '-';
+    const rounded = Math.round(seconds);
+    return rounded >= 60 ? `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}` : `${rounded}s`;
+  };
+
+  const questionText = (item: QuestionItemStats) =>
+    isRTL && item.questionTextAr ? item.questionTextAr : item.questionText;
+
+  if (isPending) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  if (isError || !analysis || analysis.completedAttempts === 0 || analysis.questions.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <BarChart3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-500">
+          {isError
+            ? (isRTL ? 'تعذر تحميل التحليل' : 'Could not load the analysis')
+            : (isRTL ? 'لا توجد محاولات مكتملة للتحليل بعد' : 'No completed attempts to analyse yet')}
+        </h3>
+      </div>
+    );
+  }
+
+  const flaggedCount = analysis.questions.filter((item) => itemFlags(item).length > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">
+          {isRTL
+            ? `مبني على ${analysis.completedAttempts} محاولة مكتملة • ${flaggedCount} سؤال يحتاج مراجعة`
+            : `Based on ${analysis.completedAttempts} completed attempts • ${flaggedCount} questions need review`}
+        </p>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-1" />
+          {isRTL ? 'تصدير CSV' : 'Export CSV'}
+        </Button>
+      </div>
+
+      {analysis.completedAttempts < MIN_RESPONSES_FOR_FLAGS && (
+        <p className="text-xs text-gray-400">
+          {isRTL
+            ? `تظهر التنبيهات بعد ${MIN_RESPONSES_FOR_FLAGS} محاولات على الأقل`
+            : `Flags appear once a question has at least ${MIN_RESPONSES_FOR_FLAGS} responses`}
+        </p>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50 dark:bg-gray-800">
+                  <th className="px-4 py-3 text-start font-medium text-gray-500">{t.quiz.question}</th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-500" title={isRTL ? 'نسبة الإجابات الصحيحة' : 'Share of correct responses'}>
+                    {isRTL ? 'مؤشر الصعوبة' : 'Difficulty'}
+                  </th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-500" title={isRTL ? 'الفئة العليا ناقص الفئة الدنيا' : 'Top 27% minus bottom 27%'}>
+                    {isRTL ? 'مؤشر التمييز' : 'Discrimination'}
+                  </th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-500">{isRTL ? 'متوسط الوقت' : 'Avg time'}</th>
+                  <th className="px-4 py-3 text-start font-medium text-gray-500">{isRTL ? 'تنبيهات' : 'Flags'}</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.questions.map((item) => {
+                  const flags = itemFlags(item);
+                  const expanded = expandedId === item.questionId;
+                  return (
+                    <ItemRows
+                      key={item.questionId}
+                      item={item}
+                      flags={flags.map((flag) => itemFlagLabel(flag, isRTL))}
+                      expanded={expanded}
+                      onToggle={() => setExpandedId(expanded ? null : item.questionId)}
+                      questionText={questionText(item)}
+                      typeLabel={questionTypeLabel(item.questionType, isRTL)}
+                      avgTime={formatSeconds(item.avgTimeSeconds)}
+                    />
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface ItemRowsProps {
+  item: QuestionItemStats;
+  flags: string[];
+  expanded: boolean;
+  onToggle: () => void;
+  questionText: string;
+  typeLabel: string;
+  avgTime: string;
+}
+
+function ItemRows({ item, flags, expanded, onToggle, questionText, typeLabel, avgTime }: ItemRowsProps) {
+  const { isRTL } = useLanguage();
+  const hasOptions = item.options.length > 0;
+
+  return (
+    <>
+      <tr className={cn('border-b hover:bg-gray-50 dark:hover:bg-gray-800', hasOptions && 'cursor-pointer')} onClick={hasOptions ? onToggle : undefined}>
+        <td className="px-4 py-3 max-w-md">
+          <p className="font-medium text-gray-900 dark:text-white line-clamp-2">
+            {item.orderInQuiz + 1}. {questionText}
+          </p>
+          <p className="text-xs text-gray-400 mt-0.5">
+            {typeLabel} • {item.responseCount} {isRTL ? 'إجابة' : 'responses'}
+          </p>
+        </td>
+        <td className={cn('px-4 py-3 text-center font-semibold', difficultyColor(item.difficultyIndex))}>
+          {formatIndex(item.difficultyIndex)}
+        </td>
+        <td className={cn('px-4 py-3 text-center font-semibold', discriminationColor(item.discriminationIndex))}>
+          {formatIndex(item.discriminationIndex)}
+        </td>
+        <td className="px-4 py-3 text-center text-gray-500">{avgTime}</td>
+        <td className="px-4 py-3">
+          <div className="flex flex-wrap gap-1">
+            {flags.map((flag) => (
+              <Badge key={flag} variant="outline" className="text-xs text-amber-700 border-amber-200 bg-amber-50">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {flag}
+              </Badge>
+            ))}
+          </div>
+        </td>
+        <td className="px-4 py-3 text-gray-400">
+          {hasOptions && (expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="border-b bg-gray-50/50 dark:bg-gray-900/40">
+          <td colSpan={6} className="px-6 py-4">
+            <div className="space-y-2 max-w-2xl">
+              {item.options.map((option) => {
+                const rate = optionPickRate(item, option.timesChosen);
+                const unused = !option.isCorrect && option.timesChosen === 0;
+                return (
+                  <div key={option.optionId} className="flex items-center gap-3">
+                    <span className={cn(
+                      'flex items-center gap-1 w-1/2 truncate',
+                      option.isCorrect ? 'text-green-700 font-medium' : unused ? 'text-amber-700' : 'text-gray-700 dark:text-gray-300'
+                    )}>
+                      {option.isCorrect && <CheckCircle2 className="w-3.5 h-3.5 shrink-0" />}
+                      {isRTL && option.optionTextAr ? option.optionTextAr : option.optionText}
+                    </span>
+                    <div className="flex-1 h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className={cn('h-full rounded-full', option.isCorrect ? 'bg-green-500' : 'bg-gray-400')}
+                        style={{ width: `${Math.round(rate * 100)}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-end text-xs text-gray-500">
+                      {Math.round(rate * 100)}% ({option.timesChosen})
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { emptyOption, isSingleChoice } from '@/lib/quiz/questions';
+import type { CreateOptionInput, CreateQuestionInput } from '@/types/quiz';
+import {
+  Plus,
+  Trash2,
+  CheckCircle2,
+  Circle,
+  CheckSquare,
+  Square,
+  ChevronUp,
+  ChevronDown,
+  Sparkles,
+} from 'lucide-react';
+
+interface QuestionAnswerEditorProps {
+  question: CreateQuestionInput;
+  onChange: (updates: Partial<CreateQuestionInput>) => void;
+}
+
+function parseNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Answer section of the quiz builder: options, ordering steps, numeric answer or reference answer */
+export function QuestionAnswerEditor({ question, onChange }: QuestionAnswerEditorProps) {
+  const { t, isRTL } = useLanguage();
+  const type = question.questionType ?? 'multiple_choice';
+
+  const setOptions = (options: CreateOptionInput[]) => {
+    onChange({ options: options.map((o, i) => ({ ...o, orderInQuestion: i })) });
+  };
+
+  const updateOption = (oIdx: number, updates: Partial<CreateOptionInput>) => {
+    setOptions(question.options.map((o, i) => (i === oIdx ? { ...o, ...updates } : o)));
+  };
+
+  const toggleCorrect = (oIdx: number) => {
+    setOptions(question.options.map((o, i) => {
+      if (isSingleChoice(type)) return { ...o, isCorrect: i === oIdx };
+      return i === oIdx ? { ...o, isCorrect: !o.isCorrect } : o;
+    }));
+  };
+
+  const moveOption = (oIdx: number, direction: -1 | 1) => {
+    const target = oIdx + direction;
+    if (target < 0 || target >= question.options.length) return;
+    const next = [...question.options];
+    [next[oIdx], next[target]] = [next[target], next[oIdx]];
+    setOptions(next);
+  };
+
+  const addOption = () => {
+    setOptions([...question.options, { ...emptyOption(question.options.length), isCorrect: type === 'ordering' }]);
+  };
+
+  const removeOption = (oIdx: number) => {
+    if (question.options.length <= 2) return;
+    setOptions(question.options.filter((_, i) => i !== oIdx));
+  };
+
+  if (type === 'numeric') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="text-xs font-medium text-gray-500">{isRTL ? 'الإجابة الصحيحة' : 'Correct answer'} *</label>
+          <Input
+            type="number"
+            step="any"
+            value={question.numericAnswer ?? ''}
+            onChange={(e) => onChange({ numericAnswer: parseNumber(e.target.value) })}
+            placeholder="e.g. 25000"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-500">{isRTL ? 'هامش الخطأ المسموح (±)' : 'Tolerance (±)'}</label>
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            value={question.numericTolerance ?? ''}
+            onChange={(e) => onChange({ numericTolerance: parseNumber(e.target.value) })}
+            placeholder="0"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-500">{isRTL ? 'الوحدة' : 'Unit'}</label>
+          <Input
+            value={question.unit || ''}
+            onChange={(e) => onChange({ unit: e.target.value })}
+            placeholder={isRTL ? 'مثل: ريال، %' : 'e.g. SAR, %'}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (type === 'short_answer') {
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Textarea
+            value={question.referenceAnswer || ''}
+            onChange={(e) => onChange({ referenceAnswer: e.target.value })}
+            placeholder={isRTL ? 'الإجابة النموذجية بالإنجليزية' : 'Reference answer (EN)'}
+            rows={3}
+          />
+          <Textarea
+            value={question.referenceAnswerAr || ''}
+            onChange={(e) => onChange({ referenceAnswerAr: e.target.value })}
+            placeholder={isRTL ? 'الإجابة النموذجية بالعربية' : 'Reference answer (AR)'}
+            rows={3}
+            dir="rtl"
+          />
+        </div>
+        <p className="flex items-center gap-1 text-xs text-purple-600">
+          <Sparkles className="w-3.5 h-3.5" />
+          {isRTL
+            ? 'يقيّم الذكاء الاصطناعي إجابة المتدرب مقارنة بالإجابة النموذجية ويمنح درجة جزئية عند الحاجة'
+            : "The AI grades the trainee's answer against this reference and can award partial credit"}
+        </p>
+      </div>
+    );
+  }
+
+  const isOrdering = type === 'ordering';
+  const fixedOptions = type === 'true_false';
+
+  return (
+    <div className="space-y-2">
+      {isOrdering && (
+        <p className="text-xs text-gray-500">
+          {isRTL
+            ? 'أدخل الخطوات بالترتيب الصحيح؛ ستظهر للمتدرب بترتيب عشوائي'
+            : 'Enter the steps in the correct order; trainees see them shuffled'}
+        </p>
+      )}
+      {type === 'multi_select' && (
+        <p className="text-xs text-gray-500">
+          {isRTL
+            ? 'حدد كل الإجابات الصحيحة؛ يحصل المتدرب على درجة جزئية'
+            : 'Mark every correct option; trainees earn partial credit'}
+        </p>
+      )}
+
+      {question.options.map((opt, oIdx) => (
+        <div key={oIdx} className="flex items-center gap-2">
+          {isOrdering ? (
+            <div className="flex items-center shrink-0">
+              <span className="w-6 text-center text-sm font-semibold text-violet-600">{oIdx + 1}</span>
+              <div className="flex flex-col">
+                <button onClick={() => moveOption(oIdx, -1)} disabled={oIdx === 0} className="text-gray-400 hover:text-gray-600 disabled:opacity-30">
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => moveOption(oIdx, 1)} disabled={oIdx === question.options.length - 1} className="text-gray-400 hover:text-gray-600 disabled:opacity-30">
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => toggleCorrect(oIdx)} className="shrink-0" title={t.quiz.markCorrect}>
+              {type === 'multi_select' ? (
+                opt.isCorrect
+                  ? <CheckSquare className="w-5 h-5 text-green-500" />
+                  : <Square className="w-5 h-5 text-gray-300 hover:text-gray-400" />
+              ) : (
+                opt.isCorrect
+                  ? <CheckCircle2 className="w-5 h-5 text-green-500" />
+                  : <Circle className="w-5 h-5 text-gray-300 hover:text-gray-400" />
+              )}
+            </button>
+          )}
+          <Input
+            value={opt.optionText}
+            onChange={(e) => updateOption(oIdx, { optionText: e.target.value })}
+            placeholder={`${isOrdering ? (isRTL ? 'الخطوة' : 'Step') : (isRTL ? 'الخيار' : 'Option')} ${oIdx + 1} (EN)`}
+            className={cn('flex-1', !isOrdering && opt.isCorrect && 'border-green-300 bg-green-50')}
+          />
+          <Input
+            value={opt.optionTextAr || ''}
+            onChange={(e) => updateOption(oIdx, { optionTextAr: e.target.value })}
+            placeholder={`${isOrdering ? (isRTL ? 'الخطوة' : 'Step') : (isRTL ? 'الخيار' : 'Option')} ${oIdx + 1} (AR)`}
+            className="flex-1"
+            dir="rtl"
+          />
+          {(!fixedOptions || question.options.length > 2) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeOption(oIdx)}
+              disabled={question.options.length <= 2}
+              className="shrink-0 text-gray-400 hover:text-red-500"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {!fixedOptions && (
+        <Button variant="ghost" size="sm" onClick={addOption} className="text-violet-600">
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          {isOrdering ? (isRTL ? 'إضافة خطوة' : 'Add Step') : t.quiz.addOption}
+        </Button>
+      )}
+    </div>
+  );
+}
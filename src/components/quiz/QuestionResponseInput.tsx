@@ -0,0 +1,212 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { shuffle } from '@/lib/flashcards/multiple-choice';
+import type { QuizAnswer } from '@/lib/quiz/questions';
+import type { QuizOption, QuizQuestion } from '@/types/quiz';
+import { CheckCircle2, CheckSquare, Square, ChevronUp, ChevronDown, Check, Sparkles } from 'lucide-react';
+
+// Keep free-text answers short enough for the AI grader
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+const letters = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+interface QuestionResponseInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+}
+
+/** Answer input for the quiz taker; render with `key={question.id}` so local state resets per question */
+export function QuestionResponseInput({ question, answer, onChange }: QuestionResponseInputProps) {
+  const { isRTL } = useLanguage();
+  const optionText = (option: QuizOption) => (isRTL && option.optionTextAr ? option.optionTextAr : option.optionText);
+
+  switch (question.questionType) {
+    case 'multi_select': {
+      const selected = answer?.selectedOptionIds ?? [];
+      const toggle = (optionId: string) => {
+        onChange({
+          selectedOptionIds: selected.includes(optionId)
+            ? selected.filter((id) => id !== optionId)
+            : [...selected, optionId],
+        });
+      };
+      return (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">{isRTL ? 'اختر كل الإجابات الصحيحة' : 'Select all that apply'}</p>
+          {question.options.map((option) => {
+            const isSelected = selected.includes(option.id);
+            return (
+              <OptionButton key={option.id} selected={isSelected} onClick={() => toggle(option.id)}>
+                {isSelected ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                <span className="text-sm font-medium">{optionText(option)}</span>
+              </OptionButton>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'ordering':
+      return <OrderingInput question={question} answer={answer} onChange={onChange} optionText={optionText} />;
+
+    case 'numeric':
+      return <NumericInput question={question} answer={answer} onChange={onChange} />;
+
+    case 'short_answer': {
+      const text = answer?.textAnswer ?? '';
+      return (
+        <div className="space-y-2">
+          <Textarea
+            value={text}
+            onChange={(e) => onChange({ textAnswer: e.target.value.slice(0, MAX_TEXT_ANSWER_LENGTH) })}
+            placeholder={isRTL ? 'اكتب إجابتك هنا...' : 'Write your answer here...'}
+            rows={5}
+            dir="auto"
+          />
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span className="flex items-center gap-1">
+              <Sparkles className="w-3.5 h-3.5" />
+              {isRTL ? 'سيتم تقييم إجابتك بواسطة الذكاء الاصطناعي' : 'Your answer will be graded by AI'}
+            </span>
+            <span>{text.length}/{MAX_TEXT_ANSWER_LENGTH}</span>
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, idx) => {
+            const isSelected = answer?.selectedOptionId === option.id;
+            return (
+              <OptionButton key={option.id} selected={isSelected} onClick={() => onChange({ selectedOptionId: option.id })}>
+                <div className={cn(
+                  'shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold border-2 transition-all',
+                  isSelected
+                    ? 'bg-emerald-500 text-white border-emerald-500'
+                    : 'border-gray-300 text-gray-500'
+                )}>
+                  {isSelected ? <CheckCircle2 className="w-5 h-5" /> : letters[idx]}
+                </div>
+                <span className="text-sm font-medium">{optionText(option)}</span>
+              </OptionButton>
+            );
+          })}
+        </div>
+      );
+  }
+}
+
+function OptionButton({ selected, onClick, children }: { selected: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'w-full flex items-center gap-3 p-4 rounded-xl border-2 transition-all text-start',
+        selected
+          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-950 shadow-md text-emerald-700 dark:text-emerald-300'
+          : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function OrderingInput({
+  question,
+  answer,
+  onChange,
+  optionText,
+}: QuestionResponseInputProps & { optionText: (option: QuizOption) => string }) {
+  const { isRTL } = useLanguage();
+  // Steps start shuffled so the stored order never gives the answer away
+  const initialOrder = useMemo(() => shuffle(question.options.map((o) => o.id)), [question.options]);
+  const order = answer?.orderedOptionIds ?? initialOrder;
+  const confirmed = !!answer?.orderedOptionIds;
+  const optionsById = new Map(question.options.map((o) => [o.id, o]));
+
+  const move = (idx: number, direction: -1 | 1) => {
+    const target = idx + direction;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange({ orderedOptionIds: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {isRTL ? 'رتّب الخطوات بالترتيب الصحيح' : 'Arrange the steps in the correct order'}
+      </p>
+      {order.map((optionId, idx) => {
+        const option = optionsById.get(optionId);
+        if (!option) return null;
+        return (
+          <div
+            key={optionId}
+            className={cn(
+              'flex items-center gap-3 p-3 rounded-xl border-2',
+              confirmed ? 'border-emerald-300 bg-emerald-50/50 dark:bg-emerald-950/40' : 'border-gray-200 dark:border-gray-700'
+            )}
+          >
+            <span className="shrink-0 w-8 h-8 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center text-sm font-bold text-gray-600">
+              {idx + 1}
+            </span>
+            <span className="flex-1 text-sm font-medium text-gray-700 dark:text-gray-300">{optionText(option)}</span>
+            <div className="flex flex-col">
+              <button onClick={() => move(idx, -1)} disabled={idx === 0} className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => move(idx, 1)} disabled={idx === order.length - 1} className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {!confirmed && (
+        <Button variant="outline" size="sm" onClick={() => onChange({ orderedOptionIds: order })}>
+          <Check className="w-4 h-4 mr-1" />
+          {isRTL ? 'اعتماد هذا الترتيب' : 'Use this order'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function NumericInput({ question, answer, onChange }: QuestionResponseInputProps) {
+  const { isRTL } = useLanguage();
+  // Keep the raw text so partial input like "1." or "-" isn't swallowed
+  const [text, setText] = useState(
+    answer?.numericAnswer !== null && answer?.numericAnswer !== undefined ? String(answer.numericAnswer) : ''
+  );
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    onChange({ numericAnswer: value.trim() && Number.isFinite(parsed) ? parsed : null });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <Input
+        inputMode="decimal"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={isRTL ? 'أدخل الرقم' : 'Enter a number'}
+        className="max-w-xs text-lg"
+        dir="ltr"
+      />
+      {question.unit && <span className="text-sm font-medium text-gray-500">{question.unit}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { QuestionSource } from '@/types/quiz';
+import { ListChecks, Shuffle } from 'lucide-react';
+
+interface QuestionSourceToggleProps {
+  value: QuestionSource;
+  onChange: (source: QuestionSource) => void;
+}
+
+/** Choose between a fixed question list and per-attempt draws from the question bank */
+export function QuestionSourceToggle({ value, onChange }: QuestionSourceToggleProps) {
+  const { isRTL } = useLanguage();
+  const sources: { id: QuestionSource; icon: typeof Shuffle; label: string; hint: string }[] = [
+    {
+      id: 'fixed',
+      icon: ListChecks,
+      label: isRTL ? 'أسئلة ثابتة' : 'Fixed questions',
+      hint: isRTL ? 'كل المتدربين يجيبون على نفس الأسئلة' : 'Every trainee answers the same questions',
+    },
+    {
+      id: 'bank',
+      icon: Shuffle,
+      label: isRTL ? 'سحب من بنك الأسئلة' : 'Draw from question bank',
+      hint: isRTL ? 'ورقة مختلفة لكل محاولة' : 'A different paper for every attempt',
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {sources.map(({ id, icon: Icon, label, hint }) => (
+        <button
+          key={id}
+          onClick={() => onChange(id)}
+          className={cn(
+            'flex items-start gap-3 p-4 rounded-xl border-2 text-start transition-all',
+            value === id
+              ? 'border-violet-500 bg-violet-50 dark:bg-violet-950'
+              : 'border-gray-200 dark:border-gray-700 hover:border-gray-300'
+          )}
+        >
+          <Icon className={cn('w-5 h-5 mt-0.5 shrink-0', value === id ? 'text-violet-500' : 'text-gray-400')} />
+          <div>
+            <p className="font-medium text-sm text-gray-900 dark:text-white">{label}</p>
+            <p className="text-xs text-gray-500 mt-0.5">{hint}</p>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
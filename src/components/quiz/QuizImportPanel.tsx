@@ -0,0 +1,232 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { questionTypeLabel } from '@/lib/quiz/questions';
+import {
+  QuizImportError,
+  hasImportErrors,
+  importIssueLabel,
+  importableQuestions,
+  type ParsedQuizImport,
+} from '@/lib/quiz/import-report';
+import { parseQuizFile } from '@/lib/quiz/quiz-transfer';
+import type { CreateQuestionInput } from '@/types/quiz';
+import { Upload, FileText, AlertCircle, AlertTriangle, X, Check } from 'lucide-react';
+
+// Questions shown in the preview table; the counts always cover the whole file
+const PREVIEW_LIMIT = 50;
+
+export interface QuizImportResult {
+  /** QTI assessment title or GIFT category, when the file has one */
+  title: string | null;
+  questions: CreateQuestionInput[];
+}
+
+interface QuizImportPanelProps {
+  onImport: (result: QuizImportResult) => void;
+}
+
+/** Reads a GIFT or QTI file and reports what can't be imported before anything reaches the builder */
+export function QuizImportPanel({ onImport }: QuizImportPanelProps) {
+  const { t, isRTL } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedQuizImport | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setError(null);
+    setParsed(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (selected: File) => {
+    reset();
+    setFileName(selected.name);
+
+    try {
+      setParsed(parseQuizFile(selected.name, await selected.text()));
+    } catch (err) {
+      if (err instanceof QuizImportError) {
+        setError({
+          empty_file: isRTL ? 'الملف فارغ' : 'The file is empty',
+          invalid_xml: isRTL ? 'ملف XML غير صالح' : 'The file is not valid XML',
+          unsupported_format: isRTL
+            ? 'لا يحتوي الملف على أسئلة QTI (حزم الاختبارات غير مدعومة، استورد ملفات الأسئلة)'
+            : 'The file does not contain QTI questions (for test packages, import the item files)',
+          no_questions: isRTL ? 'لم يتم العثور على أسئلة' : 'No questions found in the file',
+        }[err.reason]);
+      } else {
+        console.error('Failed to read import file:', err);
+        setError(isRTL ? 'تعذرت قراءة الملف' : 'Could not read the file');
+      }
+    }
+  };
+
+  const items = parsed?.questions ?? [];
+  const errorCount = items.filter(hasImportErrors).length;
+  const warningCount = items.filter((item) => !hasImportErrors(item) && item.issues.length > 0).length;
+  const validCount = items.length - errorCount;
+
+  const handleConfirm = () => {
+    if (!parsed) return;
+    onImport({ title: parsed.title, questions: importableQuestions(items) });
+    reset();
+  };
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-900/10">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            <h3 className="font-semibold text-blue-900 dark:text-blue-200">
+              {isRTL ? 'استيراد أسئلة' : 'Import Questions'}
+            </h3>
+          </div>
+          {fileName && (
+            <Button variant="ghost" size="sm" onClick={reset}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gift,.txt,.xml,.qti,text/plain,application/xml,text/xml"
+          className="hidden"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) handleFile(selected);
+          }}
+        />
+
+        {!fileName ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {isRTL ? 'اختر ملفاً' : 'Choose File'}
+            </Button>
+            <p className="text-sm text-gray-500">
+              {isRTL
+                ? 'ملف GIFT من Moodle أو ملف QTI (1.2 أو 2.1) من Canvas أو Blackboard أو غيرها'
+                : 'Moodle GIFT, or QTI 1.2 / 2.1 XML from Canvas, Blackboard and other LMSs'}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {fileName}
+            {parsed && <span className="uppercase text-xs text-gray-400 ms-2">{parsed.format}</span>}
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 p-3 text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Validation report */}
+        {parsed && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-green-100 text-green-700">
+                {isRTL ? `${validCount} سؤال جاهز` : `${validCount} ready`}
+              </Badge>
+              {errorCount > 0 && (
+                <Badge className="bg-red-100 text-red-700">
+                  {isRTL ? `${errorCount} سيتم تخطيها` : `${errorCount} will be skipped`}
+                </Badge>
+              )}
+              {warningCount > 0 && (
+                <Badge className="bg-amber-100 text-amber-700">
+                  {isRTL ? `${warningCount} مع تحذيرات` : `${warningCount} with warnings`}
+                </Badge>
+              )}
+              {parsed.title && <Badge variant="outline">{parsed.title}</Badge>}
+            </div>
+
+            <div className="max-h-80 overflow-auto rounded-lg border bg-white dark:bg-gray-900">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800">
+                  <tr className="text-gray-500">
+                    <th className="p-2 text-start">#</th>
+                    <th className="p-2 text-start">{t.quiz.question}</th>
+                    <th className="p-2 text-start">{isRTL ? 'النوع' : 'Type'}</th>
+                    <th className="p-2 text-start">{isRTL ? 'الحالة' : 'Status'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.slice(0, PREVIEW_LIMIT).map((item) => (
+                    <tr
+                      key={item.source}
+                      className={cn('border-t align-top', hasImportErrors(item) && 'bg-red-50/60 dark:bg-red-900/10')}
+                    >
+                      <td className="p-2 text-gray-400">{item.source}</td>
+                      <td className="p-2 max-w-xs" dir="auto">
+                        {item.question?.questionText || item.title || '—'}
+                        {item.question?.questionTextAr && (
+                          <div className="text-gray-400" dir="rtl">{item.question.questionTextAr}</div>
+                        )}
+                      </td>
+                      <td className="p-2 whitespace-nowrap text-gray-500">
+                        {item.question ? questionTypeLabel(item.question.questionType, isRTL) : '—'}
+                      </td>
+                      <td className="p-2 space-y-1">
+                        {item.issues.map((issue) => (
+                          <div
+                            key={`${issue.code}-${issue.detail ?? ''}`}
+                            className={cn('flex items-start gap-1', issue.severity === 'error' ? 'text-red-600' : 'text-amber-600')}
+                          >
+                            {issue.severity === 'error'
+                              ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                              : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+                            <span>
+                              {importIssueLabel(issue.code, isRTL)}
+                              {issue.detail && <span className="text-gray-400"> ({issue.detail})</span>}
+                            </span>
+                          </div>
+                        ))}
+                        {item.issues.length === 0 && <Check className="w-3 h-3 text-green-600" />}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {items.length > PREVIEW_LIMIT && (
+                <p className="p-2 text-center text-xs text-gray-400">
+                  {isRTL
+                    ? `يتم عرض أول ${PREVIEW_LIMIT} من ${items.length}`
+                    : `Showing the first ${PREVIEW_LIMIT} of ${items.length}`}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={validCount === 0}
+                onClick={handleConfirm}
+              >
+                <Check className="w-4 h-4 mr-2" />
+                {isRTL ? `استيراد ${validCount} سؤال` : `Import ${validCount} Question(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { ResponseResult } from '@/types/quiz';
+import { CheckCircle2, XCircle, MinusCircle, Sparkles, Clock } from 'lucide-react';
+
+interface ResponseResultDetailProps {
+  response: ResponseResult;
+}
+
+type ResultOption = NonNullable<ResponseResult['options']>[number];
+
+/** Type-specific breakdown of a trainee's answer on the results page */
+export function ResponseResultDetail({ response }: ResponseResultDetailProps) {
+  const { isRTL } = useLanguage();
+  const options = response.options ?? [];
+  const optionsById = new Map(options.map((o) => [o.id, o]));
+  const optionText = (option: ResultOption | undefined) =>
+    option ? (isRTL && option.optionTextAr ? option.optionTextAr : option.optionText) : '—';
+
+  switch (response.questionType) {
+    case 'multi_select': {
+      const selected = new Set(response.selectedOptionIds ?? []);
+      const correct = new Set(response.correctOptionIds ?? []);
+      if (options.length === 0 || selected.size === 0) return null;
+      return (
+        <div className="space-y-1.5">
+          {options.map((option) => {
+            const isSelected = selected.has(option.id);
+            const isCorrect = correct.has(option.id);
+            if (!isSelected && !isCorrect) return null;
+            return (
+              <div
+                key={option.id}
+                className={cn(
+                  'flex items-center gap-2 text-sm p-2 rounded',
+                  isSelected && isCorrect && 'text-green-700 bg-green-50 dark:bg-green-950',
+                  isSelected && !isCorrect && 'text-red-600 bg-red-50 dark:bg-red-950',
+                  !isSelected && isCorrect && 'text-amber-700 bg-amber-50 dark:bg-amber-950'
+                )}
+              >
+                {isSelected && isCorrect && <CheckCircle2 className="w-4 h-4 shrink-0" />}
+                {isSelected && !isCorrect && <XCircle className="w-4 h-4 shrink-0" />}
+                {!isSelected && isCorrect && <MinusCircle className="w-4 h-4 shrink-0" />}
+                <span className="flex-1">{optionText(option)}</span>
+                <span className="text-xs opacity-75">
+                  {isSelected && isCorrect && (isRTL ? 'صحيح' : 'Correct')}
+                  {isSelected && !isCorrect && (isRTL ? 'غير صحيح' : 'Incorrect')}
+                  {!isSelected && isCorrect && (isRTL ? 'لم يتم اختياره' : 'Missed')}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const ordered = response.orderedOptionIds ?? [];
+      const correctOrder = response.correctOptionIds ?? [];
+      if (ordered.length === 0) return null;
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-gray-500">{isRTL ? 'ترتيبك' : 'Your order'}</p>
+            {ordered.map((optionId, idx) => {
+              const inPlace = correctOrder[idx] === optionId;
+              return (
+                <div
+                  key={optionId}
+                  className={cn(
+                    'flex items-center gap-2 p-2 rounded',
+                    inPlace ? 'text-green-700 bg-green-50 dark:bg-green-950' : 'text-red-600 bg-red-50 dark:bg-red-950'
+                  )}
+                >
+                  <span className="w-5 text-center font-semibold">{idx + 1}</span>
+                  <span className="flex-1">{optionText(optionsById.get(optionId))}</span>
+                  {inPlace ? <CheckCircle2 className="w-4 h-4 shrink-0" /> : <XCircle className="w-4 h-4 shrink-0" />}
+                </div>
+              );
+            })}
+          </div>
+          {correctOrder.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-gray-500">{isRTL ? 'الترتيب الصحيح' : 'Correct order'}</p>
+              {correctOrder.map((optionId, idx) => (
+                <div key={optionId} className="flex items-center gap-2 p-2 rounded bg-gray-50 dark:bg-gray-800">
+                  <span className="w-5 text-center font-semibold text-gray-500">{idx + 1}</span>
+                  <span className="flex-1">{optionText(optionsById.get(optionId))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case 'numeric': {
+      if (response.numericAnswer === null || response.numericAnswer === undefined) return null;
+      const unit = response.unit ? ` ${response.unit}` : '';
+      return (
+        <div className="space-y-1.5 text-sm">
+          <div className={cn(
+            'flex items-center gap-2 p-2 rounded',
+            response.isCorrect ? 'text-green-700 bg-green-50 dark:bg-green-950' : 'text-red-600 bg-red-50 dark:bg-red-950'
+          )}>
+            {response.isCorrect ? <CheckCircle2 className="w-4 h-4 shrink-0" /> : <XCircle className="w-4 h-4 shrink-0" />}
+            <span>{isRTL ? 'إجابتك' : 'Your answer'}: <span dir="ltr">{response.numericAnswer.toLocaleString()}{unit}</span></span>
+          </div>
+          {response.correctNumericAnswer !== null && response.correctNumericAnswer !== undefined && (
+            <p className="text-gray-600 dark:text-gray-400 px-2">
+              {isRTL ? 'الإجابة الصحيحة' : 'Correct answer'}:{' '}
+              <span dir="ltr">
+                {response.correctNumericAnswer.toLocaleString()}{unit}
+                {!!response.numericTolerance && ` (± ${response.numericTolerance.toLocaleString()})`}
+              </span>
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    case 'short_answer': {
+      if (!response.textAnswer) return null;
+      const feedback = isRTL && response.aiFeedbackAr ? response.aiFeedbackAr : response.aiFeedback;
+      const reference = isRTL && response.referenceAnswerAr ? response.referenceAnswerAr : response.referenceAnswer;
+      return (
+        <div className="space-y-2 text-sm">
+          <div className="p-3 rounded bg-gray-50 dark:bg-gray-800">
+            <p className="text-xs font-medium text-gray-500 mb-1">{isRTL ? 'إجابتك' : 'Your answer'}</p>
+            <p className="whitespace-pre-wrap" dir="auto">{response.textAnswer}</p>
+          </div>
+          {response.gradingStatus === 'pending' ? (
+            <div className="flex items-center gap-2 p-2 rounded text-gray-600 bg-gray-50 dark:bg-gray-800">
+              <Clock className="w-4 h-4 shrink-0" />
+              {isRTL ? 'جارٍ تقييم إجابتك بواسطة الذكاء الاصطناعي' : 'Your answer is still being graded by AI'}
+            </div>
+          ) : feedback && (
+            <div className="flex items-start gap-2 p-3 rounded text-purple-700 bg-purple-50 dark:bg-purple-950">
+              <Sparkles className="w-4 h-4 shrink-0 mt-0.5" />
+              <span>{feedback}</span>
+            </div>
+          )}
+          {reference && (
+            <div className="p-3 rounded border border-dashed border-gray-200 dark:border-gray-700">
+              <p className="text-xs font-medium text-gray-500 mb-1">{isRTL ? 'إجابة نموذجية' : 'Model answer'}</p>
+              <p className="whitespace-pre-wrap" dir="auto">{reference}</p>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    default: {
+      if (!response.selectedOptionId || response.selectedOptionId === response.correctOptionId) return null;
+      const selected = optionsById.get(response.selectedOptionId);
+      const correct = optionsById.get(response.correctOptionId);
+      return (
+        <div className="space-y-1.5 text-sm">
+          <div className="flex items-center gap-2 text-red-600 bg-red-50 dark:bg-red-950 p-2 rounded">
+            <XCircle className="w-4 h-4 shrink-0" />
+            <span>
+              {isRTL ? 'إجابتك' : 'Your answer'}: {selected ? optionText(selected) : (isRTL ? 'خطأ' : 'Incorrect')}
+            </span>
+          </div>
+          {correct && (
+            <div className="flex items-center gap-2 text-green-700 bg-green-50 dark:bg-green-950 p-2 rounded">
+              <CheckCircle2 className="w-4 h-4 shrink-0" />
+              <span>{isRTL ? 'الإجابة الصحيحة' : 'Correct answer'}: {optionText(correct)}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+  }
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { normalizeTag } from '@/lib/quiz/questions';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Existing bank tags offered as suggestions */
+  suggestions?: string[];
+  placeholder?: string;
+  id: string;
+}
+
+/** Free-form tag entry; Enter or comma adds a tag, Backspace on an empty field removes the last one */
+export function TagInput({ value, onChange, suggestions = [], placeholder, id }: TagInputProps) {
+  const { isRTL } = useLanguage();
+  const [draft, setDraft] = useState('');
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 text-xs">
+              {tag}
+              <button onClick={() => onChange(value.filter((t) => t !== tag))} className="hover:text-red-500">
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTag(draft)}
+        placeholder={placeholder ?? (isRTL ? 'أضف وسماً واضغط Enter' : 'Add a tag and press Enter')}
+        list={`${id}-suggestions`}
+      />
+      <datalist id={`${id}-suggestions`}>
+        {suggestions.filter((tag) => !value.includes(tag)).map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
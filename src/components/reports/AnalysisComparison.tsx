@@ -0,0 +1,310 @@
+'use client';
+
+/**
+ * Analysis Comparison
+ *
+ * Two analyses of the same scenario type side by side, earlier attempt first,
+ * so trainers and trainees can see whether the first attempt's advice was acted on.
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSimulationAnalysis } from '@/hooks/useSimulationQueries';
+import { SkillComparisonRadarChart } from '@/components/charts/SkillComparisonRadarChart';
+import { CONVERSATION_METRICS, changeVerdict } from '@/lib/simulation/comparison';
+import { criterionLabel, criterionResults } from '@/lib/simulation/rubrics';
+import type { SimulationHistoryRecord } from '@/lib/api/simulation.api';
+import type { KeyMoment } from '@/types/entities';
+import {
+  GitCompare,
+  X,
+  RefreshCw,
+  ArrowUp,
+  ArrowDown,
+  Minus,
+  CheckCircle2,
+  AlertCircle,
+  Target,
+  Lightbulb,
+} from 'lucide-react';
+
+interface AnalysisComparisonProps {
+  first: SimulationHistoryRecord;
+  second: SimulationHistoryRecord;
+  scope: 'trainee' | 'admin';
+  onClose: () => void;
+}
+
+const verdictStyles = {
+  improved: { icon: ArrowUp, className: 'text-green-600' },
+  declined: { icon: ArrowDown, className: 'text-red-600' },
+  unchanged: { icon: Minus, className: 'text-gray-400' },
+  neutral: { icon: Minus, className: 'text-blue-500' },
+};
+
+export function AnalysisComparison({ first, second, scope, onClose }: AnalysisComparisonProps) {
+  const { isRTL } = useLanguage();
+  const { data: firstAnalysis, isPending: loadingFirst, isError: firstError } = useSimulationAnalysis(first.id, scope);
+  const { data: secondAnalysis, isPending: loadingSecond, isError: secondError } = useSimulationAnalysis(second.id, scope);
+
+  const formatDate = (dateString: string | null) =>
+    dateString
+      ? new Date(dateString).toLocaleDateString(isRTL ? 'ar-SA' : 'en-US', { month: 'short', day: 'numeric' })
+      : '--';
+
+  const firstLabel = `${isRTL ? 'المحاولة 1' : 'Attempt 1'} · ${formatDate(first.completedAt)}`;
+  const secondLabel = `${isRTL ? 'المحاولة 2' : 'Attempt 2'} · ${formatDate(second.completedAt)}`;
+
+  const header = (
+    <CardHeader className="flex flex-row items-start justify-between gap-4">
+      <div>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-primary" />
+          {isRTL ? 'مقارنة جلستين' : 'Session Comparison'}
+        </CardTitle>
+        <CardDescription>
+          {firstLabel} {isRTL ? 'مقابل' : 'vs'} {secondLabel}
+        </CardDescription>
+      </div>
+      <Button variant="ghost" size="icon" onClick={onClose}>
+        <X className="h-4 w-4" />
+      </Button>
+    </CardHeader>
+  );
+
+  if (loadingFirst || loadingSecond) {
+    return (
+      <Card>
+        {header}
+        <CardContent className="py-12 text-center">
+          <RefreshCw className="h-6 w-6 animate-spin text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-500 text-sm">{isRTL ? 'جاري تحميل التحليلات...' : 'Loading analyses...'}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (firstError || secondError || !firstAnalysis || !secondAnalysis) {
+    return (
+      <Card>
+        {header}
+        <CardContent className="py-12 text-center text-gray-500 text-sm">
+          {isRTL ? 'تعذر تحميل تحليل إحدى الجلستين.' : 'Could not load the analysis of one of the sessions.'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Attempts scored against different rubrics only share some criteria; rows show every criterion
+  const firstCriteria = criterionResults(firstAnalysis);
+  const secondCriteria = criterionResults(secondAnalysis);
+  const criteria = [
+    ...secondCriteria,
+    ...firstCriteria.filter((c) => !secondCriteria.some((s) => s.key === c.key)),
+  ].map((c) => ({
+    key: c.key,
+    label: criterionLabel(c, isRTL),
+    before: firstCriteria.find((f) => f.key === c.key)?.score ?? null,
+    after: secondCriteria.find((s) => s.key === c.key)?.score ?? null,
+  }));
+  const radarData = criteria
+    .filter((c) => c.before !== null && c.after !== null)
+    .map((c) => ({ skill: c.label, first: c.before!, second: c.after! }));
+  const scoreChange = secondAnalysis.overallPerformance.score - firstAnalysis.overallPerformance.score;
+
+  return (
+    <Card>
+      {header}
+      <CardContent className="space-y-6">
+        {/* Overall */}
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-gray-500">{firstLabel}</p>
+            <p className="text-2xl font-bold text-gray-700">{Math.round(firstAnalysis.overallPerformance.score)}</p>
+            <Badge variant="outline" className="text-xs">{firstAnalysis.overallPerformance.grade}</Badge>
+          </div>
+          <div className="rounded-lg border p-3 flex flex-col items-center justify-center">
+            <p className="text-xs text-gray-500">{isRTL ? 'التغيير' : 'Change'}</p>
+            <p className={cn(
+              'text-2xl font-bold',
+              scoreChange > 0 ? 'text-green-600' : scoreChange < 0 ? 'text-red-600' : 'text-gray-500'
+            )}>
+              {scoreChange > 0 ? '+' : ''}{Math.round(scoreChange)}
+            </p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-gray-500">{secondLabel}</p>
+            <p className="text-2xl font-bold text-indigo-600">{Math.round(secondAnalysis.overallPerformance.score)}</p>
+            <Badge variant="outline" className="text-xs">{secondAnalysis.overallPerformance.grade}</Badge>
+          </div>
+        </div>
+
+        {/* Skills */}
+        <div className="grid gap-6 lg:grid-cols-2">
+          <SkillComparisonRadarChart skills={radarData} firstLabel={firstLabel} secondLabel={secondLabel} />
+          <div className="space-y-2">
+            {criteria.map(({ key, label, before, after }) => (
+              <ChangeRow
+                key={key}
+                label={label}
+                before={before === null ? '--' : String(Math.round(before))}
+                after={after === null ? '--' : String(Math.round(after))}
+                verdict={
+                  before === null || after === null
+                    ? 'neutral'
+                    : changeVerdict(Math.round(before), Math.round(after), 'higher')
+                }
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Conversation metrics */}
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">{isRTL ? 'مؤشرات المحادثة' : 'Conversation Metrics'}</h4>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {CONVERSATION_METRICS.map((metric) => {
+              const before = firstAnalysis.conversationAnalysis[metric.key];
+              const after = secondAnalysis.conversationAnalysis[metric.key];
+              return (
+                <ChangeRow
+                  key={metric.key}
+                  label={isRTL ? metric.labelAr : metric.labelEn}
+                  before={metric.format(before)}
+                  after={metric.format(after)}
+                  verdict={changeVerdict(before, after, metric.better)}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Advice from the first attempt */}
+        {firstAnalysis.recommendations.length > 0 && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50/40 p-4">
+            <h4 className="font-semibold text-amber-800 mb-2 flex items-center gap-2">
+              <Lightbulb className="h-4 w-4" />
+              {isRTL ? 'النصائح بعد المحاولة الأولى' : 'Advice after the first attempt'}
+            </h4>
+            <ul className="space-y-1 text-sm text-gray-700">
+              {firstAnalysis.recommendations.map((rec, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <Badge variant="outline" className="text-[10px] shrink-0 mt-0.5">{rec.priority}</Badge>
+                  <span>{rec.title}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Aligned moments */}
+        <MomentColumns
+          title={isRTL ? 'نقاط القوة' : 'Highlights'}
+          icon={CheckCircle2}
+          iconClassName="text-green-600"
+          first={firstAnalysis.highlights}
+          second={secondAnalysis.highlights}
+          firstLabel={firstLabel}
+          secondLabel={secondLabel}
+        />
+        <MomentColumns
+          title={isRTL ? 'مجالات التحسين' : 'Improvement Areas'}
+          icon={Target}
+          iconClassName="text-amber-600"
+          first={firstAnalysis.improvementAreas}
+          second={secondAnalysis.improvementAreas}
+          firstLabel={firstLabel}
+          secondLabel={secondLabel}
+        />
+        <MomentColumns
+          title={isRTL ? 'الفرص الضائعة' : 'Missed Opportunities'}
+          icon={AlertCircle}
+          iconClassName="text-red-600"
+          first={firstAnalysis.missedOpportunities}
+          second={secondAnalysis.missedOpportunities}
+          firstLabel={firstLabel}
+          secondLabel={secondLabel}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChangeRow({
+  label,
+  before,
+  after,
+  verdict,
+}: {
+  label: string;
+  before: string;
+  after: string;
+  verdict: ReturnType<typeof changeVerdict>;
+}) {
+  const { icon: Icon, className } = verdictStyles[verdict];
+  return (
+    <div className="flex items-center justify-between rounded-lg border bg-white px-3 py-2 text-sm">
+      <span className="text-gray-700">{label}</span>
+      <span className="flex items-center gap-2 font-medium">
+        <span className="text-gray-500">{before}</span>
+        <Icon className={cn('h-4 w-4', className)} />
+        <span className="text-gray-900">{after}</span>
+      </span>
+    </div>
+  );
+}
+
+function MomentColumns({
+  title,
+  icon: Icon,
+  iconClassName,
+  first,
+  second,
+  firstLabel,
+  secondLabel,
+}: {
+  title: string;
+  icon: React.ElementType;
+  iconClassName: string;
+  first: KeyMoment[];
+  second: KeyMoment[];
+  firstLabel: string;
+  secondLabel: string;
+}) {
+  const { isRTL } = useLanguage();
+  if (first.length === 0 && second.length === 0) return null;
+
+  const column = (moments: KeyMoment[], label: string) => (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+      {moments.length === 0 ? (
+        <p className="text-sm text-gray-400">{isRTL ? 'لا شيء' : 'None'}</p>
+      ) : (
+        moments.map((moment, index) => (
+          <div key={index} className="rounded-lg border bg-white p-2 text-sm text-gray-700">
+            {moment.description}
+            {moment.recommendation && <p className="text-xs text-gray-500 mt-1">{moment.recommendation}</p>}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+        <Icon className={cn('h-4 w-4', iconClassName)} />
+        {title}
+      </h4>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {column(first, firstLabel)}
+        {column(second, secondLabel)}
+      </div>
+    </div>
+  );
+}
+
+export default AnalysisComparison;
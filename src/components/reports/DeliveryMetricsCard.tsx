@@ -0,0 +1,183 @@
+'use client';
+
+/**
+ * Delivery Metrics Card
+ *
+ * How the trainee spoke during a voice session: pace, filler words,
+ * monologues, interruptions, silences and share of talk time, plus a
+ * who-spoke-when timeline of the call.
+ */
+
+import { cn } from '@/lib/utils';
+import { TARGET_WPM } from '@/lib/audio/delivery-metrics';
+import type { DeliveryMetrics, FillerCount } from '@/types/simulation.types';
+import { Mic } from 'lucide-react';
+
+interface DeliveryMetricsCardProps {
+  metrics: DeliveryMetrics;
+}
+
+// Talking longer than this without a pause for the client is a lecture
+const LONG_MONOLOGUE_SECONDS = 45;
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} ث`;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')} د`;
+}
+
+function paceLabel(wpm: number): { text: string; color: string } {
+  if (wpm === 0) return { text: 'غير متوفر', color: 'text-gray-500' };
+  if (wpm < TARGET_WPM.min) return { text: 'بطيء', color: 'text-yellow-600' };
+  if (wpm > TARGET_WPM.max) return { text: 'سريع', color: 'text-red-600' };
+  return { text: 'مناسب', color: 'text-green-600' };
+}
+
+function FillerChips({ fillers }: { fillers: FillerCount[] }) {
+  return (
+    <>
+      {fillers.map(({ word, count }) => (
+        <span key={word} className="text-xs bg-gray-100 text-gray-700 rounded-full px-2 py-0.5">
+          {word} × {count}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function DeliveryMetricsCard({ metrics }: DeliveryMetricsCardProps) {
+  const pace = paceLabel(metrics.wordsPerMinute);
+  const talkPercent = Math.round(metrics.talkTimeRatio * 100);
+  const durationMs = Math.max(
+    metrics.durationSeconds * 1000,
+    ...metrics.timeline.map((segment) => segment.endMs),
+    1
+  );
+  const toPercent = (ms: number) => `${Math.min(100, (ms / durationMs) * 100)}%`;
+
+  const lanes = [
+    { speaker: 'trainee' as const, label: 'المتدرب', color: 'bg-primary' },
+    { speaker: 'client' as const, label: 'العميل', color: 'bg-orange-400' },
+  ];
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+        <Mic className="h-4 w-4 text-primary" />
+        أسلوب الإلقاء
+      </h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="bg-white rounded-lg p-3 border">
+          <span className="text-sm text-gray-600">معدل الكلام</span>
+          <p className="font-bold text-lg text-gray-900">
+            {metrics.wordsPerMinute} <span className="text-xs font-normal text-gray-500">كلمة/دقيقة</span>
+          </p>
+          <p className={cn('text-xs', pace.color)}>
+            {pace.text} · المستهدف {TARGET_WPM.min}-{TARGET_WPM.max}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg p-3 border">
+          <span className="text-sm text-gray-600">كلمات الحشو</span>
+          <p className={cn('font-bold text-lg', metrics.fillers.total > 5 ? 'text-red-600' : 'text-gray-900')}>
+            {metrics.fillers.total}
+          </p>
+          {metrics.fillers.total > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              <FillerChips fillers={metrics.fillers.arabic} />
+              <FillerChips fillers={metrics.fillers.english} />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg p-3 border">
+          <span className="text-sm text-gray-600">أطول حديث متواصل</span>
+          <p className={cn(
+            'font-bold text-lg',
+            metrics.longestMonologueSeconds > LONG_MONOLOGUE_SECONDS ? 'text-yellow-600' : 'text-gray-900'
+          )}>
+            {formatSeconds(metrics.longestMonologueSeconds)}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg p-3 border">
+          <span className="text-sm text-gray-600">المقاطعات</span>
+          <p className={cn('font-bold text-lg', metrics.interruptions > 2 ? 'text-red-600' : 'text-gray-900')}>
+            {metrics.interruptions}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg p-3 border">
+          <span className="text-sm text-gray-600">فترات الصمت</span>
+          <p className="font-bold text-lg text-gray-900">{metrics.silenceGaps.count}</p>
+          {metrics.silenceGaps.count > 0 && (
+            <p className="text-xs text-gray-500">
+              المجموع {formatSeconds(metrics.silenceGaps.totalSeconds)} · الأطول {formatSeconds(metrics.silenceGaps.longestSeconds)}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg p-3 border">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-gray-600">نسبة وقت الحديث</span>
+            <span className="font-bold text-sm text-gray-900">{talkPercent}%</span>
+          </div>
+          <div className="h-2 bg-orange-200 rounded-full overflow-hidden">
+            <div className="h-full bg-primary rounded-full" style={{ width: `${talkPercent}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">المتدرب مقابل العميل</p>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      {metrics.timeline.length > 0 && (
+        <div className="bg-white rounded-lg p-3 border mt-3">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-gray-600">الخط الزمني للمكالمة</span>
+            <span className="text-xs text-gray-500">{formatSeconds(durationMs / 1000)}</span>
+          </div>
+          <div className="space-y-2" dir="ltr">
+            {lanes.map(({ speaker, label, color }) => (
+              <div key={speaker} className="flex items-center gap-2">
+                <span className="w-14 text-xs text-gray-500 text-right shrink-0">{label}</span>
+                <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                  {metrics.timeline
+                    .filter((segment) => segment.speaker === speaker)
+                    .map((segment, i) => (
+                      <div
+                        key={i}
+                        className={cn('absolute inset-y-0 rounded-sm', color)}
+                        style={{
+                          left: toPercent(segment.startMs),
+                          width: toPercent(segment.endMs - segment.startMs),
+                        }}
+                      />
+                    ))}
+                  {speaker === 'trainee' &&
+                    metrics.interruptionsAtMs.map((at, i) => (
+                      <div
+                        key={`interruption-${i}`}
+                        className="absolute -inset-y-1 w-0.5 bg-red-500"
+                        style={{ left: toPercent(at) }}
+                        title="مقاطعة"
+                      />
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          {metrics.interruptions > 0 && (
+            <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+              <span className="inline-block w-0.5 h-3 bg-red-500" />
+              مقاطعة للعميل
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DeliveryMetricsCard;
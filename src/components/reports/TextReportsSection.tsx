@@ -11,9 +11,15 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 import { exportChatTranscriptToPDF } from '@/lib/utils/pdf-export';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { adminApi } from '@/lib/api/admin.api';
+import { simulationApi, type SimulationHistoryRecord } from '@/lib/api/simulation.api';
+import { useUnreadFeedback, useMarkFeedbackRead } from '@/hooks/useAnnotationQueries';
+import { TranscriptReplay } from './TranscriptReplay';
+import { AnalysisComparison } from './AnalysisComparison';
 import {
   MessageSquare,
   Clock,
@@ -28,31 +34,11 @@ import {
   XCircle,
   Lightbulb,
   FileText,
-  User,
-  Bot,
+  MessageSquareText,
+  GitCompare,
 } from 'lucide-react';
 
-interface ConversationTurn {
-  id: string;
-  speaker: 'trainee' | 'client';
-  message: string;
-  timestamp: string;
-  sentiment?: string | null;
-}
-
-interface TextSession {
-  id: string;
-  traineeId: string;
-  scenarioType: string;
-  difficultyLevel: string;
-  status: string;
-  startedAt: string | null;
-  completedAt: string | null;
-  durationSeconds: number | null;
-  outcome: string | null;
-  metrics: string | null;
-  conversationTurns: ConversationTurn[];
-}
+type TextSession = SimulationHistoryRecord;
 
 interface ParsedMetrics {
   turnCount: number;
@@ -90,75 +76,36 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
   const [exportingId, setExportingId] = useState<string | null>(null);
   const [loadingTranscript, setLoadingTranscript] = useState<string | null>(null);
 
-  // Helper to get token
-  const getAuthToken = (): string | null => {
-    let token = localStorage.getItem('auth_token');
-    if (!token) {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        try {
-          const parsed = JSON.parse(authStorage);
-          token = parsed?.state?.token;
-          if (token) localStorage.setItem('auth_token', token);
-        } catch (e) {
-          console.error('Failed to parse auth-storage:', e);
-        }
-      }
-    }
-    return token;
-  };
+  // Trainer feedback the trainee has not opened yet; not relevant in the admin view
+  const { data: unreadFeedback = [] } = useUnreadFeedback(!traineeId);
+  const markFeedbackRead = useMarkFeedbackRead();
+
+  // Two sessions of the same scenario type picked for side-by-side comparison
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
 
   const fetchSessions = useCallback(async () => {
     setIsLoading(true);
     try {
-      const token = getAuthToken();
-
-      if (!token) {
-        // No token - silently return empty, user will be redirected by layout
-        setSessions([]);
-        return;
-      }
-
-      // FIXED: Use NEXT_PUBLIC_API_URL directly - it already includes /api
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
       // Use admin endpoint if traineeId is provided, otherwise use personal history
-      const url = traineeId
-        ? `${apiUrl}/admin/trainee/${traineeId}/simulations`
-        : `${apiUrl}/simulations/history`;
-
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        // For 401/403, silently return empty - user will be redirected
-        if (response.status === 401 || response.status === 403) {
-          setSessions([]);
-          return;
-        }
-        // For other errors, silently return empty (no error shown)
-        setSessions([]);
-        return;
-      }
-
-      const data = await response.json();
+      const data = traineeId
+        ? await adminApi.getTraineeSimulations(traineeId)
+        : await simulationApi.getReportHistory();
 
       // Filter only completed sessions
-      const completedSessions = (data.sessions || data || []).filter(
+      const completedSessions = (data.sessions || []).filter(
         (s: TextSession) => s.status === 'completed'
       );
       setSessions(completedSessions);
     } catch (err) {
-      // Network errors - silently fail, show empty state
+      // Auth and network errors - silently fail, show empty state
       console.error('[TextReportsSection] Failed to load:', err);
       setSessions([]);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [traineeId]);
 
   useEffect(() => {
     fetchSessions();
@@ -167,25 +114,7 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
   const fetchTranscript = async (sessionId: string) => {
     setLoadingTranscript(sessionId);
     try {
-      const token = getAuthToken();
-      if (!token) return;
-
-      // FIXED: Use NEXT_PUBLIC_API_URL directly - it already includes /api
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-      const response = await fetch(`${apiUrl}/simulations/${sessionId}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        // Silently fail - don't show error to user
-        return;
-      }
-
-      const data = await response.json();
+      const data = await simulationApi.getSessionRecord(sessionId);
 
       // Update the session with conversation turns
       setSessions(prev => prev.map(s =>
@@ -264,6 +193,32 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
     }
   };
 
+  const canSelectForCompare = (session: TextSession) => {
+    if (compareIds.includes(session.id)) return true;
+    if (compareIds.length >= 2) return false;
+    const picked = sessions.find(s => s.id === compareIds[0]);
+    return !picked || picked.scenarioType === session.scenarioType;
+  };
+
+  const handleToggleCompare = (session: TextSession) => {
+    if (compareIds.includes(session.id)) {
+      setCompareIds(prev => prev.filter(id => id !== session.id));
+    } else if (canSelectForCompare(session)) {
+      setCompareIds(prev => [...prev, session.id]);
+    }
+  };
+
+  const handleExitCompare = () => {
+    setCompareMode(false);
+    setCompareIds([]);
+    setShowComparison(false);
+  };
+
+  // Earlier attempt first, so the second shows what changed
+  const comparedSessions = sessions
+    .filter(s => compareIds.includes(s.id))
+    .sort((a, b) => (a.completedAt ?? '').localeCompare(b.completedAt ?? ''));
+
   const handleToggleExpand = async (sessionId: string) => {
     if (expandedSession === sessionId) {
       setExpandedSession(null);
@@ -271,6 +226,9 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
     }
 
     setExpandedSession(sessionId);
+    if (unreadFeedback.some(f => f.sessionId === sessionId)) {
+      markFeedbackRead.mutate(sessionId);
+    }
 
     // Check if we already have the transcript
     const session = sessions.find(s => s.id === sessionId);
@@ -440,12 +398,47 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
                 : 'Your text training session evaluations'}
             </CardDescription>
           </div>
-          <Button variant="outline" onClick={fetchSessions}>
-            <RefreshCw className={cn("h-4 w-4", isRTL ? "ml-2" : "mr-2")} />
-            {isRTL ? 'تحديث' : 'Refresh'}
-          </Button>
+          <div className="flex items-center gap-2">
+            {compareMode ? (
+              <>
+                <Button variant="ghost" onClick={handleExitCompare}>
+                  {isRTL ? 'إلغاء' : 'Cancel'}
+                </Button>
+                <Button disabled={compareIds.length !== 2} onClick={() => setShowComparison(true)}>
+                  <GitCompare className={cn("h-4 w-4", isRTL ? "ml-2" : "mr-2")} />
+                  {isRTL ? `قارن (${compareIds.length}/2)` : `Compare (${compareIds.length}/2)`}
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setCompareMode(true)} disabled={sessions.length < 2}>
+                <GitCompare className={cn("h-4 w-4", isRTL ? "ml-2" : "mr-2")} />
+                {isRTL ? 'مقارنة' : 'Compare'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={fetchSessions}>
+              <RefreshCw className={cn("h-4 w-4", isRTL ? "ml-2" : "mr-2")} />
+              {isRTL ? 'تحديث' : 'Refresh'}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
+          {compareMode && !showComparison && (
+            <p className="text-sm text-gray-500 mb-4">
+              {isRTL
+                ? 'اختر جلستين من نفس نوع السيناريو للمقارنة بينهما'
+                : 'Pick two sessions of the same scenario type to compare'}
+            </p>
+          )}
+          {showComparison && comparedSessions.length === 2 && (
+            <div className="mb-6">
+              <AnalysisComparison
+                first={comparedSessions[0]}
+                second={comparedSessions[1]}
+                scope={traineeId ? 'admin' : 'trainee'}
+                onClose={handleExitCompare}
+              />
+            </div>
+          )}
           {sessions.length === 0 ? (
             <div className="text-center py-12 text-gray-500">
               <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
@@ -465,6 +458,7 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
                 const isExpanded = expandedSession === session.id;
                 const score = metrics?.aiEvaluatedScore ?? metrics?.preliminaryScore ?? null;
                 const grade = metrics?.aiGrade ?? null;
+                const newFeedback = unreadFeedback.find(f => f.sessionId === session.id);
 
                 return (
                   <div
@@ -474,8 +468,17 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
                     {/* Session Header */}
                     <div
                       className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors gap-4"
-                      onClick={() => handleToggleExpand(session.id)}
+                      onClick={() => compareMode ? handleToggleCompare(session) : handleToggleExpand(session.id)}
                     >
+                      {compareMode && (
+                        <Checkbox
+                          checked={compareIds.includes(session.id)}
+                          disabled={!canSelectForCompare(session)}
+                          onClick={(e) => e.stopPropagation()}
+                          onCheckedChange={() => handleToggleCompare(session)}
+                        />
+                      )}
+
                       {/* Score Box */}
                       <div className={cn(
                         "w-16 h-16 rounded-xl flex items-center justify-center font-bold text-xl border flex-shrink-0",
@@ -495,6 +498,14 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
                               {grade}
                             </Badge>
                           )}
+                          {newFeedback && (
+                            <Badge className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 gap-1">
+                              <MessageSquareText className="h-3 w-3" />
+                              {isRTL
+                                ? `${newFeedback.commentCount} ملاحظات جديدة من ${newFeedback.lastAuthorName}`
+                                : `${newFeedback.commentCount} new notes from ${newFeedback.lastAuthorName}`}
+                            </Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400 mt-2 flex-wrap">
                           <span className="flex items-center gap-1.5 whitespace-nowrap">
@@ -588,48 +599,11 @@ export function TextReportsSection({ className, traineeId }: TextReportsSectionP
                               </p>
                             </div>
                           ) : session.conversationTurns && session.conversationTurns.length > 0 ? (
-                            <div className="space-y-3 max-h-96 overflow-y-auto">
-                              {session.conversationTurns.map((turn, index) => (
-                                <div
-                                  key={turn.id || index}
-                                  className={cn(
-                                    "flex gap-3",
-                                    turn.speaker === 'trainee' ? 'flex-row-reverse' : ''
-                                  )}
-                                >
-                                  <div className={cn(
-                                    "w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0",
-                                    turn.speaker === 'trainee'
-                                      ? 'bg-blue-100 text-blue-600'
-                                      : 'bg-gray-100 text-gray-600'
-                                  )}>
-                                    {turn.speaker === 'trainee' ? (
-                                      <User className="h-4 w-4" />
-                                    ) : (
-                                      <Bot className="h-4 w-4" />
-                                    )}
-                                  </div>
-                                  <div className={cn(
-                                    "flex-1 max-w-[80%]",
-                                    turn.speaker === 'trainee' ? 'text-right' : 'text-left'
-                                  )}>
-                                    <div className={cn(
-                                      "inline-block rounded-2xl px-4 py-2",
-                                      turn.speaker === 'trainee'
-                                        ? 'bg-blue-500 text-white rounded-tr-none'
-                                        : 'bg-gray-100 text-gray-900 rounded-tl-none'
-                                    )}>
-                                      <p className="text-sm whitespace-pre-wrap" dir={isRTL ? 'rtl' : 'ltr'}>
-                                        {turn.message}
-                                      </p>
-                                    </div>
-                                    <p className="text-xs text-gray-400 mt-1">
-                                      {new Date(turn.timestamp).toLocaleTimeString()}
-                                    </p>
-                                  </div>
-                                </div>
-                              ))}
-                            </div>
+                            <TranscriptReplay
+                              sessionId={session.id}
+                              turns={session.conversationTurns}
+                              scope={traineeId ? 'admin' : 'trainee'}
+                            />
                           ) : (
                             <div className="text-center py-8 text-gray-500">
                               <MessageSquare className="h-8 w-8 mx-auto mb-2 text-gray-300" />
@@ -0,0 +1,433 @@
+'use client';
+
+/**
+ * Transcript Replay
+ *
+ * Steps through a stored text simulation turn by turn. Trainers attach notes,
+ * tags and better responses to a turn; trainees read them and reply.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { cn } from '@/lib/utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  useTranscriptComments,
+  usePostTranscriptComment,
+  useDeleteTranscriptComment,
+  type AnnotationScope,
+} from '@/hooks/useAnnotationQueries';
+import { ANNOTATION_TAGS, annotationTagLabel, groupThreadsByTurn, isPositiveTag } from '@/lib/simulation/annotations';
+import type { SimulationHistoryRecord } from '@/lib/api/simulation.api';
+import type { AnnotationTag, TranscriptComment, TranscriptThread } from '@/types/simulation.types';
+import {
+  User,
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  MessageSquareText,
+  Lightbulb,
+  Send,
+  Trash2,
+  Loader2,
+} from 'lucide-react';
+
+type TranscriptTurn = SimulationHistoryRecord['conversationTurns'][number];
+
+interface TranscriptReplayProps {
+  sessionId: string;
+  turns: TranscriptTurn[];
+  scope: AnnotationScope;
+}
+
+export function TranscriptReplay({ sessionId, turns, scope }: TranscriptReplayProps) {
+  const { isRTL } = useLanguage();
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const { data: comments = [], isPending: loadingComments } = useTranscriptComments(sessionId, scope);
+  const threadsByTurn = useMemo(() => groupThreadsByTurn(comments), [comments]);
+  const annotatedCount = threadsByTurn.size;
+
+  useEffect(() => {
+    if (activeIndex === null) return;
+    turnRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex]);
+
+  const step = (delta: number) => {
+    setActiveIndex((prev) => {
+      const next = (prev ?? -1) + delta;
+      return Math.min(Math.max(next, 0), turns.length - 1);
+    });
+  };
+
+  const PrevIcon = isRTL ? ChevronRight : ChevronLeft;
+  const NextIcon = isRTL ? ChevronLeft : ChevronRight;
+
+  return (
+    <div className="space-y-3">
+      {/* Replay controls */}
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => step(-1)} disabled={!activeIndex}>
+            <PrevIcon className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-600 min-w-[90px] text-center">
+            {activeIndex === null
+              ? (isRTL ? 'ابدأ المراجعة' : 'Start replay')
+              : (isRTL ? `الدور ${activeIndex + 1} من ${turns.length}` : `Turn ${activeIndex + 1} of ${turns.length}`)}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => step(1)}
+            disabled={activeIndex !== null && activeIndex >= turns.length - 1}
+          >
+            <NextIcon className="h-4 w-4" />
+          </Button>
+        </div>
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          {loadingComments ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <MessageSquareText className="h-3.5 w-3.5" />
+          )}
+          {isRTL ? `${annotatedCount} أدوار عليها ملاحظات` : `${annotatedCount} turns with feedback`}
+        </span>
+      </div>
+
+      <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+        {turns.map((turn, index) => {
+          const threads = threadsByTurn.get(turn.id) ?? [];
+          const isActive = activeIndex === index;
+          const tags = threads.flatMap((t) => t.comment.tags);
+
+          return (
+            <div key={turn.id || index} ref={(el) => { turnRefs.current[index] = el; }}>
+              <div
+                className={cn(
+                  'flex gap-3 rounded-xl p-2 cursor-pointer transition-colors',
+                  turn.speaker === 'trainee' ? 'flex-row-reverse' : '',
+                  isActive ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'
+                )}
+                onClick={() => setActiveIndex(isActive ? null : index)}
+              >
+                <div className={cn(
+                  'w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0',
+                  turn.speaker === 'trainee' ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-600'
+                )}>
+                  {turn.speaker === 'trainee' ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                </div>
+                <div className={cn('flex-1 max-w-[80%]', turn.speaker === 'trainee' ? 'text-right' : 'text-left')}>
+                  <div className={cn(
+                    'inline-block rounded-2xl px-4 py-2',
+                    turn.speaker === 'trainee'
+                      ? 'bg-blue-500 text-white rounded-tr-none'
+                      : 'bg-gray-100 text-gray-900 rounded-tl-none'
+                  )}>
+                    <p className="text-sm whitespace-pre-wrap" dir={isRTL ? 'rtl' : 'ltr'}>
+                      {turn.message}
+                    </p>
+                  </div>
+                  <div className={cn(
+                    'flex items-center gap-2 mt-1 flex-wrap',
+                    turn.speaker === 'trainee' ? 'justify-end' : 'justify-start'
+                  )}>
+                    <span className="text-xs text-gray-400">{new Date(turn.timestamp).toLocaleTimeString()}</span>
+                    {threads.length > 0 && (
+                      <span className="text-xs text-amber-600 flex items-center gap-1">
+                        <MessageSquareText className="h-3 w-3" />
+                        {threads.length}
+                      </span>
+                    )}
+                    {tags.map((tag, tagIndex) => (
+                      <TagBadge key={`${tag}-${tagIndex}`} tag={tag} isRTL={isRTL} />
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {isActive && (
+                <TurnAnnotations
+                  sessionId={sessionId}
+                  turn={turn}
+                  threads={threads}
+                  scope={scope}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function TagBadge({ tag, isRTL }: { tag: AnnotationTag; isRTL: boolean }) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        'text-[10px] px-1.5 py-0',
+        isPositiveTag(tag) ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'
+      )}
+    >
+      {annotationTagLabel(tag, isRTL)}
+    </Badge>
+  );
+}
+
+interface TurnAnnotationsProps {
+  sessionId: string;
+  turn: TranscriptTurn;
+  threads: TranscriptThread[];
+  scope: AnnotationScope;
+}
+
+/** Threads on the selected turn, plus the note composer for trainers */
+function TurnAnnotations({ sessionId, turn, threads, scope }: TurnAnnotationsProps) {
+  const { isRTL } = useLanguage();
+  const postComment = usePostTranscriptComment(sessionId, scope);
+  const deleteComment = useDeleteTranscriptComment(sessionId);
+  const [body, setBody] = useState('');
+  const [tags, setTags] = useState<AnnotationTag[]>([]);
+  const [suggestedResponse, setSuggestedResponse] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<TranscriptComment | null>(null);
+
+  const isTrainer = scope === 'admin';
+
+  const toggleTag = (tag: AnnotationTag) => {
+    setTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const handleAddNote = async () => {
+    if (!body.trim()) return;
+    try {
+      await postComment.mutateAsync({
+        turnId: turn.id,
+        body: body.trim(),
+        tags,
+        suggestedResponse: suggestedResponse.trim() || undefined,
+      });
+      setBody('');
+      setTags([]);
+      setSuggestedResponse('');
+    } catch (err) {
+      console.error('Failed to add note:', err);
+      alert(err instanceof Error ? err.message : 'Failed to add note');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteComment.mutateAsync(deleteTarget.id);
+      setDeleteTarget(null);
+    } catch (err) {
+      console.error('Failed to delete note:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete note');
+    }
+  };
+
+  return (
+    <div className="mx-11 mt-2 mb-3 space-y-3">
+      {threads.length === 0 && !isTrainer && (
+        <p className="text-xs text-gray-500">
+          {isRTL ? 'لا توجد ملاحظات من المدرب على هذا الدور.' : 'No trainer feedback on this turn.'}
+        </p>
+      )}
+
+      {threads.map((thread) => (
+        <ThreadView
+          key={thread.comment.id}
+          sessionId={sessionId}
+          turnId={turn.id}
+          thread={thread}
+          scope={scope}
+          onDelete={isTrainer ? setDeleteTarget : undefined}
+        />
+      ))}
+
+      {isTrainer && (
+        <div className="rounded-xl border border-dashed border-gray-300 bg-white p-3 space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={2}
+            placeholder={isRTL ? 'اكتب ملاحظتك على هذا الدور...' : 'Write a note on this turn...'}
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {ANNOTATION_TAGS.map((tag) => {
+              const selected = tags.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTag(tag.id)}
+                  className={cn(
+                    'text-xs rounded-full border px-2.5 py-1 transition-colors',
+                    selected
+                      ? tag.positive
+                        ? 'bg-emerald-100 border-emerald-300 text-emerald-700'
+                        : 'bg-rose-100 border-rose-300 text-rose-700'
+                      : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                  )}
+                >
+                  {isRTL ? tag.labelAr : tag.labelEn}
+                </button>
+              );
+            })}
+          </div>
+          {turn.speaker === 'trainee' && (
+            <Textarea
+              value={suggestedResponse}
+              onChange={(e) => setSuggestedResponse(e.target.value)}
+              rows={2}
+              placeholder={isRTL ? 'رد أفضل مقترح (اختياري)' : 'Suggested better response (optional)'}
+            />
+          )}
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleAddNote} disabled={!body.trim() || postComment.isPending}>
+              {postComment.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className={cn('h-4 w-4', isRTL ? 'ml-2' : 'mr-2')} />
+              )}
+              {isRTL ? 'إضافة ملاحظة' : 'Add note'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isTrainer && (
+        <ConfirmationModal
+          open={!!deleteTarget}
+          onOpenChange={(open) => !open && setDeleteTarget(null)}
+          onConfirm={handleDelete}
+          title={isRTL ? 'حذف الملاحظة' : 'Delete Note'}
+          description={
+            isRTL
+              ? 'سيتم حذف الملاحظة وجميع الردود عليها.'
+              : 'The note and all replies to it will be deleted.'
+          }
+          confirmText={isRTL ? 'حذف' : 'Delete'}
+          variant="danger"
+          icon="delete"
+          isLoading={deleteComment.isPending}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ThreadViewProps {
+  sessionId: string;
+  turnId: string;
+  thread: TranscriptThread;
+  scope: AnnotationScope;
+  onDelete?: (comment: TranscriptComment) => void;
+}
+
+function ThreadView({ sessionId, turnId, thread, scope, onDelete }: ThreadViewProps) {
+  const { isRTL } = useLanguage();
+  const postComment = usePostTranscriptComment(sessionId, scope);
+  const [reply, setReply] = useState('');
+  const { comment, replies } = thread;
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    try {
+      await postComment.mutateAsync({ turnId, parentId: comment.id, body: reply.trim() });
+      setReply('');
+    } catch (err) {
+      console.error('Failed to post reply:', err);
+      alert(err instanceof Error ? err.message : 'Failed to post reply');
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50/40 p-3 space-y-2">
+      <CommentLine comment={comment} onDelete={onDelete} />
+      {comment.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {comment.tags.map((tag) => (
+            <TagBadge key={tag} tag={tag} isRTL={isRTL} />
+          ))}
+        </div>
+      )}
+      {comment.suggestedResponse && (
+        <div className="rounded-lg bg-emerald-50 border border-emerald-200 p-2">
+          <p className="text-xs font-medium text-emerald-700 flex items-center gap-1 mb-0.5">
+            <Lightbulb className="h-3.5 w-3.5" />
+            {isRTL ? 'رد أفضل مقترح' : 'Suggested better response'}
+          </p>
+          <p className="text-sm text-emerald-900 whitespace-pre-wrap">{comment.suggestedResponse}</p>
+        </div>
+      )}
+
+      {replies.length > 0 && (
+        <div className="space-y-2 border-s-2 border-amber-200 ps-3">
+          {replies.map((r) => (
+            <CommentLine key={r.id} comment={r} />
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          rows={1}
+          className="min-h-[36px] text-sm"
+          placeholder={isRTL ? 'اكتب رداً...' : 'Write a reply...'}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleReply}
+          disabled={!reply.trim() || postComment.isPending}
+        >
+          {postComment.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentLine({ comment, onDelete }: { comment: TranscriptComment; onDelete?: (comment: TranscriptComment) => void }) {
+  const { isRTL } = useLanguage();
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-gray-900">{comment.authorName}</span>
+        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+          {comment.authorRole === 'trainer' ? (isRTL ? 'المدرب' : 'Trainer') : (isRTL ? 'المتدرب' : 'Trainee')}
+        </Badge>
+        <span className="text-xs text-gray-400">
+          {new Date(comment.createdAt).toLocaleString(isRTL ? 'ar-SA' : 'en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </span>
+        {onDelete && (
+          <button
+            type="button"
+            onClick={() => onDelete(comment)}
+            className="ms-auto text-gray-400 hover:text-red-600"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      <p className="text-gray-700 whitespace-pre-wrap mt-0.5">{comment.body}</p>
+    </div>
+  );
+}
+
+export default TranscriptReplay;
@@ -11,6 +11,10 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
 import { generateVoiceReportPDF, VoiceReportData } from '@/lib/utils/voice-report-pdf';
+import { adminApi } from '@/lib/api/admin.api';
+import { elevenlabsApi, type VoiceSessionRecord } from '@/lib/api/elevenlabs.api';
+import { parseDeliveryMetrics } from '@/lib/audio/delivery-metrics';
+import { DeliveryMetricsCard } from './DeliveryMetricsCard';
 import {
   Phone,
   Clock,
@@ -29,20 +33,7 @@ import {
   Volume2,
 } from 'lucide-react';
 
-interface VoiceSession {
-  id: string;
-  conversationId: string;
-  traineeId: string;
-  startTime: string;
-  endTime: string;
-  duration: number;
-  durationSeconds: number;
-  transcript: string;
-  analysis: string;
-  overallScore: number;
-  status: string;
-  hasAudio: boolean;
-}
+type VoiceSession = VoiceSessionRecord;
 
 interface ParsedAnalysis {
   overallScore: number;
@@ -112,68 +103,22 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
-  // Helper to get token from multiple sources
-  const getAuthToken = (): string | null => {
-    let token = localStorage.getItem('auth_token');
-    if (!token) {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        try {
-          const parsed = JSON.parse(authStorage);
-          token = parsed?.state?.token;
-          if (token) localStorage.setItem('auth_token', token);
-        } catch (e) {
-          console.error('Failed to parse auth-storage:', e);
-        }
-      }
-    }
-    return token;
-  };
-
   const fetchSessions = useCallback(async () => {
     setIsLoading(true);
     try {
-      const token = getAuthToken();
-
-      if (!token) {
-        // No token - silently return empty, user will be redirected by layout
-        setSessions([]);
-        return;
-      }
-
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
       // Use admin endpoint if traineeId is provided, otherwise use personal history
-      const url = traineeId
-        ? `${apiUrl}/admin/trainee/${traineeId}/voice-sessions`
-        : `${apiUrl}/elevenlabs/history`;
-
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        // For 401/403, silently return empty - user will be redirected
-        if (response.status === 401 || response.status === 403) {
-          setSessions([]);
-          return;
-        }
-        // For other errors, silently return empty (no error shown)
-        setSessions([]);
-        return;
-      }
-
-      const data = await response.json();
+      const data = traineeId
+        ? await adminApi.getTraineeVoiceSessions(traineeId)
+        : await elevenlabsApi.getHistory();
       setSessions(data.sessions || []);
     } catch (err) {
-      // Network errors - silently fail, show empty state
+      // Auth and network errors - silently fail, show empty state
       console.error('[VoiceReportsSection] Failed to load:', err);
       setSessions([]);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [traineeId]);
 
   useEffect(() => {
     fetchSessions();
@@ -262,9 +207,6 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
   };
 
   const handlePlayAudio = async (session: VoiceSession) => {
-    const token = getAuthToken();
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
     // If already playing this session, pause it
     if (playingAudioId === session.id && audioRef.current) {
       audioRef.current.pause();
@@ -278,24 +220,11 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
     }
 
     try {
-      // Create audio element with authenticated URL
-      const audio = new Audio();
-      audio.src = `${apiUrl}/elevenlabs/sessions/${session.id}/audio`;
-
-      // Add authorization header via fetch and blob
-      const response = await fetch(`${apiUrl}/elevenlabs/sessions/${session.id}/audio`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('التسجيل غير متوفر');
-      }
-
-      const blob = await response.blob();
+      // Audio needs the auth header, so load it as a blob
+      const blob = await elevenlabsApi.getSessionAudio(session.id);
       const audioUrl = URL.createObjectURL(blob);
 
+      const audio = new Audio();
       audio.src = audioUrl;
       audio.onended = () => {
         setPlayingAudioId(null);
@@ -332,6 +261,7 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
         weaknesses: analysis.weaknesses,
         improvements: analysis.improvements,
         summary: analysis.summary,
+        delivery: parseDeliveryMetrics(session.deliveryMetrics),
       };
 
       await generateVoiceReportPDF(reportData);
@@ -457,6 +387,7 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
             <div className="space-y-4">
               {sessions.map((session) => {
                 const analysis = parseAnalysis(session.analysis);
+                const delivery = parseDeliveryMetrics(session.deliveryMetrics);
                 const isExpanded = expandedSession === session.id;
                 const sessionScore = safeNumber(session.overallScore, 0);
                 const sessionDuration = safeNumber(session.durationSeconds || session.duration, 0);
@@ -585,6 +516,9 @@ export function VoiceReportsSection({ className, traineeId }: VoiceReportsSectio
                           </div>
                         </div>
 
+                        {/* Speech Delivery */}
+                        {delivery && <DeliveryMetricsCard metrics={delivery} />}
+
                         {/* Strengths & Weaknesses */}
                         <div className="grid md:grid-cols-2 gap-4">
                           {/* Strengths */}
@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { User, UserCircle } from 'lucide-react';
 import type { Sentiment } from '@/types/entities';
 import { cn } from '@/lib/utils/cn';
+import { partyStyle, personaInitials } from '@/lib/simulation/parties';
 
 interface ConversationBubbleProps {
   speaker: 'trainee' | 'client';
@@ -13,6 +14,10 @@ interface ConversationBubbleProps {
   isLatest?: boolean;
   isTyping?: boolean;
   clientName?: string;
+  /** Shown next to the name in multi-party sessions, e.g. "Spouse" */
+  clientRole?: string | null;
+  /** Position among the session's parties; 0 is the primary client */
+  partyIndex?: number;
 }
 
 // Helper to detect if text contains Arabic characters
@@ -29,9 +34,12 @@ export function ConversationBubble({
   isLatest,
   isTyping,
   clientName,
+  clientRole,
+  partyIndex = 0,
 }: ConversationBubbleProps) {
   const isTrainee = speaker === 'trainee';
   const isArabic = isArabicText(message);
+  const party = partyStyle(partyIndex);
 
   // Get sentiment indicator color
   const getSentimentIndicator = () => {
@@ -54,8 +62,8 @@ export function ConversationBubble({
       {/* Client Avatar - Left side */}
       {!isTrainee && (
         <Avatar className="h-10 w-10 shrink-0 border-2 border-slate-200 dark:border-slate-700">
-          <AvatarFallback className="bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-700 dark:to-slate-800 text-slate-600 dark:text-slate-300">
-            <UserCircle className="h-5 w-5" />
+          <AvatarFallback className={cn('text-xs font-semibold', party.avatar)}>
+            {partyIndex > 0 && clientName ? personaInitials(clientName) : <UserCircle className="h-5 w-5" />}
           </AvatarFallback>
         </Avatar>
       )}
@@ -69,10 +77,12 @@ export function ConversationBubble({
         {!isTrainee && clientName && (
           <div className="flex items-center gap-2 mb-1 px-1">
             <span className={cn(
-              'text-xs font-medium text-slate-500 dark:text-slate-400',
+              'text-xs font-medium',
+              party.name,
               isArabic && 'font-arabic'
             )}>
               {clientName}
+              {clientRole && <span className="font-normal text-slate-400"> · {clientRole}</span>}
             </span>
             {getSentimentIndicator()}
           </div>
@@ -0,0 +1,87 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils/cn';
+import { listingFactLabel } from '@/lib/simulation/listings';
+import type { ListingFactAccuracy, ListingFactCheck } from '@/types/simulation.types';
+import { ClipboardCheck, CheckCircle2, XCircle, HelpCircle, AlertTriangle } from 'lucide-react';
+
+interface FactAccuracyCardProps {
+  factAccuracy: ListingFactAccuracy;
+  isArabic: boolean;
+}
+
+const verdictStyles: Record<ListingFactCheck['verdict'], { icon: React.ElementType; className: string }> = {
+  correct: { icon: CheckCircle2, className: 'text-emerald-500' },
+  incorrect: { icon: XCircle, className: 'text-red-500' },
+  unverifiable: { icon: HelpCircle, className: 'text-slate-400' },
+};
+
+/** How accurately the trainee quoted the listing's fact sheet */
+export function FactAccuracyCard({ factAccuracy, isArabic }: FactAccuracyCardProps) {
+  const { score, checks, unaddressedDefects } = factAccuracy;
+
+  return (
+    <Card className="border-slate-200/60 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-slate-800">
+          <div className="p-2 rounded-lg bg-sky-100">
+            <ClipboardCheck className="h-5 w-5 text-sky-600" />
+          </div>
+          {isArabic ? 'دقة معلومات العقار' : 'Listing Fact Accuracy'}
+          <span
+            className={cn(
+              'ms-auto text-lg font-bold',
+              score >= 80 ? 'text-emerald-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600'
+            )}
+          >
+            {Math.round(score)}%
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {checks.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {isArabic ? 'لم تذكر أي معلومات عن العقار خلال المحادثة.' : 'You did not quote any listing facts during the conversation.'}
+          </p>
+        ) : (
+          checks.map((check, index) => {
+            const { icon: Icon, className } = verdictStyles[check.verdict];
+            return (
+              <div key={index} className="flex items-start gap-3 p-3 rounded-xl bg-slate-50/50 border border-slate-200/60">
+                <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', className)} />
+                <div className="flex-grow min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{listingFactLabel(check.fact, isArabic)}</Badge>
+                    <span className="text-sm text-slate-700 truncate">&ldquo;{check.quoted}&rdquo;</span>
+                  </div>
+                  {check.verdict !== 'correct' && (
+                    <p className="text-xs text-slate-500">
+                      {isArabic ? 'في ملف العقار:' : 'Fact sheet:'} <span className="font-medium text-slate-700">{check.expected}</span>
+                    </p>
+                  )}
+                  {check.explanation && <p className="text-xs text-slate-500">{check.explanation}</p>}
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {unaddressedDefects.length > 0 && (
+          <div className="p-3 rounded-xl bg-amber-50/50 border border-amber-200/60">
+            <p className="text-sm font-medium text-amber-700 flex items-center gap-2 mb-1">
+              <AlertTriangle className="h-4 w-4" />
+              {isArabic ? 'عيوب أثارها العميل ولم تتم معالجتها' : 'Defects the client raised that you did not address'}
+            </p>
+            <ul className="list-disc ps-6 text-sm text-slate-600 space-y-0.5">
+              {unaddressedDefects.map((defect) => (
+                <li key={defect}>{defect}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
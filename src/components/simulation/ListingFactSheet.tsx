@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils/cn';
+import { formatListingPrice, listingLocation, listingTitle } from '@/lib/simulation/listings';
+import type { PropertyListing } from '@/types/simulation.types';
+import { Home, MapPin, Ruler, BedDouble, Bath, Wallet, AlertTriangle, Star } from 'lucide-react';
+
+interface ListingFactSheetProps {
+  listing: PropertyListing;
+  className?: string;
+}
+
+/** Fact sheet of the listing under discussion, shown next to the simulation chat */
+export function ListingFactSheet({ listing, className }: ListingFactSheetProps) {
+  const { isRTL } = useLanguage();
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const photo = listing.photos[photoIndex];
+
+  return (
+    <Card className={cn('flex flex-col overflow-hidden border-slate-200 dark:border-slate-800', className)}>
+      {photo ? (
+        <div>
+          <img src={photo} alt="" className="w-full h-40 object-cover" />
+          {listing.photos.length > 1 && (
+            <div className="flex gap-1 p-2 overflow-x-auto">
+              {listing.photos.map((url, index) => (
+                <button
+                  key={url}
+                  onClick={() => setPhotoIndex(index)}
+                  className={cn(
+                    'w-12 h-9 rounded overflow-hidden shrink-0 border-2',
+                    index === photoIndex ? 'border-blue-500' : 'border-transparent opacity-70'
+                  )}
+                >
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="h-24 bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
+          <Home className="w-8 h-8 text-slate-400" />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+        <div>
+          <h3 className="font-semibold text-foreground">{listingTitle(listing, isRTL)}</h3>
+          <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+            <MapPin className="w-3.5 h-3.5" />
+            {listingLocation(listing, isRTL)}
+          </p>
+          <p className="text-lg font-bold text-blue-600 mt-2">{formatListingPrice(listing, isRTL)}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg bg-slate-50 dark:bg-slate-800 p-2">
+            <Ruler className="w-4 h-4 mx-auto text-slate-500" />
+            <p className="font-medium mt-1">{listing.areaSqm} {isRTL ? 'م²' : 'm²'}</p>
+          </div>
+          <div className="rounded-lg bg-slate-50 dark:bg-slate-800 p-2">
+            <BedDouble className="w-4 h-4 mx-auto text-slate-500" />
+            <p className="font-medium mt-1">{listing.bedrooms ?? '-'}</p>
+          </div>
+          <div className="rounded-lg bg-slate-50 dark:bg-slate-800 p-2">
+            <Bath className="w-4 h-4 mx-auto text-slate-500" />
+            <p className="font-medium mt-1">{listing.bathrooms ?? '-'}</p>
+          </div>
+        </div>
+
+        {listing.highlights.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground flex items-center gap-1 mb-1">
+              <Star className="w-3.5 h-3.5" />
+              {isRTL ? 'المميزات' : 'Highlights'}
+            </p>
+            <ul className="list-disc ps-5 space-y-0.5 text-slate-700 dark:text-slate-300">
+              {listing.highlights.map((highlight) => (
+                <li key={highlight}>{highlight}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {listing.paymentPlans.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground flex items-center gap-1 mb-1">
+              <Wallet className="w-3.5 h-3.5" />
+              {isRTL ? 'خطط الدفع' : 'Payment plans'}
+            </p>
+            <div className="space-y-1.5">
+              {listing.paymentPlans.map((plan, index) => (
+                <div key={index} className="rounded-lg border border-slate-200 dark:border-slate-700 p-2">
+                  <p className="font-medium">{plan.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      plan.downPaymentPercent !== null &&
+                        (isRTL ? `دفعة أولى ${plan.downPaymentPercent}%` : `${plan.downPaymentPercent}% down`),
+                      plan.installmentYears !== null &&
+                        (isRTL ? `${plan.installmentYears} سنوات` : `${plan.installmentYears} years`),
+                      plan.notes,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {listing.knownDefects.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground flex items-center gap-1 mb-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {isRTL ? 'عيوب معروفة' : 'Known defects'}
+            </p>
+            <div className="space-y-1.5">
+              {listing.knownDefects.map((defect, index) => (
+                <div
+                  key={index}
+                  className="rounded-lg bg-amber-50 dark:bg-amber-950/20 border border-amber-100 dark:border-amber-900/40 p-2"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-amber-800 dark:text-amber-300">{defect.description}</p>
+                    <Badge
+                      variant="secondary"
+                      className={cn(
+                        'text-[10px] shrink-0',
+                        defect.severity === 'major' ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'
+                      )}
+                    >
+                      {defect.severity === 'major' ? (isRTL ? 'كبير' : 'Major') : (isRTL ? 'بسيط' : 'Minor')}
+                    </Badge>
+                  </div>
+                  {defect.resolution && (
+                    <p className="text-xs text-muted-foreground mt-1">{defect.resolution}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
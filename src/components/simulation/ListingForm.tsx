@@ -0,0 +1,362 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useUploadListingPhoto } from '@/hooks/useListingQueries';
+import { validateListing } from '@/lib/simulation/listings';
+import { linesToList, listToLines } from '@/lib/simulation/scenarios';
+import type { CreateListingInput, ListingDefect, ListingPaymentPlan } from '@/types/simulation.types';
+import { Save, Loader2, Home, ImagePlus, Wallet, AlertTriangle, Plus, Trash2, X } from 'lucide-react';
+
+interface ListingFormProps {
+  initial: CreateListingInput;
+  saving: boolean;
+  onSave: (data: CreateListingInput) => Promise<void>;
+}
+
+const EMPTY_PLAN: ListingPaymentPlan = { name: '', downPaymentPercent: null, installmentYears: null, notes: '' };
+const EMPTY_DEFECT: ListingDefect = { description: '', severity: 'minor', resolution: '' };
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function SectionTitle({ icon: Icon, children }: { icon: React.ElementType; children: React.ReactNode }) {
+  return (
+    <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+      <Icon className="w-5 h-5 text-sky-500" />
+      {children}
+    </h3>
+  );
+}
+
+/** Listing fact-sheet editor shared by the create and edit pages */
+export function ListingForm({ initial, saving, onSave }: ListingFormProps) {
+  const { isRTL } = useLanguage();
+  const uploadPhoto = useUploadListingPhoto();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [form, setForm] = useState<CreateListingInput>(initial);
+  const [highlights, setHighlights] = useState(listToLines(initial.highlights));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<CreateListingInput>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const parseNumber = (value: string) => {
+    const n = parseFloat(value);
+    return Number.isFinite(n) && n >= 0 ? n : null;
+  };
+
+  const updatePlan = (index: number, updates: Partial<ListingPaymentPlan>) =>
+    update({ paymentPlans: form.paymentPlans.map((p, i) => (i === index ? { ...p, ...updates } : p)) });
+  const updateDefect = (index: number, updates: Partial<ListingDefect>) =>
+    update({ knownDefects: form.knownDefects.map((d, i) => (i === index ? { ...d, ...updates } : d)) });
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    try {
+      const urls: string[] = [];
+      // One at a time; the upload endpoint takes a single file
+      for (let i = 0; i < files.length; i++) {
+        const { url } = await uploadPhoto.mutateAsync(files[i]);
+        urls.push(url);
+      }
+      setForm((prev) => ({ ...prev, photos: [...prev.photos, ...urls] }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload photo');
+    }
+  };
+
+  const handleSave = async () => {
+    const data: CreateListingInput = {
+      ...form,
+      title: form.title.trim(),
+      titleAr: form.titleAr?.trim() || null,
+      neighbourhood: form.neighbourhood.trim(),
+      city: form.city.trim(),
+      highlights: linesToList(highlights),
+      paymentPlans: form.paymentPlans.map((p) => ({ ...p, name: p.name.trim(), notes: p.notes.trim() })),
+      knownDefects: form.knownDefects.map((d) => ({
+        ...d,
+        description: d.description.trim(),
+        resolution: d.resolution.trim(),
+      })),
+    };
+    const problem = validateListing(data, isRTL);
+    setError(problem);
+    if (problem) return;
+    try {
+      await onSave(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save listing');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Facts */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={Home}>{isRTL ? 'بيانات العقار' : 'Property facts'}</SectionTitle>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label={isRTL ? 'العنوان (EN)' : 'Title (EN)'}>
+              <Input value={form.title} onChange={(e) => update({ title: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'العنوان (AR)' : 'Title (AR)'}>
+              <Input value={form.titleAr ?? ''} onChange={(e) => update({ titleAr: e.target.value })} dir="rtl" />
+            </Field>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Field label={isRTL ? 'نوع العقار' : 'Property type'}>
+              <Input
+                value={form.propertyType}
+                onChange={(e) => update({ propertyType: e.target.value })}
+                placeholder={isRTL ? 'فيلا، شقة...' : 'Villa, apartment...'}
+              />
+            </Field>
+            <Field label={isRTL ? 'السعر' : 'Price'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.price || ''}
+                onChange={(e) => update({ price: parseNumber(e.target.value) ?? 0 })}
+              />
+            </Field>
+            <Field label={isRTL ? 'العملة' : 'Currency'}>
+              <Input value={form.currency} onChange={(e) => update({ currency: e.target.value.toUpperCase() })} />
+            </Field>
+            <Field label={isRTL ? 'المساحة (م²)' : 'Area (m²)'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.areaSqm || ''}
+                onChange={(e) => update({ areaSqm: parseNumber(e.target.value) ?? 0 })}
+              />
+            </Field>
+            <Field label={isRTL ? 'غرف النوم' : 'Bedrooms'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.bedrooms ?? ''}
+                onChange={(e) => update({ bedrooms: parseNumber(e.target.value) })}
+              />
+            </Field>
+            <Field label={isRTL ? 'دورات المياه' : 'Bathrooms'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.bathrooms ?? ''}
+                onChange={(e) => update({ bathrooms: parseNumber(e.target.value) })}
+              />
+            </Field>
+            <Field label={isRTL ? 'الحي' : 'Neighbourhood'}>
+              <Input value={form.neighbourhood} onChange={(e) => update({ neighbourhood: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'المدينة' : 'City'}>
+              <Input value={form.city} onChange={(e) => update({ city: e.target.value })} />
+            </Field>
+          </div>
+          <Field label={isRTL ? 'المميزات (واحدة في كل سطر)' : 'Highlights (one per line)'}>
+            <Textarea value={highlights} onChange={(e) => setHighlights(e.target.value)} rows={3} />
+          </Field>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <Switch checked={form.isActive} onCheckedChange={(isActive) => update({ isActive })} />
+            {isRTL ? 'متاح للمتدربين' : 'Available to trainees'}
+          </label>
+        </CardContent>
+      </Card>
+
+      {/* Photos */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={ImagePlus}>{isRTL ? 'الصور' : 'Photos'}</SectionTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadPhoto.isPending}
+            >
+              {uploadPhoto.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+              {isRTL ? 'إضافة صور' : 'Add photos'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={handlePhotoSelect}
+            />
+          </div>
+          {form.photos.length === 0 ? (
+            <p className="text-sm text-gray-400">{isRTL ? 'لا توجد صور' : 'No photos yet'}</p>
+          ) : (
+            <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+              {form.photos.map((url) => (
+                <div key={url} className="relative group rounded-lg overflow-hidden border aspect-[4/3]">
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => update({ photos: form.photos.filter((p) => p !== url) })}
+                    className="absolute top-1 end-1 p-1 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment plans */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={Wallet}>{isRTL ? 'خطط الدفع' : 'Payment plans'}</SectionTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ paymentPlans: [...form.paymentPlans, { ...EMPTY_PLAN }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {isRTL ? 'إضافة خطة' : 'Add plan'}
+            </Button>
+          </div>
+          {form.paymentPlans.map((plan, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_2fr_auto] gap-3 items-end">
+              <Field label={isRTL ? 'الاسم' : 'Name'}>
+                <Input
+                  value={plan.name}
+                  onChange={(e) => updatePlan(index, { name: e.target.value })}
+                  placeholder={isRTL ? 'تمويل بنكي' : 'Bank mortgage'}
+                />
+              </Field>
+              <Field label={isRTL ? 'الدفعة الأولى %' : 'Down payment %'}>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={plan.downPaymentPercent ?? ''}
+                  onChange={(e) => updatePlan(index, { downPaymentPercent: parseNumber(e.target.value) })}
+                />
+              </Field>
+              <Field label={isRTL ? 'السنوات' : 'Years'}>
+                <Input
+                  type="number"
+                  min={0}
+                  value={plan.installmentYears ?? ''}
+                  onChange={(e) => updatePlan(index, { installmentYears: parseNumber(e.target.value) })}
+                />
+              </Field>
+              <Field label={isRTL ? 'ملاحظات' : 'Notes'}>
+                <Input value={plan.notes} onChange={(e) => updatePlan(index, { notes: e.target.value })} />
+              </Field>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ paymentPlans: form.paymentPlans.filter((_, i) => i !== index) })}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Known defects */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={AlertTriangle}>{isRTL ? 'عيوب معروفة' : 'Known defects'}</SectionTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ knownDefects: [...form.knownDefects, { ...EMPTY_DEFECT }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {isRTL ? 'إضافة عيب' : 'Add defect'}
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500">
+            {isRTL
+              ? 'قد يثير العميل هذه العيوب أثناء المحاكاة، ويُقيَّم رد المتدرب مقارنة بالرد المقترح.'
+              : "The client may raise these during the simulation; the trainee's answer is graded against the suggested response."}
+          </p>
+          {form.knownDefects.map((defect, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_2fr_auto] gap-3 items-end">
+              <Field label={isRTL ? 'الوصف' : 'Description'}>
+                <Input
+                  value={defect.description}
+                  onChange={(e) => updateDefect(index, { description: e.target.value })}
+                  placeholder={isRTL ? 'تسرب في سقف المطبخ' : 'Leak in the kitchen ceiling'}
+                />
+              </Field>
+              <Field label={isRTL ? 'الخطورة' : 'Severity'}>
+                <Select
+                  value={defect.severity}
+                  onValueChange={(v) => updateDefect(index, { severity: v as ListingDefect['severity'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minor">{isRTL ? 'بسيط' : 'Minor'}</SelectItem>
+                    <SelectItem value="major">{isRTL ? 'كبير' : 'Major'}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </Field>
+              <Field label={isRTL ? 'الرد المقترح' : 'Suggested response'}>
+                <Input
+                  value={defect.resolution}
+                  onChange={(e) => updateDefect(index, { resolution: e.target.value })}
+                  placeholder={isRTL ? 'المالك يتحمل تكلفة الإصلاح قبل التسليم' : 'Owner repairs it before handover'}
+                />
+              </Field>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ knownDefects: form.knownDefects.filter((_, i) => i !== index) })}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving || uploadPhoto.isPending} className="bg-sky-500 hover:bg-sky-600">
+          {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+          {isRTL ? 'حفظ العقار' : 'Save Listing'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@
  * Naming: "Live Client Call" for real estate professional training market positioning.
  */
 
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useRef } from 'react';
 import { useConversation } from '@elevenlabs/react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -18,6 +18,13 @@ import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { useLanguage } from '@/contexts/LanguageContext';
 import type { SimulationScenarioType, DifficultyLevel } from '@/types';
+import type { LiveTurnInput } from '@/types/simulation.types';
+import { ApiError } from '@/lib/api/client';
+import { elevenlabsApi, type VoicePerformanceAnalysis } from '@/lib/api/elevenlabs.api';
+import { useTraineeLiveChannel } from '@/hooks/useLiveQueries';
+import { useCallDelivery } from '@/hooks/useCallDelivery';
+import { useConversationDevices } from '@/hooks/useAudioDevices';
+import { PreCallCheck } from './PreCallCheck';
 import {
   Phone,
   PhoneOff,
@@ -30,31 +37,9 @@ import {
   TrendingUp,
   Clock,
   Award,
+  GraduationCap,
 } from 'lucide-react';
 
-// Helper function to get auth token
-function getAuthToken(): string | null {
-  if (typeof window !== 'undefined') {
-    const directToken = localStorage.getItem('auth_token');
-    if (directToken) return directToken;
-
-    const authStorage = localStorage.getItem('auth-storage');
-    if (authStorage) {
-      try {
-        const parsed = JSON.parse(authStorage);
-        const token = parsed?.state?.token;
-        if (token) {
-          localStorage.setItem('auth_token', token);
-          return token;
-        }
-      } catch (e) {
-        console.error('[LiveClientCall] Failed to parse auth-storage:', e);
-      }
-    }
-  }
-  return null;
-}
-
 interface LiveClientCallProps {
   scenarioType: SimulationScenarioType;
   difficultyLevel: DifficultyLevel;
@@ -62,21 +47,7 @@ interface LiveClientCallProps {
   onBack: () => void;
 }
 
-interface PerformanceAnalysis {
-  overallScore: number;
-  breakdown: {
-    opening: number;
-    needsDiscovery: number;
-    objectionHandling: number;
-    persuasion: number;
-    closing: number;
-    communication: number;
-  };
-  strengths: string[];
-  weaknesses: string[];
-  improvements: string[];
-  summary: string;
-}
+type PerformanceAnalysis = VoicePerformanceAnalysis;
 
 type CallStatus = 'idle' | 'connecting' | 'active' | 'ending' | 'analyzing' | 'complete' | 'setup_required';
 
@@ -93,6 +64,25 @@ export function LiveClientCall({
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<PerformanceAnalysis | null>(null);
   const [callDuration, setCallDuration] = useState(0);
+  const [checkingDevices, setCheckingDevices] = useState(false);
+  // Simulation session trainers observe the call under; null until linked or when linking failed
+  const [liveSessionId, setLiveSessionId] = useState<string | null>(null);
+  // Hints from a trainer observing the call (shown on screen only) and the channel the turns go out on
+  const { whispers, sendTurn } = useTraineeLiveChannel(callStatus === 'active' ? liveSessionId : null);
+  const latestWhisper = whispers[whispers.length - 1];
+  // Turns said before the session is linked, sent once it is
+  const unsentTurnsRef = useRef<LiveTurnInput[]>([]);
+  const sendTurnRef = useRef(sendTurn);
+  sendTurnRef.current = sendTurn;
+
+  useEffect(() => {
+    if (!liveSessionId) return;
+    unsentTurnsRef.current.forEach((turn) => sendTurn(turn));
+    unsentTurnsRef.current = [];
+  }, [liveSessionId, sendTurn]);
+
+  // Speech delivery (pace, fillers, interruptions...) saved with the session
+  const delivery = useCallDelivery();
 
   // ElevenLabs conversation hook - uses the SAME service as voice-training
   const conversation = useConversation({
@@ -109,7 +99,15 @@ export function LiveClientCall({
     },
     onMessage: (message) => {
       console.log('[LiveClientCall] Message:', message);
+      delivery.onMessage(message);
+      const turn: LiveTurnInput = {
+        speaker: message.role === 'user' ? 'trainee' : 'client',
+        message: message.message,
+        timestamp: new Date().toISOString(),
+      };
+      if (!sendTurnRef.current(turn)) unsentTurnsRef.current.push(turn);
     },
+    onModeChange: delivery.onModeChange,
     onError: (error) => {
       console.error('[LiveClientCall] Error:', error);
       setError(`خطأ في الاتصال: ${error}`);
@@ -117,6 +115,9 @@ export function LiveClientCall({
     },
   });
 
+  // Chosen microphone/speaker; follows device changes during the call
+  const callDevices = useConversationDevices(conversation, callStatus === 'active');
+
   // Timer for call duration
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
@@ -136,79 +137,65 @@ export function LiveClientCall({
       setCallStatus('connecting');
       setError(null);
       setCallDuration(0);
+      setLiveSessionId(null);
+      unsentTurnsRef.current = [];
 
-      const token = getAuthToken();
-      if (!token) {
-        throw new Error('يرجى تسجيل الدخول أولاً');
-      }
-
-      // Sync token
-      localStorage.setItem('auth_token', token);
-
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${apiUrl}/elevenlabs/signed-url`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-
-        if (response.status === 401) {
-          throw new Error('جلسة المصادقة انتهت - يرجى تسجيل الدخول مرة أخرى');
-        }
-
-        if (errorData.message?.includes('permission') || errorData.message?.includes('create agent')) {
-          setCallStatus('setup_required');
-          return;
+      let signedUrl: string;
+      let agentId: string;
+      try {
+        ({ signedUrl, agentId } = await elevenlabsApi.getSignedUrl());
+      } catch (err) {
+        if (err instanceof ApiError) {
+          if (err.status === 401) {
+            throw new Error('جلسة المصادقة انتهت - يرجى تسجيل الدخول مرة أخرى');
+          }
+          if (err.message?.includes('permission') || err.message?.includes('create agent')) {
+            setCallStatus('setup_required');
+            return;
+          }
         }
-
-        throw new Error(errorData.message || 'فشل بدء المكالمة');
+        throw err;
       }
-
-      const { signedUrl, agentId } = await response.json();
       console.log('[LiveClientCall] Got signed URL for agent:', agentId);
 
       // Start ElevenLabs conversation - SAME as voice-training
       const conversationId = await conversation.startSession({
         signedUrl,
+        ...callDevices,
       });
 
       setCurrentConversationId(conversationId);
+      delivery.begin(conversation.getInputVolume);
       console.log('[LiveClientCall] Started conversation:', conversationId);
+
+      // The call goes on unobserved if it can't be linked
+      elevenlabsApi
+        .startLiveSession(conversationId, { scenarioType, difficultyLevel })
+        .then(({ sessionId }) => setLiveSessionId(sessionId))
+        .catch(() => {
+          unsentTurnsRef.current = [];
+        });
     } catch (err) {
       console.error('[LiveClientCall] Failed to start call:', err);
       setError(err instanceof Error ? err.message : 'فشل بدء المكالمة');
       setCallStatus('idle');
     }
-  }, [conversation]);
+  }, [conversation, delivery, callDevices, scenarioType, difficultyLevel]);
 
   // End call - uses the SAME backend endpoint as voice-training
   const handleEndCall = useCallback(async () => {
     try {
       setCallStatus('ending');
+      const deliveryMetrics = delivery.finish();
       await conversation.endSession();
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
       if (currentConversationId) {
         setCallStatus('analyzing');
 
-        const token = getAuthToken();
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-        const response = await fetch(`${apiUrl}/elevenlabs/conversations/${currentConversationId}/save`, {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        if (!response.ok) {
+        const result = await elevenlabsApi.saveConversation(currentConversationId, deliveryMetrics).catch(() => {
           throw new Error('فشل حفظ المكالمة');
-        }
-
-        const result = await response.json();
+        });
         setAnalysis(result.analysis);
         setCallStatus('complete');
       } else {
@@ -219,7 +206,7 @@ export function LiveClientCall({
       setError(err instanceof Error ? err.message : 'فشل حفظ المكالمة');
       setCallStatus('idle');
     }
-  }, [conversation, currentConversationId]);
+  }, [conversation, currentConversationId, delivery]);
 
   // Format duration
   const formatDuration = (seconds: number) => {
@@ -251,6 +238,7 @@ export function LiveClientCall({
     setCallStatus('idle');
     setAnalysis(null);
     setCurrentConversationId(null);
+    setLiveSessionId(null);
     setCallDuration(0);
     setError(null);
   };
@@ -418,6 +406,18 @@ export function LiveClientCall({
 
   // Idle - Start Call
   if (callStatus === 'idle') {
+    if (checkingDevices) {
+      return (
+        <PreCallCheck
+          onContinue={() => {
+            setCheckingDevices(false);
+            void handleStartCall();
+          }}
+          onCancel={() => setCheckingDevices(false)}
+        />
+      );
+    }
+
     return (
       <Card className="border-primary/20">
         <CardHeader className="text-center">
@@ -463,7 +463,7 @@ export function LiveClientCall({
             </Button>
             <Button
               size="lg"
-              onClick={handleStartCall}
+              onClick={() => setCheckingDevices(true)}
               className="px-8 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
             >
               <Phone className={cn("h-5 w-5", isRTL ? "ml-2" : "mr-2")} />
@@ -543,6 +543,17 @@ export function LiveClientCall({
             </div>
           )}
 
+          {/* Trainer Hint */}
+          {latestWhisper && (
+            <div className="max-w-md bg-teal-50 border border-teal-200 text-teal-800 px-4 py-3 rounded-xl flex items-start gap-2 text-sm">
+              <GraduationCap className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>
+                <span className="font-semibold">{latestWhisper.trainerName}: </span>
+                {latestWhisper.message}
+              </p>
+            </div>
+          )}
+
           {/* End Call Button */}
           <Button
             size="lg"
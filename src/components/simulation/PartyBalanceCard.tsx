@@ -0,0 +1,96 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils/cn';
+import { partyStyle, personaInitials } from '@/lib/simulation/parties';
+import type { Sentiment } from '@/types/entities';
+import type { PartyBalance } from '@/types/simulation.types';
+import { Users, CheckCircle2, XCircle } from 'lucide-react';
+
+interface PartyBalanceCardProps {
+  partyBalance: PartyBalance;
+  isArabic: boolean;
+}
+
+const sentimentLabels: Record<Sentiment, { en: string; ar: string; className: string }> = {
+  positive: { en: 'Positive', ar: 'إيجابي', className: 'text-emerald-600 border-emerald-200 bg-emerald-50' },
+  neutral: { en: 'Neutral', ar: 'محايد', className: 'text-slate-600 border-slate-200 bg-slate-50' },
+  negative: { en: 'Negative', ar: 'سلبي', className: 'text-red-600 border-red-200 bg-red-50' },
+};
+
+/** How evenly the trainee handled each party in a multi-party session */
+export function PartyBalanceCard({ partyBalance, isArabic }: PartyBalanceCardProps) {
+  const { score, summary, parties } = partyBalance;
+
+  return (
+    <Card className="border-slate-200/60 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-slate-800">
+          <div className="p-2 rounded-lg bg-rose-100">
+            <Users className="h-5 w-5 text-rose-600" />
+          </div>
+          {isArabic ? 'الموازنة بين الأطراف' : 'Balancing the Parties'}
+          <span
+            className={cn(
+              'ms-auto text-lg font-bold',
+              score >= 80 ? 'text-emerald-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600'
+            )}
+          >
+            {Math.round(score)}%
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summary && <p className="text-sm text-slate-600">{summary}</p>}
+
+        {parties.map((party, index) => {
+          const style = partyStyle(index);
+          const sentiment = sentimentLabels[party.finalSentiment];
+          return (
+            <div key={party.speakerId} className="p-3 rounded-xl bg-slate-50/50 border border-slate-200/60 space-y-2">
+              <div className="flex items-center gap-3">
+                <div className={cn('w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold shrink-0', style.avatar)}>
+                  {personaInitials(party.name)}
+                </div>
+                <div className="flex-grow min-w-0">
+                  <p className={cn('text-sm font-medium', style.name)}>
+                    {party.name}
+                    {party.role && <span className="font-normal text-slate-400"> · {party.role}</span>}
+                  </p>
+                  {/* Share of the trainee's attention */}
+                  <div className="flex items-center gap-2 mt-1">
+                    <div className="h-1.5 flex-grow rounded-full bg-slate-200 overflow-hidden">
+                      <div className="h-full rounded-full bg-rose-400" style={{ width: `${Math.min(100, party.attentionShare)}%` }} />
+                    </div>
+                    <span className="text-xs text-slate-500 w-10 text-end">{Math.round(party.attentionShare)}%</span>
+                  </div>
+                </div>
+                <Badge variant="outline" className={cn('text-xs shrink-0', sentiment.className)}>
+                  {isArabic ? sentiment.ar : sentiment.en}
+                </Badge>
+              </div>
+
+              {(party.addressedConcerns.length > 0 || party.ignoredConcerns.length > 0) && (
+                <ul className="text-xs text-slate-600 space-y-0.5 ps-11">
+                  {party.addressedConcerns.map((concern) => (
+                    <li key={`a-${concern}`} className="flex items-start gap-1.5">
+                      <CheckCircle2 className="h-3.5 w-3.5 mt-0.5 shrink-0 text-emerald-500" />
+                      {concern}
+                    </li>
+                  ))}
+                  {party.ignoredConcerns.map((concern) => (
+                    <li key={`i-${concern}`} className="flex items-start gap-1.5">
+                      <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-red-500" />
+                      {concern}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+/**
+ * Pre-Call Check
+ *
+ * Shown before a voice call starts: pick the microphone and speaker, watch
+ * the live input level and play a test tone through the chosen output.
+ * The choice is remembered for the signed-in user.
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { createMicMeter } from '@/lib/audio/mic-meter';
+import { isOutputSelectionSupported, playTestTone } from '@/lib/audio/devices';
+import { Mic, Volume2, Phone, ArrowLeft, AlertCircle, Loader2 } from 'lucide-react';
+
+interface PreCallCheckProps {
+  onContinue: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+const METER_BARS = 24;
+// Radix Select items can't have an empty value
+const SYSTEM_DEFAULT = 'system-default';
+
+export function PreCallCheck({ onContinue, onCancel, className }: PreCallCheckProps) {
+  const { isRTL } = useLanguage();
+  const { inputs, outputs, inputId, outputId, select } = useAudioDevices();
+  const [levels, setLevels] = useState<number[]>(() => new Array(METER_BARS).fill(0));
+  const [micBlocked, setMicBlocked] = useState(false);
+  const [toneState, setToneState] = useState<'idle' | 'playing' | 'failed'>('idle');
+  const [canChooseOutput, setCanChooseOutput] = useState(false);
+
+  useEffect(() => {
+    setCanChooseOutput(isOutputSelectionSupported());
+  }, []);
+
+  // The meter follows the selected microphone by itself
+  useEffect(() => {
+    const meter = createMicMeter(METER_BARS, setLevels);
+    meter.start().then((started) => setMicBlocked(!started));
+    return () => meter.stop();
+  }, []);
+
+  const handleTestTone = async () => {
+    setToneState('playing');
+    const played = await playTestTone(outputId);
+    setToneState(played ? 'idle' : 'failed');
+  };
+
+  const peak = Math.max(...levels);
+
+  return (
+    <Card className={cn('border-blue-200 dark:border-blue-800', className)}>
+      <CardHeader className="text-center">
+        <CardTitle className="text-xl text-foreground">
+          {isRTL ? 'فحص الصوت قبل المكالمة' : 'Pre-call audio check'}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {isRTL
+            ? 'اختر الميكروفون والسماعة وتأكد أنهما يعملان'
+            : 'Choose your microphone and speaker and make sure they work'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6" dir={isRTL ? 'rtl' : 'ltr'}>
+        {/* Microphone */}
+        <div className="space-y-2">
+          <Label className="flex items-center gap-2">
+            <Mic className="h-4 w-4 text-primary" />
+            {isRTL ? 'الميكروفون' : 'Microphone'}
+          </Label>
+          <Select
+            value={inputId ?? SYSTEM_DEFAULT}
+            onValueChange={(value) => select({ inputId: value === SYSTEM_DEFAULT ? null : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SYSTEM_DEFAULT}>{isRTL ? 'افتراضي النظام' : 'System default'}</SelectItem>
+              {inputs.map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-end justify-center gap-[2px] h-10 bg-muted rounded-lg p-2" dir="ltr">
+            {levels.map((level, idx) => (
+              <div
+                key={idx}
+                className={cn(
+                  'w-2 rounded-full transition-all duration-75',
+                  peak > 0.3 ? 'bg-emerald-500' : 'bg-muted-foreground/30'
+                )}
+                style={{ height: `${Math.max(2, level * 28)}px` }}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isRTL ? 'تحدث الآن، يجب أن يتحرك المؤشر' : 'Say something, the meter should move'}
+          </p>
+          {micBlocked && (
+            <div className="p-3 bg-rose-50 dark:bg-rose-950/30 border border-rose-200 dark:border-rose-800 rounded-lg text-rose-700 dark:text-rose-300 text-sm flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {isRTL
+                ? 'تعذر الوصول إلى الميكروفون. يرجى السماح بالوصول من إعدادات المتصفح.'
+                : 'Could not access the microphone. Please allow access in your browser settings.'}
+            </div>
+          )}
+        </div>
+
+        {/* Speaker */}
+        <div className="space-y-2">
+          <Label className="flex items-center gap-2">
+            <Volume2 className="h-4 w-4 text-primary" />
+            {isRTL ? 'السماعة' : 'Speaker'}
+          </Label>
+          {canChooseOutput ? (
+            <Select
+              value={outputId ?? SYSTEM_DEFAULT}
+              onValueChange={(value) => select({ outputId: value === SYSTEM_DEFAULT ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SYSTEM_DEFAULT}>{isRTL ? 'افتراضي النظام' : 'System default'}</SelectItem>
+                {outputs.map((device) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {isRTL
+                ? 'متصفحك لا يدعم اختيار السماعة، سيتم استخدام سماعة النظام.'
+                : "Your browser can't choose a speaker; the system speaker is used."}
+            </p>
+          )}
+          <Button variant="outline" size="sm" onClick={handleTestTone} disabled={toneState === 'playing'}>
+            {toneState === 'playing' ? (
+              <Loader2 className={cn('h-4 w-4 animate-spin', isRTL ? 'ml-2' : 'mr-2')} />
+            ) : (
+              <Volume2 className={cn('h-4 w-4', isRTL ? 'ml-2' : 'mr-2')} />
+            )}
+            {isRTL ? 'تشغيل نغمة اختبار' : 'Play test tone'}
+          </Button>
+          {toneState === 'failed' && (
+            <p className="text-xs text-rose-600">
+              {isRTL ? 'تعذر تشغيل النغمة على هذه السماعة' : 'Could not play the tone on this speaker'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-center">
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel}>
+              <ArrowLeft className={cn('h-4 w-4', isRTL ? 'ml-2' : 'mr-2')} />
+              {isRTL ? 'رجوع' : 'Back'}
+            </Button>
+          )}
+          <Button size="lg" onClick={onContinue} className="px-8">
+            <Phone className={cn('h-5 w-5', isRTL ? 'ml-2' : 'mr-2')} />
+            {isRTL ? 'ابدأ المكالمة' : 'Start Call'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PreCallCheck;
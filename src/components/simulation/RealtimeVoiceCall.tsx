@@ -6,6 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import type { SimulationScenarioType, DifficultyLevel } from '@/types';
+import { voiceCallApi } from '@/lib/api/voice-call.api';
+import { useVoiceEngine } from '@/hooks/useVoiceEngine';
+import type { VoiceReply } from '@/hooks/useVoiceEngine';
+import { PreCallCheck } from './PreCallCheck';
 import {
   Phone,
   PhoneOff,
@@ -27,10 +31,9 @@ import {
  * Real-Time Voice Call Component
  *
  * Features:
- * - Voice Activity Detection (VAD) with 600ms silence threshold
- * - Real-time waveform visualization
- * - Streaming audio playback with interruption support
- * - Single audio channel control
+ * - Pre-call microphone/speaker check
+ * - Hands-free speech recognition, waveform and playback from the voice engine
+ * - Streaming audio over WebSocket with interruption support, REST fallback
  * - Natural conversation flow
  * - Arabic Saudi dialect
  */
@@ -55,17 +58,6 @@ interface CallSummary {
   feedback?: string;
 }
 
-type CallStatus = 'idle' | 'connecting' | 'active' | 'processing' | 'speaking' | 'ended';
-
-// VAD Configuration
-const VAD_CONFIG = {
-  silenceThreshold: -50,      // dB
-  silenceDuration: 600,       // ms of silence before end-of-speech
-  minSpeechDuration: 200,     // ms minimum to consider valid speech
-  fftSize: 2048,
-  smoothingTimeConstant: 0.8,
-};
-
 // Audio visualization config
 const WAVEFORM_CONFIG = {
   barCount: 32,
@@ -81,35 +73,68 @@ export function RealtimeVoiceCall({
   onBack,
 }: RealtimeVoiceCallProps) {
   // State
-  const [status, setStatus] = useState<CallStatus>('idle');
   const [messages, setMessages] = useState<Message[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isAISpeaking, setIsAISpeaking] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const [callSummary, setCallSummary] = useState<CallSummary | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [interimTranscript, setInterimTranscript] = useState('');
-  const [audioLevel, setAudioLevel] = useState<number[]>(new Array(WAVEFORM_CONFIG.barCount).fill(0));
-  const [aiThinking, setAiThinking] = useState(false);
-  const [wsConnected, setWsConnected] = useState(false);
-  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [checkingDevices, setCheckingDevices] = useState(false);
 
   // Refs
   const wsRef = useRef<WebSocket | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const recognitionRef = useRef<any>(null);
-  const audioQueueRef = useRef<AudioBuffer[]>([]);
-  const isPlayingRef = useRef(false);
-  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // Resolves the utterance in flight once the server starts answering over the socket
+  const pendingReplyRef = useRef<(() => void) | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const silenceStartRef = useRef<number | null>(null);
-  const speechStartRef = useRef<number | null>(null);
+
+  const settleReply = () => {
+    pendingReplyRef.current?.();
+    pendingReplyRef.current = null;
+  };
+
+  /**
+   * Send a finished utterance over the socket, or the REST API when it is down
+   */
+  const onUtterance = useCallback(async (transcript: string): Promise<VoiceReply | null> => {
+    setMessages((prev) => [...prev, { role: 'user', content: transcript, timestamp: new Date() }]);
+
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      return new Promise<null>((resolve) => {
+        pendingReplyRef.current = () => resolve(null);
+        // Signal that user started speaking (for interruption)
+        ws.send(JSON.stringify({ type: 'speech_start' }));
+        ws.send(JSON.stringify({ type: 'speech', payload: { transcript } }));
+      });
+    }
+
+    if (!sessionIdRef.current) return null;
+    try {
+      const data = await voiceCallApi.sendMessage({
+        callId: sessionIdRef.current,
+        message: transcript,
+        includeAudio: true,
+      });
+      setMessages((prev) => [...prev, { role: 'assistant', content: data.aiResponse, timestamp: new Date() }]);
+      return { audioBase64: data.audioBase64 };
+    } catch (error) {
+      console.error('[REST] Error:', error);
+      throw new Error('فشل إرسال الرسالة. يرجى المحاولة مرة أخرى.');
+    }
+  }, []);
+
+  const engine = useVoiceEngine({
+    input: 'browser',
+    language: 'ar',
+    handsFree: true,
+    meterBars: WAVEFORM_CONFIG.barCount,
+    onUtterance,
+  });
+  const { status, isListening, isUserSpeaking, isAISpeaking, interimTranscript, levels } = engine;
+  const aiThinking = engine.isProcessing;
+  const error = connectionError || engine.error;
+  const engineRef = useRef(engine);
+  engineRef.current = engine;
 
   // Auto-scroll messages
   useEffect(() => {
@@ -144,68 +169,21 @@ export function RealtimeVoiceCall({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  /**
-   * Initialize WebSocket connection
-   */
-  const initWebSocket = useCallback(() => {
-    const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001/ws/voice';
-
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log('[WS] Connected');
-      setWsConnected(true);
-
-      // Authenticate
-      const token = localStorage.getItem('token');
-      if (token) {
-        ws.send(JSON.stringify({ type: 'auth', payload: { token } }));
-      }
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        handleWSMessage(message);
-      } catch (e) {
-        console.error('[WS] Failed to parse message:', e);
-      }
-    };
-
-    ws.onclose = () => {
-      console.log('[WS] Disconnected');
-      setWsConnected(false);
-    };
-
-    ws.onerror = (error) => {
-      console.error('[WS] Error:', error);
-      setError('Connection error. Please try again.');
-    };
-
-    return ws;
-  }, []);
-
   /**
    * Handle WebSocket messages
    */
-  const handleWSMessage = useCallback((message: { type: string; payload?: Record<string, unknown> }) => {
+  const handleWSMessage = (message: { type: string; payload?: Record<string, unknown> }) => {
     switch (message.type) {
       case 'authenticated':
         console.log('[WS] Authenticated');
         break;
 
       case 'session_started':
-        setSessionId(message.payload?.sessionId as string);
+        sessionIdRef.current = message.payload?.sessionId as string;
         const greeting = message.payload?.greeting as string;
         if (greeting) {
           setMessages([{ role: 'assistant', content: greeting, timestamp: new Date() }]);
         }
-        setStatus('active');
-        break;
-
-      case 'ai_starting':
-        setAiThinking(true);
         break;
 
       case 'ai_response':
@@ -213,541 +191,131 @@ export function RealtimeVoiceCall({
         if (response) {
           setMessages((prev) => [...prev, { role: 'assistant', content: response, timestamp: new Date() }]);
         }
-        setAiThinking(false);
+        settleReply();
         break;
 
       case 'audio_chunk':
         const audioBase64 = message.payload?.audio as string;
-        const isFinal = message.payload?.isFinal as boolean;
         if (audioBase64) {
-          playAudioChunk(audioBase64, isFinal);
-        }
-        break;
-
-      case 'audio_complete':
-        setIsAISpeaking(false);
-        setStatus('active');
-        // Resume listening after AI finishes
-        if (recognitionRef.current) {
-          try {
-            recognitionRef.current.start();
-          } catch (e) {
-            // Already running
-          }
+          settleReply();
+          void engineRef.current.enqueueAudio(audioBase64);
         }
         break;
 
       case 'playback_interrupted':
-        stopCurrentAudio();
-        setIsAISpeaking(false);
+        engineRef.current.interrupt();
         break;
 
       case 'session_ended':
+        settleReply();
         setCallSummary({
           summary: message.payload?.summary as string,
           totalMessages: message.payload?.totalMessages as number,
           durationSeconds: message.payload?.durationSeconds as number,
         });
-        setStatus('ended');
+        void engineRef.current.close();
         break;
 
       case 'error':
-        setError(message.payload?.message as string);
-        break;
-
-      case 'listening':
-        setAiThinking(false);
+        settleReply();
+        setConnectionError(message.payload?.message as string);
         break;
-
-      case 'processing':
-        setAiThinking(true);
-        break;
-    }
-  }, []);
-
-  /**
-   * Initialize Audio Context and Analyser for waveform
-   */
-  const initAudioContext = useCallback(async () => {
-    try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = VAD_CONFIG.fftSize;
-      analyser.smoothingTimeConstant = VAD_CONFIG.smoothingTimeConstant;
-      analyserRef.current = analyser;
-
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
-      mediaStreamRef.current = stream;
-
-      // Connect stream to analyser
-      const source = audioContext.createMediaStreamSource(stream);
-      source.connect(analyser);
-
-      return true;
-    } catch (error) {
-      console.error('[Audio] Failed to initialize:', error);
-      setError('فشل الوصول للميكروفون. يرجى السماح بالوصول.');
-      return false;
     }
-  }, []);
+  };
 
   /**
-   * Start waveform visualization
+   * Open the WebSocket and start a session on it
    */
-  const startWaveformVisualization = useCallback(() => {
-    const analyser = analyserRef.current;
-    if (!analyser) return;
-
-    const dataArray = new Uint8Array(analyser.frequencyBinCount);
-
-    const updateWaveform = () => {
-      analyser.getByteFrequencyData(dataArray);
-
-      // Calculate levels for each bar
-      const barWidth = Math.floor(dataArray.length / WAVEFORM_CONFIG.barCount);
-      const levels: number[] = [];
-
-      for (let i = 0; i < WAVEFORM_CONFIG.barCount; i++) {
-        let sum = 0;
-        for (let j = 0; j < barWidth; j++) {
-          sum += dataArray[i * barWidth + j];
-        }
-        const avg = sum / barWidth;
-        const normalized = (avg / 255) * WAVEFORM_CONFIG.maxBarHeight;
-        levels.push(Math.max(WAVEFORM_CONFIG.minBarHeight, normalized));
-      }
-
-      setAudioLevel(levels);
-
-      // Detect speech activity
-      const avgLevel = levels.reduce((a, b) => a + b, 0) / levels.length;
-      const isSpeech = avgLevel > 8; // Threshold for speech detection
-
-      if (isSpeech) {
-        if (!speechStartRef.current) {
-          speechStartRef.current = Date.now();
-        }
-        silenceStartRef.current = null;
-        setIsSpeaking(true);
-      } else {
-        if (!silenceStartRef.current) {
-          silenceStartRef.current = Date.now();
-        }
+  const connectWebSocket = () => {
+    const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001/ws/voice';
 
-        // Check for end of speech (VAD)
-        if (silenceStartRef.current && speechStartRef.current) {
-          const silenceDuration = Date.now() - silenceStartRef.current;
-          const speechDuration = silenceStartRef.current - speechStartRef.current;
+    const ws = new WebSocket(wsUrl);
 
-          if (silenceDuration >= VAD_CONFIG.silenceDuration && speechDuration >= VAD_CONFIG.minSpeechDuration) {
-            // End of speech detected
-            speechStartRef.current = null;
-            setIsSpeaking(false);
-          }
-        }
+    ws.onmessage = (event) => {
+      try {
+        handleWSMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error('[WS] Failed to parse message:', e);
       }
-
-      animationFrameRef.current = requestAnimationFrame(updateWaveform);
     };
 
-    animationFrameRef.current = requestAnimationFrame(updateWaveform);
-  }, []);
-
-  /**
-   * Stop waveform visualization
-   */
-  const stopWaveformVisualization = useCallback(() => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-    setAudioLevel(new Array(WAVEFORM_CONFIG.barCount).fill(0));
-  }, []);
-
-  /**
-   * Initialize Speech Recognition
-   */
-  const initSpeechRecognition = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      console.warn('Speech recognition not supported');
-      return null;
-    }
-
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = 'ar-SA'; // Arabic Saudi
-
-    recognition.onstart = () => {
-      console.log('[STT] Started');
-      setIsListening(true);
+    ws.onclose = () => {
+      settleReply();
     };
 
-    recognition.onresult = (event: any) => {
-      let finalTranscript = '';
-      let interim = '';
+    return new Promise<WebSocket>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Connection timeout')), 5000);
 
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
-        if (result.isFinal) {
-          finalTranscript += result[0].transcript;
-        } else {
-          interim += result[0].transcript;
-        }
-      }
-
-      setInterimTranscript(interim);
-
-      if (finalTranscript.trim()) {
-        console.log('[STT] Final:', finalTranscript);
-        setInterimTranscript('');
-
-        // Add user message
-        setMessages((prev) => [...prev, { role: 'user', content: finalTranscript.trim(), timestamp: new Date() }]);
-
-        // Send to backend
-        sendSpeechToBackend(finalTranscript.trim());
-      }
-    };
-
-    recognition.onerror = (event: any) => {
-      console.error('[STT] Error:', event.error);
-      if (event.error !== 'no-speech' && event.error !== 'aborted') {
-        // Politely ask to repeat in Arabic
-        if (event.error === 'not-allowed') {
-          setError('يرجى السماح بالوصول للميكروفون');
+      ws.onopen = () => {
+        clearTimeout(timeout);
+        // Authenticate
+        const token = localStorage.getItem('token');
+        if (token) {
+          ws.send(JSON.stringify({ type: 'auth', payload: { token } }));
         }
-      }
-      setIsListening(false);
-    };
 
-    recognition.onend = () => {
-      console.log('[STT] Ended');
-      setIsListening(false);
-
-      // Auto-restart if call is active and AI is not speaking
-      if (status === 'active' && !isAISpeaking) {
+        // Start session
         setTimeout(() => {
-          try {
-            recognition.start();
-          } catch (e) {
-            // Already running
-          }
-        }, 100);
-      }
-    };
-
-    return recognition;
-  }, [status, isAISpeaking]);
-
-  /**
-   * Send speech transcript to backend
-   */
-  const sendSpeechToBackend = useCallback((transcript: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      // Fallback to REST API if WebSocket not available
-      sendSpeechREST(transcript);
-      return;
-    }
-
-    // Signal that user started speaking (for interruption)
-    wsRef.current.send(JSON.stringify({ type: 'speech_start' }));
-
-    // Send the transcript
-    wsRef.current.send(JSON.stringify({
-      type: 'speech',
-      payload: { transcript },
-    }));
-
-    setStatus('processing');
-    setAiThinking(true);
-  }, []);
-
-  /**
-   * Fallback: Send speech via REST API
-   */
-  const sendSpeechREST = useCallback(async (transcript: string) => {
-    if (!sessionId) return;
-
-    setStatus('processing');
-    setAiThinking(true);
-
-    try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/voice/${sessionId}/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          message: transcript,
-          includeAudio: true,
-        }),
-      });
-
-      if (!response.ok) throw new Error('Failed to send message');
-
-      const data = await response.json();
-
-      // Add AI response to messages
-      setMessages((prev) => [...prev, { role: 'assistant', content: data.aiResponse, timestamp: new Date() }]);
-
-      // Play audio if available
-      if (data.audioBase64) {
-        playAudioChunk(data.audioBase64, true);
-      } else {
-        setStatus('active');
-        setAiThinking(false);
-      }
-    } catch (error) {
-      console.error('[REST] Error:', error);
-      setError('فشل إرسال الرسالة. يرجى المحاولة مرة أخرى.');
-      setStatus('active');
-      setAiThinking(false);
-    }
-  }, [sessionId]);
-
-  /**
-   * Play audio chunk with streaming support
-   */
-  const playAudioChunk = useCallback(async (base64Audio: string, isFinal: boolean) => {
-    const audioContext = audioContextRef.current || new (window.AudioContext || (window as any).webkitAudioContext)();
-
-    if (!audioContextRef.current) {
-      audioContextRef.current = audioContext;
-    }
-
-    try {
-      // Decode base64 to ArrayBuffer
-      const binaryString = atob(base64Audio);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-
-      // Decode audio data
-      const audioBuffer = await audioContext.decodeAudioData(bytes.buffer);
-
-      // Add to queue
-      audioQueueRef.current.push(audioBuffer);
-
-      // Start playing if not already
-      if (!isPlayingRef.current) {
-        playNextInQueue();
-      }
-    } catch (error) {
-      console.error('[Audio] Failed to decode:', error);
-    }
-  }, []);
+          ws.send(JSON.stringify({
+            type: 'start_session',
+            payload: { scenarioType },
+          }));
+          ws.onerror = (error) => {
+            console.error('[WS] Error:', error);
+            setConnectionError('Connection error. Please try again.');
+          };
+          resolve(ws);
+        }, 500);
+      };
+
+      ws.onerror = () => {
+        clearTimeout(timeout);
+        ws.close();
+        reject(new Error('WebSocket error'));
+      };
+    });
+  };
 
   /**
-   * Play next audio buffer in queue
+   * Start the call over the WebSocket, falling back to the REST API
    */
-  const playNextInQueue = useCallback(() => {
-    if (audioQueueRef.current.length === 0) {
-      isPlayingRef.current = false;
-      setIsAISpeaking(false);
-      setStatus('active');
-
-      // Resume listening
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.start();
-        } catch (e) {
-          // Already running
-        }
-      }
-      return;
-    }
-
-    isPlayingRef.current = true;
-    setIsAISpeaking(true);
-    setStatus('speaking');
+  const startCall = async () => {
+    setConnectionError(null);
+    setCallSummary(null);
+    setMessages([]);
+    setElapsedTime(0);
 
-    // Stop listening while AI speaks
-    if (recognitionRef.current) {
+    await engine.open(async () => {
       try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        // Not running
+        wsRef.current = await connectWebSocket();
+        // The greeting arrives as session_started plus audio chunks
+        return null;
+      } catch (error) {
+        console.error('[Call] WebSocket unavailable, using REST:', error);
       }
-    }
-
-    const audioBuffer = audioQueueRef.current.shift()!;
-    const audioContext = audioContextRef.current!;
-
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-
-    // Add gain node for smooth fade
-    const gainNode = audioContext.createGain();
-    gainNode.gain.value = 0;
-    gainNode.gain.linearRampToValueAtTime(1, audioContext.currentTime + 0.05); // Fade in
-
-    source.connect(gainNode);
-    gainNode.connect(audioContext.destination);
-
-    currentSourceRef.current = source;
-
-    source.onended = () => {
-      currentSourceRef.current = null;
-      playNextInQueue();
-    };
-
-    source.start(0);
-  }, []);
-
-  /**
-   * Stop current audio playback (for interruption)
-   */
-  const stopCurrentAudio = useCallback(() => {
-    // Clear queue
-    audioQueueRef.current = [];
 
-    // Stop current source
-    if (currentSourceRef.current) {
       try {
-        currentSourceRef.current.stop();
-      } catch (e) {
-        // Already stopped
-      }
-      currentSourceRef.current = null;
-    }
-
-    isPlayingRef.current = false;
-    setIsAISpeaking(false);
-
-    // Notify backend of interruption
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'interrupt' }));
-    }
-  }, []);
-
-  /**
-   * Start the call
-   */
-  const startCall = async () => {
-    setStatus('connecting');
-    setError(null);
-    setElapsedTime(0);
-
-    try {
-      // Initialize audio context
-      const audioSuccess = await initAudioContext();
-      if (!audioSuccess) {
-        setStatus('idle');
-        return;
+        const data = await voiceCallApi.startCall({
+          scenarioType,
+          language: 'ar',
+        });
+        sessionIdRef.current = data.callId;
+        setMessages([{ role: 'assistant', content: data.greeting, timestamp: new Date() }]);
+        return { audioBase64: data.greetingAudioBase64 };
+      } catch (error) {
+        console.error('[Call] REST fallback error:', error);
+        throw new Error('فشل بدء المكالمة. يرجى المحاولة مرة أخرى.');
       }
-
-      // Initialize WebSocket
-      const ws = initWebSocket();
-
-      // Wait for connection
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error('Connection timeout')), 5000);
-
-        ws.onopen = () => {
-          clearTimeout(timeout);
-
-          // Authenticate
-          const token = localStorage.getItem('token');
-          if (token) {
-            ws.send(JSON.stringify({ type: 'auth', payload: { token } }));
-          }
-
-          // Start session
-          setTimeout(() => {
-            ws.send(JSON.stringify({
-              type: 'start_session',
-              payload: { scenarioType },
-            }));
-            resolve();
-          }, 500);
-        };
-
-        ws.onerror = () => {
-          clearTimeout(timeout);
-          reject(new Error('WebSocket error'));
-        };
-      });
-
-      // Initialize speech recognition
-      recognitionRef.current = initSpeechRecognition();
-
-      // Start waveform visualization
-      startWaveformVisualization();
-
-    } catch (error) {
-      console.error('[Call] Error starting:', error);
-
-      // Fallback to REST API mode
-      await startCallREST();
-    }
+    });
   };
 
   /**
-   * Fallback: Start call via REST API
+   * Stop the AI mid-reply and tell the server
    */
-  const startCallREST = async () => {
-    try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/voice/start`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          scenarioType,
-          language: 'ar',
-        }),
-      });
-
-      if (!response.ok) throw new Error('Failed to start call');
-
-      const data = await response.json();
-
-      setSessionId(data.callId);
-      setMessages([{ role: 'assistant', content: data.greeting, timestamp: new Date() }]);
-      setStatus('active');
-
-      // Initialize audio
-      await initAudioContext();
-      startWaveformVisualization();
-
-      // Play greeting
-      if (data.greetingAudioBase64) {
-        playAudioChunk(data.greetingAudioBase64, true);
-      }
-
-      // Start speech recognition
-      recognitionRef.current = initSpeechRecognition();
-      if (recognitionRef.current) {
-        setTimeout(() => {
-          try {
-            recognitionRef.current?.start();
-          } catch (e) {
-            // Already running
-          }
-        }, 1000);
-      }
-    } catch (error) {
-      console.error('[Call] REST fallback error:', error);
-      setError('فشل بدء المكالمة. يرجى المحاولة مرة أخرى.');
-      setStatus('idle');
+  const interruptAI = () => {
+    engine.interrupt();
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'interrupt' }));
     }
   };
 
@@ -755,50 +323,21 @@ export function RealtimeVoiceCall({
    * End the call
    */
   const endCall = async () => {
-    // Stop everything
-    stopCurrentAudio();
-    stopWaveformVisualization();
+    if (isAISpeaking) interruptAI();
 
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        // Not running
-      }
-    }
-
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-    }
-
-    setStatus('processing');
-
-    // End session via WebSocket or REST
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'end_session' }));
-    } else if (sessionId) {
-      // REST fallback
-      try {
-        const token = localStorage.getItem('token');
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/voice/${sessionId}/end`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({ endReason: 'completed' }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
+    await engine.close(async () => {
+      // End session via WebSocket (the summary arrives as session_ended) or REST
+      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+        wsRef.current.send(JSON.stringify({ type: 'end_session' }));
+      } else if (sessionIdRef.current) {
+        try {
+          const data = await voiceCallApi.endCall({ callId: sessionIdRef.current, endReason: 'completed' });
           setCallSummary(data);
+        } catch (error) {
+          console.error('[Call] Error ending:', error);
         }
-      } catch (error) {
-        console.error('[Call] Error ending:', error);
       }
-    }
-
-    setStatus('ended');
+    });
   };
 
   /**
@@ -806,44 +345,30 @@ export function RealtimeVoiceCall({
    */
   const toggleMic = () => {
     if (isListening) {
-      recognitionRef.current?.stop();
+      engine.stopListening();
     } else {
       // Interrupt AI if speaking
       if (isAISpeaking) {
-        stopCurrentAudio();
-      }
-      try {
-        recognitionRef.current?.start();
-      } catch (e) {
-        // Already running
+        interruptAI();
       }
+      engine.startListening();
     }
   };
 
+  const dismissError = () => {
+    setConnectionError(null);
+    engine.clearError();
+  };
+
   // Cleanup
   useEffect(() => {
     return () => {
-      stopWaveformVisualization();
-
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.stop();
-        } catch (e) {}
-      }
-
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      }
-
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-
+      wsRef.current?.close();
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
     };
-  }, [stopWaveformVisualization]);
+  }, []);
 
   // ============ RENDER ============
 
@@ -893,8 +418,20 @@ export function RealtimeVoiceCall({
     );
   }
 
-  // Idle / Start Call View
-  if (status === 'idle') {
+  // Idle / Start Call View (also when the call failed to connect)
+  if (status === 'idle' || (status === 'error' && messages.length === 0)) {
+    if (checkingDevices) {
+      return (
+        <PreCallCheck
+          onContinue={() => {
+            setCheckingDevices(false);
+            void startCall();
+          }}
+          onCancel={() => setCheckingDevices(false)}
+        />
+      );
+    }
+
     return (
       <Card className="border-blue-200 dark:border-blue-800">
         <CardHeader className="text-center">
@@ -932,7 +469,7 @@ export function RealtimeVoiceCall({
             </Button>
             <Button
               size="lg"
-              onClick={startCall}
+              onClick={() => setCheckingDevices(true)}
               className="px-8"
             >
               <Phone className="h-5 w-5 mr-2" />
@@ -996,7 +533,7 @@ export function RealtimeVoiceCall({
             variant="destructive"
             size="sm"
             onClick={endCall}
-            disabled={status === 'processing'}
+            disabled={status === 'ending'}
           >
             <PhoneOff className="h-4 w-4 mr-2" />
             إنهاء
@@ -1073,7 +610,7 @@ export function RealtimeVoiceCall({
           <div className="mb-3 p-3 bg-rose-50 dark:bg-rose-950/30 border border-rose-200 dark:border-rose-800 rounded-lg text-rose-700 dark:text-rose-300 text-sm flex items-center gap-2">
             <AlertCircle className="h-4 w-4" />
             {error}
-            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setError(null)}>
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={dismissError}>
               إغلاق
             </Button>
           </div>
@@ -1082,14 +619,14 @@ export function RealtimeVoiceCall({
         <div className="flex flex-col items-center gap-4 max-w-3xl mx-auto">
           {/* Waveform Visualization */}
           <div className="flex items-end justify-center gap-[2px] h-12 w-full max-w-md bg-muted rounded-lg p-2">
-            {audioLevel.map((level, idx) => (
+            {levels.map((level, idx) => (
               <div
                 key={idx}
                 className={cn(
                   'w-2 rounded-full transition-all duration-75',
-                  isSpeaking ? 'bg-emerald-500' : isAISpeaking ? 'bg-primary' : 'bg-muted-foreground/30'
+                  isUserSpeaking ? 'bg-emerald-500' : isAISpeaking ? 'bg-primary' : 'bg-muted-foreground/30'
                 )}
-                style={{ height: `${level}px` }}
+                style={{ height: `${Math.max(WAVEFORM_CONFIG.minBarHeight, level * WAVEFORM_CONFIG.maxBarHeight)}px` }}
               />
             ))}
           </div>
@@ -1102,7 +639,7 @@ export function RealtimeVoiceCall({
               className={cn(
                 'rounded-full w-16 h-16 p-0 transition-all',
                 isListening && 'ring-4 ring-rose-200 dark:ring-rose-800 animate-pulse',
-                isSpeaking && 'ring-4 ring-emerald-200 dark:ring-emerald-800'
+                isUserSpeaking && 'ring-4 ring-emerald-200 dark:ring-emerald-800'
               )}
               onClick={toggleMic}
               disabled={aiThinking}
@@ -20,9 +20,19 @@ import {
   FileDown,
   Loader2
 } from 'lucide-react';
-import type { SimulationAnalysisOutput, SkillScoreDetail } from '@/types/simulation.types';
+import type { SimulationAnalysisOutput } from '@/types/simulation.types';
 import { cn } from '@/lib/utils/cn';
+import {
+  criterionLabel,
+  criterionResults,
+  levelDescription,
+  levelLabel,
+  type CriterionResult,
+} from '@/lib/simulation/rubrics';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { FactAccuracyCard } from './FactAccuracyCard';
+import { PartyBalanceCard } from './PartyBalanceCard';
+import { SkillRadarChart } from '@/components/charts/SkillRadarChart';
 
 interface ResultsSummaryProps {
   analysis: SimulationAnalysisOutput;
@@ -73,16 +83,6 @@ const gradeConfigAr = {
   F: { bg: 'bg-gradient-to-br from-red-500 to-rose-600', text: 'text-white', glow: 'shadow-red-500/30', label: 'استمر بالتدريب' },
 };
 
-// Arabic skill names
-const skillNamesAr: Record<string, string> = {
-  'Communication': 'التواصل',
-  'Negotiation': 'التفاوض',
-  'Objection Handling': 'معالجة الاعتراضات',
-  'Relationship Building': 'بناء العلاقات',
-  'Product Knowledge': 'معرفة المنتج',
-  'Closing Technique': 'تقنيات الإغلاق',
-};
-
 function getScoreColor(score: number): string {
   if (score >= 80) return 'bg-emerald-500';
   if (score >= 70) return 'bg-blue-500';
@@ -99,9 +99,10 @@ function getScoreTextColor(score: number): string {
   return 'text-red-600';
 }
 
-function SkillScore({ name, detail, index }: { name: string; detail: SkillScoreDetail; index: number }) {
-  const isStrength = detail.score >= 75;
-  const isWeakness = detail.score < 60;
+function SkillScore({ result, index }: { result: CriterionResult; index: number }) {
+  const { isRTL } = useLanguage();
+  const isStrength = result.score >= 75;
+  const isWeakness = result.score < 60;
 
   return (
     <div
@@ -117,11 +118,14 @@ function SkillScore({ name, detail, index }: { name: string; detail: SkillScoreD
         <div className="flex items-center gap-2">
           {isStrength && <CheckCircle2 className="h-4 w-4 text-emerald-500" />}
           {isWeakness && <AlertCircle className="h-4 w-4 text-red-500" />}
-          <span className="font-semibold text-sm text-slate-700">{name}</span>
+          <span className="font-semibold text-sm text-slate-700">{criterionLabel(result, isRTL)}</span>
+          {result.weightPercent !== null && (
+            <span className="text-xs text-slate-400">{result.weightPercent}%</span>
+          )}
         </div>
         <div className="flex items-center gap-1.5">
-          <span className={cn("text-lg font-bold", getScoreTextColor(detail.score))}>
-            {detail.score}
+          <span className={cn("text-lg font-bold", getScoreTextColor(result.score))}>
+            {result.score}
           </span>
           <span className="text-xs text-slate-400">/100</span>
         </div>
@@ -129,19 +133,27 @@ function SkillScore({ name, detail, index }: { name: string; detail: SkillScoreD
 
       <div className="relative h-2.5 bg-slate-200 rounded-full overflow-hidden">
         <div
-          className={cn("absolute inset-y-0 left-0 rounded-full transition-all duration-1000 ease-out", getScoreColor(detail.score))}
-          style={{ width: `${detail.score}%` }}
+          className={cn("absolute inset-y-0 left-0 rounded-full transition-all duration-1000 ease-out", getScoreColor(result.score))}
+          style={{ width: `${result.score}%` }}
         />
         {/* Benchmark indicator */}
         <div
           className="absolute top-0 h-full w-0.5 bg-slate-400"
-          style={{ left: `${detail.benchmark || 75}%` }}
+          style={{ left: `${result.benchmark || 75}%` }}
         />
       </div>
 
-      {detail.tips && detail.tips.length > 0 && (
+      {/* Rubric level the score falls in */}
+      {result.level && (
+        <p className="mt-2.5 text-xs text-slate-600">
+          <Badge variant="outline" className="text-[10px] mr-1.5">{levelLabel(result.level, isRTL)}</Badge>
+          {levelDescription(result.level, isRTL)}
+        </p>
+      )}
+
+      {result.tips.length > 0 && (
         <p className="mt-2.5 text-xs text-slate-500 line-clamp-2">
-          {detail.tips[0]}
+          {result.tips[0]}
         </p>
       )}
     </div>
@@ -159,8 +171,9 @@ function StatCard({ value, label, icon: Icon }: { value: string | number; label:
 }
 
 export function ResultsSummary({ analysis, onViewFullReport, onPracticeAgain, sessionData }: ResultsSummaryProps) {
-  const { overallPerformance, skillScores, conversationAnalysis, recommendations, highlights, improvementAreas } = analysis;
+  const { overallPerformance, conversationAnalysis, recommendations, highlights, improvementAreas } = analysis;
   const { isRTL } = useLanguage();
+  const criteria = criterionResults(analysis);
   const [isExportingPDF, setIsExportingPDF] = useState(false);
 
   // Detect if content is Arabic based on summary or highlights
@@ -194,14 +207,7 @@ export function ResultsSummary({ analysis, onViewFullReport, onPracticeAgain, se
           overallScore: overallPerformance.score,
           grade: overallPerformance.grade,
           summary: overallPerformance.summary,
-          skillScores: {
-            communication: { score: skillScores.communication.score, tips: skillScores.communication.tips || [] },
-            negotiation: { score: skillScores.negotiation.score, tips: skillScores.negotiation.tips || [] },
-            objectionHandling: { score: skillScores.objectionHandling.score, tips: skillScores.objectionHandling.tips || [] },
-            relationshipBuilding: { score: skillScores.relationshipBuilding.score, tips: skillScores.relationshipBuilding.tips || [] },
-            productKnowledge: { score: skillScores.productKnowledge.score, tips: skillScores.productKnowledge.tips || [] },
-            closingTechnique: { score: skillScores.closingTechnique.score, tips: skillScores.closingTechnique.tips || [] },
-          },
+          skills: criteria.map((c) => ({ key: c.key, label: c.labelAr, score: c.score, tips: c.tips })),
           highlights: highlights?.map(h => typeof h === 'string' ? h : h.description) || [],
           improvementAreas: improvementAreas?.map(i => typeof i === 'string' ? i : i.description) || [],
           conversationMetrics: {
@@ -269,20 +275,29 @@ export function ResultsSummary({ analysis, onViewFullReport, onPracticeAgain, se
             <div className="p-2 rounded-lg bg-indigo-100">
               <Target className="h-5 w-5 text-indigo-600" />
             </div>
-            Skill Performance
+            {analysis.rubricEvaluation
+              ? (isRTL && analysis.rubricEvaluation.nameAr ? analysis.rubricEvaluation.nameAr : analysis.rubricEvaluation.name)
+              : 'Skill Performance'}
             <span className="ml-auto text-xs font-normal text-slate-400">
               | = Industry Benchmark (75)
             </span>
           </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <SkillRadarChart
+            skills={criteria.map((c) => ({
+              skill: criterionLabel(c, isRTL),
+              shortLabel: criterionLabel(c, isRTL),
+              skillKey: c.key,
+              averageScore: c.score,
+              benchmark: c.benchmark,
+            }))}
+            height={260}
+          />
           <div className="grid md:grid-cols-2 gap-4">
-            <SkillScore name="Communication" detail={skillScores.communication} index={0} />
-            <SkillScore name="Negotiation" detail={skillScores.negotiation} index={1} />
-            <SkillScore name="Objection Handling" detail={skillScores.objectionHandling} index={2} />
-            <SkillScore name="Relationship Building" detail={skillScores.relationshipBuilding} index={3} />
-            <SkillScore name="Product Knowledge" detail={skillScores.productKnowledge} index={4} />
-            <SkillScore name="Closing Technique" detail={skillScores.closingTechnique} index={5} />
+            {criteria.map((result, index) => (
+              <SkillScore key={result.key} result={result} index={index} />
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -342,6 +357,16 @@ export function ResultsSummary({ analysis, onViewFullReport, onPracticeAgain, se
         )}
       </div>
 
+      {/* Listing Fact Accuracy */}
+      {analysis.factAccuracy && (
+        <FactAccuracyCard factAccuracy={analysis.factAccuracy} isArabic={!!isArabicContent} />
+      )}
+
+      {/* Multi-party Balance */}
+      {analysis.partyBalance && (
+        <PartyBalanceCard partyBalance={analysis.partyBalance} isArabic={!!isArabicContent} />
+      )}
+
       {/* Conversation Metrics */}
       <Card className="border-slate-200/60 shadow-lg">
         <CardHeader className="pb-4">
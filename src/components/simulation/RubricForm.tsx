@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { emptyCriterion, validateRubric, weightPercents, withCriterionKeys } from '@/lib/simulation/rubrics';
+import type { CreateRubricInput, RubricCriterion, RubricLevel } from '@/types/simulation.types';
+import { Save, Loader2, FileText, ListChecks, Plus, Trash2 } from 'lucide-react';
+
+interface RubricFormProps {
+  initial: CreateRubricInput;
+  saving: boolean;
+  onSave: (data: CreateRubricInput) => Promise<void>;
+}
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      {children}
+      {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function SectionTitle({ icon: Icon, children }: { icon: React.ElementType; children: React.ReactNode }) {
+  return (
+    <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+      <Icon className="w-5 h-5 text-indigo-500" />
+      {children}
+    </h3>
+  );
+}
+
+/** Rubric editor shared by the create and edit pages */
+export function RubricForm({ initial, saving, onSave }: RubricFormProps) {
+  const { isRTL } = useLanguage();
+  const [form, setForm] = useState<CreateRubricInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const percents = weightPercents(form.criteria);
+
+  const update = (updates: Partial<CreateRubricInput>) => setForm((prev) => ({ ...prev, ...updates }));
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) =>
+    update({ criteria: form.criteria.map((c, i) => (i === index ? { ...c, ...updates } : c)) });
+  const updateLevel = (criterionIndex: number, levelIndex: number, updates: Partial<RubricLevel>) =>
+    updateCriterion(criterionIndex, {
+      levels: form.criteria[criterionIndex].levels.map((l, i) => (i === levelIndex ? { ...l, ...updates } : l)),
+    });
+
+  const parseNumber = (value: string) => {
+    const n = parseFloat(value);
+    return Number.isFinite(n) ? n : 0;
+  };
+
+  const handleSave = async () => {
+    const data: CreateRubricInput = {
+      name: form.name.trim(),
+      nameAr: form.nameAr?.trim() || null,
+      description: form.description?.trim() || null,
+      criteria: withCriterionKeys(
+        form.criteria.map((c) => ({
+          ...c,
+          labelEn: c.labelEn.trim(),
+          labelAr: c.labelAr.trim(),
+          levels: c.levels
+            .map((l) => ({
+              ...l,
+              minScore: Math.min(100, Math.max(0, Math.round(l.minScore))),
+              labelEn: l.labelEn.trim(),
+              labelAr: l.labelAr.trim(),
+              descriptionEn: l.descriptionEn.trim(),
+              descriptionAr: l.descriptionAr.trim(),
+            }))
+            .sort((a, b) => b.minScore - a.minScore),
+        }))
+      ),
+    };
+    const problem = validateRubric(data, isRTL);
+    setError(problem);
+    if (problem) return;
+    try {
+      await onSave(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save rubric');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Basics */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={FileText}>{isRTL ? 'سلم التقييم' : 'Rubric'}</SectionTitle>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label={isRTL ? 'الاسم (EN)' : 'Name (EN)'}>
+              <Input value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'الاسم (AR)' : 'Name (AR)'}>
+              <Input value={form.nameAr ?? ''} onChange={(e) => update({ nameAr: e.target.value })} dir="rtl" />
+            </Field>
+          </div>
+          <Field label={isRTL ? 'الوصف' : 'Description'}>
+            <Textarea
+              value={form.description ?? ''}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+            />
+          </Field>
+        </CardContent>
+      </Card>
+
+      {/* Criteria */}
+      {form.criteria.map((criterion, index) => (
+        <Card key={index}>
+          <CardContent className="p-5 space-y-4">
+            <div className="flex items-center justify-between">
+              <SectionTitle icon={ListChecks}>
+                {isRTL ? `المعيار ${index + 1}` : `Criterion ${index + 1}`}
+                <Badge variant="outline" className="text-xs font-normal">
+                  {percents[index]}% {isRTL ? 'من الدرجة' : 'of score'}
+                </Badge>
+              </SectionTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ criteria: form.criteria.filter((_, i) => i !== index) })}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1fr] gap-4">
+              <Field label={isRTL ? 'الاسم (EN)' : 'Label (EN)'}>
+                <Input
+                  value={criterion.labelEn}
+                  onChange={(e) => updateCriterion(index, { labelEn: e.target.value })}
+                  placeholder="Needs discovery"
+                />
+              </Field>
+              <Field label={isRTL ? 'الاسم (AR)' : 'Label (AR)'}>
+                <Input
+                  value={criterion.labelAr}
+                  onChange={(e) => updateCriterion(index, { labelAr: e.target.value })}
+                  placeholder="اكتشاف الاحتياجات"
+                  dir="rtl"
+                />
+              </Field>
+              <Field label={isRTL ? 'الوزن' : 'Weight'}>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={criterion.weight}
+                  onChange={(e) => updateCriterion(index, { weight: parseNumber(e.target.value) })}
+                />
+              </Field>
+            </div>
+
+            {/* Level descriptors */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {isRTL ? 'المستويات' : 'Levels'}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    updateCriterion(index, {
+                      levels: [
+                        ...criterion.levels,
+                        { minScore: 0, labelEn: '', labelAr: '', descriptionEn: '', descriptionAr: '' },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {isRTL ? 'إضافة مستوى' : 'Add level'}
+                </Button>
+              </div>
+              {criterion.levels.map((level, levelIndex) => (
+                <div key={levelIndex} className="rounded-lg border p-3 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_2fr_auto] gap-3 items-end">
+                    <Field label={isRTL ? 'من درجة' : 'From score'}>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={level.minScore}
+                        onChange={(e) => updateLevel(index, levelIndex, { minScore: parseNumber(e.target.value) })}
+                      />
+                    </Field>
+                    <Field label={isRTL ? 'المستوى (EN)' : 'Level (EN)'}>
+                      <Input
+                        value={level.labelEn}
+                        onChange={(e) => updateLevel(index, levelIndex, { labelEn: e.target.value })}
+                      />
+                    </Field>
+                    <Field label={isRTL ? 'المستوى (AR)' : 'Level (AR)'}>
+                      <Input
+                        value={level.labelAr}
+                        onChange={(e) => updateLevel(index, levelIndex, { labelAr: e.target.value })}
+                        dir="rtl"
+                      />
+                    </Field>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateCriterion(index, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })
+                      }
+                      className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <Textarea
+                      value={level.descriptionEn}
+                      onChange={(e) => updateLevel(index, levelIndex, { descriptionEn: e.target.value })}
+                      placeholder={isRTL ? 'ما الذي يميز هذا المستوى (EN)' : 'What performance at this level looks like'}
+                      rows={2}
+                    />
+                    <Textarea
+                      value={level.descriptionAr}
+                      onChange={(e) => updateLevel(index, levelIndex, { descriptionAr: e.target.value })}
+                      placeholder={isRTL ? 'ما الذي يميز هذا المستوى' : 'What performance at this level looks like (AR)'}
+                      rows={2}
+                      dir="rtl"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={() => update({ criteria: [...form.criteria, emptyCriterion()] })}>
+          <Plus className="w-4 h-4 mr-1" />
+          {isRTL ? 'إضافة معيار' : 'Add criterion'}
+        </Button>
+        <Button onClick={handleSave} disabled={saving} className="bg-indigo-500 hover:bg-indigo-600">
+          {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+          {isRTL ? 'حفظ سلم التقييم' : 'Save Rubric'}
+        </Button>
+      </div>
+    </div>
+  );
+}
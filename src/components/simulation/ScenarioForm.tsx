@@ -0,0 +1,570 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAdminGroups } from '@/hooks/useAdminQueries';
+import { useRubrics } from '@/hooks/useRubricQueries';
+import {
+  CLIENT_PERSONALITIES,
+  EXAMPLE_SCRIPT,
+  SCENARIO_TYPES,
+  emptyParty,
+  linesToList,
+  listToLines,
+  validateScenario,
+} from '@/lib/simulation/scenarios';
+import { parseScript } from '@/lib/simulation/script-runner';
+import type { ClientPersona, ClientPersonality, SimulationScenarioType } from '@/types/entities';
+import type { CreateScenarioInput, DifficultyLevel, ScenarioScript } from '@/types/simulation.types';
+import {
+  Save,
+  Loader2,
+  User,
+  Users,
+  Home,
+  MessageSquare,
+  UsersRound,
+  FileText,
+  Scale,
+  ListChecks,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+
+interface ScenarioFormProps {
+  initial: CreateScenarioInput;
+  saving: boolean;
+  onSave: (data: CreateScenarioInput) => Promise<void>;
+}
+
+// Select items need a non-empty value, so "no rubric" gets a sentinel
+const BUILT_IN_SKILLS = 'built-in';
+
+// Multi-line list fields are edited as text and split into entries on save
+type ListField = 'motivations' | 'objections' | 'hiddenConcerns' | 'features' | 'successCriteria';
+type PartyListField = 'motivations' | 'objections';
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      {children}
+      {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function SectionTitle({ icon: Icon, children }: { icon: React.ElementType; children: React.ReactNode }) {
+  return (
+    <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+      <Icon className="w-5 h-5 text-violet-500" />
+      {children}
+    </h3>
+  );
+}
+
+/** Scenario editor shared by the create and edit pages */
+export function ScenarioForm({ initial, saving, onSave }: ScenarioFormProps) {
+  const { isRTL } = useLanguage();
+  const { data: groupData } = useAdminGroups();
+  const groups = groupData?.groups ?? [];
+  const { data: rubrics = [] } = useRubrics();
+
+  const [form, setForm] = useState<CreateScenarioInput>(initial);
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    motivations: listToLines(initial.persona.motivations),
+    objections: listToLines(initial.persona.objections),
+    hiddenConcerns: listToLines(initial.persona.hiddenConcerns),
+    features: listToLines(initial.property.features),
+    successCriteria: listToLines(initial.successCriteria),
+  });
+  const [partyLists, setPartyLists] = useState<Record<PartyListField, string>[]>(
+    (initial.additionalPersonas ?? []).map((party) => ({
+      motivations: listToLines(party.motivations),
+      objections: listToLines(party.objections),
+    }))
+  );
+  // Scripts are authored as JSON; parsed and checked on save
+  const [scriptText, setScriptText] = useState(initial.script ? JSON.stringify(initial.script, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<CreateScenarioInput>) => setForm((prev) => ({ ...prev, ...updates }));
+  const updatePersona = (updates: Partial<CreateScenarioInput['persona']>) =>
+    setForm((prev) => ({ ...prev, persona: { ...prev.persona, ...updates } }));
+  const updateProperty = (updates: Partial<CreateScenarioInput['property']>) =>
+    setForm((prev) => ({ ...prev, property: { ...prev.property, ...updates } }));
+
+  const updateParty = (index: number, updates: Partial<ClientPersona>) =>
+    setForm((prev) => ({
+      ...prev,
+      additionalPersonas: (prev.additionalPersonas ?? []).map((p, i) => (i === index ? { ...p, ...updates } : p)),
+    }));
+  const parties = form.additionalPersonas ?? [];
+  const addParty = () => {
+    update({ additionalPersonas: [...parties, emptyParty(parties)] });
+    setPartyLists((prev) => [...prev, { motivations: '', objections: '' }]);
+  };
+  const removeParty = (index: number) => {
+    update({ additionalPersonas: parties.filter((_, i) => i !== index) });
+    setPartyLists((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const toggleGroup = (groupId: string, checked: boolean) => {
+    update({
+      groupIds: checked ? [...form.groupIds, groupId] : form.groupIds.filter((id) => id !== groupId),
+    });
+  };
+
+  const parseCount = (value: string) => {
+    const n = parseInt(value, 10);
+    return Number.isFinite(n) && n >= 0 ? n : null;
+  };
+
+  const handleSave = async () => {
+    let script: ScenarioScript | null = null;
+    if (scriptText.trim()) {
+      const parsed = parseScript(scriptText, isRTL);
+      if (parsed.error) {
+        setError(parsed.error);
+        return;
+      }
+      script = parsed.script;
+    }
+    // A scripted client opens with the script's first line
+    const startLine = script?.nodes.find((node) => node.id === script!.startNodeId)?.clientLine;
+
+    const data: CreateScenarioInput = {
+      ...form,
+      name: form.name.trim(),
+      nameAr: form.nameAr?.trim() || null,
+      description: form.description?.trim() || null,
+      openingLine: startLine ?? form.openingLine.trim(),
+      persona: {
+        ...form.persona,
+        name: form.persona.name.trim(),
+        background: form.persona.background.trim(),
+        budget: form.persona.budget.trim(),
+        motivations: linesToList(lists.motivations),
+        objections: linesToList(lists.objections),
+        hiddenConcerns: linesToList(lists.hiddenConcerns),
+      },
+      additionalPersonas: parties.map((party, index) => ({
+        ...party,
+        name: party.name.trim(),
+        role: party.role?.trim() || null,
+        background: party.background.trim(),
+        motivations: linesToList(partyLists[index].motivations),
+        objections: linesToList(partyLists[index].objections),
+      })),
+      property: { ...form.property, features: linesToList(lists.features) },
+      successCriteria: linesToList(lists.successCriteria),
+      script,
+    };
+    const problem = validateScenario(data, isRTL);
+    setError(problem);
+    if (problem) return;
+    try {
+      await onSave(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save scenario');
+    }
+  };
+
+  const listField = (field: ListField, label: string, placeholder: string) => (
+    <Field label={label} hint={isRTL ? 'عنصر واحد في كل سطر' : 'One per line'}>
+      <Textarea
+        value={lists[field]}
+        onChange={(e) => setLists((prev) => ({ ...prev, [field]: e.target.value }))}
+        placeholder={placeholder}
+        rows={3}
+      />
+    </Field>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Basics */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={FileText}>{isRTL ? 'معلومات السيناريو' : 'Scenario'}</SectionTitle>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label={isRTL ? 'الاسم (EN)' : 'Name (EN)'}>
+              <Input value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'الاسم (AR)' : 'Name (AR)'}>
+              <Input value={form.nameAr ?? ''} onChange={(e) => update({ nameAr: e.target.value })} dir="rtl" />
+            </Field>
+          </div>
+          <Field label={isRTL ? 'الوصف للمتدرب' : 'Description for trainees'}>
+            <Textarea
+              value={form.description ?? ''}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+            />
+          </Field>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <Field label={isRTL ? 'نوع السيناريو' : 'Scenario type'}>
+              <Select
+                value={form.scenarioType}
+                onValueChange={(v) => update({ scenarioType: v as SimulationScenarioType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCENARIO_TYPES.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>{isRTL ? type.labelAr : type.labelEn}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label={isRTL ? 'الصعوبة' : 'Difficulty'}>
+              <Select
+                value={form.difficultyLevel}
+                onValueChange={(v) => update({ difficultyLevel: v as DifficultyLevel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">{isRTL ? 'سهل' : 'Easy'}</SelectItem>
+                  <SelectItem value="medium">{isRTL ? 'متوسط' : 'Medium'}</SelectItem>
+                  <SelectItem value="hard">{isRTL ? 'صعب' : 'Hard'}</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 h-10">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => update({ isActive })} />
+              {isRTL ? 'متاح للمتدربين' : 'Available to trainees'}
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Persona */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={User}>{isRTL ? 'شخصية العميل' : 'Client persona'}</SectionTitle>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Field label={isRTL ? 'اسم العميل' : 'Client name'}>
+              <Input value={form.persona.name} onChange={(e) => updatePersona({ name: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'الشخصية' : 'Personality'}>
+              <Select
+                value={form.persona.personality}
+                onValueChange={(v) => updatePersona({ personality: v as ClientPersonality })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLIENT_PERSONALITIES.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{isRTL ? p.labelAr : p.labelEn}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label={isRTL ? 'الميزانية' : 'Budget'}>
+              <Input
+                value={form.persona.budget}
+                onChange={(e) => updatePersona({ budget: e.target.value })}
+                placeholder={isRTL ? 'مثال: 900 ألف - 1.1 مليون ريال' : 'e.g. 900K - 1.1M SAR'}
+              />
+            </Field>
+          </div>
+          <Field label={isRTL ? 'الخلفية' : 'Background'}>
+            <Textarea
+              value={form.persona.background}
+              onChange={(e) => updatePersona({ background: e.target.value })}
+              placeholder={isRTL ? 'العمر، العمل، العائلة، سبب البحث عن عقار...' : 'Age, job, family, why they are looking...'}
+              rows={3}
+            />
+          </Field>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {listField('motivations', isRTL ? 'الدوافع' : 'Motivations', isRTL ? 'قرب المدارس' : 'Close to schools')}
+            {listField('objections', isRTL ? 'الاعتراضات' : 'Objections', isRTL ? 'السعر مرتفع' : 'The price is too high')}
+            {listField(
+              'hiddenConcerns',
+              isRTL ? 'مخاوف خفية' : 'Hidden concerns',
+              isRTL ? 'لم يحصل على موافقة التمويل بعد' : 'Financing not approved yet'
+            )}
+          </div>
+          <p className="text-xs text-gray-400">
+            {isRTL
+              ? 'المخاوف الخفية لا يذكرها العميل إلا إذا طرح المتدرب الأسئلة الصحيحة، ولا تظهر للمتدرب.'
+              : 'The client only reveals hidden concerns if the trainee asks the right questions. Trainees never see them.'}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Other parties */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={Users}>{isRTL ? 'أطراف أخرى' : 'Other parties'}</SectionTitle>
+            <Button variant="outline" size="sm" onClick={addParty}>
+              <Plus className="w-4 h-4 mr-1" />
+              {isRTL ? 'إضافة طرف' : 'Add party'}
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500">
+            {isRTL
+              ? 'أضف الزوج أو الشريك أو محامي المشتري ليشاركوا في المحادثة. يُقيَّم المتدرب على موازنة اهتمامه بين جميع الأطراف.'
+              : "Add a spouse, a business partner or the buyer's lawyer to join the conversation. The trainee is judged on how well they balance everyone's concerns."}
+          </p>
+          {parties.map((party, index) => (
+            <div key={party.id ?? index} className="rounded-lg border p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-mono text-gray-400" title={isRTL ? 'المعرف المستخدم في المسار الثابت' : 'Id used as speakerId in scripts'}>
+                  {party.id}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeParty(index)}
+                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Field label={isRTL ? 'الاسم' : 'Name'}>
+                  <Input value={party.name} onChange={(e) => updateParty(index, { name: e.target.value })} />
+                </Field>
+                <Field label={isRTL ? 'الدور' : 'Role'}>
+                  <Input
+                    value={party.role ?? ''}
+                    onChange={(e) => updateParty(index, { role: e.target.value })}
+                    placeholder={isRTL ? 'الزوجة، محامي المشتري...' : "Spouse, buyer's lawyer..."}
+                  />
+                </Field>
+                <Field label={isRTL ? 'الشخصية' : 'Personality'}>
+                  <Select
+                    value={party.personality}
+                    onValueChange={(v) => updateParty(index, { personality: v as ClientPersonality })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLIENT_PERSONALITIES.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{isRTL ? p.labelAr : p.labelEn}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+              </div>
+              <Field label={isRTL ? 'الخلفية' : 'Background'}>
+                <Textarea
+                  value={party.background}
+                  onChange={(e) => updateParty(index, { background: e.target.value })}
+                  rows={2}
+                />
+              </Field>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(['motivations', 'objections'] as PartyListField[]).map((field) => (
+                  <Field
+                    key={field}
+                    label={field === 'motivations' ? (isRTL ? 'الدوافع' : 'Motivations') : (isRTL ? 'الاعتراضات' : 'Objections')}
+                    hint={isRTL ? 'عنصر واحد في كل سطر' : 'One per line'}
+                  >
+                    <Textarea
+                      value={partyLists[index][field]}
+                      onChange={(e) =>
+                        setPartyLists((prev) => prev.map((l, i) => (i === index ? { ...l, [field]: e.target.value } : l)))
+                      }
+                      rows={3}
+                    />
+                  </Field>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Property */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={Home}>{isRTL ? 'تفاصيل العقار' : 'Property details'}</SectionTitle>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Field label={isRTL ? 'نوع العقار' : 'Property type'}>
+              <Input
+                value={form.property.propertyType}
+                onChange={(e) => updateProperty({ propertyType: e.target.value })}
+                placeholder={isRTL ? 'فيلا، شقة، أرض...' : 'Villa, apartment, land...'}
+              />
+            </Field>
+            <Field label={isRTL ? 'الموقع' : 'Location'}>
+              <Input value={form.property.location} onChange={(e) => updateProperty({ location: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'السعر' : 'Price'}>
+              <Input value={form.property.price} onChange={(e) => updateProperty({ price: e.target.value })} />
+            </Field>
+            <Field label={isRTL ? 'المساحة (م²)' : 'Area (m²)'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.property.areaSqm ?? ''}
+                onChange={(e) => updateProperty({ areaSqm: parseCount(e.target.value) })}
+              />
+            </Field>
+            <Field label={isRTL ? 'غرف النوم' : 'Bedrooms'}>
+              <Input
+                type="number"
+                min={0}
+                value={form.property.bedrooms ?? ''}
+                onChange={(e) => updateProperty({ bedrooms: parseCount(e.target.value) })}
+              />
+            </Field>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label={isRTL ? 'الوصف' : 'Description'}>
+              <Textarea
+                value={form.property.description}
+                onChange={(e) => updateProperty({ description: e.target.value })}
+                rows={3}
+              />
+            </Field>
+            {listField('features', isRTL ? 'المميزات' : 'Features', isRTL ? 'مسبح خاص' : 'Private pool')}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Conversation */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={MessageSquare}>{isRTL ? 'المحادثة' : 'Conversation'}</SectionTitle>
+          <Field
+            label={isRTL ? 'الجملة الافتتاحية للعميل' : "Client's opening line"}
+            hint={isRTL ? 'أول ما يقوله العميل عند بدء المحاكاة' : 'The first thing the client says when the simulation starts'}
+          >
+            <Textarea
+              value={form.openingLine}
+              onChange={(e) => update({ openingLine: e.target.value })}
+              rows={2}
+            />
+          </Field>
+          {listField(
+            'successCriteria',
+            isRTL ? 'معايير النجاح' : 'Success criteria',
+            isRTL ? 'حجز موعد للمعاينة' : 'Book a viewing appointment'
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Script */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={ListChecks}>{isRTL ? 'مسار ثابت' : 'Scripted dialogue'}</SectionTitle>
+            {!scriptText.trim() && (
+              <Button variant="outline" size="sm" onClick={() => setScriptText(JSON.stringify(EXAMPLE_SCRIPT, null, 2))}>
+                {isRTL ? 'استخدام مثال' : 'Start from example'}
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            {isRTL
+              ? 'اتركه فارغاً ليرد الذكاء الاصطناعي بحرية. مع المسار الثابت يتبع العميل العقد والفروع نفسها في كل مرة، مناسب للاختبارات.'
+              : 'Leave empty for free AI conversation. With a script the client follows the same nodes and branches every time, which suits exams.'}
+          </p>
+          <Textarea
+            value={scriptText}
+            onChange={(e) => setScriptText(e.target.value)}
+            rows={scriptText.trim() ? 16 : 3}
+            className="font-mono text-xs"
+            dir="ltr"
+            placeholder='{ "startNodeId": "...", "intents": [...], "nodes": [...], "passingScore": 70 }'
+          />
+          {scriptText.trim() && (
+            <p className="text-xs text-gray-400">
+              {isRTL
+                ? 'الجملة الافتتاحية تؤخذ من عقدة البداية. العقدة بدون فروع تنهي المحادثة. حدد "speakerId" في العقدة ليقولها طرف آخر.'
+                : 'The opening line is taken from the start node. A node without branches ends the conversation. Set a node\'s "speakerId" to have another party say it.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Scoring */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={Scale}>{isRTL ? 'التقييم' : 'Scoring'}</SectionTitle>
+          <Field
+            label={isRTL ? 'سلم التقييم' : 'Rubric'}
+            hint={isRTL
+              ? 'التقارير تعرض معايير سلم التقييم بدلاً من المهارات الافتراضية'
+              : "Reports show the rubric's criteria instead of the built-in skills"}
+          >
+            <Select
+              value={form.rubricId ?? BUILT_IN_SKILLS}
+              onValueChange={(v) => update({ rubricId: v === BUILT_IN_SKILLS ? null : v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BUILT_IN_SKILLS}>{isRTL ? 'المهارات الافتراضية' : 'Built-in skills'}</SelectItem>
+                {rubrics.map((rubric) => (
+                  <SelectItem key={rubric.id} value={rubric.id}>
+                    {isRTL && rubric.nameAr ? rubric.nameAr : rubric.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+        </CardContent>
+      </Card>
+
+      {/* Assignment */}
+      <Card>
+        <CardContent className="p-5 space-y-4">
+          <SectionTitle icon={UsersRound}>{isRTL ? 'المجموعات' : 'Assigned groups'}</SectionTitle>
+          <p className="text-sm text-gray-500">
+            {isRTL
+              ? 'بدون تحديد مجموعات يكون السيناريو متاحاً لجميع المتدربين في المنظمة.'
+              : 'With no groups selected the scenario is available to every trainee in the organization.'}
+          </p>
+          {groups.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+              {groups.map((group) => (
+                <label key={group.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <Checkbox
+                    checked={form.groupIds.includes(group.id)}
+                    onCheckedChange={(checked) => toggleGroup(group.id, checked === true)}
+                  />
+                  {group.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving} className="bg-violet-500 hover:bg-violet-600">
+          {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+          {isRTL ? 'حفظ السيناريو' : 'Save Scenario'}
+        </Button>
+      </div>
+    </div>
+  );
+}
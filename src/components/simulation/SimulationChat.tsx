@@ -4,11 +4,14 @@ import { useState, useRef, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Send, Loader2, Clock, MessageCircle, StopCircle, Lightbulb, User, UserCircle, Mic, Square } from 'lucide-react';
+import { Send, Loader2, Clock, MessageCircle, StopCircle, Lightbulb, User, UserCircle, Mic, Square, GraduationCap } from 'lucide-react';
 import { useSimulationStore } from '@/stores/simulation.store';
+import { ListingFactSheet } from './ListingFactSheet';
+import { useCoachWhispers } from '@/hooks/useLiveQueries';
 import { cn } from '@/lib/utils/cn';
 import { aiTeacherApi } from '@/lib/api/ai-teacher.api';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { partyStyle, personaInitials, sessionParties, turnSpeaker } from '@/lib/simulation/parties';
 import type { Sentiment } from '@/types/entities';
 
 interface SimulationChatProps {
@@ -42,8 +45,11 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
   const minMessages = minMessagesRequired ?? (isDiagnosticMode ? MIN_DIAGNOSTIC_MESSAGES : 0);
 
   const {
+    sessionId,
     clientPersona,
+    additionalPersonas,
     scenarioContext,
+    listing,
     messages,
     conversationState,
     currentSentiment,
@@ -57,6 +63,8 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
 
   // Detect if content is Arabic based on client persona name
   const isArabicSession = clientPersona?.name ? isArabicText(clientPersona.name) : false;
+  const parties = sessionParties(clientPersona, additionalPersonas);
+  const isMultiParty = parties.length > 1;
 
   // Count trainee messages
   const traineeMessageCount = messages.filter(m => m.speaker === 'trainee').length;
@@ -70,6 +78,10 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
   // Allow interaction on error status too so user can retry
   const isActive = status === 'ready' || status === 'in_progress' || status === 'error';
 
+  // Private hints from a trainer observing the session; the simulated client never sees them
+  const whispers = useCoachWhispers(isActive ? sessionId : null);
+  const latestWhisper = whispers[whispers.length - 1];
+
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
@@ -182,15 +194,32 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
   };
 
   return (
-    <div className="flex flex-col h-[calc(100vh-120px)] max-w-5xl mx-auto">
+    <div className={cn('flex flex-col h-[calc(100vh-120px)] mx-auto', listing ? 'max-w-7xl' : 'max-w-5xl')}>
       {/* Header */}
       <div className="flex items-center justify-between mb-4 px-2">
         {/* Client Info */}
         <div className="flex items-center gap-3">
           <div className="relative">
-            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-800 flex items-center justify-center">
-              <UserCircle className="w-7 h-7 text-slate-500 dark:text-slate-400" />
-            </div>
+            {isMultiParty ? (
+              <div className="flex -space-x-3 rtl:space-x-reverse">
+                {parties.map((party, index) => (
+                  <div
+                    key={party.id ?? index}
+                    className={cn(
+                      'w-12 h-12 rounded-full border-2 border-white dark:border-slate-900 flex items-center justify-center text-sm font-semibold',
+                      partyStyle(index).avatar
+                    )}
+                    title={party.role ? `${party.name} · ${party.role}` : party.name}
+                  >
+                    {index === 0 ? <UserCircle className="w-7 h-7" /> : personaInitials(party.name)}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="w-12 h-12 rounded-full bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-800 flex items-center justify-center">
+                <UserCircle className="w-7 h-7 text-slate-500 dark:text-slate-400" />
+              </div>
+            )}
             <span className={cn(
               'absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 rounded-full border-2 border-white dark:border-slate-900',
               currentSentiment === 'positive' && 'bg-emerald-500',
@@ -203,7 +232,7 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
               'font-semibold text-foreground',
               isArabicSession && 'font-arabic'
             )}>
-              {clientPersona?.name || 'Client'}
+              {isMultiParty ? parties.map((party) => party.name).join(isArabicSession ? ' و' : ' & ') : clientPersona?.name || 'Client'}
             </h2>
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <span className={cn(isArabicSession && 'font-arabic')}>
@@ -263,121 +292,145 @@ export function SimulationChat({ onSendMessage, onEndSimulation, isDiagnosticMod
         </div>
       )}
 
-      {/* Chat Messages Area */}
-      <Card className="flex-1 flex flex-col overflow-hidden border-slate-200 dark:border-slate-800">
-        <div className="flex-1 overflow-y-auto p-4 space-y-1 bg-slate-50/50 dark:bg-slate-900/50">
-          {messages.map((turn, index) => (
-            <MessageBubble
-              key={index}
-              speaker={turn.speaker}
-              message={turn.message}
-              timestamp={turn.timestamp}
-              sentiment={turn.sentiment}
-              isLatest={index === messages.length - 1}
-              clientName={clientPersona?.name}
-              isArabic={isArabicSession}
-            />
-          ))}
-
-          {isTyping && (
-            <MessageBubble
-              speaker="client"
-              message=""
-              timestamp={new Date()}
-              sentiment={null}
-              isTyping
-              clientName={clientPersona?.name}
-              isArabic={isArabicSession}
-            />
-          )}
+      <div className="flex-1 flex gap-4 min-h-0">
+        {/* Chat Messages Area */}
+        <Card className="flex-1 flex flex-col overflow-hidden border-slate-200 dark:border-slate-800">
+          <div className="flex-1 overflow-y-auto p-4 space-y-1 bg-slate-50/50 dark:bg-slate-900/50">
+            {messages.map((turn, index) => {
+              const { persona, index: partyIndex } = turnSpeaker(turn, parties);
+              return (
+                <MessageBubble
+                  key={index}
+                  speaker={turn.speaker}
+                  message={turn.message}
+                  timestamp={turn.timestamp}
+                  sentiment={turn.sentiment}
+                  isLatest={index === messages.length - 1}
+                  clientName={persona?.name}
+                  clientRole={isMultiParty ? persona?.role : null}
+                  partyIndex={partyIndex}
+                  isArabic={isArabicSession}
+                />
+              );
+            })}
 
-          <div ref={messagesEndRef} />
-        </div>
+            {isTyping && (
+              <MessageBubble
+                speaker="client"
+                message=""
+                timestamp={new Date()}
+                sentiment={null}
+                isTyping
+                clientName={isMultiParty ? undefined : clientPersona?.name}
+                isArabic={isArabicSession}
+              />
+            )}
 
-        {/* Tips Section */}
-        {hints.length > 0 && isActive && (
-          <div className="px-4 py-2 bg-amber-50 dark:bg-amber-950/20 border-t border-amber-100 dark:border-amber-900/30">
-            <div className="flex items-start gap-2">
-              <Lightbulb className="w-4 h-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
-              <p className={cn(
-                'text-xs text-amber-700 dark:text-amber-300',
-                isArabicText(hints[0]) && 'font-arabic'
-              )} dir={isArabicText(hints[0]) ? 'rtl' : 'ltr'}>
-                {hints[0]}
-              </p>
-            </div>
+            <div ref={messagesEndRef} />
           </div>
-        )}
 
-        {/* Input Area */}
-        <div className="p-4 border-t border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
-          <div className="flex gap-3 items-center">
-            {/* Voice Recording Button */}
-            <Button
-              size="icon"
-              variant="outline"
-              onClick={isRecording ? stopRecording : startRecording}
-              disabled={!isActive || isSending || isTranscribing}
-              className={cn(
-                'h-11 w-11 rounded-xl shrink-0 border-2 transition-all duration-300',
-                isRecording
-                  ? 'bg-red-500 hover:bg-red-600 text-white border-red-500 animate-pulse shadow-lg shadow-red-500/30'
-                  : 'hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-blue-500/50'
+          {/* Tips Section */}
+          {(hints.length > 0 || latestWhisper) && isActive && (
+            <div className="px-4 py-2 bg-amber-50 dark:bg-amber-950/20 border-t border-amber-100 dark:border-amber-900/30 space-y-1.5">
+              {latestWhisper && (
+                <div className="flex items-start gap-2">
+                  <GraduationCap className="w-4 h-4 text-teal-600 dark:text-teal-400 mt-0.5 shrink-0" />
+                  <p className={cn(
+                    'text-xs text-teal-700 dark:text-teal-300',
+                    isArabicText(latestWhisper.message) && 'font-arabic'
+                  )} dir={isArabicText(latestWhisper.message) ? 'rtl' : 'ltr'}>
+                    <span className="font-semibold">{latestWhisper.trainerName}: </span>
+                    {latestWhisper.message}
+                  </p>
+                </div>
               )}
-              title={isRecording
-                ? (isArabicSession ? 'إيقاف التسجيل' : 'Stop recording')
-                : (isArabicSession ? 'تسجيل صوتي' : 'Voice recording')
-              }
-            >
-              {isTranscribing ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : isRecording ? (
-                <Square className="h-5 w-5" />
-              ) : (
-                <Mic className="h-5 w-5" />
+              {hints.length > 0 && (
+                <div className="flex items-start gap-2">
+                  <Lightbulb className="w-4 h-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
+                  <p className={cn(
+                    'text-xs text-amber-700 dark:text-amber-300',
+                    isArabicText(hints[0]) && 'font-arabic'
+                  )} dir={isArabicText(hints[0]) ? 'rtl' : 'ltr'}>
+                    {hints[0]}
+                  </p>
+                </div>
               )}
-            </Button>
-
-            <div className="flex-1 relative">
-              <input
-                ref={inputRef}
-                type="text"
-                value={inputMessage}
-                onChange={(e) => setInputMessage(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder={isTranscribing
-                  ? (isArabicSession ? 'جاري تحويل الصوت...' : 'Transcribing...')
-                  : isActive
-                    ? (isArabicSession ? "اكتب ردك هنا..." : "Type your message...")
-                    : (isArabicSession ? "انتهت الجلسة" : "Session ended")
-                }
+            </div>
+          )}
+
+          {/* Input Area */}
+          <div className="p-4 border-t border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            <div className="flex gap-3 items-center">
+              {/* Voice Recording Button */}
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={isRecording ? stopRecording : startRecording}
                 disabled={!isActive || isSending || isTranscribing}
                 className={cn(
-                  'w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700',
-                  'bg-slate-50 dark:bg-slate-800',
-                  'text-sm text-foreground placeholder:text-muted-foreground',
-                  'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
-                  'disabled:opacity-50 disabled:cursor-not-allowed',
-                  isArabicSession && 'font-arabic text-right'
+                  'h-11 w-11 rounded-xl shrink-0 border-2 transition-all duration-300',
+                  isRecording
+                    ? 'bg-red-500 hover:bg-red-600 text-white border-red-500 animate-pulse shadow-lg shadow-red-500/30'
+                    : 'hover:bg-slate-100 dark:hover:bg-slate-800 hover:border-blue-500/50'
                 )}
-                dir={isArabicSession ? 'rtl' : 'ltr'}
-              />
+                title={isRecording
+                  ? (isArabicSession ? 'إيقاف التسجيل' : 'Stop recording')
+                  : (isArabicSession ? 'تسجيل صوتي' : 'Voice recording')
+                }
+              >
+                {isTranscribing ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                ) : isRecording ? (
+                  <Square className="h-5 w-5" />
+                ) : (
+                  <Mic className="h-5 w-5" />
+                )}
+              </Button>
+
+              <div className="flex-1 relative">
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={inputMessage}
+                  onChange={(e) => setInputMessage(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={isTranscribing
+                    ? (isArabicSession ? 'جاري تحويل الصوت...' : 'Transcribing...')
+                    : isActive
+                      ? (isArabicSession ? "اكتب ردك هنا..." : "Type your message...")
+                      : (isArabicSession ? "انتهت الجلسة" : "Session ended")
+                  }
+                  disabled={!isActive || isSending || isTranscribing}
+                  className={cn(
+                    'w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700',
+                    'bg-slate-50 dark:bg-slate-800',
+                    'text-sm text-foreground placeholder:text-muted-foreground',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+                    'disabled:opacity-50 disabled:cursor-not-allowed',
+                    isArabicSession && 'font-arabic text-right'
+                  )}
+                  dir={isArabicSession ? 'rtl' : 'ltr'}
+                />
+              </div>
+              <Button
+                onClick={handleSend}
+                disabled={!isActive || !inputMessage.trim() || isSending}
+                size="lg"
+                className="rounded-xl px-6 bg-blue-600 hover:bg-blue-700"
+              >
+                {isSending ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                ) : (
+                  <Send className={cn('h-5 w-5', isArabicSession && 'rotate-180')} />
+                )}
+              </Button>
             </div>
-            <Button
-              onClick={handleSend}
-              disabled={!isActive || !inputMessage.trim() || isSending}
-              size="lg"
-              className="rounded-xl px-6 bg-blue-600 hover:bg-blue-700"
-            >
-              {isSending ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                <Send className={cn('h-5 w-5', isArabicSession && 'rotate-180')} />
-              )}
-            </Button>
           </div>
-        </div>
-      </Card>
+        </Card>
+
+        {/* Listing under discussion */}
+        {listing && <ListingFactSheet listing={listing} className="hidden lg:flex w-80 shrink-0" />}
+      </div>
     </div>
   );
 }
@@ -391,6 +444,9 @@ interface MessageBubbleProps {
   isLatest?: boolean;
   isTyping?: boolean;
   clientName?: string;
+  clientRole?: string | null;
+  /** Position among the session's parties; 0 is the primary client */
+  partyIndex?: number;
   isArabic?: boolean;
 }
 
@@ -402,10 +458,13 @@ function MessageBubble({
   isLatest,
   isTyping,
   clientName,
+  clientRole,
+  partyIndex = 0,
   isArabic,
 }: MessageBubbleProps) {
   const isTrainee = speaker === 'trainee';
   const isArabicMessage = isArabicText(message);
+  const party = partyStyle(partyIndex);
 
   return (
     <div className={cn(
@@ -414,8 +473,8 @@ function MessageBubble({
     )}>
       {/* Client Avatar */}
       {!isTrainee && (
-        <div className="w-9 h-9 rounded-full bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-800 flex items-center justify-center shrink-0">
-          <UserCircle className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+        <div className={cn('w-9 h-9 rounded-full flex items-center justify-center shrink-0 text-xs font-semibold', party.avatar)}>
+          {partyIndex > 0 && clientName ? personaInitials(clientName) : <UserCircle className="w-5 h-5" />}
         </div>
       )}
 
@@ -427,10 +486,12 @@ function MessageBubble({
         {/* Client Name */}
         {!isTrainee && clientName && !isTyping && (
           <span className={cn(
-            'text-xs font-medium text-slate-500 dark:text-slate-400 mb-1 px-1',
+            'text-xs font-medium mb-1 px-1',
+            party.name,
             isArabic && 'font-arabic'
           )}>
             {clientName}
+            {clientRole && <span className="font-normal text-slate-400"> · {clientRole}</span>}
           </span>
         )}
 
@@ -1,11 +1,11 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { voiceCallApi, VoiceCallMessage } from '@/lib/api/voice-call.api';
+import { useVoiceCall } from '@/hooks/useVoiceCall';
 import { cn } from '@/lib/utils';
 import type { SimulationScenarioType, DifficultyLevel } from '@/types';
 import {
@@ -26,12 +26,6 @@ import {
   Award,
 } from 'lucide-react';
 
-// Use any for speech recognition to avoid global type conflicts with useVoiceCall hook
-/* eslint-disable @typescript-eslint/no-explicit-any */
-type SpeechRecognitionInstance = any;
-type SpeechRecognitionEvent = any;
-/* eslint-enable @typescript-eslint/no-explicit-any */
-
 interface SimulationVoiceCallProps {
   scenarioType: SimulationScenarioType;
   difficultyLevel: DifficultyLevel;
@@ -39,38 +33,34 @@ interface SimulationVoiceCallProps {
   onBack: () => void;
 }
 
-type CallStatus = 'idle' | 'connecting' | 'active' | 'processing' | 'speaking' | 'ended';
-
-interface CallSummary {
-  summary: string;
-  totalMessages: number;
-  durationSeconds: number;
-  feedback?: string;
-}
-
 export function SimulationVoiceCall({
   scenarioType,
   difficultyLevel,
   onEnd,
   onBack,
 }: SimulationVoiceCallProps) {
-  const [callId, setCallId] = useState<string | null>(null);
-  const [status, setStatus] = useState<CallStatus>('idle');
-  const [messages, setMessages] = useState<VoiceCallMessage[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const {
+    status,
+    messages,
+    error,
+    isListening,
+    isSpeaking,
+    interimTranscript,
+    callSummary,
+    startCall: startVoiceCall,
+    sendMessage,
+    endCall,
+    startListening,
+    stopListening,
+    toggleListening,
+    clearError,
+  } = useVoiceCall({ input: 'browser', language: 'ar', handsFree: true });
   const [textInput, setTextInput] = useState('');
   const [useTextInput, setUseTextInput] = useState(false);
-  const [callSummary, setCallSummary] = useState<CallSummary | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [interimTranscript, setInterimTranscript] = useState('');
 
-  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const autoRestartRef = useRef(false);
 
   // Auto-scroll messages
   useEffect(() => {
@@ -105,250 +95,23 @@ export function SimulationVoiceCall({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Initialize speech recognition
-  const initSpeechRecognition = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      console.warn('Speech recognition not supported');
-      return null;
-    }
-
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = 'ar-SA'; // Arabic Saudi
-
-    recognition.addEventListener('start', () => {
-      console.log('[VoiceCall] Speech recognition started');
-      setIsListening(true);
-    });
-
-    recognition.addEventListener('result', (event: SpeechRecognitionEvent) => {
-      let finalTranscript = '';
-      let interim = '';
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
-        if (result.isFinal) {
-          finalTranscript += result[0].transcript;
-        } else {
-          interim += result[0].transcript;
-        }
-      }
-
-      setInterimTranscript(interim);
-
-      if (finalTranscript.trim()) {
-        console.log('[VoiceCall] Final transcript:', finalTranscript);
-        setInterimTranscript('');
-        sendMessage(finalTranscript.trim());
-      }
-    });
-
-    recognition.addEventListener('error', (event: { error: string }) => {
-      console.error('[VoiceCall] Speech recognition error:', event.error);
-      if (event.error !== 'no-speech' && event.error !== 'aborted') {
-        setError(`Speech recognition error: ${event.error}`);
-      }
-      setIsListening(false);
-    });
-
-    recognition.addEventListener('end', () => {
-      console.log('[VoiceCall] Speech recognition ended');
-      setIsListening(false);
-      // Auto-restart if we should be listening
-      if (autoRestartRef.current && status === 'active') {
-        setTimeout(() => {
-          if (autoRestartRef.current && recognitionRef.current) {
-            try {
-              recognitionRef.current.start();
-            } catch (e) {
-              console.log('[VoiceCall] Could not restart recognition');
-            }
-          }
-        }, 100);
-      }
-    });
-
-    return recognition;
-  }, [status]);
-
-  // Play audio from base64
-  const playAudio = useCallback(async (base64Audio: string) => {
-    return new Promise<void>((resolve) => {
-      setIsSpeaking(true);
-      setStatus('speaking');
-
-      // Stop listening while AI speaks
-      if (recognitionRef.current && isListening) {
-        autoRestartRef.current = true;
-        recognitionRef.current.stop();
-      }
-
-      const audio = new Audio(`data:audio/mpeg;base64,${base64Audio}`);
-      audioRef.current = audio;
-
-      audio.onended = () => {
-        setIsSpeaking(false);
-        setStatus('active');
-        // Resume listening after AI finishes speaking
-        if (autoRestartRef.current && recognitionRef.current) {
-          setTimeout(() => {
-            try {
-              recognitionRef.current?.start();
-            } catch (e) {
-              console.log('[VoiceCall] Could not resume listening');
-            }
-          }, 300);
-        }
-        resolve();
-      };
-
-      audio.onerror = () => {
-        setIsSpeaking(false);
-        setStatus('active');
-        resolve();
-      };
-
-      audio.play().catch((e) => {
-        console.error('[VoiceCall] Audio playback error:', e);
-        setIsSpeaking(false);
-        setStatus('active');
-        resolve();
-      });
-    });
-  }, [isListening]);
-
   // Start call
   const startCall = async () => {
-    setStatus('connecting');
-    setError(null);
     setElapsedTime(0);
-
-    try {
-      const response = await voiceCallApi.startCall({
-        scenarioType,
-        language: 'ar',
-      });
-
-      setCallId(response.callId);
-      setMessages([{ role: 'assistant', content: response.greeting }]);
-      setStatus('active');
-
-      // Play greeting audio
-      if (response.greetingAudioBase64) {
-        await playAudio(response.greetingAudioBase64);
-      }
-
-      // Initialize and start speech recognition
-      if (!recognitionRef.current) {
-        recognitionRef.current = initSpeechRecognition();
-      }
-      if (recognitionRef.current && !useTextInput) {
-        autoRestartRef.current = true;
-        try {
-          recognitionRef.current.start();
-        } catch (e) {
-          console.log('[VoiceCall] Recognition already started');
-        }
-      }
-    } catch (err) {
-      console.error('[VoiceCall] Error starting call:', err);
-      setError('Failed to start call. Please try again.');
-      setStatus('idle');
-    }
-  };
-
-  // Send message
-  const sendMessage = async (message: string) => {
-    if (!callId || !message.trim() || status === 'processing' || status === 'speaking') {
-      return;
-    }
-
-    // Stop listening while processing
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
-    }
-
-    setStatus('processing');
-    setMessages((prev) => [...prev, { role: 'user', content: message }]);
-
-    try {
-      const response = await voiceCallApi.sendMessage({
-        callId,
-        message,
-        includeAudio: true,
-      });
-
-      setMessages((prev) => [...prev, { role: 'assistant', content: response.aiResponse }]);
-
-      // Play response audio
-      if (response.audioBase64) {
-        await playAudio(response.audioBase64);
-      } else {
-        setStatus('active');
-        // Resume listening if no audio
-        if (autoRestartRef.current && recognitionRef.current) {
-          try {
-            recognitionRef.current.start();
-          } catch (e) {
-            console.log('[VoiceCall] Recognition already started');
-          }
-        }
-      }
-    } catch (err) {
-      console.error('[VoiceCall] Error sending message:', err);
-      setError('Failed to send message. Please try again.');
-      setStatus('active');
-    }
-  };
-
-  // End call
-  const endCall = async () => {
-    if (!callId) return;
-
-    autoRestartRef.current = false;
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-    }
-
-    setStatus('processing');
-
-    try {
-      const response = await voiceCallApi.endCall({
-        callId,
-        endReason: 'completed',
-      });
-
-      setCallSummary(response);
-      setStatus('ended');
-    } catch (err) {
-      console.error('[VoiceCall] Error ending call:', err);
-      setError('Failed to end call properly.');
-      setStatus('ended');
-    }
+    await startVoiceCall({
+      scenarioType,
+      language: 'ar',
+    });
   };
 
-  // Toggle listening
-  const toggleListening = () => {
-    if (!recognitionRef.current) {
-      recognitionRef.current = initSpeechRecognition();
-    }
-
-    if (isListening) {
-      autoRestartRef.current = false;
-      recognitionRef.current?.stop();
+  // Switch between speaking and typing
+  const toggleTextInput = () => {
+    if (useTextInput) {
+      startListening();
     } else {
-      autoRestartRef.current = true;
-      try {
-        recognitionRef.current?.start();
-      } catch (e) {
-        console.log('[VoiceCall] Recognition already running');
-      }
+      stopListening();
     }
+    setUseTextInput(!useTextInput);
   };
 
   // Send text message
@@ -359,22 +122,6 @@ export function SimulationVoiceCall({
     }
   };
 
-  // Cleanup
-  useEffect(() => {
-    return () => {
-      autoRestartRef.current = false;
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, []);
-
   // Call Summary View
   if (status === 'ended' && callSummary) {
     return (
@@ -421,8 +168,8 @@ export function SimulationVoiceCall({
     );
   }
 
-  // Idle / Start Call View
-  if (status === 'idle') {
+  // Idle / Start Call View (also when the call failed to connect)
+  if (status === 'idle' || (status === 'error' && messages.length === 0)) {
     return (
       <Card className="border-blue-200 dark:border-blue-800">
         <CardHeader className="text-center">
@@ -445,6 +192,13 @@ export function SimulationVoiceCall({
             </p>
           </div>
 
+          {error && (
+            <div className="p-3 bg-rose-50 dark:bg-rose-950/30 border border-rose-200 dark:border-rose-800 rounded-lg text-rose-700 dark:text-rose-300 text-sm flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
           <div className="flex gap-3 justify-center">
             <Button variant="outline" onClick={onBack}>
               <ArrowLeft className="h-4 w-4 mr-2" />
@@ -515,8 +269,8 @@ export function SimulationVoiceCall({
           <Button
             variant="destructive"
             size="sm"
-            onClick={endCall}
-            disabled={status === 'processing'}
+            onClick={() => endCall('completed')}
+            disabled={status === 'processing' || status === 'ending'}
           >
             <PhoneOff className="h-4 w-4 mr-2" />
             End Call
@@ -593,7 +347,7 @@ export function SimulationVoiceCall({
           <div className="mb-3 p-3 bg-rose-50 dark:bg-rose-950/30 border border-rose-200 dark:border-rose-800 rounded-lg text-rose-700 dark:text-rose-300 text-sm flex items-center gap-2">
             <AlertCircle className="h-4 w-4" />
             {error}
-            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setError(null)}>
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={clearError}>
               Dismiss
             </Button>
           </div>
@@ -604,7 +358,7 @@ export function SimulationVoiceCall({
           <Button
             variant="outline"
             size="icon"
-            onClick={() => setUseTextInput(!useTextInput)}
+            onClick={toggleTextInput}
             className="flex-shrink-0"
             title={useTextInput ? 'Switch to voice input' : 'Switch to text input'}
           >
@@ -810,6 +810,28 @@ interface Translations {
     confirmDeleteDesc: string;
   };
 
+  // Certificates
+  certificate: {
+    certificates: string;
+    certificatesDesc: string;
+    myCertificates: string;
+    certificate: string;
+    noCertificates: string;
+    noCertificatesDesc: string;
+    downloadPdf: string;
+    verificationCode: string;
+    issuedOn: string;
+    copyLink: string;
+    linkCopied: string;
+    verifyCertificate: string;
+    valid: string;
+    revoked: string;
+    notFound: string;
+    quizCertificate: string;
+    courseCertificate: string;
+    certificateEarned: string;
+  };
+
   // AI Brain
   brain: {
     title: string;
@@ -1687,6 +1709,26 @@ const TRANSLATIONS: Record<Language, Translations> = {
       confirmDeleteDesc: 'هل أنت متأكد من حذف هذه المجموعة؟ لا يمكن التراجع.',
     },
 
+    certificate: {
+      certificates: 'الشهادات',
+      certificatesDesc: 'شهاداتك المكتسبة',
+      myCertificates: 'شهاداتي',
+      certificate: 'شهادة',
+      noCertificates: 'لا توجد شهادات بعد',
+      noCertificatesDesc: 'اجتز اختباراً أو أكمل دورة للحصول على شهادة',
+      downloadPdf: 'تحميل PDF',
+      verificationCode: 'رمز التحقق',
+      issuedOn: 'تاريخ الإصدار',
+      copyLink: 'نسخ رابط التحقق',
+      linkCopied: 'تم نسخ الرابط',
+      verifyCertificate: 'التحقق من الشهادة',
+      valid: 'شهادة صالحة',
+      revoked: 'شهادة ملغاة',
+      notFound: 'لم يتم العثور على شهادة بهذا الرمز',
+      quizCertificate: 'اختبار',
+      courseCertificate: 'دورة',
+      certificateEarned: 'لقد حصلت على شهادة!',
+    },
     brain: {
       title: 'العقل الذكي',
       subtitle: 'قاعدة المعرفة لتدريب الذكاء الاصطناعي',
@@ -2558,6 +2600,26 @@ const TRANSLATIONS: Record<Language, Translations> = {
       confirmDeleteDesc: 'Are you sure you want to delete this deck? This action cannot be undone.',
     },
 
+    certificate: {
+      certificates: 'Certificates',
+      certificatesDesc: 'Your earned certificates',
+      myCertificates: 'My Certificates',
+      certificate: 'Certificate',
+      noCertificates: 'No certificates yet',
+      noCertificatesDesc: 'Pass a quiz or complete a course to earn one',
+      downloadPdf: 'Download PDF',
+      verificationCode: 'Verification code',
+      issuedOn: 'Issued on',
+      copyLink: 'Copy verification link',
+      linkCopied: 'Link copied',
+      verifyCertificate: 'Verify Certificate',
+      valid: 'Valid certificate',
+      revoked: 'Revoked certificate',
+      notFound: 'No certificate found for this code',
+      quizCertificate: 'Quiz',
+      courseCertificate: 'Course',
+      certificateEarned: 'You earned a certificate!',
+    },
     brain: {
       title: 'AI Brain',
       subtitle: 'Knowledge base for AI training',
@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useAuthStore } from '@/stores/auth.store';
+
+/**
+ * Server-state cache for the platform
+ *
+ * Provides:
+ * - A shared TanStack Query client per browser session
+ * - Background refetch on window focus and reconnect
+ * - No query-level retries (ApiClient already retries idempotent requests)
+ * - Cache reset on sign-out so the next user never sees stale data
+ */
+
+// Data younger than this is served from cache without a refetch
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+function createQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: DEFAULT_STALE_TIME_MS,
+        refetchOnWindowFocus: true,
+        refetchOnReconnect: true,
+        retry: false,
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
+}
+
+export function QueryProvider({ children }: { children: React.ReactNode }) {
+  // One client per mount so server renders never share cached data between users
+  const [queryClient] = useState(createQueryClient);
+
+  useEffect(() => {
+    return useAuthStore.subscribe((state, prevState) => {
+      if (prevState.token && !state.token) {
+        queryClient.clear();
+      }
+    });
+  }, [queryClient]);
+
+  return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+}
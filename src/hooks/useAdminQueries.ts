@@ -0,0 +1,97 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api/admin.api';
+import { adminKeys, type EmployeeListParams } from '@/lib/api/query-keys';
+
+// Admin lists refresh in the background so changes by other admins show up
+export const ADMIN_LIST_REFETCH_MS = 60 * 1000;
+
+// ─── Queries ──────────────────────────────────────────────
+
+export function useAdminDashboard() {
+  return useQuery({
+    queryKey: adminKeys.dashboard(),
+    queryFn: () => adminApi.getDashboard(),
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function useEmployees(params: EmployeeListParams) {
+  return useQuery({
+    queryKey: adminKeys.employeeList(params),
+    queryFn: () => adminApi.getEmployees(params),
+    // Keep the current page on screen while the next page / search loads
+    placeholderData: keepPreviousData,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function useEmployee(id: string) {
+  return useQuery({
+    queryKey: adminKeys.employee(id),
+    queryFn: () => adminApi.getEmployee(id),
+    enabled: !!id,
+  });
+}
+
+export function useAdminGroups() {
+  return useQuery({
+    queryKey: adminKeys.groups(),
+    queryFn: () => adminApi.getGroups(),
+  });
+}
+
+// ─── Mutations ────────────────────────────────────────────
+
+/** Employee changes affect the list, the detail page and the dashboard counters */
+function useInvalidateEmployees() {
+  const queryClient = useQueryClient();
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: adminKeys.employees() }),
+      queryClient.invalidateQueries({ queryKey: adminKeys.dashboard() }),
+    ]);
+}
+
+export function useCreateEmployee() {
+  const invalidate = useInvalidateEmployees();
+  return useMutation({
+    mutationFn: (data: Parameters<typeof adminApi.createEmployee>[0]) => adminApi.createEmployee(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateEmployee() {
+  const invalidate = useInvalidateEmployees();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Parameters<typeof adminApi.updateEmployee>[1] }) =>
+      adminApi.updateEmployee(id, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateEmployeeStatus() {
+  const invalidate = useInvalidateEmployees();
+  return useMutation({
+    mutationFn: ({ id, status, reason }: { id: string; status: 'active' | 'suspended'; reason?: string }) =>
+      adminApi.updateEmployeeStatus(id, status, reason),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateEmployeeRole() {
+  const invalidate = useInvalidateEmployees();
+  return useMutation({
+    mutationFn: ({ id, role }: { id: string; role: string }) => adminApi.updateEmployeeRole(id, role),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteEmployee() {
+  const invalidate = useInvalidateEmployees();
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteEmployee(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { annotationApi } from '@/lib/api/annotation.api';
+import { annotationKeys } from '@/lib/api/query-keys';
+import type { CreateTranscriptCommentInput, TranscriptComment } from '@/types/simulation.types';
+
+/** Who is looking at the transcript: the trainee themselves, or a trainer in the admin area */
+export type AnnotationScope = 'trainee' | 'admin';
+
+// How often the trainee's feedback badge checks for new trainer notes
+const UNREAD_FEEDBACK_REFETCH_MS = 60 * 1000;
+
+// ─── Shared ───────────────────────────────────────────────
+
+export function useTranscriptComments(sessionId: string | null, scope: AnnotationScope) {
+  return useQuery({
+    queryKey: annotationKeys.session(sessionId ?? '', scope),
+    queryFn: () =>
+      scope === 'admin'
+        ? annotationApi.getTraineeSessionComments(sessionId!)
+        : annotationApi.getSessionComments(sessionId!),
+    enabled: !!sessionId,
+    select: (data) => data.comments,
+  });
+}
+
+/** Trainers add notes and replies; trainees can only reply */
+export function usePostTranscriptComment(sessionId: string, scope: AnnotationScope) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: CreateTranscriptCommentInput) =>
+      scope === 'admin'
+        ? annotationApi.addComment(sessionId, input)
+        : annotationApi.replyToComment(sessionId, input),
+    onSuccess: (comment: TranscriptComment) => {
+      queryClient.setQueryData<{ comments: TranscriptComment[] }>(
+        annotationKeys.session(sessionId, scope),
+        (old) => (old ? { comments: [...old.comments, comment] } : old)
+      );
+    },
+  });
+}
+
+// ─── Trainee ──────────────────────────────────────────────
+
+export function useUnreadFeedback(enabled = true) {
+  return useQuery({
+    queryKey: annotationKeys.unread(),
+    queryFn: () => annotationApi.getUnreadFeedback(),
+    select: (data) => data.sessions,
+    enabled,
+    refetchInterval: UNREAD_FEEDBACK_REFETCH_MS,
+  });
+}
+
+export function useMarkFeedbackRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (sessionId: string) => annotationApi.markFeedbackRead(sessionId),
+    onSuccess: (_data, sessionId) => {
+      queryClient.setQueryData<{ sessions: { sessionId: string }[] }>(annotationKeys.unread(), (old) =>
+        old ? { ...old, sessions: old.sessions.filter((s) => s.sessionId !== sessionId) } : old
+      );
+    },
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useDeleteTranscriptComment(sessionId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (commentId: string) => annotationApi.deleteComment(sessionId, commentId),
+    onSuccess: (_data, commentId) => {
+      // Replies go with their thread
+      queryClient.setQueryData<{ comments: TranscriptComment[] }>(annotationKeys.session(sessionId, 'admin'), (old) =>
+        old
+          ? { comments: old.comments.filter((c) => c.id !== commentId && c.parentId !== commentId) }
+          : old
+      );
+    },
+  });
+}
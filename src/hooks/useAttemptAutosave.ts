@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { quizApi } from '@/lib/api/quiz.api';
+import { RequestCancelledError } from '@/lib/api/client';
+import type { SubmitResponseInput } from '@/types/quiz';
+
+// Long enough to coalesce typing and re-ordering into one request per question
+const AUTOSAVE_DELAY_MS = 800;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Saves quiz answers to the attempt as the trainee works, one request per
+ * question. Failed saves stay queued and are retried on the next change or
+ * when the browser comes back online; the final submit sends every answer
+ * regardless, so a failed autosave never loses work. Call `pause` when the
+ * submit starts so no save lands on a submitted attempt, then `cancel` once it
+ * went through or `resume` if it failed.
+ */
+export function useAttemptAutosave(attemptId: string | null) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const pending = useRef<Record<string, SubmitResponseInput>>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Set while the attempt is being (or has been) submitted
+  const paused = useRef(false);
+  const inFlight = useRef(new AbortController());
+
+  const clearTimers = useCallback(() => {
+    Object.values(timers.current).forEach(clearTimeout);
+    timers.current = {};
+  }, []);
+
+  const saveQuestion = useCallback(async (questionId: string) => {
+    const response = pending.current[questionId];
+    if (!attemptId || !response || paused.current) return;
+    clearTimeout(timers.current[questionId]);
+    delete timers.current[questionId];
+
+    setStatus('saving');
+    try {
+      await quizApi.saveResponse(attemptId, response, { signal: inFlight.current.signal });
+      // A newer answer may have been queued while this one was in flight
+      if (pending.current[questionId] === response) delete pending.current[questionId];
+      setLastSavedAt(new Date());
+      setStatus(Object.keys(pending.current).length > 0 ? 'saving' : 'saved');
+    } catch (err) {
+      // Stopped by pause(); the answer stays queued
+      if (err instanceof RequestCancelledError) return;
+      console.error('[Quiz] Autosave failed:', err);
+      setStatus('error');
+    }
+  }, [attemptId]);
+
+  const flush = useCallback(async () => {
+    await Promise.all(Object.keys(pending.current).map(saveQuestion));
+  }, [saveQuestion]);
+
+  const queue = useCallback((response: SubmitResponseInput) => {
+    pending.current[response.questionId] = response;
+    clearTimeout(timers.current[response.questionId]);
+    if (paused.current) return;
+    timers.current[response.questionId] = setTimeout(() => saveQuestion(response.questionId), AUTOSAVE_DELAY_MS);
+  }, [saveQuestion]);
+
+  /** Stop saving while the attempt is submitted: waiting saves are held and one in flight is aborted */
+  const pause = useCallback(() => {
+    paused.current = true;
+    clearTimers();
+    inFlight.current.abort();
+    inFlight.current = new AbortController();
+  }, [clearTimers]);
+
+  /** Start saving again after a failed submit */
+  const resume = useCallback(() => {
+    paused.current = false;
+    flush();
+  }, [flush]);
+
+  /** Drop queued saves once the attempt has been submitted */
+  const cancel = useCallback(() => {
+    paused.current = true;
+    clearTimers();
+    pending.current = {};
+  }, [clearTimers]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      flush();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flush]);
+
+  // Leaving the page (e.g. back to the quiz list) shouldn't drop the last answer
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+  useEffect(() => () => {
+    flushRef.current();
+  }, []);
+
+  return { status, lastSavedAt, queue, flush, pause, resume, cancel };
+}
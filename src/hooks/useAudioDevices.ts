@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { getAudioDevices } from '@/lib/audio/devices';
+import type { AudioDeviceSelection, AudioDevicesSnapshot } from '@/lib/audio/devices';
+import { useAuthStore } from '@/stores/auth.store';
+import { useAudioDevicesStore } from '@/stores/audioDevices.store';
+
+const EMPTY: AudioDevicesSnapshot = { inputs: [], outputs: [], inputId: null, outputId: null };
+
+// ElevenLabs recreates the stream in this format when it can't switch in place
+const CONVERSATION_FORMAT = { format: 'pcm', sampleRate: 16000 } as const;
+
+/** Available microphones/speakers and the ones in use, remembered per user */
+export function useAudioDevices() {
+  const devices = getAudioDevices();
+  const snapshot = useSyncExternalStore(devices.subscribe, devices.getSnapshot, () => EMPTY);
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  const saved = useAudioDevicesStore((state) => (userId ? state.byUser[userId] : undefined));
+  const setSelection = useAudioDevicesStore((state) => state.setSelection);
+
+  // Restore the signed-in user's choice
+  const savedInputId = saved?.inputId ?? null;
+  const savedOutputId = saved?.outputId ?? null;
+  useEffect(() => {
+    getAudioDevices().setPreferred({ inputId: savedInputId, outputId: savedOutputId });
+  }, [savedInputId, savedOutputId]);
+
+  const select = useCallback((selection: Partial<AudioDeviceSelection>) => {
+    const current = getAudioDevices();
+    current.select(selection);
+    if (userId) setSelection(userId, { inputId: current.inputId, outputId: current.outputId });
+  }, [userId, setSelection]);
+
+  const refresh = useCallback(() => getAudioDevices().refresh(), []);
+
+  return { ...snapshot, select, refresh };
+}
+
+interface SwitchableConversation {
+  changeInputDevice: (config: typeof CONVERSATION_FORMAT & { inputDeviceId?: string }) => Promise<unknown>;
+  changeOutputDevice: (config: typeof CONVERSATION_FORMAT & { outputDeviceId?: string }) => Promise<unknown>;
+}
+
+/**
+ * Device ids for `startSession`, and moves a live ElevenLabs conversation
+ * to another microphone/speaker when the selection changes mid-call
+ */
+export function useConversationDevices(conversation: SwitchableConversation, active: boolean) {
+  const { inputId, outputId } = useAudioDevices();
+  const appliedRef = useRef<AudioDeviceSelection | null>(null);
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+
+  useEffect(() => {
+    if (!active) {
+      appliedRef.current = null;
+      return;
+    }
+    const applied = appliedRef.current;
+    appliedRef.current = { inputId, outputId };
+    // The session started on these devices
+    if (!applied) return;
+
+    if (applied.inputId !== inputId) {
+      conversationRef.current
+        .changeInputDevice({ ...CONVERSATION_FORMAT, inputDeviceId: inputId ?? undefined })
+        .catch((error) => console.error('[AudioDevices] Could not switch microphone:', error));
+    }
+    if (applied.outputId !== outputId) {
+      conversationRef.current
+        .changeOutputDevice({ ...CONVERSATION_FORMAT, outputDeviceId: outputId ?? undefined })
+        .catch((error) => console.error('[AudioDevices] Could not switch speaker:', error));
+    }
+  }, [active, inputId, outputId]);
+
+  return useMemo(
+    () => ({ inputDeviceId: inputId ?? undefined, outputDeviceId: outputId ?? undefined }),
+    [inputId, outputId]
+  );
+}
@@ -5,11 +5,27 @@ import { useRouter } from 'next/navigation';
 import { useAuthStore, normalizeRole, type UserRole } from '@/stores/auth.store';
 import { authApi, type LoginInput, type RegisterInput } from '@/lib/api/auth.api';
 
+/**
+ * Only accept same-origin paths as a post-login destination
+ * (no protocol-relative URLs, no backslashes or control characters - browsers
+ * read `/\host` and `/\t/host` as `//host` - and no bouncing back to the auth pages).
+ */
+export function getSafeReturnTo(returnTo: string | null | undefined): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//')) return null;
+  if (/[\\\x00-\x1f]/.test(returnTo)) return null;
+  if (typeof window !== 'undefined') {
+    const url = new URL(returnTo, window.location.origin);
+    if (url.origin !== window.location.origin) return null;
+  }
+  if (returnTo.startsWith('/login') || returnTo.startsWith('/register')) return null;
+  return returnTo;
+}
+
 export function useAuth() {
   const router = useRouter();
   const { token, user, isAuthenticated, setAuth, logout: storeLogout } = useAuthStore();
 
-  const login = useCallback(async (input: LoginInput) => {
+  const login = useCallback(async (input: LoginInput, options?: { returnTo?: string | null }) => {
     const result = await authApi.login(input);
     // The setAuth function normalizes the role internally, but we cast for TypeScript
     // Include all user data including assignedTeacher, assignedTeacherId, currentSkillLevel
@@ -24,10 +40,16 @@ export function useAuth() {
       assignedTeacherDisplayNameEn: result.user.assignedTeacherDisplayNameEn || null,
       assignedTeacherVoiceId: result.user.assignedTeacherVoiceId || null,
     };
-    setAuth(result.accessToken, userWithTypedRole);
-    // Redirect based on role
+    setAuth(result.accessToken, userWithTypedRole, {
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
+    });
+    // Return to the page the session expired on, otherwise redirect based on role
+    const returnTo = getSafeReturnTo(options?.returnTo);
     const role = userWithTypedRole.role;
-    if (role === 'saas_super_admin') {
+    if (returnTo) {
+      router.replace(returnTo);
+    } else if (role === 'saas_super_admin') {
       router.push('/super-admin');
     } else if (role === 'org_admin' || role === 'trainer') {
       router.push('/admin');
@@ -52,7 +74,10 @@ export function useAuth() {
       assignedTeacherDisplayNameEn: result.user.assignedTeacherDisplayNameEn || null,
       assignedTeacherVoiceId: result.user.assignedTeacherVoiceId || null,
     };
-    setAuth(result.accessToken, userWithTypedRole);
+    setAuth(result.accessToken, userWithTypedRole, {
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
+    });
     // New organization creators (org_admin) go to admin, trainees go to dashboard
     const role = userWithTypedRole.role;
     if (role === 'saas_super_admin') {
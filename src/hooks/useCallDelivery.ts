@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { DeliveryRecorder } from '@/lib/audio/delivery-metrics';
+import type { DeliveryMetrics } from '@/types';
+
+const LEVEL_SAMPLE_MS = 100;
+
+/**
+ * Records speech delivery during an ElevenLabs call. Pass `onModeChange` and
+ * `onMessage` to useConversation, `begin` once the session started and
+ * `finish` when it ends.
+ */
+export function useCallDelivery() {
+  const recorderRef = useRef<DeliveryRecorder | null>(null);
+  const samplerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopSampling = useCallback(() => {
+    if (samplerRef.current) clearInterval(samplerRef.current);
+    samplerRef.current = null;
+  }, []);
+
+  /** Start a new recording, sampling the trainee's microphone level */
+  const begin = useCallback((getInputVolume: () => number) => {
+    stopSampling();
+    const recorder = new DeliveryRecorder();
+    recorderRef.current = recorder;
+    samplerRef.current = setInterval(() => recorder.sampleLevel('trainee', getInputVolume()), LEVEL_SAMPLE_MS);
+  }, [stopSampling]);
+
+  // The agent's speaking mode marks when the client talks
+  const onModeChange = useCallback(({ mode }: { mode: 'speaking' | 'listening' }) => {
+    if (mode === 'speaking') recorderRef.current?.speechStart('client');
+    else recorderRef.current?.speechEnd('client');
+  }, []);
+
+  const onMessage = useCallback(({ message, role }: { message: string; role: 'user' | 'agent' }) => {
+    if (role === 'user') recorderRef.current?.traineeTranscript(message);
+  }, []);
+
+  /** Stop recording; null when no call was recorded */
+  const finish = useCallback((): DeliveryMetrics | null => {
+    stopSampling();
+    const metrics = recorderRef.current?.finish() ?? null;
+    recorderRef.current = null;
+    return metrics;
+  }, [stopSampling]);
+
+  useEffect(() => stopSampling, [stopSampling]);
+
+  return useMemo(() => ({ begin, onModeChange, onMessage, finish }), [begin, onModeChange, onMessage, finish]);
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { certificateApi } from '@/lib/api/certificate.api';
+import { certificateKeys } from '@/lib/api/query-keys';
+import type {
+  CertificateSettings,
+  IssuedCertificateListParams,
+  UpdateCertificateSettingsInput,
+} from '@/types/certificate';
+
+// ─── Trainee ──────────────────────────────────────────────
+
+export function useMyCertificates() {
+  return useQuery({
+    queryKey: certificateKeys.mine(),
+    queryFn: () => certificateApi.getMyCertificates(),
+    select: (data) => data.certificates,
+  });
+}
+
+export function useCertificate(certificateId: string | null | undefined) {
+  return useQuery({
+    queryKey: certificateKeys.detail(certificateId ?? ''),
+    queryFn: () => certificateApi.getCertificate(certificateId!),
+    enabled: !!certificateId,
+  });
+}
+
+// ─── Public ───────────────────────────────────────────────
+
+/** A certificate never changes after issue apart from revocation, so no background refetch */
+export function useVerifyCertificate(code: string) {
+  return useQuery({
+    queryKey: certificateKeys.verify(code),
+    queryFn: () => certificateApi.verifyCertificate(code),
+    enabled: !!code,
+    refetchOnWindowFocus: false,
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useCertificateSettings() {
+  return useQuery({
+    queryKey: certificateKeys.settings(),
+    queryFn: () => certificateApi.getSettings(),
+    // The settings form is edited in local state; a refetch would not reach it anyway
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useUpdateCertificateSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: UpdateCertificateSettingsInput) => certificateApi.updateSettings(data),
+    onSuccess: (settings: CertificateSettings) => {
+      queryClient.setQueryData(certificateKeys.settings(), settings);
+    },
+  });
+}
+
+export function useIssuedCertificates(params: IssuedCertificateListParams) {
+  return useQuery({
+    queryKey: certificateKeys.issued(params),
+    queryFn: () => certificateApi.getIssuedCertificates(params),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useRevokeCertificate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ certificateId, reason }: { certificateId: string; reason: string }) =>
+      certificateApi.revokeCertificate(certificateId, reason),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: certificateKeys.all }),
+  });
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { adminCoursesApi, type CourseListResponse, type CreateCourseData } from '@/lib/api/admin-courses.api';
+import { traineeCoursesApi } from '@/lib/api/trainee-courses.api';
+import {
+  adminCourseKeys,
+  traineeCourseKeys,
+  type AdminCourseListParams,
+  type TraineeCourseListParams,
+} from '@/lib/api/query-keys';
+import { ADMIN_LIST_REFETCH_MS } from './useAdminQueries';
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useAdminCourses(params: AdminCourseListParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: adminCourseKeys.list(params),
+    queryFn: () => adminCoursesApi.listCourses(params),
+    enabled: options?.enabled ?? true,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function useAdminCourse(courseId: string) {
+  return useQuery({
+    queryKey: adminCourseKeys.detail(courseId),
+    queryFn: () => adminCoursesApi.getCourse(courseId),
+    enabled: !!courseId,
+  });
+}
+
+/** Published courses also show up in the trainee catalogue */
+function useInvalidateCourses() {
+  const queryClient = useQueryClient();
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: adminCourseKeys.all }),
+      queryClient.invalidateQueries({ queryKey: traineeCourseKeys.all }),
+    ]);
+}
+
+export function useCreateCourse() {
+  const invalidate = useInvalidateCourses();
+  return useMutation({
+    mutationFn: (data: CreateCourseData) => adminCoursesApi.createCourse(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useToggleCoursePublish() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCourses();
+  return useMutation({
+    mutationFn: ({ courseId, isPublished }: { courseId: string; isPublished: boolean }) =>
+      adminCoursesApi.togglePublish(courseId, isPublished),
+    onSuccess: (_data, { courseId, isPublished }) => {
+      queryClient.setQueriesData<CourseListResponse>({ queryKey: [...adminCourseKeys.all, 'list'] }, (prev) =>
+        prev && { ...prev, courses: prev.courses.map((c) => (c.id === courseId ? { ...c, isPublished } : c)) }
+      );
+      return invalidate();
+    },
+  });
+}
+
+export function useDeleteCourse() {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateCourses();
+  return useMutation({
+    mutationFn: (courseId: string) => adminCoursesApi.deleteCourse(courseId),
+    onSuccess: (_data, courseId) => {
+      queryClient.setQueriesData<CourseListResponse>({ queryKey: [...adminCourseKeys.all, 'list'] }, (prev) =>
+        prev && { ...prev, courses: prev.courses.filter((c) => c.id !== courseId) }
+      );
+      queryClient.removeQueries({ queryKey: adminCourseKeys.detail(courseId) });
+      return invalidate();
+    },
+  });
+}
+
+// ─── Trainee ──────────────────────────────────────────────
+
+export function useTraineeCourses(params: TraineeCourseListParams = {}) {
+  return useQuery({
+    queryKey: traineeCourseKeys.list(params),
+    queryFn: () => traineeCoursesApi.listCourses(params),
+  });
+}
+
+export function useTraineeCourse(courseId: string) {
+  return useQuery({
+    queryKey: traineeCourseKeys.detail(courseId),
+    queryFn: () => traineeCoursesApi.getCourse(courseId),
+    enabled: !!courseId,
+  });
+}
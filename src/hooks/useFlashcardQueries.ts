@@ -0,0 +1,120 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { flashcardApi } from '@/lib/api/flashcard.api';
+import { flashcardKeys } from '@/lib/api/query-keys';
+import { loadStudyCards, recordReview } from '@/lib/flashcards/review-queue';
+import { useAuthStore } from '@/stores/auth.store';
+import type { DeckListItem, GenerateDeckInput, StudyCard } from '@/types/flashcard';
+import { ADMIN_LIST_REFETCH_MS } from './useAdminQueries';
+
+// ─── Trainee ──────────────────────────────────────────────
+
+export function useAvailableDecks(courseId?: string) {
+  return useQuery({
+    queryKey: flashcardKeys.available(courseId),
+    queryFn: () => flashcardApi.getAvailableDecks(courseId),
+    select: (data) => data.decks,
+  });
+}
+
+export function useFlashcardProgress() {
+  return useQuery({
+    queryKey: flashcardKeys.progress(),
+    queryFn: () => flashcardApi.getProgress(),
+  });
+}
+
+/**
+ * Due cards for a study session. Fetched once per session - a background
+ * refetch would reshuffle the cards under the trainee. Falls back to the
+ * cached due list when offline.
+ */
+export function useDeckStudyCards(deckId: string) {
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  return useQuery({
+    queryKey: flashcardKeys.study(deckId),
+    queryFn: () => loadStudyCards(userId!, deckId),
+    enabled: !!deckId && !!userId,
+    // Run while offline too - loadStudyCards serves the cached cards
+    networkMode: 'always',
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    // Always start a new session with the current due cards
+    gcTime: 0,
+  });
+}
+
+/** All cards of a deck - the card pool for cram and multiple-choice modes */
+export function useDeckCards(deckId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: flashcardKeys.deck(deckId),
+    queryFn: () => flashcardApi.getDeck(deckId),
+    enabled: !!deckId && (options?.enabled ?? true),
+    select: (data) => data.cards,
+    // A refetch would hand the study page a new pool and restart the session mid-way
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+}
+
+/** Queue a rating locally; it reaches the server through useReviewSync */
+export function useRecordReview(deckId: string) {
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  return useMutation({
+    mutationFn: async ({ card, quality }: { card: StudyCard; quality: number }) => {
+      if (!userId) throw new Error('Not signed in');
+      return recordReview(userId, deckId, card, quality);
+    },
+    networkMode: 'always',
+  });
+}
+
+export function useGenerateDeck() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: GenerateDeckInput) => flashcardApi.generateDeck(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: flashcardKeys.all }),
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useAdminDecks() {
+  return useQuery({
+    queryKey: flashcardKeys.manage(),
+    queryFn: () => flashcardApi.getAdminDecks(),
+    select: (data) => data.decks,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function usePublishDeck() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ deckId, publish }: { deckId: string; publish: boolean }) =>
+      flashcardApi.publishDeck(deckId, publish),
+    onSuccess: (_data, { deckId, publish }) => {
+      queryClient.setQueryData<{ decks: DeckListItem[] }>(flashcardKeys.manage(), (prev) =>
+        prev && { decks: prev.decks.map((d) => (d.id === deckId ? { ...d, isPublished: publish } : d)) }
+      );
+      return queryClient.invalidateQueries({ queryKey: flashcardKeys.all });
+    },
+  });
+}
+
+export function useDeleteDeck() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (deckId: string) => flashcardApi.deleteDeck(deckId),
+    onSuccess: (_data, deckId) => {
+      queryClient.setQueryData<{ decks: DeckListItem[] }>(flashcardKeys.manage(), (prev) =>
+        prev && { decks: prev.decks.filter((d) => d.id !== deckId) }
+      );
+      queryClient.removeQueries({ queryKey: flashcardKeys.detail(deckId) });
+      return queryClient.invalidateQueries({ queryKey: flashcardKeys.all });
+    },
+  });
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { listingApi } from '@/lib/api/listing.api';
+import { listingKeys } from '@/lib/api/query-keys';
+import type { PropertyListing, CreateListingInput, UpdateListingInput } from '@/types/simulation.types';
+import { ADMIN_LIST_REFETCH_MS } from './useAdminQueries';
+
+// ─── Trainee ──────────────────────────────────────────────
+
+/** Listings the trainee can attach to a simulation */
+export function useAvailableListings() {
+  return useQuery({
+    queryKey: listingKeys.available(),
+    queryFn: () => listingApi.getAvailableListings(),
+    select: (data) => data.listings,
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useAdminListings() {
+  return useQuery({
+    queryKey: listingKeys.manage(),
+    queryFn: () => listingApi.getAdminListings(),
+    select: (data) => data.listings,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function useAdminListing(listingId: string) {
+  return useQuery({
+    queryKey: listingKeys.detail(listingId),
+    queryFn: () => listingApi.getListing(listingId),
+    enabled: !!listingId,
+    // The edit form keeps its own copy; a background refetch would not reach it anyway
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSaveListing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ listingId, data }: { listingId?: string; data: CreateListingInput | UpdateListingInput }) =>
+      listingId
+        ? listingApi.updateListing(listingId, data)
+        : listingApi.createListing(data as CreateListingInput),
+    onSuccess: (listing) => {
+      queryClient.setQueryData(listingKeys.detail(listing.id), listing);
+      return queryClient.invalidateQueries({ queryKey: listingKeys.all });
+    },
+  });
+}
+
+export function useDeleteListing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (listingId: string) => listingApi.deleteListing(listingId),
+    onSuccess: (_data, listingId) => {
+      queryClient.setQueryData<{ listings: PropertyListing[] }>(listingKeys.manage(), (prev) =>
+        prev && { listings: prev.listings.filter((l) => l.id !== listingId) }
+      );
+      queryClient.removeQueries({ queryKey: listingKeys.detail(listingId) });
+      return queryClient.invalidateQueries({ queryKey: listingKeys.all });
+    },
+  });
+}
+
+export function useUploadListingPhoto() {
+  return useMutation({
+    mutationFn: (file: File) => listingApi.uploadPhoto(file),
+  });
+}
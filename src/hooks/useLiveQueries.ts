@@ -0,0 +1,157 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { liveApi } from '@/lib/api/live.api';
+import { openLiveSocket, type LiveConnection } from '@/lib/api/live-socket';
+import { liveKeys } from '@/lib/api/query-keys';
+import type {
+  LiveEvent,
+  LiveSessionDetail,
+  LiveSessionSummary,
+  LiveTurnInput,
+  WhisperHint,
+} from '@/types/simulation.types';
+
+/** Fold a pushed event into the cached session list and the open session's detail */
+function applyLiveEvent(queryClient: QueryClient, event: LiveEvent) {
+  const updateList = (fn: (sessions: LiveSessionSummary[]) => LiveSessionSummary[]) =>
+    queryClient.setQueryData<{ sessions: LiveSessionSummary[] }>(liveKeys.sessions(), (old) =>
+      old ? { sessions: fn(old.sessions) } : old
+    );
+  const updateDetail = (sessionId: string, fn: (detail: LiveSessionDetail) => LiveSessionDetail) =>
+    queryClient.setQueryData<LiveSessionDetail>(liveKeys.session(sessionId), (old) => (old ? fn(old) : old));
+
+  switch (event.type) {
+    case 'session_started':
+      updateList((sessions) =>
+        sessions.some((s) => s.sessionId === event.payload.sessionId) ? sessions : [event.payload, ...sessions]
+      );
+      break;
+
+    case 'session_ended':
+      updateList((sessions) => sessions.filter((s) => s.sessionId !== event.payload.sessionId));
+      break;
+
+    case 'turn': {
+      const turn = event.payload;
+      const touch = (session: LiveSessionSummary): LiveSessionSummary => ({
+        ...session,
+        turnCount: session.turnCount + 1,
+        lastTurnAt: turn.timestamp,
+        // Sentiment is the client's; trainee turns carry none
+        currentSentiment: turn.sentiment ?? session.currentSentiment,
+      });
+      updateList((sessions) => sessions.map((s) => (s.sessionId === turn.sessionId ? touch(s) : s)));
+      updateDetail(turn.sessionId, (detail) => ({
+        ...detail,
+        session: touch(detail.session),
+        turns: [...detail.turns, turn],
+      }));
+      break;
+    }
+
+    case 'whisper':
+      updateDetail(event.payload.sessionId, (detail) =>
+        detail.whispers.some((w) => w.id === event.payload.id)
+          ? detail
+          : { ...detail, whispers: [...detail.whispers, event.payload] }
+      );
+      break;
+  }
+}
+
+// ─── Trainee ──────────────────────────────────────────────
+
+/**
+ * The trainee's side of an active session: whispers a trainer sends, oldest
+ * first, and `sendTurn` for voice calls, whose turns the backend doesn't see.
+ * `sendTurn` returns false while there is no session to send to.
+ */
+export function useTraineeLiveChannel(sessionId: string | null) {
+  const [whispers, setWhispers] = useState<WhisperHint[]>([]);
+  const connectionRef = useRef<LiveConnection | null>(null);
+
+  useEffect(() => {
+    setWhispers([]);
+    if (!sessionId) return;
+
+    const connection = openLiveSocket({
+      subscription: { channel: 'trainee', sessionId },
+      onEvent: (event) => {
+        if (event.type === 'whisper' && event.payload.sessionId === sessionId) {
+          const whisper = event.payload;
+          setWhispers((prev) => (prev.some((w) => w.id === whisper.id) ? prev : [...prev, whisper]));
+        }
+      },
+    });
+    connectionRef.current = connection;
+    return () => {
+      connectionRef.current = null;
+      connection.close();
+    };
+  }, [sessionId]);
+
+  const sendTurn = useCallback((turn: LiveTurnInput): boolean => {
+    if (!sessionId || !connectionRef.current) return false;
+    connectionRef.current.send({ type: 'turn', payload: { ...turn, sessionId } });
+    return true;
+  }, [sessionId]);
+
+  return { whispers, sendTurn };
+}
+
+/** Whispers a trainer sends to the trainee's active session, oldest first */
+export function useCoachWhispers(sessionId: string | null) {
+  return useTraineeLiveChannel(sessionId).whispers;
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+/**
+ * Active sessions, kept current over the live socket instead of polling.
+ * The same socket feeds the detail of any session opened with useLiveSession.
+ */
+export function useLiveSessions() {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  const query = useQuery({
+    queryKey: liveKeys.sessions(),
+    queryFn: () => liveApi.getActiveSessions(),
+    select: (data) => data.sessions,
+  });
+
+  useEffect(() => {
+    const connection = openLiveSocket({
+      subscription: { channel: 'observer' },
+      onEvent: (event) => applyLiveEvent(queryClient, event),
+      onConnectionChange: (isConnected) => {
+        setConnected(isConnected);
+        // Catch up on whatever happened while disconnected
+        if (isConnected) queryClient.invalidateQueries({ queryKey: liveKeys.all });
+      },
+    });
+    return connection.close;
+  }, [queryClient]);
+
+  return { ...query, connected };
+}
+
+export function useLiveSession(sessionId: string | null) {
+  return useQuery({
+    queryKey: liveKeys.session(sessionId ?? ''),
+    queryFn: () => liveApi.getSession(sessionId!),
+    enabled: !!sessionId,
+    // Kept current by the socket in useLiveSessions
+    staleTime: Infinity,
+  });
+}
+
+export function useSendWhisper(sessionId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (message: string) => liveApi.sendWhisper(sessionId, message),
+    onSuccess: (whisper: WhisperHint) => applyLiveEvent(queryClient, { type: 'whisper', payload: whisper }),
+  });
+}
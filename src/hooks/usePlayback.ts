@@ -0,0 +1,22 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getPlaybackQueue } from '@/lib/audio/playback';
+import type { PlaybackSnapshot } from '@/lib/audio/playback';
+
+const IDLE: PlaybackSnapshot = { state: 'idle', currentId: null };
+
+const controls = {
+  play: (base64: string, id?: string) => getPlaybackQueue().play(base64, id),
+  enqueue: (base64: string, id?: string) => getPlaybackQueue().enqueue(base64, id),
+  stop: () => getPlaybackQueue().stop(),
+  /** True after a clip failed because the browser blocked autoplay */
+  isAutoplayBlocked: () => getPlaybackQueue().autoplayBlocked,
+};
+
+/** The shared playback queue and what it is playing right now */
+export function usePlayback() {
+  const queue = getPlaybackQueue();
+  const snapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot, () => IDLE);
+  return { ...snapshot, ...controls };
+}
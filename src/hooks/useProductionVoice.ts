@@ -1,509 +0,0 @@
-'use client';
-
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { useMicVAD, utils } from '@ricky0123/vad-react';
-import { voiceCallApi, VoiceCallMessage } from '@/lib/api/voice-call.api';
-import { getAudioController, resetAudioController } from '@/lib/audio/AudioController';
-import { useLanguage, Language, LANGUAGE_CONFIGS } from '@/contexts/LanguageContext';
-
-/**
- * PRODUCTION-GRADE VOICE CALL HOOK
- *
- * Implements TRUE real-time conversational voice with:
- * - Automatic VAD using Silero VAD (@ricky0123/vad-react)
- * - HARD SINGLE-PLAYBACK GUARANTEE via AudioController
- * - Interaction ID for duplicate response prevention
- * - Language-aware STT/TTS (Arabic/English)
- * - Instant interruption (<150ms)
- * - Natural turn-taking
- *
- * Architecture:
- * Mic Stream → Silero VAD → Web Speech STT → LLM → ElevenLabs TTS → Single-Playback Audio
- */
-
-// Unique interaction ID to prevent duplicate responses
-let globalInteractionId = 0;
-
-export type CallStatus = 'idle' | 'connecting' | 'active' | 'ending' | 'ended' | 'error';
-
-export interface LatencyMetrics {
-  vadToSTT: number;
-  sttToLLM: number;
-  llmToTTS: number;
-  ttsToPlay: number;
-  totalLatency: number;
-}
-
-export interface ProductionVoiceState {
-  status: CallStatus;
-  callId: string | null;
-  messages: VoiceCallMessage[];
-  isListening: boolean;
-  isUserSpeaking: boolean;
-  isAISpeaking: boolean;
-  isProcessing: boolean;
-  error: string | null;
-  interimTranscript: string;
-  latencyMetrics: LatencyMetrics | null;
-}
-
-interface UseProductionVoiceOptions {
-  onCallStart?: () => void;
-  onCallEnd?: () => void;
-  onError?: (error: string) => void;
-  onUserSpeechStart?: () => void;
-  onUserSpeechEnd?: (transcript: string) => void;
-  onAISpeechStart?: () => void;
-  onAISpeechEnd?: () => void;
-}
-
-export function useProductionVoice(options: UseProductionVoiceOptions = {}) {
-  const { language, config: langConfig, t } = useLanguage();
-
-  // State
-  const [status, setStatus] = useState<CallStatus>('idle');
-  const [callId, setCallId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<VoiceCallMessage[]>([]);
-  const [isListening, setIsListening] = useState(false);
-  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
-  const [isAISpeaking, setIsAISpeaking] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [interimTranscript, setInterimTranscript] = useState('');
-  const [latencyMetrics, setLatencyMetrics] = useState<LatencyMetrics | null>(null);
-
-  // Refs
-  const currentInteractionRef = useRef<number | null>(null);
-  const recognitionRef = useRef<any>(null);
-  const timestampsRef = useRef({
-    vadSpeechEnd: 0,
-    sttComplete: 0,
-    llmStart: 0,
-    ttsReceived: 0,
-    playStart: 0,
-  });
-
-  // Audio controller singleton
-  const audioController = getAudioController({
-    fadeInDuration: 30,
-    fadeOutDuration: 20,
-    onPlaybackStart: () => {
-      setIsAISpeaking(true);
-      options.onAISpeechStart?.();
-    },
-    onPlaybackEnd: () => {
-      setIsAISpeaking(false);
-      options.onAISpeechEnd?.();
-      // Auto-restart listening after AI finishes speaking
-      if (status === 'active' && !isProcessing) {
-        startListeningInternal();
-      }
-    },
-    onPlaybackInterrupted: () => {
-      setIsAISpeaking(false);
-    },
-    onError: (err) => {
-      console.error('[AudioController]', err);
-    },
-  });
-
-  /**
-   * Initialize Speech Recognition for current language
-   */
-  const initSpeechRecognition = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-
-    const SpeechRecognition = (window as any).SpeechRecognition ||
-                              (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      console.warn('[STT] Speech recognition not supported');
-      return null;
-    }
-
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = langConfig.sttLocale; // ar-SA or en-US
-
-    return recognition;
-  }, [langConfig.sttLocale]);
-
-  /**
-   * Send message with interaction locking
-   */
-  const sendMessage = useCallback(async (transcript: string): Promise<void> => {
-    if (!callId || status !== 'active' || !transcript.trim()) return;
-
-    // Generate new interaction ID
-    const interactionId = ++globalInteractionId;
-    currentInteractionRef.current = interactionId;
-
-    // HARD STOP any playing audio before processing
-    audioController.hardStop();
-
-    setIsProcessing(true);
-    setInterimTranscript('');
-
-    // Record STT complete time
-    timestampsRef.current.sttComplete = Date.now();
-
-    // Add user message
-    setMessages(prev => [...prev, { role: 'user', content: transcript }]);
-
-    try {
-      // Record LLM start time
-      timestampsRef.current.llmStart = Date.now();
-
-      const response = await voiceCallApi.sendMessage({
-        callId,
-        message: transcript,
-        includeAudio: true,
-        language,
-      });
-
-      // Check if this is still the current interaction (prevent duplicates)
-      if (currentInteractionRef.current !== interactionId) {
-        console.log('[Response] Discarding stale response');
-        return;
-      }
-
-      // Record TTS received time
-      timestampsRef.current.ttsReceived = Date.now();
-
-      // Update messages
-      setMessages(response.conversationHistory);
-
-      // Calculate latency metrics
-      const metrics: LatencyMetrics = {
-        vadToSTT: timestampsRef.current.sttComplete - timestampsRef.current.vadSpeechEnd,
-        sttToLLM: timestampsRef.current.llmStart - timestampsRef.current.sttComplete,
-        llmToTTS: timestampsRef.current.ttsReceived - timestampsRef.current.llmStart,
-        ttsToPlay: 0, // Will be updated when playback starts
-        totalLatency: Date.now() - timestampsRef.current.vadSpeechEnd,
-      };
-
-      // Play audio if available and still current interaction
-      if (response.audioBase64 && currentInteractionRef.current === interactionId) {
-        const audioId = `${interactionId}_${Date.now()}`;
-        timestampsRef.current.playStart = Date.now();
-        metrics.ttsToPlay = timestampsRef.current.playStart - timestampsRef.current.ttsReceived;
-        setLatencyMetrics(metrics);
-        console.log('[Latency]', metrics);
-
-        await audioController.playBase64(response.audioBase64, audioId);
-      } else {
-        setLatencyMetrics(metrics);
-        console.log('[Latency]', metrics);
-      }
-
-    } catch (err) {
-      // Only show error if still current interaction
-      if (currentInteractionRef.current === interactionId) {
-        console.error('[Message] Error:', err);
-        const errorMsg = err instanceof Error ? err.message : t.errors.somethingWentWrong;
-        setError(errorMsg);
-        options.onError?.(errorMsg);
-      }
-    } finally {
-      // Only clear processing if still current interaction
-      if (currentInteractionRef.current === interactionId) {
-        setIsProcessing(false);
-      }
-    }
-  }, [callId, status, language, t.errors.somethingWentWrong, audioController, options]);
-
-  /**
-   * Internal start listening (called after AI finishes)
-   */
-  const startListeningInternal = useCallback(() => {
-    const recognition = recognitionRef.current;
-    if (!recognition || isListening) return;
-
-    let finalTranscript = '';
-
-    recognition.onresult = (event: any) => {
-      let interim = '';
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
-        if (result.isFinal) {
-          finalTranscript += result[0].transcript;
-        } else {
-          interim += result[0].transcript;
-        }
-      }
-
-      setInterimTranscript(interim);
-    };
-
-    recognition.onerror = (event: any) => {
-      console.error('[STT] Error:', event.errors.somethingWentWrong);
-      if (event.errors.somethingWentWrong === 'not-allowed') {
-        setError(t.voiceCall.micPermissionError);
-      } else if (event.errors.somethingWentWrong !== 'no-speech' && event.errors.somethingWentWrong !== 'aborted') {
-        setError(t.voiceCall.didntHear);
-        setTimeout(() => setError(null), 3000);
-      }
-      setIsListening(false);
-    };
-
-    recognition.onend = () => {
-      setIsListening(false);
-      setInterimTranscript('');
-    };
-
-    try {
-      recognition.start();
-      setIsListening(true);
-    } catch (err) {
-      console.error('[STT] Start failed:', err);
-    }
-  }, [isListening, t.voiceCall.micPermissionError, t.voiceCall.didntHear]);
-
-  /**
-   * Stop listening
-   */
-  const stopListening = useCallback(() => {
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        // Not running
-      }
-    }
-    setIsListening(false);
-    setInterimTranscript('');
-  }, []);
-
-  /**
-   * VAD configuration with Silero VAD
-   */
-  const vad = useMicVAD({
-    startOnLoad: false,
-    model: 'v5', // Use v5 model for better accuracy
-    baseAssetPath: '/', // Load from public folder
-    positiveSpeechThreshold: 0.7,
-    negativeSpeechThreshold: 0.35,
-    redemptionMs: 600, // 600ms grace period for natural pauses
-    minSpeechMs: 200, // ~200ms minimum speech
-    preSpeechPadMs: 100, // 100ms pre-speech padding
-
-    onSpeechStart: () => {
-      console.log('[VAD] Speech start detected');
-      setIsUserSpeaking(true);
-      options.onUserSpeechStart?.();
-
-      // INTERRUPT AI if speaking
-      if (audioController.isPlaying) {
-        console.log('[VAD] User interrupted AI - stopping audio');
-        audioController.hardStop();
-      }
-
-      // Start STT
-      startListeningInternal();
-    },
-
-    onSpeechEnd: async (audio: Float32Array) => {
-      console.log('[VAD] Speech end detected');
-      setIsUserSpeaking(false);
-
-      // Record timestamp for latency measurement
-      timestampsRef.current.vadSpeechEnd = Date.now();
-
-      // Stop STT and process final transcript
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.stop();
-        } catch (e) {
-          // Not running
-        }
-      }
-
-      setIsListening(false);
-
-      // If we have transcript, send it
-      const transcript = interimTranscript.trim();
-      if (transcript) {
-        options.onUserSpeechEnd?.(transcript);
-        await sendMessage(transcript);
-      } else {
-        // No transcript detected - try to get from final results
-        console.log('[VAD] No transcript captured');
-      }
-    },
-
-    onVADMisfire: () => {
-      console.log('[VAD] Misfire - too short');
-      setIsUserSpeaking(false);
-      // Don't process if too short
-    },
-  });
-
-  /**
-   * Start call
-   */
-  const startCall = useCallback(async (scenarioType?: string, courseId?: string): Promise<void> => {
-    setStatus('connecting');
-    setError(null);
-    setMessages([]);
-    currentInteractionRef.current = null;
-
-    // Initialize speech recognition
-    recognitionRef.current = initSpeechRecognition();
-
-    try {
-      const response = await voiceCallApi.startCall({
-        scenarioType,
-        courseId,
-        language,
-      });
-
-      setCallId(response.callId);
-      setMessages([{ role: 'assistant', content: response.greeting }]);
-      setStatus('active');
-      options.onCallStart?.();
-
-      // Play greeting audio
-      if (response.greetingAudioBase64) {
-        const audioId = `greeting_${Date.now()}`;
-        await audioController.playBase64(response.greetingAudioBase64, audioId);
-      }
-
-      // Start VAD after greeting
-      vad.start();
-
-    } catch (err) {
-      console.error('[Call] Start failed:', err);
-      const errorMsg = err instanceof Error ? err.message : t.errors.somethingWentWrong;
-      setError(errorMsg);
-      setStatus('error');
-      options.onError?.(errorMsg);
-    }
-  }, [language, t.errors.somethingWentWrong, audioController, vad, options, initSpeechRecognition]);
-
-  /**
-   * End call
-   */
-  const endCall = useCallback(async (): Promise<void> => {
-    if (!callId) return;
-
-    setStatus('ending');
-
-    // Stop everything
-    audioController.hardStop();
-    stopListening();
-    vad.pause();
-
-    // Clear interaction to prevent any late responses
-    currentInteractionRef.current = null;
-
-    try {
-      const summary = await voiceCallApi.endCall({ callId, endReason: 'completed' });
-      setStatus('ended');
-      options.onCallEnd?.();
-      return summary as any;
-    } catch (err) {
-      console.error('[Call] End failed:', err);
-      setStatus('error');
-    }
-  }, [callId, audioController, stopListening, vad, options]);
-
-  /**
-   * Reset state
-   */
-  const reset = useCallback(() => {
-    audioController.hardStop();
-    stopListening();
-    vad.pause();
-
-    setStatus('idle');
-    setCallId(null);
-    setMessages([]);
-    setError(null);
-    setInterimTranscript('');
-    setLatencyMetrics(null);
-    setIsUserSpeaking(false);
-    setIsAISpeaking(false);
-    setIsProcessing(false);
-    setIsListening(false);
-    currentInteractionRef.current = null;
-  }, [audioController, stopListening, vad]);
-
-  /**
-   * Hard stop audio (for manual interruption)
-   */
-  const interrupt = useCallback(() => {
-    audioController.hardStop();
-  }, [audioController]);
-
-  /**
-   * Silence re-engagement (if silent > 8s)
-   */
-  useEffect(() => {
-    if (status !== 'active') return;
-
-    let silenceTimer: NodeJS.Timeout | null = null;
-
-    const checkSilence = () => {
-      if (!isListening && !isProcessing && !isAISpeaking && !isUserSpeaking) {
-        silenceTimer = setTimeout(() => {
-          // Re-engage in current language
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: t.voiceCall.stillThere,
-          }]);
-          // Restart VAD
-          vad.start();
-        }, 8000);
-      }
-    };
-
-    checkSilence();
-
-    return () => {
-      if (silenceTimer) clearTimeout(silenceTimer);
-    };
-  }, [status, isListening, isProcessing, isAISpeaking, isUserSpeaking, t.voiceCall.stillThere, vad]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      resetAudioController();
-    };
-  }, []);
-
-  // Re-initialize STT when language changes
-  useEffect(() => {
-    if (status === 'active') {
-      recognitionRef.current = initSpeechRecognition();
-    }
-  }, [language, status, initSpeechRecognition]);
-
-  return {
-    // State
-    status,
-    callId,
-    messages,
-    isListening,
-    isUserSpeaking,
-    isAISpeaking,
-    isProcessing,
-    error,
-    interimTranscript,
-    latencyMetrics,
-    vadLoading: vad.loading,
-    vadErrored: vad.errored,
-
-    // Actions
-    startCall,
-    sendMessage,
-    endCall,
-    interrupt,
-    reset,
-
-    // VAD controls
-    startVAD: vad.start,
-    pauseVAD: vad.pause,
-    toggleVAD: vad.toggle,
-  };
-}
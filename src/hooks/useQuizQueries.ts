@@ -0,0 +1,137 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { quizApi } from '@/lib/api/quiz.api';
+import { quizKeys } from '@/lib/api/query-keys';
+import type {
+  QuizListItem,
+  GenerateQuizInput,
+  BankQuestionListParams,
+  CreateBankQuestionInput,
+  UpdateBankQuestionInput,
+  QuestionDrawRule,
+} from '@/types/quiz';
+import { ADMIN_LIST_REFETCH_MS } from './useAdminQueries';
+
+// ─── Trainee ──────────────────────────────────────────────
+
+/** Published quizzes available to the trainee */
+export function useQuizzes(courseId?: string) {
+  return useQuery({
+    queryKey: quizKeys.available(courseId),
+    queryFn: () => quizApi.getAvailableQuizzes(courseId),
+    select: (data) => data.quizzes,
+  });
+}
+
+export function useQuizHistory() {
+  return useQuery({
+    queryKey: quizKeys.history(),
+    queryFn: () => quizApi.getTraineeHistory(),
+    select: (data) => data.history,
+  });
+}
+
+export function useGenerateQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: GenerateQuizInput) => quizApi.generateQuiz(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: quizKeys.all }),
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useAdminQuizzes() {
+  return useQuery({
+    queryKey: quizKeys.manage(),
+    queryFn: () => quizApi.getAdminQuizzes(),
+    select: (data) => data.quizzes,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function usePublishQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ quizId, publish }: { quizId: string; publish: boolean }) =>
+      quizApi.publishQuiz(quizId, publish),
+    onSuccess: (_data, { quizId, publish }) => {
+      // Flip the flag right away; the invalidation below confirms it with the server
+      queryClient.setQueryData<{ quizzes: QuizListItem[] }>(quizKeys.manage(), (prev) =>
+        prev && { quizzes: prev.quizzes.map((q) => (q.id === quizId ? { ...q, isPublished: publish } : q)) }
+      );
+      return queryClient.invalidateQueries({ queryKey: quizKeys.all });
+    },
+  });
+}
+
+export function useDeleteQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quizId: string) => quizApi.deleteQuiz(quizId),
+    onSuccess: (_data, quizId) => {
+      queryClient.setQueryData<{ quizzes: QuizListItem[] }>(quizKeys.manage(), (prev) =>
+        prev && { quizzes: prev.quizzes.filter((q) => q.id !== quizId) }
+      );
+      queryClient.removeQueries({ queryKey: quizKeys.detail(quizId) });
+      return queryClient.invalidateQueries({ queryKey: quizKeys.all });
+    },
+  });
+}
+
+export function useQuizItemAnalysis(quizId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: quizKeys.itemAnalysis(quizId),
+    queryFn: () => quizApi.getItemAnalysis(quizId),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// ─── Question bank ────────────────────────────────────────
+
+export function useBankQuestions(params: BankQuestionListParams) {
+  return useQuery({
+    queryKey: quizKeys.bank(params),
+    queryFn: () => quizApi.getBankQuestions(params),
+    // Keep the current page on screen while the next filter loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useBankTags() {
+  return useQuery({
+    queryKey: quizKeys.bankTags(),
+    queryFn: () => quizApi.getBankTags(),
+    select: (data) => data.tags,
+  });
+}
+
+export function useSaveBankQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ questionId, data }: { questionId?: string; data: CreateBankQuestionInput | UpdateBankQuestionInput }) =>
+      questionId
+        ? quizApi.updateBankQuestion(questionId, data)
+        : quizApi.createBankQuestion(data as CreateBankQuestionInput),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: quizKeys.bankAll() }),
+  });
+}
+
+export function useDeleteBankQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (questionId: string) => quizApi.deleteBankQuestion(questionId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: quizKeys.bankAll() }),
+  });
+}
+
+/** How many bank questions match each draw rule, for the quiz builder */
+export function useDrawPreview(rules: QuestionDrawRule[]) {
+  return useQuery({
+    queryKey: quizKeys.drawPreview(rules),
+    queryFn: () => quizApi.previewDrawRules(rules),
+    enabled: rules.length > 0,
+    select: (data) => data.available,
+  });
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { flashcardKeys } from '@/lib/api/query-keys';
+import { useAuthStore } from '@/stores/auth.store';
+import {
+  syncQueuedReviews,
+  subscribeToReviewQueue,
+  getPendingReviewCount,
+  type ReviewSyncResult,
+} from '@/lib/flashcards/review-queue';
+
+/**
+ * Tracks connectivity and the offline review queue, and replays queued
+ * ratings whenever the browser comes back online.
+ */
+export function useReviewSync() {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSync, setLastSync] = useState<ReviewSyncResult | null>(null);
+
+  const sync = useCallback(async () => {
+    if (!userId || (typeof navigator !== 'undefined' && !navigator.onLine)) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncQueuedReviews(userId);
+      setLastSync(result);
+      if (result.synced > 0) {
+        // Deck progress and due counts changed - leave the running study session alone
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: flashcardKeys.progress() }),
+          queryClient.invalidateQueries({ queryKey: flashcardKeys.availableAll() }),
+        ]);
+      }
+    } catch (err) {
+      console.error('[Flashcards] Review sync failed:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setPendingCount(0);
+      return;
+    }
+    const refreshCount = () => {
+      getPendingReviewCount(userId).then(setPendingCount);
+    };
+    refreshCount();
+    return subscribeToReviewQueue(refreshCount);
+  }, [userId]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Flush anything left over from a previous offline session
+    sync();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  return { isOnline, pendingCount, isSyncing, lastSync, sync };
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { rubricApi } from '@/lib/api/rubric.api';
+import { rubricKeys, scenarioKeys } from '@/lib/api/query-keys';
+import type { ScoringRubric, CreateRubricInput, UpdateRubricInput } from '@/types/simulation.types';
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useRubrics() {
+  return useQuery({
+    queryKey: rubricKeys.list(),
+    queryFn: () => rubricApi.getRubrics(),
+    select: (data) => data.rubrics,
+  });
+}
+
+export function useRubric(rubricId: string) {
+  return useQuery({
+    queryKey: rubricKeys.detail(rubricId),
+    queryFn: () => rubricApi.getRubric(rubricId),
+    enabled: !!rubricId,
+    // The edit form keeps its own copy; a background refetch would not reach it anyway
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSaveRubric() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ rubricId, data }: { rubricId?: string; data: CreateRubricInput | UpdateRubricInput }) =>
+      rubricId
+        ? rubricApi.updateRubric(rubricId, data)
+        : rubricApi.createRubric(data as CreateRubricInput),
+    onSuccess: (rubric) => {
+      queryClient.setQueryData(rubricKeys.detail(rubric.id), rubric);
+      return queryClient.invalidateQueries({ queryKey: rubricKeys.all });
+    },
+  });
+}
+
+export function useDeleteRubric() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rubricId: string) => rubricApi.deleteRubric(rubricId),
+    onSuccess: (_data, rubricId) => {
+      queryClient.setQueryData<{ rubrics: ScoringRubric[] }>(rubricKeys.list(), (prev) =>
+        prev && { rubrics: prev.rubrics.filter((r) => r.id !== rubricId) }
+      );
+      queryClient.removeQueries({ queryKey: rubricKeys.detail(rubricId) });
+      // Scenarios that used the rubric now have rubricId null
+      queryClient.invalidateQueries({ queryKey: scenarioKeys.all });
+      return queryClient.invalidateQueries({ queryKey: rubricKeys.all });
+    },
+  });
+}
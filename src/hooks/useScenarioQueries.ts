@@ -0,0 +1,67 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { scenarioApi } from '@/lib/api/scenario.api';
+import { scenarioKeys } from '@/lib/api/query-keys';
+import type { SimulationScenario, CreateScenarioInput, UpdateScenarioInput } from '@/types/simulation.types';
+import { ADMIN_LIST_REFETCH_MS } from './useAdminQueries';
+
+// ─── Trainee ──────────────────────────────────────────────
+
+/** Custom scenarios the trainee can pick on the simulation page */
+export function useAvailableScenarios() {
+  return useQuery({
+    queryKey: scenarioKeys.available(),
+    queryFn: () => scenarioApi.getAvailableScenarios(),
+    select: (data) => data.scenarios,
+  });
+}
+
+// ─── Admin ────────────────────────────────────────────────
+
+export function useAdminScenarios() {
+  return useQuery({
+    queryKey: scenarioKeys.manage(),
+    queryFn: () => scenarioApi.getAdminScenarios(),
+    select: (data) => data.scenarios,
+    refetchInterval: ADMIN_LIST_REFETCH_MS,
+  });
+}
+
+export function useAdminScenario(scenarioId: string) {
+  return useQuery({
+    queryKey: scenarioKeys.detail(scenarioId),
+    queryFn: () => scenarioApi.getScenario(scenarioId),
+    enabled: !!scenarioId,
+    // The edit form keeps its own copy; a background refetch would not reach it anyway
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSaveScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ scenarioId, data }: { scenarioId?: string; data: CreateScenarioInput | UpdateScenarioInput }) =>
+      scenarioId
+        ? scenarioApi.updateScenario(scenarioId, data)
+        : scenarioApi.createScenario(data as CreateScenarioInput),
+    onSuccess: (scenario) => {
+      queryClient.setQueryData(scenarioKeys.detail(scenario.id), scenario);
+      return queryClient.invalidateQueries({ queryKey: scenarioKeys.all });
+    },
+  });
+}
+
+export function useDeleteScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (scenarioId: string) => scenarioApi.deleteScenario(scenarioId),
+    onSuccess: (_data, scenarioId) => {
+      queryClient.setQueryData<{ scenarios: SimulationScenario[] }>(scenarioKeys.manage(), (prev) =>
+        prev && { scenarios: prev.scenarios.filter((s) => s.id !== scenarioId) }
+      );
+      queryClient.removeQueries({ queryKey: scenarioKeys.detail(scenarioId) });
+      return queryClient.invalidateQueries({ queryKey: scenarioKeys.all });
+    },
+  });
+}
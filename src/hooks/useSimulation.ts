@@ -1,27 +1,51 @@
 'use client';
 
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useSimulationStore } from '@/stores/simulation.store';
+import { useAuthStore } from '@/stores/auth.store';
 import { simulationApi } from '@/lib/api/simulation.api';
-import type { StartSimulationInput } from '@/types/simulation.types';
+import { RequestCancelledError } from '@/lib/api/client';
+import type { EndSimulationInput, StartSimulationInput } from '@/types/simulation.types';
+
+/** A chat left without messages for this long is ended as timed out rather than resumed */
+export const SIMULATION_IDLE_TIMEOUT_MS =
+  Number(process.env.NEXT_PUBLIC_SIMULATION_IDLE_TIMEOUT_MINUTES || 30) * 60 * 1000;
 
 export function useSimulation() {
   const store = useSimulationStore();
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  // A chat saved by someone else who used this browser is left alone
+  const resumable = store.resumable && store.resumable.userId === userId ? store.resumable : null;
+  const pendingMessageRef = useRef<AbortController | null>(null);
+
+  // Don't leave a reply request running after the chat is gone
+  useEffect(() => {
+    return () => pendingMessageRef.current?.abort();
+  }, []);
+
+  /** Pass `resumable: false` for runs that shouldn't be offered again after a reload, e.g. diagnostics */
+  const startSimulation = useCallback(async (input: StartSimulationInput, options: { resumable?: boolean } = {}) => {
+    // A new chat replaces an unfinished one; close it on the server instead of leaving it open
+    const previous = resumable;
+    if (previous) {
+      simulationApi.end({ sessionId: previous.sessionId, endReason: 'abandoned' }).catch((error) => {
+        console.error('Failed to close previous simulation:', error);
+      });
+    }
 
-  const startSimulation = useCallback(async (input: StartSimulationInput) => {
     store.reset();
     store.setError(null);
 
     try {
       const result = await simulationApi.start(input);
-      store.initializeSession(result);
+      store.initializeSession(result, input, options.resumable === false ? null : userId);
       return result;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to start simulation';
       store.setError(message);
       throw error;
     }
-  }, [store]);
+  }, [store, resumable, userId]);
 
   const sendMessage = useCallback(async (message: string) => {
     if (!store.sessionId) {
@@ -32,12 +56,19 @@ export function useSimulation() {
     store.setSending(true);
     store.setTyping(true);
 
+    const controller = new AbortController();
+    pendingMessageRef.current = controller;
+
     try {
-      const result = await simulationApi.sendMessage({
-        sessionId: store.sessionId,
-        message,
-        messageType: 'text',
-      });
+      // Scripted scenarios go through the same endpoint; the server picks the branch and keeps the score
+      const result = await simulationApi.sendMessage(
+        {
+          sessionId: store.sessionId,
+          message,
+          messageType: 'text',
+        },
+        { signal: controller.signal }
+      );
       store.handleClientResponse(result);
       return result;
     } catch (error) {
@@ -45,14 +76,19 @@ export function useSimulation() {
       // Don't change status to 'error' for message failures - keep chat open
       // Just set the error message and stop typing indicator
       store.setTyping(false);
-      console.error('Simulation message error:', errorMessage);
+      if (!(error instanceof RequestCancelledError)) {
+        console.error('Simulation message error:', errorMessage);
+      }
       throw error;
     } finally {
+      if (pendingMessageRef.current === controller) {
+        pendingMessageRef.current = null;
+      }
       store.setSending(false);
     }
   }, [store]);
 
-  const endSimulation = useCallback(async (reason: 'completed' | 'abandoned') => {
+  const endSimulation = useCallback(async (reason: Exclude<EndSimulationInput['endReason'], 'error'>) => {
     if (!store.sessionId) {
       throw new Error('No active session');
     }
@@ -83,25 +119,67 @@ export function useSimulation() {
     }
   }, [store]);
 
+  /**
+   * Reload the chat saved before a page reload. Returns false when the server
+   * has already closed the session, in which case the saved pointer is dropped.
+   */
+  const resumeSimulation = useCallback(async () => {
+    const saved = resumable;
+    if (!saved) return false;
+
+    try {
+      const session = await simulationApi.getSession(saved.sessionId);
+      if (session.status !== 'in_progress' && session.status !== 'scheduled') {
+        store.discardResumable();
+        return false;
+      }
+      store.restoreSession(session, saved);
+      return true;
+    } catch (error) {
+      console.error('Failed to resume simulation:', error);
+      store.discardResumable();
+      return false;
+    }
+  }, [store, resumable]);
+
+  /** Close the saved chat on the server without analysing it */
+  const discardSimulation = useCallback(async (reason: 'abandoned' | 'timeout') => {
+    const saved = resumable;
+    if (!saved) return;
+
+    store.discardResumable();
+    try {
+      await simulationApi.end({ sessionId: saved.sessionId, endReason: reason });
+    } catch (error) {
+      // The server may already have closed it
+      console.error('Failed to end saved simulation:', error);
+    }
+  }, [store, resumable]);
+
   return {
     sessionId: store.sessionId,
     status: store.status,
     clientPersona: store.clientPersona,
     scenarioContext: store.scenarioContext,
+    listing: store.listing,
     conversationState: store.conversationState,
     messages: store.messages,
     currentSentiment: store.currentSentiment,
     turnNumber: store.turnNumber,
     elapsedTimeSeconds: store.elapsedTimeSeconds,
     hints: store.hints,
+    isScripted: store.isScripted,
     outcome: store.outcome,
     preliminaryScore: store.preliminaryScore,
     analysis: store.analysis,
     isTyping: store.isTyping,
     isSending: store.isSending,
     error: store.error,
+    resumable,
 
     startSimulation,
+    resumeSimulation,
+    discardSimulation,
     sendMessage,
     endSimulation,
     reset: store.reset,
@@ -0,0 +1,28 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { simulationApi } from '@/lib/api/simulation.api';
+import { adminApi } from '@/lib/api/admin.api';
+import { simulationKeys } from '@/lib/api/query-keys';
+
+/**
+ * Analysis of a finished text simulation. Trainees read their own; trainers
+ * go through the admin endpoint for a trainee's session.
+ */
+export function useSimulationAnalysis(sessionId: string | null, scope: 'trainee' | 'admin') {
+  return useQuery({
+    queryKey: simulationKeys.analysis(sessionId ?? '', scope),
+    queryFn: () =>
+      scope === 'admin'
+        ? adminApi.getSimulationAnalysis(sessionId!)
+        : simulationApi.getAnalysis({
+            sessionId: sessionId!,
+            includeDetailedTranscriptAnalysis: true,
+            compareToHistory: true,
+            generateRecommendations: true,
+          }),
+    enabled: !!sessionId,
+    // A finished session's analysis does not change
+    staleTime: Infinity,
+  });
+}
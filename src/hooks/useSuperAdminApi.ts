@@ -1,34 +1,13 @@
 'use client';
 
-import { useAuthStore } from '@/stores/auth.store';
+import { apiClient } from '@/lib/api/client';
 import { useCallback } from 'react';
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
 export function useSuperAdminApi() {
-  const token = useAuthStore((state) => state.token);
-
   const fetchApi = useCallback(
-    async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
-      const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null);
-
-      const response = await fetch(`${API_BASE}/super-admin${endpoint}`, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(authToken && { Authorization: `Bearer ${authToken}` }),
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Request failed' }));
-        throw new Error(error.message || error.error || `HTTP error! status: ${response.status}`);
-      }
-
-      return response.json();
-    },
-    [token]
+    <T>(endpoint: string, options: RequestInit = {}): Promise<T> =>
+      apiClient.request<T>(`/super-admin${endpoint}`, options),
+    []
   );
 
   return {
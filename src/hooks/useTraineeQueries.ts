@@ -0,0 +1,26 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { traineeApi } from '@/lib/api/trainee.api';
+import { traineeKeys } from '@/lib/api/query-keys';
+
+export function useTraineeProfile() {
+  return useQuery({
+    queryKey: traineeKeys.profile(),
+    queryFn: () => traineeApi.getProfile(),
+  });
+}
+
+export function useTraineeDashboardStats() {
+  return useQuery({
+    queryKey: traineeKeys.dashboardStats(),
+    queryFn: () => traineeApi.getDashboardStats(),
+  });
+}
+
+export function useAssignedTeacher() {
+  return useQuery({
+    queryKey: traineeKeys.assignedTeacher(),
+    queryFn: () => traineeApi.getAssignedTeacher(),
+  });
+}
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { Language } from '@/contexts/LanguageContext';
+import { getPlaybackQueue } from '@/lib/audio/playback';
+import { createMicMeter } from '@/lib/audio/mic-meter';
+import type { MicMeter } from '@/lib/audio/mic-meter';
+import { createSpeechInput, isSpeechInputSupported } from '@/lib/audio/speech-input';
+import type { SpeechInput, SpeechInputError, SpeechInputKind } from '@/lib/audio/speech-input';
+import type { SpeechOutput } from '@/lib/audio/speech-output';
+import { nextVoiceStatus, isVoiceLive } from '@/lib/audio/voice-machine';
+import type { VoiceEvent, VoiceStatus } from '@/lib/audio/voice-machine';
+import { usePlayback } from './usePlayback';
+
+/** What the other side says back; audio is played as is, text is synthesized by the output */
+export interface VoiceReply {
+  text?: string | null;
+  audioBase64?: string | null;
+}
+
+export interface VoiceEngineOptions {
+  input: SpeechInputKind;
+  /** Speech-to-text locale; defaults to the UI language */
+  language?: Language;
+  /** Voice for replies that come back as text only */
+  output?: SpeechOutput;
+  /** Called with every finished utterance; resolves with the reply to speak, if any */
+  onUtterance: (text: string) => Promise<VoiceReply | null | void>;
+  /** Keep the microphone open between turns instead of push-to-talk */
+  handsFree?: boolean;
+  /** Talking over a reply stops it; otherwise the mic is paused while the reply plays */
+  bargeIn?: boolean;
+  /** Bars in the microphone level meter, 0 for none */
+  meterBars?: number;
+}
+
+export function useVoiceEngine({
+  input,
+  language: languageOverride,
+  output,
+  onUtterance,
+  handsFree = false,
+  bargeIn = false,
+  meterBars = 0,
+}: VoiceEngineOptions) {
+  const { language: uiLanguage, t } = useLanguage();
+  const language = languageOverride ?? uiLanguage;
+  const playback = usePlayback();
+
+  const [status, setStatus] = useState<VoiceStatus>('idle');
+  const [isListening, setIsListening] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [levels, setLevels] = useState<number[]>(() => new Array(meterBars).fill(0));
+  const [error, setError] = useState<string | null>(null);
+  const [inputSupported, setInputSupported] = useState(false);
+
+  const statusRef = useRef<VoiceStatus>('idle');
+  const inputRef = useRef<SpeechInput | null>(null);
+  const meterRef = useRef<MicMeter | null>(null);
+  // Bumped whenever a turn is abandoned so late replies are dropped
+  const turnRef = useRef(0);
+  // The user (or hands-free mode) wants the mic open; it may still be paused while a reply plays
+  const wantListeningRef = useRef(false);
+  const usedPlaybackRef = useRef(false);
+  const optionsRef = useRef({ onUtterance, output, handsFree, bargeIn, language });
+  optionsRef.current = { onUtterance, output, handsFree, bargeIn, language };
+
+  const send = useCallback((event: VoiceEvent) => {
+    statusRef.current = nextVoiceStatus(statusRef.current, event);
+    setStatus(statusRef.current);
+  }, []);
+
+  const inputErrorMessage = useCallback(
+    (inputError: SpeechInputError) => {
+      if (inputError === 'not-allowed') return t.voiceCall.micPermissionError;
+      if (inputError === 'unsupported') return t.errors.somethingWentWrong;
+      return t.voiceCall.didntHear;
+    },
+    [t]
+  );
+
+  // Latest handlers for the speech input, which outlives renders
+  const handlersRef = useRef({
+    onSpeechStart: () => {},
+    onFinal: (_text: string) => {},
+    onError: (_error: SpeechInputError) => {},
+    onEnd: () => {},
+  });
+
+  const getInput = useCallback((): SpeechInput => {
+    if (!inputRef.current) {
+      inputRef.current = createSpeechInput(input, language, {
+        onSpeechStart: () => handlersRef.current.onSpeechStart(),
+        onInterim: (text) => setInterimTranscript(text),
+        onTranscribing: (busy) => setIsTranscribing(busy),
+        onFinal: (text) => handlersRef.current.onFinal(text),
+        onError: (inputError) => handlersRef.current.onError(inputError),
+        onEnd: () => handlersRef.current.onEnd(),
+      });
+    }
+    return inputRef.current;
+  }, [input, language]);
+
+  const openMic = useCallback(() => {
+    setIsListening(true);
+    void getInput().start();
+  }, [getInput]);
+
+  /** Close the mic without giving up on listening, e.g. while a reply plays */
+  const pauseMic = useCallback(() => {
+    inputRef.current?.abort();
+    setIsListening(false);
+    setIsUserSpeaking(false);
+  }, []);
+
+  const resumeMic = useCallback(() => {
+    if (wantListeningRef.current && isVoiceLive(statusRef.current)) openMic();
+  }, [openMic]);
+
+  const speakReply = useCallback(
+    async (reply: VoiceReply | null | void, turn: number, id?: string) => {
+      let audio = reply?.audioBase64 || null;
+      const { output: voice, bargeIn: canBargeIn, language: replyLanguage } = optionsRef.current;
+      if (!audio && reply?.text && voice) {
+        try {
+          audio = await voice.synthesize(reply.text, replyLanguage);
+        } catch (err) {
+          console.error('[VoiceEngine] Speech synthesis failed:', err);
+        }
+      }
+      if (turn !== turnRef.current) return;
+      if (!audio) {
+        // A streamed reply may already be playing through enqueueAudio
+        if (statusRef.current === 'processing') {
+          send('done');
+          resumeMic();
+        }
+        return;
+      }
+
+      send('speak');
+      if (!canBargeIn) pauseMic();
+      usedPlaybackRef.current = true;
+      await getPlaybackQueue().play(audio, id);
+      // Interrupted, superseded or closed while playing
+      if (turn !== turnRef.current || statusRef.current !== 'speaking') return;
+      send('done');
+      resumeMic();
+    },
+    [send, pauseMic, resumeMic]
+  );
+
+  /** Answer an utterance, typed or spoken */
+  const submit = useCallback(
+    async (text: string) => {
+      const trimmed = text.trim();
+      if (!trimmed || !isVoiceLive(statusRef.current)) return;
+
+      const turn = ++turnRef.current;
+      getPlaybackQueue().stop();
+      setInterimTranscript('');
+      send('submit');
+      if (!optionsRef.current.bargeIn) pauseMic();
+
+      let reply: VoiceReply | null | void;
+      try {
+        reply = await optionsRef.current.onUtterance(trimmed);
+      } catch (err) {
+        if (turn !== turnRef.current) return;
+        setError(err instanceof Error ? err.message : t.errors.somethingWentWrong);
+        send('done');
+        resumeMic();
+        return;
+      }
+      if (turn !== turnRef.current) return;
+      await speakReply(reply, turn);
+    },
+    [send, pauseMic, resumeMic, speakReply, t]
+  );
+
+  /** Speak a reply that did not come from an utterance, e.g. a greeting or a replayed message */
+  const speak = useCallback(
+    async (reply: VoiceReply, id?: string) => {
+      const turn = ++turnRef.current;
+      await speakReply(reply, turn, id);
+    },
+    [speakReply]
+  );
+
+  /** Queue a streamed chunk of reply audio behind whatever is already playing */
+  const enqueueAudio = useCallback(
+    async (base64: string, id?: string) => {
+      if (!isVoiceLive(statusRef.current)) return;
+      const turn = turnRef.current;
+      send('speak');
+      if (!optionsRef.current.bargeIn) pauseMic();
+      usedPlaybackRef.current = true;
+      const queue = getPlaybackQueue();
+      await queue.enqueue(base64, id);
+      if (turn !== turnRef.current || statusRef.current !== 'speaking' || queue.state !== 'idle') return;
+      send('done');
+      resumeMic();
+    },
+    [send, pauseMic, resumeMic]
+  );
+
+  /** Cut the reply short and hand the turn back to the user */
+  const interrupt = useCallback(() => {
+    turnRef.current++;
+    getPlaybackQueue().stop();
+    if (statusRef.current === 'speaking' || statusRef.current === 'processing') {
+      send('done');
+      resumeMic();
+    }
+  }, [send, resumeMic]);
+
+  const startListening = useCallback(() => {
+    if (!isVoiceLive(statusRef.current)) return;
+    if (!isSpeechInputSupported(input)) {
+      setError(t.errors.somethingWentWrong);
+      return;
+    }
+    wantListeningRef.current = true;
+    if (statusRef.current === 'speaking') interrupt();
+    openMic();
+  }, [input, interrupt, openMic, t]);
+
+  const stopListening = useCallback(() => {
+    wantListeningRef.current = false;
+    inputRef.current?.stop();
+    setIsListening(false);
+    setIsUserSpeaking(false);
+  }, []);
+
+  const toggleListening = useCallback(() => {
+    if (wantListeningRef.current) stopListening();
+    else startListening();
+  }, [startListening, stopListening]);
+
+  handlersRef.current = {
+    onSpeechStart: () => {
+      setIsUserSpeaking(true);
+      if (optionsRef.current.bargeIn && statusRef.current === 'speaking') interrupt();
+    },
+    onFinal: (text) => {
+      setIsUserSpeaking(false);
+      void submit(text);
+    },
+    onError: (inputError) => {
+      setIsUserSpeaking(false);
+      setError(inputErrorMessage(inputError));
+      if (inputError !== 'failed') {
+        wantListeningRef.current = false;
+        setIsListening(false);
+      }
+    },
+    onEnd: () => {
+      setIsListening(false);
+      setIsUserSpeaking(false);
+      // Browsers end recognition after a stretch of silence; reopen it in hands-free calls
+      if (optionsRef.current.handsFree && wantListeningRef.current && statusRef.current === 'active') {
+        setTimeout(resumeMic, 300);
+      }
+    },
+  };
+
+  const releaseDevices = useCallback(() => {
+    wantListeningRef.current = false;
+    inputRef.current?.dispose();
+    inputRef.current = null;
+    meterRef.current?.stop();
+    meterRef.current = null;
+    setIsListening(false);
+    setIsUserSpeaking(false);
+    setInterimTranscript('');
+  }, []);
+
+  /** Open the session; `connect` resolves with the greeting to speak, if any */
+  const open = useCallback(
+    async (connect?: () => Promise<VoiceReply | null | void>) => {
+      turnRef.current++;
+      setError(null);
+      send('connect');
+      try {
+        const greeting = await connect?.();
+        if (statusRef.current !== 'connecting') return;
+        send('connected');
+        if (meterBars > 0) {
+          meterRef.current = createMicMeter(meterBars, setLevels);
+          void meterRef.current.start();
+        }
+        if (optionsRef.current.handsFree && isSpeechInputSupported(input)) wantListeningRef.current = true;
+        if (greeting) await speak(greeting);
+        else resumeMic();
+      } catch (err) {
+        releaseDevices();
+        setError(err instanceof Error ? err.message : t.errors.somethingWentWrong);
+        send('fail');
+      }
+    },
+    [input, meterBars, send, speak, resumeMic, releaseDevices, t]
+  );
+
+  /** Close the session; `disconnect` runs while the status is `ending` */
+  const close = useCallback(
+    async (disconnect?: () => Promise<void>) => {
+      turnRef.current++;
+      getPlaybackQueue().stop();
+      releaseDevices();
+      send('end');
+      try {
+        await disconnect?.();
+        send('ended');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t.errors.somethingWentWrong);
+        send('fail');
+      }
+    },
+    [send, releaseDevices, t]
+  );
+
+  /** A failure outside the engine, e.g. the transport dropped */
+  const fail = useCallback(
+    (message: string) => {
+      turnRef.current++;
+      getPlaybackQueue().stop();
+      releaseDevices();
+      setError(message);
+      send('fail');
+    },
+    [send, releaseDevices]
+  );
+
+  const reset = useCallback(() => {
+    turnRef.current++;
+    if (usedPlaybackRef.current) getPlaybackQueue().stop();
+    releaseDevices();
+    setError(null);
+    send('reset');
+  }, [send, releaseDevices]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  // Checked after mount so server and client render the same
+  useEffect(() => {
+    setInputSupported(isSpeechInputSupported(input));
+  }, [input]);
+
+  // A new language or input kind needs a fresh recognizer
+  useEffect(() => {
+    return () => {
+      inputRef.current?.dispose();
+      inputRef.current = null;
+    };
+  }, [input, language]);
+
+  useEffect(() => {
+    if (wantListeningRef.current && statusRef.current === 'active') resumeMic();
+  }, [resumeMic]);
+
+  useEffect(() => {
+    return () => {
+      turnRef.current++;
+      inputRef.current?.dispose();
+      meterRef.current?.stop();
+      if (usedPlaybackRef.current) getPlaybackQueue().stop();
+    };
+  }, []);
+
+  return {
+    status,
+    isLive: isVoiceLive(status),
+    isListening,
+    isUserSpeaking,
+    isTranscribing,
+    isAISpeaking: status === 'speaking',
+    isProcessing: status === 'processing',
+    playingId: playback.currentId,
+    interimTranscript,
+    levels,
+    error,
+    inputSupported,
+    open,
+    close,
+    fail,
+    submit,
+    speak,
+    enqueueAudio,
+    interrupt,
+    startListening,
+    stopListening,
+    toggleListening,
+    reset,
+    clearError,
+  };
+}
+
+export type VoiceEngine = ReturnType<typeof useVoiceEngine>;
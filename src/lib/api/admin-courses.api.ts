@@ -140,25 +140,6 @@ export interface UpdateLectureData extends Partial<CreateLectureData> {}
 
 // ─── API ──────────────────────────────────────────────────
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-function getAuthToken(): string {
-  if (typeof window === 'undefined') return '';
-  let token = localStorage.getItem('auth_token');
-  if (!token) {
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        token = parsed?.state?.token || null;
-      }
-    } catch {
-      /* ignore */
-    }
-  }
-  return token || '';
-}
-
 export const adminCoursesApi = {
   // ─── Courses ────────────────────────────────────────
 
@@ -252,20 +233,7 @@ export const adminCoursesApi = {
     if (options?.titleAr) formData.append('titleAr', options.titleAr);
     if (options?.titleEn) formData.append('titleEn', options.titleEn);
 
-    const response = await fetch(`${API_BASE}/admin/courses/${courseId}/attachments`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${getAuthToken()}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw new Error(error.error || 'Upload failed');
-    }
-
-    return response.json();
+    return apiClient.upload<{ attachment: CourseAttachment }>(`/admin/courses/${courseId}/attachments`, formData);
   },
 
   /** Delete attachment */
@@ -281,20 +249,7 @@ export const adminCoursesApi = {
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch(`${API_BASE}/admin/courses/${courseId}/thumbnail`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${getAuthToken()}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw new Error(error.error || 'Upload failed');
-    }
-
-    return response.json();
+    return apiClient.upload<{ course: Course; thumbnailUrl: string }>(`/admin/courses/${courseId}/thumbnail`, formData);
   },
 
   // ─── Helpers ────────────────────────────────────────
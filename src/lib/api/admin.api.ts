@@ -1,4 +1,7 @@
 import { apiClient } from './client';
+import type { VoiceSessionRecord } from './elevenlabs.api';
+import type { SimulationHistoryRecord } from './simulation.api';
+import type { SimulationAnalysisOutput } from '@/types/simulation.types';
 
 // Types
 export interface RoleInfo {
@@ -75,6 +78,31 @@ export interface Employee {
   status: string;
 }
 
+export interface EmployeeDetail extends Employee {
+  sessions: {
+    id: string;
+    scenarioType: string;
+    difficultyLevel: string;
+    status: string;
+    score: number | null;
+    grade: string | null;
+    completedAt: string | null;
+    durationSeconds: number | null;
+  }[];
+  scoreHistory: {
+    date: string;
+    score: number;
+    sessionId: string;
+  }[];
+  skillBreakdown: {
+    skill: string;
+    averageScore: number;
+    sessionCount: number;
+  }[];
+  weakSkills: string[];
+  recommendations: string[];
+}
+
 export interface EmployeeListResponse {
   employees: Employee[];
   total: number;
@@ -115,6 +143,34 @@ export interface GroupsResponse {
   canDeleteGroups: boolean;
 }
 
+export interface AdminVoiceSession {
+  id: string;
+  conversationId: string;
+  traineeId: string;
+  traineeName: string;
+  traineeEmail: string;
+  startTime: string;
+  endTime: string | null;
+  duration: number;
+  overallScore: number;
+  status: string;
+  hasAudio: boolean;
+}
+
+export interface AdminVoiceSessionListResponse {
+  sessions: AdminVoiceSession[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface TraineeReportsInfo {
+  traineeId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
 // API Functions
 export const adminApi = {
   // Get role info and permissions
@@ -152,7 +208,7 @@ export const adminApi = {
   },
 
   getEmployee: (id: string) =>
-    apiClient.get<Employee>(`/admin/employees/${id}`),
+    apiClient.get<EmployeeDetail>(`/admin/employees/${id}`),
 
   createEmployee: (data: {
     firstName: string;
@@ -171,6 +227,9 @@ export const adminApi = {
   updateEmployeeStatus: (id: string, status: 'active' | 'suspended', reason?: string) =>
     apiClient.patch<Employee>(`/admin/employees/${id}/status`, { status, reason }),
 
+  updateEmployeeRole: (id: string, role: string) =>
+    apiClient.patch<Employee>(`/admin/employees/${id}/role`, { role }),
+
   deleteEmployee: (id: string) =>
     apiClient.delete<{ message: string }>(`/admin/employees/${id}`),
 
@@ -182,72 +241,19 @@ export const adminApi = {
     const queryParams: Record<string, string> = {};
     if (params?.page) queryParams.page = params.page.toString();
     if (params?.limit) queryParams.limit = params.limit.toString();
-    return apiClient.get<{
-      sessions: Array<{
-        id: string;
-        conversationId: string;
-        traineeId: string;
-        traineeName: string;
-        traineeEmail: string;
-        startTime: string;
-        endTime: string | null;
-        duration: number;
-        overallScore: number;
-        status: string;
-        hasAudio: boolean;
-      }>;
-      total: number;
-      page: number;
-      totalPages: number;
-    }>('/admin/voice-sessions', queryParams);
+    return apiClient.get<AdminVoiceSessionListResponse>('/admin/voice-sessions', queryParams);
   },
 
   getTraineeVoiceSessions: (traineeId: string) =>
-    apiClient.get<{
-      sessions: Array<{
-        id: string;
-        conversationId: string;
-        traineeId: string;
-        startTime: string;
-        endTime: string | null;
-        duration: number;
-        durationSeconds: number;
-        overallScore: number;
-        status: string;
-        analysis: unknown;
-        transcript: unknown;
-        hasAudio: boolean;
-      }>;
-    }>(`/admin/trainee/${traineeId}/voice-sessions`),
+    apiClient.get<{ sessions: VoiceSessionRecord[] }>(`/admin/trainee/${traineeId}/voice-sessions`),
 
   getTraineeSimulations: (traineeId: string) =>
-    apiClient.get<{
-      sessions: Array<{
-        id: string;
-        traineeId: string;
-        scenarioType: string;
-        difficultyLevel: string;
-        status: string;
-        startedAt: string;
-        completedAt: string | null;
-        durationSeconds: number | null;
-        outcome: string | null;
-        metrics: unknown;
-        conversationTurns: Array<{
-          id: string;
-          speaker: string;
-          message: string;
-          timestamp: string;
-          sentiment: string | null;
-        }>;
-      }>;
-    }>(`/admin/trainee/${traineeId}/simulations`),
+    apiClient.get<{ sessions: SimulationHistoryRecord[] }>(`/admin/trainee/${traineeId}/simulations`),
+
+  /** Stored analysis of one of a trainee's text simulations */
+  getSimulationAnalysis: (sessionId: string) =>
+    apiClient.get<SimulationAnalysisOutput>(`/admin/simulations/${sessionId}/analysis`),
 
   getTraineeReports: (traineeId: string) =>
-    apiClient.get<{
-      traineeId: string;
-      firstName: string;
-      lastName: string;
-      email: string;
-    }>(`/admin/trainee/${traineeId}/reports`),
+    apiClient.get<TraineeReportsInfo>(`/admin/trainee/${traineeId}/reports`),
 };
@@ -4,7 +4,7 @@
  * Frontend API client for the AI Teacher feature.
  */
 
-import { apiClient } from './client';
+import { apiClient, AI_TIMEOUT_MS } from './client';
 
 // ============================================================================
 // TYPES
@@ -245,32 +245,10 @@ export const aiTeacherApi = {
     lessonContext?: LessonContextPayload,
     teacherName?: string
   ): AsyncGenerator<StreamingChatResponse, void, unknown> {
-    const token = localStorage.getItem('auth-storage');
-    let authToken = '';
-    if (token) {
-      try {
-        const parsed = JSON.parse(token);
-        authToken = parsed?.state?.token || '';
-      } catch {
-        // Ignore parse errors
-      }
-    }
-
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/ai-teacher/chat/stream`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${authToken}`,
-        },
-        body: JSON.stringify({ message, attachments, lessonContext, teacherName }),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to start streaming chat');
-    }
+    const response = await apiClient.requestRaw('/ai-teacher/chat/stream', {
+      method: 'POST',
+      body: JSON.stringify({ message, attachments, lessonContext, teacherName }),
+    });
 
     if (!response.body) {
       throw new Error('No response body for streaming');
@@ -353,6 +331,11 @@ export const aiTeacherApi = {
     return apiClient.post<{ audio: string }>('/ai-teacher/tts', { text, language, teacherName });
   },
 
+  /** Synthesize with an explicit voice, e.g. to preview a voice before it is saved on a teacher */
+  previewVoice: async (text: string, language: 'ar' | 'en', voiceId: string): Promise<{ audio: string }> => {
+    return apiClient.post<{ audio: string }>('/ai-teacher/tts', { text, language, voiceId });
+  },
+
   /**
    * Get welcome audio for a teacher persona
    * Uses pre-defined welcome messages for instant response
@@ -368,31 +351,7 @@ export const aiTeacherApi = {
     formData.append('audio', audioBlob, 'recording.webm');
     formData.append('language', language);
 
-    const token = localStorage.getItem('auth-storage');
-    let authToken = '';
-    if (token) {
-      try {
-        const parsed = JSON.parse(token);
-        authToken = parsed?.state?.token || '';
-      } catch {
-        // Ignore parse errors
-      }
-    }
-
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/ai-teacher/stt`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Speech-to-text failed: ${error}`);
-    }
-
-    return response.json();
+    return apiClient.upload<{ text: string }>('/ai-teacher/stt', formData);
   },
 
   // File upload (single file)
@@ -400,28 +359,7 @@ export const aiTeacherApi = {
     const formData = new FormData();
     formData.append('file', file);
 
-    const token = localStorage.getItem('auth-storage');
-    let authToken = '';
-    if (token) {
-      try {
-        const parsed = JSON.parse(token);
-        authToken = parsed?.state?.token || '';
-      } catch {}
-    }
-
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/ai-teacher/upload`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to upload file');
-    }
-
-    return response.json();
+    return apiClient.upload<FileAttachment>('/ai-teacher/upload', formData);
   },
 
   // Multi-file upload (up to 5 files including images, PDFs, PPTs)
@@ -431,31 +369,7 @@ export const aiTeacherApi = {
       formData.append('files', file);
     });
 
-    const token = localStorage.getItem('auth-storage');
-    let authToken = '';
-    if (token) {
-      try {
-        const parsed = JSON.parse(token);
-        authToken = parsed?.state?.token || '';
-      } catch {}
-    }
-
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'}/ai-teacher/upload-multiple`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to upload files');
-    }
-
-    return response.json();
+    return apiClient.upload<{ attachments: FileAttachment[]; count: number }>('/ai-teacher/upload-multiple', formData);
   },
 
   // Pre-render TTS for first sentence (for streaming optimization)
@@ -517,14 +431,14 @@ export const avContentApi = {
    * Generate a video lecture with slides and audio
    */
   generateLecture: async (params: GenerateLectureRequest): Promise<AVContent> => {
-    return apiClient.post<AVContent>('/ai-teacher/av/generate-lecture', params);
+    return apiClient.post<AVContent>('/ai-teacher/av/generate-lecture', params, { timeout: AI_TIMEOUT_MS });
   },
 
   /**
    * Generate an audio summary focused on weak areas
    */
   generateSummary: async (params: GenerateSummaryRequest): Promise<AVContent> => {
-    return apiClient.post<AVContent>('/ai-teacher/av/generate-summary', params);
+    return apiClient.post<AVContent>('/ai-teacher/av/generate-summary', params, { timeout: AI_TIMEOUT_MS });
   },
 
   /**
@@ -3,7 +3,7 @@
  * Handles CRUD operations for AI Teachers management
  */
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+import { apiClient } from './client';
 
 export interface AITeacher {
   id: string;
@@ -103,380 +103,141 @@ export interface UpdateAITeacherData {
   isActive?: boolean;
 }
 
-function getAuthHeaders(): HeadersInit {
-  const token = typeof window !== 'undefined'
-    ? localStorage.getItem('auth-storage')
-    : null;
-
-  if (token) {
-    try {
-      const parsed = JSON.parse(token);
-      const authToken = parsed?.state?.token;
-      if (authToken) {
-        return {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        };
-      }
-    } catch (e) {
-      console.error('Failed to parse auth token:', e);
-    }
-  }
-
-  return {
-    'Content-Type': 'application/json',
-  };
-}
-
 export const aiTeachersApi = {
   /**
    * List all AI teachers for the organization
    */
   async list(): Promise<{ teachers: AITeacher[] }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch teachers' }));
-      throw new Error(error.error || 'Failed to fetch teachers');
-    }
-
-    return response.json();
+    return apiClient.get('/admin/ai-teachers');
   },
 
   /**
    * Get a single AI teacher by ID
    */
   async get(id: string): Promise<{ teacher: AITeacher }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch teacher' }));
-      throw new Error(error.error || 'Failed to fetch teacher');
-    }
-
-    return response.json();
+    return apiClient.get(`/admin/ai-teachers/${id}`);
   },
 
   /**
    * Create a new AI teacher
    */
   async create(data: CreateAITeacherData): Promise<{ teacher: AITeacher }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create teacher' }));
-      throw new Error(error.error || 'Failed to create teacher');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers', data);
   },
 
   /**
    * Update an AI teacher
    */
   async update(id: string, data: UpdateAITeacherData): Promise<{ teacher: AITeacher }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}`, {
-      method: 'PATCH',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update teacher' }));
-      throw new Error(error.error || 'Failed to update teacher');
-    }
-
-    return response.json();
+    return apiClient.patch(`/admin/ai-teachers/${id}`, data);
   },
 
   /**
    * Delete an AI teacher
    */
   async delete(id: string): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to delete teacher' }));
-      throw new Error(error.error || 'Failed to delete teacher');
-    }
-
-    return response.json();
+    return apiClient.delete(`/admin/ai-teachers/${id}`);
   },
 
   /**
    * Get trainees assigned to a teacher
    */
   async getTrainees(id: string): Promise<{ trainees: AITeacherTrainee[] }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}/trainees`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch trainees' }));
-      throw new Error(error.error || 'Failed to fetch trainees');
-    }
-
-    return response.json();
+    return apiClient.get(`/admin/ai-teachers/${id}/trainees`);
   },
 
   /**
    * Get trainees available (not assigned) to a teacher
    */
   async getAvailableTrainees(id: string): Promise<{ trainees: AvailableTrainee[] }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}/available-trainees`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch available trainees' }));
-      throw new Error(error.error || 'Failed to fetch available trainees');
-    }
-
-    return response.json();
+    return apiClient.get(`/admin/ai-teachers/${id}/available-trainees`);
   },
 
   /**
    * Get documents assigned to a teacher
    */
   async getDocuments(id: string): Promise<{ documents: AITeacherDocument[] }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}/documents`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch documents' }));
-      throw new Error(error.error || 'Failed to fetch documents');
-    }
-
-    return response.json();
+    return apiClient.get(`/admin/ai-teachers/${id}/documents`);
   },
 
   /**
    * Upload avatar for a teacher
    */
   async uploadAvatar(id: string, file: File): Promise<{ teacher: AITeacher }> {
-    const token = typeof window !== 'undefined'
-      ? localStorage.getItem('auth-storage')
-      : null;
-
-    let authToken = '';
-    if (token) {
-      try {
-        const parsed = JSON.parse(token);
-        authToken = parsed?.state?.token || '';
-      } catch (e) {
-        console.error('Failed to parse auth token:', e);
-      }
-    }
-
     const formData = new FormData();
     formData.append('avatar', file);
 
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}/avatar`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload avatar' }));
-      throw new Error(error.error || 'Failed to upload avatar');
-    }
-
-    return response.json();
+    return apiClient.upload(`/admin/ai-teachers/${id}/avatar`, formData);
   },
 
   /**
    * Seed default teachers (utility function)
    */
   async seedDefaults(): Promise<{ teachers: AITeacher[]; message: string }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/seed`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to seed teachers' }));
-      throw new Error(error.error || 'Failed to seed teachers');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/seed');
   },
 
   /**
    * Add missing default teachers (doesn't overwrite existing)
    */
   async seedMissing(): Promise<{ message: string; createdCount: number; existingCount: number; createdNames?: string[] }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/seed-missing`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({}), // Cloud Run needs content-length
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to seed missing teachers' }));
-      throw new Error(error.error || 'Failed to seed missing teachers');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/seed-missing', {}); // Cloud Run needs content-length
   },
 
   /**
    * Bulk assign trainees to a teacher
    */
   async assignTrainees(teacherId: string, traineeIds: string[]): Promise<{ message: string; assignedCount: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${teacherId}/assign-trainees`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ traineeIds }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to assign trainees' }));
-      throw new Error(error.error || 'Failed to assign trainees');
-    }
-
-    return response.json();
+    return apiClient.post(`/admin/ai-teachers/${teacherId}/assign-trainees`, { traineeIds });
   },
 
   /**
    * Bulk unassign trainees from a teacher
    */
   async unassignTrainees(teacherId: string, traineeIds: string[]): Promise<{ message: string; unassignedCount: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${teacherId}/unassign-trainees`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ traineeIds }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to unassign trainees' }));
-      throw new Error(error.error || 'Failed to unassign trainees');
-    }
-
-    return response.json();
+    return apiClient.post(`/admin/ai-teachers/${teacherId}/unassign-trainees`, { traineeIds });
   },
 
   /**
    * Resync default teachers with latest prompts (only updates empty prompts)
    */
   async resync(): Promise<{ message: string; updatedCount: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/resync`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to resync teachers' }));
-      throw new Error(error.error || 'Failed to resync teachers');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/resync');
   },
 
   /**
    * Force resync default teachers with latest prompts (overwrites existing)
    */
   async forceResync(): Promise<{ message: string; updatedCount: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/force-resync`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to force-resync teachers' }));
-      throw new Error(error.error || 'Failed to force-resync teachers');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/force-resync');
   },
 
   /**
    * Reset all trainee evaluations (clear assignments and skill levels)
    */
   async resetEvaluations(): Promise<{ message: string; resetCount: number; deletedReports: number; deletedSessions: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/reset-evaluations`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({}), // Cloud Run needs content-length
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to reset evaluations' }));
-      throw new Error(error.error || 'Failed to reset evaluations');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/reset-evaluations', {}); // Cloud Run needs content-length
   },
 
   /**
    * Get all avatars (for lazy loading after initial data loads)
    */
   async getAvatars(): Promise<{ avatars: Record<string, string | null> }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/avatars`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch avatars' }));
-      throw new Error(error.error || 'Failed to fetch avatars');
-    }
-
-    return response.json();
+    return apiClient.get('/admin/ai-teachers/avatars');
   },
 
   /**
    * Get single teacher avatar (for lazy loading on detail page)
    */
   async getAvatar(id: string): Promise<{ avatarUrl: string | null }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/${id}/avatar`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch avatar' }));
-      throw new Error(error.error || 'Failed to fetch avatar');
-    }
-
-    return response.json();
+    return apiClient.get(`/admin/ai-teachers/${id}/avatar`);
   },
 
   /**
    * Sync avatars with default static images (updates existing teachers)
    */
   async syncAvatars(): Promise<{ message: string; updatedCount: number }> {
-    const response = await fetch(`${API_URL}/admin/ai-teachers/sync-avatars`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({}),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to sync avatars' }));
-      throw new Error(error.error || 'Failed to sync avatars');
-    }
-
-    return response.json();
+    return apiClient.post('/admin/ai-teachers/sync-avatars', {});
   },
 };
 
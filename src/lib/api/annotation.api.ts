@@ -0,0 +1,48 @@
+import { apiClient } from './client';
+import type {
+  TranscriptComment,
+  CreateTranscriptCommentInput,
+  UnreadFeedback,
+} from '@/types/simulation.types';
+
+export const annotationApi = {
+  // ==========================================
+  // Trainee endpoints
+  // ==========================================
+
+  /** Trainer notes and replies on one of the trainee's own sessions */
+  getSessionComments: async (sessionId: string): Promise<{ comments: TranscriptComment[] }> => {
+    return apiClient.get<{ comments: TranscriptComment[] }>(`/simulations/${sessionId}/comments`);
+  },
+
+  /** Reply to a trainer note; trainees cannot start threads */
+  replyToComment: async (sessionId: string, input: CreateTranscriptCommentInput): Promise<TranscriptComment> => {
+    return apiClient.post<TranscriptComment>(`/simulations/${sessionId}/comments`, input);
+  },
+
+  /** Sessions with trainer feedback added since the trainee last opened them */
+  getUnreadFeedback: async (): Promise<{ sessions: UnreadFeedback[] }> => {
+    return apiClient.get<{ sessions: UnreadFeedback[] }>('/simulations/feedback/unread');
+  },
+
+  markFeedbackRead: async (sessionId: string): Promise<void> => {
+    return apiClient.post<void>(`/simulations/${sessionId}/comments/read`);
+  },
+
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  getTraineeSessionComments: async (sessionId: string): Promise<{ comments: TranscriptComment[] }> => {
+    return apiClient.get<{ comments: TranscriptComment[] }>(`/admin/simulations/${sessionId}/comments`);
+  },
+
+  /** Add a note or a reply; the server notifies the trainee */
+  addComment: async (sessionId: string, input: CreateTranscriptCommentInput): Promise<TranscriptComment> => {
+    return apiClient.post<TranscriptComment>(`/admin/simulations/${sessionId}/comments`, input);
+  },
+
+  deleteComment: async (sessionId: string, commentId: string): Promise<void> => {
+    return apiClient.delete<void>(`/admin/simulations/${sessionId}/comments/${commentId}`);
+  },
+};
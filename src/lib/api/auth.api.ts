@@ -21,6 +21,10 @@ export interface RegisterInput {
 
 export interface AuthResult {
   accessToken: string;
+  // Long-lived token used to renew accessToken (absent on older backends)
+  refreshToken?: string;
+  // Access token lifetime in seconds
+  expiresIn?: number;
   user: {
     id: string;
     email: string;
@@ -40,6 +44,13 @@ export interface AuthResult {
   };
 }
 
+export interface RefreshResult {
+  accessToken: string;
+  // Set when the backend rotates refresh tokens
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
 // Mock user data for development when backend is unavailable
 const MOCK_USERS: Record<string, { password: string; user: AuthResult['user'] }> = {
   'admin@example.com': {
@@ -133,6 +144,15 @@ export const authApi = {
     return apiClient.post<AuthResult>('/auth/register', input);
   },
 
+  /** Exchange a refresh token for a new access token */
+  refresh: async (refreshToken: string): Promise<RefreshResult> => {
+    return apiClient.request<RefreshResult>('/auth/refresh', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+      skipAuthRefresh: true,
+    });
+  },
+
   getCurrentUser: async (): Promise<{ userId: string; email: string; role: string }> => {
     return apiClient.get('/auth/me');
   },
@@ -59,23 +59,6 @@ export interface BrainDocumentStatusResponse {
 
 // ─── API ──────────────────────────────────────────────────
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
-
-function getAuthToken(): string {
-  if (typeof window === 'undefined') return '';
-  let token = localStorage.getItem('auth_token');
-  if (!token) {
-    try {
-      const authStorage = localStorage.getItem('auth-storage');
-      if (authStorage) {
-        const parsed = JSON.parse(authStorage);
-        token = parsed?.state?.token || null;
-      }
-    } catch { /* ignore */ }
-  }
-  return token || '';
-}
-
 export const brainApi = {
   // ─── Documents ────────────────────────────────────────
 
@@ -111,20 +94,7 @@ export const brainApi = {
     if (options?.teacherId) formData.append('teacherId', options.teacherId);
     if (options?.tags?.length) formData.append('tags', JSON.stringify(options.tags));
 
-    const response = await fetch(`${API_BASE}/brain/documents`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${getAuthToken()}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
-      throw new Error(error.error || 'Upload failed');
-    }
-
-    return response.json();
+    return apiClient.upload<BrainUploadResponse>('/brain/documents', formData);
   },
 
   /** Delete a document */
@@ -0,0 +1,65 @@
+import { apiClient } from './client';
+import type {
+  Certificate,
+  CertificateSettings,
+  CertificateVerification,
+  IssuedCertificate,
+  IssuedCertificateListParams,
+  UpdateCertificateSettingsInput,
+} from '@/types/certificate';
+
+export const certificateApi = {
+  // ==========================================
+  // Trainee endpoints
+  // ==========================================
+
+  /** Certificates earned by the current trainee, newest first */
+  getMyCertificates: async (): Promise<{ certificates: Certificate[] }> => {
+    return apiClient.get<{ certificates: Certificate[] }>('/certificates/mine');
+  },
+
+  getCertificate: async (certificateId: string): Promise<Certificate> => {
+    return apiClient.get<Certificate>(`/certificates/${certificateId}`);
+  },
+
+  // ==========================================
+  // Public endpoints
+  // ==========================================
+
+  /** Look up a certificate by its verification code; 404 when the code is unknown. Sent signed out, so a visitor's session is never touched */
+  verifyCertificate: async (code: string): Promise<CertificateVerification> => {
+    return apiClient.request<CertificateVerification>(`/certificates/verify/${encodeURIComponent(code)}`, {
+      method: 'GET',
+      skipAuth: true,
+    });
+  },
+
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  getSettings: async (): Promise<CertificateSettings> => {
+    return apiClient.get<CertificateSettings>('/admin/certificates/settings');
+  },
+
+  updateSettings: async (data: UpdateCertificateSettingsInput): Promise<CertificateSettings> => {
+    return apiClient.put<CertificateSettings>('/admin/certificates/settings', data);
+  },
+
+  getIssuedCertificates: async (
+    params: IssuedCertificateListParams = {}
+  ): Promise<{ certificates: IssuedCertificate[]; total: number }> => {
+    const queryParams: Record<string, string> = {};
+    if (params.search) queryParams.search = params.search;
+    if (params.source) queryParams.source = params.source;
+    if (params.status) queryParams.status = params.status;
+    if (params.page) queryParams.page = params.page.toString();
+    if (params.limit) queryParams.limit = params.limit.toString();
+    return apiClient.get<{ certificates: IssuedCertificate[]; total: number }>('/admin/certificates', queryParams);
+  },
+
+  /** Revoked certificates stay on record but fail verification */
+  revokeCertificate: async (certificateId: string, reason: string): Promise<IssuedCertificate> => {
+    return apiClient.post<IssuedCertificate>(`/admin/certificates/${certificateId}/revoke`, { reason });
+  },
+};
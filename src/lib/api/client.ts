@@ -1,18 +1,67 @@
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
-interface RequestConfig extends RequestInit {
+// Requests that haven't received a response after this long fail with a TimeoutError
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+/** For AI generation and analysis endpoints, which run the model before answering */
+export const AI_TIMEOUT_MS = 3 * 60 * 1000;
+// Idempotent requests are retried this many times on 5xx / network errors
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8 * 1000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Per-call options accepted by every ApiClient method */
+export interface RequestOptions {
+  /** Cancels the request; the call rejects with a RequestCancelledError */
+  signal?: AbortSignal | null;
+  /** Milliseconds to wait for a response before failing with a TimeoutError (0 disables) */
+  timeout?: number;
+  /** Retry attempts on 5xx / network errors. Defaults to 2 for idempotent methods, 0 otherwise */
+  retries?: number;
+}
+
+interface RequestConfig extends RequestInit, RequestOptions {
   params?: Record<string, string>;
+  /** Don't try to renew the access token on 401 (used by the auth endpoints themselves) */
+  skipAuthRefresh?: boolean;
+  /** Send without the access token and leave the session alone on 401 (public pages) */
+  skipAuth?: boolean;
+}
+
+/**
+ * Hooks the auth layer registers so the client can renew tokens and report
+ * an expired session without importing the store (which imports the API).
+ */
+export interface AuthHandlers {
+  /** Renew the access token; resolves to the new token or null if the session can't be renewed */
+  refreshAccessToken: () => Promise<string | null>;
+  /** Called once renewal has failed and the user must sign in again */
+  onSessionExpired: () => void;
+}
+
+function isAuthPage(): boolean {
+  return window.location.pathname.includes('/login') ||
+    window.location.pathname.includes('/register');
 }
 
 class ApiClient {
   private baseUrl: string;
+  private authHandlers: AuthHandlers | null = null;
+  // Single in-flight refresh shared by every request that needs a new token
+  private refreshPromise: Promise<string | null> | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
-  private getAuthHeader(): HeadersInit {
-    if (typeof window === 'undefined') return {};
+  setAuthHandlers(handlers: AuthHandlers | null): void {
+    this.authHandlers = handlers;
+  }
+
+  /** Current access token, also used to authenticate WebSocket connections */
+  getAccessToken(): string | null {
+    if (typeof window === 'undefined') return null;
 
     // Primary: auth_token key
     let token = localStorage.getItem('auth_token');
@@ -34,6 +83,11 @@ class ApiClient {
       }
     }
 
+    return token;
+  }
+
+  private getAuthHeader(): HeadersInit {
+    const token = this.getAccessToken();
     return token ? { Authorization: `Bearer ${token}` } : {};
   }
 
@@ -47,41 +101,130 @@ class ApiClient {
     return url.toString();
   }
 
-  async request<T>(endpoint: string, config: RequestConfig = {}): Promise<T> {
-    const { params, ...fetchConfig } = config;
+  /**
+   * Perform a request and return the raw Response once it is known to be OK.
+   * Used directly for streaming endpoints; everything else goes through request().
+   * The timeout only covers waiting for the response headers, so streamed bodies
+   * can take as long as they need (cancel them through `signal`).
+   */
+  async requestRaw(endpoint: string, config: RequestConfig = {}): Promise<Response> {
+    const method = (config.method || 'GET').toUpperCase();
+    const maxRetries = config.retries ?? (IDEMPOTENT_METHODS.has(method) ? DEFAULT_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(endpoint, config);
+      } catch (err) {
+        if (attempt >= maxRetries || !isRetryable(err)) throw err;
+        await wait(retryDelay(attempt), config.signal);
+      }
+    }
+  }
+
+  private async send(endpoint: string, config: RequestConfig, isAuthRetry = false): Promise<Response> {
+    const { params, skipAuth, skipAuthRefresh: noRefresh, timeout = DEFAULT_TIMEOUT_MS, retries: _retries, signal, ...fetchConfig } = config;
     const url = this.buildUrl(endpoint, params);
+    const skipAuthRefresh = skipAuth || noRefresh;
 
-    const response = await fetch(url, {
-      ...fetchConfig,
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.getAuthHeader(),
-        ...fetchConfig.headers,
-      },
-    });
+    // Queue behind a token renewal that is already in flight instead of sending a stale token
+    if (this.refreshPromise && !skipAuthRefresh) {
+      await this.refreshPromise;
+    }
+
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    // One controller per attempt, aborted by either the caller's signal or the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    // Let the browser set the multipart boundary for FormData bodies
+    const isMultipart = typeof FormData !== 'undefined' && fetchConfig.body instanceof FormData;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...fetchConfig,
+        signal: controller.signal,
+        headers: {
+          ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
+          ...(skipAuth ? {} : this.getAuthHeader()),
+          ...fetchConfig.headers,
+        },
+      });
+    } catch (err) {
+      signal?.removeEventListener('abort', onAbort);
+      if (timedOut) throw new TimeoutError(timeout);
+      if (controller.signal.aborted) throw new RequestCancelledError();
+      throw new NetworkError(err instanceof Error ? err.message : undefined);
+    } finally {
+      clearTimeout(timer);
+    }
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'An error occurred' }));
-
-      // Handle 401 Unauthorized - clear invalid tokens and redirect to login
-      // But NOT if we're already on the login page (to show error messages)
-      if (response.status === 401) {
-        if (typeof window !== 'undefined') {
-          const isAuthPage = window.location.pathname.includes('/login') ||
-                            window.location.pathname.includes('/register');
-          if (!isAuthPage) {
-            console.log('[ApiClient] Received 401 - clearing invalid tokens');
-            localStorage.removeItem('auth_token');
-            localStorage.removeItem('auth-storage');
-            // Redirect to login page
-            window.location.href = '/login';
+      signal?.removeEventListener('abort', onAbort);
+
+      // Handle 401 Unauthorized - renew the token once and replay the request.
+      // Not on the login page though (to show error messages)
+      if (response.status === 401 && !skipAuthRefresh && typeof window !== 'undefined' && !isAuthPage()) {
+        if (!isAuthRetry) {
+          const newToken = await this.refreshAccessToken();
+          if (newToken) {
+            return this.send(endpoint, config, true);
           }
         }
+        this.handleSessionExpired();
       }
 
-      throw new ApiError(response.status, error.message || error.error, error.code);
+      throw await parseErrorResponse(response);
     }
 
+    return response;
+  }
+
+  /** Renew the access token, sharing one in-flight refresh between all callers */
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.authHandlers) return Promise.resolve(null);
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.authHandlers
+        .refreshAccessToken()
+        .catch((err) => {
+          console.error('[ApiClient] Token refresh failed:', err);
+          return null;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  private handleSessionExpired(): void {
+    if (this.authHandlers) {
+      this.authHandlers.onSessionExpired();
+      return;
+    }
+
+    // No auth layer mounted (e.g. during early hydration) - fall back to a full navigation
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth-storage');
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.assign(`/login?returnTo=${encodeURIComponent(returnTo)}`);
+  }
+
+  async request<T>(endpoint: string, config: RequestConfig = {}): Promise<T> {
+    const response = await this.requestRaw(endpoint, config);
+
     // Handle 204 No Content (empty response body)
     if (response.status === 204) {
       return undefined as T;
@@ -90,39 +233,65 @@ class ApiClient {
     return response.json();
   }
 
-  async get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET', params });
+  /** Fetch a binary response (audio, exports) as a Blob */
+  async getBlob(endpoint: string, params?: Record<string, string>, options?: RequestOptions): Promise<Blob> {
+    const response = await this.requestRaw(endpoint, { ...options, method: 'GET', params });
+    return response.blob();
+  }
+
+  /**
+   * Send a multipart/form-data body (file uploads). No timeout by default:
+   * it would also cover sending the file, which depends on its size.
+   */
+  async upload<T>(
+    endpoint: string,
+    formData: FormData,
+    method: 'POST' | 'PUT' | 'PATCH' = 'POST',
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>(endpoint, { timeout: 0, ...options, method, body: formData });
+  }
+
+  async get<T>(endpoint: string, params?: Record<string, string>, options?: RequestOptions): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'GET', params });
   }
 
-  async post<T>(endpoint: string, data?: unknown): Promise<T> {
+  async post<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async put<T>(endpoint: string, data?: unknown): Promise<T> {
+  async put<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async patch<T>(endpoint: string, data?: unknown): Promise<T> {
+  async patch<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'PATCH',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async delete<T>(endpoint: string, options?: { data?: unknown }): Promise<T> {
+  async delete<T>(endpoint: string, options?: RequestOptions & { data?: unknown }): Promise<T> {
+    const { data, ...requestOptions } = options || {};
     return this.request<T>(endpoint, {
+      ...requestOptions,
       method: 'DELETE',
-      body: options?.data ? JSON.stringify(options.data) : undefined,
+      body: data ? JSON.stringify(data) : undefined,
     });
   }
 }
 
+// ─── Errors ───────────────────────────────────────────────
+
 export class ApiError extends Error {
   constructor(
     public status: number,
@@ -134,4 +303,131 @@ export class ApiError extends Error {
   }
 }
 
+/** The server couldn't be reached (offline, DNS, CORS, connection reset) */
+export class NetworkError extends ApiError {
+  constructor(message = 'Network error - check your connection') {
+    super(0, message, 'NETWORK_ERROR');
+    this.name = 'NetworkError';
+  }
+}
+
+/** No response arrived within the request timeout */
+export class TimeoutError extends ApiError {
+  constructor(public timeoutMs: number) {
+    super(0, `Request timed out after ${Math.round(timeoutMs / 1000)}s`, 'TIMEOUT');
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The caller aborted the request through its AbortSignal */
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super(0, 'Request was cancelled', 'CANCELLED');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/** 400/422 response; `fieldErrors` maps each invalid field to its messages */
+export class ValidationError extends ApiError {
+  constructor(
+    status: number,
+    message: string,
+    code: string | undefined,
+    public fieldErrors: Record<string, string[]>
+  ) {
+    super(status, message, code);
+    this.name = 'ValidationError';
+  }
+}
+
+/** Rate limit or plan quota reached; `retryAfter` is in seconds when the server provides it */
+export class QuotaExceededError extends ApiError {
+  constructor(
+    status: number,
+    message: string,
+    code: string | undefined,
+    public retryAfter: number | null
+  ) {
+    super(status, message, code);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof NetworkError || err instanceof TimeoutError) return true;
+  return err instanceof ApiError && err.status >= 500 && err.status !== 501;
+}
+
+/** Exponential backoff with jitter: ~0.5s, 1s, 2s, ... capped at 8s */
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Field errors come back either as `{ field: message | message[] }` or as a list
+ * of `{ field | path, message }` issues (Zod) - normalize both.
+ */
+function normalizeFieldErrors(raw: unknown): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  const add = (field: string, message: string) => {
+    (fieldErrors[field] ||= []).push(message);
+  };
+
+  if (Array.isArray(raw)) {
+    for (const issue of raw) {
+      if (!issue || typeof issue !== 'object') continue;
+      const { field, path, message } = issue as { field?: string; path?: unknown; message?: string };
+      const key = field ?? (Array.isArray(path) ? path.join('.') : typeof path === 'string' ? path : '');
+      if (message) add(key, message);
+    }
+  } else if (raw && typeof raw === 'object') {
+    for (const [field, value] of Object.entries(raw)) {
+      const messages = Array.isArray(value) ? value : [value];
+      messages.filter((m): m is string => typeof m === 'string').forEach((m) => add(field, m));
+    }
+  }
+
+  return fieldErrors;
+}
+
+async function parseErrorResponse(response: Response): Promise<ApiError> {
+  const error = await response.json().catch(() => ({ message: 'An error occurred' }));
+  const message: string = error.message || error.error || response.statusText;
+  const code: string | undefined = error.code;
+
+  if (response.status === 429 || response.status === 402 || code === 'QUOTA_EXCEEDED') {
+    const header = Number(response.headers.get('Retry-After'));
+    const retryAfter = Number.isFinite(header) && header > 0 ? header : (error.retryAfter ?? null);
+    return new QuotaExceededError(response.status, message, code, retryAfter);
+  }
+
+  if (response.status === 400 || response.status === 422) {
+    const fieldErrors = normalizeFieldErrors(error.fieldErrors ?? error.errors ?? error.details);
+    if (response.status === 422 || Object.keys(fieldErrors).length > 0) {
+      return new ValidationError(response.status, message, code, fieldErrors);
+    }
+  }
+
+  return new ApiError(response.status, message, code);
+}
+
 export const apiClient = new ApiClient(API_BASE_URL);
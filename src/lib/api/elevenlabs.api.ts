@@ -0,0 +1,95 @@
+import { apiClient, AI_TIMEOUT_MS } from './client';
+import type { DeliveryMetrics } from '@/types/simulation.types';
+import type { DifficultyLevel, SimulationScenarioType } from '@/types';
+
+// ─── Types ────────────────────────────────────────────────
+
+export interface VoicePerformanceBreakdown {
+  opening: number;
+  needsDiscovery: number;
+  objectionHandling: number;
+  persuasion: number;
+  closing: number;
+  communication: number;
+}
+
+export interface VoicePerformanceAnalysis {
+  overallScore: number;
+  breakdown: VoicePerformanceBreakdown;
+  strengths: string[];
+  weaknesses: string[];
+  improvements: string[];
+  summary: string;
+  transcriptHighlights?: {
+    good: string[];
+    needsWork: string[];
+  };
+}
+
+export interface ElevenLabsSignedUrl {
+  signedUrl: string;
+  agentId: string;
+}
+
+export interface SavedVoiceSession {
+  sessionId: string;
+  conversationId: string;
+  analysis: VoicePerformanceAnalysis;
+}
+
+/** A stored voice session. `transcript`, `analysis` and `deliveryMetrics` are JSON strings. */
+export interface VoiceSessionRecord {
+  id: string;
+  conversationId: string;
+  traineeId: string;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  durationSeconds: number;
+  transcript: string;
+  analysis: string;
+  overallScore: number;
+  status: string;
+  hasAudio: boolean;
+  deliveryMetrics?: string | null;
+}
+
+// ─── API ──────────────────────────────────────────────────
+
+export const elevenlabsApi = {
+  /** Get a signed WebSocket URL for a new ElevenLabs conversation */
+  getSignedUrl: async (): Promise<ElevenLabsSignedUrl> => {
+    return apiClient.get<ElevenLabsSignedUrl>('/elevenlabs/signed-url');
+  },
+
+  /**
+   * Open a live simulation session for a started call so trainers can follow it.
+   * The app then reports the call's turns on the live socket under the returned
+   * id; saving the conversation ends the session.
+   */
+  startLiveSession: async (
+    conversationId: string,
+    input: { scenarioType: SimulationScenarioType; difficultyLevel: DifficultyLevel }
+  ): Promise<{ sessionId: string }> => {
+    return apiClient.post<{ sessionId: string }>(`/elevenlabs/conversations/${conversationId}/live`, input);
+  },
+
+  /** Persist a finished conversation and run the performance analysis */
+  saveConversation: async (conversationId: string, deliveryMetrics?: DeliveryMetrics | null): Promise<SavedVoiceSession> => {
+    return apiClient.post<SavedVoiceSession>(
+      `/elevenlabs/conversations/${conversationId}/save`,
+      deliveryMetrics ? { deliveryMetrics } : undefined,
+      { timeout: AI_TIMEOUT_MS }
+    );
+  },
+
+  /** Voice session history for the current user */
+  getHistory: async (): Promise<{ sessions: VoiceSessionRecord[] }> => {
+    return apiClient.get<{ sessions: VoiceSessionRecord[] }>('/elevenlabs/history');
+  },
+
+  /** Recorded audio of a voice session */
+  getSessionAudio: async (sessionId: string): Promise<Blob> => {
+    return apiClient.getBlob(`/elevenlabs/sessions/${sessionId}/audio`);
+  },
+};
@@ -1,4 +1,4 @@
-import { apiClient } from './client';
+import { apiClient, AI_TIMEOUT_MS } from './client';
 import type {
   DeckDetail,
   DeckListItem,
@@ -31,9 +31,22 @@ export const flashcardApi = {
     return apiClient.get<{ cards: StudyCard[]; totalDue: number }>(`/flashcards/decks/${deckId}/study`);
   },
 
-  /** Submit quality rating for a card */
-  submitReview: async (cardId: string, quality: number): Promise<ReviewResult> => {
-    return apiClient.post<ReviewResult>(`/flashcards/cards/${cardId}/review`, { quality });
+  /** Published deck with all its cards (cram and multiple-choice study modes) */
+  getDeck: async (deckId: string): Promise<DeckDetail> => {
+    return apiClient.get<DeckDetail>(`/flashcards/decks/${deckId}`);
+  },
+
+  /**
+   * Submit quality rating for a card. `reviewedAt` is set when replaying an offline rating;
+   * `reviewId` identifies the rating so the server can drop a replayed duplicate.
+   */
+  submitReview: async (
+    cardId: string,
+    quality: number,
+    reviewedAt?: string,
+    reviewId?: string
+  ): Promise<ReviewResult> => {
+    return apiClient.post<ReviewResult>(`/flashcards/cards/${cardId}/review`, { quality, reviewedAt, reviewId });
   },
 
   /** Get overall flashcard progress */
@@ -92,6 +105,6 @@ export const flashcardApi = {
 
   /** AI-generate deck */
   generateDeck: async (data: GenerateDeckInput): Promise<DeckDetail> => {
-    return apiClient.post<DeckDetail>('/flashcards/decks/generate', data);
+    return apiClient.post<DeckDetail>('/flashcards/decks/generate', data, { timeout: AI_TIMEOUT_MS });
   },
 };
@@ -0,0 +1,135 @@
+import { apiClient } from './client';
+
+// ─── Types ────────────────────────────────────────────────
+
+export interface GroupTrainerSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface GroupSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+  memberCount: number;
+  trainerCount: number;
+  trainers: GroupTrainerSummary[];
+}
+
+export interface GroupListResponse {
+  groups: GroupSummary[];
+  isTrainerView?: boolean;
+  canCreateGroups?: boolean;
+  canDeleteGroups?: boolean;
+}
+
+export interface GroupTrainer {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface GroupMembership {
+  id: string;
+  trainee: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    role: string;
+  };
+  joinedAt: string;
+  isActive: boolean;
+}
+
+export interface GroupTrainerAssignment {
+  id: string;
+  trainer: GroupTrainer;
+  assignedAt: string;
+  isActive: boolean;
+}
+
+export interface GroupDetail {
+  id: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+  members: GroupMembership[];
+  trainerAssignments: GroupTrainerAssignment[];
+  _count: {
+    members: number;
+    trainerAssignments: number;
+  };
+}
+
+export interface AvailableGroupUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  groupCount: number;
+}
+
+export interface GroupInput {
+  name: string;
+  description?: string | null;
+}
+
+// ─── API ──────────────────────────────────────────────────
+
+export const groupsApi = {
+  /** List groups visible to the current user (trainers only see their own) */
+  list: async (): Promise<GroupListResponse> => {
+    return apiClient.get<GroupListResponse>('/admin/groups');
+  },
+
+  /** Get a group with its members and trainer assignments */
+  get: async (groupId: string): Promise<{ group: GroupDetail }> => {
+    return apiClient.get<{ group: GroupDetail }>(`/groups/${groupId}`);
+  },
+
+  create: async (data: GroupInput): Promise<{ group: GroupDetail }> => {
+    return apiClient.post<{ group: GroupDetail }>('/groups', data);
+  },
+
+  update: async (groupId: string, data: Partial<GroupInput>): Promise<{ group: GroupDetail }> => {
+    return apiClient.patch<{ group: GroupDetail }>(`/groups/${groupId}`, data);
+  },
+
+  delete: async (groupId: string): Promise<{ message: string }> => {
+    return apiClient.delete<{ message: string }>(`/groups/${groupId}`);
+  },
+
+  // ─── Members ────────────────────────────────────────
+
+  getAvailableTrainees: async (): Promise<{ trainees: AvailableGroupUser[] }> => {
+    return apiClient.get<{ trainees: AvailableGroupUser[] }>('/groups/available-trainees');
+  },
+
+  addMembers: async (groupId: string, traineeIds: string[]): Promise<{ message: string }> => {
+    return apiClient.post<{ message: string }>(`/groups/${groupId}/members`, { traineeIds });
+  },
+
+  removeMember: async (groupId: string, traineeId: string): Promise<{ message: string }> => {
+    return apiClient.delete<{ message: string }>(`/groups/${groupId}/members/${traineeId}`);
+  },
+
+  // ─── Trainers ───────────────────────────────────────
+
+  getAvailableTrainers: async (): Promise<{ trainers: AvailableGroupUser[] }> => {
+    return apiClient.get<{ trainers: AvailableGroupUser[] }>('/groups/available-trainers');
+  },
+
+  assignTrainer: async (groupId: string, trainerId: string): Promise<{ message: string }> => {
+    return apiClient.post<{ message: string }>(`/groups/${groupId}/trainers`, { trainerId });
+  },
+
+  unassignTrainer: async (groupId: string, trainerId: string): Promise<{ message: string }> => {
+    return apiClient.delete<{ message: string }>(`/groups/${groupId}/trainers/${trainerId}`);
+  },
+};
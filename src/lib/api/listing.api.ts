@@ -0,0 +1,53 @@
+import { apiClient } from './client';
+import type {
+  PropertyListing,
+  CreateListingInput,
+  UpdateListingInput,
+} from '@/types/simulation.types';
+
+export const listingApi = {
+  // ==========================================
+  // Trainee endpoints
+  // ==========================================
+
+  /** Active listings a simulation can be started against */
+  getAvailableListings: async (): Promise<{ listings: PropertyListing[] }> => {
+    return apiClient.get<{ listings: PropertyListing[] }>('/simulations/listings');
+  },
+
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  /** Full listings catalogue of the organization */
+  getAdminListings: async (): Promise<{ listings: PropertyListing[] }> => {
+    return apiClient.get<{ listings: PropertyListing[] }>('/admin/listings');
+  },
+
+  /** Get listing */
+  getListing: async (listingId: string): Promise<PropertyListing> => {
+    return apiClient.get<PropertyListing>(`/admin/listings/${listingId}`);
+  },
+
+  /** Create listing */
+  createListing: async (data: CreateListingInput): Promise<PropertyListing> => {
+    return apiClient.post<PropertyListing>('/admin/listings', data);
+  },
+
+  /** Update listing; sessions already started keep the fact sheet they started with */
+  updateListing: async (listingId: string, data: UpdateListingInput): Promise<PropertyListing> => {
+    return apiClient.put<PropertyListing>(`/admin/listings/${listingId}`, data);
+  },
+
+  /** Delete listing */
+  deleteListing: async (listingId: string): Promise<void> => {
+    return apiClient.delete(`/admin/listings/${listingId}`);
+  },
+
+  /** Upload a listing photo; the returned URL goes into the listing's `photos` */
+  uploadPhoto: async (file: File): Promise<{ url: string }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return apiClient.upload<{ url: string }>('/admin/listings/photos', formData);
+  },
+};
@@ -0,0 +1,88 @@
+import { apiClient } from './client';
+import type { LiveClientMessage, LiveEvent } from '@/types/simulation.types';
+
+const LIVE_WS_URL = process.env.NEXT_PUBLIC_LIVE_WS_URL || 'ws://localhost:3001/ws/live';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+/**
+ * Trainers observe every live session they can see; a trainee listens on their
+ * own session for whispers, and reports the turns of a voice call on it.
+ */
+export type LiveSubscription = { channel: 'observer' } | { channel: 'trainee'; sessionId: string };
+
+interface LiveSocketOptions {
+  subscription: LiveSubscription;
+  onEvent: (event: LiveEvent) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+export interface LiveConnection {
+  /** Send now, or once the socket has (re)connected and subscribed */
+  send: (message: LiveClientMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Open the live events socket, reconnecting with backoff until it is closed.
+ */
+export function openLiveSocket({ subscription, onEvent, onConnectionChange }: LiveSocketOptions): LiveConnection {
+  let ws: WebSocket | null = null;
+  let outbox: LiveClientMessage[] = [];
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    ws = new WebSocket(LIVE_WS_URL);
+
+    ws.onopen = () => {
+      attempt = 0;
+      onConnectionChange?.(true);
+      const token = apiClient.getAccessToken();
+      if (token) {
+        ws?.send(JSON.stringify({ type: 'auth', payload: { token } }));
+      }
+      ws?.send(JSON.stringify({ type: 'subscribe', payload: subscription }));
+      outbox.forEach((message) => ws?.send(JSON.stringify(message)));
+      outbox = [];
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        onEvent(JSON.parse(event.data) as LiveEvent);
+      } catch (e) {
+        console.error('[LiveSocket] Failed to parse message:', e);
+      }
+    };
+
+    ws.onclose = () => {
+      onConnectionChange?.(false);
+      if (closed) return;
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+      attempt++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    ws.onerror = (error) => {
+      // onclose follows and schedules the reconnect
+      console.error('[LiveSocket] Error:', error);
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (closed) return;
+      if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+      else outbox.push(message);
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      ws?.close();
+    },
+  };
+}
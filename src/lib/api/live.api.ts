@@ -0,0 +1,23 @@
+import { apiClient } from './client';
+import type { LiveSessionSummary, LiveSessionDetail, WhisperHint } from '@/types/simulation.types';
+
+export const liveApi = {
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  /** Text and voice simulations in progress in the trainer's groups (all groups for org admins) */
+  getActiveSessions: async (): Promise<{ sessions: LiveSessionSummary[] }> => {
+    return apiClient.get<{ sessions: LiveSessionSummary[] }>('/admin/live/sessions');
+  },
+
+  /** Turns and whispers so far; later ones arrive over the live socket */
+  getSession: async (sessionId: string): Promise<LiveSessionDetail> => {
+    return apiClient.get<LiveSessionDetail>(`/admin/live/sessions/${sessionId}`);
+  },
+
+  /** Send a private hint to the trainee; the simulated client never sees it */
+  sendWhisper: async (sessionId: string, message: string): Promise<WhisperHint> => {
+    return apiClient.post<WhisperHint>(`/admin/live/sessions/${sessionId}/whispers`, { message });
+  },
+};
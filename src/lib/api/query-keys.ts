@@ -0,0 +1,183 @@
+/**
+ * Query Key Registry
+ *
+ * One key factory per API module. Keys are hierarchical so a mutation can
+ * invalidate a whole branch (e.g. `quizKeys.all`) or a single entry
+ * (e.g. `quizKeys.detail(id)`). Always build keys through these factories -
+ * never inline arrays in components - so invalidation stays in sync.
+ */
+
+import type { CourseCategory, CourseDifficulty } from './admin-courses.api';
+import type { BankQuestionListParams, QuestionDrawRule } from '@/types/quiz';
+import type { IssuedCertificateListParams } from '@/types/certificate';
+
+export interface EmployeeListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface AdminCourseListParams {
+  category?: CourseCategory | 'all';
+  difficulty?: CourseDifficulty | 'all';
+  isPublished?: boolean;
+  search?: string;
+}
+
+export interface TraineeCourseListParams {
+  category?: string;
+  difficulty?: string;
+  search?: string;
+}
+
+// ─── quizApi ──────────────────────────────────────────────
+
+export const quizKeys = {
+  all: ['quizzes'] as const,
+  available: (courseId?: string) => [...quizKeys.all, 'available', courseId ?? null] as const,
+  history: () => [...quizKeys.all, 'history'] as const,
+  take: (quizId: string) => [...quizKeys.all, 'take', quizId] as const,
+  result: (attemptId: string) => [...quizKeys.all, 'result', attemptId] as const,
+  manage: () => [...quizKeys.all, 'manage'] as const,
+  detail: (quizId: string) => [...quizKeys.all, 'detail', quizId] as const,
+  attempts: (quizId: string) => [...quizKeys.all, 'attempts', quizId] as const,
+  itemAnalysis: (quizId: string) => [...quizKeys.all, 'item-analysis', quizId] as const,
+  bankAll: () => [...quizKeys.all, 'bank'] as const,
+  bank: (params: BankQuestionListParams = {}) => [...quizKeys.bankAll(), 'list', params] as const,
+  bankTags: () => [...quizKeys.bankAll(), 'tags'] as const,
+  drawPreview: (rules: QuestionDrawRule[]) => [...quizKeys.bankAll(), 'preview', rules] as const,
+};
+
+// ─── flashcardApi ─────────────────────────────────────────
+
+export const flashcardKeys = {
+  all: ['flashcards'] as const,
+  availableAll: () => [...flashcardKeys.all, 'available'] as const,
+  available: (courseId?: string) => [...flashcardKeys.availableAll(), courseId ?? null] as const,
+  progress: () => [...flashcardKeys.all, 'progress'] as const,
+  study: (deckId: string) => [...flashcardKeys.all, 'study', deckId] as const,
+  deck: (deckId: string) => [...flashcardKeys.all, 'deck', deckId] as const,
+  manage: () => [...flashcardKeys.all, 'manage'] as const,
+  detail: (deckId: string) => [...flashcardKeys.all, 'detail', deckId] as const,
+};
+
+// ─── simulationApi ────────────────────────────────────────
+
+export const simulationKeys = {
+  all: ['simulations'] as const,
+  analysis: (sessionId: string, scope: 'trainee' | 'admin') =>
+    [...simulationKeys.all, 'analysis', sessionId, scope] as const,
+};
+
+// ─── liveApi ──────────────────────────────────────────────
+
+export const liveKeys = {
+  all: ['live'] as const,
+  sessions: () => [...liveKeys.all, 'sessions'] as const,
+  session: (sessionId: string) => [...liveKeys.all, 'session', sessionId] as const,
+};
+
+// ─── scenarioApi ──────────────────────────────────────────
+
+export const scenarioKeys = {
+  all: ['scenarios'] as const,
+  available: () => [...scenarioKeys.all, 'available'] as const,
+  manage: () => [...scenarioKeys.all, 'manage'] as const,
+  detail: (scenarioId: string) => [...scenarioKeys.all, 'detail', scenarioId] as const,
+};
+
+// ─── listingApi ───────────────────────────────────────────
+
+export const listingKeys = {
+  all: ['listings'] as const,
+  available: () => [...listingKeys.all, 'available'] as const,
+  manage: () => [...listingKeys.all, 'manage'] as const,
+  detail: (listingId: string) => [...listingKeys.all, 'detail', listingId] as const,
+};
+
+// ─── rubricApi ────────────────────────────────────────────
+
+export const rubricKeys = {
+  all: ['rubrics'] as const,
+  list: () => [...rubricKeys.all, 'list'] as const,
+  detail: (rubricId: string) => [...rubricKeys.all, 'detail', rubricId] as const,
+};
+
+// ─── annotationApi ────────────────────────────────────────
+
+export const annotationKeys = {
+  all: ['annotations'] as const,
+  session: (sessionId: string, scope: 'trainee' | 'admin') =>
+    [...annotationKeys.all, 'session', sessionId, scope] as const,
+  unread: () => [...annotationKeys.all, 'unread'] as const,
+};
+
+// ─── certificateApi ───────────────────────────────────────
+
+export const certificateKeys = {
+  all: ['certificates'] as const,
+  mine: () => [...certificateKeys.all, 'mine'] as const,
+  detail: (certificateId: string) => [...certificateKeys.all, 'detail', certificateId] as const,
+  verify: (code: string) => [...certificateKeys.all, 'verify', code] as const,
+  settings: () => [...certificateKeys.all, 'settings'] as const,
+  issued: (params: IssuedCertificateListParams = {}) => [...certificateKeys.all, 'issued', params] as const,
+};
+
+// ─── adminApi ─────────────────────────────────────────────
+
+export const adminKeys = {
+  all: ['admin'] as const,
+  roleInfo: () => [...adminKeys.all, 'role-info'] as const,
+  dashboard: () => [...adminKeys.all, 'dashboard'] as const,
+  employees: () => [...adminKeys.all, 'employees'] as const,
+  employeeList: (params: EmployeeListParams) => [...adminKeys.employees(), 'list', params] as const,
+  employee: (id: string) => [...adminKeys.employees(), 'detail', id] as const,
+  groups: () => [...adminKeys.all, 'groups'] as const,
+  voiceSessions: (params?: { page?: number; limit?: number }) =>
+    [...adminKeys.all, 'voice-sessions', params ?? {}] as const,
+};
+
+// ─── adminCoursesApi ──────────────────────────────────────
+
+export const adminCourseKeys = {
+  all: ['admin-courses'] as const,
+  stats: () => [...adminCourseKeys.all, 'stats'] as const,
+  list: (params: AdminCourseListParams) => [...adminCourseKeys.all, 'list', params] as const,
+  detail: (courseId: string) => [...adminCourseKeys.all, 'detail', courseId] as const,
+};
+
+// ─── traineeCoursesApi ────────────────────────────────────
+
+export const traineeCourseKeys = {
+  all: ['trainee-courses'] as const,
+  list: (params: TraineeCourseListParams) => [...traineeCourseKeys.all, 'list', params] as const,
+  detail: (courseId: string) => [...traineeCourseKeys.all, 'detail', courseId] as const,
+  context: () => [...traineeCourseKeys.all, 'context'] as const,
+};
+
+// ─── traineeApi ───────────────────────────────────────────
+
+export const traineeKeys = {
+  all: ['trainee'] as const,
+  profile: () => [...traineeKeys.all, 'profile'] as const,
+  dashboardStats: () => [...traineeKeys.all, 'dashboard-stats'] as const,
+  assignedTeacher: () => [...traineeKeys.all, 'assigned-teacher'] as const,
+};
+
+export const queryKeys = {
+  quizzes: quizKeys,
+  flashcards: flashcardKeys,
+  simulations: simulationKeys,
+  live: liveKeys,
+  scenarios: scenarioKeys,
+  listings: listingKeys,
+  rubrics: rubricKeys,
+  annotations: annotationKeys,
+  certificates: certificateKeys,
+  admin: adminKeys,
+  adminCourses: adminCourseKeys,
+  traineeCourses: traineeCourseKeys,
+  trainee: traineeKeys,
+};
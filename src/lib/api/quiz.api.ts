@@ -1,4 +1,4 @@
-import { apiClient } from './client';
+import { apiClient, AI_TIMEOUT_MS, type RequestOptions } from './client';
 import type {
   QuizDetail,
   QuizListItem,
@@ -9,8 +9,19 @@ import type {
   UpdateQuizInput,
   SubmitResponseInput,
   GenerateQuizInput,
+  AttemptSession,
+  QuizItemAnalysis,
+  BankQuestion,
+  BankQuestionListParams,
+  CreateBankQuestionInput,
+  UpdateBankQuestionInput,
+  QuestionDrawRule,
+  DrawRulePreview,
 } from '@/types/quiz';
 
+// Scoring runs synchronously on submit and can be slow for large quizzes
+const SUBMIT_TIMEOUT_MS = 60 * 1000;
+
 export const quizApi = {
   // ==========================================
   // Trainee endpoints
@@ -33,19 +44,43 @@ export const quizApi = {
     return apiClient.get<QuizDetail>(`/quizzes/${quizId}/take`);
   },
 
-  /** Start a new quiz attempt */
-  startAttempt: async (quizId: string): Promise<{ attemptId: string }> => {
-    return apiClient.post<{ attemptId: string }>(`/quizzes/${quizId}/start`);
+  /**
+   * Start a quiz attempt. If the trainee already has one in progress for this
+   * quiz the server returns that one, with its autosaved responses.
+   */
+  startAttempt: async (quizId: string): Promise<AttemptSession> => {
+    return apiClient.post<AttemptSession>(`/quizzes/${quizId}/start`);
+  },
+
+  /** Reload an attempt to resume it; completed attempts come back with status `completed` */
+  getAttempt: async (attemptId: string): Promise<AttemptSession> => {
+    return apiClient.get<AttemptSession>(`/quizzes/attempts/${attemptId}`);
+  },
+
+  /** Autosave the answer to one question */
+  saveResponse: async (
+    attemptId: string,
+    response: SubmitResponseInput,
+    options?: RequestOptions
+  ): Promise<{ savedAt: string }> => {
+    return apiClient.put<{ savedAt: string }>(
+      `/quizzes/attempts/${attemptId}/responses/${response.questionId}`,
+      response,
+      options
+    );
   },
 
   /** Submit attempt responses and get score */
   submitAttempt: async (
     attemptId: string,
-    responses: SubmitResponseInput[]
+    responses: SubmitResponseInput[],
+    options?: RequestOptions
   ): Promise<QuizAttemptResult> => {
-    return apiClient.post<QuizAttemptResult>(`/quizzes/attempts/${attemptId}/submit`, {
-      responses,
-    });
+    return apiClient.post<QuizAttemptResult>(
+      `/quizzes/attempts/${attemptId}/submit`,
+      { responses },
+      { timeout: SUBMIT_TIMEOUT_MS, ...options }
+    );
   },
 
   /** View attempt result with corrections */
@@ -92,8 +127,52 @@ export const quizApi = {
     return apiClient.get<{ attempts: AdminAttemptItem[] }>(`/quizzes/${quizId}/attempts`);
   },
 
+  /** Per-question difficulty, discrimination and option pick rates over completed attempts */
+  getItemAnalysis: async (quizId: string): Promise<QuizItemAnalysis> => {
+    return apiClient.get<QuizItemAnalysis>(`/quizzes/${quizId}/item-analysis`);
+  },
+
   /** AI-generate quiz */
   generateQuiz: async (data: GenerateQuizInput): Promise<QuizDetail> => {
-    return apiClient.post<QuizDetail>('/quizzes/generate', data);
+    return apiClient.post<QuizDetail>('/quizzes/generate', data, { timeout: AI_TIMEOUT_MS });
+  },
+
+  // ==========================================
+  // Question bank (admin)
+  // ==========================================
+
+  /** Search the bank; each question includes its answer stats */
+  getBankQuestions: async (params: BankQuestionListParams = {}): Promise<{ questions: BankQuestion[]; total: number }> => {
+    const queryParams: Record<string, string> = {};
+    if (params.search) queryParams.search = params.search;
+    if (params.tag) queryParams.tag = params.tag;
+    if (params.difficulty) queryParams.difficulty = params.difficulty;
+    if (params.questionType) queryParams.questionType = params.questionType;
+    if (params.courseId) queryParams.courseId = params.courseId;
+    if (params.page) queryParams.page = params.page.toString();
+    if (params.limit) queryParams.limit = params.limit.toString();
+    return apiClient.get<{ questions: BankQuestion[]; total: number }>('/quizzes/bank', queryParams);
+  },
+
+  /** Every tag in use, for filters and autocomplete */
+  getBankTags: async (): Promise<{ tags: string[] }> => {
+    return apiClient.get<{ tags: string[] }>('/quizzes/bank/tags');
+  },
+
+  createBankQuestion: async (data: CreateBankQuestionInput): Promise<BankQuestion> => {
+    return apiClient.post<BankQuestion>('/quizzes/bank', data);
+  },
+
+  updateBankQuestion: async (questionId: string, data: UpdateBankQuestionInput): Promise<BankQuestion> => {
+    return apiClient.put<BankQuestion>(`/quizzes/bank/${questionId}`, data);
+  },
+
+  deleteBankQuestion: async (questionId: string): Promise<void> => {
+    return apiClient.delete(`/quizzes/bank/${questionId}`);
+  },
+
+  /** How many bank questions match each draw rule */
+  previewDrawRules: async (rules: QuestionDrawRule[]): Promise<DrawRulePreview> => {
+    return apiClient.post<DrawRulePreview>('/quizzes/bank/preview', { rules });
   },
 };
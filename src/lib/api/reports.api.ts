@@ -1,6 +1,82 @@
 import { apiClient } from './client';
 import type { InteractionReport } from '@/types/entities';
 
+// ─── Types ────────────────────────────────────────────────
+
+export interface ReportsDashboard {
+  totalSessions: number;
+  completedSessions: number;
+  averageScore: number | null;
+  improvement: number;
+  scoreHistory: { date: string; score: number; sessionId: string }[];
+  recentSessions: {
+    id: string;
+    scenarioType: string;
+    difficultyLevel: string;
+    completedAt: string;
+    score: number | null;
+    grade: string | null;
+  }[];
+}
+
+export interface SkillReport {
+  skills: {
+    skill: string;
+    skillKey: string;
+    averageScore: number | null;
+    sessionCount: number;
+    benchmark: number;
+    tips: string[];
+    isStrength: boolean;
+    isWeakness: boolean;
+  }[];
+  strengths: string[];
+  weaknesses: string[];
+}
+
+export interface SessionHistoryPage {
+  sessions: {
+    id: string;
+    scenarioType: string;
+    difficultyLevel: string;
+    status: string;
+    completedAt: string;
+    durationSeconds: number | null;
+    score: number | null;
+    grade: string | null;
+  }[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface ScoreTrendPoint {
+  month: string;
+  year: number;
+  averageScore: number | null;
+  sessionCount: number;
+}
+
+export interface RecommendationReport {
+  recommendations: {
+    priority: string;
+    title: string;
+    description: string;
+    category: string;
+  }[];
+  weakSkills: string[];
+  suggestedCourses: { title: string; reason: string }[];
+}
+
+/** `'me'` for the signed-in trainee, otherwise a trainee id (admin/trainer view) */
+export type ReportSubject = 'me' | (string & {});
+
+function languageHeaders(language?: 'ar' | 'en'): HeadersInit | undefined {
+  return language ? { 'Accept-Language': language } : undefined;
+}
+
+// ─── API ──────────────────────────────────────────────────
+
 export const reportsApi = {
   getMyReports: async (): Promise<InteractionReport[]> => {
     return apiClient.get<InteractionReport[]>('/reports/me');
@@ -17,4 +93,56 @@ export const reportsApi = {
   getProgramReport: async (programId: string): Promise<InteractionReport> => {
     return apiClient.get<InteractionReport>(`/reports/program/${programId}`);
   },
+
+  // ─── Performance dashboard ──────────────────────────
+
+  getDashboard: async (subject: ReportSubject, language?: 'ar' | 'en'): Promise<ReportsDashboard> => {
+    return apiClient.request<ReportsDashboard>(`/reports/${subject}/dashboard`, {
+      method: 'GET',
+      headers: languageHeaders(language),
+    });
+  },
+
+  getSkills: async (subject: ReportSubject, language?: 'ar' | 'en'): Promise<SkillReport> => {
+    return apiClient.request<SkillReport>(`/reports/${subject}/skills`, {
+      method: 'GET',
+      headers: languageHeaders(language),
+    });
+  },
+
+  getSessions: async (
+    subject: ReportSubject,
+    params: { page: number; limit?: number; scenarioType?: string },
+    language?: 'ar' | 'en'
+  ): Promise<SessionHistoryPage> => {
+    return apiClient.request<SessionHistoryPage>(`/reports/${subject}/sessions`, {
+      method: 'GET',
+      params: {
+        page: String(params.page),
+        limit: String(params.limit ?? 10),
+        scenarioType: params.scenarioType ?? 'all',
+      },
+      headers: languageHeaders(language),
+    });
+  },
+
+  getTrends: async (subject: ReportSubject, months = 6, language?: 'ar' | 'en'): Promise<ScoreTrendPoint[]> => {
+    return apiClient.request<ScoreTrendPoint[]>(`/reports/${subject}/trends`, {
+      method: 'GET',
+      params: { months: String(months) },
+      headers: languageHeaders(language),
+    });
+  },
+
+  getRecommendations: async (subject: ReportSubject, language?: 'ar' | 'en'): Promise<RecommendationReport> => {
+    return apiClient.request<RecommendationReport>(`/reports/${subject}/recommendations`, {
+      method: 'GET',
+      headers: languageHeaders(language),
+    });
+  },
+
+  /** Generate skill reports for completed sessions that were never analyzed */
+  analyzeMissing: async (): Promise<void> => {
+    return apiClient.post('/reports/me/analyze-missing');
+  },
 };
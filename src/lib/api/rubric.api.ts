@@ -0,0 +1,37 @@
+import { apiClient } from './client';
+import type {
+  ScoringRubric,
+  CreateRubricInput,
+  UpdateRubricInput,
+} from '@/types/simulation.types';
+
+export const rubricApi = {
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  /** Scoring rubrics of the organization */
+  getRubrics: async (): Promise<{ rubrics: ScoringRubric[] }> => {
+    return apiClient.get<{ rubrics: ScoringRubric[] }>('/admin/rubrics');
+  },
+
+  /** Get rubric */
+  getRubric: async (rubricId: string): Promise<ScoringRubric> => {
+    return apiClient.get<ScoringRubric>(`/admin/rubrics/${rubricId}`);
+  },
+
+  /** Create rubric */
+  createRubric: async (data: CreateRubricInput): Promise<ScoringRubric> => {
+    return apiClient.post<ScoringRubric>('/admin/rubrics', data);
+  },
+
+  /** Update rubric; completed analyses keep the criteria they were scored against */
+  updateRubric: async (rubricId: string, data: UpdateRubricInput): Promise<ScoringRubric> => {
+    return apiClient.put<ScoringRubric>(`/admin/rubrics/${rubricId}`, data);
+  },
+
+  /** Delete rubric; scenarios using it fall back to the built-in skills */
+  deleteRubric: async (rubricId: string): Promise<void> => {
+    return apiClient.delete(`/admin/rubrics/${rubricId}`);
+  },
+};
@@ -0,0 +1,47 @@
+import { apiClient } from './client';
+import type {
+  AvailableScenario,
+  SimulationScenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+} from '@/types/simulation.types';
+
+export const scenarioApi = {
+  // ==========================================
+  // Trainee endpoints
+  // ==========================================
+
+  /** Active scenarios assigned to the trainee's groups, or to the whole organization */
+  getAvailableScenarios: async (): Promise<{ scenarios: AvailableScenario[] }> => {
+    return apiClient.get<{ scenarios: AvailableScenario[] }>('/simulations/scenarios');
+  },
+
+  // ==========================================
+  // Admin endpoints
+  // ==========================================
+
+  /** Full scenario library of the organization */
+  getAdminScenarios: async (): Promise<{ scenarios: SimulationScenario[] }> => {
+    return apiClient.get<{ scenarios: SimulationScenario[] }>('/admin/scenarios');
+  },
+
+  /** Get scenario with its full persona */
+  getScenario: async (scenarioId: string): Promise<SimulationScenario> => {
+    return apiClient.get<SimulationScenario>(`/admin/scenarios/${scenarioId}`);
+  },
+
+  /** Create scenario */
+  createScenario: async (data: CreateScenarioInput): Promise<SimulationScenario> => {
+    return apiClient.post<SimulationScenario>('/admin/scenarios', data);
+  },
+
+  /** Update scenario; sessions already started keep the version they started with */
+  updateScenario: async (scenarioId: string, data: UpdateScenarioInput): Promise<SimulationScenario> => {
+    return apiClient.put<SimulationScenario>(`/admin/scenarios/${scenarioId}`, data);
+  },
+
+  /** Delete scenario */
+  deleteScenario: async (scenarioId: string): Promise<void> => {
+    return apiClient.delete(`/admin/scenarios/${scenarioId}`);
+  },
+};
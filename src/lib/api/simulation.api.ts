@@ -1,4 +1,4 @@
-import { apiClient } from './client';
+import { apiClient, AI_TIMEOUT_MS, type RequestOptions } from './client';
 import type {
   StartSimulationInput,
   StartSimulationOutput,
@@ -11,19 +11,47 @@ import type {
 } from '@/types/simulation.types';
 import type { SimulationSession } from '@/types/entities';
 
+/** Stored text simulation as returned by the history endpoints. `metrics` is a JSON string. */
+export interface SimulationHistoryRecord {
+  id: string;
+  traineeId: string;
+  scenarioType: string;
+  difficultyLevel: string;
+  status: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null;
+  outcome: string | null;
+  metrics: string | null;
+  conversationTurns: Array<{
+    id: string;
+    speaker: 'trainee' | 'client';
+    message: string;
+    timestamp: string;
+    sentiment?: string | null;
+  }>;
+}
+
+// The client's reply is generated by the AI model and can take well over the default timeout
+const CLIENT_REPLY_TIMEOUT_MS = 90 * 1000;
+
 export const simulationApi = {
   start: async (input: StartSimulationInput): Promise<StartSimulationOutput> => {
     return apiClient.post<StartSimulationOutput>('/simulations/start', input);
   },
 
-  sendMessage: async (input: SimulationMessageInput): Promise<SimulationMessageOutput> => {
+  sendMessage: async (input: SimulationMessageInput, options?: RequestOptions): Promise<SimulationMessageOutput> => {
     const { sessionId, ...data } = input;
-    return apiClient.post<SimulationMessageOutput>(`/simulations/${sessionId}/message`, data);
+    return apiClient.post<SimulationMessageOutput>(`/simulations/${sessionId}/message`, data, {
+      timeout: CLIENT_REPLY_TIMEOUT_MS,
+      ...options,
+    });
   },
 
   end: async (input: EndSimulationInput): Promise<EndSimulationOutput> => {
     const { sessionId, ...data } = input;
-    return apiClient.post<EndSimulationOutput>(`/simulations/${sessionId}/end`, data);
+    // Ending runs the performance analysis
+    return apiClient.post<EndSimulationOutput>(`/simulations/${sessionId}/end`, data, { timeout: AI_TIMEOUT_MS });
   },
 
   getAnalysis: async (input: AnalyzeSimulationInput): Promise<SimulationAnalysisOutput> => {
@@ -32,7 +60,7 @@ export const simulationApi = {
       includeDetailedTranscriptAnalysis: String(params.includeDetailedTranscriptAnalysis),
       compareToHistory: String(params.compareToHistory),
       generateRecommendations: String(params.generateRecommendations),
-    });
+    }, { timeout: AI_TIMEOUT_MS });
   },
 
   getSession: async (sessionId: string): Promise<SimulationSession> => {
@@ -42,4 +70,17 @@ export const simulationApi = {
   getHistory: async (limit = 10): Promise<SimulationSession[]> => {
     return apiClient.get<SimulationSession[]>('/simulations', { limit: String(limit) });
   },
+
+  /** Full simulation history of the current user, used by the reports pages */
+  getReportHistory: async (): Promise<{ sessions: SimulationHistoryRecord[] }> => {
+    const data = await apiClient.get<{ sessions: SimulationHistoryRecord[] } | SimulationHistoryRecord[]>(
+      '/simulations/history'
+    );
+    return Array.isArray(data) ? { sessions: data } : data;
+  },
+
+  /** Session with its conversation turns, in the history record shape */
+  getSessionRecord: async (sessionId: string): Promise<SimulationHistoryRecord> => {
+    return apiClient.get<SimulationHistoryRecord>(`/simulations/${sessionId}`);
+  },
 };
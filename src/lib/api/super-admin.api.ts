@@ -10,30 +10,11 @@
  * - Audit logs
  */
 
-const API_BASE = '/api/super-admin';
+import { apiClient } from './client';
 
 // Helper function for API requests
-async function fetchApi<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Request failed' }));
-    throw new Error(error.message || `HTTP error! status: ${response.status}`);
-  }
-
-  return response.json();
+function fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  return apiClient.request<T>(`/super-admin${endpoint}`, options);
 }
 
 // Types
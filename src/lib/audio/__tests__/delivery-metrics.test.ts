@@ -0,0 +1,109 @@
+import { DeliveryRecorder, computeDeliveryMetrics, countFillers, parseDeliveryMetrics } from '../delivery-metrics';
+import type { DeliverySegment } from '@/types/simulation.types';
+
+describe('countFillers', () => {
+  it('counts Arabic and English fillers as whole words, most frequent first', () => {
+    expect(countFillers('Um, I mean... um, يعني السعر مناسب؟ Umbrella, hmm')).toEqual({
+      arabic: [{ word: 'يعني', count: 1 }],
+      english: [
+        { word: 'um', count: 2 },
+        { word: 'hmm', count: 1 },
+        { word: 'i mean', count: 1 },
+      ],
+    });
+  });
+
+  it('ignores tashkeel on Arabic fillers', () => {
+    expect(countFillers('يَعْنِي').arabic).toEqual([{ word: 'يعني', count: 1 }]);
+  });
+});
+
+describe('computeDeliveryMetrics', () => {
+  const segments: DeliverySegment[] = [
+    { speaker: 'client', startMs: 0, endMs: 3000 },
+    // Starts 1s before the client finishes
+    { speaker: 'trainee', startMs: 2000, endMs: 6000 },
+    // A short pause keeps the monologue going
+    { speaker: 'trainee', startMs: 6500, endMs: 9000 },
+    { speaker: 'client', startMs: 12000, endMs: 14000 },
+    { speaker: 'trainee', startMs: 14500, endMs: 16000 },
+    // Zero-length segments are dropped
+    { speaker: 'client', startMs: 16000, endMs: 16000 },
+  ];
+  const metrics = computeDeliveryMetrics(segments, 'Um, so you know, يعني the price is fine um', 16400);
+
+  it('measures pace, fillers and share of talk time', () => {
+    expect(metrics.durationSeconds).toBe(16);
+    expect(metrics.traineeWords).toBe(10);
+    expect(metrics.wordsPerMinute).toBe(75);
+    expect(metrics.fillers.total).toBe(4);
+    expect(metrics.talkTimeRatio).toBe(0.62);
+  });
+
+  it('finds interruptions, monologues and silences', () => {
+    expect(metrics.interruptions).toBe(1);
+    expect(metrics.interruptionsAtMs).toEqual([2000]);
+    expect(metrics.longestMonologueSeconds).toBe(7);
+    expect(metrics.silenceGaps).toEqual({ count: 1, totalSeconds: 3, longestSeconds: 3 });
+    expect(metrics.timeline).toHaveLength(5);
+  });
+
+  it('does not count a short overlap as an interruption', () => {
+    const result = computeDeliveryMetrics(
+      [
+        { speaker: 'client', startMs: 0, endMs: 3000 },
+        { speaker: 'trainee', startMs: 2800, endMs: 4000 },
+      ],
+      '',
+      4000
+    );
+    expect(result.interruptions).toBe(0);
+    expect(result.wordsPerMinute).toBe(0);
+  });
+});
+
+describe('parseDeliveryMetrics', () => {
+  it('round-trips stored metrics', () => {
+    const metrics = computeDeliveryMetrics([{ speaker: 'trainee', startMs: 0, endMs: 60000 }], 'um hello', 60000);
+    expect(parseDeliveryMetrics(JSON.stringify(metrics))).toEqual(metrics);
+  });
+
+  it('fills in malformed fields and rejects unreadable values', () => {
+    const parsed = parseDeliveryMetrics({ wordsPerMinute: 'fast', timeline: [{ speaker: 'agent' }, { speaker: 'client', startMs: 5 }] });
+    expect(parsed?.wordsPerMinute).toBe(0);
+    expect(parsed?.fillers).toEqual({ total: 0, arabic: [], english: [] });
+    expect(parsed?.timeline).toEqual([{ speaker: 'client', startMs: 5, endMs: 0 }]);
+
+    expect(parseDeliveryMetrics('{not json')).toBeNull();
+    expect(parseDeliveryMetrics(null)).toBeNull();
+  });
+});
+
+describe('DeliveryRecorder', () => {
+  it('turns microphone levels into trainee segments', () => {
+    const recorder = new DeliveryRecorder(0);
+    recorder.sampleLevel('trainee', 0.2, 1000);
+    recorder.sampleLevel('trainee', 0.2, 2000);
+    // Still inside the hangover
+    recorder.sampleLevel('trainee', 0, 2300);
+    recorder.sampleLevel('trainee', 0, 2700);
+    recorder.traineeTranscript('hello there', 2800);
+
+    const metrics = recorder.finish(5000);
+    expect(metrics.timeline).toEqual([{ speaker: 'trainee', startMs: 1000, endMs: 2000 }]);
+    expect(metrics.traineeWords).toBe(2);
+    expect(metrics.durationSeconds).toBe(5);
+  });
+
+  it('estimates trainee turns from transcripts when no level was detected', () => {
+    const recorder = new DeliveryRecorder(1000);
+    recorder.traineeTranscript(new Array(14).fill('word').join(' '), 11000);
+    recorder.speechStart('client', 12000);
+
+    const metrics = recorder.finish(13000);
+    expect(metrics.timeline).toEqual([
+      { speaker: 'trainee', startMs: 4000, endMs: 10000 },
+      { speaker: 'client', startMs: 11000, endMs: 12000 },
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Speech delivery metrics for voice sessions: how the trainee sounds rather
+ * than what they said. Built from who-spoke-when segments (microphone level
+ * for the trainee, the agent's speaking mode for the client) plus the
+ * transcripts of each turn.
+ */
+
+import type { DeliveryMetrics, DeliverySegment, DeliverySpeaker, FillerCount } from '@/types/simulation.types';
+
+export const ARABIC_FILLERS = ['يعني', 'اه', 'آه', 'امم', 'اممم', 'ممم'];
+export const ENGLISH_FILLERS = ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'you know', 'i mean'];
+
+/** Comfortable speaking pace for sales calls, words per minute */
+export const TARGET_WPM = { min: 110, max: 160 };
+
+// Quiet stretches shorter than this are normal turn-taking
+const SILENCE_GAP_MS = 2000;
+// Pauses shorter than this don't break a monologue
+const MONOLOGUE_JOIN_MS = 1500;
+// Overlap needed before a start counts as talking over the client
+const INTERRUPTION_OVERLAP_MS = 300;
+
+// Microphone level hysteresis for detecting trainee speech
+const SPEECH_LEVEL = 0.06;
+const SPEECH_HANGOVER_MS = 600;
+// Pace used to place transcripts that arrived without a detected segment
+const ESTIMATE_WPM = 140;
+
+// Tashkeel and tatweel, then anything that is not a letter, digit or space
+const DIACRITICS = /[\u064B-\u0652\u0640]/g;
+const PUNCTUATION = /[^\w\s\u0600-\u06FF]|[\u060C\u061B\u061F\u066A-\u066D\u06D4]/g;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(DIACRITICS, '')
+    .replace(PUNCTUATION, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function countPhrases(tokens: string[], phrases: string[]): FillerCount[] {
+  const padded = ` ${tokens.join(' ')} `;
+  return phrases
+    .map((phrase) => ({ word: phrase, count: padded.split(` ${phrase} `).length - 1 }))
+    .filter((filler) => filler.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Filler words in a transcript, most frequent first */
+export function countFillers(text: string): { arabic: FillerCount[]; english: FillerCount[] } {
+  const tokens = tokenize(text);
+  return {
+    arabic: countPhrases(tokens, ARABIC_FILLERS),
+    english: countPhrases(tokens, ENGLISH_FILLERS),
+  };
+}
+
+function totalMs(segments: DeliverySegment[]): number {
+  return segments.reduce((sum, segment) => sum + Math.max(0, segment.endMs - segment.startMs), 0);
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Computes the metrics for a finished call
+ *
+ * @param segments - who spoke when; overlapping segments are allowed
+ * @param traineeText - everything the trainee said, for word and filler counts
+ * @param durationMs - length of the whole call
+ */
+export function computeDeliveryMetrics(
+  segments: DeliverySegment[],
+  traineeText: string,
+  durationMs: number
+): DeliveryMetrics {
+  const timeline = [...segments]
+    .filter((segment) => segment.endMs > segment.startMs)
+    .sort((a, b) => a.startMs - b.startMs);
+  const trainee = timeline.filter((segment) => segment.speaker === 'trainee');
+  const client = timeline.filter((segment) => segment.speaker === 'client');
+
+  const traineeMs = totalMs(trainee);
+  const talkMs = traineeMs + totalMs(client);
+  const traineeWords = tokenize(traineeText).length;
+  const fillers = countFillers(traineeText);
+
+  // Interruptions: the trainee starts while the client is still talking
+  const interruptionsAtMs = trainee
+    .filter((own) =>
+      client.some((other) => other.startMs < own.startMs && own.startMs < other.endMs - INTERRUPTION_OVERLAP_MS)
+    )
+    .map((own) => own.startMs);
+
+  // Longest monologue: trainee segments joined across short pauses the client didn't fill
+  let longestMonologueMs = 0;
+  let runStart: number | null = null;
+  let runEnd = 0;
+  for (const own of trainee) {
+    const clientSpokeBetween = client.some((other) => other.startMs >= runEnd && other.startMs < own.startMs);
+    if (runStart === null || own.startMs - runEnd > MONOLOGUE_JOIN_MS || clientSpokeBetween) {
+      runStart = own.startMs;
+    }
+    runEnd = Math.max(runEnd, own.endMs);
+    longestMonologueMs = Math.max(longestMonologueMs, runEnd - runStart);
+  }
+
+  // Silence gaps: nobody talking between the first and last words of the call
+  const gaps: number[] = [];
+  let coveredUntil: number | null = null;
+  for (const segment of timeline) {
+    if (coveredUntil !== null && segment.startMs - coveredUntil >= SILENCE_GAP_MS) {
+      gaps.push(segment.startMs - coveredUntil);
+    }
+    coveredUntil = Math.max(coveredUntil ?? 0, segment.endMs);
+  }
+
+  return {
+    durationSeconds: Math.round(durationMs / 1000),
+    traineeWords,
+    wordsPerMinute: traineeMs > 0 ? Math.round(traineeWords / (traineeMs / 60000)) : 0,
+    fillers: {
+      total: [...fillers.arabic, ...fillers.english].reduce((sum, filler) => sum + filler.count, 0),
+      ...fillers,
+    },
+    longestMonologueSeconds: round(longestMonologueMs / 1000),
+    interruptions: interruptionsAtMs.length,
+    silenceGaps: {
+      count: gaps.length,
+      totalSeconds: round(gaps.reduce((sum, gap) => sum + gap, 0) / 1000),
+      longestSeconds: round(Math.max(0, ...gaps) / 1000),
+    },
+    talkTimeRatio: talkMs > 0 ? round(traineeMs / talkMs, 2) : 0,
+    timeline,
+    interruptionsAtMs,
+  };
+}
+
+function num(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+}
+
+function fillerList(value: unknown): FillerCount[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item) => item && typeof item.word === 'string')
+    .map((item) => ({ word: item.word, count: num(item.count) }));
+}
+
+/** Reads metrics stored on a session record (a JSON string); null when missing or malformed */
+export function parseDeliveryMetrics(value: unknown): DeliveryMetrics | null {
+  let parsed: any = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  return {
+    durationSeconds: num(parsed.durationSeconds),
+    traineeWords: num(parsed.traineeWords),
+    wordsPerMinute: num(parsed.wordsPerMinute),
+    fillers: {
+      total: num(parsed.fillers?.total),
+      arabic: fillerList(parsed.fillers?.arabic),
+      english: fillerList(parsed.fillers?.english),
+    },
+    longestMonologueSeconds: num(parsed.longestMonologueSeconds),
+    interruptions: num(parsed.interruptions),
+    silenceGaps: {
+      count: num(parsed.silenceGaps?.count),
+      totalSeconds: num(parsed.silenceGaps?.totalSeconds),
+      longestSeconds: num(parsed.silenceGaps?.longestSeconds),
+    },
+    talkTimeRatio: num(parsed.talkTimeRatio),
+    timeline: Array.isArray(parsed.timeline)
+      ? parsed.timeline
+          .filter((segment: any) => segment?.speaker === 'trainee' || segment?.speaker === 'client')
+          .map((segment: any) => ({ speaker: segment.speaker, startMs: num(segment.startMs), endMs: num(segment.endMs) }))
+      : [],
+    interruptionsAtMs: Array.isArray(parsed.interruptionsAtMs) ? parsed.interruptionsAtMs.map(num) : [],
+  };
+}
+
+/** Collects segments and transcripts while a call runs */
+export class DeliveryRecorder {
+  private readonly startedAt: number;
+  private segments: DeliverySegment[] = [];
+  private open: Partial<Record<DeliverySpeaker, DeliverySegment>> = {};
+  private traineeText: string[] = [];
+  private lastLoudAt = 0;
+  // False until the microphone level has caught the trainee speaking at least once
+  private levelDetected = false;
+
+  constructor(now = Date.now()) {
+    this.startedAt = now;
+  }
+
+  speechStart(speaker: DeliverySpeaker, now = Date.now()): void {
+    if (this.open[speaker]) return;
+    const offset = now - this.startedAt;
+    this.open[speaker] = { speaker, startMs: offset, endMs: offset };
+  }
+
+  speechEnd(speaker: DeliverySpeaker, now = Date.now()): void {
+    const segment = this.open[speaker];
+    if (!segment) return;
+    segment.endMs = Math.max(segment.startMs, now - this.startedAt);
+    this.segments.push(segment);
+    delete this.open[speaker];
+  }
+
+  /** Feeds a 0-1 microphone level; speech starts above a threshold and ends after a short quiet spell */
+  sampleLevel(speaker: DeliverySpeaker, level: number, now = Date.now()): void {
+    if (level >= SPEECH_LEVEL) {
+      this.lastLoudAt = now;
+      this.levelDetected = true;
+      this.speechStart(speaker, now);
+    } else if (this.open[speaker] && now - this.lastLoudAt >= SPEECH_HANGOVER_MS) {
+      this.speechEnd(speaker, this.lastLoudAt);
+    }
+  }
+
+  /**
+   * A finished trainee turn. Without a usable microphone level the turn is
+   * placed on the timeline by estimating its length from the word count.
+   */
+  traineeTranscript(text: string, now = Date.now()): void {
+    if (!text.trim()) return;
+    this.traineeText.push(text);
+    if (this.levelDetected) return;
+
+    const endMs = now - this.startedAt;
+    const estimatedMs = (tokenize(text).length / ESTIMATE_WPM) * 60000;
+    this.segments.push({ speaker: 'trainee', startMs: Math.max(0, endMs - estimatedMs), endMs });
+  }
+
+  finish(now = Date.now()): DeliveryMetrics {
+    (Object.keys(this.open) as DeliverySpeaker[]).forEach((speaker) => this.speechEnd(speaker, now));
+    return computeDeliveryMetrics(this.segments, this.traineeText.join(' '), now - this.startedAt);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Microphone and speaker selection shared by every voice feature
+ *
+ * Holds the devices the browser reports and which input/output is in use.
+ * The user's saved choice is the preferred device; plugging in a new device
+ * (e.g. a headset) switches to it for the rest of the session, and unplugging
+ * the active one falls back to the saved choice or the system default.
+ * `null` always means "system default".
+ */
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDeviceSelection {
+  inputId: string | null;
+  outputId: string | null;
+}
+
+export interface AudioDevicesSnapshot extends AudioDeviceSelection {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+const TEST_TONE_HZ = 440;
+const TEST_TONE_SECONDS = 0.8;
+
+// Chrome lists aliases for the system devices next to the real ones
+const ALIAS_IDS = ['default', 'communications'];
+
+function toDevices(devices: MediaDeviceInfo[], kind: MediaDeviceKind): AudioDevice[] {
+  return devices
+    .filter((device) => device.kind === kind && device.deviceId && !ALIAS_IDS.includes(device.deviceId))
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `${kind} ${i + 1}` }));
+}
+
+function has(devices: AudioDevice[], id: string | null): boolean {
+  return id !== null && devices.some((device) => device.deviceId === id);
+}
+
+/** True when this browser can route audio to a chosen speaker */
+export function isOutputSelectionSupported(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+export class AudioDevices {
+  private snapshot: AudioDevicesSnapshot = { inputs: [], outputs: [], inputId: null, outputId: null };
+  private preferred: AudioDeviceSelection = { inputId: null, outputId: null };
+  private listeners = new Set<() => void>();
+  // Unset until the first enumeration, so devices present on load don't count as plugged in
+  private known: Set<string> | null = null;
+
+  constructor() {
+    if (typeof navigator !== 'undefined' && navigator.mediaDevices?.addEventListener) {
+      navigator.mediaDevices.addEventListener('devicechange', () => void this.refresh());
+      void this.refresh();
+    }
+  }
+
+  get inputId(): string | null {
+    return this.snapshot.inputId;
+  }
+
+  get outputId(): string | null {
+    return this.snapshot.outputId;
+  }
+
+  /** getUserMedia audio constraints for the selected microphone */
+  micConstraints(): MediaTrackConstraints {
+    const constraints: MediaTrackConstraints = {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    };
+    if (this.snapshot.inputId) constraints.deviceId = { exact: this.snapshot.inputId };
+    return constraints;
+  }
+
+  /** Re-reads the device list. Labels stay empty until microphone access was granted once. */
+  async refresh(): Promise<void> {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch (error) {
+      console.error('[AudioDevices] Could not list devices:', error);
+      return;
+    }
+    const inputs = toDevices(devices, 'audioinput');
+    const outputs = toDevices(devices, 'audiooutput');
+
+    const known = this.known;
+    const added = (list: AudioDevice[]) => (known ? list.filter((device) => !known.has(device.deviceId)) : []);
+    this.known = new Set([...inputs, ...outputs].map((device) => device.deviceId));
+
+    this.update({
+      inputs,
+      outputs,
+      inputId: this.pick(inputs, added(inputs), this.snapshot.inputId, this.preferred.inputId),
+      outputId: this.pick(outputs, added(outputs), this.snapshot.outputId, this.preferred.outputId),
+    });
+  }
+
+  /** Applies the user's saved choice, e.g. after sign-in */
+  setPreferred(selection: AudioDeviceSelection): void {
+    if (selection.inputId === this.preferred.inputId && selection.outputId === this.preferred.outputId) return;
+    this.preferred = selection;
+    const { inputs, outputs } = this.snapshot;
+    this.update({
+      ...this.snapshot,
+      inputId: inputs.length === 0 || has(inputs, selection.inputId) ? selection.inputId : null,
+      outputId: outputs.length === 0 || has(outputs, selection.outputId) ? selection.outputId : null,
+    });
+  }
+
+  /** An explicit choice; it also becomes the preferred device */
+  select(selection: Partial<AudioDeviceSelection>): void {
+    this.preferred = { ...this.preferred, ...selection };
+    this.update({ ...this.snapshot, ...selection });
+  }
+
+  getSnapshot = (): AudioDevicesSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private pick(devices: AudioDevice[], added: AudioDevice[], current: string | null, preferred: string | null) {
+    if (added.length > 0) return added[added.length - 1].deviceId;
+    if (current === null || has(devices, current)) return current;
+    return has(devices, preferred) ? preferred : null;
+  }
+
+  private update(next: AudioDevicesSnapshot) {
+    this.snapshot = next;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+let audioDevices: AudioDevices | null = null;
+
+export function getAudioDevices(): AudioDevices {
+  if (!audioDevices) {
+    audioDevices = new AudioDevices();
+  }
+  return audioDevices;
+}
+
+/** Plays a short tone through the given speaker; resolves false when it could not */
+export async function playTestTone(outputId: string | null): Promise<boolean> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const destination = context.createMediaStreamDestination();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = TEST_TONE_HZ;
+    oscillator.connect(gain).connect(destination);
+
+    // Route through a media element so setSinkId can pick the speaker
+    const audio = new Audio();
+    audio.srcObject = destination.stream;
+    if (outputId && isOutputSelectionSupported()) await audio.setSinkId(outputId);
+    await audio.play();
+
+    const start = context.currentTime;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + TEST_TONE_SECONDS);
+    oscillator.start(start);
+    oscillator.stop(start + TEST_TONE_SECONDS);
+    await new Promise((resolve) => setTimeout(resolve, TEST_TONE_SECONDS * 1000));
+    audio.pause();
+    audio.srcObject = null;
+    return true;
+  } catch (error) {
+    console.error('[AudioDevices] Test tone failed:', error);
+    return false;
+  } finally {
+    context.close().catch(() => {});
+  }
+}
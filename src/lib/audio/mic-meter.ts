@@ -0,0 +1,99 @@
+/**
+ * Microphone level meter for waveform displays. Opens its own stream so it
+ * works the same whichever speech input is listening, and follows the
+ * selected microphone when it changes.
+ */
+
+import { getAudioDevices } from './devices';
+
+const MIN_LEVEL = 0.05;
+
+export interface MicMeter {
+  start: () => Promise<boolean>;
+  stop: () => void;
+}
+
+/** Calls `onLevels` every frame with one 0-1 level per bar */
+export function createMicMeter(bars: number, onLevels: (levels: number[]) => void): MicMeter {
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let frame: number | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let active = false;
+
+  const release = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+    context?.close().catch(() => {});
+    context = null;
+  };
+
+  const stop = () => {
+    active = false;
+    unsubscribe?.();
+    unsubscribe = null;
+    release();
+    onLevels(new Array(bars).fill(0));
+  };
+
+  const open = async (): Promise<boolean> => {
+    const devices = getAudioDevices();
+    const deviceId = devices.inputId;
+    let opened: MediaStream;
+    try {
+      opened = await navigator.mediaDevices.getUserMedia({ audio: devices.micConstraints() });
+    } catch (error) {
+      console.error('[MicMeter] Microphone unavailable:', error);
+      return false;
+    }
+    if (!active) {
+      opened.getTracks().forEach((track) => track.stop());
+      return false;
+    }
+    stream = opened;
+    // Device labels become readable once access was granted
+    void devices.refresh();
+    unsubscribe?.();
+    unsubscribe = devices.subscribe(() => {
+      if (stream === opened && devices.inputId !== deviceId) {
+        release();
+        void open();
+      }
+    });
+
+    context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.8;
+    context.createMediaStreamSource(opened).connect(analyser);
+
+    const data = new Uint8Array(analyser.frequencyBinCount);
+    const binsPerBar = Math.max(1, Math.floor(data.length / bars));
+    const tick = () => {
+      analyser.getByteFrequencyData(data);
+      const levels: number[] = [];
+      for (let bar = 0; bar < bars; bar++) {
+        let sum = 0;
+        for (let j = 0; j < binsPerBar; j++) sum += data[bar * binsPerBar + j];
+        levels.push(Math.max(MIN_LEVEL, sum / binsPerBar / 255));
+      }
+      onLevels(levels);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return true;
+  };
+
+  return {
+    start: async () => {
+      if (active) return true;
+      active = true;
+      const opened = await open();
+      if (!opened) active = false;
+      return opened;
+    },
+    stop,
+  };
+}
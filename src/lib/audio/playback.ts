@@ -0,0 +1,204 @@
+/**
+ * Playback queue shared by every voice feature in the app
+ *
+ * Only one clip is audible at a time. `play` replaces whatever is playing,
+ * `enqueue` waits its turn (used for streamed TTS chunks), and `stop`
+ * silences everything at once, e.g. when the trainee interrupts. Playback
+ * stops while the tab is hidden so a background tab never talks over another.
+ * Audio goes to the selected speaker where the browser supports choosing one.
+ */
+
+import { getAudioDevices } from './devices';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing';
+
+export interface PlaybackSnapshot {
+  state: PlaybackState;
+  /** Id of the clip that is loading or playing */
+  currentId: string | null;
+}
+
+interface QueuedClip {
+  id: string;
+  base64: string;
+  resolve: (played: boolean) => void;
+}
+
+const FADE_IN_SECONDS = 0.03;
+const RESUME_TIMEOUT_MS = 300;
+
+// AudioContext.setSinkId is not in the DOM typings yet (Chromium only)
+type RoutableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export class PlaybackQueue {
+  private context: RoutableAudioContext | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private queue: QueuedClip[] = [];
+  private current: QueuedClip | null = null;
+  private snapshot: PlaybackSnapshot = { state: 'idle', currentId: null };
+  private listeners = new Set<() => void>();
+  /** Bumped by stop() so clips still decoding know they were cancelled */
+  private generation = 0;
+
+  constructor() {
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.hidden) this.stop();
+      });
+      window.addEventListener('pagehide', () => this.stop());
+      getAudioDevices().subscribe(() => this.routeOutput());
+    }
+  }
+
+  /** Stops everything else and plays this clip. Resolves false when it was cut short. */
+  play(base64: string, id?: string): Promise<boolean> {
+    this.stop();
+    return this.enqueue(base64, id);
+  }
+
+  /** Plays after the clips already queued. Resolves false when it never finished. */
+  enqueue(base64: string, id?: string): Promise<boolean> {
+    if (typeof document !== 'undefined' && document.hidden) return Promise.resolve(false);
+    return new Promise((resolve) => {
+      this.queue.push({ id: id ?? `clip-${Date.now()}-${this.queue.length}`, base64, resolve });
+      if (!this.current) void this.playNext();
+    });
+  }
+
+  /** Silences the current clip and drops the queue */
+  stop(): void {
+    this.generation++;
+    const dropped = this.current ? [this.current, ...this.queue] : this.queue;
+    this.queue = [];
+    this.current = null;
+    if (this.source) {
+      this.source.onended = null;
+      try {
+        this.source.stop(0);
+        this.source.disconnect();
+      } catch {
+        // Already stopped
+      }
+      this.source = null;
+    }
+    dropped.forEach((clip) => clip.resolve(false));
+    this.update({ state: 'idle', currentId: null });
+  }
+
+  get state(): PlaybackState {
+    return this.snapshot.state;
+  }
+
+  get currentId(): string | null {
+    return this.snapshot.currentId;
+  }
+
+  /** The browser refused to start audio without a user gesture */
+  get autoplayBlocked(): boolean {
+    return this.context?.state === 'suspended';
+  }
+
+  get isPlaying(): boolean {
+    return this.snapshot.state !== 'idle';
+  }
+
+  getSnapshot = (): PlaybackSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(next: PlaybackSnapshot) {
+    if (next.state === this.snapshot.state && next.currentId === this.snapshot.currentId) return;
+    this.snapshot = next;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async audioContext(): Promise<AudioContext> {
+    if (!this.context || this.context.state === 'closed') {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.routeOutput();
+    }
+    // Browsers suspend contexts created before a user gesture; resume() then
+    // waits for one, so give up quickly and let the caller offer a play button
+    if (this.context.state === 'suspended') {
+      await Promise.race([this.context.resume(), new Promise((resolve) => setTimeout(resolve, RESUME_TIMEOUT_MS))]);
+      if (this.context.state === 'suspended') throw new Error('Autoplay blocked');
+    }
+    return this.context;
+  }
+
+  private routeOutput() {
+    const sinkId = getAudioDevices().outputId ?? '';
+    this.context?.setSinkId?.(sinkId).catch((error) => {
+      console.error('[Playback] Could not switch speaker:', error);
+    });
+  }
+
+  private async playNext(): Promise<void> {
+    const clip = this.queue.shift();
+    if (!clip) {
+      this.current = null;
+      this.update({ state: 'idle', currentId: null });
+      return;
+    }
+
+    const generation = this.generation;
+    this.current = clip;
+    this.update({ state: 'loading', currentId: clip.id });
+
+    let buffer: AudioBuffer;
+    let context: AudioContext;
+    try {
+      context = await this.audioContext();
+      buffer = await context.decodeAudioData(base64ToArrayBuffer(clip.base64));
+    } catch (error) {
+      console.error('[Playback] Could not play clip:', error);
+      if (generation !== this.generation) return;
+      clip.resolve(false);
+      void this.playNext();
+      return;
+    }
+    // stop() ran while decoding; the clip was already resolved there
+    if (generation !== this.generation) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, context.currentTime);
+    gain.gain.linearRampToValueAtTime(1, context.currentTime + FADE_IN_SECONDS);
+    source.connect(gain);
+    gain.connect(context.destination);
+
+    source.onended = () => {
+      if (this.source === source) this.source = null;
+      clip.resolve(true);
+      void this.playNext();
+    };
+    this.source = source;
+    source.start(0);
+    this.update({ state: 'playing', currentId: clip.id });
+  }
+}
+
+let playbackQueue: PlaybackQueue | null = null;
+
+/** The app-wide queue; created on first use in the browser */
+export function getPlaybackQueue(): PlaybackQueue {
+  if (!playbackQueue) {
+    playbackQueue = new PlaybackQueue();
+  }
+  return playbackQueue;
+}
@@ -0,0 +1,278 @@
+/**
+ * Pluggable speech-to-text for the voice engine
+ *
+ * - `browser`: the browser's SpeechRecognition, with live interim text
+ * - `vad`: Silero VAD (@ricky0123/vad-web) cuts utterances out of an open
+ *   mic and each one is transcribed on the server; hands-free and barge-in friendly
+ * - `server`: push-to-talk recording transcribed on the server when released
+ *
+ * `vad` and `server` record from the selected microphone; SpeechRecognition
+ * always listens on the system default.
+ */
+
+import { aiTeacherApi } from '@/lib/api/ai-teacher.api';
+import { LANGUAGE_CONFIGS } from '@/contexts/LanguageContext';
+import type { Language } from '@/contexts/LanguageContext';
+import { getAudioDevices } from './devices';
+
+export type SpeechInputKind = 'browser' | 'vad' | 'server';
+
+export type SpeechInputError = 'not-allowed' | 'unsupported' | 'failed';
+
+export interface SpeechInputEvents {
+  onSpeechStart: () => void;
+  onInterim: (text: string) => void;
+  /** A finished utterance, already trimmed and never empty */
+  onFinal: (text: string) => void;
+  onError: (error: SpeechInputError) => void;
+  /** Server transcription started or finished */
+  onTranscribing: (busy: boolean) => void;
+  /** The input stopped listening by itself, e.g. the browser ended recognition */
+  onEnd: () => void;
+}
+
+export interface SpeechInput {
+  readonly kind: SpeechInputKind;
+  start: () => Promise<void>;
+  /** Stop listening; whatever was already said is still delivered */
+  stop: () => void;
+  /** Stop listening and drop what was said */
+  abort: () => void;
+  /** Release the microphone for good */
+  dispose: () => void;
+}
+
+interface BrowserRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onstart: (() => void) | null;
+  onspeechstart: (() => void) | null;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+}
+
+function recognitionConstructor(): (new () => BrowserRecognition) | null {
+  if (typeof window === 'undefined') return null;
+  return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+}
+
+/** True when the given input can run in this browser */
+export function isSpeechInputSupported(kind: SpeechInputKind): boolean {
+  if (typeof window === 'undefined') return false;
+  if (kind === 'browser') return recognitionConstructor() !== null;
+  return !!navigator.mediaDevices?.getUserMedia && (kind === 'vad' || typeof MediaRecorder !== 'undefined');
+}
+
+/** Opens the selected microphone */
+function openMic(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: { ...getAudioDevices().micConstraints(), channelCount: 1 } });
+}
+
+function micError(error: unknown): SpeechInputError {
+  return error instanceof DOMException && error.name === 'NotAllowedError' ? 'not-allowed' : 'failed';
+}
+
+function createBrowserInput(language: Language, events: SpeechInputEvents): SpeechInput {
+  let recognition: BrowserRecognition | null = null;
+
+  return {
+    kind: 'browser',
+    start: async () => {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) {
+        events.onError('unsupported');
+        return;
+      }
+      if (recognition) return;
+      const current = new Recognition();
+      current.continuous = true;
+      current.interimResults = true;
+      current.lang = LANGUAGE_CONFIGS[language].sttLocale;
+
+      current.onspeechstart = () => events.onSpeechStart();
+      current.onresult = (event) => {
+        let finalText = '';
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) finalText += result[0].transcript;
+          else interim += result[0].transcript;
+        }
+        events.onInterim(interim);
+        if (finalText.trim()) events.onFinal(finalText.trim());
+      };
+      current.onerror = (event) => {
+        // Silence and our own abort() are not worth reporting
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        events.onError(event.error === 'not-allowed' ? 'not-allowed' : 'failed');
+      };
+      current.onend = () => {
+        if (recognition !== current) return;
+        recognition = null;
+        events.onInterim('');
+        events.onEnd();
+      };
+
+      recognition = current;
+      try {
+        current.start();
+      } catch {
+        // Already started
+      }
+    },
+    stop: () => {
+      const current = recognition;
+      recognition = null;
+      current?.stop();
+      events.onInterim('');
+    },
+    abort: () => {
+      const current = recognition;
+      recognition = null;
+      current?.abort();
+      events.onInterim('');
+    },
+    dispose: () => {
+      const current = recognition;
+      recognition = null;
+      current?.abort();
+    },
+  };
+}
+
+async function transcribe(audio: Blob, language: Language, events: SpeechInputEvents) {
+  events.onTranscribing(true);
+  try {
+    const { text } = await aiTeacherApi.speechToText(audio, language);
+    events.onTranscribing(false);
+    if (text?.trim()) events.onFinal(text.trim());
+  } catch (error) {
+    console.error('[SpeechInput] Transcription failed:', error);
+    events.onTranscribing(false);
+    events.onError('failed');
+  }
+}
+
+function createVadInput(language: Language, events: SpeechInputEvents): SpeechInput {
+  // Typed loosely so the VAD bundle (and onnxruntime) only loads when used
+  let vad: { start: () => Promise<void>; pause: () => Promise<void>; destroy: () => Promise<void> } | null = null;
+  let discard = false;
+
+  return {
+    kind: 'vad',
+    start: async () => {
+      discard = false;
+      if (vad) {
+        await vad.start();
+        return;
+      }
+      try {
+        const { MicVAD, utils } = await import('@ricky0123/vad-web');
+        vad = await MicVAD.new({
+          model: 'v5',
+          baseAssetPath: '/',
+          onnxWASMBasePath: '/',
+          positiveSpeechThreshold: 0.7,
+          negativeSpeechThreshold: 0.35,
+          // Natural pauses inside a sentence should not end the utterance
+          redemptionMs: 600,
+          minSpeechMs: 200,
+          preSpeechPadMs: 100,
+          // Reopened on every start, so a newly selected microphone is picked up
+          getStream: openMic,
+          resumeStream: openMic,
+          onSpeechStart: () => events.onSpeechStart(),
+          onSpeechEnd: (samples: Float32Array) => {
+            if (discard) return;
+            const wav = new Blob([utils.encodeWAV(samples)], { type: 'audio/wav' });
+            void transcribe(wav, language, events);
+          },
+        });
+        await vad.start();
+      } catch (error) {
+        console.error('[SpeechInput] VAD failed to start:', error);
+        vad = null;
+        events.onError(micError(error));
+      }
+    },
+    stop: () => {
+      void vad?.pause();
+    },
+    abort: () => {
+      discard = true;
+      void vad?.pause();
+    },
+    dispose: () => {
+      discard = true;
+      void vad?.destroy();
+      vad = null;
+    },
+  };
+}
+
+function createServerInput(language: Language, events: SpeechInputEvents): SpeechInput {
+  let recorder: MediaRecorder | null = null;
+  let discard = false;
+
+  return {
+    kind: 'server',
+    start: async () => {
+      if (recorder) return;
+      discard = false;
+      let stream: MediaStream;
+      try {
+        stream = await openMic();
+      } catch (error) {
+        events.onError(micError(error));
+        return;
+      }
+      const current = new MediaRecorder(stream, { mimeType: 'audio/webm' });
+      const chunks: Blob[] = [];
+      current.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      current.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        events.onEnd();
+        if (discard || chunks.length === 0) return;
+        void transcribe(new Blob(chunks, { type: 'audio/webm' }), language, events);
+      };
+      recorder = current;
+      current.start();
+      events.onSpeechStart();
+    },
+    stop: () => {
+      const current = recorder;
+      recorder = null;
+      if (current?.state === 'recording') current.stop();
+    },
+    abort: () => {
+      discard = true;
+      const current = recorder;
+      recorder = null;
+      if (current?.state === 'recording') current.stop();
+    },
+    dispose: () => {
+      discard = true;
+      const current = recorder;
+      recorder = null;
+      if (current?.state === 'recording') current.stop();
+    },
+  };
+}
+
+export function createSpeechInput(kind: SpeechInputKind, language: Language, events: SpeechInputEvents): SpeechInput {
+  switch (kind) {
+    case 'browser':
+      return createBrowserInput(language, events);
+    case 'vad':
+      return createVadInput(language, events);
+    case 'server':
+      return createServerInput(language, events);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Pluggable text-to-speech for the voice engine
+ *
+ * Only used for replies that arrive as text; replies that already carry
+ * audio (voice calls return it with the answer) are played as they are.
+ */
+
+import { aiTeacherApi } from '@/lib/api/ai-teacher.api';
+import { voiceCallApi } from '@/lib/api/voice-call.api';
+import type { Language } from '@/contexts/LanguageContext';
+
+export interface SpeechOutput {
+  /** Base64 audio for the text, or null when it should stay silent */
+  synthesize: (text: string, language: Language) => Promise<string | null>;
+}
+
+/** Replies are shown but never spoken */
+export const silentOutput: SpeechOutput = {
+  synthesize: async () => null,
+};
+
+/** An AI teacher's configured voice; the server picks it from the teacher's settings */
+export function teacherVoiceOutput(teacherName?: string): SpeechOutput {
+  return {
+    synthesize: async (text, language) => (await aiTeacherApi.textToSpeech(text, language, teacherName)).audio || null,
+  };
+}
+
+/** The voice-call service's voice, optionally a specific one */
+export function callVoiceOutput(voiceId?: string): SpeechOutput {
+  return {
+    synthesize: async (text) => (await voiceCallApi.textToSpeech({ text, voiceId, returnBase64: true })).audioBase64 || null,
+  };
+}
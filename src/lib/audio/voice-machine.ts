@@ -0,0 +1,48 @@
+/**
+ * Lifecycle of a voice conversation, shared by every voice feature.
+ *
+ *   idle → connecting → active ⇄ processing → speaking → active … → ending → ended
+ *
+ * Whether the microphone is open is tracked separately: a hands-free call
+ * listens while `active`, a push-to-talk one only while the button is held.
+ */
+
+export type VoiceStatus = 'idle' | 'connecting' | 'active' | 'processing' | 'speaking' | 'ending' | 'ended' | 'error';
+
+export type VoiceEvent =
+  /** Opening the session */
+  | 'connect'
+  | 'connected'
+  /** The user finished an utterance and it is being answered */
+  | 'submit'
+  /** The reply started playing */
+  | 'speak'
+  /** The reply finished, was interrupted, or there was nothing to say */
+  | 'done'
+  | 'end'
+  | 'ended'
+  | 'fail'
+  | 'reset';
+
+const TRANSITIONS: Record<VoiceStatus, Partial<Record<VoiceEvent, VoiceStatus>>> = {
+  idle: { connect: 'connecting' },
+  connecting: { connected: 'active', speak: 'speaking', end: 'ending' },
+  active: { submit: 'processing', speak: 'speaking', end: 'ending' },
+  processing: { speak: 'speaking', done: 'active', submit: 'processing', end: 'ending' },
+  speaking: { done: 'active', submit: 'processing', speak: 'speaking', end: 'ending' },
+  ending: { ended: 'ended' },
+  ended: { connect: 'connecting' },
+  error: { connect: 'connecting' },
+};
+
+/** Status after an event; events that make no sense in the current status are ignored */
+export function nextVoiceStatus(status: VoiceStatus, event: VoiceEvent): VoiceStatus {
+  if (event === 'reset') return 'idle';
+  if (event === 'fail') return 'error';
+  return TRANSITIONS[status][event] ?? status;
+}
+
+/** A session is open and the user can talk */
+export function isVoiceLive(status: VoiceStatus): boolean {
+  return status === 'active' || status === 'processing' || status === 'speaking';
+}
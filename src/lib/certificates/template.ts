@@ -0,0 +1,78 @@
+/**
+ * Certificate text and layout helpers shared by the trainee download, the
+ * admin template preview and the public verification page.
+ */
+
+import type { Certificate, CertificateLanguage, CertificateTemplate } from '@/types/certificate';
+
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = {
+  titleEn: 'Certificate of Achievement',
+  titleAr: 'شهادة إنجاز',
+  bodyEn: 'This certifies that {name} has successfully completed {achievement} on {date}.',
+  bodyAr: 'تشهد هذه الوثيقة بأن {name} قد أتم بنجاح {achievement} بتاريخ {date}.',
+  signatoryName: '',
+  signatoryNameAr: '',
+  signatoryTitle: 'Training Manager',
+  signatoryTitleAr: 'مدير التدريب',
+  accentColor: '#7c3aed',
+  language: 'both',
+  showScore: true,
+};
+
+export const CERTIFICATE_PLACEHOLDERS = ['{name}', '{achievement}', '{date}', '{score}'] as const;
+
+/** Pages printed for a template language, English first */
+export function certificatePages(language: CertificateLanguage): ('en' | 'ar')[] {
+  if (language === 'both') return ['en', 'ar'];
+  return [language];
+}
+
+export type CertificateContent = Pick<
+  Certificate,
+  'recipientName' | 'achievementTitle' | 'achievementTitleAr' | 'score' | 'issuedAt'
+>;
+
+export function formatCertificateDate(issuedAt: string, lang: 'en' | 'ar'): string {
+  return new Date(issuedAt).toLocaleDateString(lang === 'ar' ? 'ar-SA' : 'en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+export function achievementTitle(content: Pick<CertificateContent, 'achievementTitle' | 'achievementTitleAr'>, lang: 'en' | 'ar'): string {
+  return lang === 'ar' && content.achievementTitleAr ? content.achievementTitleAr : content.achievementTitle;
+}
+
+/** Template body with its placeholders filled in */
+export function certificateBody(template: CertificateTemplate, content: CertificateContent, lang: 'en' | 'ar'): string {
+  const values: Record<string, string> = {
+    '{name}': content.recipientName,
+    '{achievement}': achievementTitle(content, lang),
+    '{date}': formatCertificateDate(content.issuedAt, lang),
+    '{score}': content.score === null ? '' : `${Math.round(content.score)}%`,
+  };
+  const body = lang === 'ar' ? template.bodyAr || template.bodyEn : template.bodyEn || template.bodyAr;
+  return body.replace(/\{(name|achievement|date|score)\}/g, (placeholder) => values[placeholder]);
+}
+
+export function certificateVerifyUrl(code: string): string {
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+  return `${origin}/verify/${encodeURIComponent(code)}`;
+}
+
+export function certificateFileName(certificate: Pick<Certificate, 'achievementTitle' | 'verificationCode'>): string {
+  const slug = certificate.achievementTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `certificate-${slug || 'achievement'}-${certificate.verificationCode}.pdf`;
+}
+
+/** Sample content for the admin template preview */
+export function sampleCertificateContent(isRTL: boolean): CertificateContent {
+  return {
+    recipientName: isRTL ? 'سارة أحمد' : 'Sarah Ahmed',
+    achievementTitle: 'Property Valuation Fundamentals',
+    achievementTitleAr: 'أساسيات التقييم العقاري',
+    score: 92,
+    issuedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,49 @@
+import { answerSimilarity, matchAnswer, normalizeAnswer } from '../answer-matching';
+
+describe('normalizeAnswer', () => {
+  it('ignores case, punctuation and extra whitespace', () => {
+    expect(normalizeAnswer('  Return on   Investment! ')).toBe('return on investment');
+  });
+
+  it('folds Arabic writing variants', () => {
+    expect(normalizeAnswer('إدارةُ المَبيعات')).toBe(normalizeAnswer('ادارة المبيعات'));
+    expect(normalizeAnswer('مستشفى')).toBe('مستشفي');
+    expect(normalizeAnswer('مسؤول')).toBe('مسوول');
+  });
+});
+
+describe('answerSimilarity', () => {
+  it('is 1 for answers that only differ in normalised characters', () => {
+    expect(answerSimilarity('Pipeline.', 'pipeline')).toBe(1);
+  });
+
+  it('is 0 when either side is empty', () => {
+    expect(answerSimilarity('', 'pipeline')).toBe(0);
+    expect(answerSimilarity('...', 'pipeline')).toBe(0);
+  });
+});
+
+describe('matchAnswer', () => {
+  it('accepts an exact answer with the top quality', () => {
+    expect(matchAnswer('pipeline', ['pipeline'])).toEqual({ verdict: 'correct', similarity: 1, suggestedQuality: 5 });
+  });
+
+  it('treats a small typo as correct with a lower quality', () => {
+    const result = matchAnswer('return on investmnet', ['Return on investment']);
+    expect(result.verdict).toBe('correct');
+    expect(result.suggestedQuality).toBe(4);
+  });
+
+  it('marks a near miss as close', () => {
+    expect(matchAnswer('costumer', ['customer']).verdict).toBe('close');
+  });
+
+  it('checks every accepted answer and skips missing ones', () => {
+    expect(matchAnswer('العميل', ['customer', null, 'العميل']).verdict).toBe('correct');
+    expect(matchAnswer('anything', [null, undefined, ''])).toEqual({
+      verdict: 'incorrect',
+      similarity: 0,
+      suggestedQuality: 1,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  DeckImportError,
+  deckToAnkiText,
+  detectDelimiter,
+  guessColumnMapping,
+  importableCards,
+  parseDeckJSON,
+  parseDelimited,
+  positionalMapping,
+  rowsToCards,
+  serializeDeck,
+} from '../deck-transfer';
+import type { DeckDetail } from '@/types/flashcard';
+
+const deck: DeckDetail = {
+  id: 'deck-1',
+  title: 'Sales Basics',
+  titleAr: 'أساسيات المبيعات',
+  description: null,
+  descriptionAr: null,
+  courseId: null,
+  category: 'sales',
+  isPublished: true,
+  generationType: 'manual',
+  cardCount: 2,
+  cards: [
+    { id: 'c2', front: 'ROI', frontAr: null, back: 'Return on investment', backAr: 'العائد', hint: null, hintAr: null, orderInDeck: 1 },
+    { id: 'c1', front: 'Lead', frontAr: 'عميل محتمل', back: 'A possible buyer, "warm"', backAr: null, hint: 'prospect', hintAr: null, orderInDeck: 0 },
+  ],
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('parseDelimited', () => {
+  it('detects the delimiter from the first data line', () => {
+    expect(detectDelimiter('front\tback\nA\tB')).toBe('\t');
+    expect(detectDelimiter('front;back')).toBe(';');
+    expect(detectDelimiter('single column')).toBe(',');
+  });
+
+  it('handles quoted fields with delimiters, newlines and doubled quotes', () => {
+    const file = parseDelimited('front,back\r\n"Lead, warm","Line one\nline ""two"""\n');
+    expect(file.rows).toEqual([
+      ['front', 'back'],
+      ['Lead, warm', 'Line one\nline "two"'],
+    ]);
+  });
+
+  it('reads Anki header directives', () => {
+    const file = parseDelimited('#separator:tab\n#columns:Front\tBack\nA\tB');
+    expect(file.delimiter).toBe('\t');
+    expect(file.columns).toEqual(['Front', 'Back']);
+    expect(file.headerLines).toBe(2);
+  });
+
+  it('rejects an empty file', () => {
+    expect(() => parseDelimited('\uFEFF  \n')).toThrow(DeckImportError);
+  });
+});
+
+describe('column mapping', () => {
+  it('maps known header names, and returns null when none match', () => {
+    expect(guessColumnMapping(['Question', 'Answer', 'Back (AR)'])).toEqual({
+      front: 0,
+      frontAr: null,
+      back: 1,
+      backAr: 2,
+      hint: null,
+      hintAr: null,
+    });
+    expect(guessColumnMapping(['foo', 'bar'])).toBeNull();
+  });
+
+  it('maps header-less files by position', () => {
+    expect(positionalMapping(3)).toEqual({ front: 0, back: 1, frontAr: 2, backAr: null, hint: null, hintAr: null });
+  });
+});
+
+describe('rowsToCards', () => {
+  it('flags missing fields and duplicate fronts with their source rows', () => {
+    const file = parseDelimited('front,back\nLead,Buyer\n,No front\n\nlead!,Again');
+    const rows = rowsToCards(file, positionalMapping(2), true);
+
+    expect(rows.map(({ row, errors, warnings }) => ({ row, errors, warnings }))).toEqual([
+      { row: 2, errors: [], warnings: [] },
+      { row: 3, errors: ['missing_front'], warnings: [] },
+      { row: 5, errors: [], warnings: ['duplicate_front'] },
+    ]);
+    expect(importableCards(rows).map((card) => [card.front, card.orderInDeck])).toEqual([
+      ['Lead', 0],
+      ['lead!', 1],
+    ]);
+  });
+});
+
+describe('JSON round-trip', () => {
+  it('re-imports an export in deck order without server-owned fields', () => {
+    const { deck: metadata, rows } = parseDeckJSON(JSON.stringify(serializeDeck(deck)));
+
+    expect(metadata).toEqual({
+      title: 'Sales Basics',
+      titleAr: 'أساسيات المبيعات',
+      description: null,
+      descriptionAr: null,
+      category: 'sales',
+    });
+    expect(rows.map((row) => row.card.front)).toEqual(['Lead', 'ROI']);
+    expect(rows[0].card).not.toHaveProperty('id');
+  });
+
+  it('rejects invalid JSON and unknown formats', () => {
+    const reasonFor = (text: string) => {
+      try {
+        parseDeckJSON(text);
+      } catch (error) {
+        return (error as DeckImportError).reason;
+      }
+      return null;
+    };
+    expect(reasonFor('{')).toBe('invalid_json');
+    expect(reasonFor(JSON.stringify({ format: 'other', deck }))).toBe('unsupported_format');
+    expect(reasonFor(JSON.stringify({ format: 'inlearn-deck', version: 99, deck }))).toBe('unsupported_format');
+    expect(reasonFor(JSON.stringify({ title: 'No cards' }))).toBe('unsupported_format');
+  });
+});
+
+describe('deckToAnkiText', () => {
+  it('writes a tab-separated file with a columns header, escaping quotes', () => {
+    const lines = deckToAnkiText(deck).split('\n');
+    expect(lines[0]).toBe('#separator:tab');
+    expect(lines[3]).toBe('#columns:Front\tBack\tFront (AR)\tBack (AR)\tHint\tHint (AR)');
+    expect(lines[4]).toBe('Lead\t"A possible buyer, ""warm"""\tعميل محتمل\t\tprospect\t');
+    expect(lines[5]).toBe('ROI\tReturn on investment\t\tالعائد\t\t');
+  });
+
+  it('imports back through the delimited path', () => {
+    const file = parseDelimited(deckToAnkiText(deck));
+    const mapping = guessColumnMapping(file.columns ?? []);
+    const rows = rowsToCards(file, mapping!, false);
+    expect(rows.map((row) => row.card.back)).toEqual(['A possible buyer, "warm"', 'Return on investment']);
+  });
+});
@@ -0,0 +1,45 @@
+import { MIN_EASE_FACTOR, calculateReview, getMasteryLevel } from '../sm2';
+
+const reviewedAt = new Date('2026-01-01T00:00:00.000Z');
+
+function proficiency(easeFactor: number, interval: number, repetitions: number) {
+  return { easeFactor, interval, repetitions, quality: 4, lastReviewedAt: null };
+}
+
+describe('calculateReview', () => {
+  it('starts a new card at one day with the default ease factor', () => {
+    expect(calculateReview('card-1', null, 5, reviewedAt)).toEqual({
+      cardId: 'card-1',
+      newEaseFactor: 2.6,
+      newInterval: 1,
+      newRepetitions: 1,
+      nextReviewDate: '2026-01-02T00:00:00.000Z',
+      masteryLevel: 'reviewing',
+    });
+  });
+
+  it('uses 6 days for the second review, then multiplies by the ease factor', () => {
+    expect(calculateReview('c', proficiency(2.5, 1, 1), 4, reviewedAt).newInterval).toBe(6);
+    expect(calculateReview('c', proficiency(2.5, 6, 2), 4, reviewedAt).newInterval).toBe(15);
+  });
+
+  it('restarts the card on a failed recall and lowers the ease factor', () => {
+    const result = calculateReview('c', proficiency(2.5, 15, 3), 2, reviewedAt);
+    expect(result.newInterval).toBe(1);
+    expect(result.newRepetitions).toBe(0);
+    expect(result.newEaseFactor).toBe(2.18);
+    expect(result.masteryLevel).toBe('learning');
+  });
+
+  it('never drops the ease factor below the minimum', () => {
+    expect(calculateReview('c', proficiency(MIN_EASE_FACTOR, 1, 0), 0, reviewedAt).newEaseFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+describe('getMasteryLevel', () => {
+  it('grades by repetitions and interval', () => {
+    expect(getMasteryLevel(30, 0)).toBe('learning');
+    expect(getMasteryLevel(20, 4)).toBe('reviewing');
+    expect(getMasteryLevel(21, 4)).toBe('mastered');
+  });
+});
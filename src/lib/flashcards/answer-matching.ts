@@ -0,0 +1,84 @@
+/**
+ * Fuzzy matching of typed flashcard answers
+ *
+ * Answers are compared after normalisation, so small spelling differences and
+ * the usual Arabic writing variants don't count as mistakes:
+ * - tashkeel (diacritics) and tatweel are removed
+ * - alif forms (أ إ آ ٱ) fold to ا, ى to ي, ة to ه
+ * - hamza carriers (ؤ ئ) fold to their base letter, standalone ء is dropped
+ * - case, punctuation and extra whitespace are ignored
+ */
+
+export type AnswerVerdict = 'correct' | 'close' | 'incorrect';
+
+export interface AnswerMatch {
+  verdict: AnswerVerdict;
+  /** Similarity to the closest accepted answer, 0-1 */
+  similarity: number;
+  /** Suggested SM-2 quality for the attempt */
+  suggestedQuality: number;
+}
+
+const CORRECT_THRESHOLD = 0.9;
+const CLOSE_THRESHOLD = 0.75;
+
+// Arabic diacritics (tashkeel), superscript alif and tatweel
+const ARABIC_MARKS = /[\u064B-\u065F\u0670\u0640]/g;
+
+// ASCII, general and Arabic punctuation (، ؛ ؟ ٪ ۔)
+const PUNCTUATION = /[!-\/:-@[-`{-~\u2010-\u205E\u060C\u061B\u061F\u066A-\u066D\u06D4]/g;
+
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(ARABIC_MARKS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ء/g, '')
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function answerSimilarity(input: string, expected: string): number {
+  const a = normalizeAnswer(input);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/** Compare a typed answer against every accepted answer (e.g. `back` and `backAr`) */
+export function matchAnswer(input: string, acceptedAnswers: Array<string | null | undefined>): AnswerMatch {
+  const similarity = acceptedAnswers
+    .filter((answer): answer is string => !!answer)
+    .reduce((best, answer) => Math.max(best, answerSimilarity(input, answer)), 0);
+
+  if (similarity >= CORRECT_THRESHOLD) {
+    return { verdict: 'correct', similarity, suggestedQuality: similarity === 1 ? 5 : 4 };
+  }
+  if (similarity >= CLOSE_THRESHOLD) {
+    return { verdict: 'close', similarity, suggestedQuality: 3 };
+  }
+  return { verdict: 'incorrect', similarity, suggestedQuality: similarity > 0.4 ? 2 : 1 };
+}
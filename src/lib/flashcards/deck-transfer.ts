@@ -0,0 +1,396 @@
+/**
+ * Deck import / export
+ *
+ * - CSV / TSV import with a column mapping onto the card fields. Anki's
+ *   "Notes in Plain Text" files are TSV with `#key:value` header lines, so
+ *   they import through the same path.
+ * - Anki-compatible plain-text export (tab separated, `#columns` header).
+ * - JSON round-trip of a full `DeckDetail`.
+ *
+ * Everything here is pure; downloading and reading files is left to the UI.
+ */
+
+import { normalizeAnswer } from './answer-matching';
+import type { CreateCardInput, CreateDeckInput, DeckDetail } from '@/types/flashcard';
+
+export const CARD_FIELDS = ['front', 'frontAr', 'back', 'backAr', 'hint', 'hintAr'] as const;
+export type CardField = (typeof CARD_FIELDS)[number];
+
+/** Source column index for each card field, null when the field isn't imported */
+export type ColumnMapping = Record<CardField, number | null>;
+
+export type Delimiter = ',' | '\t' | ';';
+
+export type ImportIssueCode = 'missing_front' | 'missing_back' | 'duplicate_front';
+
+export interface ImportRow {
+  /** 1-based row (CSV, multi-line cells count once) or card position (JSON) in the source file */
+  row: number;
+  card: CreateCardInput;
+  /** Rows with errors are left out of the import */
+  errors: ImportIssueCode[];
+  warnings: ImportIssueCode[];
+}
+
+export type DeckMetadata = Omit<CreateDeckInput, 'cards'>;
+
+export type DeckImportErrorReason = 'empty_file' | 'invalid_json' | 'unsupported_format';
+
+export class DeckImportError extends Error {
+  constructor(public reason: DeckImportErrorReason, message: string) {
+    super(message);
+    this.name = 'DeckImportError';
+  }
+}
+
+export const DECK_EXPORT_FORMAT = 'inlearn-deck';
+export const DECK_EXPORT_VERSION = 1;
+
+export interface DeckExport {
+  format: typeof DECK_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  deck: DeckDetail;
+}
+
+// ─── Delimited text ───────────────────────────────────────
+
+export interface DelimitedFile {
+  delimiter: Delimiter;
+  rows: string[][];
+  /** Column names from an Anki `#columns:` header, if present */
+  columns: string[] | null;
+  /** Lines consumed by `#` header directives, used to report source line numbers */
+  headerLines: number;
+}
+
+const ANKI_SEPARATORS: Record<string, Delimiter> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+};
+
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() && !line.startsWith('#')) ?? '';
+  const counts: [Delimiter, number][] = [
+    ['\t', firstLine.split('\t').length - 1],
+    [',', firstLine.split(',').length - 1],
+    [';', firstLine.split(';').length - 1],
+  ];
+  const [best] = counts.sort((a, b) => b[1] - a[1]);
+  return best[1] > 0 ? best[0] : ',';
+}
+
+/** RFC 4180 parsing: quoted fields may contain delimiters, newlines and doubled quotes */
+function splitRows(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function parseDelimited(text: string, delimiter?: Delimiter): DelimitedFile {
+  const content = text.replace(/^\uFEFF/, '');
+  if (!content.trim()) {
+    throw new DeckImportError('empty_file', 'The file is empty');
+  }
+
+  // Anki header directives, e.g. "#separator:tab" or "#columns:Front\tBack"
+  const lines = content.split(/\r?\n/);
+  let headerLines = 0;
+  let directiveDelimiter: Delimiter | undefined;
+  let columnsLine: string | null = null;
+  while (headerLines < lines.length && lines[headerLines].startsWith('#')) {
+    const [key, ...rest] = lines[headerLines].slice(1).split(':');
+    const value = rest.join(':');
+    if (key === 'separator') directiveDelimiter = ANKI_SEPARATORS[value.trim().toLowerCase()];
+    if (key === 'columns') columnsLine = value;
+    headerLines++;
+  }
+
+  const body = lines.slice(headerLines).join('\n');
+  const resolved = delimiter ?? directiveDelimiter ?? detectDelimiter(body);
+
+  return {
+    delimiter: resolved,
+    rows: splitRows(body, resolved),
+    columns: columnsLine !== null ? columnsLine.split(resolved).map((c) => c.trim()) : null,
+    headerLines,
+  };
+}
+
+function escapeField(value: string, delimiter: Delimiter): string {
+  if (value.includes(delimiter) || value.includes('\n') || value.includes('\r') || value.includes('"')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// ─── Column mapping ───────────────────────────────────────
+
+const HEADER_ALIASES: Record<CardField, string[]> = {
+  front: ['front', 'fronten', 'question', 'term', 'prompt', 'q', 'السؤال', 'المصطلح'],
+  frontAr: ['frontar', 'frontarabic', 'questionar', 'termar', 'arabicfront', 'السؤالعربي', 'المصطلحعربي'],
+  back: ['back', 'backen', 'answer', 'definition', 'a', 'الإجابة', 'التعريف'],
+  backAr: ['backar', 'backarabic', 'answerar', 'definitionar', 'arabicback', 'الإجابةعربي', 'التعريفعربي'],
+  hint: ['hint', 'hinten', 'تلميح'],
+  hintAr: ['hintar', 'hintarabic', 'تلميحعربي'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-().[\]]/g, '');
+}
+
+export function emptyMapping(): ColumnMapping {
+  return { front: null, frontAr: null, back: null, backAr: null, hint: null, hintAr: null };
+}
+
+/**
+ * Map columns by header name. Returns null when no header matches, in which
+ * case the file probably has no header row.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping | null {
+  const mapping = emptyMapping();
+  const normalized = headers.map(normalizeHeader);
+  let matched = false;
+
+  for (const field of CARD_FIELDS) {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      matched = true;
+    }
+  }
+  return matched ? mapping : null;
+}
+
+/** Mapping for a header-less file: front, back, then the optional fields in order */
+export function positionalMapping(columnCount: number): ColumnMapping {
+  const order: CardField[] = ['front', 'back', 'frontAr', 'backAr', 'hint', 'hintAr'];
+  const mapping = emptyMapping();
+  order.forEach((field, index) => {
+    if (index < columnCount) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// ─── Validation ───────────────────────────────────────────
+
+function optional(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/** Attach errors and warnings to each card; duplicates are matched on the normalised front */
+export function validateCards(cards: { row: number; card: CreateCardInput }[]): ImportRow[] {
+  const seenFronts = new Set<string>();
+
+  return cards.map(({ row, card }) => {
+    const errors: ImportIssueCode[] = [];
+    const warnings: ImportIssueCode[] = [];
+
+    if (!card.front.trim()) errors.push('missing_front');
+    if (!card.back.trim()) errors.push('missing_back');
+
+    const key = normalizeAnswer(card.front);
+    if (key) {
+      if (seenFronts.has(key)) warnings.push('duplicate_front');
+      seenFronts.add(key);
+    }
+
+    return { row, card, errors, warnings };
+  });
+}
+
+export function rowsToCards(file: DelimitedFile, mapping: ColumnMapping, hasHeader: boolean): ImportRow[] {
+  const firstDataRow = hasHeader ? 1 : 0;
+  const cell = (values: string[], field: CardField) => {
+    const index = mapping[field];
+    return index === null ? '' : (values[index] ?? '').trim();
+  };
+
+  const cards = file.rows
+    .map((values, index) => ({ values, row: file.headerLines + index + 1 }))
+    .slice(firstDataRow)
+    // Blank lines are not worth reporting
+    .filter(({ values }) => values.some((value) => value.trim()))
+    .map(({ values, row }, index) => ({
+      row,
+      card: {
+        front: cell(values, 'front'),
+        frontAr: optional(cell(values, 'frontAr')),
+        back: cell(values, 'back'),
+        backAr: optional(cell(values, 'backAr')),
+        hint: optional(cell(values, 'hint')),
+        hintAr: optional(cell(values, 'hintAr')),
+        orderInDeck: index,
+      },
+    }));
+
+  return validateCards(cards);
+}
+
+/** Cards that passed validation, renumbered for `createDeck` */
+export function importableCards(rows: ImportRow[]): CreateCardInput[] {
+  return rows
+    .filter((row) => row.errors.length === 0)
+    .map((row, index) => ({ ...row.card, orderInDeck: index }));
+}
+
+// ─── JSON ─────────────────────────────────────────────────
+
+export function serializeDeck(deck: DeckDetail): DeckExport {
+  return {
+    format: DECK_EXPORT_FORMAT,
+    version: DECK_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    deck,
+  };
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Accepts our own export, a bare `DeckDetail` or a `CreateDeckInput`.
+ * Server-owned fields (ids, publish state, timestamps) are dropped.
+ */
+export function parseDeckJSON(text: string): { deck: DeckMetadata; rows: ImportRow[] } {
+  if (!text.trim()) {
+    throw new DeckImportError('empty_file', 'The file is empty');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new DeckImportError('invalid_json', 'The file is not valid JSON');
+  }
+
+  const root = parsed as Record<string, unknown> | null;
+  if (root && root.format !== undefined && root.format !== DECK_EXPORT_FORMAT) {
+    throw new DeckImportError('unsupported_format', `Unsupported deck format "${String(root.format)}"`);
+  }
+  if (root && typeof root.version === 'number' && root.version > DECK_EXPORT_VERSION) {
+    throw new DeckImportError('unsupported_format', `Deck export version ${root.version} is newer than this app supports`);
+  }
+
+  const source = (root?.format === DECK_EXPORT_FORMAT ? root.deck : root) as Record<string, unknown> | null;
+  if (!source || typeof source !== 'object' || !Array.isArray(source.cards)) {
+    throw new DeckImportError('unsupported_format', 'The file does not contain a deck with cards');
+  }
+
+  const sourceCards = (source.cards as Record<string, unknown>[])
+    .filter((card) => card && typeof card === 'object')
+    .map((card, index) => ({ card, index }))
+    .sort((a, b) => {
+      const orderA = typeof a.card.orderInDeck === 'number' ? a.card.orderInDeck : a.index;
+      const orderB = typeof b.card.orderInDeck === 'number' ? b.card.orderInDeck : b.index;
+      return orderA - orderB;
+    });
+
+  const rows = validateCards(
+    sourceCards.map(({ card, index }, order) => ({
+      row: index + 1,
+      card: {
+        front: asString(card.front).trim(),
+        frontAr: optional(asString(card.frontAr)),
+        back: asString(card.back).trim(),
+        backAr: optional(asString(card.backAr)),
+        hint: optional(asString(card.hint)),
+        hintAr: optional(asString(card.hintAr)),
+        orderInDeck: order,
+      },
+    }))
+  );
+
+  return {
+    deck: {
+      title: asString(source.title).trim(),
+      titleAr: optional(asString(source.titleAr)),
+      description: optional(asString(source.description)),
+      descriptionAr: optional(asString(source.descriptionAr)),
+      category: optional(asString(source.category)),
+    },
+    rows,
+  };
+}
+
+// ─── Export ───────────────────────────────────────────────
+
+const ANKI_COLUMNS = ['Front', 'Back', 'Front (AR)', 'Back (AR)', 'Hint', 'Hint (AR)'];
+
+/**
+ * Anki "Notes in Plain Text" file. The `#columns` header lets Anki's import
+ * dialog map the extra columns onto any note type; the first two fit "Basic".
+ */
+export function deckToAnkiText(deck: DeckDetail): string {
+  const header = [
+    '#separator:tab',
+    '#html:false',
+    `#deck:${deck.title.replace(/[\r\n]+/g, ' ')}`,
+    `#columns:${ANKI_COLUMNS.join('\t')}`,
+  ];
+  const lines = [...deck.cards]
+    .sort((a, b) => a.orderInDeck - b.orderInDeck)
+    .map((card) =>
+      [card.front, card.back, card.frontAr, card.backAr, card.hint, card.hintAr]
+        .map((value) => escapeField(value ?? '', '\t'))
+        .join('\t')
+    );
+  return [...header, ...lines].join('\n');
+}
+
+/** One object per card, for `downloadCSV`; the headers import back without remapping */
+export function deckToCSVRows(deck: DeckDetail): Record<string, unknown>[] {
+  return [...deck.cards]
+    .sort((a, b) => a.orderInDeck - b.orderInDeck)
+    .map((card) => ({
+      front: card.front,
+      frontAr: card.frontAr ?? '',
+      back: card.back,
+      backAr: card.backAr ?? '',
+      hint: card.hint ?? '',
+      hintAr: card.hintAr ?? '',
+    }));
+}
+
+export function deckFileName(deck: Pick<DeckDetail, 'title'>, extension: string): string {
+  const slug = deck.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'deck'}.${extension}`;
+}
@@ -0,0 +1,49 @@
+/**
+ * Multiple-choice options for a flashcard, using the answers of sibling
+ * cards from the same deck as distractors.
+ */
+
+import { normalizeAnswer } from './answer-matching';
+
+export interface ChoiceSource {
+  id: string;
+  answer: string;
+}
+
+export interface Choice {
+  cardId: string;
+  text: string;
+  isCorrect: boolean;
+}
+
+export const DEFAULT_CHOICE_COUNT = 4;
+
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Pick up to `count - 1` distractors whose answers differ from the correct one
+ * (and from each other) after normalisation, then shuffle them with the answer.
+ */
+export function buildChoices(card: ChoiceSource, siblings: ChoiceSource[], count = DEFAULT_CHOICE_COUNT): Choice[] {
+  const seen = new Set([normalizeAnswer(card.answer)]);
+  const distractors: Choice[] = [];
+
+  for (const sibling of shuffle(siblings)) {
+    if (distractors.length >= count - 1) break;
+    if (sibling.id === card.id) continue;
+
+    const key = normalizeAnswer(sibling.answer);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    distractors.push({ cardId: sibling.id, text: sibling.answer, isCorrect: false });
+  }
+
+  return shuffle([{ cardId: card.id, text: card.answer, isCorrect: true }, ...distractors]);
+}
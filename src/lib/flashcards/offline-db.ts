@@ -0,0 +1,139 @@
+/**
+ * Flashcard offline storage (IndexedDB)
+ *
+ * Two object stores:
+ * - `studyCards`: last due-card list fetched per deck, so a session can start offline
+ * - `reviewQueue`: ratings not yet sent to the server, in the order they were made
+ *   (auto-increment key = replay order)
+ *
+ * Both belong to the signed-in user and are cleared on logout.
+ */
+
+import type { StudyCard } from '@/types/flashcard';
+
+const DB_NAME = 'inlearn-flashcards';
+const DB_VERSION = 1;
+const STUDY_CARDS_STORE = 'studyCards';
+const REVIEW_QUEUE_STORE = 'reviewQueue';
+
+export interface CachedStudyCards {
+  deckId: string;
+  cards: StudyCard[];
+  totalDue: number;
+  cachedAt: string;
+}
+
+export interface QueuedReview {
+  /** Assigned by IndexedDB; defines replay order */
+  id?: number;
+  /** Client-generated idempotency key sent with the rating; missing on reviews queued by older versions */
+  reviewId?: string;
+  /** Who rated the card; only their session replays it. Missing on reviews queued by older versions */
+  userId?: string;
+  deckId: string;
+  cardId: string;
+  quality: number;
+  /** When the trainee rated the card (ISO) */
+  reviewedAt: string;
+  /** `proficiency.lastReviewedAt` of the card the rating was based on - used to detect conflicts */
+  baseLastReviewedAt: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!isOfflineStorageAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STUDY_CARDS_STORE)) {
+          db.createObjectStore(STUDY_CARDS_STORE, { keyPath: 'deckId' });
+        }
+        if (!db.objectStoreNames.contains(REVIEW_QUEUE_STORE)) {
+          const queue = db.createObjectStore(REVIEW_QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+          queue.createIndex('deckId', 'deckId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Allow a later call to try again (e.g. after the user frees storage)
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/** Run a single request in its own transaction and resolve with its result */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ─── Study cards ──────────────────────────────────────────
+
+export function cacheStudyCards(deckId: string, cards: StudyCard[], totalDue: number): Promise<void> {
+  const entry: CachedStudyCards = { deckId, cards, totalDue, cachedAt: new Date().toISOString() };
+  return run<void>(STUDY_CARDS_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+export function getCachedStudyCards(deckId: string): Promise<CachedStudyCards | undefined> {
+  return run<CachedStudyCards | undefined>(STUDY_CARDS_STORE, 'readonly', (store) => store.get(deckId));
+}
+
+/** Drop a reviewed card from the cached due list so an offline restart doesn't show it again */
+export async function removeCachedStudyCard(deckId: string, cardId: string): Promise<void> {
+  const cached = await getCachedStudyCards(deckId);
+  if (!cached) return;
+  const cards = cached.cards.filter((c) => c.id !== cardId);
+  await run<void>(STUDY_CARDS_STORE, 'readwrite', (store) =>
+    store.put({ ...cached, cards, totalDue: Math.max(0, cached.totalDue - 1) })
+  );
+}
+
+// ─── Review queue ─────────────────────────────────────────
+
+export function enqueueReview(review: Omit<QueuedReview, 'id'>): Promise<number> {
+  return run<number>(REVIEW_QUEUE_STORE, 'readwrite', (store) => store.add(review));
+}
+
+/** All queued reviews, oldest first */
+export function getQueuedReviews(): Promise<QueuedReview[]> {
+  return run<QueuedReview[]>(REVIEW_QUEUE_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function countQueuedReviews(userId: string): Promise<number> {
+  const queue = await getQueuedReviews();
+  return queue.filter((review) => review.userId === userId).length;
+}
+
+export function removeQueuedReview(id: number): Promise<void> {
+  return run<void>(REVIEW_QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** Drop the cached due lists and queued ratings, e.g. when the user signs out */
+export async function clearOfflineFlashcards(): Promise<void> {
+  await run<void>(REVIEW_QUEUE_STORE, 'readwrite', (store) => store.clear());
+  await run<void>(STUDY_CARDS_STORE, 'readwrite', (store) => store.clear());
+}
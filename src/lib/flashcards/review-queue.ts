@@ -0,0 +1,223 @@
+/**
+ * Offline-first flashcard reviews
+ *
+ * Every rating is written to the local queue first and synced afterwards, so a
+ * study session behaves the same on a flaky connection as on a good one:
+ * - `loadStudyCards` falls back to the cached due list when the network is down
+ * - `recordReview` queues the rating and returns the local SM-2 result immediately
+ * - `syncQueuedReviews` replays the queue in order once the connection is back
+ *
+ * Conflict policy (the server's proficiency moved on since the card was cached):
+ * - The card was reviewed elsewhere AFTER our rating → our rating is discarded
+ * - The card was reviewed elsewhere BEFORE our rating → our rating is replayed on top
+ * - The card is no longer due and we saw the full due list → it was reviewed
+ *   elsewhere and rescheduled, our rating is discarded
+ * Ratings the server rejects outright (e.g. the card was deleted) are discarded too.
+ * Ratings are replayed only in the session of the user who made them.
+ *
+ * Each rating carries a client-generated `reviewId`, so a replay of a request
+ * the server already processed (e.g. it timed out on the way back) isn't
+ * recorded twice.
+ */
+
+import { flashcardApi } from '@/lib/api/flashcard.api';
+import { ApiError, NetworkError, TimeoutError } from '@/lib/api/client';
+import type { ReviewResult, StudyCard } from '@/types/flashcard';
+import { calculateReview } from './sm2';
+import {
+  cacheStudyCards,
+  getCachedStudyCards,
+  removeCachedStudyCard,
+  enqueueReview,
+  getQueuedReviews,
+  removeQueuedReview,
+  countQueuedReviews,
+  type QueuedReview,
+} from './offline-db';
+
+export interface StudyCardsResult {
+  cards: StudyCard[];
+  totalDue: number;
+  /** Set when the server couldn't be reached and the cached due list was used */
+  cachedAt: string | null;
+}
+
+export interface RecordedReview {
+  result: ReviewResult;
+  /** False when local storage is unavailable and the rating was sent directly */
+  queued: boolean;
+}
+
+export interface ReviewSyncResult {
+  synced: number;
+  discarded: number;
+  remaining: number;
+}
+
+// randomUUID is only available in secure contexts, e.g. not on a plain-http LAN host
+function createReviewId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function isConnectionError(err: unknown): boolean {
+  return err instanceof NetworkError || err instanceof TimeoutError ||
+    (err instanceof ApiError && err.status >= 500);
+}
+
+// ─── Queue change notifications ───────────────────────────
+
+const listeners = new Set<() => void>();
+
+export function subscribeToReviewQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyQueueChanged(): void {
+  listeners.forEach((listener) => listener());
+}
+
+export function getPendingReviewCount(userId: string): Promise<number> {
+  return countQueuedReviews(userId).catch(() => 0);
+}
+
+// ─── Study cards ──────────────────────────────────────────
+
+export async function loadStudyCards(userId: string, deckId: string): Promise<StudyCardsResult> {
+  // Send pending ratings first so the due list already reflects them
+  await syncQueuedReviews(userId).catch(() => undefined);
+
+  try {
+    const data = await flashcardApi.getStudyCards(deckId);
+    cacheStudyCards(deckId, data.cards, data.totalDue).catch(() => undefined);
+    return { ...data, cachedAt: null };
+  } catch (err) {
+    if (!isConnectionError(err)) throw err;
+
+    const cached = await getCachedStudyCards(deckId).catch(() => undefined);
+    if (!cached) throw err;
+    return { cards: cached.cards, totalDue: cached.totalDue, cachedAt: cached.cachedAt };
+  }
+}
+
+// ─── Recording ────────────────────────────────────────────
+
+export async function recordReview(
+  userId: string,
+  deckId: string,
+  card: StudyCard,
+  quality: number
+): Promise<RecordedReview> {
+  const reviewedAt = new Date();
+  const reviewId = createReviewId();
+  const result = calculateReview(card.id, card.proficiency, quality, reviewedAt);
+
+  try {
+    await enqueueReview({
+      reviewId,
+      userId,
+      deckId,
+      cardId: card.id,
+      quality,
+      reviewedAt: reviewedAt.toISOString(),
+      baseLastReviewedAt: card.proficiency?.lastReviewedAt ?? null,
+    });
+  } catch {
+    // No IndexedDB (e.g. private browsing) - fall back to sending the rating directly
+    const serverResult = await flashcardApi.submitReview(card.id, quality, reviewedAt.toISOString(), reviewId);
+    return { result: serverResult, queued: false };
+  }
+
+  removeCachedStudyCard(deckId, card.id).catch(() => undefined);
+  notifyQueueChanged();
+  return { result, queued: true };
+}
+
+// ─── Sync ─────────────────────────────────────────────────
+
+interface ServerDeckState {
+  cards: Map<string, StudyCard>;
+  /** True when the server returned every due card, so a missing card really isn't due */
+  complete: boolean;
+}
+
+function isConflicting(review: QueuedReview, server: ServerDeckState): boolean {
+  const serverCard = server.cards.get(review.cardId);
+  if (!serverCard) return server.complete;
+
+  const serverLastReviewedAt = serverCard.proficiency?.lastReviewedAt ?? null;
+  if (serverLastReviewedAt === review.baseLastReviewedAt) return false;
+
+  // Reviewed elsewhere since we cached the card - the more recent review wins
+  return serverLastReviewedAt !== null &&
+    new Date(serverLastReviewedAt).getTime() > new Date(review.reviewedAt).getTime();
+}
+
+async function replayQueue(userId: string): Promise<ReviewSyncResult> {
+  const stored = await getQueuedReviews();
+  // Nobody can be sure whose these are, so they are never sent
+  await Promise.all(
+    stored.filter((review) => !review.userId).map((review) => removeQueuedReview(review.id!))
+  );
+  const queue = stored.filter((review) => review.userId === userId);
+  const summary: ReviewSyncResult = { synced: 0, discarded: 0, remaining: queue.length };
+  if (queue.length === 0) return summary;
+
+  // Current server view of every deck involved, for conflict detection
+  const serverDecks = new Map<string, ServerDeckState>();
+  try {
+    for (const deckId of Array.from(new Set(queue.map((r) => r.deckId)))) {
+      const data = await flashcardApi.getStudyCards(deckId);
+      serverDecks.set(deckId, {
+        cards: new Map(data.cards.map((c) => [c.id, c])),
+        complete: data.cards.length >= data.totalDue,
+      });
+    }
+  } catch (err) {
+    if (isConnectionError(err)) return summary;
+    throw err;
+  }
+
+  // Once one of our ratings for a card is replayed, the later ones build on it
+  const replayedCards = new Set<string>();
+
+  for (const review of queue) {
+    const server = serverDecks.get(review.deckId);
+    if (!replayedCards.has(review.cardId) && server && isConflicting(review, server)) {
+      await removeQueuedReview(review.id!);
+      summary.discarded++;
+      summary.remaining--;
+      continue;
+    }
+
+    try {
+      await flashcardApi.submitReview(review.cardId, review.quality, review.reviewedAt, review.reviewId);
+      replayedCards.add(review.cardId);
+      summary.synced++;
+    } catch (err) {
+      // Keep this and every later rating for the next attempt to preserve order
+      if (isConnectionError(err)) break;
+      console.error('[Flashcards] Discarding rejected review:', err);
+      summary.discarded++;
+    }
+    await removeQueuedReview(review.id!);
+    summary.remaining--;
+  }
+
+  return summary;
+}
+
+let running: { userId: string; promise: Promise<ReviewSyncResult> } | null = null;
+
+/** Replay the user's queued ratings in order. Concurrent callers for the same user share one run. */
+export function syncQueuedReviews(userId: string): Promise<ReviewSyncResult> {
+  if (running?.userId === userId) return running.promise;
+
+  const promise = replayQueue(userId).finally(() => {
+    if (running?.promise === promise) running = null;
+    notifyQueueChanged();
+  });
+  running = { userId, promise };
+  return promise;
+}
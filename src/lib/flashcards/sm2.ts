@@ -0,0 +1,71 @@
+/**
+ * SM-2 spaced repetition - client-side mirror of the server calculation
+ *
+ * Used to show the next review interval immediately after rating a card,
+ * including while offline. The server stays authoritative: it schedules the
+ * card again when the queued review syncs, and later due lists come from there.
+ */
+
+import type { ReviewResult, StudyCard } from '@/types/flashcard';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+// Interval (days) from which a card counts as mastered
+export const MASTERED_INTERVAL_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MasteryLevel = 'learning' | 'reviewing' | 'mastered';
+
+export function getMasteryLevel(interval: number, repetitions: number): MasteryLevel {
+  if (repetitions === 0) return 'learning';
+  return interval >= MASTERED_INTERVAL_DAYS ? 'mastered' : 'reviewing';
+}
+
+/**
+ * Apply one review of `quality` (0-5) to a card's current proficiency.
+ * Cards that were never reviewed start from the default ease factor.
+ */
+export function calculateReview(
+  cardId: string,
+  proficiency: StudyCard['proficiency'],
+  quality: number,
+  reviewedAt: Date = new Date()
+): ReviewResult {
+  const easeFactor = proficiency?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const interval = proficiency?.interval ?? 0;
+  const repetitions = proficiency?.repetitions ?? 0;
+
+  let newInterval: number;
+  let newRepetitions: number;
+
+  if (quality >= 3) {
+    if (repetitions === 0) {
+      newInterval = 1;
+    } else if (repetitions === 1) {
+      newInterval = 6;
+    } else {
+      newInterval = Math.round(interval * easeFactor);
+    }
+    newRepetitions = repetitions + 1;
+  } else {
+    // Failed recall - start the card over
+    newInterval = 1;
+    newRepetitions = 0;
+  }
+
+  const newEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    cardId,
+    newEaseFactor: Math.round(newEaseFactor * 100) / 100,
+    newInterval,
+    newRepetitions,
+    nextReviewDate: new Date(reviewedAt.getTime() + newInterval * DAY_MS).toISOString(),
+    masteryLevel: getMasteryLevel(newInterval, newRepetitions),
+  };
+}
+
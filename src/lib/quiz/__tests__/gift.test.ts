@@ -0,0 +1,147 @@
+import { parseGIFT, quizToGIFT } from '../gift';
+import { QuizImportError, hasImportErrors } from '../import-report';
+import type { QuizDetail } from '@/types/quiz';
+
+function parseOne(text: string) {
+  return parseGIFT(text).questions[0];
+}
+
+describe('parseGIFT', () => {
+  it('reads multiple choice questions with a title and the first category', () => {
+    const parsed = parseGIFT([
+      '// Imported from Moodle',
+      '$CATEGORY: $course$/Sales/Closing',
+      '',
+      '::Q1:: Which is a closing technique? {',
+      '  =Assumptive close',
+      '  ~Cold call',
+      '  ~Discovery \\{call\\}',
+      '}',
+    ].join('\n'));
+
+    expect(parsed.title).toBe('Closing');
+    const [item] = parsed.questions;
+    expect(item.title).toBe('Q1');
+    expect(item.question?.questionType).toBe('multiple_choice');
+    expect(item.question?.options.map((o) => [o.optionText, o.isCorrect])).toEqual([
+      ['Assumptive close', true],
+      ['Cold call', false],
+      ['Discovery {call}', false],
+    ]);
+    expect(hasImportErrors(item)).toBe(false);
+  });
+
+  it('reads true/false and numeric answers', () => {
+    const trueFalse = parseOne('Leads must be qualified before a demo. {F}');
+    expect(trueFalse.question?.questionType).toBe('true_false');
+    expect(trueFalse.question?.options.find((o) => o.isCorrect)?.optionText).toBe('False');
+
+    const numeric = parseOne('Working days in a week? {#5:0.5}');
+    expect(numeric.question).toMatchObject({ questionType: 'numeric', numericAnswer: 5, numericTolerance: 0.5 });
+
+    const range = parseOne('Pick a number {#4..6}');
+    expect(range.question).toMatchObject({ numericAnswer: 5, numericTolerance: 1 });
+    expect(range.issues.map((issue) => issue.code)).toContain('numeric_range_converted');
+  });
+
+  it('turns weighted answers into a multi-select question', () => {
+    const item = parseOne('Which are buying signals? {~%50%Asks about price ~%50%Asks about delivery ~%-100%Ends the call}');
+    expect(item.question?.questionType).toBe('multi_select');
+    expect(item.question?.options.map((o) => o.isCorrect)).toEqual([true, true, false]);
+  });
+
+  it('imports "=" only answers as a short answer and reads multilang text', () => {
+    const item = parseOne('{mlang en}Define ROI{mlang}{mlang ar}عرّف العائد{mlang} {=Return on investment =Payback}');
+    expect(item.question).toMatchObject({
+      questionType: 'short_answer',
+      questionText: 'Define ROI',
+      questionTextAr: 'عرّف العائد',
+      referenceAnswer: 'Return on investment',
+    });
+    expect(item.issues.map((issue) => issue.code)).toEqual(['alternative_answers_merged']);
+  });
+
+  it('reports matching and description items as unsupported', () => {
+    expect(parseOne('Match {=Lead -> Prospect =ROI -> Return}').issues[0]).toMatchObject({
+      severity: 'error',
+      code: 'unsupported_question_type',
+      detail: 'matching',
+    });
+    expect(parseOne('Just some text').question).toBeNull();
+  });
+
+  it('flags questions the builder would reject', () => {
+    // An essay has no reference answer for the AI grader
+    const item = parseOne('Describe your sales process. {}');
+    expect(item.issues.map((issue) => issue.code)).toEqual(['invalid_question']);
+    expect(hasImportErrors(item)).toBe(true);
+  });
+
+  it('rejects files without questions', () => {
+    expect(() => parseGIFT('  ')).toThrow(QuizImportError);
+    expect(() => parseGIFT('// only a comment\n$CATEGORY: Sales')).toThrow('No questions found');
+  });
+});
+
+describe('quizToGIFT', () => {
+  const quiz: QuizDetail = {
+    id: 'quiz-1',
+    title: 'Closing',
+    titleAr: null,
+    description: '',
+    descriptionAr: null,
+    courseId: null,
+    difficulty: 'easy',
+    quizType: 'manual',
+    timeLimit: null,
+    passingScore: 70,
+    isPublished: false,
+    shuffleQuestions: false,
+    showCorrectAnswers: true,
+    maxAttempts: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    questions: [
+      {
+        id: 'q1',
+        questionText: 'Best time to close: {after} discovery?',
+        questionTextAr: 'أفضل وقت للإغلاق؟',
+        questionType: 'multiple_choice',
+        explanation: 'Needs come first',
+        explanationAr: null,
+        points: 1,
+        orderInQuiz: 0,
+        options: [
+          { id: 'o1', optionText: 'After discovery', optionTextAr: null, isCorrect: true, orderInQuestion: 0 },
+          { id: 'o2', optionText: 'Right away', optionTextAr: null, isCorrect: false, orderInQuestion: 1 },
+        ],
+      },
+      {
+        id: 'q2',
+        questionText: 'Order the steps',
+        questionTextAr: null,
+        questionType: 'ordering',
+        explanation: null,
+        explanationAr: null,
+        points: 1,
+        orderInQuiz: 1,
+        options: [],
+      },
+    ],
+  };
+
+  it('skips questions GIFT cannot express and parses back', () => {
+    const { content, skipped } = quizToGIFT(quiz);
+    expect(skipped).toEqual([2]);
+
+    const parsed = parseGIFT(content);
+    expect(parsed.title).toBe('Closing');
+    expect(parsed.questions).toHaveLength(1);
+    expect(parsed.questions[0].question).toMatchObject({
+      questionType: 'multiple_choice',
+      questionText: 'Best time to close: {after} discovery?',
+      questionTextAr: 'أفضل وقت للإغلاق؟',
+      explanation: 'Needs come first',
+    });
+    expect(parsed.questions[0].question?.options.map((o) => o.isCorrect)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,140 @@
+import { parseQTI, quizToQTI } from '../qti';
+import { QuizImportError, hasImportErrors } from '../import-report';
+import type { QuizDetail } from '@/types/quiz';
+
+const QTI21_CHOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="item1" title="Closing">
+  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">
+    <correctResponse><value>A</value><value>C</value></correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue><value>2</value></defaultValue>
+  </outcomeDeclaration>
+  <itemBody>
+    <p>Which are buying <b>signals</b>?</p>
+    <choiceInteraction responseIdentifier="RESPONSE" maxChoices="0">
+      <simpleChoice identifier="A">Asks about price</simpleChoice>
+      <simpleChoice identifier="B">Ends the call</simpleChoice>
+      <simpleChoice identifier="C">Asks about delivery</simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+</assessmentItem>`;
+
+describe('parseQTI', () => {
+  it('reads a QTI 2.1 choice item', () => {
+    const parsed = parseQTI(QTI21_CHOICE);
+    const [item] = parsed.questions;
+
+    expect(parsed.format).toBe('qti');
+    expect(item.title).toBe('Closing');
+    expect(item.question).toMatchObject({ questionType: 'multi_select', questionText: 'Which are buying signals?', points: 2 });
+    expect(item.question?.options.map((o) => [o.optionText, o.isCorrect])).toEqual([
+      ['Asks about price', true],
+      ['Ends the call', false],
+      ['Asks about delivery', true],
+    ]);
+    expect(item.issues.map((issue) => issue.code)).toEqual(['formatting_removed']);
+  });
+
+  it('reports unsupported interactions', () => {
+    const item = parseQTI(QTI21_CHOICE.replace(/choiceInteraction/g, 'hotspotInteraction')).questions[0];
+    expect(item.question).toBeNull();
+    expect(item.issues[0]).toMatchObject({ code: 'unsupported_question_type', detail: 'hotspotInteraction' });
+  });
+
+  it('rejects empty, malformed and package-only documents', () => {
+    const reasonFor = (text: string) => {
+      try {
+        parseQTI(text);
+      } catch (error) {
+        return (error as QuizImportError).reason;
+      }
+      return null;
+    };
+    expect(reasonFor(' ')).toBe('empty_file');
+    expect(reasonFor('<assessmentItem>')).toBe('invalid_xml');
+    expect(reasonFor('<assessmentTest identifier="t"/>')).toBe('unsupported_format');
+    expect(reasonFor('<questestinterop/>')).toBe('no_questions');
+  });
+});
+
+describe('quizToQTI', () => {
+  const quiz: QuizDetail = {
+    id: 'quiz-1',
+    title: 'Pricing & Closing',
+    titleAr: null,
+    description: '',
+    descriptionAr: null,
+    courseId: null,
+    difficulty: 'medium',
+    quizType: 'manual',
+    timeLimit: null,
+    passingScore: 70,
+    isPublished: false,
+    shuffleQuestions: false,
+    showCorrectAnswers: true,
+    maxAttempts: 2,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    questions: [
+      {
+        id: 'q2',
+        questionText: 'Typical discount ceiling (%)?',
+        questionTextAr: null,
+        questionType: 'numeric',
+        explanation: null,
+        explanationAr: null,
+        points: 1,
+        orderInQuiz: 1,
+        options: [],
+        numericAnswer: 15,
+        numericTolerance: 2.5,
+      },
+      {
+        id: 'q1',
+        questionText: 'Is 5 < 10 a "good" deal?',
+        questionTextAr: 'هل هذه صفقة جيدة؟',
+        questionType: 'true_false',
+        explanation: 'Compare with the list price',
+        explanationAr: 'قارن بسعر القائمة',
+        points: 3,
+        orderInQuiz: 0,
+        options: [
+          { id: 'o1', optionText: 'True', optionTextAr: 'صح', isCorrect: false, orderInQuestion: 0 },
+          { id: 'o2', optionText: 'False', optionTextAr: 'خطأ', isCorrect: true, orderInQuestion: 1 },
+        ],
+      },
+      {
+        id: 'q3',
+        questionText: 'What does ROI stand for?',
+        questionTextAr: null,
+        questionType: 'short_answer',
+        explanation: null,
+        explanationAr: null,
+        points: 1,
+        orderInQuiz: 2,
+        options: [],
+        referenceAnswer: 'Return on investment',
+      },
+    ],
+  };
+
+  it('writes a QTI 1.2 document that parses back to the same questions', () => {
+    const parsed = parseQTI(quizToQTI(quiz));
+
+    expect(parsed.title).toBe('Pricing & Closing');
+    expect(parsed.questions.every((item) => !hasImportErrors(item))).toBe(true);
+    expect(parsed.questions.map((item) => item.question?.questionType)).toEqual(['true_false', 'numeric', 'short_answer']);
+
+    const [trueFalse, numeric, shortAnswer] = parsed.questions.map((item) => item.question!);
+    expect(trueFalse).toMatchObject({
+      questionText: 'Is 5 < 10 a "good" deal?',
+      questionTextAr: 'هل هذه صفقة جيدة؟',
+      explanation: 'Compare with the list price',
+      explanationAr: 'قارن بسعر القائمة',
+      points: 3,
+    });
+    expect(trueFalse.options.find((o) => o.isCorrect)?.optionText).toBe('False');
+    expect(numeric).toMatchObject({ numericAnswer: 15, numericTolerance: 2.5 });
+    expect(shortAnswer.referenceAnswer).toBe('Return on investment');
+  });
+});
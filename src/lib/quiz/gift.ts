@@ -0,0 +1,361 @@
+/**
+ * Moodle GIFT import / export.
+ *
+ * Supported: multiple choice, multiple answers (`~%50%` weights), true/false,
+ * numeric (`#answer:tolerance` and `#min..max`), short answer (`=answer`,
+ * imported as an AI-graded short answer) and essay (`{}`). Matching and
+ * description items are reported as unsupported. GIFT has no ordering type,
+ * so ordering questions are left out of exports.
+ */
+
+import {
+  QuizImportError,
+  finalizeImportedQuestion,
+  importText,
+  joinMultilang,
+  type ImportedQuestion,
+  type ParsedQuizImport,
+  type QuizImportIssue,
+} from './import-report';
+import { emptyOption } from './questions';
+import type { CreateOptionInput, CreateQuestionInput, QuizDetail, QuizOption, QuizQuestion } from '@/types/quiz';
+
+const SPECIAL_CHARS = /[~=#{}:]/g;
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\([~=#{}:n\\])/g, (_match, char: string) => (char === 'n' ? '\n' : char));
+}
+
+function escapeGift(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(SPECIAL_CHARS, (char) => `\\${char}`).replace(/\r?\n/g, '\\n');
+}
+
+/** Index of `token` at or after `from`, skipping backslash-escaped characters */
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+function lastUnescaped(text: string, token: string): number {
+  let found = -1;
+  let idx = findUnescaped(text, token);
+  while (idx !== -1) {
+    found = idx;
+    idx = findUnescaped(text, token, idx + token.length);
+  }
+  return found;
+}
+
+/** Split on unescaped marker characters, keeping the marker at the start of each part */
+function splitOnMarkers(text: string, markers: string): string[] {
+  const parts: string[] = [];
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (markers.includes(text[i])) {
+      if (start !== -1) parts.push(text.slice(start, i));
+      start = i;
+    }
+  }
+  if (start !== -1) parts.push(text.slice(start));
+  return parts;
+}
+
+interface GiftBlock {
+  text: string;
+  category: string | null;
+}
+
+/** Questions are separated by blank lines; `//` comments and `$CATEGORY` lines are not part of them */
+function splitBlocks(text: string): { blocks: GiftBlock[]; firstCategory: string | null } {
+  const blocks: GiftBlock[] = [];
+  let firstCategory: string | null = null;
+  let category: string | null = null;
+  let current: string[] = [];
+
+  const flush = () => {
+    const joined = current.join('\n').trim();
+    if (joined) blocks.push({ text: joined, category });
+    current = [];
+  };
+
+  text.replace(/^﻿/, '').split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) return;
+    if (trimmed.startsWith('$CATEGORY:')) {
+      flush();
+      category = trimmed.slice('$CATEGORY:'.length).trim().split('/').pop() || null;
+      firstCategory = firstCategory ?? category;
+      return;
+    }
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    current.push(line);
+  });
+  flush();
+  return { blocks, firstCategory };
+}
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+  hasFeedback: boolean;
+}
+
+function parseAnswerList(body: string): GiftAnswer[] {
+  return splitOnMarkers(body, '=~').map((part) => {
+    let rest = part.slice(1);
+    let weight: number | null = null;
+    const weightMatch = rest.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weightMatch) {
+      weight = parseFloat(weightMatch[1]);
+      rest = rest.slice(weightMatch[0].length);
+    }
+    const feedbackAt = findUnescaped(rest, '#');
+    return {
+      correct: part[0] === '=',
+      weight,
+      text: (feedbackAt === -1 ? rest : rest.slice(0, feedbackAt)).trim(),
+      hasFeedback: feedbackAt !== -1,
+    };
+  });
+}
+
+/** `5:0.5`, `4..6` or `5` */
+function parseNumericValue(raw: string, issues: QuizImportIssue[]): { answer: number; tolerance: number } | null {
+  const value = raw.trim();
+  const range = value.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+  if (range) {
+    const min = parseFloat(range[1]);
+    const max = parseFloat(range[2]);
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+    issues.push({ severity: 'warning', code: 'numeric_range_converted', detail: value });
+    return { answer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+  const colon = findUnescaped(value, ':');
+  const answer = parseFloat(unescapeGift(colon === -1 ? value : value.slice(0, colon)));
+  const tolerance = colon === -1 ? 0 : parseFloat(value.slice(colon + 1));
+  if (!Number.isFinite(answer) || !Number.isFinite(tolerance)) return null;
+  return { answer, tolerance };
+}
+
+function toOption(answer: GiftAnswer, idx: number, issues: QuizImportIssue[]): CreateOptionInput {
+  const text = importText(unescapeGift(answer.text), issues);
+  return { ...emptyOption(idx), optionText: text.en, optionTextAr: text.ar, isCorrect: answer.correct };
+}
+
+/** Hand-written files often leave multilang tags unescaped; they aren't answer blocks */
+const UNESCAPED_MLANG = /(^|[^\\])\{(mlang(?:\s+[a-z_-]+)?)\}/gi;
+
+function parseBlock(block: string, source: number): ImportedQuestion {
+  const issues: QuizImportIssue[] = [];
+  // Two passes: back-to-back tags like `{mlang}{mlang ar}` overlap in a single one
+  let rest = block.replace(UNESCAPED_MLANG, '$1\\{$2\\}').replace(UNESCAPED_MLANG, '$1\\{$2\\}');
+
+  let title: string | null = null;
+  if (rest.startsWith('::')) {
+    const end = findUnescaped(rest, '::', 2);
+    if (end !== -1) {
+      title = unescapeGift(rest.slice(2, end)).trim() || null;
+      rest = rest.slice(end + 2).trim();
+    }
+  }
+  const formatMatch = rest.match(/^\[(html|moodle|plain|markdown)\]/i);
+  if (formatMatch) rest = rest.slice(formatMatch[0].length).trim();
+
+  const open = findUnescaped(rest, '{');
+  const close = lastUnescaped(rest, '}');
+  if (open === -1 || close < open) {
+    // No answer block: a Moodle "description", which has nothing to answer
+    issues.push({ severity: 'error', code: 'unsupported_question_type', detail: 'description' });
+    return finalizeImportedQuestion(source, title, null, issues);
+  }
+
+  // Text after the answer block makes it a "missing word" question
+  const after = rest.slice(close + 1).trim();
+  const stem = rest.slice(0, open).trim() + (after ? ` _____ ${after}` : '');
+  let body = rest.slice(open + 1, close).trim();
+
+  let explanation = { en: '', ar: '' };
+  const generalFeedback = findUnescaped(body, '####');
+  if (generalFeedback !== -1) {
+    explanation = importText(unescapeGift(body.slice(generalFeedback + 4)), issues);
+    body = body.slice(0, generalFeedback).trim();
+  }
+
+  const text = importText(unescapeGift(stem), issues);
+  const base: CreateQuestionInput = {
+    questionText: text.en,
+    questionTextAr: text.ar,
+    questionType: 'multiple_choice',
+    explanation: explanation.en,
+    explanationAr: explanation.ar,
+    points: 1,
+    orderInQuiz: source - 1,
+    options: [],
+  };
+
+  // Essay
+  if (!body) {
+    return finalizeImportedQuestion(source, title, { ...base, questionType: 'short_answer', referenceAnswer: '', referenceAnswerAr: '' }, issues);
+  }
+
+  // True / false
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\b/i);
+  if (trueFalse) {
+    if (findUnescaped(body, '#') !== -1) issues.push({ severity: 'warning', code: 'answer_feedback_ignored' });
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'true_false',
+      options: [
+        { optionText: 'True', optionTextAr: 'صح', isCorrect: isTrue, orderInQuestion: 0 },
+        { optionText: 'False', optionTextAr: 'خطأ', isCorrect: !isTrue, orderInQuestion: 1 },
+      ],
+    }, issues);
+  }
+
+  // Numeric
+  if (body.startsWith('#')) {
+    const numericBody = body.slice(1).trim();
+    const answers = numericBody.startsWith('=') ? parseAnswerList(numericBody) : [{ correct: true, weight: null, text: numericBody, hasFeedback: false }];
+    const best = answers.find((a) => a.weight === null || a.weight === 100) ?? answers[0];
+    if (answers.length > 1) issues.push({ severity: 'warning', code: 'partial_credit_ignored' });
+    if (answers.some((a) => a.hasFeedback)) issues.push({ severity: 'warning', code: 'answer_feedback_ignored' });
+    const value = best ? parseNumericValue(best.text, issues) : null;
+    if (!value) {
+      issues.push({ severity: 'error', code: 'malformed_question', detail: `{#${numericBody}}` });
+      return finalizeImportedQuestion(source, title, null, issues);
+    }
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'numeric',
+      numericAnswer: value.answer,
+      numericTolerance: value.tolerance,
+      unit: '',
+    }, issues);
+  }
+
+  if (findUnescaped(body, '->') !== -1) {
+    issues.push({ severity: 'error', code: 'unsupported_question_type', detail: 'matching' });
+    return finalizeImportedQuestion(source, title, null, issues);
+  }
+
+  const answers = parseAnswerList(body);
+  if (answers.length === 0) {
+    issues.push({ severity: 'error', code: 'malformed_question', detail: `{${body}}` });
+    return finalizeImportedQuestion(source, title, null, issues);
+  }
+  if (answers.some((a) => a.hasFeedback)) issues.push({ severity: 'warning', code: 'answer_feedback_ignored' });
+
+  // Only "=" answers: short answer, the accepted answers become the AI grader's reference
+  if (answers.every((a) => a.correct)) {
+    if (answers.length > 1) issues.push({ severity: 'warning', code: 'alternative_answers_merged' });
+    const reference = importText(unescapeGift(answers[0].text), issues);
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'short_answer',
+      referenceAnswer: reference.en,
+      referenceAnswerAr: reference.ar,
+    }, issues);
+  }
+
+  // Weighted answers: every positively weighted option counts as correct
+  const weighted = answers.some((a) => a.weight !== null);
+  const correctFlags = answers.map((a) => (weighted ? (a.weight ?? 0) > 0 : a.correct));
+  const correctCount = correctFlags.filter(Boolean).length;
+  if (weighted) {
+    const positive = answers.filter((a) => (a.weight ?? 0) > 0).map((a) => a.weight);
+    const evenSplit = positive.every((w) => Math.abs((w ?? 0) - 100 / positive.length) < 0.01);
+    if (!evenSplit && correctCount > 1) issues.push({ severity: 'warning', code: 'partial_credit_ignored' });
+  }
+
+  const options = answers.map((a, idx) => ({ ...toOption(a, idx, issues), isCorrect: correctFlags[idx] }));
+  return finalizeImportedQuestion(source, title, {
+    ...base,
+    questionType: correctCount > 1 ? 'multi_select' : 'multiple_choice',
+    options,
+  }, issues);
+}
+
+export function parseGIFT(text: string): ParsedQuizImport {
+  if (!text.trim()) throw new QuizImportError('empty_file', 'The file is empty');
+  const { blocks, firstCategory } = splitBlocks(text);
+  if (blocks.length === 0) throw new QuizImportError('no_questions', 'No questions found');
+  return {
+    format: 'gift',
+    title: firstCategory,
+    questions: blocks.map((block, idx) => parseBlock(block.text, idx + 1)),
+  };
+}
+
+// ─── Export ───────────────────────────────────────────────
+
+function giftText(en: string, ar: string | null | undefined): string {
+  return escapeGift(joinMultilang(en, ar));
+}
+
+function optionLabel(option: QuizOption): string {
+  return giftText(option.optionText, option.optionTextAr);
+}
+
+function formatWeight(weight: number): string {
+  return String(Number(weight.toFixed(5)));
+}
+
+function answerBlock(question: QuizQuestion): string | null {
+  const options = [...question.options].sort((a, b) => a.orderInQuestion - b.orderInQuestion);
+  switch (question.questionType) {
+    case 'ordering':
+      return null;
+    case 'true_false': {
+      const correct = options.find((o) => o.isCorrect);
+      const isTrue = correct ? options.indexOf(correct) === 0 : true;
+      return isTrue ? 'TRUE' : 'FALSE';
+    }
+    case 'numeric':
+      return `#${question.numericAnswer ?? 0}:${question.numericTolerance ?? 0}`;
+    case 'short_answer':
+      return `=${giftText(question.referenceAnswer ?? '', question.referenceAnswerAr)}`;
+    case 'multi_select': {
+      const correctCount = options.filter((o) => o.isCorrect).length || 1;
+      return options
+        .map((o) => `\n\t~%${o.isCorrect ? formatWeight(100 / correctCount) : '-100'}%${optionLabel(o)}`)
+        .join('') + '\n';
+    }
+    default:
+      return options.map((o) => `\n\t${o.isCorrect ? '=' : '~'}${optionLabel(o)}`).join('') + '\n';
+  }
+}
+
+/** GIFT text for a quiz; `skipped` lists 1-based question numbers GIFT can't express */
+export function quizToGIFT(quiz: QuizDetail): { content: string; skipped: number[] } {
+  const skipped: number[] = [];
+  const questions = [...quiz.questions].sort((a, b) => a.orderInQuiz - b.orderInQuiz);
+  const blocks = questions.flatMap((question, idx) => {
+    const answers = answerBlock(question);
+    if (answers === null) {
+      skipped.push(idx + 1);
+      return [];
+    }
+    const explanation = question.explanation?.trim()
+      ? `####${giftText(question.explanation, question.explanationAr)}${answers.endsWith('\n') ? '\n' : ''}`
+      : '';
+    return [`::Q${idx + 1}:: ${giftText(question.questionText, question.questionTextAr)} {${answers}${explanation}}`];
+  });
+
+  const header = [`// ${quiz.title}`, `$CATEGORY: ${quiz.title.replace(/\r?\n/g, ' ')}`];
+  return { content: `${header.join('\n')}\n\n${blocks.join('\n\n')}\n`, skipped };
+}
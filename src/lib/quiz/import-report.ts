@@ -0,0 +1,190 @@
+/**
+ * Shared pieces of the GIFT and QTI importers: the validation report, the
+ * bilingual text convention and HTML clean-up.
+ *
+ * Bilingual text uses Moodle's multilang conventions so files round-trip
+ * with Moodle: `{mlang en}...{mlang}{mlang ar}...{mlang}` or
+ * `<span lang="ar" class="multilang">...</span>`. QTI content marked with
+ * `xml:lang="ar"` is read the same way.
+ */
+
+import { questionIssueMessage, validateQuestion } from './questions';
+import type { CreateQuestionInput } from '@/types/quiz';
+
+export type QuizFormat = 'gift' | 'qti';
+
+export type QuizImportIssueCode =
+  | 'unsupported_question_type'
+  | 'malformed_question'
+  | 'invalid_question'
+  | 'partial_credit_ignored'
+  | 'answer_feedback_ignored'
+  | 'alternative_answers_merged'
+  | 'numeric_range_converted'
+  | 'formatting_removed'
+  | 'media_removed';
+
+export interface QuizImportIssue {
+  severity: 'error' | 'warning';
+  code: QuizImportIssueCode;
+  /** The offending construct, or the builder's validation message */
+  detail?: string;
+}
+
+export interface ImportedQuestion {
+  /** 1-based position in the source file */
+  source: number;
+  /** GIFT `::title::` or QTI item title; shown in the preview only */
+  title: string | null;
+  /** null when the construct has no equivalent here */
+  question: CreateQuestionInput | null;
+  issues: QuizImportIssue[];
+}
+
+export interface ParsedQuizImport {
+  format: QuizFormat;
+  /** QTI assessment title or the first GIFT `$CATEGORY`, if any */
+  title: string | null;
+  questions: ImportedQuestion[];
+}
+
+export type QuizImportErrorReason = 'empty_file' | 'invalid_xml' | 'unsupported_format' | 'no_questions';
+
+export class QuizImportError extends Error {
+  constructor(public reason: QuizImportErrorReason, message: string) {
+    super(message);
+    this.name = 'QuizImportError';
+  }
+}
+
+// ─── Report ───────────────────────────────────────────────
+
+export function hasImportErrors(item: ImportedQuestion): boolean {
+  return item.question === null || item.issues.some((issue) => issue.severity === 'error');
+}
+
+/** Adds the builder's own validation so the report flags exactly what Save would reject */
+export function finalizeImportedQuestion(
+  source: number,
+  title: string | null,
+  question: CreateQuestionInput | null,
+  issues: QuizImportIssue[]
+): ImportedQuestion {
+  const unique = issues.filter(
+    (issue, idx) => issues.findIndex((other) => other.code === issue.code && other.detail === issue.detail) === idx
+  );
+  if (question) {
+    const invalid = validateQuestion(question);
+    if (invalid) unique.push({ severity: 'error', code: 'invalid_question', detail: questionIssueMessage(invalid, false) });
+  }
+  return { source, title, question, issues: unique };
+}
+
+/** Questions without errors, numbered in file order */
+export function importableQuestions(items: ImportedQuestion[]): CreateQuestionInput[] {
+  return items
+    .filter((item) => !hasImportErrors(item))
+    .map((item, idx) => ({ ...item.question!, orderInQuiz: idx }));
+}
+
+export function importIssueLabel(code: QuizImportIssueCode, isRTL: boolean): string {
+  const labels: Record<QuizImportIssueCode, [string, string]> = {
+    unsupported_question_type: ['Unsupported question type', 'نوع سؤال غير مدعوم'],
+    malformed_question: ['Could not be parsed', 'تعذر تحليل السؤال'],
+    invalid_question: ['Incomplete question', 'سؤال غير مكتمل'],
+    partial_credit_ignored: ['Custom answer weights ignored', 'تم تجاهل أوزان الإجابات المخصصة'],
+    answer_feedback_ignored: ['Per-answer feedback dropped', 'تم حذف التغذية الراجعة لكل إجابة'],
+    alternative_answers_merged: ['Only the first accepted answer kept', 'تم الاحتفاظ بأول إجابة مقبولة فقط'],
+    numeric_range_converted: ['Range converted to answer ± tolerance', 'تم تحويل النطاق إلى إجابة ± هامش'],
+    formatting_removed: ['Formatting removed', 'تمت إزالة التنسيق'],
+    media_removed: ['Images or media removed', 'تمت إزالة الصور أو الوسائط'],
+  };
+  const [en, ar] = labels[code];
+  return isRTL ? ar : en;
+}
+
+// ─── Text ─────────────────────────────────────────────────
+
+export interface BilingualText {
+  en: string;
+  ar: string;
+}
+
+const MLANG_BLOCK = /\{mlang\s+([a-z_-]+)\}([\s\S]*?)\{mlang\}/gi;
+const LANG_ELEMENT = /<([a-z][a-z0-9]*)\b[^>]*?\blang=["']([a-z_-]+)["'][^>]*>([\s\S]*?)<\/\1>/gi;
+
+/** Split Moodle multilang / `lang`-tagged text; unmarked text is treated as English */
+export function splitMultilang(text: string): BilingualText {
+  const parts: Record<string, string> = {};
+  let found = false;
+  const collect = (lang: string, body: string) => {
+    const key = lang.toLowerCase().startsWith('ar') ? 'ar' : 'en';
+    parts[key] = parts[key] ? `${parts[key]} ${body}` : body;
+    found = true;
+    return '';
+  };
+  const rest = text
+    .replace(MLANG_BLOCK, (_match, lang: string, body: string) => collect(lang, body))
+    .replace(LANG_ELEMENT, (_match, _tag: string, lang: string, body: string) => collect(lang, body));
+  if (!found) return { en: text, ar: '' };
+  // Anything outside the language blocks belongs to both versions
+  const shared = rest.trim();
+  return {
+    en: [shared, parts.en ?? ''].filter(Boolean).join(' '),
+    ar: parts.ar ? [shared, parts.ar].filter(Boolean).join(' ') : '',
+  };
+}
+
+/** Inverse of `splitMultilang`, in Moodle's `{mlang}` form */
+export function joinMultilang(en: string, ar: string | null | undefined): string {
+  if (!ar?.trim()) return en;
+  return `{mlang en}${en}{mlang}{mlang ar}${ar}{mlang}`;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCharCode(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Plain text from HTML-ish content, reporting what had to be dropped */
+export function stripMarkup(text: string): { text: string; hadMarkup: boolean; hadMedia: boolean } {
+  const hadMedia = /<(img|audio|video|object|embed|iframe)\b/i.test(text) || text.includes('@@PLUGINFILE@@');
+  // Paragraph and line breaks survive as newlines; anything else is formatting we lose
+  const hadMarkup = /<(?!\/?(p|br|div|span)\b)\/?[a-z][^>]*>/i.test(text);
+  const plain = decodeEntities(
+    text
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+  return { text: plain, hadMarkup, hadMedia };
+}
+
+/** Bilingual plain text from imported content, adding formatting/media warnings to `issues` */
+export function importText(raw: string, issues: QuizImportIssue[]): BilingualText {
+  const { en, ar } = splitMultilang(raw);
+  const clean = (value: string) => {
+    const stripped = stripMarkup(value);
+    if (stripped.hadMedia) issues.push({ severity: 'warning', code: 'media_removed' });
+    else if (stripped.hadMarkup) issues.push({ severity: 'warning', code: 'formatting_removed' });
+    return stripped.text;
+  };
+  return { en: clean(en), ar: ar ? clean(ar) : '' };
+}
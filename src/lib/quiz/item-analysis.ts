@@ -0,0 +1,84 @@
+/**
+ * Flags and CSV rows for the admin item analysis report. The statistics
+ * themselves are computed on the server from completed attempts.
+ */
+
+import { questionTypeLabel } from './questions';
+import type { QuestionItemStats, QuizItemAnalysis } from '@/types/quiz';
+
+/** Below this many responses the indices are too noisy to flag anything */
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+
+/** Difficulty index at or below which a question counts as one everyone fails */
+const HARD_QUESTION_THRESHOLD = 0.2;
+
+/** Discrimination below this separates strong and weak trainees poorly */
+const LOW_DISCRIMINATION_THRESHOLD = 0.2;
+
+export type ItemFlag = 'everyone_fails' | 'unused_distractor' | 'negative_discrimination' | 'low_discrimination';
+
+export function itemFlags(item: QuestionItemStats): ItemFlag[] {
+  if (item.responseCount < MIN_RESPONSES_FOR_FLAGS) return [];
+  const flags: ItemFlag[] = [];
+
+  if (item.difficultyIndex !== null && item.difficultyIndex <= HARD_QUESTION_THRESHOLD) {
+    flags.push('everyone_fails');
+  }
+  if (item.discriminationIndex !== null) {
+    if (item.discriminationIndex < 0) flags.push('negative_discrimination');
+    else if (item.discriminationIndex < LOW_DISCRIMINATION_THRESHOLD) flags.push('low_discrimination');
+  }
+  // Ordering steps are all "correct", so only real distractors can go unused
+  if (item.options.some((o) => !o.isCorrect && o.timesChosen === 0)) {
+    flags.push('unused_distractor');
+  }
+  return flags;
+}
+
+export function itemFlagLabel(flag: ItemFlag, isRTL: boolean): string {
+  const labels: Record<ItemFlag, [string, string]> = {
+    everyone_fails: ['Almost everyone fails', 'يخطئ فيه الجميع تقريباً'],
+    unused_distractor: ['Distractor nobody picks', 'خيار خاطئ لا يختاره أحد'],
+    negative_discrimination: ['Weaker trainees do better', 'المتدربون الأضعف يجيبون أفضل'],
+    low_discrimination: ['Low discrimination', 'تمييز ضعيف'],
+  };
+  const [en, ar] = labels[flag];
+  return isRTL ? ar : en;
+}
+
+/** Share of responses that picked an option, 0-1 */
+export function optionPickRate(item: QuestionItemStats, timesChosen: number): number {
+  return item.responseCount > 0 ? timesChosen / item.responseCount : 0;
+}
+
+function percent(value: number | null): string {
+  return value === null ? '' : `${Math.round(value * 100)}%`;
+}
+
+/** One row per option (or per question when it has none), for `downloadCSV` */
+export function itemAnalysisToCSVRows(analysis: QuizItemAnalysis): Record<string, unknown>[] {
+  return analysis.questions.flatMap((item): Record<string, unknown>[] => {
+    const base = {
+      question: item.orderInQuiz + 1,
+      questionText: item.questionText,
+      type: questionTypeLabel(item.questionType, false),
+      responses: item.responseCount,
+      correct: item.correctCount,
+      unanswered: item.unansweredCount,
+      difficultyIndex: item.difficultyIndex === null ? '' : item.difficultyIndex.toFixed(2),
+      discriminationIndex: item.discriminationIndex === null ? '' : item.discriminationIndex.toFixed(2),
+      avgTimeSeconds: item.avgTimeSeconds === null ? '' : Math.round(item.avgTimeSeconds),
+      flags: itemFlags(item).map((flag) => itemFlagLabel(flag, false)).join('; '),
+    };
+    if (item.options.length === 0) {
+      return [{ ...base, option: '', optionCorrect: '', timesChosen: '', pickRate: '' }];
+    }
+    return item.options.map((option) => ({
+      ...base,
+      option: option.optionText,
+      optionCorrect: option.isCorrect ? 'yes' : 'no',
+      timesChosen: option.timesChosen,
+      pickRate: percent(optionPickRate(item, option.timesChosen)),
+    }));
+  });
+}
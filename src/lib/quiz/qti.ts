@@ -0,0 +1,534 @@
+/**
+ * IMS QTI import / export.
+ *
+ * Import reads QTI 2.1 item files (one or more `assessmentItem` elements) and
+ * QTI 1.2 `questestinterop` documents as exported by Canvas, Blackboard and
+ * Common Cartridge. Export writes a single QTI 1.2 document, which every
+ * major LMS accepts without needing a content package.
+ */
+
+import {
+  QuizImportError,
+  finalizeImportedQuestion,
+  importText,
+  splitMultilang,
+  type BilingualText,
+  type ImportedQuestion,
+  type ParsedQuizImport,
+  type QuizImportIssue,
+} from './import-report';
+import type { CreateOptionInput, CreateQuestionInput, QuestionType, QuizDetail, QuizQuestion } from '@/types/quiz';
+
+// ─── DOM helpers ──────────────────────────────────────────
+
+/** Elements by local name, ignoring namespaces (QTI files use several) */
+function all(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+function first(parent: Element | Document, name: string): Element | null {
+  return all(parent, name)[0] ?? null;
+}
+
+function children(parent: Element, name?: string): Element[] {
+  return Array.from(parent.children).filter((child) => !name || child.localName === name);
+}
+
+function serializeChildren(element: Element): string {
+  const serializer = new XMLSerializer();
+  return Array.from(element.childNodes).map((node) => serializer.serializeToString(node)).join('');
+}
+
+/** Content of a QTI 1.2 `mattext`, which holds either plain text or escaped HTML */
+function matText(element: Element | null): string {
+  if (!element) return '';
+  return all(element, 'mattext').map((mattext) => mattext.textContent ?? '').join(' ');
+}
+
+function blankQuestion(source: number, text: BilingualText, explanation: BilingualText, points: number): CreateQuestionInput {
+  return {
+    questionText: text.en,
+    questionTextAr: text.ar,
+    questionType: 'multiple_choice',
+    explanation: explanation.en,
+    explanationAr: explanation.ar,
+    points,
+    orderInQuiz: source - 1,
+    options: [],
+  };
+}
+
+/** Drops floating point noise such as 3.14 - 3.13 = 0.0100000000000002 */
+function roundDecimal(value: number): number {
+  return parseFloat(value.toFixed(10));
+}
+
+function parsePoints(raw: string | null | undefined): number {
+  const value = raw ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+function looksLikeTrueFalse(options: CreateOptionInput[]): boolean {
+  if (options.length !== 2) return false;
+  const labels = options.map((o) => o.optionText.trim().toLowerCase());
+  return labels.includes('true') && labels.includes('false');
+}
+
+function toTrueFalse(options: CreateOptionInput[]): CreateOptionInput[] {
+  const trueIsCorrect = options.some((o) => o.isCorrect && o.optionText.trim().toLowerCase() === 'true');
+  return [
+    { optionText: 'True', optionTextAr: 'صح', isCorrect: trueIsCorrect, orderInQuestion: 0 },
+    { optionText: 'False', optionTextAr: 'خطأ', isCorrect: !trueIsCorrect, orderInQuestion: 1 },
+  ];
+}
+
+// ─── QTI 2.1 ──────────────────────────────────────────────
+
+const INTERACTIONS = [
+  'choiceInteraction',
+  'orderInteraction',
+  'textEntryInteraction',
+  'extendedTextInteraction',
+];
+
+/** Item body text without the interactions themselves */
+function itemBodyText(itemBody: Element | null, issues: QuizImportIssue[]): BilingualText {
+  if (!itemBody) return { en: '', ar: '' };
+  const copy = itemBody.cloneNode(true) as Element;
+  all(copy, 'simpleChoice').forEach((el) => el.parentNode?.removeChild(el));
+  Array.from(copy.getElementsByTagName('*'))
+    .filter((el) => el.localName.endsWith('Interaction') || el.localName === 'feedbackInline')
+    .forEach((el) => {
+      const prompt = first(el, 'prompt');
+      // Inline text entries sit mid-sentence; keep a blank in their place
+      const replacement = el.localName === 'textEntryInteraction'
+        ? '_____'
+        : prompt?.textContent ?? '';
+      el.parentNode?.replaceChild(el.ownerDocument.createTextNode(` ${replacement} `), el);
+    });
+  return importText(serializeChildren(copy), issues);
+}
+
+function correctValues(item: Element, identifier: string): string[] {
+  const declaration = all(item, 'responseDeclaration').find((d) => d.getAttribute('identifier') === identifier);
+  if (!declaration) return [];
+  const correct = first(declaration, 'correctResponse');
+  if (correct) return all(correct, 'value').map((v) => (v.textContent ?? '').trim());
+  // Some tools only score through a mapping
+  return all(declaration, 'mapEntry')
+    .filter((entry) => parseFloat(entry.getAttribute('mappedValue') ?? '0') > 0)
+    .map((entry) => entry.getAttribute('mapKey') ?? '');
+}
+
+function parseQTI21Item(item: Element, source: number): ImportedQuestion {
+  const issues: QuizImportIssue[] = [];
+  const title = item.getAttribute('title');
+  const itemBody = first(item, 'itemBody');
+
+  const interactions = itemBody
+    ? Array.from(itemBody.getElementsByTagName('*')).filter((el) => el.localName.endsWith('Interaction'))
+    : [];
+  const unsupported = interactions.find((el) => !INTERACTIONS.includes(el.localName));
+  if (interactions.length === 0 || unsupported) {
+    issues.push({ severity: 'error', code: 'unsupported_question_type', detail: unsupported?.localName ?? 'no interaction' });
+    return finalizeImportedQuestion(source, title, null, issues);
+  }
+  if (interactions.length > 1) {
+    issues.push({ severity: 'error', code: 'unsupported_question_type', detail: `${interactions.length} interactions in one item` });
+    return finalizeImportedQuestion(source, title, null, issues);
+  }
+
+  const interaction = interactions[0];
+  const text = itemBodyText(itemBody, issues);
+  const feedback = all(item, 'modalFeedback')[0];
+  const explanation = feedback ? importText(serializeChildren(feedback), issues) : { en: '', ar: '' };
+  if (all(item, 'feedbackInline').length > 0 || all(item, 'modalFeedback').length > 1) {
+    issues.push({ severity: 'warning', code: 'answer_feedback_ignored' });
+  }
+
+  const scoreDeclaration = all(item, 'outcomeDeclaration').find((d) => d.getAttribute('identifier') === 'MAXSCORE');
+  const points = parsePoints(scoreDeclaration ? first(scoreDeclaration, 'value')?.textContent : null);
+  const base = blankQuestion(source, text, explanation, points);
+
+  const identifier = interaction.getAttribute('responseIdentifier') ?? 'RESPONSE';
+  const declaration = all(item, 'responseDeclaration').find((d) => d.getAttribute('identifier') === identifier);
+  const correct = correctValues(item, identifier);
+  if (declaration && all(declaration, 'mapEntry').length > 0) {
+    const mapped = all(declaration, 'mapEntry').map((entry) => parseFloat(entry.getAttribute('mappedValue') ?? '0'));
+    if (new Set(mapped.filter((v) => v > 0)).size > 1) issues.push({ severity: 'warning', code: 'partial_credit_ignored' });
+  }
+
+  switch (interaction.localName) {
+    case 'choiceInteraction':
+    case 'orderInteraction': {
+      const choices = all(interaction, 'simpleChoice');
+      const options = choices.map((choice, idx) => {
+        const optionText = importText(serializeChildren(choice), issues);
+        return {
+          optionText: optionText.en,
+          optionTextAr: optionText.ar,
+          isCorrect: correct.includes(choice.getAttribute('identifier') ?? ''),
+          orderInQuestion: idx,
+        };
+      });
+
+      if (interaction.localName === 'orderInteraction') {
+        // The correct response lists identifiers in order; that order is the answer
+        const ids = choices.map((choice) => choice.getAttribute('identifier') ?? '');
+        const ordered = correct.length === options.length
+          ? correct.map((id) => options[ids.indexOf(id)]).filter(Boolean)
+          : options;
+        return finalizeImportedQuestion(source, title, {
+          ...base,
+          questionType: 'ordering',
+          options: ordered.map((o, idx) => ({ ...o, isCorrect: true, orderInQuestion: idx })),
+        }, issues);
+      }
+
+      const cardinality = declaration?.getAttribute('cardinality') ?? 'single';
+      let questionType: QuestionType = cardinality === 'multiple' ? 'multi_select' : 'multiple_choice';
+      let finalOptions: CreateOptionInput[] = options;
+      if (questionType === 'multiple_choice' && looksLikeTrueFalse(options)) {
+        questionType = 'true_false';
+        finalOptions = toTrueFalse(options);
+      }
+      return finalizeImportedQuestion(source, title, { ...base, questionType, options: finalOptions }, issues);
+    }
+
+    case 'textEntryInteraction': {
+      const baseType = declaration?.getAttribute('baseType') ?? 'string';
+      if (baseType === 'float' || baseType === 'integer') {
+        const answer = parseFloat(correct[0] ?? '');
+        const equal = first(item, 'equal');
+        const toleranceRaw = equal?.getAttribute('tolerance')?.trim().split(/\s+/) ?? [];
+        const tolerances = toleranceRaw.map((v) => parseFloat(v)).filter((v) => Number.isFinite(v));
+        const tolerance = tolerances.length > 0 ? Math.max(...tolerances) : 0;
+        // Relative tolerances are a percentage of the answer
+        const absolute = equal?.getAttribute('toleranceMode') === 'relative' ? Math.abs(answer * tolerance) / 100 : tolerance;
+        return finalizeImportedQuestion(source, title, {
+          ...base,
+          questionType: 'numeric',
+          numericAnswer: Number.isFinite(answer) ? answer : null,
+          numericTolerance: absolute,
+          unit: '',
+        }, issues);
+      }
+      if (correct.length > 1) issues.push({ severity: 'warning', code: 'alternative_answers_merged' });
+      const reference = splitMultilang(correct[0] ?? '');
+      return finalizeImportedQuestion(source, title, {
+        ...base,
+        questionType: 'short_answer',
+        referenceAnswer: reference.en,
+        referenceAnswerAr: reference.ar,
+      }, issues);
+    }
+
+    default: {
+      // extendedTextInteraction: essays are scored by hand in QTI, so there's rarely a correct response
+      const reference = splitMultilang(correct[0] ?? '');
+      return finalizeImportedQuestion(source, title, {
+        ...base,
+        questionType: 'short_answer',
+        referenceAnswer: reference.en,
+        referenceAnswerAr: reference.ar,
+      }, issues);
+    }
+  }
+}
+
+// ─── QTI 1.2 ──────────────────────────────────────────────
+
+const QTI12_TYPES: Record<string, QuestionType | null> = {
+  multiple_choice_question: 'multiple_choice',
+  true_false_question: 'true_false',
+  multiple_answers_question: 'multi_select',
+  ordering_question: 'ordering',
+  numerical_question: 'numeric',
+  short_answer_question: 'short_answer',
+  essay_question: 'short_answer',
+  // Common Cartridge profiles
+  'cc.multiple_choice.v0p1': 'multiple_choice',
+  'cc.true_false.v0p1': 'true_false',
+  'cc.multiple_response.v0p1': 'multi_select',
+  'cc.fib.v0p1': 'short_answer',
+  'cc.essay.v0p1': 'short_answer',
+};
+
+function metadataField(item: Element, label: string): string | null {
+  const field = all(item, 'qtimetadatafield').find((f) => (first(f, 'fieldlabel')?.textContent ?? '').trim() === label);
+  return field ? (first(field, 'fieldentry')?.textContent ?? '').trim() : null;
+}
+
+/** Response identifiers that earn points, from `respcondition`s that add to the score */
+function scoringValues(item: Element): string[] {
+  return all(item, 'respcondition')
+    .filter((condition) => all(condition, 'setvar').some((setvar) => {
+      const value = parseFloat(setvar.textContent ?? '0');
+      return setvar.getAttribute('action') !== 'Subtract' && value > 0;
+    }))
+    .flatMap((condition) => all(condition, 'varequal')
+      .filter((varequal) => varequal.parentElement?.localName !== 'not')
+      .map((varequal) => (varequal.textContent ?? '').trim()));
+}
+
+function qti12Type(item: Element, issues: QuizImportIssue[]): QuestionType | null {
+  const declared = metadataField(item, 'question_type') ?? metadataField(item, 'cc_profile');
+  if (declared) {
+    if (declared in QTI12_TYPES) return QTI12_TYPES[declared];
+    issues.push({ severity: 'error', code: 'unsupported_question_type', detail: declared });
+    return null;
+  }
+  const lid = first(item, 'response_lid');
+  if (lid) {
+    const cardinality = lid.getAttribute('rcardinality') ?? 'Single';
+    if (cardinality === 'Ordered') return 'ordering';
+    return cardinality === 'Multiple' ? 'multi_select' : 'multiple_choice';
+  }
+  if (first(item, 'response_num')) return 'numeric';
+  if (first(item, 'response_str')) return 'short_answer';
+  issues.push({ severity: 'error', code: 'unsupported_question_type', detail: 'unknown item' });
+  return null;
+}
+
+function parseQTI12Item(item: Element, source: number): ImportedQuestion {
+  const issues: QuizImportIssue[] = [];
+  const title = item.getAttribute('title');
+  const type = qti12Type(item, issues);
+  if (!type) return finalizeImportedQuestion(source, title, null, issues);
+
+  const presentation = first(item, 'presentation');
+  const stem = presentation ? children(presentation, 'material')[0] ?? first(presentation, 'material') : null;
+  const text = importText(matText(stem), issues);
+
+  const feedbacks = all(item, 'itemfeedback');
+  const general = feedbacks.find((f) => f.getAttribute('ident') === 'general_fb');
+  const explanation = general ? importText(matText(general), issues) : { en: '', ar: '' };
+  if (feedbacks.some((f) => f !== general)) issues.push({ severity: 'warning', code: 'answer_feedback_ignored' });
+
+  const base = blankQuestion(source, text, explanation, parsePoints(metadataField(item, 'points_possible')));
+  const scoring = scoringValues(item);
+
+  if (type === 'numeric') {
+    const exact = all(item, 'varequal').find((v) => v.parentElement?.localName !== 'not');
+    const min = parseFloat(first(item, 'vargte')?.textContent ?? first(item, 'vargt')?.textContent ?? '');
+    const max = parseFloat(first(item, 'varlte')?.textContent ?? first(item, 'varlt')?.textContent ?? '');
+    let answer = exact ? parseFloat(exact.textContent ?? '') : NaN;
+    let tolerance = 0;
+    if (Number.isFinite(min) && Number.isFinite(max)) {
+      // Canvas writes "answer with margin" as an exact value or-ed with a range
+      if (!Number.isFinite(answer)) {
+        answer = (min + max) / 2;
+        issues.push({ severity: 'warning', code: 'numeric_range_converted', detail: `${min}..${max}` });
+      }
+      tolerance = roundDecimal(Math.max(Math.abs(answer - min), Math.abs(max - answer)));
+    }
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'numeric',
+      numericAnswer: Number.isFinite(answer) ? answer : null,
+      numericTolerance: tolerance,
+      unit: '',
+    }, issues);
+  }
+
+  if (type === 'short_answer') {
+    const unique = scoring.filter((value, idx) => scoring.indexOf(value) === idx);
+    if (unique.length > 1) issues.push({ severity: 'warning', code: 'alternative_answers_merged' });
+    const reference = splitMultilang(unique[0] ?? '');
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'short_answer',
+      referenceAnswer: reference.en,
+      referenceAnswerAr: reference.ar,
+    }, issues);
+  }
+
+  const labels = all(item, 'response_label');
+  const options: CreateOptionInput[] = labels.map((label, idx) => {
+    const optionText = importText(matText(label), issues);
+    return {
+      optionText: optionText.en,
+      optionTextAr: optionText.ar,
+      isCorrect: scoring.includes(label.getAttribute('ident') ?? ''),
+      orderInQuestion: idx,
+    };
+  });
+
+  if (type === 'ordering') {
+    // Ordered responses list the labels in their correct sequence
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'ordering',
+      options: options.map((o) => ({ ...o, isCorrect: true })),
+    }, issues);
+  }
+  if (type === 'true_false' || (type === 'multiple_choice' && looksLikeTrueFalse(options))) {
+    return finalizeImportedQuestion(source, title, {
+      ...base,
+      questionType: 'true_false',
+      options: looksLikeTrueFalse(options) ? toTrueFalse(options) : options,
+    }, issues);
+  }
+  return finalizeImportedQuestion(source, title, { ...base, questionType: type, options }, issues);
+}
+
+// ─── Entry point ──────────────────────────────────────────
+
+export function parseQTI(text: string): ParsedQuizImport {
+  if (!text.trim()) throw new QuizImportError('empty_file', 'The file is empty');
+  const doc = new DOMParser().parseFromString(text.replace(/^﻿/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new QuizImportError('invalid_xml', 'The file is not valid XML');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName === 'questestinterop') {
+    const items = all(doc, 'item');
+    if (items.length === 0) throw new QuizImportError('no_questions', 'No questions found');
+    const assessment = first(doc, 'assessment');
+    return {
+      format: 'qti',
+      title: assessment?.getAttribute('title') ?? null,
+      questions: items.map((item, idx) => parseQTI12Item(item, idx + 1)),
+    };
+  }
+
+  const items = all(doc, 'assessmentItem');
+  if (items.length > 0) {
+    return {
+      format: 'qti',
+      title: items.length === 1 ? null : root.getAttribute('title'),
+      questions: items.map((item, idx) => parseQTI21Item(item, idx + 1)),
+    };
+  }
+
+  // assessmentTest files only reference items stored elsewhere in a package
+  throw new QuizImportError('unsupported_format', `Unsupported QTI document: <${root.localName}>`);
+}
+
+// ─── Export ───────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Escaped HTML for a `mattext`, with the Arabic version as a multilang span */
+function htmlText(en: string, ar: string | null | undefined): string {
+  const paragraph = (value: string) => `<p>${escapeXml(value).replace(/\r?\n/g, '<br/>')}</p>`;
+  const html = ar?.trim()
+    ? `<span lang="en" class="multilang">${paragraph(en)}</span><span lang="ar" class="multilang">${paragraph(ar)}</span>`
+    : paragraph(en);
+  return escapeXml(html);
+}
+
+function material(en: string, ar: string | null | undefined): string {
+  return `<material><mattext texttype="text/html">${htmlText(en, ar)}</mattext></material>`;
+}
+
+const EXPORT_TYPES: Record<QuestionType, string> = {
+  multiple_choice: 'multiple_choice_question',
+  true_false: 'true_false_question',
+  multi_select: 'multiple_answers_question',
+  ordering: 'ordering_question',
+  numeric: 'numerical_question',
+  short_answer: 'short_answer_question',
+};
+
+function responseBlock(question: QuizQuestion, options: QuizQuestion['options']): string {
+  switch (question.questionType) {
+    case 'numeric':
+      return '<response_str ident="response1" rcardinality="Single"><render_fib fibtype="Decimal"><response_label ident="answer1"/></render_fib></response_str>';
+    case 'short_answer':
+      return '<response_str ident="response1" rcardinality="Single"><render_fib><response_label ident="answer1" rshuffle="No"/></render_fib></response_str>';
+    default: {
+      const cardinality = question.questionType === 'multi_select' ? 'Multiple' : question.questionType === 'ordering' ? 'Ordered' : 'Single';
+      const labels = options
+        .map((o) => `<response_label ident="${escapeXml(o.id)}">${material(o.optionText, o.optionTextAr)}</response_label>`)
+        .join('');
+      return `<response_lid ident="response1" rcardinality="${cardinality}"><render_choice>${labels}</render_choice></response_lid>`;
+    }
+  }
+}
+
+function scoringBlock(question: QuizQuestion, options: QuizQuestion['options']): string {
+  const award = (conditions: string) =>
+    `<respcondition continue="No"><conditionvar>${conditions}</conditionvar><setvar action="Set" varname="SCORE">100</setvar></respcondition>`;
+  const equal = (value: string) => `<varequal respident="response1">${escapeXml(value)}</varequal>`;
+
+  switch (question.questionType) {
+    case 'numeric': {
+      const answer = question.numericAnswer ?? 0;
+      const tolerance = question.numericTolerance ?? 0;
+      if (tolerance === 0) return award(equal(String(answer)));
+      return award(
+        `<or>${equal(String(answer))}<and><vargte respident="response1">${roundDecimal(answer - tolerance)}</vargte><varlte respident="response1">${roundDecimal(answer + tolerance)}</varlte></and></or>`
+      );
+    }
+    case 'short_answer': {
+      const reference = question.referenceAnswer?.trim() || question.referenceAnswerAr?.trim() || '';
+      return award(equal(reference));
+    }
+    case 'ordering':
+      return award(options.map((o) => equal(o.id)).join(''));
+    case 'multi_select': {
+      const conditions = options
+        .map((o) => (o.isCorrect ? equal(o.id) : `<not>${equal(o.id)}</not>`))
+        .join('');
+      return award(`<and>${conditions}</and>`);
+    }
+    default: {
+      const correct = options.find((o) => o.isCorrect);
+      return correct ? award(equal(correct.id)) : '';
+    }
+  }
+}
+
+function itemXml(question: QuizQuestion, idx: number): string {
+  const options = [...question.options].sort((a, b) => a.orderInQuestion - b.orderInQuestion);
+  const fields: [string, string][] = [
+    ['question_type', EXPORT_TYPES[question.questionType]],
+    ['points_possible', String(question.points)],
+  ];
+  const metadata = fields
+    .map(([label, entry]) => `<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${entry}</fieldentry></qtimetadatafield>`)
+    .join('');
+  const feedback = question.explanation?.trim()
+    ? `<itemfeedback ident="general_fb"><flow_mat>${material(question.explanation, question.explanationAr)}</flow_mat></itemfeedback>`
+    : '';
+  const feedbackLink = feedback ? '<displayfeedback feedbacktype="Response" linkrefid="general_fb"/>' : '';
+  const scoring = feedbackLink
+    ? `<respcondition continue="Yes"><conditionvar><other/></conditionvar>${feedbackLink}</respcondition>`
+    : '';
+
+  return [
+    `<item ident="${escapeXml(question.id)}" title="Question ${idx + 1}">`,
+    `<itemmetadata><qtimetadata>${metadata}</qtimetadata></itemmetadata>`,
+    `<presentation>${material(question.questionText, question.questionTextAr)}${responseBlock(question, options)}</presentation>`,
+    `<resprocessing><outcomes><decvar maxvalue="100" minvalue="0" varname="SCORE" vartype="Decimal"/></outcomes>${scoring}${scoringBlock(question, options)}</resprocessing>`,
+    feedback,
+    '</item>',
+  ].join('\n');
+}
+
+/** QTI 1.2 document for a quiz */
+export function quizToQTI(quiz: QuizDetail): string {
+  const questions = [...quiz.questions].sort((a, b) => a.orderInQuiz - b.orderInQuiz);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2">',
+    `<assessment ident="${escapeXml(quiz.id)}" title="${escapeXml(quiz.title)}">`,
+    '<qtimetadata>',
+    `<qtimetadatafield><fieldlabel>cc_maxattempts</fieldlabel><fieldentry>${quiz.maxAttempts ?? 'unlimited'}</fieldentry></qtimetadatafield>`,
+    '</qtimetadata>',
+    '<section ident="root_section">',
+    ...questions.map(itemXml),
+    '</section>',
+    '</assessment>',
+    '</questestinterop>',
+    '',
+  ].join('\n');
+}
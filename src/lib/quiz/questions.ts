@@ -0,0 +1,313 @@
+/**
+ * Question type helpers shared by the quiz builder, the quiz taker and the
+ * results page. Scoring itself happens on the server.
+ */
+
+import type {
+  BankQuestion,
+  CreateBankQuestionInput,
+  CreateOptionInput,
+  CreateQuestionInput,
+  QuestionDrawRule,
+  QuestionType,
+  QuizQuestion,
+  ResponseResult,
+  SubmitResponseInput,
+} from '@/types/quiz';
+
+export const QUESTION_TYPES: { id: QuestionType; labelEn: string; labelAr: string }[] = [
+  { id: 'multiple_choice', labelEn: 'Multiple Choice', labelAr: 'اختيار متعدد' },
+  { id: 'true_false', labelEn: 'True/False', labelAr: 'صح/خطأ' },
+  { id: 'multi_select', labelEn: 'Multi-select', labelAr: 'اختيار عدة إجابات' },
+  { id: 'ordering', labelEn: 'Ordering', labelAr: 'ترتيب' },
+  { id: 'numeric', labelEn: 'Numeric', labelAr: 'إجابة رقمية' },
+  { id: 'short_answer', labelEn: 'Short Answer', labelAr: 'إجابة قصيرة' },
+];
+
+export function questionTypeLabel(type: QuestionType | undefined, isRTL: boolean): string {
+  const entry = QUESTION_TYPES.find((t) => t.id === (type ?? 'multiple_choice')) ?? QUESTION_TYPES[0];
+  return isRTL ? entry.labelAr : entry.labelEn;
+}
+
+/** Types answered by picking or arranging options */
+export function usesOptions(type: QuestionType | undefined): boolean {
+  return type !== 'numeric' && type !== 'short_answer';
+}
+
+/** Types where exactly one option is correct */
+export function isSingleChoice(type: QuestionType | undefined): boolean {
+  return !type || type === 'multiple_choice' || type === 'true_false';
+}
+
+// ─── Builder ──────────────────────────────────────────────
+
+export function emptyOption(order: number): CreateOptionInput {
+  return { optionText: '', optionTextAr: '', isCorrect: false, orderInQuestion: order };
+}
+
+export function emptyQuestion(order: number): CreateQuestionInput {
+  return {
+    questionText: '',
+    questionTextAr: '',
+    questionType: 'multiple_choice',
+    explanation: '',
+    explanationAr: '',
+    points: 1,
+    orderInQuiz: order,
+    options: [emptyOption(0), emptyOption(1), emptyOption(2), emptyOption(3)],
+  };
+}
+
+function trueFalseOptions(): CreateOptionInput[] {
+  return [
+    { optionText: 'True', optionTextAr: 'صح', isCorrect: false, orderInQuestion: 0 },
+    { optionText: 'False', optionTextAr: 'خطأ', isCorrect: false, orderInQuestion: 1 },
+  ];
+}
+
+/** Switch a question's type, keeping whatever still makes sense for the new type */
+export function changeQuestionType(question: CreateQuestionInput, type: QuestionType): CreateQuestionInput {
+  const base: CreateQuestionInput = {
+    ...question,
+    questionType: type,
+    numericAnswer: type === 'numeric' ? question.numericAnswer ?? null : undefined,
+    numericTolerance: type === 'numeric' ? question.numericTolerance ?? 0 : undefined,
+    unit: type === 'numeric' ? question.unit ?? '' : undefined,
+    referenceAnswer: type === 'short_answer' ? question.referenceAnswer ?? '' : undefined,
+    referenceAnswerAr: type === 'short_answer' ? question.referenceAnswerAr ?? '' : undefined,
+  };
+
+  if (!usesOptions(type)) return { ...base, options: [] };
+  if (type === 'true_false') return { ...base, options: trueFalseOptions() };
+
+  const options = question.options.length >= 2
+    ? question.options
+    : [emptyOption(0), emptyOption(1), emptyOption(2), emptyOption(3)];
+
+  if (type === 'ordering') {
+    // Order is the answer; every step is part of it
+    return { ...base, options: options.map((o) => ({ ...o, isCorrect: true })) };
+  }
+  if (type === 'multiple_choice') {
+    // Keep only the first correct option
+    const firstCorrect = options.findIndex((o) => o.isCorrect);
+    return { ...base, options: options.map((o, i) => ({ ...o, isCorrect: i === firstCorrect })) };
+  }
+  if (question.questionType === 'ordering') {
+    return { ...base, options: options.map((o) => ({ ...o, isCorrect: false })) };
+  }
+  return { ...base, options };
+}
+
+/** Editable copy of a saved question (AI-generated or loaded for editing) */
+export function toQuestionInput(question: QuizQuestion, order: number): CreateQuestionInput {
+  return {
+    questionText: question.questionText,
+    questionTextAr: question.questionTextAr || '',
+    questionType: question.questionType,
+    explanation: question.explanation || '',
+    explanationAr: question.explanationAr || '',
+    points: question.points,
+    orderInQuiz: order,
+    options: [...question.options]
+      .sort((a, b) => a.orderInQuestion - b.orderInQuestion)
+      .map((o, oidx) => ({
+        optionText: o.optionText,
+        optionTextAr: o.optionTextAr || '',
+        isCorrect: o.isCorrect || false,
+        orderInQuestion: oidx,
+      })),
+    numericAnswer: question.numericAnswer ?? null,
+    numericTolerance: question.numericTolerance ?? null,
+    unit: question.unit ?? null,
+    referenceAnswer: question.referenceAnswer ?? null,
+    referenceAnswerAr: question.referenceAnswerAr ?? null,
+  };
+}
+
+export type QuestionIssue =
+  | 'missing_text'
+  | 'missing_option_text'
+  | 'missing_correct'
+  | 'single_correct'
+  | 'too_few_options'
+  | 'missing_numeric_answer'
+  | 'invalid_tolerance'
+  | 'missing_reference_answer';
+
+export function validateQuestion(question: CreateQuestionInput): QuestionIssue | null {
+  const type = question.questionType ?? 'multiple_choice';
+  if (!question.questionText.trim()) return 'missing_text';
+
+  if (usesOptions(type)) {
+    if (question.options.length < 2) return 'too_few_options';
+    if (question.options.some((o) => !o.optionText.trim())) return 'missing_option_text';
+    if (type === 'ordering') return null;
+
+    const correctCount = question.options.filter((o) => o.isCorrect).length;
+    if (correctCount === 0) return 'missing_correct';
+    if (isSingleChoice(type) && correctCount > 1) return 'single_correct';
+    return null;
+  }
+
+  if (type === 'numeric') {
+    if (question.numericAnswer === null || question.numericAnswer === undefined || !Number.isFinite(question.numericAnswer)) {
+      return 'missing_numeric_answer';
+    }
+    if (question.numericTolerance !== null && question.numericTolerance !== undefined && question.numericTolerance < 0) {
+      return 'invalid_tolerance';
+    }
+    return null;
+  }
+
+  // The AI grader needs something to compare against
+  if (!question.referenceAnswer?.trim() && !question.referenceAnswerAr?.trim()) return 'missing_reference_answer';
+  return null;
+}
+
+export function questionIssueMessage(issue: QuestionIssue, isRTL: boolean): string {
+  const messages: Record<QuestionIssue, [string, string]> = {
+    missing_text: ['All questions must have text', 'جميع الأسئلة يجب أن تحتوي على نص'],
+    missing_option_text: ['All options must have text', 'جميع الخيارات يجب أن تحتوي على نص'],
+    missing_correct: ['Each question must have a correct answer', 'كل سؤال يجب أن يحتوي على إجابة صحيحة'],
+    single_correct: ['Single-answer questions can only have one correct option', 'أسئلة الإجابة الواحدة يجب أن تحتوي على خيار صحيح واحد فقط'],
+    too_few_options: ['Questions need at least two options', 'كل سؤال يحتاج إلى خيارين على الأقل'],
+    missing_numeric_answer: ['Numeric questions need a correct number', 'الأسئلة الرقمية تحتاج إلى إجابة رقمية صحيحة'],
+    invalid_tolerance: ['Tolerance cannot be negative', 'هامش الخطأ لا يمكن أن يكون سالباً'],
+    missing_reference_answer: ['Short-answer questions need a reference answer for grading', 'الأسئلة القصيرة تحتاج إلى إجابة نموذجية للتصحيح'],
+  };
+  const [en, ar] = messages[issue];
+  return isRTL ? ar : en;
+}
+
+// ─── Taking ───────────────────────────────────────────────
+
+export type QuizAnswer = Omit<SubmitResponseInput, 'questionId'>;
+
+export function isAnswered(type: QuestionType | undefined, answer: QuizAnswer | undefined): boolean {
+  if (!answer) return false;
+  switch (type ?? 'multiple_choice') {
+    case 'multi_select':
+      return (answer.selectedOptionIds?.length ?? 0) > 0;
+    case 'ordering':
+      return (answer.orderedOptionIds?.length ?? 0) > 0;
+    case 'numeric':
+      return typeof answer.numericAnswer === 'number' && Number.isFinite(answer.numericAnswer);
+    case 'short_answer':
+      return !!answer.textAnswer?.trim();
+    default:
+      return !!answer.selectedOptionId;
+  }
+}
+
+/** Only the field that belongs to the question's type is sent */
+export function toSubmitResponse(question: QuizQuestion, answer: QuizAnswer | undefined): SubmitResponseInput {
+  const response: SubmitResponseInput = { questionId: question.id };
+  switch (question.questionType) {
+    case 'multi_select':
+      response.selectedOptionIds = answer?.selectedOptionIds ?? [];
+      break;
+    case 'ordering':
+      response.orderedOptionIds = answer?.orderedOptionIds ?? [];
+      break;
+    case 'numeric':
+      response.numericAnswer = answer?.numericAnswer ?? null;
+      break;
+    case 'short_answer':
+      response.textAnswer = answer?.textAnswer?.trim() || null;
+      break;
+    default:
+      response.selectedOptionId = answer?.selectedOptionId || null;
+  }
+  return response;
+}
+
+/** Restore autosaved answers when resuming an attempt */
+export function answersFromResponses(responses: SubmitResponseInput[]): Record<string, QuizAnswer> {
+  return Object.fromEntries(responses.map(({ questionId, ...answer }) => [questionId, answer]));
+}
+
+/** Milliseconds to add to the local clock to read the server's */
+export function serverClockOffset(serverTime: string, receivedAt: number = Date.now()): number {
+  const parsed = Date.parse(serverTime);
+  return Number.isFinite(parsed) ? parsed - receivedAt : 0;
+}
+
+/** Whole seconds left before the attempt expires, never negative */
+export function secondsUntil(expiresAt: string, clockOffsetMs: number): number {
+  return Math.max(0, Math.ceil((Date.parse(expiresAt) - (Date.now() + clockOffsetMs)) / 1000));
+}
+
+// ─── Results ──────────────────────────────────────────────
+
+export function hasResponse(response: ResponseResult): boolean {
+  return (
+    !!response.selectedOptionId ||
+    (response.selectedOptionIds?.length ?? 0) > 0 ||
+    (response.orderedOptionIds?.length ?? 0) > 0 ||
+    (response.numericAnswer !== null && response.numericAnswer !== undefined) ||
+    !!response.textAnswer?.trim()
+  );
+}
+
+export type ResponseOutcome = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'pending';
+
+export function responseOutcome(response: ResponseResult): ResponseOutcome {
+  if (response.gradingStatus === 'pending') return 'pending';
+  if (response.isCorrect) return 'correct';
+  if (!hasResponse(response)) return 'unanswered';
+  return response.earnedPoints > 0 ? 'partial' : 'incorrect';
+}
+
+// ─── Question bank ────────────────────────────────────────
+
+/** Tags are matched case-insensitively, so store them trimmed and lower-cased */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function emptyBankQuestion(): CreateBankQuestionInput {
+  const { orderInQuiz: _order, ...question } = emptyQuestion(0);
+  return { ...question, courseId: null, topic: '', difficulty: 'medium', tags: [] };
+}
+
+export function toBankQuestionInput(question: BankQuestion): CreateBankQuestionInput {
+  const { orderInQuiz: _order, ...input } = toQuestionInput({ ...question, orderInQuiz: 0 }, 0);
+  return {
+    ...input,
+    courseId: question.courseId,
+    topic: question.topic ?? '',
+    difficulty: question.difficulty,
+    tags: question.tags,
+  };
+}
+
+export function emptyDrawRule(): QuestionDrawRule {
+  return { count: 5, difficulty: null, tags: [] };
+}
+
+export function drawnQuestionCount(rules: QuestionDrawRule[]): number {
+  return rules.reduce((sum, rule) => sum + rule.count, 0);
+}
+
+export type DrawRuleIssue = 'no_rules' | 'invalid_count' | 'not_enough_questions';
+
+/** `available` comes from the draw preview; a rule can't ask for more than the bank holds */
+export function validateDrawRules(rules: QuestionDrawRule[], available?: number[]): DrawRuleIssue | null {
+  if (rules.length === 0) return 'no_rules';
+  if (rules.some((rule) => !Number.isInteger(rule.count) || rule.count < 1)) return 'invalid_count';
+  if (available && rules.some((rule, idx) => available[idx] !== undefined && available[idx] < rule.count)) {
+    return 'not_enough_questions';
+  }
+  return null;
+}
+
+export function drawRuleIssueMessage(issue: DrawRuleIssue, isRTL: boolean): string {
+  const messages: Record<DrawRuleIssue, [string, string]> = {
+    no_rules: ['Add at least one draw rule', 'أضف قاعدة سحب واحدة على الأقل'],
+    invalid_count: ['Each rule must draw at least one question', 'كل قاعدة يجب أن تسحب سؤالاً واحداً على الأقل'],
+    not_enough_questions: ['The bank does not have enough questions for every rule', 'بنك الأسئلة لا يحتوي على أسئلة كافية لكل القواعد'],
+  };
+  const [en, ar] = messages[issue];
+  return isRTL ? ar : en;
+}
@@ -0,0 +1,50 @@
+/**
+ * Quiz import / export entry points: format detection and file naming on top
+ * of the GIFT and QTI converters. Everything here is pure; downloading and
+ * reading files is left to the UI.
+ */
+
+import { QuizImportError, type ParsedQuizImport, type QuizFormat } from './import-report';
+import { parseGIFT, quizToGIFT } from './gift';
+import { parseQTI, quizToQTI } from './qti';
+import type { QuizDetail } from '@/types/quiz';
+
+export const QUIZ_FILE_EXTENSIONS: Record<QuizFormat, string> = {
+  gift: 'gift',
+  qti: 'xml',
+};
+
+/** XML content is QTI, anything else is treated as GIFT text */
+export function detectQuizFormat(fileName: string, text: string): QuizFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xml') || name.endsWith('.qti')) return 'qti';
+  if (name.endsWith('.gift')) return 'gift';
+  return text.replace(/^﻿/, '').trimStart().startsWith('<') ? 'qti' : 'gift';
+}
+
+export function parseQuizFile(fileName: string, text: string): ParsedQuizImport {
+  if (!text.trim()) throw new QuizImportError('empty_file', 'The file is empty');
+  const parsed = detectQuizFormat(fileName, text) === 'qti' ? parseQTI(text) : parseGIFT(text);
+  if (parsed.questions.length === 0) throw new QuizImportError('no_questions', 'No questions found');
+  return parsed;
+}
+
+export interface QuizExport {
+  content: string;
+  mimeType: string;
+  /** 1-based question numbers the format can't express */
+  skipped: number[];
+}
+
+export function exportQuiz(quiz: QuizDetail, format: QuizFormat): QuizExport {
+  if (format === 'qti') {
+    return { content: quizToQTI(quiz), mimeType: 'application/xml;charset=utf-8;', skipped: [] };
+  }
+  const { content, skipped } = quizToGIFT(quiz);
+  return { content, mimeType: 'text/plain;charset=utf-8;', skipped };
+}
+
+export function quizFileName(quiz: Pick<QuizDetail, 'title'>, format: QuizFormat): string {
+  const slug = quiz.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'quiz'}.${QUIZ_FILE_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,189 @@
+import {
+  classifyIntent,
+  maxScriptScore,
+  normalizeScriptText,
+  parseScript,
+  runScriptTurn,
+  startScriptProgress,
+  validateScript,
+} from '../script-runner';
+import type { ScenarioScript, ScriptBranch, ScriptNode } from '@/types/simulation.types';
+
+function node(id: string, branches: ScriptBranch[] = [], overrides: Partial<ScriptNode> = {}): ScriptNode {
+  return {
+    id,
+    clientLine: `Line for ${id}`,
+    sentiment: 'neutral',
+    conversationState: 'discovery',
+    expectedIntentIds: [],
+    fallbackLine: branches.length ? `Fallback for ${id}` : '',
+    speakerId: null,
+    branches,
+    ...overrides,
+  };
+}
+
+function branch(id: string, nextNodeId: string, overrides: Partial<ScriptBranch> = {}): ScriptBranch {
+  return { id, keywords: [], intentId: null, score: 0, nextNodeId, ...overrides };
+}
+
+function buildScript(): ScenarioScript {
+  return {
+    startNodeId: 'greeting',
+    passingScore: 70,
+    intents: [
+      { id: 'ask_budget', labelEn: 'Ask budget', labelAr: 'السؤال عن الميزانية', phrases: ['what is your budget'] },
+      { id: 'ask_price', labelEn: 'Ask price', labelAr: 'السؤال عن السعر', phrases: ['what is the price'] },
+    ],
+    nodes: [
+      node('greeting', [
+        branch('discount', 'objection', { keywords: ['discount'], score: 5 }),
+        branch('budget', 'close', { intentId: 'ask_budget', score: 30 }),
+      ]),
+      node('objection', [branch('retry', 'greeting', { keywords: ['sorry'], score: 10 })]),
+      node('close'),
+    ],
+  };
+}
+
+describe('normalizeScriptText', () => {
+  it('folds Arabic letter variants and strips tashkeel and punctuation', () => {
+    expect(normalizeScriptText('أَهلاً، بالعميل!')).toBe('اهلا بالعميل');
+    expect(normalizeScriptText('مدرسة على')).toBe('مدرسه علي');
+  });
+});
+
+describe('classifyIntent', () => {
+  it('returns the intent whose phrase is covered by the message', () => {
+    expect(classifyIntent(buildScript(), 'So, what is your budget for this?')).toBe('ask_budget');
+  });
+
+  it('returns null below the match threshold', () => {
+    expect(classifyIntent(buildScript(), 'what time is it')).toBeNull();
+  });
+
+  it('breaks ties in favour of the intent listed first', () => {
+    // The message covers two of the three words of both phrases
+    const script = buildScript();
+    script.intents = [
+      { id: 'first', labelEn: '', labelAr: '', phrases: ['call me back'] },
+      { id: 'second', labelEn: '', labelAr: '', phrases: ['call you back'] },
+    ];
+    expect(classifyIntent(script, 'call back later')).toBe('first');
+
+    script.intents.reverse();
+    expect(classifyIntent(script, 'call back later')).toBe('second');
+  });
+});
+
+describe('runScriptTurn', () => {
+  it('follows a keyword branch and adds its score', () => {
+    const script = buildScript();
+    const turn = runScriptTurn(script, startScriptProgress(script), 'Can I offer a discount?');
+
+    expect(turn.branch?.id).toBe('discount');
+    expect(turn.node.id).toBe('objection');
+    expect(turn.clientResponse).toBe('Line for objection');
+    expect(turn.progress).toEqual({
+      nodeId: 'objection',
+      score: 5,
+      path: [{ nodeId: 'greeting', branchId: 'discount', score: 5 }],
+    });
+    expect(turn.ended).toBe(false);
+  });
+
+  it('follows an intent branch and ends on a node without branches', () => {
+    const script = buildScript();
+    const turn = runScriptTurn(script, startScriptProgress(script), 'what is your budget');
+
+    expect(turn.intentId).toBe('ask_budget');
+    expect(turn.node.id).toBe('close');
+    expect(turn.progress.score).toBe(30);
+    expect(turn.ended).toBe(true);
+  });
+
+  it('stays on the node with its fallback line when nothing matches', () => {
+    const script = buildScript();
+    const turn = runScriptTurn(script, startScriptProgress(script), 'hello there');
+
+    expect(turn.branch).toBeNull();
+    expect(turn.node.id).toBe('greeting');
+    expect(turn.clientResponse).toBe('Fallback for greeting');
+    expect(turn.progress.path).toEqual([{ nodeId: 'greeting', branchId: null, score: 0 }]);
+    expect(turn.ended).toBe(false);
+  });
+
+  it('throws when the current node is missing', () => {
+    const script = buildScript();
+    expect(() => runScriptTurn(script, { nodeId: 'gone', score: 0, path: [] }, 'hi')).toThrow(
+      'Script node "gone" does not exist'
+    );
+  });
+});
+
+describe('maxScriptScore', () => {
+  it('takes the best path and does not count loops', () => {
+    // discount + retry leads back to the greeting, which is not scored twice
+    expect(maxScriptScore(buildScript())).toBe(30);
+  });
+
+  it('is 0 for a script without scoring branches', () => {
+    const script = buildScript();
+    script.nodes = [node('greeting')];
+    expect(maxScriptScore(script)).toBe(0);
+  });
+});
+
+describe('validateScript', () => {
+  const errorFor = (change: (script: ScenarioScript) => void) => {
+    const script = buildScript();
+    change(script);
+    return validateScript(script, false);
+  };
+
+  it('accepts a valid script', () => {
+    expect(validateScript(buildScript(), false)).toBeNull();
+  });
+
+  it('reports structural problems', () => {
+    expect(errorFor((s) => (s.nodes = []))).toBe('The script has no nodes');
+    expect(errorFor((s) => s.nodes.push(node('close')))).toBe('Node ids must be unique');
+    expect(errorFor((s) => (s.startNodeId = 'missing'))).toBe('Start node "missing" does not exist');
+    expect(errorFor((s) => (s.passingScore = 120))).toBe('Passing score must be between 0 and 100');
+  });
+
+  it('reports node and branch problems', () => {
+    expect(errorFor((s) => (s.nodes[2].clientLine = ' '))).toBe('Node "close" has no client line');
+    expect(errorFor((s) => (s.nodes[0].fallbackLine = ''))).toBe('Node "greeting" needs a fallback line');
+    expect(errorFor((s) => (s.nodes[0].expectedIntentIds = ['unknown']))).toBe('Intent "unknown" is not defined');
+    expect(errorFor((s) => (s.nodes[0].branches[0].nextNodeId = 'nowhere'))).toBe(
+      'Branch "discount" points to missing node "nowhere"'
+    );
+    expect(errorFor((s) => (s.nodes[0].branches[1].intentId = 'unknown'))).toBe('Intent "unknown" is not defined');
+    expect(errorFor((s) => (s.nodes[0].branches[0].keywords = []))).toBe('Branch "discount" needs keywords or an intent');
+  });
+
+  it('requires an ending node', () => {
+    const looping = errorFor((s) => {
+      s.nodes[2].branches.push(branch('again', 'greeting', { keywords: ['again'] }));
+      s.nodes[2].fallbackLine = 'Sorry?';
+    });
+    expect(looping).toBe('Add at least one ending node (a node without branches)');
+  });
+});
+
+describe('parseScript', () => {
+  it('rejects invalid JSON and scripts without nodes', () => {
+    expect(parseScript('{', false).error).toBe('The script is not valid JSON');
+    expect(parseScript('{}', false).error).toBe('The script needs a "nodes" list');
+  });
+
+  it('fills in defaults for missing fields', () => {
+    const { script, error } = parseScript(JSON.stringify({ nodes: [{ id: 'a', clientLine: 'Hi' }] }), false);
+    expect(error).toBeNull();
+    expect(script?.startNodeId).toBe('a');
+    expect(script?.passingScore).toBe(70);
+    expect(script?.nodes[0].sentiment).toBe('neutral');
+    expect(script?.nodes[0].conversationState).toBe('discovery');
+  });
+});
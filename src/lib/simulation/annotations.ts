@@ -0,0 +1,39 @@
+import type { AnnotationTag, TranscriptComment, TranscriptThread } from '@/types/simulation.types';
+
+export const ANNOTATION_TAGS: { id: AnnotationTag; labelEn: string; labelAr: string; positive: boolean }[] = [
+  { id: 'good_discovery_question', labelEn: 'Good discovery question', labelAr: 'سؤال استكشافي جيد', positive: true },
+  { id: 'good_objection_handling', labelEn: 'Good objection handling', labelAr: 'معالجة جيدة للاعتراض', positive: true },
+  { id: 'strong_rapport', labelEn: 'Strong rapport', labelAr: 'بناء علاقة قوي', positive: true },
+  { id: 'missed_objection', labelEn: 'Missed objection', labelAr: 'اعتراض لم يُعالج', positive: false },
+  { id: 'missed_closing_signal', labelEn: 'Missed closing signal', labelAr: 'فرصة إغلاق ضائعة', positive: false },
+  { id: 'inaccurate_information', labelEn: 'Inaccurate information', labelAr: 'معلومة غير دقيقة', positive: false },
+];
+
+export function annotationTagLabel(tag: AnnotationTag, isRTL: boolean): string {
+  const entry = ANNOTATION_TAGS.find((t) => t.id === tag);
+  if (!entry) return tag.replace(/_/g, ' ');
+  return isRTL ? entry.labelAr : entry.labelEn;
+}
+
+export function isPositiveTag(tag: AnnotationTag): boolean {
+  return ANNOTATION_TAGS.find((t) => t.id === tag)?.positive ?? false;
+}
+
+/** Group a session's comments into threads per turn, oldest first */
+export function groupThreadsByTurn(comments: TranscriptComment[]): Map<string, TranscriptThread[]> {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, TranscriptThread>();
+  const byTurn = new Map<string, TranscriptThread[]>();
+
+  sorted.forEach((comment) => {
+    if (comment.parentId) return;
+    const thread: TranscriptThread = { comment, replies: [] };
+    threads.set(comment.id, thread);
+    byTurn.set(comment.turnId, [...(byTurn.get(comment.turnId) ?? []), thread]);
+  });
+  sorted.forEach((comment) => {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  });
+
+  return byTurn;
+}
@@ -0,0 +1,67 @@
+import type { SimulationAnalysisOutput } from '@/types/simulation.types';
+
+export type SkillKey = keyof SimulationAnalysisOutput['skillScores'];
+export type ConversationMetricKey = keyof SimulationAnalysisOutput['conversationAnalysis'];
+
+export const SKILLS: { key: SkillKey; labelEn: string; labelAr: string }[] = [
+  { key: 'communication', labelEn: 'Communication', labelAr: 'التواصل' },
+  { key: 'negotiation', labelEn: 'Negotiation', labelAr: 'التفاوض' },
+  { key: 'objectionHandling', labelEn: 'Objection Handling', labelAr: 'معالجة الاعتراضات' },
+  { key: 'relationshipBuilding', labelEn: 'Relationship Building', labelAr: 'بناء العلاقات' },
+  { key: 'productKnowledge', labelEn: 'Product Knowledge', labelAr: 'معرفة المنتج' },
+  { key: 'closingTechnique', labelEn: 'Closing Technique', labelAr: 'تقنيات الإغلاق' },
+];
+
+/**
+ * `better` says which direction counts as progress. Talk time has no better
+ * direction on its own, so its change is shown without a verdict.
+ */
+export const CONVERSATION_METRICS: {
+  key: ConversationMetricKey;
+  labelEn: string;
+  labelAr: string;
+  better: 'higher' | 'lower' | null;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: 'talkTimeRatio',
+    labelEn: 'Talk time ratio',
+    labelAr: 'نسبة وقت التحدث',
+    better: null,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  { key: 'questionAsked', labelEn: 'Questions asked', labelAr: 'الأسئلة المطروحة', better: 'higher', format: String },
+  { key: 'empathyStatements', labelEn: 'Empathy statements', labelAr: 'عبارات التعاطف', better: 'higher', format: String },
+  {
+    key: 'activeListeningIndicators',
+    labelEn: 'Active listening',
+    labelAr: 'الإنصات الفعال',
+    better: 'higher',
+    format: String,
+  },
+  {
+    key: 'averageResponseTime',
+    labelEn: 'Avg. response time',
+    labelAr: 'متوسط زمن الرد',
+    better: 'lower',
+    format: (value) => `${Math.round(value)}s`,
+  },
+];
+
+export function skillLabel(key: SkillKey, isRTL: boolean): string {
+  const entry = SKILLS.find((s) => s.key === key);
+  if (!entry) return key;
+  return isRTL ? entry.labelAr : entry.labelEn;
+}
+
+/** Whether a change from `before` to `after` is progress, a setback, or neither */
+export function changeVerdict(
+  before: number,
+  after: number,
+  better: 'higher' | 'lower' | null
+): 'improved' | 'declined' | 'unchanged' | 'neutral' {
+  if (before === after) return 'unchanged';
+  if (!better) return 'neutral';
+  const improved = better === 'higher' ? after > before : after < before;
+  return improved ? 'improved' : 'declined';
+}
@@ -0,0 +1,61 @@
+import type { CreateListingInput, ListingFact, PropertyListing } from '@/types/simulation.types';
+
+export const EMPTY_LISTING: CreateListingInput = {
+  title: '',
+  titleAr: null,
+  propertyType: '',
+  price: 0,
+  currency: 'SAR',
+  areaSqm: 0,
+  bedrooms: null,
+  bathrooms: null,
+  neighbourhood: '',
+  city: '',
+  photos: [],
+  paymentPlans: [],
+  knownDefects: [],
+  highlights: [],
+  isActive: true,
+};
+
+export function formatListingPrice(listing: Pick<PropertyListing, 'price' | 'currency'>, isRTL: boolean): string {
+  return `${listing.price.toLocaleString(isRTL ? 'ar-SA' : 'en-US')} ${listing.currency}`;
+}
+
+export function listingTitle(listing: Pick<PropertyListing, 'title' | 'titleAr'>, isRTL: boolean): string {
+  return isRTL && listing.titleAr ? listing.titleAr : listing.title;
+}
+
+export function listingLocation(listing: Pick<PropertyListing, 'neighbourhood' | 'city'>, isRTL: boolean): string {
+  return [listing.neighbourhood, listing.city].filter(Boolean).join(isRTL ? '، ' : ', ');
+}
+
+const FACT_LABELS: Record<ListingFact, { en: string; ar: string }> = {
+  price: { en: 'Price', ar: 'السعر' },
+  area: { en: 'Area', ar: 'المساحة' },
+  rooms: { en: 'Rooms', ar: 'الغرف' },
+  location: { en: 'Location', ar: 'الموقع' },
+  payment_plan: { en: 'Payment plan', ar: 'خطة الدفع' },
+  defect: { en: 'Known defect', ar: 'عيب معروف' },
+  other: { en: 'Other', ar: 'أخرى' },
+};
+
+export function listingFactLabel(fact: ListingFact, isRTL: boolean): string {
+  const entry = FACT_LABELS[fact] ?? FACT_LABELS.other;
+  return isRTL ? entry.ar : entry.en;
+}
+
+/** First problem that blocks saving, or null when the listing can be saved */
+export function validateListing(input: CreateListingInput, isRTL: boolean): string | null {
+  if (!input.title.trim()) return isRTL ? 'عنوان العقار مطلوب' : 'Listing title is required';
+  if (!(input.price > 0)) return isRTL ? 'السعر يجب أن يكون أكبر من صفر' : 'Price must be greater than zero';
+  if (!(input.areaSqm > 0)) return isRTL ? 'المساحة يجب أن تكون أكبر من صفر' : 'Area must be greater than zero';
+  if (!input.neighbourhood.trim()) return isRTL ? 'الحي مطلوب' : 'Neighbourhood is required';
+  if (input.knownDefects.some((d) => !d.description.trim())) {
+    return isRTL ? 'كل عيب يحتاج إلى وصف' : 'Every defect needs a description';
+  }
+  if (input.paymentPlans.some((p) => !p.name.trim())) {
+    return isRTL ? 'كل خطة دفع تحتاج إلى اسم' : 'Every payment plan needs a name';
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import type { ClientPersona, ConversationTurn } from '@/types/entities';
+
+/** Avatar and name colours per party, primary client first */
+export const PARTY_STYLES = [
+  { avatar: 'bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-800 text-slate-500 dark:text-slate-400', name: 'text-slate-500 dark:text-slate-400' },
+  { avatar: 'bg-gradient-to-br from-rose-100 to-rose-200 dark:from-rose-900 dark:to-rose-800 text-rose-700 dark:text-rose-200', name: 'text-rose-600 dark:text-rose-400' },
+  { avatar: 'bg-gradient-to-br from-amber-100 to-amber-200 dark:from-amber-900 dark:to-amber-800 text-amber-700 dark:text-amber-200', name: 'text-amber-600 dark:text-amber-400' },
+  { avatar: 'bg-gradient-to-br from-emerald-100 to-emerald-200 dark:from-emerald-900 dark:to-emerald-800 text-emerald-700 dark:text-emerald-200', name: 'text-emerald-600 dark:text-emerald-400' },
+];
+
+export function partyStyle(index: number) {
+  return PARTY_STYLES[index % PARTY_STYLES.length];
+}
+
+/** Up to two initials; works for Arabic names too */
+export function personaInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join('');
+}
+
+/** Primary client first, then the other parties */
+export function sessionParties(primary: ClientPersona | null, additional: ClientPersona[]): ClientPersona[] {
+  return primary ? [primary, ...additional] : additional;
+}
+
+/**
+ * Who said a client turn and their position among the parties. Turns without
+ * a speaker, or naming one that is not in the session, belong to the primary client.
+ */
+export function turnSpeaker(
+  turn: Pick<ConversationTurn, 'speakerId'>,
+  parties: ClientPersona[]
+): { persona: ClientPersona | null; index: number } {
+  const index = turn.speakerId ? parties.findIndex((p) => p.id === turn.speakerId) : -1;
+  if (index > 0) return { persona: parties[index], index };
+  return { persona: parties[0] ?? null, index: 0 };
+}
+
+/** "Name (Role)" when the party has a role */
+export function personaDisplayName(persona: Pick<ClientPersona, 'name' | 'role'>): string {
+  return persona.role ? `${persona.name} (${persona.role})` : persona.name;
+}
@@ -0,0 +1,147 @@
+import { SKILLS } from './comparison';
+import type {
+  CreateRubricInput,
+  RubricCriterion,
+  RubricLevel,
+  SimulationAnalysisOutput,
+} from '@/types/simulation.types';
+
+/** One scored criterion, whether it came from the scenario rubric or the built-in skills */
+export interface CriterionResult {
+  key: string;
+  labelEn: string;
+  labelAr: string;
+  /** Share of the overall score in percent; null for the built-in skills, which count equally */
+  weightPercent: number | null;
+  score: number;
+  benchmark: number;
+  evidence: string[];
+  tips: string[];
+  level: RubricLevel | null;
+}
+
+export const DEFAULT_LEVELS: RubricLevel[] = [
+  { minScore: 85, labelEn: 'Excellent', labelAr: 'ممتاز', descriptionEn: '', descriptionAr: '' },
+  { minScore: 70, labelEn: 'Proficient', labelAr: 'متمكن', descriptionEn: '', descriptionAr: '' },
+  { minScore: 50, labelEn: 'Developing', labelAr: 'في طور التطور', descriptionEn: '', descriptionAr: '' },
+  { minScore: 0, labelEn: 'Beginning', labelAr: 'مبتدئ', descriptionEn: '', descriptionAr: '' },
+];
+
+/** A blank criterion; its key is assigned from the English label on save */
+export function emptyCriterion(): RubricCriterion {
+  return { key: '', labelEn: '', labelAr: '', weight: 1, levels: DEFAULT_LEVELS.map((level) => ({ ...level })) };
+}
+
+export const EMPTY_RUBRIC: CreateRubricInput = {
+  name: '',
+  nameAr: null,
+  description: null,
+  criteria: [emptyCriterion()],
+};
+
+export function criterionLabel(criterion: { labelEn: string; labelAr: string }, isRTL: boolean): string {
+  return isRTL && criterion.labelAr ? criterion.labelAr : criterion.labelEn;
+}
+
+export function levelLabel(level: RubricLevel, isRTL: boolean): string {
+  return isRTL && level.labelAr ? level.labelAr : level.labelEn;
+}
+
+export function levelDescription(level: RubricLevel, isRTL: boolean): string {
+  return isRTL && level.descriptionAr ? level.descriptionAr : level.descriptionEn;
+}
+
+/** Highest level whose threshold the score reaches */
+export function levelForScore(levels: RubricLevel[], score: number): RubricLevel | null {
+  return [...levels].sort((a, b) => b.minScore - a.minScore).find((level) => score >= level.minScore) ?? null;
+}
+
+/** Each criterion's weight as a rounded percentage of the total */
+export function weightPercents(criteria: RubricCriterion[]): number[] {
+  const total = criteria.reduce((sum, c) => sum + c.weight, 0);
+  return criteria.map((c) => (total > 0 ? Math.round((c.weight / total) * 100) : 0));
+}
+
+/**
+ * Gives new criteria a key derived from their English label. Existing keys are
+ * kept so past analyses still line up after a criterion is renamed.
+ */
+export function withCriterionKeys(criteria: RubricCriterion[]): RubricCriterion[] {
+  const used = new Set(criteria.map((c) => c.key).filter(Boolean));
+  return criteria.map((criterion, index) => {
+    if (criterion.key) return criterion;
+    const base =
+      criterion.labelEn.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || `criterion_${index + 1}`;
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}_${n}`;
+    used.add(key);
+    return { ...criterion, key };
+  });
+}
+
+/** First problem that blocks saving, or null when the rubric can be saved */
+export function validateRubric(input: CreateRubricInput, isRTL: boolean): string | null {
+  if (!input.name.trim()) return isRTL ? 'اسم سلم التقييم مطلوب' : 'Rubric name is required';
+  if (input.criteria.length === 0) return isRTL ? 'أضف معياراً واحداً على الأقل' : 'Add at least one criterion';
+  for (const criterion of input.criteria) {
+    if (!criterion.labelEn.trim() || !criterion.labelAr.trim()) {
+      return isRTL ? 'كل معيار يحتاج اسماً بالعربية والإنجليزية' : 'Every criterion needs an English and an Arabic label';
+    }
+    if (!(criterion.weight > 0)) {
+      return isRTL ? 'وزن كل معيار يجب أن يكون أكبر من صفر' : 'Every criterion weight must be greater than zero';
+    }
+    if (criterion.levels.length === 0) {
+      return isRTL ? 'كل معيار يحتاج مستوى واحداً على الأقل' : 'Every criterion needs at least one level';
+    }
+    if (!criterion.levels.some((level) => level.minScore === 0)) {
+      return isRTL
+        ? `أضف مستوى يبدأ من 0 للمعيار "${criterion.labelAr}"`
+        : `Add a level starting at 0 for "${criterion.labelEn}"`;
+    }
+    if (criterion.levels.some((level) => !level.labelEn.trim() || !level.labelAr.trim())) {
+      return isRTL ? 'كل مستوى يحتاج اسماً بالعربية والإنجليزية' : 'Every level needs an English and an Arabic label';
+    }
+  }
+  return null;
+}
+
+/**
+ * Scored criteria of an analysis: the scenario rubric's when it had one,
+ * otherwise the built-in skills.
+ */
+export function criterionResults(analysis: SimulationAnalysisOutput): CriterionResult[] {
+  const evaluation = analysis.rubricEvaluation;
+  if (evaluation) {
+    const percents = weightPercents(evaluation.criteria);
+    return evaluation.criteria.flatMap((criterion, index) => {
+      const scored = evaluation.scores.find((s) => s.criterionKey === criterion.key);
+      if (!scored) return [];
+      return [{
+        key: criterion.key,
+        labelEn: criterion.labelEn,
+        labelAr: criterion.labelAr,
+        weightPercent: percents[index],
+        score: scored.score,
+        benchmark: scored.benchmark,
+        evidence: scored.evidence,
+        tips: scored.tips,
+        level: levelForScore(criterion.levels, scored.score),
+      }];
+    });
+  }
+
+  return SKILLS.map((skill) => {
+    const detail = analysis.skillScores[skill.key];
+    return {
+      key: skill.key,
+      labelEn: skill.labelEn,
+      labelAr: skill.labelAr,
+      weightPercent: null,
+      score: detail.score,
+      benchmark: detail.benchmark,
+      evidence: detail.evidence ?? [],
+      tips: detail.tips ?? [],
+      level: null,
+    };
+  });
+}
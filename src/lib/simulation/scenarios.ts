@@ -0,0 +1,172 @@
+import type { ClientPersona, ClientPersonality, SimulationScenarioType } from '@/types/entities';
+import type { CreateScenarioInput, ScenarioScript } from '@/types/simulation.types';
+
+export const SCENARIO_TYPES: { id: SimulationScenarioType; labelEn: string; labelAr: string }[] = [
+  { id: 'property_showing', labelEn: 'Property Showing', labelAr: 'عرض العقار' },
+  { id: 'price_negotiation', labelEn: 'Price Negotiation', labelAr: 'التفاوض على السعر' },
+  { id: 'objection_handling', labelEn: 'Objection Handling', labelAr: 'معالجة الاعتراضات' },
+  { id: 'first_contact', labelEn: 'First Contact', labelAr: 'أول تواصل' },
+  { id: 'closing_deal', labelEn: 'Closing the Deal', labelAr: 'إتمام الصفقة' },
+  { id: 'relationship_building', labelEn: 'Relationship Building', labelAr: 'بناء العلاقات' },
+  { id: 'difficult_client', labelEn: 'Difficult Client', labelAr: 'عميل صعب' },
+];
+
+export const CLIENT_PERSONALITIES: { id: ClientPersonality; labelEn: string; labelAr: string }[] = [
+  { id: 'friendly', labelEn: 'Friendly', labelAr: 'ودود' },
+  { id: 'skeptical', labelEn: 'Skeptical', labelAr: 'متشكك' },
+  { id: 'demanding', labelEn: 'Demanding', labelAr: 'كثير المطالب' },
+  { id: 'indecisive', labelEn: 'Indecisive', labelAr: 'متردد' },
+  { id: 'analytical', labelEn: 'Analytical', labelAr: 'تحليلي' },
+];
+
+export function scenarioTypeLabel(type: SimulationScenarioType, isRTL: boolean): string {
+  const entry = SCENARIO_TYPES.find((t) => t.id === type);
+  if (!entry) return type.replace(/_/g, ' ');
+  return isRTL ? entry.labelAr : entry.labelEn;
+}
+
+export function personalityLabel(personality: ClientPersonality, isRTL: boolean): string {
+  const entry = CLIENT_PERSONALITIES.find((p) => p.id === personality);
+  if (!entry) return personality;
+  return isRTL ? entry.labelAr : entry.labelEn;
+}
+
+export const EMPTY_SCENARIO: CreateScenarioInput = {
+  name: '',
+  nameAr: null,
+  description: null,
+  scenarioType: 'property_showing',
+  difficultyLevel: 'medium',
+  persona: {
+    name: '',
+    background: '',
+    personality: 'friendly',
+    budget: '',
+    motivations: [],
+    objections: [],
+    hiddenConcerns: [],
+  },
+  property: {
+    propertyType: '',
+    location: '',
+    price: '',
+    areaSqm: null,
+    bedrooms: null,
+    features: [],
+    description: '',
+  },
+  additionalPersonas: [],
+  successCriteria: [],
+  openingLine: '',
+  groupIds: [],
+  rubricId: null,
+  script: null,
+  isActive: true,
+};
+
+/**
+ * Another party for a multi-party scenario. Ids are never reused within a
+ * scenario so script nodes keep pointing at the same person.
+ */
+export function emptyParty(existing: ClientPersona[]): ClientPersona {
+  const used = new Set(existing.map((p) => p.id));
+  let n = existing.length + 2;
+  while (used.has(`party_${n}`)) n++;
+  return {
+    id: `party_${n}`,
+    role: '',
+    name: '',
+    background: '',
+    personality: 'friendly',
+    budget: '',
+    motivations: [],
+    objections: [],
+    hiddenConcerns: [],
+  };
+}
+
+/** Starting point offered in the editor when a scenario is switched to scripted */
+export const EXAMPLE_SCRIPT: ScenarioScript = {
+  startNodeId: 'greeting',
+  passingScore: 70,
+  intents: [
+    {
+      id: 'ask_needs',
+      labelEn: 'Ask about their needs',
+      labelAr: 'اسأل عن احتياجاته',
+      phrases: ['what are you looking for', 'how many rooms do you need', 'ما الذي تبحث عنه'],
+    },
+    {
+      id: 'push_sale',
+      labelEn: 'Push for the sale',
+      labelAr: 'الضغط للبيع',
+      phrases: ['sign today', 'this offer ends soon', 'وقع اليوم'],
+    },
+  ],
+  nodes: [
+    {
+      id: 'greeting',
+      clientLine: "Hello, I saw your listing for the villa in Al Olaya and I'd like to know more.",
+      sentiment: 'neutral',
+      conversationState: 'opening',
+      expectedIntentIds: ['ask_needs'],
+      fallbackLine: 'Sorry, could you tell me a bit more?',
+      branches: [
+        { id: 'asked_needs', keywords: [], intentId: 'ask_needs', score: 10, nextNodeId: 'needs' },
+        { id: 'pushed', keywords: ['discount'], intentId: 'push_sale', score: -5, nextNodeId: 'annoyed' },
+      ],
+    },
+    {
+      id: 'needs',
+      clientLine: 'We are a family of five, so we need at least four bedrooms close to a school.',
+      sentiment: 'positive',
+      conversationState: 'discovery',
+      expectedIntentIds: [],
+      fallbackLine: '',
+      branches: [],
+    },
+    {
+      id: 'annoyed',
+      clientLine: "I'm not ready to talk about that yet. I'll call another agent.",
+      sentiment: 'negative',
+      conversationState: 'ended',
+      expectedIntentIds: [],
+      fallbackLine: '',
+      branches: [],
+    },
+  ],
+};
+
+/** One list entry per non-empty line, for the textarea-backed list fields */
+export function linesToList(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+export function listToLines(items: string[]): string {
+  return items.join('\n');
+}
+
+/** First problem that blocks saving, or null when the scenario can be saved */
+export function validateScenario(input: CreateScenarioInput, isRTL: boolean): string | null {
+  if (!input.name.trim()) return isRTL ? 'اسم السيناريو مطلوب' : 'Scenario name is required';
+  if (!input.persona.name.trim()) return isRTL ? 'اسم العميل مطلوب' : 'Client name is required';
+  if (!input.persona.background.trim()) return isRTL ? 'خلفية العميل مطلوبة' : 'Client background is required';
+  if (!input.openingLine.trim()) return isRTL ? 'الجملة الافتتاحية مطلوبة' : 'Opening line is required';
+  if (input.successCriteria.length === 0) {
+    return isRTL ? 'أضف معيار نجاح واحداً على الأقل' : 'Add at least one success criterion';
+  }
+  const parties = input.additionalPersonas ?? [];
+  for (const party of parties) {
+    if (!party.name.trim() || !party.role?.trim()) {
+      return isRTL ? 'كل طرف إضافي يحتاج اسماً ودوراً' : 'Every other party needs a name and a role';
+    }
+  }
+  const partyIds = parties.map((p) => p.id);
+  const unknownSpeaker = input.script?.nodes.find((node) => node.speakerId && !partyIds.includes(node.speakerId));
+  if (unknownSpeaker) {
+    return isRTL
+      ? `المتحدث "${unknownSpeaker.speakerId}" في العقدة "${unknownSpeaker.id}" ليس من أطراف السيناريو`
+      : `Speaker "${unknownSpeaker.speakerId}" on node "${unknownSpeaker.id}" is not a party in this scenario`;
+  }
+  return null;
+}
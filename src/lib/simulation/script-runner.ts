@@ -0,0 +1,244 @@
+/**
+ * Scripted scenario rules: parsing and validating authored scripts, and how a
+ * trainee message picks a branch. Scripted sessions are run by the server with
+ * these same rules, so the script and its branch scores never reach trainees;
+ * the app uses this module for authoring and the e2e spec to stand in for the server.
+ */
+
+import type {
+  ScenarioScript,
+  ScriptBranch,
+  ScriptNode,
+  ScriptProgress,
+} from '@/types/simulation.types';
+
+/** Share of an example phrase's words a message must contain to count as that intent */
+const INTENT_MATCH_THRESHOLD = 0.6;
+
+export interface ScriptTurnResult {
+  /** Node the reply comes from; the same node again when nothing matched */
+  node: ScriptNode;
+  branch: ScriptBranch | null;
+  intentId: string | null;
+  clientResponse: string;
+  progress: ScriptProgress;
+  /** The client has said their last line */
+  ended: boolean;
+}
+
+/**
+ * Lowercase, drop punctuation and Arabic diacritics, and fold the letter
+ * variants trainees type interchangeably, so matching ignores spelling noise.
+ */
+export function normalizeScriptText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0640]/g, '')
+    .replace(/[\u0622\u0623\u0625]/g, '\u0627')
+    .replace(/\u0629/g, '\u0647')
+    .replace(/\u0649/g, '\u064A')
+    .replace(/[.,!?؟،؛:;"'()[\]{}\-_/\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function words(text: string): string[] {
+  return normalizeScriptText(text).split(' ').filter(Boolean);
+}
+
+export function findScriptNode(script: ScenarioScript, nodeId: string): ScriptNode | null {
+  return script.nodes.find((node) => node.id === nodeId) ?? null;
+}
+
+export function startScriptProgress(script: ScenarioScript): ScriptProgress {
+  return { nodeId: script.startNodeId, score: 0, path: [] };
+}
+
+/**
+ * Intent whose example phrase the message covers best. Ties go to the intent
+ * listed first so the same message always classifies the same way.
+ */
+export function classifyIntent(script: ScenarioScript, message: string): string | null {
+  const messageWords = new Set(words(message));
+  let bestIntentId: string | null = null;
+  let bestCoverage = INTENT_MATCH_THRESHOLD;
+
+  for (const intent of script.intents) {
+    for (const phrase of intent.phrases) {
+      const phraseWords = words(phrase);
+      if (phraseWords.length === 0) continue;
+      const coverage = phraseWords.filter((w) => messageWords.has(w)).length / phraseWords.length;
+      if (coverage > bestCoverage || (coverage === bestCoverage && !bestIntentId)) {
+        bestIntentId = intent.id;
+        bestCoverage = coverage;
+      }
+    }
+  }
+
+  return bestIntentId;
+}
+
+/**
+ * First branch with one of its keywords in the message as whole words, else
+ * the first branch for the classified intent.
+ */
+export function matchBranch(node: ScriptNode, message: string, intentId: string | null): ScriptBranch | null {
+  const normalized = ` ${normalizeScriptText(message)} `;
+  const byKeyword = node.branches.find((branch) =>
+    branch.keywords.some((keyword) => {
+      const needle = normalizeScriptText(keyword);
+      return needle !== '' && normalized.includes(` ${needle} `);
+    })
+  );
+  if (byKeyword) return byKeyword;
+  if (!intentId) return null;
+  return node.branches.find((branch) => branch.intentId === intentId) ?? null;
+}
+
+/** Client's reply to one trainee message */
+export function runScriptTurn(script: ScenarioScript, progress: ScriptProgress, message: string): ScriptTurnResult {
+  const current = findScriptNode(script, progress.nodeId);
+  if (!current) {
+    throw new Error(`Script node "${progress.nodeId}" does not exist`);
+  }
+
+  const intentId = classifyIntent(script, message);
+  const branch = matchBranch(current, message, intentId);
+  const next = branch ? findScriptNode(script, branch.nextNodeId) : null;
+
+  if (!branch || !next) {
+    return {
+      node: current,
+      branch: null,
+      intentId,
+      clientResponse: current.fallbackLine,
+      progress: {
+        ...progress,
+        path: [...progress.path, { nodeId: current.id, branchId: null, score: 0 }],
+      },
+      ended: false,
+    };
+  }
+
+  return {
+    node: next,
+    branch,
+    intentId,
+    clientResponse: next.clientLine,
+    progress: {
+      nodeId: next.id,
+      score: progress.score + branch.score,
+      path: [...progress.path, { nodeId: current.id, branchId: branch.id, score: branch.score }],
+    },
+    ended: next.branches.length === 0,
+  };
+}
+
+/**
+ * Best total reachable from the start node. Loops back to an earlier node
+ * are not followed, so a script cannot score more by going round in circles.
+ */
+export function maxScriptScore(script: ScenarioScript): number {
+  const best = (nodeId: string, visited: string[]): number => {
+    const node = findScriptNode(script, nodeId);
+    if (!node || visited.includes(nodeId)) return 0;
+    const options = node.branches.map((branch) => branch.score + best(branch.nextNodeId, [...visited, nodeId]));
+    return options.length > 0 ? Math.max(0, ...options) : 0;
+  };
+  return best(script.startNodeId, []);
+}
+
+/**
+ * Reads a script as authored in the scenario editor. Missing optional fields
+ * get their defaults so validation can report what is actually wrong.
+ */
+export function parseScript(text: string, isRTL: boolean): { script: ScenarioScript | null; error: string | null } {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { script: null, error: isRTL ? 'صيغة JSON غير صحيحة' : 'The script is not valid JSON' };
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.nodes)) {
+    return { script: null, error: isRTL ? 'السيناريو يحتاج قائمة "nodes"' : 'The script needs a "nodes" list' };
+  }
+
+  const asStrings = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+  const script: ScenarioScript = {
+    startNodeId: String(raw.startNodeId ?? raw.nodes[0]?.id ?? ''),
+    passingScore: Number(raw.passingScore ?? 70),
+    intents: (Array.isArray(raw.intents) ? raw.intents : []).map((intent: any) => ({
+      id: String(intent.id ?? ''),
+      labelEn: String(intent.labelEn ?? intent.id ?? ''),
+      labelAr: String(intent.labelAr ?? intent.labelEn ?? intent.id ?? ''),
+      phrases: asStrings(intent.phrases),
+    })),
+    nodes: raw.nodes.map((node: any) => ({
+      id: String(node.id ?? ''),
+      clientLine: String(node.clientLine ?? ''),
+      sentiment: node.sentiment ?? 'neutral',
+      conversationState: node.conversationState ?? 'discovery',
+      expectedIntentIds: asStrings(node.expectedIntentIds),
+      fallbackLine: String(node.fallbackLine ?? ''),
+      speakerId: node.speakerId ? String(node.speakerId) : null,
+      branches: (Array.isArray(node.branches) ? node.branches : []).map((branch: any) => ({
+        id: String(branch.id ?? ''),
+        keywords: asStrings(branch.keywords),
+        intentId: branch.intentId ? String(branch.intentId) : null,
+        score: Number(branch.score ?? 0),
+        nextNodeId: String(branch.nextNodeId ?? ''),
+      })),
+    })),
+  };
+
+  const error = validateScript(script, isRTL);
+  return { script: error ? null : script, error };
+}
+
+/** First authoring mistake that would break a run, or null when the script is playable */
+export function validateScript(script: ScenarioScript, isRTL: boolean): string | null {
+  const nodeIds = script.nodes.map((node) => node.id);
+  const intentIds = script.intents.map((intent) => intent.id);
+
+  if (script.nodes.length === 0) return isRTL ? 'السيناريو لا يحتوي على أي عقدة' : 'The script has no nodes';
+  if (new Set(nodeIds).size !== nodeIds.length) return isRTL ? 'معرفات العقد مكررة' : 'Node ids must be unique';
+  if (!nodeIds.includes(script.startNodeId)) {
+    return isRTL ? `عقدة البداية "${script.startNodeId}" غير موجودة` : `Start node "${script.startNodeId}" does not exist`;
+  }
+  if (!(script.passingScore >= 0 && script.passingScore <= 100)) {
+    return isRTL ? 'درجة النجاح يجب أن تكون بين 0 و 100' : 'Passing score must be between 0 and 100';
+  }
+
+  for (const node of script.nodes) {
+    if (!node.clientLine.trim()) {
+      return isRTL ? `العقدة "${node.id}" بدون جملة للعميل` : `Node "${node.id}" has no client line`;
+    }
+    if (node.branches.length > 0 && !node.fallbackLine.trim()) {
+      return isRTL ? `العقدة "${node.id}" تحتاج رداً احتياطياً` : `Node "${node.id}" needs a fallback line`;
+    }
+    const unknownIntent = node.expectedIntentIds.find((id) => !intentIds.includes(id));
+    if (unknownIntent) {
+      return isRTL ? `النية "${unknownIntent}" غير معرفة` : `Intent "${unknownIntent}" is not defined`;
+    }
+    for (const branch of node.branches) {
+      if (!nodeIds.includes(branch.nextNodeId)) {
+        return isRTL
+          ? `الفرع "${branch.id}" يشير إلى عقدة غير موجودة "${branch.nextNodeId}"`
+          : `Branch "${branch.id}" points to missing node "${branch.nextNodeId}"`;
+      }
+      if (branch.intentId && !intentIds.includes(branch.intentId)) {
+        return isRTL ? `النية "${branch.intentId}" غير معرفة` : `Intent "${branch.intentId}" is not defined`;
+      }
+      if (branch.keywords.length === 0 && !branch.intentId) {
+        return isRTL
+          ? `الفرع "${branch.id}" يحتاج كلمات مفتاحية أو نية`
+          : `Branch "${branch.id}" needs keywords or an intent`;
+      }
+    }
+  }
+
+  if (!script.nodes.some((node) => node.branches.length === 0)) {
+    return isRTL ? 'أضف عقدة نهاية واحدة على الأقل (بدون فروع)' : 'Add at least one ending node (a node without branches)';
+  }
+  return null;
+}
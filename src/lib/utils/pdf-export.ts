@@ -559,6 +559,53 @@ export async function exportChatTranscriptToPDF(
   }
 }
 
+// A4 landscape at 96 dpi; certificate pages are laid out at this size
+export const CERTIFICATE_PAGE_PX = { width: 1123, height: 794 };
+
+// Logos on other hosts may block cross-origin reads; print a blank instead of failing
+const TRANSPARENT_PIXEL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Certificate PDF - one landscape A4 page per element (e.g. the English and
+ * Arabic versions). Pages are rendered as images for proper Arabic support.
+ */
+export async function exportCertificateToPDF(pages: HTMLElement[], filename: string = 'certificate.pdf'): Promise<void> {
+  if (pages.length === 0) {
+    throw new Error('No certificate pages to export');
+  }
+
+  // Wait for fonts and the logo to load
+  await document.fonts.ready;
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const htmlToImage = await getHtmlToImage();
+  const pdf = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  for (let i = 0; i < pages.length; i++) {
+    const dataUrl = await htmlToImage.toPng(pages[i], {
+      quality: 1,
+      pixelRatio: 2,
+      backgroundColor: '#ffffff',
+      width: CERTIFICATE_PAGE_PX.width,
+      height: CERTIFICATE_PAGE_PX.height,
+      imagePlaceholder: TRANSPARENT_PIXEL,
+    });
+    if (i > 0) {
+      pdf.addPage();
+    }
+    pdf.addImage(dataUrl, 'PNG', 0, 0, pageWidth, pageHeight);
+  }
+
+  pdf.save(filename);
+}
+
 export function downloadJSON(data: object, filename: string = 'data.json'): void {
   const json = JSON.stringify(data, null, 2);
   const blob = new Blob([json], { type: 'application/json' });
@@ -574,6 +621,24 @@ export function downloadJSON(data: object, filename: string = 'data.json'): void
   URL.revokeObjectURL(url);
 }
 
+export function downloadText(
+  content: string,
+  filename: string = 'data.txt',
+  mimeType: string = 'text/plain;charset=utf-8;'
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
 export function downloadCSV(
   data: Record<string, unknown>[],
   filename: string = 'data.csv'
@@ -31,14 +31,8 @@ export interface TextReportData {
     overallScore: number;
     grade: string;
     summary: string;
-    skillScores: {
-      communication: { score: number; tips: string[] };
-      negotiation: { score: number; tips: string[] };
-      objectionHandling: { score: number; tips: string[] };
-      relationshipBuilding: { score: number; tips: string[] };
-      productKnowledge: { score: number; tips: string[] };
-      closingTechnique: { score: number; tips: string[] };
-    };
+    /** Built-in skills or the scenario rubric's criteria, in display order; `label` is Arabic */
+    skills: Array<{ key: string; label: string; score: number; tips: string[] }>;
     highlights: string[];
     improvementAreas: string[];
     conversationMetrics: {
@@ -138,16 +132,6 @@ const personalityLabels: Record<string, string> = {
   analytical: 'تحليلي',
 };
 
-// Arabic skill labels
-const skillLabels: Record<string, string> = {
-  communication: 'التواصل',
-  negotiation: 'التفاوض',
-  objectionHandling: 'معالجة الاعتراضات',
-  relationshipBuilding: 'بناء العلاقات',
-  productKnowledge: 'معرفة المنتج',
-  closingTechnique: 'تقنيات الإغلاق',
-};
-
 export async function generateTextReportPDF(report: TextReportData): Promise<void> {
   // Validate and sanitize all report data
   const safeReport = {
@@ -170,14 +154,12 @@ export async function generateTextReportPDF(report: TextReportData): Promise<voi
       overallScore: safeNum(report.analysis?.overallScore, 0),
       grade: safeStr(report.analysis?.grade, 'N/A'),
       summary: safeStr(report.analysis?.summary, 'لم يتم تحليل هذه الجلسة'),
-      skillScores: {
-        communication: { score: safeNum(report.analysis?.skillScores?.communication?.score, 0), tips: safeArray(report.analysis?.skillScores?.communication?.tips) },
-        negotiation: { score: safeNum(report.analysis?.skillScores?.negotiation?.score, 0), tips: safeArray(report.analysis?.skillScores?.negotiation?.tips) },
-        objectionHandling: { score: safeNum(report.analysis?.skillScores?.objectionHandling?.score, 0), tips: safeArray(report.analysis?.skillScores?.objectionHandling?.tips) },
-        relationshipBuilding: { score: safeNum(report.analysis?.skillScores?.relationshipBuilding?.score, 0), tips: safeArray(report.analysis?.skillScores?.relationshipBuilding?.tips) },
-        productKnowledge: { score: safeNum(report.analysis?.skillScores?.productKnowledge?.score, 0), tips: safeArray(report.analysis?.skillScores?.productKnowledge?.tips) },
-        closingTechnique: { score: safeNum(report.analysis?.skillScores?.closingTechnique?.score, 0), tips: safeArray(report.analysis?.skillScores?.closingTechnique?.tips) },
-      },
+      skills: (Array.isArray(report.analysis?.skills) ? report.analysis.skills : []).map((skill) => ({
+        key: safeStr(skill?.key, ''),
+        label: safeStr(skill?.label, safeStr(skill?.key, '—')),
+        score: safeNum(skill?.score, 0),
+        tips: safeArray(skill?.tips),
+      })),
       highlights: safeArray(report.analysis?.highlights, ['لم يتم تحديد نقاط القوة']),
       improvementAreas: safeArray(report.analysis?.improvementAreas, ['لم يتم تحديد نقاط الضعف']),
       conversationMetrics: {
@@ -565,10 +547,10 @@ export async function generateTextReportPDF(report: TextReportData): Promise<voi
 
         <div class="section-title">📊 تحليل المهارات</div>
         <div class="skills-grid">
-          ${Object.entries(safeReport.analysis.skillScores).map(([key, value]) => `
+          ${safeReport.analysis.skills.map((value) => `
             <div class="skill-item">
               <div class="skill-header">
-                <span class="skill-label">${skillLabels[key] || key}</span>
+                <span class="skill-label">${value.label}</span>
                 <span class="skill-score" style="color: ${getScoreColor(value.score)}">${value.score}%</span>
               </div>
               <div class="progress-bar">
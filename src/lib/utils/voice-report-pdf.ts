@@ -1,4 +1,6 @@
 import jsPDF from 'jspdf';
+import { TARGET_WPM } from '@/lib/audio/delivery-metrics';
+import type { DeliveryMetrics } from '@/types/simulation.types';
 
 /**
  * Voice Training Report PDF Generator
@@ -28,6 +30,8 @@ export interface VoiceReportData {
   weaknesses: string[];
   improvements: string[];
   summary: string;
+  /** Speech delivery metrics, when the call recorded them */
+  delivery?: DeliveryMetrics | null;
 }
 
 // Safe number helper - prevents NaN in PDF
@@ -99,6 +103,74 @@ function formatDate(dateString: string): string {
   }
 }
 
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} ث`;
+  const secs = Math.round(seconds % 60);
+  return `${Math.floor(seconds / 60)}:${secs.toString().padStart(2, '0')} د`;
+}
+
+function renderDelivery(delivery: DeliveryMetrics): string {
+  const fillerWords = [...delivery.fillers.arabic, ...delivery.fillers.english]
+    .map((filler) => `${filler.word} × ${filler.count}`)
+    .join('، ');
+  const items = [
+    {
+      label: 'معدل الكلام',
+      value: `${safeNum(delivery.wordsPerMinute, 0)} كلمة/دقيقة`,
+      hint: `المستهدف ${TARGET_WPM.min}-${TARGET_WPM.max}`,
+    },
+    { label: 'كلمات الحشو', value: `${safeNum(delivery.fillers.total, 0)}`, hint: fillerWords },
+    { label: 'أطول حديث متواصل', value: formatSeconds(safeNum(delivery.longestMonologueSeconds, 0)), hint: '' },
+    { label: 'المقاطعات', value: `${safeNum(delivery.interruptions, 0)}`, hint: '' },
+    {
+      label: 'فترات الصمت',
+      value: `${safeNum(delivery.silenceGaps.count, 0)}`,
+      hint: delivery.silenceGaps.count > 0 ? `الأطول ${formatSeconds(delivery.silenceGaps.longestSeconds)}` : '',
+    },
+    {
+      label: 'نسبة وقت الحديث',
+      value: `${Math.round(safeNum(delivery.talkTimeRatio, 0) * 100)}%`,
+      hint: 'المتدرب مقابل العميل',
+    },
+  ];
+
+  const durationMs = Math.max(delivery.durationSeconds * 1000, ...delivery.timeline.map((s) => s.endMs), 1);
+  const pct = (ms: number) => Math.min(100, (ms / durationMs) * 100).toFixed(2);
+  const lane = (speaker: 'trainee' | 'client', label: string, color: string) => `
+    <div class="timeline-lane">
+      <span class="timeline-label">${label}</span>
+      <div class="timeline-track">
+        ${delivery.timeline
+          .filter((segment) => segment.speaker === speaker)
+          .map((segment) => `<div class="timeline-segment" style="left: ${pct(segment.startMs)}%; width: ${pct(segment.endMs - segment.startMs)}%; background: ${color}"></div>`)
+          .join('')}
+        ${speaker === 'trainee'
+          ? delivery.interruptionsAtMs.map((at) => `<div class="timeline-interruption" style="left: ${pct(at)}%"></div>`).join('')
+          : ''}
+      </div>
+    </div>
+  `;
+
+  return `
+    <div class="section-title">🎙️ أسلوب الإلقاء</div>
+    <div class="breakdown-grid">
+      ${items.map((item) => `
+        <div class="breakdown-item">
+          <div class="breakdown-label">${item.label}</div>
+          <div class="delivery-value">${item.value}</div>
+          ${item.hint ? `<div class="delivery-hint">${item.hint}</div>` : ''}
+        </div>
+      `).join('')}
+    </div>
+    ${delivery.timeline.length > 0 ? `
+      <div class="timeline">
+        ${lane('trainee', 'المتدرب', '#3b82f6')}
+        ${lane('client', 'العميل', '#fb923c')}
+      </div>
+    ` : ''}
+  `;
+}
+
 export async function generateVoiceReportPDF(report: VoiceReportData): Promise<void> {
   // Validate and sanitize all report data
   const safeReport = {
@@ -122,6 +194,7 @@ export async function generateVoiceReportPDF(report: VoiceReportData): Promise<v
     weaknesses: safeArray(report.weaknesses, ['لم يتم تحديد نقاط الضعف']),
     improvements: safeArray(report.improvements, ['لم يتم تحديد اقتراحات']),
     summary: safeStr(report.summary, 'لم يتم تحليل هذه الجلسة'),
+    delivery: report.delivery ?? null,
   };
 
   const durationMins = Math.round(safeReport.durationSeconds / 60);
@@ -138,6 +211,8 @@ export async function generateVoiceReportPDF(report: VoiceReportData): Promise<v
     { label: 'التواصل', score: safeReport.breakdown.communication },
   ];
 
+  const deliveryHtml = safeReport.delivery ? renderDelivery(safeReport.delivery) : '';
+
   // Create HTML content for the report
   const htmlContent = `
     <!DOCTYPE html>
@@ -289,6 +364,63 @@ export async function generateVoiceReportPDF(report: VoiceReportData): Promise<v
           transition: width 0.3s;
         }
 
+        .delivery-value {
+          font-size: 18px;
+          font-weight: 700;
+          color: #1e293b;
+        }
+
+        .delivery-hint {
+          font-size: 11px;
+          color: #94a3b8;
+        }
+
+        .timeline {
+          background: white;
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          padding: 12px;
+          margin-bottom: 20px;
+          direction: ltr;
+        }
+
+        .timeline-lane {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 6px;
+        }
+
+        .timeline-label {
+          width: 50px;
+          font-size: 11px;
+          color: #64748b;
+          text-align: right;
+        }
+
+        .timeline-track {
+          position: relative;
+          flex: 1;
+          height: 14px;
+          background: #f1f5f9;
+          border-radius: 3px;
+        }
+
+        .timeline-segment {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          border-radius: 2px;
+        }
+
+        .timeline-interruption {
+          position: absolute;
+          top: -3px;
+          bottom: -3px;
+          width: 2px;
+          background: #ef4444;
+        }
+
         .feedback-section {
           border-radius: 10px;
           padding: 15px;
@@ -414,6 +546,8 @@ export async function generateVoiceReportPDF(report: VoiceReportData): Promise<v
           `).join('')}
         </div>
 
+        ${deliveryHtml}
+
         <div class="feedback-section strengths">
           <div class="section-title">✓ نقاط القوة</div>
           <ul class="feedback-list">
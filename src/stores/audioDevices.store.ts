@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { AudioDeviceSelection } from '@/lib/audio/devices';
+
+interface AudioDevicesState {
+  // Saved microphone/speaker per user id, so a shared machine keeps each trainee's choice
+  byUser: Record<string, AudioDeviceSelection>;
+  setSelection: (userId: string, selection: AudioDeviceSelection) => void;
+}
+
+export const useAudioDevicesStore = create<AudioDevicesState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+
+      setSelection: (userId: string, selection: AudioDeviceSelection) => {
+        set((state) => ({ byUser: { ...state.byUser, [userId]: selection } }));
+      },
+    }),
+    {
+      name: 'audio-devices',
+      storage: createJSONStorage(() =>
+        typeof window !== 'undefined' ? localStorage : {
+          getItem: () => null,
+          setItem: () => {},
+          removeItem: () => {},
+        }
+      ),
+    }
+  )
+);
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { authApi } from '@/lib/api/auth.api';
+import { clearOfflineFlashcards } from '@/lib/flashcards/offline-db';
 
 // Multi-tenant role types (including SaaS Super Admin)
 export type UserRole = 'trainee' | 'trainer' | 'org_admin' | 'saas_super_admin';
@@ -39,22 +41,51 @@ interface User {
 interface ImpersonationState {
   originalToken: string;
   originalUser: User;
+  originalRefreshToken?: string | null;
+  originalExpiresAt?: number | null;
   impersonatedOrgId: string;
   impersonatedOrgName: string;
 }
 
+interface SessionTokens {
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
 interface AuthState {
   token: string | null;
+  refreshToken: string | null;
+  // Access token expiry as epoch milliseconds (null when unknown)
+  expiresAt: number | null;
   user: User | null;
   isAuthenticated: boolean;
   impersonation: ImpersonationState | null;
-  setAuth: (token: string, user: User) => void;
+  setAuth: (token: string, user: User, session?: SessionTokens) => void;
+  setTokens: (token: string, session?: SessionTokens) => void;
+  refreshSession: () => Promise<string | null>;
   logout: () => void;
   startImpersonation: (impersonationToken: string, orgId: string, orgName: string) => void;
   endImpersonation: () => void;
   isImpersonating: () => boolean;
 }
 
+/**
+ * Work out when an access token expires: from the server-provided lifetime if we have it,
+ * otherwise from the JWT `exp` claim.
+ */
+export function getTokenExpiry(token: string, expiresIn?: number): number | null {
+  if (expiresIn) return Date.now() + expiresIn * 1000;
+
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof json.exp === 'number' ? json.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
 // Permission hooks and helpers
 export function usePermissions() {
   const user = useAuthStore((state) => state.user);
@@ -91,11 +122,13 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       token: null,
+      refreshToken: null,
+      expiresAt: null,
       user: null,
       isAuthenticated: false,
       impersonation: null,
 
-      setAuth: (token: string, user: User) => {
+      setAuth: (token: string, user: User, session?: SessionTokens) => {
         if (typeof window !== 'undefined') {
           localStorage.setItem('auth_token', token);
         }
@@ -104,18 +137,60 @@ export const useAuthStore = create<AuthState>()(
           ...user,
           role: normalizeRole(user.role),
         };
-        set({ token, user: normalizedUser, isAuthenticated: true });
+        set({
+          token,
+          refreshToken: session?.refreshToken ?? null,
+          expiresAt: getTokenExpiry(token, session?.expiresIn),
+          user: normalizedUser,
+          isAuthenticated: true,
+        });
+      },
+
+      setTokens: (token: string, session?: SessionTokens) => {
+        if (typeof window !== 'undefined') {
+          localStorage.setItem('auth_token', token);
+        }
+        set((state) => ({
+          token,
+          // Keep the current refresh token unless the server rotated it
+          refreshToken: session?.refreshToken ?? state.refreshToken,
+          expiresAt: getTokenExpiry(token, session?.expiresIn),
+        }));
+      },
+
+      refreshSession: async () => {
+        const { refreshToken, impersonation } = get();
+        // Impersonation tokens are short-lived by design and never renewed
+        if (!refreshToken || impersonation) return null;
+
+        const result = await authApi.refresh(refreshToken);
+        get().setTokens(result.accessToken, {
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn,
+        });
+        return result.accessToken;
       },
 
       logout: () => {
         if (typeof window !== 'undefined') {
           localStorage.removeItem('auth_token');
           localStorage.removeItem('impersonation_token');
+          // A saved simulation belongs to the user signing out
+          localStorage.removeItem('simulation-session');
+          // So do offline flashcard ratings and cached due cards
+          clearOfflineFlashcards().catch(() => undefined);
           // Clear session storage to reset diagnostic and teacher states
           sessionStorage.removeItem('diagnostic-assessment');
           sessionStorage.removeItem('teacher-assignment');
         }
-        set({ token: null, user: null, isAuthenticated: false, impersonation: null });
+        set({
+          token: null,
+          refreshToken: null,
+          expiresAt: null,
+          user: null,
+          isAuthenticated: false,
+          impersonation: null,
+        });
       },
 
       startImpersonation: (impersonationToken: string, orgId: string, orgName: string) => {
@@ -126,6 +201,8 @@ export const useAuthStore = create<AuthState>()(
         const impersonationState: ImpersonationState = {
           originalToken: state.token,
           originalUser: state.user,
+          originalRefreshToken: state.refreshToken,
+          originalExpiresAt: state.expiresAt,
           impersonatedOrgId: orgId,
           impersonatedOrgName: orgName,
         };
@@ -145,6 +222,7 @@ export const useAuthStore = create<AuthState>()(
 
         set({
           token: impersonationToken,
+          expiresAt: getTokenExpiry(impersonationToken),
           user: impersonatedUser,
           impersonation: impersonationState,
         });
@@ -162,6 +240,8 @@ export const useAuthStore = create<AuthState>()(
 
         set({
           token: state.impersonation.originalToken,
+          refreshToken: state.impersonation.originalRefreshToken ?? null,
+          expiresAt: state.impersonation.originalExpiresAt ?? null,
           user: state.impersonation.originalUser,
           impersonation: null,
         });
@@ -173,7 +253,13 @@ export const useAuthStore = create<AuthState>()(
     }),
     {
       name: 'auth-storage',
-      partialize: (state) => ({ token: state.token, user: state.user, impersonation: state.impersonation }),
+      partialize: (state) => ({
+        token: state.token,
+        refreshToken: state.refreshToken,
+        expiresAt: state.expiresAt,
+        user: state.user,
+        impersonation: state.impersonation,
+      }),
       // Sync auth_token to localStorage on rehydration for API client
       onRehydrateStorage: () => (state) => {
         if (state?.token && typeof window !== 'undefined') {
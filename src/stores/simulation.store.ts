@@ -1,36 +1,78 @@
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
-import type { ClientPersona, ConversationTurn, Sentiment } from '@/types/entities';
+import { devtools, persist } from 'zustand/middleware';
+import type {
+  ClientPersona,
+  ConversationTurn,
+  Sentiment,
+  SimulationScenarioType,
+  SimulationSession,
+} from '@/types/entities';
 import type {
   ConversationState,
+  DifficultyLevel,
+  StartSimulationInput,
   SimulationOutcome,
   StartSimulationOutput,
   SimulationMessageOutput,
   EndSimulationOutput,
   SimulationAnalysisOutput,
+  PropertyListing,
 } from '@/types/simulation.types';
 
 type SimulationStatus = 'idle' | 'initializing' | 'ready' | 'in_progress' | 'ending' | 'analyzing' | 'completed' | 'error';
 
+/**
+ * What survives a page reload of an unfinished chat. The transcript itself is
+ * reloaded from the server; everything else the server does not return is kept here.
+ */
+export interface ResumableSession {
+  sessionId: string;
+  /** Who started it; another user signing in on the same browser never sees it */
+  userId: string;
+  scenarioType: SimulationScenarioType;
+  difficultyLevel: DifficultyLevel;
+  scenarioContext: string | null;
+  listing: PropertyListing | null;
+  conversationState: ConversationState | null;
+  currentSentiment: Sentiment;
+  turnNumber: number;
+  elapsedTimeSeconds: number;
+  hints: string[];
+  /** Missing on chats saved before scripts moved to the server */
+  isScripted?: boolean;
+  additionalPersonas: ClientPersona[];
+  /** Epoch ms of the last message in either direction */
+  lastActivityAt: number;
+}
+
 interface SimulationState {
   sessionId: string | null;
   status: SimulationStatus;
   clientPersona: ClientPersona | null;
+  /** Other parties in multi-party scenarios */
+  additionalPersonas: ClientPersona[];
   scenarioContext: string | null;
+  listing: PropertyListing | null;
   conversationState: ConversationState | null;
   messages: ConversationTurn[];
   currentSentiment: Sentiment;
   turnNumber: number;
   elapsedTimeSeconds: number;
   hints: string[];
+  /** The server answers from the scenario's script instead of the AI model */
+  isScripted: boolean;
   outcome: SimulationOutcome | null;
   preliminaryScore: number | null;
   analysis: SimulationAnalysisOutput | null;
   isTyping: boolean;
   isSending: boolean;
   error: string | null;
+  resumable: ResumableSession | null;
 
-  initializeSession: (data: StartSimulationOutput) => void;
+  /** `resumeOwnerId` saves the chat for resuming after a reload; null doesn't (e.g. diagnostic runs) */
+  initializeSession: (data: StartSimulationOutput, input: StartSimulationInput, resumeOwnerId: string | null) => void;
+  restoreSession: (session: SimulationSession, saved: ResumableSession) => void;
+  discardResumable: () => void;
   addTraineeMessage: (message: string) => void;
   handleClientResponse: (response: SimulationMessageOutput) => void;
   completeSimulation: (result: EndSimulationOutput) => void;
@@ -46,101 +88,177 @@ const initialState = {
   sessionId: null,
   status: 'idle' as SimulationStatus,
   clientPersona: null,
+  additionalPersonas: [],
   scenarioContext: null,
+  listing: null,
   conversationState: null,
   messages: [],
   currentSentiment: 'neutral' as Sentiment,
   turnNumber: 0,
   elapsedTimeSeconds: 0,
   hints: [],
+  isScripted: false,
   outcome: null,
   preliminaryScore: null,
   analysis: null,
   isTyping: false,
   isSending: false,
   error: null,
+  resumable: null,
 };
 
 export const useSimulationStore = create<SimulationState>()(
   devtools(
-    (set, get) => ({
-      ...initialState,
+    persist(
+      (set, get) => ({
+        ...initialState,
 
-      initializeSession: (data: StartSimulationOutput) => {
-        set({
-          sessionId: data.sessionId,
-          status: data.status === 'ready' ? 'ready' : 'initializing',
-          clientPersona: data.clientPersona,
-          scenarioContext: data.scenarioContext,
-          conversationState: 'opening',
-          messages: [
+        initializeSession: (data: StartSimulationOutput, input: StartSimulationInput, resumeOwnerId: string | null) => {
+          const isScripted = data.isScripted ?? false;
+          set({
+            sessionId: data.sessionId,
+            status: data.status === 'ready' ? 'ready' : 'initializing',
+            clientPersona: data.clientPersona,
+            additionalPersonas: data.additionalPersonas ?? [],
+            scenarioContext: data.scenarioContext,
+            listing: data.listing ?? null,
+            conversationState: 'opening',
+            messages: [
+              {
+                speaker: 'client',
+                message: data.initialClientMessage,
+                timestamp: new Date(),
+                sentiment: 'neutral',
+                detectedIntent: null,
+              },
+            ],
+            hints: data.tips,
+            isScripted,
+            error: null,
+            resumable: resumeOwnerId ? {
+              sessionId: data.sessionId,
+              userId: resumeOwnerId,
+              scenarioType: input.scenarioType,
+              difficultyLevel: input.difficultyLevel,
+              scenarioContext: data.scenarioContext,
+              listing: data.listing ?? null,
+              conversationState: 'opening',
+              currentSentiment: 'neutral',
+              turnNumber: 0,
+              elapsedTimeSeconds: 0,
+              hints: data.tips,
+              isScripted,
+              additionalPersonas: data.additionalPersonas ?? [],
+              lastActivityAt: Date.now(),
+            } : null,
+          });
+        },
+
+        restoreSession: (session: SimulationSession, saved: ResumableSession) => {
+          const messages = session.transcript.map((turn) => ({ ...turn, timestamp: new Date(turn.timestamp) }));
+          set({
+            sessionId: session.id,
+            status: messages.some((m) => m.speaker === 'trainee') ? 'in_progress' : 'ready',
+            clientPersona: session.clientPersona,
+            additionalPersonas: session.additionalPersonas ?? saved.additionalPersonas ?? [],
+            scenarioContext: saved.scenarioContext,
+            listing: saved.listing,
+            conversationState: saved.conversationState,
+            messages,
+            currentSentiment: saved.currentSentiment,
+            turnNumber: saved.turnNumber,
+            elapsedTimeSeconds: saved.elapsedTimeSeconds,
+            hints: saved.hints,
+            isScripted: saved.isScripted ?? false,
+            error: null,
+            resumable: { ...saved, lastActivityAt: Date.now() },
+          });
+        },
+
+        discardResumable: () => set({ resumable: null }),
+
+        addTraineeMessage: (message: string) => {
+          const newMessage: ConversationTurn = {
+            speaker: 'trainee',
+            message,
+            timestamp: new Date(),
+            sentiment: null,
+            detectedIntent: null,
+          };
+          set((state) => ({
+            messages: [...state.messages, newMessage],
+            status: 'in_progress',
+            resumable: state.resumable && { ...state.resumable, lastActivityAt: Date.now() },
+          }));
+        },
+
+        handleClientResponse: (response: SimulationMessageOutput) => {
+          const replies: ConversationTurn[] = [
             {
               speaker: 'client',
-              message: data.initialClientMessage,
+              speakerId: response.speakerId ?? null,
+              message: response.clientResponse,
               timestamp: new Date(),
-              sentiment: 'neutral',
+              sentiment: response.sentiment,
               detectedIntent: null,
             },
-          ],
-          hints: data.tips,
-          error: null,
-        });
-      },
-
-      addTraineeMessage: (message: string) => {
-        const newMessage: ConversationTurn = {
-          speaker: 'trainee',
-          message,
-          timestamp: new Date(),
-          sentiment: null,
-          detectedIntent: null,
-        };
-        set((state) => ({
-          messages: [...state.messages, newMessage],
-          status: 'in_progress',
-        }));
-      },
-
-      handleClientResponse: (response: SimulationMessageOutput) => {
-        const clientMessage: ConversationTurn = {
-          speaker: 'client',
-          message: response.clientResponse,
-          timestamp: new Date(),
-          sentiment: response.sentiment,
-          detectedIntent: null,
-        };
-        set((state) => ({
-          messages: [...state.messages, clientMessage],
-          currentSentiment: response.sentiment,
-          conversationState: response.conversationState,
-          turnNumber: response.turnNumber,
-          elapsedTimeSeconds: response.elapsedTimeSeconds,
-          hints: response.hints,
-          isTyping: false,
-        }));
-      },
+            ...(response.additionalResponses ?? []).map((reply) => ({
+              speaker: 'client' as const,
+              speakerId: reply.speakerId,
+              message: reply.message,
+              timestamp: new Date(),
+              sentiment: reply.sentiment,
+              detectedIntent: null,
+            })),
+          ];
+          set((state) => ({
+            messages: [...state.messages, ...replies],
+            currentSentiment: response.sentiment,
+            conversationState: response.conversationState,
+            turnNumber: response.turnNumber,
+            elapsedTimeSeconds: response.elapsedTimeSeconds,
+            hints: response.hints,
+            isTyping: false,
+            resumable: state.resumable && {
+              ...state.resumable,
+              conversationState: response.conversationState,
+              currentSentiment: response.sentiment,
+              turnNumber: response.turnNumber,
+              elapsedTimeSeconds: response.elapsedTimeSeconds,
+              hints: response.hints,
+              lastActivityAt: Date.now(),
+            },
+          }));
+        },
 
-      completeSimulation: (result: EndSimulationOutput) => {
-        set({
-          status: 'ending',
-          outcome: result.outcome,
-          preliminaryScore: result.preliminaryScore,
-        });
-      },
+        completeSimulation: (result: EndSimulationOutput) => {
+          set({
+            status: 'ending',
+            outcome: result.outcome,
+            preliminaryScore: result.preliminaryScore,
+            resumable: null,
+          });
+        },
 
-      setAnalyzing: () => {
-        set({ status: 'analyzing' });
-      },
+        setAnalyzing: () => {
+          set({ status: 'analyzing' });
+        },
 
-      setAnalysis: (analysis: SimulationAnalysisOutput) => {
-        set({ analysis, status: 'completed' });
-      },
+        setAnalysis: (analysis: SimulationAnalysisOutput) => {
+          set({ analysis, status: 'completed' });
+        },
 
-      setTyping: (isTyping: boolean) => set({ isTyping }),
-      setSending: (isSending: boolean) => set({ isSending }),
-      setError: (error: string | null) => set({ error, status: error ? 'error' : get().status }),
-      reset: () => set(initialState),
-    }),
+        setTyping: (isTyping: boolean) => set({ isTyping }),
+        setSending: (isSending: boolean) => set({ isSending }),
+        setError: (error: string | null) => set({ error, status: error ? 'error' : get().status }),
+        reset: () => set(initialState),
+      }),
+      {
+        name: 'simulation-session',
+        // Only the resume pointer is stored; the rest is rebuilt from the server
+        partialize: (state) => ({ resumable: state.resumable }),
+      }
+    ),
     { name: 'simulation-store' }
   )
 );
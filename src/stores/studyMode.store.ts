@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { StudyMode } from '@/types/flashcard';
+
+const DEFAULT_STUDY_MODE: StudyMode = 'flip';
+
+interface StudyModeState {
+  // Last mode chosen for each deck, keyed by deck id
+  modes: Record<string, StudyMode>;
+  getMode: (deckId: string) => StudyMode;
+  setMode: (deckId: string, mode: StudyMode) => void;
+}
+
+export const useStudyModeStore = create<StudyModeState>()(
+  persist(
+    (set, get) => ({
+      modes: {},
+
+      getMode: (deckId: string) => get().modes[deckId] ?? DEFAULT_STUDY_MODE,
+
+      setMode: (deckId: string, mode: StudyMode) => {
+        set({ modes: { ...get().modes, [deckId]: mode } });
+      },
+    }),
+    {
+      name: 'flashcard-study-mode',
+      partialize: (state) => ({ modes: state.modes }),
+    }
+  )
+);
@@ -0,0 +1,93 @@
+// ---- Certificate Types ----
+export type CertificateSource = 'quiz' | 'course';
+export type CertificateStatus = 'valid' | 'revoked';
+/** Languages printed on the certificate; `both` gives an English and an Arabic page */
+export type CertificateLanguage = 'en' | 'ar' | 'both';
+
+export interface CertificateTemplate {
+  titleEn: string;
+  titleAr: string;
+  /** Supports {name}, {achievement}, {date} and {score} placeholders */
+  bodyEn: string;
+  bodyAr: string;
+  signatoryName: string;
+  signatoryNameAr: string;
+  signatoryTitle: string;
+  signatoryTitleAr: string;
+  accentColor: string;
+  language: CertificateLanguage;
+  showScore: boolean;
+}
+
+/** Organization branding printed on every certificate */
+export interface CertificateBranding {
+  name: string;
+  nameAr: string | null;
+  logoUrl: string | null;
+}
+
+export interface Certificate {
+  id: string;
+  verificationCode: string;
+  source: CertificateSource;
+  /** Quiz or course the certificate was earned for */
+  sourceId: string;
+  achievementTitle: string;
+  achievementTitleAr: string | null;
+  recipientName: string;
+  /** Quiz score in percent; null for courses */
+  score: number | null;
+  issuedAt: string;
+  status: CertificateStatus;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  /** Template and branding as they were when the certificate was issued */
+  template: CertificateTemplate;
+  branding: CertificateBranding;
+}
+
+/** What the public verification page gets; no ids or trainee contact details */
+export type CertificateVerification = Pick<
+  Certificate,
+  | 'verificationCode'
+  | 'source'
+  | 'achievementTitle'
+  | 'achievementTitleAr'
+  | 'recipientName'
+  | 'score'
+  | 'issuedAt'
+  | 'status'
+  | 'revokedAt'
+  | 'branding'
+>;
+
+// ---- Admin Types ----
+/** Which achievements issue a certificate */
+export type CertificateRule = 'all' | 'selected' | 'none';
+
+export interface CertificateSettings {
+  quizRule: CertificateRule;
+  /** Used when `quizRule` is `selected` */
+  quizIds: string[];
+  courseRule: CertificateRule;
+  /** Used when `courseRule` is `selected` */
+  courseIds: string[];
+  template: CertificateTemplate;
+  /** From the organization settings (name and logo); read-only here */
+  branding: CertificateBranding;
+}
+
+export type UpdateCertificateSettingsInput = Partial<Omit<CertificateSettings, 'branding'>>;
+
+export interface IssuedCertificate extends Certificate {
+  traineeId: string;
+  traineeEmail: string;
+}
+
+export interface IssuedCertificateListParams {
+  search?: string;
+  source?: CertificateSource;
+  status?: CertificateStatus;
+  page?: number;
+  limit?: number;
+}
@@ -91,6 +91,10 @@ export type ClientPersonality = 'friendly' | 'skeptical' | 'demanding' | 'indeci
 export type Sentiment = 'positive' | 'neutral' | 'negative';
 
 export interface ClientPersona {
+  /** Identifies the party in multi-party sessions; turns refer to it as `speakerId` */
+  id?: string;
+  /** How the party relates to the deal, e.g. "Spouse" or "Buyer's lawyer" */
+  role?: string | null;
   name: string;
   background: string;
   personality: ClientPersonality;
@@ -102,6 +106,8 @@ export interface ClientPersona {
 
 export interface ConversationTurn {
   speaker: 'trainee' | 'client';
+  /** Which persona said a client turn; absent means the primary client */
+  speakerId?: string | null;
   message: string;
   timestamp: Date;
   sentiment: Sentiment | null;
@@ -130,6 +136,8 @@ export interface SimulationSession {
   traineeId: string;
   scenarioType: SimulationScenarioType;
   clientPersona: ClientPersona;
+  /** Other people in the room for multi-party scenarios */
+  additionalPersonas?: ClientPersona[];
   status: SimulationStatus;
   startedAt: Date | null;
   completedAt: Date | null;
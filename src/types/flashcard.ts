@@ -68,6 +68,16 @@ export interface DeckListItemWithProgress extends DeckListItem {
   progress: DeckProgress;
 }
 
+// ---- Study Mode Types ----
+/**
+ * - flip: show front, recall back, rate 0-5
+ * - reverse: show back, recall front, rate 0-5
+ * - typed: type the back, fuzzy-checked, then rate
+ * - multiple_choice: pick the back from sibling cards' answers
+ * - cram: every card in the deck, no scheduling and no reviews recorded
+ */
+export type StudyMode = 'flip' | 'reverse' | 'typed' | 'multiple_choice' | 'cram';
+
 // ---- Review Types ----
 export interface ReviewResult {
   cardId: string;
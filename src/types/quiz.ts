@@ -1,5 +1,21 @@
 // ---- Quiz Types for Frontend ----
 
+/**
+ * - multiple_choice / true_false: exactly one correct option
+ * - multi_select: several correct options; partial credit for each correct
+ *   pick, minus wrong picks, never below zero
+ * - ordering: options are the steps, `orderInQuestion` is the correct order
+ * - numeric: a number within `numericTolerance` of `numericAnswer`
+ * - short_answer: free text graded by the AI against the reference answer
+ */
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'ordering'
+  | 'numeric'
+  | 'short_answer';
+
 export interface QuizOption {
   id: string;
   optionText: string;
@@ -12,12 +28,19 @@ export interface QuizQuestion {
   id: string;
   questionText: string;
   questionTextAr: string | null;
-  questionType: 'multiple_choice' | 'true_false';
+  questionType: QuestionType;
   explanation: string | null;
   explanationAr: string | null;
   points: number;
   orderInQuiz: number;
   options: QuizOption[];
+  // Numeric questions; the answer and tolerance are only available in admin view
+  numericAnswer?: number | null;
+  numericTolerance?: number | null;
+  unit?: string | null;
+  // Short-answer questions (admin view only)
+  referenceAnswer?: string | null;
+  referenceAnswerAr?: string | null;
 }
 
 export interface QuizDetail {
@@ -35,7 +58,10 @@ export interface QuizDetail {
   shuffleQuestions: boolean;
   showCorrectAnswers: boolean;
   maxAttempts: number | null;
+  /** Empty for bank quizzes; each attempt gets its own draw from `startAttempt` */
   questions: QuizQuestion[];
+  questionSource?: QuestionSource;
+  drawRules?: QuestionDrawRule[];
   createdAt: string;
 }
 
@@ -54,6 +80,7 @@ export interface QuizListItem {
   isPublished: boolean;
   maxAttempts: number | null;
   quizType: 'manual' | 'ai_generated';
+  questionSource?: QuestionSource;
   createdAt: string;
 }
 
@@ -61,13 +88,48 @@ export interface ResponseResult {
   questionId: string;
   questionText: string;
   questionTextAr: string | null;
+  /** Missing on results recorded before question types were introduced */
+  questionType?: QuestionType;
   selectedOptionId: string | null;
   correctOptionId: string;
   isCorrect: boolean;
   explanation: string | null;
   explanationAr: string | null;
   points: number;
+  /** Between 0 and `points`; multi-select and short answers can earn partial credit */
   earnedPoints: number;
+  /** Options as shown to the trainee, for rendering multi-select and ordering answers */
+  options?: Pick<QuizOption, 'id' | 'optionText' | 'optionTextAr'>[];
+  selectedOptionIds?: string[];
+  correctOptionIds?: string[];
+  orderedOptionIds?: string[];
+  numericAnswer?: number | null;
+  correctNumericAnswer?: number | null;
+  numericTolerance?: number | null;
+  unit?: string | null;
+  textAnswer?: string | null;
+  referenceAnswer?: string | null;
+  referenceAnswerAr?: string | null;
+  /** AI grading of short answers; `pending` until the grader has run */
+  gradingStatus?: 'graded' | 'pending';
+  aiFeedback?: string | null;
+  aiFeedbackAr?: string | null;
+}
+
+/** An attempt as returned when it is started or resumed */
+export interface AttemptSession {
+  attemptId: string;
+  quizId: string;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  startedAt: string;
+  /** startedAt + timeLimit; null for untimed quizzes. The server submits the attempt at this time. */
+  expiresAt: string | null;
+  /** Server clock when the response was built, used to correct for client clock skew */
+  serverTime: string;
+  /** Bank quizzes: the questions drawn for this attempt */
+  questions?: QuizQuestion[];
+  /** Answers autosaved so far */
+  responses: SubmitResponseInput[];
 }
 
 export interface QuizAttemptResult {
@@ -81,6 +143,8 @@ export interface QuizAttemptResult {
   timeSpentSeconds: number;
   showCorrectAnswers: boolean;
   responses: ResponseResult[];
+  /** Issued when a passed quiz is set up to award a certificate */
+  certificate?: { id: string; verificationCode: string } | null;
 }
 
 export interface TraineeAttemptHistoryItem {
@@ -95,6 +159,10 @@ export interface TraineeAttemptHistoryItem {
   startedAt: string;
   completedAt: string | null;
   timeSpentSeconds: number | null;
+  /** Timed attempts only; an in-progress attempt can be resumed until then */
+  expiresAt?: string | null;
+  /** Submitted by the server when time ran out */
+  autoSubmitted?: boolean;
 }
 
 export interface AdminAttemptItem {
@@ -110,6 +178,92 @@ export interface AdminAttemptItem {
   timeSpentSeconds: number | null;
 }
 
+// ---- Item Analysis ----
+
+export interface OptionSelectionStat {
+  optionId: string;
+  optionText: string;
+  optionTextAr: string | null;
+  isCorrect: boolean;
+  /** Completed attempts that picked this option (multi_select counts each pick) */
+  timesChosen: number;
+}
+
+export interface QuestionItemStats {
+  questionId: string;
+  questionText: string;
+  questionTextAr: string | null;
+  questionType?: QuestionType;
+  orderInQuiz: number;
+  /** Completed attempts that were shown this question */
+  responseCount: number;
+  correctCount: number;
+  unansweredCount: number;
+  /** Share of responses that were correct, 0-1; higher means easier */
+  difficultyIndex: number | null;
+  /** Correct rate of the top 27% of scorers minus the bottom 27%, -1 to 1 */
+  discriminationIndex: number | null;
+  avgTimeSeconds: number | null;
+  /** Empty for numeric and short-answer questions */
+  options: OptionSelectionStat[];
+}
+
+export interface QuizItemAnalysis {
+  quizId: string;
+  completedAttempts: number;
+  questions: QuestionItemStats[];
+}
+
+// ---- Question Bank ----
+
+/** `fixed`: the quiz's own questions; `bank`: drawn from the question bank per attempt */
+export type QuestionSource = 'fixed' | 'bank';
+
+export interface QuestionStats {
+  timesAnswered: number;
+  timesCorrect: number;
+  /** 0-100, null until the question has been answered */
+  correctRate: number | null;
+}
+
+export interface BankQuestion extends Omit<QuizQuestion, 'orderInQuiz'> {
+  courseId: string | null;
+  topic: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  tags: string[];
+  stats: QuestionStats;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BankQuestionListParams {
+  search?: string;
+  tag?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  questionType?: QuestionType;
+  courseId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * "Draw `count` questions matching all of these filters". A quiz's rules are
+ * applied in order and never draw the same question twice.
+ */
+export interface QuestionDrawRule {
+  count: number;
+  difficulty?: 'easy' | 'medium' | 'hard' | null;
+  /** Questions must carry every listed tag */
+  tags?: string[];
+  courseId?: string | null;
+  topic?: string | null;
+}
+
+export interface DrawRulePreview {
+  /** Bank questions matching each rule, in rule order */
+  available: number[];
+}
+
 // ---- Input Types ----
 
 export interface CreateQuizInput {
@@ -125,17 +279,25 @@ export interface CreateQuizInput {
   showCorrectAnswers?: boolean;
   maxAttempts?: number | null;
   questions: CreateQuestionInput[];
+  questionSource?: QuestionSource;
+  drawRules?: QuestionDrawRule[];
 }
 
 export interface CreateQuestionInput {
   questionText: string;
   questionTextAr?: string | null;
-  questionType?: 'multiple_choice' | 'true_false';
+  questionType?: QuestionType;
   explanation?: string | null;
   explanationAr?: string | null;
   points?: number;
   orderInQuiz: number;
+  /** Empty for numeric and short-answer questions */
   options: CreateOptionInput[];
+  numericAnswer?: number | null;
+  numericTolerance?: number | null;
+  unit?: string | null;
+  referenceAnswer?: string | null;
+  referenceAnswerAr?: string | null;
 }
 
 export interface CreateOptionInput {
@@ -158,11 +320,29 @@ export interface UpdateQuizInput {
   showCorrectAnswers?: boolean;
   maxAttempts?: number | null;
   questions?: CreateQuestionInput[];
+  questionSource?: QuestionSource;
+  drawRules?: QuestionDrawRule[];
 }
 
+export interface CreateBankQuestionInput extends Omit<CreateQuestionInput, 'orderInQuiz'> {
+  courseId?: string | null;
+  topic?: string | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  tags: string[];
+}
+
+export type UpdateBankQuestionInput = Partial<CreateBankQuestionInput>;
+
 export interface SubmitResponseInput {
   questionId: string;
+  /** multiple_choice / true_false */
   selectedOptionId?: string | null;
+  /** multi_select */
+  selectedOptionIds?: string[];
+  /** ordering - every option id, in the trainee's order */
+  orderedOptionIds?: string[];
+  numericAnswer?: number | null;
+  textAnswer?: string | null;
 }
 
 export interface GenerateQuizInput {
@@ -170,5 +350,5 @@ export interface GenerateQuizInput {
   topic?: string;
   numberOfQuestions?: number;
   difficulty?: 'easy' | 'medium' | 'hard';
-  questionTypes?: ('multiple_choice' | 'true_false')[];
+  questionTypes?: QuestionType[];
 }
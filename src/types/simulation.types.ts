@@ -21,6 +21,10 @@ export interface StartSimulationInput {
   scenarioType: SimulationScenarioType;
   difficultyLevel: DifficultyLevel;
   customPersonaConfig?: Partial<ClientPersona>;
+  /** Admin-authored scenario; the server loads its persona, property and opening line */
+  scenarioId?: string;
+  /** Property listing the conversation is about; its fact sheet is shown next to the chat */
+  listingId?: string;
   recordSession: boolean;
 }
 
@@ -51,11 +55,23 @@ export interface StartSimulationOutput {
   initialClientMessage: string;
   estimatedDurationMinutes: number;
   tips: string[];
+  listing?: PropertyListing | null;
+  /** Other people in the room, each with an `id` the turns refer to */
+  additionalPersonas?: ClientPersona[];
+  /**
+   * Scripted scenario: the server answers from the script, picking the branch and
+   * keeping the score. The script itself is never sent to the trainee.
+   */
+  isScripted?: boolean;
 }
 
 export interface SimulationMessageOutput {
   sessionId: string;
   clientResponse: string;
+  /** Persona who gave `clientResponse`; absent means the primary client */
+  speakerId?: string | null;
+  /** Other parties chiming in after the main response, in order */
+  additionalResponses?: PartyResponse[];
   sentiment: Sentiment;
   conversationState: ConversationState;
   hints: string[];
@@ -63,6 +79,12 @@ export interface SimulationMessageOutput {
   elapsedTimeSeconds: number;
 }
 
+export interface PartyResponse {
+  speakerId: string;
+  message: string;
+  sentiment: Sentiment;
+}
+
 export interface EndSimulationOutput {
   sessionId: string;
   status: 'completed' | 'abandoned';
@@ -110,6 +132,12 @@ export interface SimulationAnalysisOutput {
   missedOpportunities: KeyMoment[];
   recommendations: Recommendation[];
   suggestedPracticeScenarios: SimulationScenarioType[];
+  /** Present when the simulation was started against a listing */
+  factAccuracy?: ListingFactAccuracy | null;
+  /** Present for multi-party sessions */
+  partyBalance?: PartyBalance | null;
+  /** Present when the scenario has a rubric; replaces `skillScores` in reports */
+  rubricEvaluation?: RubricEvaluation | null;
   historicalComparison?: {
     previousAverageScore: number;
     improvement: number;
@@ -117,3 +145,384 @@ export interface SimulationAnalysisOutput {
     persistentWeaknesses: string[];
   };
 }
+
+/** How evenly the trainee handled the people in a multi-party session */
+export interface PartyBalanceEntry {
+  speakerId: string;
+  name: string;
+  role: string | null;
+  /** Share of the trainee's messages directed at this party, 0-100 */
+  attentionShare: number;
+  addressedConcerns: string[];
+  ignoredConcerns: string[];
+  finalSentiment: Sentiment;
+}
+
+export interface PartyBalance {
+  /** 0-100 */
+  score: number;
+  summary: string;
+  parties: PartyBalanceEntry[];
+}
+
+// Scenario library
+export interface ScenarioPropertyDetails {
+  propertyType: string;
+  location: string;
+  /** Asking price as shown to the client, e.g. "1,200,000 SAR" */
+  price: string;
+  areaSqm: number | null;
+  bedrooms: number | null;
+  features: string[];
+  description: string;
+}
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  nameAr: string | null;
+  description: string | null;
+  scenarioType: SimulationScenarioType;
+  difficultyLevel: DifficultyLevel;
+  persona: ClientPersona;
+  /** Other people in the conversation, such as a spouse or the buyer's lawyer (missing on older scenarios) */
+  additionalPersonas?: ClientPersona[];
+  property: ScenarioPropertyDetails;
+  successCriteria: string[];
+  /** First thing the client says when the simulation starts */
+  openingLine: string;
+  /** Groups the scenario is assigned to; empty means every trainee in the organization */
+  groupIds: string[];
+  /** Rubric the analysis scores against; null uses the built-in skills */
+  rubricId: string | null;
+  /** Branching dialogue; when set the client follows it instead of the AI model */
+  script: ScenarioScript | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateScenarioInput = Omit<SimulationScenario, 'id' | 'createdAt' | 'updatedAt'>;
+export type UpdateScenarioInput = Partial<CreateScenarioInput>;
+
+/** Scenario card for trainees; the persona's objections and hidden concerns stay on the server */
+export interface AvailableScenario
+  extends Pick<
+    SimulationScenario,
+    'id' | 'name' | 'nameAr' | 'description' | 'scenarioType' | 'difficultyLevel' | 'property' | 'successCriteria'
+  > {
+  personaName: string;
+  personality: ClientPersona['personality'];
+  /** Names of the other parties, empty or missing for one-on-one scenarios */
+  additionalPersonaNames?: string[];
+  /** Scripted scenarios play the same way every time, e.g. for certification exams */
+  isScripted: boolean;
+}
+
+// Scripted scenarios
+/** Something the trainee may be trying to do, recognised from example phrases */
+export interface ScriptIntent {
+  id: string;
+  labelEn: string;
+  labelAr: string;
+  phrases: string[];
+}
+
+export interface ScriptBranch {
+  id: string;
+  /** Taken when the trainee's message contains any of these, case-insensitive */
+  keywords: string[];
+  /** Otherwise taken when the message is classified as this intent */
+  intentId: string | null;
+  /** Points awarded for taking the branch; may be negative */
+  score: number;
+  /** Node the client continues from */
+  nextNodeId: string;
+}
+
+/** A node without branches ends the conversation after its client line */
+export interface ScriptNode {
+  id: string;
+  clientLine: string;
+  sentiment: Sentiment;
+  conversationState: ConversationState;
+  /** Intents a good response would show; listed as hints */
+  expectedIntentIds: string[];
+  branches: ScriptBranch[];
+  /** Said when no branch matches; the conversation stays on this node */
+  fallbackLine: string;
+  /** Party who says this node's lines in multi-party scenarios; the primary client when unset */
+  speakerId?: string | null;
+}
+
+export interface ScenarioScript {
+  startNodeId: string;
+  intents: ScriptIntent[];
+  nodes: ScriptNode[];
+  /** Share of the best possible score (0-100) needed to pass */
+  passingScore: number;
+}
+
+/** Where a scripted conversation is and how it got there */
+export interface ScriptProgress {
+  nodeId: string;
+  score: number;
+  path: { nodeId: string; branchId: string | null; score: number }[];
+}
+
+// Property listings
+export interface ListingPaymentPlan {
+  name: string;
+  downPaymentPercent: number | null;
+  installmentYears: number | null;
+  notes: string;
+}
+
+export interface ListingDefect {
+  description: string;
+  severity: 'minor' | 'major';
+  /** What the agent should say about it; the analysis grades the answer against this */
+  resolution: string;
+}
+
+export interface PropertyListing {
+  id: string;
+  title: string;
+  titleAr: string | null;
+  propertyType: string;
+  price: number;
+  currency: string;
+  areaSqm: number;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  neighbourhood: string;
+  city: string;
+  photos: string[];
+  paymentPlans: ListingPaymentPlan[];
+  knownDefects: ListingDefect[];
+  highlights: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateListingInput = Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt'>;
+export type UpdateListingInput = Partial<CreateListingInput>;
+
+export type ListingFact = 'price' | 'area' | 'rooms' | 'location' | 'payment_plan' | 'defect' | 'other';
+
+/** One listing fact the trainee stated during the conversation */
+export interface ListingFactCheck {
+  fact: ListingFact;
+  /** What the trainee said, quoted from the transcript */
+  quoted: string;
+  /** The value on the fact sheet */
+  expected: string;
+  verdict: 'correct' | 'incorrect' | 'unverifiable';
+  explanation: string;
+}
+
+export interface ListingFactAccuracy {
+  listingId: string;
+  /** Share of checked statements that were correct, 0-100 */
+  score: number;
+  checks: ListingFactCheck[];
+  /** Known defects the client raised that the trainee did not address */
+  unaddressedDefects: string[];
+}
+
+// Scoring rubrics
+/** Descriptor for a band of scores on one criterion */
+export interface RubricLevel {
+  /** Lowest score (0-100) that reaches this level */
+  minScore: number;
+  labelEn: string;
+  labelAr: string;
+  descriptionEn: string;
+  descriptionAr: string;
+}
+
+export interface RubricCriterion {
+  /** Stable identifier the analysis scores are keyed by; kept when the labels change */
+  key: string;
+  labelEn: string;
+  labelAr: string;
+  /** Relative weight in the overall score */
+  weight: number;
+  levels: RubricLevel[];
+}
+
+export interface ScoringRubric {
+  id: string;
+  name: string;
+  nameAr: string | null;
+  description: string | null;
+  criteria: RubricCriterion[];
+  /** Scenarios currently scored with this rubric */
+  scenarioCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateRubricInput = Pick<ScoringRubric, 'name' | 'nameAr' | 'description' | 'criteria'>;
+export type UpdateRubricInput = Partial<CreateRubricInput>;
+
+export interface CriterionScore {
+  criterionKey: string;
+  score: number;
+  benchmark: number;
+  evidence: string[];
+  tips: string[];
+}
+
+/** Scores against the rubric as it was when the session was analysed */
+export interface RubricEvaluation {
+  rubricId: string;
+  name: string;
+  nameAr: string | null;
+  criteria: RubricCriterion[];
+  scores: CriterionScore[];
+}
+
+// Transcript annotations
+export type AnnotationTag =
+  | 'good_discovery_question'
+  | 'good_objection_handling'
+  | 'strong_rapport'
+  | 'missed_objection'
+  | 'missed_closing_signal'
+  | 'inaccurate_information';
+
+/** A trainer note or a reply attached to one turn of a stored simulation transcript */
+export interface TranscriptComment {
+  id: string;
+  sessionId: string;
+  turnId: string;
+  /** Set on replies; top-level notes start a thread */
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  authorRole: 'trainer' | 'trainee';
+  body: string;
+  /** Only trainers tag turns, and only on top-level notes */
+  tags: AnnotationTag[];
+  /** What the trainee could have said instead */
+  suggestedResponse: string | null;
+  createdAt: string;
+}
+
+export interface CreateTranscriptCommentInput {
+  turnId: string;
+  parentId?: string;
+  body: string;
+  tags?: AnnotationTag[];
+  suggestedResponse?: string;
+}
+
+/** A top-level note with its replies in posting order */
+export interface TranscriptThread {
+  comment: TranscriptComment;
+  replies: TranscriptComment[];
+}
+
+/** A session with trainer feedback the trainee has not opened yet */
+export interface UnreadFeedback {
+  sessionId: string;
+  scenarioType: string;
+  commentCount: number;
+  lastAuthorName: string;
+  lastCommentAt: string;
+}
+
+// Live observation
+export type LiveSessionMode = 'text' | 'voice';
+
+/** An in-progress simulation in one of the trainer's groups */
+export interface LiveSessionSummary {
+  sessionId: string;
+  traineeId: string;
+  traineeName: string;
+  groupName: string | null;
+  mode: LiveSessionMode;
+  scenarioType: SimulationScenarioType;
+  difficultyLevel: DifficultyLevel;
+  startedAt: string;
+  turnCount: number;
+  currentSentiment: Sentiment;
+  lastTurnAt: string | null;
+}
+
+export interface LiveTurn {
+  sessionId: string;
+  speaker: 'trainee' | 'client';
+  message: string;
+  timestamp: string;
+  sentiment: Sentiment | null;
+}
+
+/** A private coaching hint from a trainer; only the trainee sees it, never the simulated client */
+export interface WhisperHint {
+  id: string;
+  sessionId: string;
+  message: string;
+  trainerName: string;
+  sentAt: string;
+}
+
+export interface LiveSessionDetail {
+  session: LiveSessionSummary;
+  turns: LiveTurn[];
+  whispers: WhisperHint[];
+}
+
+/** A turn of a voice call, which the backend doesn't relay itself, as the trainee's app reports it */
+export type LiveTurnInput = Pick<LiveTurn, 'speaker' | 'message' | 'timestamp'>;
+
+/** Messages the trainee's app sends over the live WebSocket after subscribing */
+export type LiveClientMessage = { type: 'turn'; payload: LiveTurnInput & { sessionId: string } };
+
+/** Messages pushed over the live WebSocket */
+export type LiveEvent =
+  | { type: 'session_started'; payload: LiveSessionSummary }
+  | { type: 'session_ended'; payload: { sessionId: string } }
+  | { type: 'turn'; payload: LiveTurn }
+  | { type: 'whisper'; payload: WhisperHint };
+
+/** Who talks in a voice session, for speech delivery metrics */
+export type DeliverySpeaker = 'trainee' | 'client';
+
+/** One stretch of speech, in ms from the start of the call */
+export interface DeliverySegment {
+  speaker: DeliverySpeaker;
+  startMs: number;
+  endMs: number;
+}
+
+export interface FillerCount {
+  word: string;
+  count: number;
+}
+
+export interface DeliveryMetrics {
+  durationSeconds: number;
+  traineeWords: number;
+  wordsPerMinute: number;
+  fillers: {
+    total: number;
+    arabic: FillerCount[];
+    english: FillerCount[];
+  };
+  longestMonologueSeconds: number;
+  /** Times the trainee started talking over the client */
+  interruptions: number;
+  silenceGaps: {
+    count: number;
+    totalSeconds: number;
+    longestSeconds: number;
+  };
+  /** Trainee share of all talk time, 0-1 */
+  talkTimeRatio: number;
+  timeline: DeliverySegment[];
+  /** Call offsets where the trainee interrupted */
+  interruptionsAtMs: number[];
+}
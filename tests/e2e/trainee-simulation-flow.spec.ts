@@ -1,4 +1,6 @@
 import { test, expect, Page } from '@playwright/test';
+import { runScriptTurn, startScriptProgress } from '../../src/lib/simulation/script-runner';
+import type { ScenarioScript } from '@/types/simulation.types';
 
 // Test fixtures
 const testTrainee = {
@@ -8,6 +10,105 @@ const testTrainee = {
   lastName: 'Trainee',
 };
 
+// Scripted scenario served in place of the backend's, so replies are known in advance
+const scriptedScenario = {
+  id: 'scripted-exam-1',
+  name: 'Scripted Villa Enquiry',
+  nameAr: null,
+  description: 'Deterministic exam scenario',
+  scenarioType: 'first_contact',
+  difficultyLevel: 'easy',
+  property: { propertyType: 'Villa', location: 'Al Olaya', price: '2,000,000 SAR', areaSqm: 400, bedrooms: 5, features: [], description: '' },
+  successCriteria: ['Ask about the family'],
+  personaName: 'Fahad',
+  personality: 'friendly',
+  additionalPersonaNames: [],
+  isScripted: true,
+};
+
+const villaScript: ScenarioScript = {
+  startNodeId: 'greeting',
+  passingScore: 70,
+  intents: [
+    { id: 'ask_needs', labelEn: 'Ask about their needs', labelAr: 'اسأل عن احتياجاته', phrases: ['what are you looking for'] },
+  ],
+  nodes: [
+    {
+      id: 'greeting',
+      clientLine: 'Hello, I am interested in the villa in Al Olaya.',
+      sentiment: 'neutral',
+      conversationState: 'opening',
+      expectedIntentIds: ['ask_needs'],
+      fallbackLine: 'Sorry, could you say that differently?',
+      speakerId: null,
+      branches: [
+        { id: 'discount', keywords: ['discount'], intentId: null, score: -5, nextNodeId: 'annoyed' },
+        { id: 'needs', keywords: [], intentId: 'ask_needs', score: 10, nextNodeId: 'family' },
+      ],
+    },
+    {
+      id: 'family',
+      clientLine: 'We are a family of five and need four bedrooms near a school.',
+      sentiment: 'positive',
+      conversationState: 'discovery',
+      expectedIntentIds: [],
+      fallbackLine: '',
+      speakerId: null,
+      branches: [],
+    },
+    {
+      id: 'annoyed',
+      clientLine: 'I am not ready to talk about price yet.',
+      sentiment: 'negative',
+      conversationState: 'ended',
+      expectedIntentIds: [],
+      fallbackLine: '',
+      speakerId: null,
+      branches: [],
+    },
+  ],
+};
+
+async function mockScriptedScenario(page: Page) {
+  // The server runs scripted sessions; this mock applies the same rules
+  let progress = startScriptProgress(villaScript);
+  await page.route('**/api/simulations/scenarios', (route) =>
+    route.fulfill({ json: { scenarios: [scriptedScenario] } })
+  );
+  await page.route('**/api/simulations/start', (route) =>
+    route.fulfill({
+      json: {
+        sessionId: 'scripted-session-1',
+        status: 'ready',
+        clientPersona: { name: 'Fahad', personality: 'friendly', background: 'Father of three', budget: '2M SAR' },
+        scenarioContext: 'A family is enquiring about a villa.',
+        initialClientMessage: villaScript.nodes[0].clientLine,
+        estimatedDurationMinutes: 5,
+        tips: [],
+        listing: null,
+        isScripted: true,
+      },
+    })
+  );
+  await page.route('**/api/simulations/scripted-session-1/message', (route) => {
+    const turn = runScriptTurn(villaScript, progress, route.request().postDataJSON().message);
+    progress = turn.progress;
+    const turnNumber = progress.path.length;
+    return route.fulfill({
+      json: {
+        sessionId: 'scripted-session-1',
+        clientResponse: turn.clientResponse,
+        speakerId: turn.node.speakerId,
+        sentiment: turn.node.sentiment,
+        conversationState: turn.ended ? 'ended' : turn.node.conversationState,
+        hints: [],
+        turnNumber,
+        elapsedTimeSeconds: turnNumber * 20,
+      },
+    });
+  });
+}
+
 // Page Object Models
 class LoginPage {
   constructor(private page: Page) {}
@@ -256,6 +357,49 @@ test.describe('Trainee Login to Simulation Flow', () => {
     });
   });
 
+  test.describe('Scripted Scenario', () => {
+    test.beforeEach(async ({ page }) => {
+      const loginPage = new LoginPage(page);
+      const dashboardPage = new DashboardPage(page);
+
+      await mockScriptedScenario(page);
+      await loginPage.goto();
+      await loginPage.login(testTrainee.email, testTrainee.password);
+      await dashboardPage.navigateToSimulations();
+
+      await page.getByText(scriptedScenario.name).click();
+      await page.getByRole('button', { name: /start simulation/i }).click();
+      await page.getByRole('button', { name: /chat simulation/i }).click();
+      await expect(page.getByText(villaScript.nodes[0].clientLine)).toBeVisible();
+    });
+
+    test('should follow the intent branch with the authored reply', async ({ page }) => {
+      const simulationPage = new SimulationPage(page);
+
+      await simulationPage.sendMessage('Welcome! What are you looking for in a home?');
+
+      await expect(page.getByText(villaScript.nodes[1].clientLine)).toBeVisible();
+    });
+
+    test('should prefer a keyword branch over the classified intent', async ({ page }) => {
+      const simulationPage = new SimulationPage(page);
+
+      await simulationPage.sendMessage('What are you looking for? I can offer a discount today.');
+
+      await expect(page.getByText(villaScript.nodes[2].clientLine)).toBeVisible();
+    });
+
+    test('should answer unmatched messages with the fallback line and stay on the node', async ({ page }) => {
+      const simulationPage = new SimulationPage(page);
+
+      await simulationPage.sendMessage('Nice weather today.');
+      await expect(page.getByText(villaScript.nodes[0].fallbackLine)).toBeVisible();
+
+      await simulationPage.sendMessage('So, what are you looking for?');
+      await expect(page.getByText(villaScript.nodes[1].clientLine)).toBeVisible();
+    });
+  });
+
   test.describe('Cross-browser Compatibility', () => {
     test('should work on mobile viewport', async ({ page }) => {
       await page.setViewportSize({ width: 375, height: 667 });